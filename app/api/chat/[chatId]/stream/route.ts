@@ -0,0 +1,106 @@
+import { convexAuthNextjsToken } from "@convex-dev/auth/nextjs/server";
+import {
+  createUIMessageStream,
+  createUIMessageStreamResponse,
+  type UIMessage,
+} from "ai";
+import { fetchQuery } from "convex/nextjs";
+import { api } from "@/convex/_generated/api";
+import type { Id } from "@/convex/_generated/dataModel";
+import { createErrorResponse } from "@/lib/error-utils";
+import {
+  diffPartsToChunks,
+  isStaleStreamingMessage,
+  RESUMABLE_STREAM_POLL_INTERVAL_MS,
+} from "@/lib/resumable-stream";
+
+// Match the chat route so a resumed stream can follow the whole generation
+export const maxDuration = 300;
+
+const sleep = (ms: number) =>
+  new Promise((resolve) => {
+    setTimeout(resolve, ms);
+  });
+
+/**
+ * Resumes an in-flight assistant answer for a chat.
+ * Replays the parts persisted so far, then follows the row until the chat
+ * route marks it complete. Responds 204 when there is nothing to resume.
+ */
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ chatId: string }> }
+) {
+  try {
+    const token = await convexAuthNextjsToken();
+    if (!token) {
+      return createErrorResponse(new Error("Unauthorized"));
+    }
+
+    const { chatId } = await params;
+    const messageId = new URL(req.url).searchParams.get("messageId");
+
+    const resumable = await fetchQuery(
+      api.messages.getResumableMessage,
+      {
+        chatId: chatId as Id<"chats">,
+        ...(messageId ? { messageId: messageId as Id<"messages"> } : {}),
+      },
+      { token }
+    );
+
+    if (
+      !resumable ||
+      resumable.status !== "streaming" ||
+      isStaleStreamingMessage(resumable.updatedAt)
+    ) {
+      return new Response(null, { status: 204 });
+    }
+
+    const stream = createUIMessageStream({
+      async execute({ writer }) {
+        writer.write({ type: "start", messageId: resumable._id });
+
+        let sentParts: UIMessage["parts"] = [];
+        let current = resumable;
+
+        while (true) {
+          const nextParts: UIMessage["parts"] = current.parts ?? [];
+          for (const chunk of diffPartsToChunks(sentParts, nextParts)) {
+            writer.write(chunk);
+          }
+          sentParts = nextParts;
+
+          if (
+            current.status !== "streaming" ||
+            isStaleStreamingMessage(current.updatedAt) ||
+            req.signal.aborted
+          ) {
+            break;
+          }
+
+          await sleep(RESUMABLE_STREAM_POLL_INTERVAL_MS);
+
+          const next = await fetchQuery(
+            api.messages.getResumableMessage,
+            {
+              chatId: chatId as Id<"chats">,
+              messageId: resumable._id,
+            },
+            { token }
+          );
+          if (!next) {
+            break;
+          }
+          current = next;
+        }
+
+        writer.write({ type: "finish" });
+      },
+    });
+
+    return createUIMessageStreamResponse({ stream });
+  } catch (err) {
+    return createErrorResponse(err);
+  }
+}
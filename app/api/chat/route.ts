@@ -1,7 +1,4 @@
 /** biome-ignore-all lint/complexity/noExcessiveCognitiveComplexity: <main route> */
-import type { AnthropicProviderOptions } from "@ai-sdk/anthropic";
-import type { GoogleGenerativeAIProviderOptions } from "@ai-sdk/google";
-import type { OpenAIResponsesProviderOptions } from "@ai-sdk/openai";
 import { convexAuthNextjsToken } from "@convex-dev/auth/nextjs/server";
 // import { withTracing } from '@posthog/ai';
 import {
@@ -12,21 +9,54 @@ import {
   type FileUIPart,
   experimental_generateImage as generateImage,
   type JSONValue,
+  readUIMessageStream,
   smoothStream,
   stepCountIs,
   streamText,
   type Tool,
   type UIMessage,
+  type UIMessageChunk,
 } from "ai";
-import { fetchMutation, fetchQuery } from "convex/nextjs";
+import { fetchAction, fetchMutation, fetchQuery } from "convex/nextjs";
 import { ConvexError, type Infer } from "convex/values";
-import { searchTool } from "@/app/api/tools/search";
+import { createDeepResearchTool } from "@/app/api/tools/deep-research";
+import { fetchUrlTool } from "@/app/api/tools/fetch-url";
+import { createMemoryTools } from "@/app/api/tools/memory";
+import { createRunCodeTool } from "@/app/api/tools/run-code";
+import { createSearchTool } from "@/app/api/tools/search";
+import { createSearchDocumentsTool } from "@/app/api/tools/search-documents";
 import { api } from "@/convex/_generated/api";
 import type { Id } from "@/convex/_generated/dataModel";
 import type { Message } from "@/convex/schema/message";
-import { MODELS_MAP } from "@/lib/config";
-import { calculateConnectorStatus } from "@/lib/connector-utils";
+import type { ApiKeyProvider } from "@/lib/api-key-providers";
+import {
+  CODE_SANDBOX_CONFIG,
+  type DataFileInput,
+  getDataFileInputs,
+  isDataFileMime,
+} from "@/lib/code-sandbox";
+import { MAX_COMPARE_MODELS, MODELS_MAP } from "@/lib/config";
+import {
+  calculateConnectorStatus,
+  restrictConnectorStatus,
+} from "@/lib/connector-utils";
+import {
+  applyContextSummary,
+  buildSummaryPrompt,
+  CONTEXT_CONFIG,
+  estimateMessagesTokens,
+  estimateTokens,
+  getContextBudget,
+  splitForCompaction,
+  summarizeMessages,
+} from "@/lib/context-window";
 import { createAgentTool } from "@/lib/create-agent-tool";
+import {
+  buildCustomModel,
+  isCustomModelId,
+  parseCustomModelId,
+} from "@/lib/custom-models";
+import { createCustomLanguageModel } from "@/lib/custom-models-server";
 import { limitDepth } from "@/lib/depth-limiter";
 import { ERROR_CODES } from "@/lib/error-codes";
 import {
@@ -36,17 +66,36 @@ import {
   createStreamingError,
   shouldShowInConversation,
 } from "@/lib/error-utils";
+import {
+  type ModelAttemptPlan,
+  planModelAttempts,
+  shouldMoveToNextAttempt,
+} from "@/lib/model-fallback";
+import { getBuiltInFallbackModelIds } from "@/lib/model-utils";
 import { buildSystemPrompt, PERSONAS_MAP } from "@/lib/prompt_config";
 import {
   detectProviderErrorFromObject,
   detectProviderErrorInText,
 } from "@/lib/provider-error-detector";
+import {
+  buildProviderOptions,
+  type ReasoningEffort,
+} from "@/lib/reasoning-options";
+import {
+  RESUMABLE_STREAM_HEARTBEAT_MS,
+  RESUMABLE_STREAM_PERSIST_INTERVAL_MS,
+} from "@/lib/resumable-stream";
 import { sanitizeUserInput } from "@/lib/sanitize";
 import { uploadBlobToR2 } from "@/lib/server-upload-helpers";
+import { computeCostUsd } from "@/lib/usage-cost";
+import { createUserKeyModel, getUserKeyProvider } from "@/lib/user-key-models";
 
 // Maximum allowed duration for streaming (in seconds)
 export const maxDuration = 300;
 
+// Proves to Convex that the answer's cost comes from this server
+const serverSecret = process.env.PUBLIC_API_SERVER_SECRET ?? "";
+
 /**
  * Helper function to save an error message as an assistant message
  */
@@ -96,23 +145,97 @@ async function saveErrorMessage(
   }
 }
 
-type ReasoningEffort = "low" | "medium" | "high";
-type SupportedProvider =
-  | "openrouter"
-  | "openai"
-  | "anthropic"
-  | "mistral"
-  | "meta"
-  | "Qwen";
+/**
+ * Helper function to keep a streaming assistant row in sync with the answer
+ * as it is generated, so a reloaded client can resume it
+ */
+async function persistStreamingMessage(
+  stream: ReadableStream<UIMessageChunk>,
+  streamingMessageId: Promise<Id<"messages"> | null>,
+  token: string | undefined
+) {
+  try {
+    const messageId = await streamingMessageId;
+    if (!(messageId && token)) {
+      await consumeStream({ stream });
+      return;
+    }
+
+    let latest: { content: string; parts: UIMessage["parts"] } = {
+      content: "",
+      parts: [],
+    };
+    let lastPersistedAt = Date.now();
+    const persistLatest = () => {
+      lastPersistedAt = Date.now();
+      return fetchMutation(
+        api.messages.updateStreamingMessage,
+        {
+          messageId,
+          content: latest.content,
+          parts: limitDepth(latest.parts, 14),
+        },
+        { token }
+      );
+    };
+
+    // Tool calls and hidden reasoning can run longer than the stale limit
+    // without output, so the row is rewritten on a timer while the stream
+    // is open
+    const heartbeat = setInterval(() => {
+      if (Date.now() - lastPersistedAt >= RESUMABLE_STREAM_HEARTBEAT_MS) {
+        persistLatest().catch(() => {
+          // Best effort, like the snapshots below
+        });
+      }
+    }, RESUMABLE_STREAM_HEARTBEAT_MS);
+
+    try {
+      for await (const snapshot of readUIMessageStream({ stream })) {
+        latest = {
+          content: snapshot.parts
+            .filter((part) => part.type === "text")
+            .map((part) => part.text)
+            .join(""),
+          parts: snapshot.parts,
+        };
+        if (
+          Date.now() - lastPersistedAt <
+          RESUMABLE_STREAM_PERSIST_INTERVAL_MS
+        ) {
+          continue;
+        }
+        await persistLatest();
+      }
+    } finally {
+      clearInterval(heartbeat);
+    }
+  } catch (_err) {
+    // Persisting partial output is best effort; onFinish saves the answer
+  }
+}
+
+type ChatModel = (typeof MODELS_MAP)[string];
+
+type CompareRequest = {
+  groupId: string;
+  modelIds: string[];
+};
 
 /**
- * Helper function to save user message to chat if not in reload mode
+ * Helper function to save user message to chat if not in reload mode.
+ * Requests of the same comparison resolve to one shared user message, and an
+ * edit is saved as a new version next to the edited message.
  */
 async function saveUserMessage(
   messages: UIMessage[],
   chatId: Id<"chats">,
   token: string | undefined,
-  reloadAssistantMessageId?: Id<"messages">
+  reloadAssistantMessageId?: Id<"messages">,
+  {
+    compare,
+    versionOfMessageId,
+  }: { compare?: CompareRequest; versionOfMessageId?: Id<"messages"> } = {}
 ): Promise<Id<"messages"> | null> {
   if (!reloadAssistantMessageId && token) {
     const userMessage = messages.at(-1);
@@ -136,6 +259,13 @@ async function saveUserMessage(
           content: sanitizeUserInput(textContent),
           parts: userParts,
           metadata: {}, // Empty metadata for user messages
+          ...(compare
+            ? {
+                compareGroupId: compare.groupId,
+                compareModelIds: compare.modelIds,
+              }
+            : {}),
+          versionOfMessageId,
         },
         { token }
       );
@@ -145,71 +275,6 @@ async function saveUserMessage(
   return null;
 }
 
-/**
- * Centralized reasoning effort configuration
- * - low: For quick responses with minimal reasoning depth
- * - medium: Balanced reasoning depth for most use cases
- * - high: Maximum reasoning depth for complex problems
- *
- * tokens: Used by Google and Anthropic providers
- * effort: Used by OpenAI and OpenRouter providers
- */
-const REASONING_EFFORT_CONFIG = {
-  low: {
-    tokens: 1024,
-    effort: "low",
-  },
-  medium: {
-    tokens: 6000,
-    effort: "medium",
-  },
-  high: {
-    tokens: 12_000,
-    effort: "high",
-  },
-} as const;
-
-/**
- * Maps reasoning effort to provider-specific configuration
- * Uses feature-based detection instead of hardcoded patterns
- */
-const mapReasoningEffortToProviderConfig = (
-  provider: string,
-  effort: ReasoningEffort
-): Record<string, unknown> => {
-  const config = REASONING_EFFORT_CONFIG[effort];
-
-  switch (provider) {
-    case "openai":
-      return { reasoningEffort: config.effort };
-
-    case "anthropic":
-      return {
-        thinking: {
-          budgetTokens: config.tokens,
-        },
-      };
-
-    case "google":
-    case "gemini":
-      return {
-        thinkingConfig: {
-          thinkingBudget: config.tokens,
-        },
-      };
-
-    case "openrouter":
-      return {
-        reasoning: {
-          effort: config.effort,
-        },
-      };
-
-    default:
-      return {};
-  }
-};
-
 type ChatRequest = {
   messages: UIMessage[];
   chatId: Id<"chats">;
@@ -218,23 +283,41 @@ type ChatRequest = {
   reloadAssistantMessageId?: Id<"messages">;
   editMessageId?: Id<"messages">;
   enableSearch?: boolean;
+  deepResearch?: boolean;
   reasoningEffort?: ReasoningEffort;
   userInfo?: { timezone?: string };
+  compareGroupId?: string;
+  compareModelIds?: string[];
 };
 
 /**
- * Helper function to check if a model should have thinking enabled
- * based on its features configuration
+ * Helper function to resolve a model served by one of the user's custom
+ * endpoints
  */
-const shouldEnableThinking = (modelId: string): boolean => {
-  const model = MODELS_MAP[modelId];
-  if (!model) {
-    return false;
+async function resolveCustomModel(
+  modelId: string,
+  token: string | undefined
+): Promise<ChatModel | undefined> {
+  const parsed = parseCustomModelId(modelId);
+  if (!(parsed && token)) {
+    return;
   }
-
-  const reasoningFeature = model.features?.find((f) => f.id === "reasoning");
-  return reasoningFeature?.enabled === true;
-};
+  const config = await fetchQuery(
+    api.custom_endpoints.getCustomModelConfig,
+    parsed,
+    { token }
+  ).catch(() => null);
+  if (!config) {
+    return;
+  }
+  return {
+    ...buildCustomModel(
+      { _id: parsed.endpointId, name: config.endpointName },
+      config.model
+    ),
+    api_sdk: createCustomLanguageModel(config),
+  };
+}
 
 /**
  * Helper function to check if a model supports tool calling
@@ -250,96 +333,157 @@ const supportsToolCalling = (
   );
 };
 
-const buildGoogleProviderOptions = (
-  modelId: string,
-  reasoningEffort?: ReasoningEffort
-): GoogleGenerativeAIProviderOptions => {
-  const options: GoogleGenerativeAIProviderOptions = {};
-
-  // Check if model supports reasoning using feature-based detection
-  if (shouldEnableThinking(modelId) && reasoningEffort) {
-    const reasoningConfig = mapReasoningEffortToProviderConfig(
-      "google",
-      reasoningEffort
-    );
+type ProjectAttachment = {
+  url: string;
+  fileName?: string;
+  fileType?: string;
+};
 
-    if (reasoningConfig.thinkingConfig) {
-      options.thinkingConfig = {
-        includeThoughts: true,
-        ...reasoningConfig.thinkingConfig,
-      } as GoogleGenerativeAIProviderOptions["thinkingConfig"];
-    }
+/**
+ * Helper function to share a project's reference files with the model as a
+ * leading user message, skipping file types the model cannot read
+ */
+const getProjectFilesMessages = (
+  model: ChatModel,
+  attachments: ProjectAttachment[] = []
+): UIMessage[] => {
+  const hasFeature = (featureId: string) =>
+    model.features?.some(
+      (feature) => feature.id === featureId && feature.enabled
+    ) ?? false;
+
+  const fileParts: FileUIPart[] = attachments
+    .filter((attachment) =>
+      attachment.fileType === "application/pdf"
+        ? hasFeature("pdf-processing")
+        : attachment.fileType?.startsWith("image/") && hasFeature("file-upload")
+    )
+    .map((attachment) => ({
+      type: "file",
+      mediaType: attachment.fileType ?? "application/octet-stream",
+      url: attachment.url,
+      filename: attachment.fileName,
+    }));
+
+  if (fileParts.length === 0) {
+    return [];
   }
 
-  return options;
+  return [
+    {
+      id: "project-files",
+      role: "user",
+      parts: [
+        { type: "text", text: "Reference files for this project:" },
+        ...fileParts,
+      ],
+    },
+  ];
 };
 
-const buildOpenAIProviderOptions = (
-  modelId: string,
-  reasoningEffort?: ReasoningEffort
-): OpenAIResponsesProviderOptions => {
-  const options: OpenAIResponsesProviderOptions = {};
-
-  // Check if model supports reasoning using feature-based detection
-  if (shouldEnableThinking(modelId) && reasoningEffort) {
-    const reasoningConfig = mapReasoningEffortToProviderConfig(
-      "openai",
-      reasoningEffort
-    );
-
-    if (reasoningConfig.reasoningEffort) {
-      options.reasoningEffort =
-        reasoningConfig.reasoningEffort as ReasoningEffort;
-      options.reasoningSummary = "detailed";
-    }
+// Helper function to read the plain text of a message
+const getMessageText = (message?: UIMessage): string =>
+  (message?.parts ?? [])
+    .filter((part) => part.type === "text")
+    .map((part) => part.text)
+    .join(" ");
+
+// Helper function to get the note that stands in for an attached file most
+// providers reject as a file input, or null for files they can read
+const getFilePartNote = (
+  part: FileUIPart,
+  dataFiles: DataFileInput[] | null
+): string | null => {
+  const fileName = part.filename ?? "untitled";
+  if (isDataFileMime(part.mediaType)) {
+    const dataFile = dataFiles?.find((file) => file.url === part.url);
+    return dataFile
+      ? `[Attached data file "${fileName}". It is available to run_code as ${dataFile.name} in the working directory.]`
+      : `[Attached data file "${fileName}". It cannot be analyzed in this chat.]`;
   }
-
-  return options;
+  if (part.mediaType.startsWith("text/")) {
+    return `[Attached document "${fileName}". Use search_documents to read it.]`;
+  }
+  return null;
 };
 
-const buildAnthropicProviderOptions = (
-  modelId: string,
-  reasoningEffort?: ReasoningEffort
-): AnthropicProviderOptions => {
-  const options: AnthropicProviderOptions = {};
-
-  // Check if model supports reasoning using feature-based detection
-  if (shouldEnableThinking(modelId) && reasoningEffort) {
-    const reasoningConfig = mapReasoningEffortToProviderConfig(
-      "anthropic",
-      reasoningEffort
-    );
+/**
+ * Helper function to swap attached text and data files for a short note.
+ * Text files are indexed and reachable through search_documents; data files
+ * are handed to run_code when it is available.
+ */
+const replaceUnreadableFileParts = (
+  messages: UIMessage[],
+  dataFiles: DataFileInput[] | null
+): UIMessage[] =>
+  messages.map((message) =>
+    message.parts.some(
+      (part) => part.type === "file" && getFilePartNote(part, dataFiles)
+    )
+      ? {
+          ...message,
+          parts: message.parts.map((part) => {
+            const note =
+              part.type === "file" ? getFilePartNote(part, dataFiles) : null;
+            return note ? { type: "text" as const, text: note } : part;
+          }),
+        }
+      : message
+  );
 
-    if (reasoningConfig.thinking) {
-      options.thinking = {
-        type: "enabled",
-        ...reasoningConfig.thinking,
-      } as AnthropicProviderOptions["thinking"];
-    }
-  }
+/**
+ * UI stream chunk types that mean a model has started answering. Once one of
+ * these reaches the client we can no longer switch to a fallback model.
+ */
+const OUTPUT_CHUNK_TYPES = new Set<UIMessageChunk["type"]>([
+  "text-delta",
+  "reasoning-delta",
+  "tool-input-start",
+  "tool-input-available",
+  "source-url",
+  "source-document",
+  "file",
+]);
 
-  return options;
+/**
+ * State for a single model attempt within a fallback chain
+ */
+type FallbackAttempt = {
+  model: ChatModel;
+  useUserKey: boolean;
+  next?: ModelAttemptPlan; // The attempt that follows if this one fails
+  hasOutput: boolean;
+  error?: unknown;
+  abortController: AbortController;
 };
 
-const buildOpenRouterProviderOptions = (
-  modelId: string,
-  reasoningEffort?: ReasoningEffort
-): Record<string, unknown> => {
-  const options: Record<string, unknown> = {};
-
-  // Check if model supports reasoning using feature-based detection
-  if (shouldEnableThinking(modelId) && reasoningEffort) {
-    const reasoningConfig = mapReasoningEffortToProviderConfig(
-      "openrouter",
-      reasoningEffort
-    );
+/**
+ * Helper function to check if an error on an attempt should move the request
+ * on to the next model in the chain instead of surfacing to the user
+ */
+const shouldFallBack = (attempt: FallbackAttempt, error: unknown): boolean => {
+  if (attempt.hasOutput) {
+    return false;
+  }
 
-    if (reasoningConfig.reasoning) {
-      options.reasoning = reasoningConfig.reasoning;
-    }
+  return shouldMoveToNextAttempt(
+    { modelId: attempt.model.id, useUserKey: attempt.useUserKey },
+    attempt.next,
+    detectProviderErrorFromObject(error, attempt.model.provider)
+  );
+};
+
+/**
+ * Helper function to turn a streaming error into the text shown to the user
+ */
+const getStreamErrorText = (error: unknown, provider: string): string => {
+  const detectedError = detectProviderErrorFromObject(error, provider);
+  if (detectedError) {
+    return detectedError.userFriendlyMessage;
   }
 
-  return options;
+  const { errorPayload } = createStreamingError(error);
+  return errorPayload.error.message;
 };
 
 /**
@@ -351,19 +495,27 @@ async function handleImageGeneration({
   selectedModel,
   userMsgId,
   token,
+  compare,
 }: {
   messages: UIMessage[];
   chatId: Id<"chats">;
   selectedModel: (typeof MODELS_MAP)[string];
   userMsgId: Id<"messages"> | null;
   token?: string;
+  compare?: CompareRequest;
 }) {
   let currentUserMsgId: Id<"messages"> | null = userMsgId;
 
   try {
     // Save user message first
     if (!currentUserMsgId && token) {
-      currentUserMsgId = await saveUserMessage(messages, chatId, token);
+      currentUserMsgId = await saveUserMessage(
+        messages,
+        chatId,
+        token,
+        undefined,
+        { compare }
+      );
     }
     // Extract the prompt from the last user message parts
     const lastMessage = messages.at(-1);
@@ -481,8 +633,11 @@ export async function POST(req: Request) {
       reloadAssistantMessageId,
       editMessageId,
       enableSearch,
+      deepResearch,
       reasoningEffort,
       userInfo,
+      compareGroupId,
+      compareModelIds,
     } = (await req.json()) as ChatRequest;
 
     if (!(messages && chatId)) {
@@ -502,53 +657,142 @@ export async function POST(req: Request) {
       );
     }
 
-    const selectedModel = MODELS_MAP[model];
+    const token = await convexAuthNextjsToken();
+
+    const selectedModel =
+      MODELS_MAP[model] ?? (await resolveCustomModel(model, token));
     if (!selectedModel) {
       return createErrorResponse(new Error("Invalid 'model' provided."));
     }
 
-    const token = await convexAuthNextjsToken();
+    // --- Compare Mode Validation ---
+    let compare: CompareRequest | undefined;
+    if (compareGroupId !== undefined) {
+      if (
+        typeof compareGroupId !== "string" ||
+        compareGroupId.trim() === "" ||
+        !Array.isArray(compareModelIds) ||
+        compareModelIds.length > MAX_COMPARE_MODELS ||
+        !compareModelIds.includes(selectedModel.id) ||
+        compareModelIds.some(
+          (id) => !(MODELS_MAP[id] || isCustomModelId(id))
+        ) ||
+        reloadAssistantMessageId ||
+        editMessageId
+      ) {
+        return createErrorResponse(
+          new Error("Invalid comparison request provided.")
+        );
+      }
+      compare = { groupId: compareGroupId, modelIds: compareModelIds };
+    }
 
     // Get current user first (needed for multiple operations below)
     const user = await fetchQuery(api.users.getCurrentUser, {}, { token });
 
+    // Fallback models always run on built-in keys
+    const fallbackModels = getBuiltInFallbackModelIds(
+      selectedModel.id,
+      user?.disabledModels
+    ).map((fallbackId) => MODELS_MAP[fallbackId]);
+
+    // Deep research runs many searches, so it needs a signed-in user and a
+    // model that can call tools
+    const enableDeepResearch = Boolean(
+      deepResearch &&
+        user &&
+        !user.isAnonymous &&
+        supportsToolCalling(selectedModel)
+    );
+
     // --- Optimized Parallel Database Queries ---
     // Run independent queries in parallel to reduce latency
-    const [userKeys, isUserPremiumForPremiumModels, userConnectors] =
-      await Promise.all([
-        // Get user API keys if model allows user keys
-        selectedModel.apiKeyUsage?.allowUserKey
-          ? fetchQuery(api.api_keys.getApiKeys, {}, { token }).catch(() => [])
-          : Promise.resolve([]),
-        // Check premium status for premium models (only if needed)
-        selectedModel.premium
-          ? fetchQuery(api.users.userHasPremium, {}, { token }).catch(
-              () => false
-            )
-          : Promise.resolve(false),
-        // Get user connectors from database (authoritative source)
-        user
-          ? fetchQuery(api.connectors.listUserConnectors, {}, { token }).catch(
-              () => []
-            )
-          : Promise.resolve([]),
-      ]);
-
-    // Calculate connector status from database (server is authoritative)
-    const connectorsStatus = calculateConnectorStatus(userConnectors);
+    const [
+      userKeys,
+      isUserPremiumForPremiumModels,
+      userConnectors,
+      persona,
+      projectContext,
+      memories,
+      chat,
+      searchConfig,
+    ] = await Promise.all([
+      // Get user API keys if model allows user keys
+      selectedModel.apiKeyUsage?.allowUserKey
+        ? fetchQuery(api.api_keys.getApiKeys, {}, { token }).catch(() => [])
+        : Promise.resolve([]),
+      // Check premium status for premium models (only if needed)
+      selectedModel.premium || fallbackModels.some((m) => m.premium)
+        ? fetchQuery(api.users.userHasPremium, {}, { token }).catch(() => false)
+        : Promise.resolve(false),
+      // Get user connectors from database (authoritative source)
+      user
+        ? fetchQuery(api.connectors.listUserConnectors, {}, { token }).catch(
+            () => []
+          )
+        : Promise.resolve([]),
+      // Resolve user-defined personas (built-in ones live in PERSONAS_MAP)
+      user && personaId && !PERSONAS_MAP[personaId]
+        ? fetchQuery(api.personas.getPersona, { personaId }, { token }).catch(
+            () => null
+          )
+        : Promise.resolve(null),
+      // Shared instructions and reference files of the chat's project
+      user
+        ? fetchQuery(
+            api.projects.getProjectContextForChat,
+            { chatId: chatId as Id<"chats"> },
+            { token }
+          ).catch(() => null)
+        : Promise.resolve(null),
+      // Long-term memories relevant to the latest user message
+      user?.memoryEnabled && !user.isAnonymous
+        ? fetchQuery(
+            api.memories.getRelevantMemories,
+            {
+              query: getMessageText(
+                messages.findLast((m) => m.role === "user")
+              ),
+            },
+            { token }
+          ).catch(() => [])
+        : Promise.resolve(undefined),
+      // Rolling summary of turns that no longer fit the context window
+      user
+        ? fetchQuery(
+            api.chats.getChat,
+            { chatId: chatId as Id<"chats"> },
+            { token }
+          ).catch(() => null)
+        : Promise.resolve(null),
+      // The user's search providers and keys
+      (enableSearch || enableDeepResearch) && user && !user.isAnonymous
+        ? fetchQuery(api.search_settings.getSearchConfig, {}, { token }).catch(
+            () => null
+          )
+        : Promise.resolve(null),
+    ]);
+
+    // Calculate connector status from database (server is authoritative),
+    // limited to the connectors the persona allows
+    const connectorsStatus = restrictConnectorStatus(
+      calculateConnectorStatus(userConnectors),
+      persona?.defaultConnectors
+    );
 
     // --- API Key and Model Configuration ---
     const { apiKeyUsage } = selectedModel;
     let userApiKey: string | null = null;
     let keyEntry: { provider: string; mode?: string } | undefined;
+    const userKeyProvider = getUserKeyProvider(selectedModel);
 
     if (apiKeyUsage?.allowUserKey && Array.isArray(userKeys)) {
       try {
-        keyEntry = userKeys.find((k) => k.provider === selectedModel.provider);
+        keyEntry = userKeys.find((k) => k.provider === userKeyProvider);
         if (keyEntry) {
           userApiKey = await fetchQuery(
             api.api_keys.getDecryptedKey,
-            { provider: selectedModel.provider as SupportedProvider },
+            { provider: userKeyProvider as ApiKeyProvider },
             { token }
           );
         }
@@ -587,7 +831,8 @@ export async function POST(req: Request) {
         messages,
         chatId,
         token,
-        reloadAssistantMessageId
+        reloadAssistantMessageId,
+        { compare, versionOfMessageId: editMessageId }
       );
 
       // Create premium access error
@@ -650,7 +895,8 @@ export async function POST(req: Request) {
         messages,
         chatId,
         token,
-        reloadAssistantMessageId
+        reloadAssistantMessageId,
+        { compare, versionOfMessageId: editMessageId }
       );
 
       // Save error message to conversation
@@ -671,7 +917,9 @@ export async function POST(req: Request) {
       return createErrorResponse(rateLimitError);
     }
 
-    const basePrompt = personaId ? PERSONAS_MAP[personaId]?.prompt : undefined;
+    const basePrompt = personaId
+      ? (PERSONAS_MAP[personaId]?.prompt ?? persona?.prompt)
+      : undefined;
     const enableTools =
       supportsToolCalling(selectedModel) && connectorsStatus.enabled.length > 0;
     const finalSystemPrompt = buildSystemPrompt(
@@ -682,7 +930,10 @@ export async function POST(req: Request) {
       userInfo?.timezone,
       undefined,
       undefined,
-      connectorsStatus
+      connectorsStatus,
+      projectContext?.instructions,
+      memories,
+      enableDeepResearch
     );
     // console.log('DEBUG: finalSystemPrompt', finalSystemPrompt);
     // Check if this is an image generation model
@@ -699,6 +950,7 @@ export async function POST(req: Request) {
         selectedModel,
         userMsgId: null,
         token,
+        compare,
       });
     }
 
@@ -709,105 +961,69 @@ export async function POST(req: Request) {
 
     if (reloadAssistantMessageId) {
       // --- Reload Flow ---
+      // The new answer is saved as another version next to the old one
       const details = await fetchQuery(
         api.messages.getMessageDetails,
         { messageId: reloadAssistantMessageId },
         { token }
       );
       userMsgId = details?.parentMessageId ?? null;
-      await fetchMutation(
-        api.messages.deleteMessageAndDescendants,
-        { messageId: reloadAssistantMessageId },
-        { token }
-      );
-    } else if (editMessageId) {
-      // --- Edit Flow ---
-      const lastMessage = messages.at(-1);
-
-      if (lastMessage) {
-        // Patch the message content with new text and parts
-        await fetchMutation(
-          api.messages.patchMessageContent,
-          {
-            messageId: editMessageId,
-            newContent: sanitizeUserInput(
-              lastMessage.parts
-                ?.filter((part) => part.type === "text")
-                .map((part) => part.text)
-                .join("") || ""
-            ),
-            newParts: lastMessage.parts?.map((part) =>
-              part.type === "text"
-                ? { ...part, text: sanitizeUserInput(part.text) }
-                : part
-            ),
-          },
-          { token }
-        );
-
-        // Delete only subsequent messages (descendants) using enhanced mutation
-        await fetchMutation(
-          api.messages.deleteMessageAndDescendants,
-          {
-            messageId: editMessageId,
-            deleteOnlyDescendants: true,
-          },
-          { token }
-        );
-
-        userMsgId = editMessageId;
-      }
     } else {
-      // --- Normal Flow ---
+      // --- Normal and Edit Flow ---
+      // An edit is saved as a new version of the edited user message
       userMsgId = await saveUserMessage(
         messages,
         chatId,
         token,
-        reloadAssistantMessageId
+        reloadAssistantMessageId,
+        { compare, versionOfMessageId: editMessageId }
       );
     }
 
-    const makeOptions = (useUser: boolean) => {
-      const key = useUser ? userApiKey : undefined;
-
-      if (selectedModel.provider === "gemini") {
-        return {
-          google: {
-            ...buildGoogleProviderOptions(selectedModel.id, reasoningEffort),
-            apiKey: key,
-          },
-        };
-      }
-      if (selectedModel.provider === "openai") {
-        return {
-          openai: {
-            ...buildOpenAIProviderOptions(selectedModel.id, reasoningEffort),
-            apiKey: key,
-          },
-        };
-      }
-      if (selectedModel.provider === "anthropic") {
-        return {
-          anthropic: {
-            ...buildAnthropicProviderOptions(selectedModel.id, reasoningEffort),
-            apiKey: key,
-          },
-        };
-      }
-      if (selectedModel.provider === "openrouter") {
-        return {
-          openrouter: {
-            ...buildOpenRouterProviderOptions(
-              selectedModel.id,
-              reasoningEffort
-            ),
-            apiKey: key,
-            user: user?._id ? `user_${user._id}` : undefined,
-          },
-        };
+    // Data files from the whole chat, including turns folded into the summary
+    const dataFiles = getDataFileInputs(messages);
+
+    // --- Context Window Management ---
+    // Send the rolling summary plus recent turns instead of the full history,
+    // folding older turns into the summary once the chat outgrows the model
+    const contextBudget =
+      getContextBudget(selectedModel.contextWindow) -
+      estimateTokens(finalSystemPrompt);
+    let { summary: contextSummary, messages: contextMessages } =
+      applyContextSummary(messages, chat?.contextSummary);
+    if (
+      estimateTokens(contextSummary) + estimateMessagesTokens(contextMessages) >
+      contextBudget
+    ) {
+      const { older, recent } = splitForCompaction(
+        contextMessages,
+        contextBudget * CONTEXT_CONFIG.recentShare
+      );
+      const lastOlderMessage = older.at(-1);
+      if (lastOlderMessage) {
+        try {
+          contextSummary = await summarizeMessages(contextSummary, older);
+          contextMessages = recent;
+          await fetchMutation(
+            api.chats.updateContextSummary,
+            {
+              chatId: chatId as Id<"chats">,
+              text: contextSummary,
+              lastMessageId: lastOlderMessage.id,
+            },
+            { token }
+          ).catch(() => null);
+        } catch {
+          // Send the full history and let the provider decide
+        }
       }
-      return;
-    };
+    }
+    const systemPrompt = contextSummary
+      ? `${finalSystemPrompt}\n\n${buildSummaryPrompt(contextSummary)}`
+      : finalSystemPrompt;
+
+    const makeOptions = (optionsModel: ChatModel) =>
+      buildProviderOptions(optionsModel, reasoningEffort, user?._id);
 
     const startTime = Date.now();
     // Pre-build the base metadata object before the stream starts
@@ -826,32 +1042,142 @@ export async function POST(req: Request) {
     };
 
     let result: ReturnType<typeof streamText> | null = null;
+    let answeringModel: ChatModel = selectedModel;
     let wasUserKeyUsed = false;
     let errorMessageSaved = false;
+    let streamingMessageId: Promise<Id<"messages"> | null> =
+      Promise.resolve(null);
+
+    /**
+     * Creates the assistant row that is filled in while the answer streams
+     */
+    const startStreamingMessage = async (answering: ChatModel) => {
+      if (!(token && userMsgId)) {
+        return null;
+      }
+      try {
+        const { messageId } = await fetchMutation(
+          api.messages.startStreamingMessage,
+          {
+            chatId,
+            parentMessageId: userMsgId,
+            metadata: {
+              ...baseMetadata,
+              modelId: answering.id,
+              modelName: answering.name,
+              ...(answering.id === selectedModel.id
+                ? {}
+                : { fallbackFromModelId: selectedModel.id }),
+            },
+          },
+          { token }
+        );
+        return messageId;
+      } catch (_err) {
+        return null;
+      }
+    };
+
+    /**
+     * Checks premium access and rate limits for a fallback model, since the
+     * checks above only covered the requested model
+     */
+    const canUseFallbackModel = async (fallbackModel: ChatModel) => {
+      if (fallbackModel.premium && !isUserPremiumForPremiumModels) {
+        return false;
+      }
+      if (fallbackModel.skipRateLimit) {
+        return true;
+      }
+      try {
+        await fetchMutation(
+          api.users.assertNotOverLimit,
+          { usesPremiumCredits: fallbackModel.usesPremiumCredits === true },
+          { token }
+        );
+        return true;
+      } catch {
+        return false;
+      }
+    };
 
     const stream = createUIMessageStream({
       originalMessages: messages,
       async execute({ writer }) {
-        const runStream = (useUserKeyOverride: boolean) => {
-          const providerOptions = makeOptions(useUserKeyOverride) as
+        const runStream = (attempt: FallbackAttempt) => {
+          const attemptModel = attempt.model;
+          const providerOptions = makeOptions(attemptModel) as
             | Record<string, Record<string, JSONValue>>
             | undefined;
+          // The user's key calls the provider directly
+          const languageModel =
+            attempt.useUserKey && userApiKey
+              ? createUserKeyModel(attemptModel, userApiKey)
+              : attemptModel.api_sdk;
 
           const toolset: Record<string, Tool> = {};
 
           if (enableSearch) {
-            toolset.search = searchTool;
+            toolset.search = createSearchTool(searchConfig ?? undefined);
+          }
+
+          // Lets the model read links the user pastes
+          if (supportsToolCalling(attemptModel)) {
+            toolset.fetch_url = fetchUrlTool;
+          }
+
+          if (enableDeepResearch && supportsToolCalling(attemptModel)) {
+            toolset.deep_research = createDeepResearchTool({
+              model: languageModel,
+              writer,
+              searchConfig: searchConfig ?? undefined,
+            });
+          }
+
+          if (
+            supportsToolCalling(attemptModel) &&
+            token &&
+            user &&
+            !user.isAnonymous
+          ) {
+            toolset.search_documents = createSearchDocumentsTool({
+              token,
+              projectId: projectContext?.projectId,
+            });
+          }
+
+          if (supportsToolCalling(attemptModel) && token && memories) {
+            Object.assign(
+              toolset,
+              createMemoryTools({ token, chatId: chatId as Id<"chats"> })
+            );
+          }
+
+          // Code runs in a local sandbox and saves its images to the chat
+          const canRunCode = Boolean(
+            CODE_SANDBOX_CONFIG.runtime === "docker" &&
+              supportsToolCalling(attemptModel) &&
+              token &&
+              user &&
+              !user.isAnonymous
+          );
+          if (canRunCode && token) {
+            toolset.run_code = createRunCodeTool({
+              token,
+              chatId: chatId as Id<"chats">,
+              files: dataFiles,
+            });
           }
 
           if (
-            supportsToolCalling(selectedModel) &&
+            supportsToolCalling(attemptModel) &&
             user &&
             connectorsStatus.enabled.length > 0
           ) {
             toolset.create_agent = createAgentTool({
               userId: user._id,
               availableToolkits: connectorsStatus.enabled,
-              model: selectedModel.api_sdk,
+              model: languageModel,
               providerOptions,
               connectorsStatus,
               writer,
@@ -859,24 +1185,46 @@ export async function POST(req: Request) {
           }
 
           const streamResult = streamText({
-            model: selectedModel.api_sdk,
-            system: finalSystemPrompt,
-            messages: convertToModelMessages(messages),
+            model: languageModel,
+            system: systemPrompt,
+            messages: convertToModelMessages([
+              ...getProjectFilesMessages(
+                attemptModel,
+                projectContext?.attachments
+              ),
+              ...replaceUnreadableFileParts(
+                contextMessages,
+                canRunCode ? dataFiles : null
+              ),
+            ]),
             tools: toolset,
             stopWhen: stepCountIs(20),
+            // Deep research starts with the research before writing anything
+            prepareStep: ({ stepNumber }) =>
+              toolset.deep_research && stepNumber === 0
+                ? { toolChoice: { type: "tool", toolName: "deep_research" } }
+                : undefined,
             experimental_transform: smoothStream({
               delayInMs: 20,
               chunking: "word",
             }),
             providerOptions,
+            abortSignal: attempt.abortController.signal,
             onError: async ({ error }) => {
               // Handle errors gracefully - save to conversation but don't throw
               // The throwing behavior will be handled in the fullStream processing
 
+              // Errors that hand the request to the next model are not saved;
+              // the chain saves the last one if every model fails
+              if (shouldFallBack(attempt, error)) {
+                attempt.error = error;
+                return;
+              }
+
               // First, try to detect provider-specific error patterns
               const detectedError = detectProviderErrorFromObject(
                 error,
-                selectedModel.provider
+                attemptModel.provider
               );
 
               if (detectedError) {
@@ -888,8 +1236,8 @@ export async function POST(req: Request) {
                       userMsgId,
                       detectedError, // Pass DetectedError directly, don't wrap in Error
                       token,
-                      selectedModel.id,
-                      selectedModel.name,
+                      attemptModel.id,
+                      attemptModel.name,
                       enableSearch,
                       reasoningEffort
                     );
@@ -909,8 +1257,8 @@ export async function POST(req: Request) {
                     userMsgId,
                     error,
                     token,
-                    selectedModel.id,
-                    selectedModel.name,
+                    attemptModel.id,
+                    attemptModel.name,
                     enableSearch,
                     reasoningEffort
                   );
@@ -950,7 +1298,7 @@ export async function POST(req: Request) {
                   // Check accumulated text for provider error patterns
                   const detectedError = detectProviderErrorInText(
                     accumulatedText,
-                    selectedModel.provider
+                    attemptModel.provider
                   );
                   if (detectedError) {
                     // Found an error pattern in the streaming text
@@ -962,8 +1310,8 @@ export async function POST(req: Request) {
                           userMsgId,
                           detectedError, // Pass DetectedError directly, don't wrap in Error
                           token,
-                          selectedModel.id,
-                          selectedModel.name,
+                          attemptModel.id,
+                          attemptModel.name,
                           enableSearch,
                           reasoningEffort
                         );
@@ -993,92 +1341,168 @@ export async function POST(req: Request) {
             }
           })();
 
-          // Merge the regular UI stream for normal processing
-          writer.merge(
-            streamResult.toUIMessageStream({
+          return streamResult;
+        };
+
+        /**
+         * Holds back the UI stream of an attempt until the model produces
+         * output. A fallback-eligible error before that point discards the
+         * attempt (returns false) so the next model in the chain can answer.
+         */
+        const mergeAttempt = async (
+          streamResult: ReturnType<typeof streamText>,
+          attempt: FallbackAttempt
+        ): Promise<boolean> => {
+          const reader = streamResult
+            .toUIMessageStream({
               sendReasoning: true,
               sendSources: true,
+              onError: (error) => {
+                attempt.error = error;
+                return getStreamErrorText(error, attempt.model.provider);
+              },
             })
-          );
+            .getReader();
+          const buffered: UIMessageChunk[] = [];
 
-          return streamResult;
-        };
+          while (!attempt.hasOutput) {
+            const { done, value } = await reader.read();
+            if (done) {
+              break;
+            }
+            if (
+              value.type === "error" &&
+              shouldFallBack(attempt, attempt.error)
+            ) {
+              attempt.abortController.abort();
+              await reader.cancel().catch(() => {
+                // Attempt is being discarded
+              });
+              return false;
+            }
+            buffered.push(value);
+            attempt.hasOutput = OUTPUT_CHUNK_TYPES.has(value.type);
+          }
 
-        const tryRun = async () => {
-          if (apiKeyUsage?.allowUserKey) {
-            const primaryIsUserKey = useUserKey;
-            try {
-              wasUserKeyUsed = primaryIsUserKey;
-              result = runStream(primaryIsUserKey);
-              return;
-            } catch (primaryError) {
-              if (shouldShowInConversation(primaryError) && token) {
-                await saveErrorMessage(
-                  chatId,
-                  userMsgId,
-                  primaryError,
-                  token,
-                  selectedModel.id,
-                  selectedModel.name,
-                  enableSearch,
-                  reasoningEffort
-                );
+          const committedStream = new ReadableStream<UIMessageChunk>({
+            start(controller) {
+              for (const chunk of buffered) {
+                controller.enqueue(chunk);
               }
-
-              const fallbackIsPossible =
-                primaryIsUserKey || (!primaryIsUserKey && Boolean(userApiKey));
-
-              if (!fallbackIsPossible) {
-                throw primaryError;
+            },
+            async pull(controller) {
+              const { done, value } = await reader.read();
+              if (done) {
+                controller.close();
+              } else {
+                controller.enqueue(value);
               }
+            },
+            cancel(reason) {
+              return reader.cancel(reason);
+            },
+          });
 
-              const fallbackIsUserKey = !primaryIsUserKey;
-              try {
-                wasUserKeyUsed = fallbackIsUserKey;
-                result = runStream(fallbackIsUserKey);
-                return;
-              } catch (fallbackError) {
-                if (shouldShowInConversation(fallbackError) && token) {
-                  await saveErrorMessage(
-                    chatId,
-                    userMsgId,
-                    fallbackError,
-                    token,
-                    selectedModel.id,
-                    selectedModel.name,
-                    enableSearch,
-                    reasoningEffort
-                  );
-                }
-                throw fallbackError;
-              }
-            }
+          // Merge the regular UI stream for normal processing and persist a
+          // copy of it so the answer can be resumed after a reload
+          const [clientStream, persistedStream] = committedStream.tee();
+          writer.merge(clientStream);
+          streamingMessageId = startStreamingMessage(attempt.model);
+          persistStreamingMessage(persistedStream, streamingMessageId, token);
+          return true;
+        };
+
+        // --- Model Fallback Chain ---
+        // The requested model runs with the user's key preference and is
+        // retried on the other key; fallback models only run on built-in keys
+        // after their own access checks
+        const plans = planModelAttempts(
+          selectedModel.id,
+          fallbackModels.map((fallbackModel) => fallbackModel.id),
+          {
+            useUserKey,
+            canSwitchKey: Boolean(
+              apiKeyUsage?.allowUserKey &&
+                userApiKey &&
+                !apiKeyUsage.userKeyOnly
+            ),
+          }
+        );
+        let lastAttempt: FallbackAttempt | null = null;
+
+        for (const [index, plan] of plans.entries()) {
+          const chainModel =
+            plan.modelId === selectedModel.id
+              ? selectedModel
+              : MODELS_MAP[plan.modelId];
+          // The checks above only covered the first attempt; user keys are
+          // not limited
+          if (
+            index > 0 &&
+            !plan.useUserKey &&
+            !(await canUseFallbackModel(chainModel))
+          ) {
+            continue;
           }
 
-          wasUserKeyUsed = false;
-          try {
-            result = runStream(false);
-          } catch (streamError) {
-            if (shouldShowInConversation(streamError) && token) {
-              await saveErrorMessage(
-                chatId,
-                userMsgId,
-                streamError,
-                token,
-                selectedModel.id,
-                selectedModel.name,
-                enableSearch,
-                reasoningEffort
-              );
-            }
-            throw streamError;
+          const attempt: FallbackAttempt = {
+            model: chainModel,
+            useUserKey: plan.useUserKey,
+            next: plans[index + 1],
+            hasOutput: false,
+            abortController: new AbortController(),
+          };
+          lastAttempt = attempt;
+
+          const streamResult = runStream(attempt);
+
+          if (await mergeAttempt(streamResult, attempt)) {
+            result = streamResult;
+            answeringModel = chainModel;
+            wasUserKeyUsed = plan.useUserKey;
+            return;
           }
-        };
+        }
 
-        await tryRun();
+        // Every model in the chain failed before answering
+        if (lastAttempt) {
+          if (token) {
+            await saveErrorMessage(
+              chatId,
+              userMsgId,
+              detectProviderErrorFromObject(
+                lastAttempt.error,
+                lastAttempt.model.provider
+              ) ?? lastAttempt.error,
+              token,
+              lastAttempt.model.id,
+              lastAttempt.model.name,
+              enableSearch,
+              reasoningEffort
+            );
+            errorMessageSaved = true;
+          }
+          writer.write({
+            type: "error",
+            errorText: getStreamErrorText(
+              lastAttempt.error,
+              lastAttempt.model.provider
+            ),
+          });
+        }
       },
       async onFinish({ responseMessage }) {
+        const resumableMessageId = await streamingMessageId;
+
         if (!result || errorMessageSaved) {
+          // The error message replaces the partial streaming row
+          if (resumableMessageId) {
+            await fetchMutation(
+              api.messages.discardStreamingMessage,
+              { messageId: resumableMessageId },
+              { token }
+            ).catch(() => null);
+          }
           return; // Don't save if no result or error message was already saved
         }
 
@@ -1125,6 +1549,14 @@ export async function POST(req: Request) {
 
         const finalMetadata: Infer<typeof Message>["metadata"] = {
           ...baseMetadata,
+          // Record the model that actually answered when the chain fell back
+          ...(answeringModel.id === selectedModel.id
+            ? {}
+            : {
+                modelId: answeringModel.id,
+                modelName: answeringModel.name,
+                fallbackFromModelId: selectedModel.id,
+              }),
           serverDurationMs: Date.now() - startTime,
           // Add agent tokens to main token counts for unified tracking
           inputTokens:
@@ -1144,15 +1576,41 @@ export async function POST(req: Request) {
 
         const depthLimitedParts = limitDepth(sanitizedParts, 14);
 
-        await fetchMutation(
-          api.messages.saveAssistantMessage,
+        let answerMessageId: Id<"messages">;
+        if (resumableMessageId) {
+          await fetchMutation(
+            api.messages.completeStreamingMessage,
+            {
+              messageId: resumableMessageId,
+              content: capturedText,
+              parts: depthLimitedParts,
+              metadata: finalMetadata,
+            },
+            { token }
+          );
+          answerMessageId = resumableMessageId;
+        } else {
+          ({ messageId: answerMessageId } = await fetchMutation(
+            api.messages.saveAssistantMessage,
+            {
+              chatId,
+              role: "assistant",
+              content: capturedText,
+              parentMessageId: userMsgId || undefined,
+              parts: depthLimitedParts,
+              metadata: finalMetadata,
+            },
+            { token }
+          ));
+        }
+
+        await fetchAction(
+          api.messages.recordAnswerUsage,
           {
-            chatId,
-            role: "assistant",
-            content: capturedText,
-            parentMessageId: userMsgId || undefined,
-            parts: depthLimitedParts,
-            metadata: finalMetadata,
+            serverSecret,
+            messageId: answerMessageId,
+            costUsd: computeCostUsd(answeringModel.pricing, finalMetadata),
+            wasUserKeyUsed,
           },
           { token }
         );
@@ -1160,11 +1618,11 @@ export async function POST(req: Request) {
         if (wasUserKeyUsed) {
           await fetchMutation(
             api.api_keys.incrementUserApiKeyUsage,
-            { provider: selectedModel.provider },
+            { provider: userKeyProvider },
             { token }
           );
-        } else if (!selectedModel.skipRateLimit) {
-          const usesPremiumCredits = selectedModel.usesPremiumCredits === true;
+        } else if (!answeringModel.skipRateLimit) {
+          const usesPremiumCredits = answeringModel.usesPremiumCredits === true;
 
           await fetchMutation(
             api.users.incrementMessageCount,
@@ -1173,22 +1631,7 @@ export async function POST(req: Request) {
           );
         }
       },
-      onError: (error) => {
-        // First, try to detect provider-specific error patterns
-        const detectedError = detectProviderErrorFromObject(
-          error,
-          selectedModel.provider
-        );
-
-        if (detectedError) {
-          // Return the provider-specific user-friendly message
-          return detectedError.userFriendlyMessage;
-        }
-
-        // Fallback to original error handling
-        const { errorPayload } = createStreamingError(error);
-        return errorPayload.error.message;
-      },
+      onError: (error) => getStreamErrorText(error, answeringModel.provider),
     });
 
     return createUIMessageStreamResponse({
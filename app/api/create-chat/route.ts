@@ -3,6 +3,7 @@ import { fetchMutation, fetchQuery } from "convex/nextjs";
 import { PostHog } from "posthog-node";
 import { z } from "zod";
 import { api } from "@/convex/_generated/api";
+import type { Id } from "@/convex/_generated/dataModel";
 import { createErrorResponse } from "@/lib/error-utils";
 
 export async function POST(request: Request) {
@@ -14,6 +15,7 @@ export async function POST(request: Request) {
       title: z.string().min(1, "Title is required"),
       model: z.string().min(1, "Model is required"),
       personaId: z.string().optional(),
+      projectId: z.string().optional(),
       timezone: z.string().optional(),
     });
 
@@ -23,7 +25,7 @@ export async function POST(request: Request) {
       return createErrorResponse(new Error("Invalid request body"));
     }
 
-    const { title, model, personaId } = parseResult.data;
+    const { title, model, personaId, projectId } = parseResult.data;
 
     const token = await convexAuthNextjsToken();
 
@@ -45,6 +47,7 @@ export async function POST(request: Request) {
         title,
         model,
         personaId,
+        projectId: projectId as Id<"projects"> | undefined,
       },
       { token }
     );
@@ -0,0 +1,202 @@
+import { spawn } from "node:child_process";
+import { randomUUID } from "node:crypto";
+import {
+  lstat,
+  mkdtemp,
+  readdir,
+  readFile,
+  realpath,
+  rm,
+  writeFile,
+} from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join, sep } from "node:path";
+import {
+  buildDockerRunArgs,
+  CODE_SANDBOX_CONFIG,
+  type CodeLanguage,
+  getArtifactMime,
+  truncateOutput,
+} from "@/lib/code-sandbox";
+
+export type SandboxFile = {
+  name: string; // Safe file name inside the working directory
+  data: Uint8Array;
+};
+
+export type SandboxArtifact = {
+  name: string;
+  mediaType: string;
+  data: Uint8Array;
+};
+
+export type SandboxResult = {
+  stdout: string;
+  stderr: string;
+  exitCode: number | null;
+  timedOut: boolean;
+  artifacts: SandboxArtifact[];
+};
+
+const CODE_FILE_NAMES: Record<CodeLanguage, string> = {
+  python: "main.py",
+  javascript: "main.mjs",
+};
+
+// Runs main.py, then saves any matplotlib figures the code left open so
+// charts show up even when the code only calls plt.show()
+const PYTHON_RUNNER = `import os, runpy, sys
+before = set(os.listdir("."))
+try:
+    runpy.run_path("main.py", run_name="__main__")
+finally:
+    if "matplotlib.pyplot" in sys.modules:
+        import matplotlib.pyplot as plt
+        new_images = [f for f in set(os.listdir(".")) - before if f.lower().endswith((".png", ".jpg", ".jpeg"))]
+        if not new_images:
+            for index, number in enumerate(plt.get_fignums(), 1):
+                plt.figure(number).savefig(f"figure-{index}.png", dpi=150, bbox_inches="tight")
+`;
+const PYTHON_RUNNER_NAME = "_runner.py";
+
+const COMMANDS: Record<CodeLanguage, string[]> = {
+  python: ["python", PYTHON_RUNNER_NAME],
+  javascript: ["node", CODE_FILE_NAMES.javascript],
+};
+
+// Helper function to collect a stream up to a number of characters
+function collectOutput(stream: NodeJS.ReadableStream | null) {
+  let output = "";
+  stream?.setEncoding("utf8");
+  stream?.on("data", (chunk: string) => {
+    // Keep a little past the limit so truncation can be reported
+    if (output.length <= CODE_SANDBOX_CONFIG.maxOutputCharacters) {
+      output += chunk;
+    }
+  });
+  return () => truncateOutput(output);
+}
+
+// Helper function to read the images a run wrote into its working directory
+async function readArtifacts(
+  workspace: string,
+  inputNames: Set<string>
+): Promise<SandboxArtifact[]> {
+  const artifacts: SandboxArtifact[] = [];
+  const root = await realpath(workspace);
+  for (const name of (await readdir(workspace)).sort()) {
+    const mediaType = getArtifactMime(name);
+    if (!mediaType || inputNames.has(name)) {
+      continue;
+    }
+    // The code controls the directory, so symlinks and other special files
+    // are skipped rather than followed to files on the server
+    const path = join(workspace, name);
+    const info = await lstat(path);
+    if (
+      !info.isFile() ||
+      info.size > CODE_SANDBOX_CONFIG.maxArtifactBytes ||
+      !(await realpath(path)).startsWith(`${root}${sep}`)
+    ) {
+      continue;
+    }
+    artifacts.push({
+      name,
+      mediaType,
+      data: new Uint8Array(await readFile(path)),
+    });
+    if (artifacts.length >= CODE_SANDBOX_CONFIG.maxArtifacts) {
+      break;
+    }
+  }
+  return artifacts;
+}
+
+/**
+ * Run code in a throwaway Docker container with the input files in its
+ * working directory. The container has no network, a read-only root
+ * filesystem and capped CPU, memory and processes, and is killed at the
+ * time limit.
+ */
+export async function runInSandbox({
+  language,
+  code,
+  files = [],
+  abortSignal,
+}: {
+  language: CodeLanguage;
+  code: string;
+  files?: SandboxFile[];
+  abortSignal?: AbortSignal;
+}): Promise<SandboxResult> {
+  if (CODE_SANDBOX_CONFIG.runtime !== "docker") {
+    throw new Error("Code execution is not configured on this server");
+  }
+
+  const workspace = await mkdtemp(join(tmpdir(), "run-code-"));
+  const name = `run-code-${randomUUID()}`;
+
+  try {
+    const inputNames = new Set(files.map((file) => file.name));
+    await Promise.all(
+      files.map((file) => writeFile(join(workspace, file.name), file.data))
+    );
+    await writeFile(join(workspace, CODE_FILE_NAMES[language]), code);
+    if (language === "python") {
+      await writeFile(join(workspace, PYTHON_RUNNER_NAME), PYTHON_RUNNER);
+    }
+
+    // Run as the server's user so the container can write to the mount
+    const user =
+      process.getuid && process.getgid
+        ? `${process.getuid()}:${process.getgid()}`
+        : undefined;
+    const child = spawn(
+      "docker",
+      buildDockerRunArgs({
+        name,
+        image: CODE_SANDBOX_CONFIG.images[language],
+        workspace,
+        command: COMMANDS[language],
+        user,
+      }),
+      { stdio: ["ignore", "pipe", "pipe"] }
+    );
+    const readStdout = collectOutput(child.stdout);
+    const readStderr = collectOutput(child.stderr);
+
+    // Killing the docker client would leave the container running, so the
+    // container itself is killed
+    let timedOut = false;
+    const killContainer = () => {
+      spawn("docker", ["kill", name], { stdio: "ignore" }).on("error", () => {
+        // The run itself reports a missing docker binary
+      });
+    };
+    const timer = setTimeout(() => {
+      timedOut = true;
+      killContainer();
+    }, CODE_SANDBOX_CONFIG.timeoutMs);
+    abortSignal?.addEventListener("abort", killContainer, { once: true });
+
+    const exitCode = await new Promise<number | null>((resolve, reject) => {
+      child.on("error", reject);
+      child.on("close", resolve);
+    }).finally(() => {
+      clearTimeout(timer);
+      abortSignal?.removeEventListener("abort", killContainer);
+    });
+
+    return {
+      stdout: readStdout(),
+      stderr: timedOut
+        ? `${readStderr()}\nExecution stopped after ${CODE_SANDBOX_CONFIG.timeoutMs / 1000} seconds.`.trim()
+        : readStderr(),
+      exitCode,
+      timedOut,
+      artifacts: await readArtifacts(workspace, inputNames),
+    };
+  } finally {
+    await rm(workspace, { recursive: true, force: true });
+  }
+}
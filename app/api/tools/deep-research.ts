@@ -0,0 +1,217 @@
+import {
+  generateObject,
+  type LanguageModel,
+  type Tool,
+  tool,
+  type UIMessageStreamWriter,
+} from "ai";
+import { z } from "zod";
+import {
+  DEEP_RESEARCH_CONFIG,
+  type DeepResearchOutput,
+  dedupeSources,
+  formatResearchSources,
+  getSourceDomain,
+  type ResearchProgress,
+  type ResearchSource,
+  type ResearchStepType,
+} from "@/lib/deep-research";
+import { readPage } from "./page-reader";
+import { searchWithCache } from "./search";
+import type { SearchProviderConfig, SearchResult } from "./types";
+
+const deepResearchInputSchema = z.object({
+  question: z
+    .string()
+    .min(1, "Question is required")
+    .describe(
+      "The research question, self-contained with any context from the conversation the research needs."
+    ),
+});
+
+type DeepResearchInput = z.infer<typeof deepResearchInputSchema>;
+
+type DeepResearchToolOptions = {
+  model: LanguageModel;
+  writer: UIMessageStreamWriter;
+  searchConfig?: SearchProviderConfig;
+};
+
+const queriesSchema = z.object({
+  queries: z.array(z.string()).describe("Web search queries to run"),
+});
+
+// Helper function to ask the model for search queries, falling back to the
+// question itself when the model cannot produce them
+async function generateQueries(
+  model: LanguageModel,
+  prompt: string,
+  abortSignal?: AbortSignal
+): Promise<string[]> {
+  const { object } = await generateObject({
+    model,
+    schema: queriesSchema,
+    prompt,
+    abortSignal,
+  });
+  return object.queries
+    .map((query) => query.trim())
+    .filter((query) => query.length > 0)
+    .slice(0, DEEP_RESEARCH_CONFIG.queriesPerRound);
+}
+
+/**
+ * Create the deep research tool. It plans sub-queries, searches and reads
+ * pages over several rounds, and returns numbered sources for the model to
+ * write a cited report from. Progress is streamed as research steps.
+ */
+export const createDeepResearchTool = ({
+  model,
+  writer,
+  searchConfig,
+}: DeepResearchToolOptions): Tool<DeepResearchInput, DeepResearchOutput> =>
+  tool<DeepResearchInput, DeepResearchOutput>({
+    description:
+      "Research a question in depth: searches the web with several queries over multiple rounds, reads the full pages and returns numbered sources to write a long-form, cited report from.",
+    inputSchema: deepResearchInputSchema,
+    toModelOutput: (output) => ({
+      type: "text",
+      value: `Sources for "${output.question}" (${output.sources.length} sources, ${output.rounds} rounds):\n\n${formatResearchSources(output.sources)}`,
+    }),
+    async execute({ question }, { toolCallId: researchId, abortSignal }) {
+      let stepCount = 0;
+
+      // Helper function to stream a step, returning a function that completes it
+      const startStep = (
+        type: ResearchStepType,
+        label: string,
+        items?: string[]
+      ) => {
+        stepCount += 1;
+        const id = `${researchId}-${stepCount}`;
+        const write = (progress: Partial<ResearchProgress>) => {
+          const data: ResearchProgress = {
+            researchId,
+            type,
+            status: "active",
+            label,
+            items,
+            ...progress,
+          };
+          writer.write({
+            type: "data-research-progress",
+            id,
+            data: {
+              ...data,
+              items: data.items && [...new Set(data.items)],
+            },
+          });
+        };
+        write({});
+        return (done: Partial<ResearchProgress>) =>
+          write({ status: "complete", ...done });
+      };
+
+      const seenUrls = new Set<string>();
+      const sources: ResearchSource[] = [];
+      const searchedQueries: string[] = [];
+
+      const completePlan = startStep("plan", "Planning the research");
+      let queries = await generateQueries(
+        model,
+        `Break this research question into ${DEEP_RESEARCH_CONFIG.queriesPerRound} or fewer web search queries that cover its different aspects. Today is ${new Date().toISOString().slice(0, 10)}.\n\nQuestion: ${question}`,
+        abortSignal
+      ).catch(() => [question]);
+      if (queries.length === 0) {
+        queries = [question];
+      }
+      completePlan({ label: "Planned the research", items: queries });
+
+      let rounds = 0;
+      while (
+        queries.length > 0 &&
+        rounds < DEEP_RESEARCH_CONFIG.maxRounds &&
+        sources.length < DEEP_RESEARCH_CONFIG.maxSources
+      ) {
+        rounds += 1;
+        searchedQueries.push(...queries);
+
+        // Search every query of the round at once
+        const completeSearch = startStep("search", "Searching", queries);
+        const searches = await Promise.allSettled(
+          queries.map((query) =>
+            searchWithCache(
+              query,
+              {
+                maxResults: DEEP_RESEARCH_CONFIG.resultsPerQuery,
+                scrapeContent: true,
+              },
+              searchConfig
+            )
+          )
+        );
+        const results = dedupeSources(
+          searches.flatMap((search) =>
+            search.status === "fulfilled" ? search.value.results : []
+          ),
+          seenUrls
+        ).slice(0, DEEP_RESEARCH_CONFIG.maxSources - sources.length);
+        completeSearch({
+          label: `Found ${results.length} new source${results.length === 1 ? "" : "s"}`,
+        });
+        if (results.length === 0) {
+          break;
+        }
+
+        // Read the top results in full; the others keep their snippet
+        const toRead = results.slice(0, DEEP_RESEARCH_CONFIG.pagesPerRound);
+        const completeRead = startStep(
+          "read",
+          "Reading pages",
+          toRead.map((result) => getSourceDomain(result.url))
+        );
+        const pages = await Promise.all(
+          toRead.map((result) =>
+            readPage(result.url, {
+              timeoutMs: DEEP_RESEARCH_CONFIG.pageTimeoutMs,
+            }).catch(() => null)
+          )
+        );
+        const readCount = pages.filter((page) => page?.markdown).length;
+        completeRead({
+          label: `Read ${readCount} of ${toRead.length} pages`,
+        });
+
+        results.forEach((result: SearchResult, index) => {
+          const content =
+            pages[index]?.markdown || result.content || result.description;
+          sources.push({
+            index: sources.length + 1,
+            url: result.url,
+            title: result.title || pages[index]?.title || result.url,
+            content: content.slice(0, DEEP_RESEARCH_CONFIG.maxSourceCharacters),
+          });
+        });
+
+        if (rounds >= DEEP_RESEARCH_CONFIG.maxRounds) {
+          break;
+        }
+
+        // Look for gaps the sources leave open
+        const completeReflect = startStep("reflect", "Checking for gaps");
+        queries = await generateQueries(
+          model,
+          `You are researching: ${question}\n\nQueries already searched:\n${searchedQueries.map((query) => `- ${query}`).join("\n")}\n\nSources found so far:\n${sources.map((source) => `[${source.index}] ${source.title}: ${source.content.slice(0, 300)}`).join("\n")}\n\nList up to ${DEEP_RESEARCH_CONFIG.queriesPerRound} new search queries for important aspects the sources do not cover yet. Return an empty list when the sources are enough to write a thorough report.`,
+          abortSignal
+        ).catch(() => []);
+        queries = queries.filter((query) => !searchedQueries.includes(query));
+        completeReflect(
+          queries.length > 0
+            ? { label: "Following up on gaps", items: queries }
+            : { label: "Sources cover the question" }
+        );
+      }
+
+      return { question, sources, rounds };
+    },
+  });
@@ -0,0 +1,67 @@
+import { tool } from "ai";
+import { z } from "zod";
+import { classifyError } from "@/lib/error-utils";
+import { UnsafeUrlError } from "@/lib/url-safety";
+import { readPage } from "./page-reader";
+import { truncateContent } from "./search";
+import { FETCH_URL_CONFIG, type SearchResult } from "./types";
+
+export type FetchUrlOutput =
+  | {
+      success: true;
+      url: string;
+      result: SearchResult; // The page as markdown, in the shape of a search result
+      contentType: "html" | "pdf" | "text";
+      truncated: boolean;
+    }
+  | {
+      success: false;
+      url: string;
+      error: string;
+    };
+
+/**
+ * Read the page behind a URL so the model can answer from its content rather
+ * than guess. Only public http(s) addresses are fetched.
+ */
+export const fetchUrlTool = tool({
+  description:
+    "Fetch a web page or PDF by URL and return its readable text as markdown. Use this when the user shares a link or asks about a specific page. Only public http(s) URLs can be read.",
+  inputSchema: z.object({
+    url: z.string().describe("The full http(s) URL of the page to read"),
+  }),
+  execute: async ({ url }): Promise<FetchUrlOutput> => {
+    try {
+      const page = await readPage(url);
+      const truncated =
+        page.truncated || page.markdown.length > FETCH_URL_CONFIG.maxCharacters;
+      const markdown = truncateContent(
+        page.markdown,
+        FETCH_URL_CONFIG.maxCharacters
+      );
+
+      return {
+        success: true,
+        url: page.url,
+        result: {
+          url: page.url,
+          title: page.title || page.url,
+          description: page.description || truncateContent(page.markdown, 200),
+          markdown,
+        },
+        contentType: page.contentType,
+        truncated,
+      };
+    } catch (error) {
+      // Return error response that can be handled gracefully
+      return {
+        success: false,
+        url,
+        error:
+          error instanceof UnsafeUrlError
+            ? error.message
+            : classifyError(error).userFriendlyMessage,
+      };
+    }
+  },
+});
@@ -0,0 +1,93 @@
+import { tool } from "ai";
+import { fetchMutation, fetchQuery } from "convex/nextjs";
+import { z } from "zod";
+import { api } from "@/convex/_generated/api";
+import type { Id } from "@/convex/_generated/dataModel";
+import { classifyError } from "@/lib/error-utils";
+
+type MemoryToolsOptions = {
+  token: string;
+  chatId: Id<"chats">;
+};
+
+// Helper function to turn a failed memory call into a tool result the model can relay
+const toToolError = (error: unknown) => ({
+  success: false,
+  error: classifyError(error).userFriendlyMessage,
+});
+
+/**
+ * Create the remember, forget and recall tools that read and write the
+ * user's long-term memory
+ */
+export function createMemoryTools({ token, chatId }: MemoryToolsOptions) {
+  return {
+    remember: tool({
+      description:
+        "Save a durable fact about the user to long-term memory so it is available in future chats, such as preferences, ongoing projects, or personal details they want you to keep in mind. Save one short, self-contained fact per call. Do not save secrets, passwords, or one-off details.",
+      inputSchema: z.object({
+        content: z
+          .string()
+          .describe(
+            'The fact to remember, written in the third person (e.g. "Prefers metric units")'
+          ),
+      }),
+      execute: async ({ content }) => {
+        try {
+          const memoryId = await fetchMutation(
+            api.memories.createMemory,
+            { content, sourceChatId: chatId },
+            { token }
+          );
+          return { success: true, memoryId, content };
+        } catch (error) {
+          return toToolError(error);
+        }
+      },
+    }),
+    forget: tool({
+      description:
+        "Delete a memory that is wrong, outdated, or that the user asked you to forget. Use the memory id shown in your memory list or returned by recall.",
+      inputSchema: z.object({
+        memoryId: z.string().describe("The id of the memory to delete"),
+      }),
+      execute: async ({ memoryId }) => {
+        try {
+          await fetchMutation(
+            api.memories.deleteMemory,
+            { memoryId },
+            { token }
+          );
+          return { success: true, memoryId };
+        } catch (error) {
+          return toToolError(error);
+        }
+      },
+    }),
+    recall: tool({
+      description:
+        "Search long-term memory for facts about the user that are not already listed in your instructions.",
+      inputSchema: z.object({
+        query: z.string().describe("Key terms to look for in saved memories"),
+      }),
+      execute: async ({ query }) => {
+        try {
+          const memories = await fetchQuery(
+            api.memories.getRelevantMemories,
+            { query },
+            { token }
+          );
+          return {
+            success: true,
+            memories: memories.map((memory) => ({
+              id: memory._id,
+              content: memory.content,
+            })),
+          };
+        } catch (error) {
+          return toToolError(error);
+        }
+      },
+    }),
+  };
+}
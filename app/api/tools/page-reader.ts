@@ -0,0 +1,344 @@
+import { request as httpRequest, type IncomingMessage } from "node:http";
+import { request as httpsRequest } from "node:https";
+import { generateText } from "ai";
+import { JSDOM } from "jsdom";
+import { MODELS_MAP } from "@/lib/config/models";
+import { DOCUMENT_EXTRACTION_MODEL } from "@/lib/retrieval";
+import { assertPublicUrl, lookupPublicAddress } from "@/lib/url-safety";
+import { FETCH_URL_CONFIG } from "./types";
+
+// Elements that hold navigation, scripts and other text that is not content
+const NON_CONTENT_SELECTOR =
+  "script, style, noscript, template, svg, iframe, nav, header, footer, aside, form, button";
+const WHITESPACE_REGEX = /\s+/g;
+const BLANK_LINES_REGEX = /\n{3,}/g;
+const CODE_FENCE = "```";
+const LINE_START_REGEX = /^/gm;
+const HEADING_REGEX = /^h([1-6])$/;
+
+const ELEMENT_NODE = 1;
+const TEXT_NODE = 3;
+
+const PDF_EXTRACTION_PROMPT =
+  "Transcribe the full text of this document as markdown. Keep headings, lists and table rows on their own lines. Do not summarize or add commentary.";
+
+export type PageContent = {
+  url: string; // Final URL after redirects
+  title: string;
+  description: string;
+  markdown: string;
+  contentType: "html" | "pdf" | "text";
+  truncated: boolean;
+};
+
+type FetchOptions = {
+  timeoutMs: number;
+  maxBytes: number;
+};
+
+type ReadPageOptions = Partial<FetchOptions> & {
+  // Replaced in tests, which cannot reach public hosts
+  fetchBody?: (url: string, options: FetchOptions) => Promise<FetchedBody>;
+  transcribePdf?: (bytes: Uint8Array) => Promise<string>;
+};
+
+type FetchedBody = {
+  url: string;
+  contentType: string;
+  bytes: Uint8Array;
+  truncated: boolean;
+};
+
+// Helper function to convert the children of an element to markdown
+function childrenToMarkdown(element: Element): string {
+  return Array.from(element.childNodes).map(nodeToMarkdown).join("");
+}
+
+// Helper function to convert the rows of a table to a markdown table
+function tableToMarkdown(table: Element): string {
+  const rows = Array.from(table.querySelectorAll("tr")).map(
+    (row) =>
+      `| ${Array.from(row.querySelectorAll("th, td"))
+        .map((cell) =>
+          childrenToMarkdown(cell).replace(WHITESPACE_REGEX, " ").trim()
+        )
+        .join(" | ")} |`
+  );
+  if (rows.length === 0) {
+    return "";
+  }
+  const columns = table.querySelector("tr")?.querySelectorAll("th, td").length;
+  const separator = `| ${new Array<string>(columns || 1)
+    .fill("---")
+    .join(" | ")} |`;
+  return `\n\n${[rows[0], separator, ...rows.slice(1)].join("\n")}\n\n`;
+}
+
+// Helper function to convert a DOM node to markdown
+function nodeToMarkdown(node: Node): string {
+  if (node.nodeType === TEXT_NODE) {
+    return (node.textContent ?? "").replace(WHITESPACE_REGEX, " ");
+  }
+  if (node.nodeType !== ELEMENT_NODE) {
+    return "";
+  }
+
+  const element = node as Element;
+  const tag = element.tagName.toLowerCase();
+  const heading = HEADING_REGEX.exec(tag);
+  if (heading) {
+    const text = childrenToMarkdown(element).trim();
+    return text ? `\n\n${"#".repeat(Number(heading[1]))} ${text}\n\n` : "";
+  }
+
+  switch (tag) {
+    case "br":
+      return "\n";
+    case "hr":
+      return "\n\n---\n\n";
+    case "img":
+      return "";
+    case "a": {
+      const text = childrenToMarkdown(element).trim();
+      const href = (element as HTMLAnchorElement).href;
+      return text && href.startsWith("http") ? `[${text}](${href})` : text;
+    }
+    case "strong":
+    case "b": {
+      const text = childrenToMarkdown(element).trim();
+      return text ? `**${text}**` : "";
+    }
+    case "em":
+    case "i": {
+      const text = childrenToMarkdown(element).trim();
+      return text ? `*${text}*` : "";
+    }
+    case "code":
+      return `\`${element.textContent ?? ""}\``;
+    case "pre":
+      return `\n\n\`\`\`\n${(element.textContent ?? "").trimEnd()}\n\`\`\`\n\n`;
+    case "blockquote":
+      return `\n\n${childrenToMarkdown(element).trim().replace(LINE_START_REGEX, "> ")}\n\n`;
+    case "ul":
+    case "ol": {
+      const items = Array.from(element.children)
+        .filter((child) => child.tagName.toLowerCase() === "li")
+        .map(
+          (item, index) =>
+            `${tag === "ol" ? `${index + 1}.` : "-"} ${childrenToMarkdown(item).trim()}`
+        );
+      return `\n\n${items.join("\n")}\n\n`;
+    }
+    case "table":
+      return tableToMarkdown(element);
+    case "p":
+    case "div":
+    case "section":
+    case "article":
+    case "main":
+    case "figure":
+    case "figcaption":
+    case "dl":
+    case "dt":
+    case "dd":
+      return `\n\n${childrenToMarkdown(element)}\n\n`;
+    default:
+      return childrenToMarkdown(element);
+  }
+}
+
+/**
+ * Convert an HTML page to markdown, preferring its main content
+ */
+export function htmlToMarkdown(
+  html: string,
+  url: string
+): { title: string; description: string; markdown: string } {
+  const { document } = new JSDOM(html, { url }).window;
+  const description =
+    document
+      .querySelector(
+        'meta[name="description"], meta[property="og:description"]'
+      )
+      ?.getAttribute("content")
+      ?.trim() ?? "";
+  for (const element of document.querySelectorAll(NON_CONTENT_SELECTOR)) {
+    element.remove();
+  }
+  const root =
+    document.querySelector("article") ??
+    document.querySelector("main") ??
+    document.body;
+
+  // Trim the spaces left around blocks, except inside code blocks
+  let isInCode = false;
+  const markdown = (root ? nodeToMarkdown(root) : "")
+    .split("\n")
+    .map((line) => {
+      if (line.trim().startsWith(CODE_FENCE)) {
+        isInCode = !isInCode;
+        return line.trim();
+      }
+      return isInCode ? line : line.trim();
+    })
+    .join("\n")
+    .replace(BLANK_LINES_REGEX, "\n\n")
+    .trim();
+  return { title: document.title.trim(), description, markdown };
+}
+
+// Helper function to read a response body up to a number of bytes
+async function readBody(
+  response: IncomingMessage,
+  maxBytes: number
+): Promise<{ bytes: Uint8Array; truncated: boolean }> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  let truncated = false;
+  for await (const chunk of response) {
+    chunks.push(chunk);
+    size += chunk.byteLength;
+    if (size > maxBytes) {
+      // Leaving the loop destroys the response
+      truncated = true;
+      break;
+    }
+  }
+  return {
+    bytes: new Uint8Array(Buffer.concat(chunks).subarray(0, maxBytes)),
+    truncated,
+  };
+}
+
+// Helper function to send a GET request that only connects to the public
+// addresses its host resolves to. Redirects are returned, not followed.
+function requestPublicUrl(
+  url: URL,
+  signal: AbortSignal
+): Promise<IncomingMessage> {
+  const request = url.protocol === "https:" ? httpsRequest : httpRequest;
+  return new Promise((resolve, reject) => {
+    request(
+      url,
+      {
+        headers: {
+          Accept:
+            "text/html,application/xhtml+xml,application/pdf,text/plain;q=0.9",
+          "User-Agent": "Mozilla/5.0 (compatible; OSChatReader/1.0)",
+        },
+        lookup: lookupPublicAddress,
+        signal,
+      },
+      resolve
+    )
+      .on("error", reject)
+      .end();
+  });
+}
+
+/**
+ * Fetch a public URL, checking every redirect against private and local
+ * addresses before following it
+ */
+export async function fetchPublicUrl(
+  url: string,
+  { timeoutMs, maxBytes }: FetchOptions
+): Promise<FetchedBody> {
+  const signal = AbortSignal.timeout(timeoutMs);
+  let currentUrl = url;
+
+  for (let hop = 0; hop <= FETCH_URL_CONFIG.maxRedirects; hop++) {
+    const checkedUrl = await assertPublicUrl(currentUrl);
+    const response = await requestPublicUrl(checkedUrl, signal);
+    const status = response.statusCode ?? 0;
+
+    const location = response.headers.location;
+    if (status >= 300 && status < 400 && location) {
+      response.destroy();
+      currentUrl = new URL(location, checkedUrl).toString();
+      continue;
+    }
+    if (status < 200 || status >= 300) {
+      response.destroy();
+      throw new Error(`The page returned ${status}`);
+    }
+
+    const { bytes, truncated } = await readBody(response, maxBytes);
+    return {
+      url: checkedUrl.toString(),
+      contentType: response.headers["content-type"] ?? "",
+      bytes,
+      truncated,
+    };
+  }
+  throw new Error("The page redirected too many times");
+}
+
+// Helper function to transcribe a PDF with a model that reads PDFs natively
+async function extractPdfText(bytes: Uint8Array): Promise<string> {
+  const model = MODELS_MAP[DOCUMENT_EXTRACTION_MODEL];
+  const { text } = await generateText({
+    model: model.api_sdk,
+    messages: [
+      {
+        role: "user",
+        content: [
+          { type: "text", text: PDF_EXTRACTION_PROMPT },
+          { type: "file", data: bytes, mediaType: "application/pdf" },
+        ],
+      },
+    ],
+  });
+  return text.trim();
+}
+
+/**
+ * Fetch a web page or PDF and return its readable text as markdown. Refuses
+ * private and local addresses, and stops reading past the size limit.
+ */
+export async function readPage(
+  url: string,
+  {
+    timeoutMs = FETCH_URL_CONFIG.timeoutMs,
+    maxBytes = FETCH_URL_CONFIG.maxBytes,
+    fetchBody = fetchPublicUrl,
+    transcribePdf = extractPdfText,
+  }: ReadPageOptions = {}
+): Promise<PageContent> {
+  const body = await fetchBody(url, { timeoutMs, maxBytes });
+  const text = () => new TextDecoder().decode(body.bytes);
+
+  if (body.contentType.includes("application/pdf")) {
+    // A cut-off PDF cannot be parsed
+    if (body.truncated) {
+      throw new Error("The PDF is too large to read");
+    }
+    return {
+      url: body.url,
+      title: new URL(body.url).pathname.split("/").pop() || body.url,
+      description: "",
+      markdown: await transcribePdf(body.bytes),
+      contentType: "pdf",
+      truncated: false,
+    };
+  }
+  if (body.contentType.includes("html")) {
+    return {
+      url: body.url,
+      ...htmlToMarkdown(text(), body.url),
+      contentType: "html",
+      truncated: body.truncated,
+    };
+  }
+  if (body.contentType.startsWith("text/") || body.contentType === "") {
+    return {
+      url: body.url,
+      title: "",
+      description: "",
+      markdown: text().trim(),
+      contentType: "text",
+      truncated: body.truncated,
+    };
+  }
+  throw new Error(`Pages of type ${body.contentType} cannot be read`);
+}
@@ -0,0 +1,116 @@
+import {
+  handleSearchError,
+  SearchInvalidResponseError,
+} from "../search-errors";
+import {
+  PROVIDER_LIMITS,
+  SEARCH_CONFIG,
+  type SearchAdapter,
+  type SearchOptions,
+  type SearchResult,
+} from "../types";
+
+// Self-hosted endpoints can be slow; give up so the next provider is tried
+const CUSTOM_SEARCH_TIMEOUT_MS = 15_000;
+
+/**
+ * Search any endpoint that speaks a small JSON contract. The endpoint gets a
+ * POST with `{ query, maxResults, includeDomains, excludeDomains,
+ * startPublishedDate, endPublishedDate, category }` and answers with
+ * `{ results: [{ url, title, description?, content? }] }`. The API key, when
+ * set, is sent as a bearer token.
+ */
+export class CustomSearchProvider implements SearchAdapter {
+  readonly name = "custom";
+  private readonly url: string;
+  private readonly apiKey?: string;
+  private readonly fetch: typeof fetch;
+
+  // fetchImpl is publicFetch for URLs users set, see getProvider
+  constructor(url: string, apiKey?: string, fetchImpl: typeof fetch = fetch) {
+    if (!url) {
+      throw new Error("Custom search endpoint URL is required");
+    }
+    this.url = url;
+    this.apiKey = apiKey;
+    this.fetch = fetchImpl;
+  }
+
+  async search(
+    query: string,
+    options: SearchOptions = {}
+  ): Promise<SearchResult[]> {
+    const {
+      maxResults = SEARCH_CONFIG.maxResults,
+      scrapeContent = SEARCH_CONFIG.scrapeContent,
+      includeDomains,
+      excludeDomains,
+      startPublishedDate,
+      endPublishedDate,
+      category,
+    } = options;
+
+    const limit = Math.min(maxResults, PROVIDER_LIMITS.custom.maxResults);
+
+    try {
+      const response = await this.fetch(this.url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Accept: "application/json",
+          ...(this.apiKey && { Authorization: `Bearer ${this.apiKey}` }),
+        },
+        body: JSON.stringify({
+          query,
+          maxResults: limit,
+          includeDomains,
+          excludeDomains,
+          startPublishedDate,
+          endPublishedDate,
+          category,
+        }),
+        signal: AbortSignal.timeout(CUSTOM_SEARCH_TIMEOUT_MS),
+      });
+
+      if (!response.ok) {
+        throw new Error(
+          `Custom search failed: ${response.status} ${response.statusText}`
+        );
+      }
+
+      const data = await response.json();
+      if (!Array.isArray(data?.results)) {
+        throw new SearchInvalidResponseError(
+          "custom",
+          "Expected a results array"
+        );
+      }
+
+      return this.formatResults(data.results, scrapeContent).slice(0, limit);
+    } catch (error) {
+      handleSearchError(error, "custom");
+    }
+  }
+
+  private formatResults(
+    results: unknown[],
+    includeContent: boolean
+  ): SearchResult[] {
+    return results.map((result: unknown) => {
+      const item = result as {
+        url?: string;
+        title?: string;
+        description?: string;
+        snippet?: string;
+        content?: string;
+      };
+
+      return {
+        url: item.url || "",
+        title: item.title || "",
+        description: item.description || item.snippet || "",
+        content: includeContent ? item.content : undefined,
+      };
+    });
+  }
+}
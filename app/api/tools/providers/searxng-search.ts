@@ -0,0 +1,156 @@
+import { handleSearchError } from "../search-errors";
+import {
+  type ExaSearchCategory,
+  PROVIDER_LIMITS,
+  SEARCH_CONFIG,
+  type SearchAdapter,
+  type SearchOptions,
+  type SearchResult,
+} from "../types";
+
+// Self-hosted instances can be slow; give up so the next provider is tried
+const SEARXNG_TIMEOUT_MS = 15_000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// SearXNG categories that match the search tool's categories
+const SEARXNG_CATEGORIES: Partial<Record<ExaSearchCategory, string>> = {
+  news: "news",
+  "research paper": "science",
+  github: "it",
+};
+
+// Helper function to map a start date to SearXNG's coarse time ranges
+function getTimeRange(startPublishedDate?: string): string | undefined {
+  const start = startPublishedDate
+    ? Date.parse(startPublishedDate)
+    : Number.NaN;
+  if (Number.isNaN(start)) {
+    return;
+  }
+  const age = Date.now() - start;
+  if (age <= DAY_MS) {
+    return "day";
+  }
+  if (age <= 7 * DAY_MS) {
+    return "week";
+  }
+  if (age <= 31 * DAY_MS) {
+    return "month";
+  }
+  if (age <= 366 * DAY_MS) {
+    return "year";
+  }
+}
+
+// Helper function to check a result's host against a list of domains
+function matchesDomain(url: string, domains: string[]): boolean {
+  try {
+    const { hostname } = new URL(url);
+    return domains.some(
+      (domain) => hostname === domain || hostname.endsWith(`.${domain}`)
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Search a SearXNG instance through its JSON API. The instance must list
+ * `json` under `search.formats` in its settings.yml.
+ */
+export class SearXNGSearchProvider implements SearchAdapter {
+  readonly name = "searxng";
+  private readonly baseUrl: string;
+  private readonly fetch: typeof fetch;
+
+  // fetchImpl is publicFetch for URLs users set, see getProvider
+  constructor(baseUrl: string, fetchImpl: typeof fetch = fetch) {
+    if (!baseUrl) {
+      throw new Error("SearXNG URL is required");
+    }
+    this.baseUrl = baseUrl;
+    this.fetch = fetchImpl;
+  }
+
+  async search(
+    query: string,
+    options: SearchOptions = {}
+  ): Promise<SearchResult[]> {
+    const {
+      maxResults = SEARCH_CONFIG.maxResults,
+      scrapeContent = SEARCH_CONFIG.scrapeContent,
+      includeDomains,
+      excludeDomains,
+      startPublishedDate,
+      category,
+    } = options;
+
+    const limit = Math.min(maxResults, PROVIDER_LIMITS.searxng.maxResults);
+
+    try {
+      // A single domain can be searched directly; longer lists are filtered
+      // after the search
+      const params = new URLSearchParams({
+        q:
+          includeDomains?.length === 1
+            ? `${query} site:${includeDomains[0]}`
+            : query,
+        format: "json",
+        safesearch: "1",
+        language: "en",
+        categories: (category && SEARXNG_CATEGORIES[category]) || "general",
+      });
+      const timeRange = getTimeRange(startPublishedDate);
+      if (timeRange) {
+        params.append("time_range", timeRange);
+      }
+
+      const response = await this.fetch(`${this.baseUrl}/search?${params}`, {
+        headers: { Accept: "application/json" },
+        signal: AbortSignal.timeout(SEARXNG_TIMEOUT_MS),
+      });
+
+      if (!response.ok) {
+        throw new Error(
+          `SearXNG search failed: ${response.status} ${response.statusText}`
+        );
+      }
+
+      const data = await response.json();
+      const results = this.formatResults(
+        data.results || [],
+        scrapeContent
+      ).filter(
+        (result) =>
+          (!includeDomains?.length ||
+            matchesDomain(result.url, includeDomains)) &&
+          !(excludeDomains?.length && matchesDomain(result.url, excludeDomains))
+      );
+
+      return results.slice(0, limit);
+    } catch (error) {
+      handleSearchError(error, "searxng");
+    }
+  }
+
+  private formatResults(
+    results: unknown[],
+    includeContent: boolean
+  ): SearchResult[] {
+    return results.map((result: unknown) => {
+      const item = result as {
+        url?: string;
+        title?: string;
+        content?: string;
+      };
+
+      return {
+        url: item.url || "",
+        title: item.title || "",
+        description: item.content || "",
+        content: includeContent ? item.content : undefined,
+      };
+    });
+  }
+}
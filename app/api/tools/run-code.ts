@@ -0,0 +1,155 @@
+import { tool } from "ai";
+import { z } from "zod";
+import type { Id } from "@/convex/_generated/dataModel";
+import type { DataFileInput } from "@/lib/code-sandbox";
+import { UPLOAD_MAX_BYTES } from "@/lib/config/upload";
+import { classifyError } from "@/lib/error-utils";
+import { uploadBlobToR2 } from "@/lib/server-upload-helpers";
+import { runInSandbox, type SandboxFile } from "./code-sandbox";
+import { fetchPublicUrl } from "./page-reader";
+
+const FILE_DOWNLOAD_TIMEOUT_MS = 30_000;
+
+export type RunCodeOutput =
+  | {
+      success: true;
+      language: "python" | "javascript";
+      stdout: string;
+      stderr: string;
+      exitCode: number | null;
+      timedOut: boolean;
+      artifacts: { name: string; url: string; mediaType: string }[];
+    }
+  | {
+      success: false;
+      error: string;
+    };
+
+type RunCodeToolOptions = {
+  token: string;
+  chatId: Id<"chats">;
+  files: DataFileInput[]; // Data files attached in the conversation
+};
+
+type DownloadedFiles = {
+  files: SandboxFile[];
+  failures: string[]; // "<name>: <reason>" for each file that was left out
+};
+
+// Helper function to download one attached data file into memory, checking
+// every redirect and stopping past the upload size limit
+async function downloadFile(file: DataFileInput): Promise<SandboxFile> {
+  const { bytes, truncated } = await fetchPublicUrl(file.url, {
+    timeoutMs: FILE_DOWNLOAD_TIMEOUT_MS,
+    maxBytes: UPLOAD_MAX_BYTES,
+  });
+  if (truncated) {
+    throw new Error("it is too large to load");
+  }
+  return { name: file.name, data: bytes };
+}
+
+// Helper function to download the attached data files. Files that fail are
+// left out, so code that does not read them still runs.
+async function downloadFiles(files: DataFileInput[]): Promise<DownloadedFiles> {
+  const results = await Promise.allSettled(files.map(downloadFile));
+  const downloaded: DownloadedFiles = { files: [], failures: [] };
+  results.forEach((result, index) => {
+    if (result.status === "fulfilled") {
+      downloaded.files.push(result.value);
+      return;
+    }
+    const reason =
+      result.reason instanceof Error ? result.reason.message : "unknown error";
+    downloaded.failures.push(`${files[index].name}: ${reason}`);
+  });
+  return downloaded;
+}
+
+/**
+ * Create the run_code tool: runs Python or JavaScript in an isolated sandbox
+ * with the conversation's data files in its working directory, and saves the
+ * images it writes to the chat
+ */
+export const createRunCodeTool = ({
+  token,
+  chatId,
+  files,
+}: RunCodeToolOptions) => {
+  // Files are downloaded on the first run, and again while any failed
+  let filesPromise: Promise<DownloadedFiles> | undefined;
+  const fileList =
+    files.length > 0
+      ? ` Files in the working directory: ${files.map((file) => file.name).join(", ")}.`
+      : "";
+
+  return tool({
+    description: `Run Python or JavaScript in an isolated sandbox without network access and return stdout, stderr and any images it saves. Use it for calculations, data analysis and charts, and to check code before presenting it. Python has pandas, numpy, openpyxl and matplotlib; save charts as PNG files in the working directory (open matplotlib figures are saved automatically). Each run starts fresh, so reload files and redefine variables every time.${fileList}`,
+    inputSchema: z.object({
+      language: z
+        .enum(["python", "javascript"])
+        .describe("The language of the code"),
+      code: z.string().describe("The complete program to run"),
+    }),
+    execute: async (
+      { language, code },
+      { abortSignal }
+    ): Promise<RunCodeOutput> => {
+      try {
+        filesPromise ??= downloadFiles(files);
+        const downloaded = await filesPromise;
+        if (downloaded.failures.length > 0) {
+          filesPromise = undefined;
+        }
+        const result = await runInSandbox({
+          language,
+          code,
+          files: downloaded.files,
+          abortSignal,
+        });
+        const missingFiles =
+          downloaded.failures.length > 0
+            ? `These files could not be loaded and are missing from the working directory:\n${downloaded.failures.map((failure) => `- ${failure}`).join("\n")}\n`
+            : "";
+
+        // Save generated images so the chat can show them
+        const artifacts = await Promise.all(
+          result.artifacts.map(async (artifact) => {
+            const saved = await uploadBlobToR2(
+              new Blob([new Uint8Array(artifact.data)], {
+                type: artifact.mediaType,
+              }),
+              {
+                chatId,
+                fileName: artifact.name,
+                token,
+                isGenerated: true,
+              }
+            );
+            return {
+              name: saved.fileName,
+              url: saved.url ?? "",
+              mediaType: artifact.mediaType,
+            };
+          })
+        );
+
+        return {
+          success: true,
+          language,
+          stdout: result.stdout,
+          stderr: `${missingFiles}${result.stderr}`,
+          exitCode: result.exitCode,
+          timedOut: result.timedOut,
+          artifacts: artifacts.filter((artifact) => artifact.url),
+        };
+      } catch (error) {
+        // Return error response that can be handled gracefully
+        return {
+          success: false,
+          error: classifyError(error).userFriendlyMessage,
+        };
+      }
+    },
+  });
+};
@@ -0,0 +1,83 @@
+import { tool } from "ai";
+import { fetchAction } from "convex/nextjs";
+import { z } from "zod";
+import { api } from "@/convex/_generated/api";
+import type { Id } from "@/convex/_generated/dataModel";
+import { classifyError } from "@/lib/error-utils";
+import { RETRIEVAL_CONFIG } from "@/lib/retrieval";
+
+type SearchDocumentsToolOptions = {
+  token: string;
+  // Set when the chat belongs to a project with reference files
+  projectId?: Id<"projects">;
+};
+
+/**
+ * Create the search_documents tool, which retrieves passages from the PDFs
+ * and text files the user uploaded in any chat
+ */
+export function createSearchDocumentsTool({
+  token,
+  projectId,
+}: SearchDocumentsToolOptions) {
+  return tool({
+    description:
+      "Search the documents (PDFs and text files) the user has uploaded in any of their chats. Use this when the user refers to their files, notes or uploaded documents, or asks something their documents are likely to answer. Cite the file name of each passage you use.",
+    inputSchema: z.object({
+      query: z
+        .string()
+        .describe(
+          "What to look for, phrased as a question or the key terms of the passage"
+        ),
+      maxResults: z
+        .number()
+        .optional()
+        .default(RETRIEVAL_CONFIG.defaultResults)
+        .describe(
+          `Maximum number of passages to return (default: ${RETRIEVAL_CONFIG.defaultResults}, max: ${RETRIEVAL_CONFIG.maxResults})`
+        ),
+      projectOnly: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe(
+          "Only search the reference files of the current project. Ignored outside projects"
+        ),
+    }),
+    execute: async ({ query, maxResults, projectOnly }) => {
+      try {
+        const passages = await fetchAction(
+          api.documents_ai.searchDocuments,
+          {
+            query,
+            limit: maxResults,
+            projectId: projectOnly ? projectId : undefined,
+          },
+          { token }
+        );
+
+        return {
+          success: true,
+          query,
+          results: passages.map((passage) => ({
+            title: `${passage.fileName} (passage ${passage.chunkIndex + 1})`,
+            fileName: passage.fileName,
+            url: passage.url,
+            content: passage.text,
+            score: passage.score,
+          })),
+          count: passages.length,
+        };
+      } catch (error) {
+        const classified = classifyError(error);
+        return {
+          success: false,
+          query,
+          results: [],
+          count: 0,
+          error: classified.userFriendlyMessage,
+        };
+      }
+    },
+  });
+}
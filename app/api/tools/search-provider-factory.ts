@@ -1,55 +1,133 @@
 import { classifyError } from "@/lib/error-utils";
+import { allowsPrivateCustomEndpoints } from "@/lib/private-address";
+import { getSearchProviderOrder } from "@/lib/search-providers";
+import { publicFetch } from "@/lib/url-safety";
 import { BraveSearchProvider } from "./providers/brave-search";
+import { CustomSearchProvider } from "./providers/custom-search";
 import { ExaSearchProvider } from "./providers/exa-search";
+import { SearXNGSearchProvider } from "./providers/searxng-search";
 import { TavilySearchProvider } from "./providers/tavily-search";
 import {
   SEARCH_CONFIG,
   type SearchAdapter,
   type SearchOptions,
   type SearchProvider,
+  type SearchProviderConfig,
   type SearchResult,
 } from "./types";
 
-// Cache for provider instances
+// Cache for provider instances built from the server's environment
 const instances: Map<SearchProvider, SearchAdapter> = new Map();
 
-export function getProvider(provider?: SearchProvider): SearchAdapter {
+// Helper function to get the key or URL a provider needs, preferring the
+// user's own over the server's
+function getProviderCredential(
+  provider: SearchProvider,
+  config?: SearchProviderConfig
+): string | undefined {
+  switch (provider) {
+    case "brave":
+      return config?.apiKeys?.brave || process.env.BRAVE_API_KEY;
+    case "tavily":
+      return config?.apiKeys?.tavily || process.env.TAVILY_API_KEY;
+    case "exa":
+      return config?.apiKeys?.exa || process.env.EXA_API_KEY;
+    case "searxng":
+      return config?.searxngUrl || SEARCH_CONFIG.searxngUrl;
+    case "custom":
+      return config?.customEndpointUrl || SEARCH_CONFIG.customEndpointUrl;
+    default:
+      return;
+  }
+}
+
+// Helper function to check whether a provider uses the user's settings
+// rather than the server's environment
+function usesUserSettings(
+  provider: SearchProvider,
+  config?: SearchProviderConfig
+): boolean {
+  switch (provider) {
+    case "searxng":
+      return Boolean(config?.searxngUrl);
+    case "custom":
+      return Boolean(config?.customEndpointUrl || config?.apiKeys?.custom);
+    default:
+      return Boolean(config?.apiKeys?.[provider]);
+  }
+}
+
+// Helper function to get the fetch a self-hosted provider uses. URLs users set
+// only reach public addresses unless the deployment allows private endpoints;
+// the server's own SEARXNG_URL and CUSTOM_SEARCH_URL are trusted.
+function getEndpointFetch(userUrl: string | undefined): typeof fetch {
+  return userUrl && !allowsPrivateCustomEndpoints() ? publicFetch : fetch;
+}
+
+export function getProvider(
+  provider?: SearchProvider,
+  config?: SearchProviderConfig
+): SearchAdapter {
   const selectedProvider = provider || SEARCH_CONFIG.defaultProvider;
+  const isShared = !usesUserSettings(selectedProvider, config);
 
   // Check if we already have an instance
-  const existingInstance = instances.get(selectedProvider);
+  const existingInstance = isShared
+    ? instances.get(selectedProvider)
+    : undefined;
   if (existingInstance) {
     return existingInstance;
   }
 
   // Create new instance based on provider type
+  const credential = getProviderCredential(selectedProvider, config);
   let instance: SearchAdapter;
 
   switch (selectedProvider) {
     case "brave": {
-      const braveKey = process.env.BRAVE_API_KEY;
-      if (!braveKey) {
+      if (!credential) {
         throw new Error("BRAVE_API_KEY environment variable is not set");
       }
-      instance = new BraveSearchProvider(braveKey);
+      instance = new BraveSearchProvider(credential);
       break;
     }
 
     case "tavily": {
-      const tavilyKey = process.env.TAVILY_API_KEY;
-      if (!tavilyKey) {
+      if (!credential) {
         throw new Error("TAVILY_API_KEY environment variable is not set");
       }
-      instance = new TavilySearchProvider(tavilyKey);
+      instance = new TavilySearchProvider(credential);
       break;
     }
 
     case "exa": {
-      const exaKey = process.env.EXA_API_KEY;
-      if (!exaKey) {
+      if (!credential) {
         throw new Error("EXA_API_KEY environment variable is not set");
       }
-      instance = new ExaSearchProvider(exaKey);
+      instance = new ExaSearchProvider(credential);
+      break;
+    }
+
+    case "searxng": {
+      if (!credential) {
+        throw new Error("SEARXNG_URL environment variable is not set");
+      }
+      instance = new SearXNGSearchProvider(
+        credential,
+        getEndpointFetch(config?.searxngUrl)
+      );
+      break;
+    }
+
+    case "custom": {
+      if (!credential) {
+        throw new Error("CUSTOM_SEARCH_URL environment variable is not set");
+      }
+      instance = new CustomSearchProvider(
+        credential,
+        config?.apiKeys?.custom || process.env.CUSTOM_SEARCH_API_KEY,
+        getEndpointFetch(config?.customEndpointUrl)
+      );
       break;
     }
 
@@ -57,29 +135,23 @@ export function getProvider(provider?: SearchProvider): SearchAdapter {
       throw new Error(`Unknown search provider: ${selectedProvider}`);
   }
 
-  // Cache the instance
-  instances.set(selectedProvider, instance);
+  // Cache the instance, unless it holds a user's settings
+  if (isShared) {
+    instances.set(selectedProvider, instance);
+  }
   return instance;
 }
 
 export async function searchWithFallback(
   query: string,
   options?: SearchOptions,
-  providers?: SearchProvider[]
+  config?: SearchProviderConfig
 ): Promise<SearchResult[]> {
-  // If no providers specified, create a smart fallback order starting with default
-  const providersToTry =
-    providers ||
-    (() => {
-      const defaultProvider = SEARCH_CONFIG.defaultProvider;
-      const allProviders: SearchProvider[] = ["brave", "tavily", "exa"];
-
-      // Start with default provider, then add others
-      return [
-        defaultProvider,
-        ...allProviders.filter((p) => p !== defaultProvider),
-      ];
-    })();
+  // The user's order, or a smart fallback order starting with the default
+  const providersToTry = getSearchProviderOrder(
+    SEARCH_CONFIG.defaultProvider,
+    config?.providers
+  );
 
   // Try each provider sequentially until one succeeds
   const tryProvider = async (
@@ -92,13 +164,12 @@ export async function searchWithFallback(
     const provider = providersToTry[providerIndex];
 
     try {
-      // Check if API key exists before attempting to create provider
-      const hasApiKey = hasApiKeyForProvider(provider);
-      if (!hasApiKey) {
+      // Check if a key or URL exists before attempting to create provider
+      if (!getProviderCredential(provider, config)) {
         return await tryProvider(providerIndex + 1);
       }
 
-      const adapter = getProvider(provider);
+      const adapter = getProvider(provider, config);
       return await adapter.search(query, options);
     } catch (error) {
       // If this is the last provider, throw the error
@@ -115,16 +186,3 @@ export async function searchWithFallback(
 
   return await tryProvider(0);
 }
-
-function hasApiKeyForProvider(provider: SearchProvider): boolean {
-  switch (provider) {
-    case "brave":
-      return Boolean(process.env.BRAVE_API_KEY);
-    case "tavily":
-      return Boolean(process.env.TAVILY_API_KEY);
-    case "exa":
-      return Boolean(process.env.EXA_API_KEY);
-    default:
-      return false;
-  }
-}
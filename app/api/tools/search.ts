@@ -1,11 +1,15 @@
 import { tool } from "ai";
 import { z } from "zod";
+import { dedupeSources } from "@/lib/deep-research";
 import { classifyError } from "@/lib/error-utils";
+import { createSearchCache, getSearchCacheKey } from "@/lib/search-cache";
 import { searchWithFallback } from "./search-provider-factory";
 import {
   type ExaSearchCategory,
+  SEARCH_CACHE_CONFIG,
   SEARCH_CONFIG,
   type SearchOptions,
+  type SearchProviderConfig,
   type SearchResult,
 } from "./types";
 
@@ -39,112 +43,160 @@ export const processResults = (results: SearchResult[]): SearchResult[] => {
   }));
 };
 
-// Main search tool
-export const searchTool = tool({
-  description:
-    "Search the web for current information and facts. Use this when you need to verify current facts, find recent events, or get real-time data.",
-  inputSchema: z.object({
-    query: z
-      .string()
-      .describe("The search query string to find relevant web content"),
-    maxResults: z
-      .number()
-      .optional()
-      .default(SEARCH_CONFIG.maxResults)
-      .describe(
-        "Maximum number of search results to return (default: 3). Use higher values (5-10) for comprehensive research, lower values (1-2) for quick facts"
-      ),
-    scrapeContent: z
-      .boolean()
-      .optional()
-      .default(SEARCH_CONFIG.scrapeContent)
-      .describe(
-        "Whether to fetch and include the full text content from web pages (default: true). Enable for detailed analysis, disable for faster searches when only titles/descriptions are needed"
-      ),
-    includeDomains: z
-      .array(z.string())
-      .optional()
-      .describe(
-        'Restrict search to specific domains (e.g., ["nytimes.com", "reuters.com"] for news). Use when you need information from trusted or specific sources'
-      ),
-    excludeDomains: z
-      .array(z.string())
-      .optional()
-      .describe(
-        'Exclude specific domains from search results (e.g., ["reddit.com", "pinterest.com"]). Use to filter out any website, forums, or unreliable sources'
-      ),
-    startPublishedDate: z
-      .string()
-      .optional()
-      .describe(
-        "Filter results published after this date (YYYY-MM-DD format). Use for recent events, news, or time-sensitive information"
-      ),
-    endPublishedDate: z
-      .string()
-      .optional()
-      .describe(
-        "Filter results published before this date (YYYY-MM-DD format). Use to find historical information or exclude very recent unverified content"
-      ),
-    category: z
-      .enum([
-        "company",
-        "research paper",
-        "news",
-        "linkedin profile",
-        "github",
-        "tweet",
-        "movie",
-        "song",
-        "personal site",
-        "pdf",
-        "financial report",
-      ] as const)
-      .optional()
-      .describe(
-        'Focus search on specific content type for more targeted results. Options: "company" (businesses/corporations), "research paper" (academic papers), "news" (current events/articles), "linkedin profile" (professional profiles), "github" (code repositories), "tweet" (twitter/X posts), "movie" (film content), "song" (music), "personal site" (blogs/portfolios), "pdf" (PDF documents), "financial report" (financial documents)'
-      ),
-  }),
-  execute: async ({
-    query,
-    maxResults,
-    scrapeContent,
-    includeDomains,
-    excludeDomains,
-    startPublishedDate,
-    endPublishedDate,
-    category,
-  }) => {
-    const options: SearchOptions = {
+const searchCache = createSearchCache(SEARCH_CACHE_CONFIG.store);
+
+/**
+ * Search with the provider fallback order, reusing results of the same query
+ * and options from the cache while they are fresh
+ */
+export async function searchWithCache(
+  query: string,
+  options: SearchOptions,
+  config?: SearchProviderConfig
+): Promise<{ results: SearchResult[]; cached: boolean }> {
+  // Keys stay out of the cache key; the providers and endpoints pick results
+  const cacheKey = getSearchCacheKey(query, {
+    ...options,
+    providers: config?.providers,
+    searxngUrl: config?.searxngUrl,
+    customEndpointUrl: config?.customEndpointUrl,
+  });
+
+  const cachedResults = await searchCache?.get<SearchResult[]>(cacheKey);
+  if (cachedResults) {
+    return { results: cachedResults, cached: true };
+  }
+
+  const results = await searchWithFallback(query, options, config);
+  if (results.length > 0) {
+    await searchCache?.set(cacheKey, results, SEARCH_CACHE_CONFIG.ttlSeconds);
+  }
+  return { results, cached: false };
+}
+
+/**
+ * Create the search tool for one response. A user's search settings pick the
+ * providers and keys; without them the server's defaults are used. Results
+ * already returned by an earlier call of the same tool are left out.
+ */
+export const createSearchTool = (config?: SearchProviderConfig) => {
+  // URLs of results returned earlier in this response
+  const seenUrls = new Set<string>();
+
+  return tool({
+    description:
+      "Search the web for current information and facts. Use this when you need to verify current facts, find recent events, or get real-time data.",
+    inputSchema: z.object({
+      query: z
+        .string()
+        .describe("The search query string to find relevant web content"),
+      maxResults: z
+        .number()
+        .optional()
+        .default(SEARCH_CONFIG.maxResults)
+        .describe(
+          "Maximum number of search results to return (default: 3). Use higher values (5-10) for comprehensive research, lower values (1-2) for quick facts"
+        ),
+      scrapeContent: z
+        .boolean()
+        .optional()
+        .default(SEARCH_CONFIG.scrapeContent)
+        .describe(
+          "Whether to fetch and include the full text content from web pages (default: true). Enable for detailed analysis, disable for faster searches when only titles/descriptions are needed"
+        ),
+      includeDomains: z
+        .array(z.string())
+        .optional()
+        .describe(
+          'Restrict search to specific domains (e.g., ["nytimes.com", "reuters.com"] for news). Use when you need information from trusted or specific sources'
+        ),
+      excludeDomains: z
+        .array(z.string())
+        .optional()
+        .describe(
+          'Exclude specific domains from search results (e.g., ["reddit.com", "pinterest.com"]). Use to filter out any website, forums, or unreliable sources'
+        ),
+      startPublishedDate: z
+        .string()
+        .optional()
+        .describe(
+          "Filter results published after this date (YYYY-MM-DD format). Use for recent events, news, or time-sensitive information"
+        ),
+      endPublishedDate: z
+        .string()
+        .optional()
+        .describe(
+          "Filter results published before this date (YYYY-MM-DD format). Use to find historical information or exclude very recent unverified content"
+        ),
+      category: z
+        .enum([
+          "company",
+          "research paper",
+          "news",
+          "linkedin profile",
+          "github",
+          "tweet",
+          "movie",
+          "song",
+          "personal site",
+          "pdf",
+          "financial report",
+        ] as const)
+        .optional()
+        .describe(
+          'Focus search on specific content type for more targeted results. Options: "company" (businesses/corporations), "research paper" (academic papers), "news" (current events/articles), "linkedin profile" (professional profiles), "github" (code repositories), "tweet" (twitter/X posts), "movie" (film content), "song" (music), "personal site" (blogs/portfolios), "pdf" (PDF documents), "financial report" (financial documents)'
+        ),
+    }),
+    execute: async ({
+      query,
       maxResults,
       scrapeContent,
       includeDomains,
       excludeDomains,
       startPublishedDate,
       endPublishedDate,
-      category: category as ExaSearchCategory,
-    };
+      category,
+    }) => {
+      const options: SearchOptions = {
+        maxResults,
+        scrapeContent,
+        includeDomains,
+        excludeDomains,
+        startPublishedDate,
+        endPublishedDate,
+        category: category as ExaSearchCategory,
+      };
 
-    try {
-      // Try primary provider first, then fallback to others if needed
-      const results = await searchWithFallback(query, options);
-      const processedResults = processResults(results);
+      try {
+        // Try primary provider first, then fallback to others if needed
+        const { results, cached } = await searchWithCache(
+          query,
+          options,
+          config
+        );
+        const newResults = dedupeSources(results, seenUrls);
+        const processedResults = processResults(newResults);
 
-      return {
-        success: true,
-        query,
-        results: processedResults,
-        count: processedResults.length,
-      };
-    } catch (error) {
-      // Return error response that can be handled gracefully
-      const classified = classifyError(error);
-      return {
-        success: false,
-        query,
-        results: [],
-        count: 0,
-        error: classified.userFriendlyMessage,
-      };
-    }
-  },
-});
+        return {
+          success: true,
+          query,
+          results: processedResults,
+          count: processedResults.length,
+          cached,
+          duplicateCount: results.length - newResults.length,
+        };
+      } catch (error) {
+        // Return error response that can be handled gracefully
+        const classified = classifyError(error);
+        return {
+          success: false,
+          query,
+          results: [],
+          count: 0,
+          cached: false,
+          error: classified.userFriendlyMessage,
+        };
+      }
+    },
+  });
+};
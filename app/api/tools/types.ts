@@ -1,4 +1,13 @@
 // Search provider interfaces and types
+import { getSearchCacheStoreType } from "@/lib/search-cache";
+import {
+  isSearchProvider,
+  type SearchKeyProvider,
+  type SearchProvider,
+} from "@/lib/search-providers";
+
+export type { SearchProvider } from "@/lib/search-providers";
+
 export type SearchAdapter = {
   readonly name: string;
   search(query: string, options?: SearchOptions): Promise<SearchResult[]>;
@@ -36,32 +45,52 @@ export type SearchOptions = {
   category?: ExaSearchCategory;
 };
 
-export type SearchProvider = "exa" | "tavily" | "brave";
+// Per-user search settings with decrypted keys. Unset values fall back to
+// the server's environment.
+export type SearchProviderConfig = {
+  providers?: SearchProvider[]; // Primary first, then the fallback order
+  apiKeys?: Partial<Record<SearchKeyProvider, string>>;
+  searxngUrl?: string;
+  customEndpointUrl?: string;
+};
 
 // Provider-specific limits from documentation
 export const PROVIDER_LIMITS = {
   exa: { maxResults: 10, maxChunks: 3 },
   tavily: { maxResults: 20, maxChunks: 8 },
   brave: { maxResults: 20, maxChunks: 3 },
+  searxng: { maxResults: 20, maxChunks: 3 },
+  custom: { maxResults: 20, maxChunks: 3 },
 } as const;
 
-// Validation function to ensure environment variable is a valid SearchProvider
-function isValidSearchProvider(
-  value: string | undefined
-): value is SearchProvider {
-  return value === "exa" || value === "tavily" || value === "brave";
-}
-
 // Get validated search provider from environment variable
 function getValidatedSearchProvider(): SearchProvider {
   const envProvider = process.env.DEFAULT_SEARCH_PROVIDER;
-  return isValidSearchProvider(envProvider) ? envProvider : "brave";
+  return isSearchProvider(envProvider) ? envProvider : "brave";
 }
 
 // Search configuration
 export const SEARCH_CONFIG = {
   defaultProvider: getValidatedSearchProvider(),
+  // Self-hosted endpoints used when a user has not set their own
+  searxngUrl: process.env.SEARXNG_URL,
+  customEndpointUrl: process.env.CUSTOM_SEARCH_URL,
   maxResults: 3,
   scrapeContent: true,
   maxTextCharacters: 1000,
 };
+
+// Search result caching. SEARCH_CACHE_STORE picks "redis" (Upstash),
+// "memory" or "none"; by default Redis is used when it is configured.
+export const SEARCH_CACHE_CONFIG = {
+  store: getSearchCacheStoreType(process.env.SEARCH_CACHE_STORE),
+  ttlSeconds: Number(process.env.SEARCH_CACHE_TTL_SECONDS) || 600,
+};
+
+// Limits for reading a single page with the fetch_url tool
+export const FETCH_URL_CONFIG = {
+  timeoutMs: 15_000,
+  maxRedirects: 5,
+  maxBytes: 5_000_000, // Larger HTML is cut off; larger PDFs are refused
+  maxCharacters: 20_000, // Page text handed to the model
+};
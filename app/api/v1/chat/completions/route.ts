@@ -0,0 +1,318 @@
+import {
+  type FinishReason,
+  generateText,
+  type LanguageModelUsage,
+  streamText,
+} from "ai";
+import { fetchAction } from "convex/nextjs";
+import { ConvexError } from "convex/values";
+import { fetchPublicUrl } from "@/app/api/tools/page-reader";
+import { api } from "@/convex/_generated/api";
+import { MODELS_MAP } from "@/lib/config";
+import { UPLOAD_MAX_BYTES } from "@/lib/config/upload";
+import { ERROR_CODES } from "@/lib/error-codes";
+import { classifyError, createErrorResponse } from "@/lib/error-utils";
+import {
+  type ChatCompletionRequest,
+  ChatCompletionRequestSchema,
+  createCompletionId,
+  encodeSseData,
+  getBearerToken,
+  getContentText,
+  isCompletionModel,
+  type LoadedImage,
+  toModelMessages,
+  toOpenAIFinishReason,
+  toOpenAIUsage,
+} from "@/lib/public-api";
+import { computeCostUsd } from "@/lib/usage-cost";
+import { createUserKeyModel, getUserKeyProvider } from "@/lib/user-key-models";
+
+// Maximum allowed duration for streaming (in seconds)
+export const maxDuration = 300;
+
+// Proves to Convex that the call comes from this server
+const serverSecret = process.env.PUBLIC_API_SERVER_SECRET ?? "";
+
+const IMAGE_DOWNLOAD_TIMEOUT_MS = 15_000;
+
+/**
+ * Helper function to download an image URL from the request, refusing
+ * private and local addresses so callers cannot reach internal hosts
+ */
+async function loadImage(url: string): Promise<LoadedImage> {
+  const { bytes, contentType, truncated } = await fetchPublicUrl(url, {
+    timeoutMs: IMAGE_DOWNLOAD_TIMEOUT_MS,
+    maxBytes: UPLOAD_MAX_BYTES,
+  });
+  const mediaType = contentType.split(";")[0].trim();
+  if (truncated || !mediaType.startsWith("image/")) {
+    throw new Error(`${url} is not an image that can be loaded`);
+  }
+  return { data: bytes, mediaType };
+}
+
+/**
+ * Helper function to add the token usage of one step to a running total
+ */
+function addUsage(
+  total: LanguageModelUsage,
+  step: LanguageModelUsage
+): LanguageModelUsage {
+  const add = (a?: number, b?: number) =>
+    a === undefined && b === undefined ? undefined : (a ?? 0) + (b ?? 0);
+  return {
+    inputTokens: add(total.inputTokens, step.inputTokens),
+    outputTokens: add(total.outputTokens, step.outputTokens),
+    totalTokens: add(total.totalTokens, step.totalTokens),
+    reasoningTokens: add(total.reasoningTokens, step.reasoningTokens),
+    cachedInputTokens: add(total.cachedInputTokens, step.cachedInputTokens),
+  };
+}
+
+/**
+ * Helper function to get the messages saved when the exchange is stored as a chat
+ */
+function getStoredMessages(messages: ChatCompletionRequest["messages"]) {
+  return messages.flatMap((message) =>
+    message.role === "user" || message.role === "assistant"
+      ? [{ role: message.role, content: getContentText(message.content) }]
+      : []
+  );
+}
+
+export async function POST(req: Request) {
+  const accessToken = getBearerToken(req);
+  if (!accessToken) {
+    return createErrorResponse(
+      new ConvexError(ERROR_CODES.INVALID_ACCESS_TOKEN)
+    );
+  }
+
+  const parsed = ChatCompletionRequestSchema.safeParse(
+    await req.json().catch(() => null)
+  );
+  if (!parsed.success) {
+    return createErrorResponse(new ConvexError(ERROR_CODES.INVALID_INPUT));
+  }
+  const body = parsed.data;
+
+  const model = MODELS_MAP[body.model];
+  if (!(model && isCompletionModel(model))) {
+    return createErrorResponse(new ConvexError(ERROR_CODES.UNSUPPORTED_MODEL));
+  }
+
+  const keyProvider = getUserKeyProvider(model);
+
+  try {
+    const { isPremium, userKey } = await fetchAction(
+      api.public_api.getAccessContext,
+      { serverSecret, accessToken, provider: keyProvider, store: body.store }
+    );
+
+    // --- API Key Resolution (same rules as the chat route) ---
+    const { apiKeyUsage } = model;
+    const userApiKey = apiKeyUsage?.allowUserKey
+      ? (userKey?.key ?? null)
+      : null;
+    const useUserKey = Boolean(
+      userApiKey && (apiKeyUsage.userKeyOnly || userKey?.mode === "priority")
+    );
+    if (apiKeyUsage?.userKeyOnly && !userApiKey) {
+      return createErrorResponse(new Error("user_key_required"));
+    }
+    if (model.premium && !useUserKey && !isPremium) {
+      return createErrorResponse(new Error("PREMIUM_MODEL_ACCESS_DENIED"));
+    }
+
+    // --- Rate Limiting (only if not using user key and model doesn't skip rate limits) ---
+    const usesPremiumCredits = model.usesPremiumCredits === true;
+    if (!(useUserKey || model.skipRateLimit)) {
+      await fetchAction(api.public_api.assertNotOverLimit, {
+        serverSecret,
+        accessToken,
+        usesPremiumCredits,
+      });
+    }
+
+    // Images are only downloaded for authenticated, in-limit callers
+    const messages = await toModelMessages(body.messages, loadImage).catch(
+      () => null
+    );
+    if (!messages) {
+      return createErrorResponse(new ConvexError(ERROR_CODES.INVALID_INPUT));
+    }
+
+    const startTime = Date.now();
+    const completionId = createCompletionId();
+    const created = Math.floor(startTime / 1000);
+    const stopSequences =
+      typeof body.stop === "string" ? [body.stop] : (body.stop ?? undefined);
+    const callOptions = {
+      model:
+        useUserKey && userApiKey
+          ? createUserKeyModel(model, userApiKey)
+          : model.api_sdk,
+      messages,
+      temperature: body.temperature ?? undefined,
+      topP: body.top_p ?? undefined,
+      maxOutputTokens:
+        body.max_completion_tokens ?? body.max_tokens ?? undefined,
+      stopSequences,
+    };
+
+    // Consume credits, record the cost and store the exchange if asked to.
+    // Failures propagate: an answer that cannot be billed is not returned.
+    const recordCompletion = (answer: string, usage: LanguageModelUsage) =>
+      fetchAction(api.public_api.recordCompletion, {
+        serverSecret,
+        accessToken,
+        provider: keyProvider,
+        usesPremiumCredits,
+        skipRateLimit: model.skipRateLimit,
+        metadata: {
+          modelId: model.id,
+          modelName: model.name,
+          inputTokens: usage.inputTokens,
+          outputTokens: usage.outputTokens,
+          reasoningTokens: usage.reasoningTokens,
+          totalTokens: usage.totalTokens,
+          cachedInputTokens: usage.cachedInputTokens,
+          serverDurationMs: Date.now() - startTime,
+          costUsd: computeCostUsd(model.pricing, usage),
+          wasUserKeyUsed: useUserKey,
+        },
+        store: body.store
+          ? { messages: getStoredMessages(body.messages), answer }
+          : undefined,
+      });
+
+    if (!body.stream) {
+      const result = await generateText(callOptions);
+      const { chatId } = await recordCompletion(result.text, result.usage);
+      return Response.json({
+        id: completionId,
+        object: "chat.completion",
+        created,
+        model: model.id,
+        choices: [
+          {
+            index: 0,
+            message: { role: "assistant", content: result.text },
+            finish_reason: toOpenAIFinishReason(result.finishReason),
+          },
+        ],
+        usage: toOpenAIUsage(result.usage),
+        ...(chatId ? { chat_id: chatId } : {}),
+      });
+    }
+
+    const result = streamText(callOptions);
+    const encoder = new TextEncoder();
+    const makeChunk = (
+      delta: { role?: "assistant"; content?: string },
+      finishReason: string | null = null
+    ) => ({
+      id: completionId,
+      object: "chat.completion.chunk",
+      created,
+      model: model.id,
+      choices: [{ index: 0, delta, finish_reason: finishReason }],
+    });
+
+    // The generation runs to the end even if the client goes away, so the
+    // tokens it used are always billed
+    let isClientConnected = true;
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const send = (data: unknown) => {
+          if (!isClientConnected) {
+            return;
+          }
+          try {
+            controller.enqueue(encoder.encode(encodeSseData(data)));
+          } catch {
+            isClientConnected = false;
+          }
+        };
+
+        let answer = "";
+        let finishReason: FinishReason = "stop";
+        let usage: LanguageModelUsage | undefined;
+        let stepsUsage: LanguageModelUsage = {
+          inputTokens: undefined,
+          outputTokens: undefined,
+          totalTokens: undefined,
+        };
+        let streamError: unknown;
+
+        try {
+          send(makeChunk({ role: "assistant", content: "" }));
+          for await (const part of result.fullStream) {
+            if (part.type === "text-delta") {
+              answer += part.text;
+              send(makeChunk({ content: part.text }));
+            } else if (part.type === "error") {
+              streamError ??= part.error;
+            } else if (part.type === "finish-step") {
+              stepsUsage = addUsage(stepsUsage, part.usage);
+            } else if (part.type === "finish") {
+              finishReason = part.finishReason;
+              usage = part.totalUsage;
+            }
+          }
+        } catch (error) {
+          streamError ??= error;
+        }
+
+        if (streamError === undefined) {
+          send(makeChunk({}, toOpenAIFinishReason(finishReason)));
+          if (usage && body.stream_options?.include_usage) {
+            send({
+              ...makeChunk({}),
+              choices: [],
+              usage: toOpenAIUsage(usage),
+            });
+          }
+        } else {
+          const classified = classifyError(streamError);
+          send({
+            error: {
+              type: classified.responseType,
+              message: classified.userFriendlyMessage,
+              code: classified.code,
+            },
+          });
+        }
+
+        // Bill whatever was generated, whether or not it was delivered
+        if (usage || stepsUsage.totalTokens !== undefined || answer) {
+          await recordCompletion(answer, usage ?? stepsUsage).catch(
+            (error: unknown) => {
+              // biome-ignore lint/suspicious/noConsole: billing failures must be visible in the server logs
+              console.error("Failed to record public API completion:", error);
+            }
+          );
+        }
+
+        send("[DONE]");
+        if (isClientConnected) {
+          controller.close();
+        }
+      },
+      cancel() {
+        isClientConnected = false;
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        Connection: "keep-alive",
+      },
+    });
+  } catch (error) {
+    return createErrorResponse(error);
+  }
+}
@@ -0,0 +1,36 @@
+import { fetchAction } from "convex/nextjs";
+import { ConvexError } from "convex/values";
+import { api } from "@/convex/_generated/api";
+import { MODELS } from "@/lib/config";
+import { ERROR_CODES } from "@/lib/error-codes";
+import { createErrorResponse } from "@/lib/error-utils";
+import { getBearerToken, isCompletionModel } from "@/lib/public-api";
+
+export async function GET(req: Request) {
+  const accessToken = getBearerToken(req);
+  if (!accessToken) {
+    return createErrorResponse(
+      new ConvexError(ERROR_CODES.INVALID_ACCESS_TOKEN)
+    );
+  }
+
+  try {
+    await fetchAction(api.public_api.getAccessContext, {
+      serverSecret: process.env.PUBLIC_API_SERVER_SECRET ?? "",
+      accessToken,
+    });
+
+    return Response.json({
+      object: "list",
+      data: MODELS.filter(isCompletionModel).map((model) => ({
+        id: model.id,
+        object: "model",
+        // Release dates are not tracked
+        created: 0,
+        owned_by: model.displayProvider ?? model.provider,
+      })),
+    });
+  } catch (error) {
+    return createErrorResponse(error);
+  }
+}
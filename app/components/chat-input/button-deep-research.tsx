@@ -0,0 +1,102 @@
+import { Binoculars } from "@phosphor-icons/react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import { useModelById } from "../../hooks/use-custom-models";
+import { PopoverContentAuth } from "./popover-content-auth";
+
+export type ButtonDeepResearchProps = {
+  onToggle?: () => void;
+  isUserAuthenticated: boolean;
+  deepResearchEnabled?: boolean;
+  model: string;
+};
+
+export function ButtonDeepResearch({
+  onToggle,
+  isUserAuthenticated,
+  deepResearchEnabled = false,
+  model,
+}: ButtonDeepResearchProps) {
+  const isToolCallingAvailable = useModelById(model)?.features?.find(
+    (f) => f.id === "tool-calling"
+  )?.enabled;
+
+  if (!isToolCallingAvailable) {
+    return (
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <span>
+            <Button
+              aria-label="Deep research"
+              className="size-9 cursor-not-allowed rounded-full opacity-50"
+              disabled
+              size="sm"
+              type="button"
+              variant="outline"
+            >
+              <Binoculars className="size-5" />
+            </Button>
+          </span>
+        </TooltipTrigger>
+        <TooltipContent>
+          This model does not support deep research.
+        </TooltipContent>
+      </Tooltip>
+    );
+  }
+  if (!isUserAuthenticated) {
+    return (
+      <Popover>
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <PopoverTrigger asChild>
+              <Button
+                aria-label="Deep research"
+                className="size-9 rounded-full"
+                size="sm"
+                type="button"
+                variant="outline"
+              >
+                <Binoculars className="size-5" />
+              </Button>
+            </PopoverTrigger>
+          </TooltipTrigger>
+          <TooltipContent>Deep research</TooltipContent>
+        </Tooltip>
+        <PopoverContentAuth />
+      </Popover>
+    );
+  }
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <Button
+          aria-label="Deep research"
+          aria-pressed={deepResearchEnabled}
+          className={
+            deepResearchEnabled
+              ? "size-9 rounded-full bg-blue-500/50 transition hover:bg-blue-600/50"
+              : "size-9 rounded-full"
+          }
+          onClick={onToggle}
+          size="sm"
+          type="button"
+          variant={deepResearchEnabled ? "ghost" : "outline"}
+        >
+          <Binoculars
+            className={deepResearchEnabled ? "size-5 text-blue-400" : "size-5"}
+          />
+        </Button>
+      </TooltipTrigger>
+      <TooltipContent>
+        Deep research: search many sources and write a cited report
+      </TooltipContent>
+    </Tooltip>
+  );
+}
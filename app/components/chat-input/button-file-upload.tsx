@@ -1,4 +1,5 @@
 import { FileArrowUp, Paperclip } from "@phosphor-icons/react";
+import { useModelById } from "@/app/hooks/use-custom-models";
 import {
   FileUpload,
   FileUploadContent,
@@ -15,7 +16,6 @@ import {
   TooltipContent,
   TooltipTrigger,
 } from "@/components/ui/tooltip";
-import { MODELS_OPTIONS } from "@/lib/config";
 import { UPLOAD_ACCEPT } from "@/lib/config/upload";
 import { cn } from "@/lib/utils";
 import { PopoverContentAuth } from "./popover-content-auth";
@@ -31,9 +31,9 @@ export function ButtonFileUpload({
   isUserAuthenticated,
   model,
 }: ButtonFileUploadProps) {
-  const isFileUploadAvailable = MODELS_OPTIONS.find(
-    (m) => m.id === model
-  )?.features?.find((f) => f.id === "file-upload")?.enabled;
+  const isFileUploadAvailable = useModelById(model)?.features?.find(
+    (f) => f.id === "file-upload"
+  )?.enabled;
 
   if (!isFileUploadAvailable) {
     return (
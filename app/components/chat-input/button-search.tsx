@@ -10,8 +10,8 @@ import {
   TooltipContent,
   TooltipTrigger,
 } from "@/components/ui/tooltip";
-import { MODELS_OPTIONS } from "@/lib/config";
 import { useBreakpoint } from "../../hooks/use-breakpoint";
+import { useModelById } from "../../hooks/use-custom-models";
 import { PopoverContentAuth } from "./popover-content-auth";
 
 export type ButtonSearchProps = {
@@ -29,9 +29,9 @@ export function ButtonSearch({
 }: ButtonSearchProps) {
   // Use 640px as the mobile breakpoint (Tailwind 'sm')
   const isMobile = useBreakpoint(768);
-  const isToolCallingAvailable = MODELS_OPTIONS.find(
-    (m) => m.id === model
-  )?.features?.find((f) => f.id === "tool-calling")?.enabled;
+  const isToolCallingAvailable = useModelById(model)?.features?.find(
+    (f) => f.id === "tool-calling"
+  )?.enabled;
 
   // Compute classes for the enabled button state without nested ternaries
   let enabledButtonClass = "";
@@ -5,6 +5,7 @@ import { useMutation } from "convex/react";
 import { memo, useCallback, useMemo, useState } from "react";
 import { toast } from "sonner";
 import { ConnectorIcon } from "@/app/components/common/connector-icon";
+import { useModelById } from "@/app/hooks/use-custom-models";
 import { useUser } from "@/app/providers/user-provider";
 import { Button } from "@/components/ui/button";
 import {
@@ -22,7 +23,6 @@ import {
 } from "@/components/ui/tooltip";
 import { api } from "@/convex/_generated/api";
 import type { Id } from "@/convex/_generated/dataModel";
-import { MODELS_OPTIONS } from "@/lib/config";
 import { CONNECTOR_CONFIGS, SUPPORTED_CONNECTORS } from "@/lib/config/tools";
 import { classifyError } from "@/lib/error-utils";
 import type { ConnectorType } from "@/lib/types";
@@ -71,13 +71,9 @@ function BaseButtonToolsDropdown({
   );
   const [togglingType, setTogglingType] = useState<ConnectorType | null>(null);
 
-  const isToolCallingAvailable = useMemo(
-    () =>
-      MODELS_OPTIONS.find((m) => m.id === selectedModel)?.features?.find(
-        (f) => f.id === "tool-calling"
-      )?.enabled === true,
-    [selectedModel]
-  );
+  const isToolCallingAvailable =
+    useModelById(selectedModel)?.features?.find((f) => f.id === "tool-calling")
+      ?.enabled === true;
 
   const rows: ConnectorRow[] = useMemo(() => {
     const byType = new Map<ConnectorType, ConnectorRow>();
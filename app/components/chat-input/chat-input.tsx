@@ -10,12 +10,14 @@ import {
 } from "@/components/prompt-kit/prompt-input";
 import { Button } from "@/components/ui/button";
 import { toast } from "@/components/ui/toast";
+import type { Doc } from "@/convex/_generated/dataModel";
 import {
   getAllowedLabel,
   PASTE_ALLOWED_MIME,
   UPLOAD_MAX_BYTES,
   UPLOAD_MAX_LABEL,
 } from "@/lib/config/upload";
+import { ButtonDeepResearch } from "./button-deep-research";
 import { ButtonFileUpload } from "./button-file-upload";
 import { ButtonToolsDropdown } from "./button-tools-dropdown";
 import { FileList } from "./file-list";
@@ -26,7 +28,10 @@ import { SelectReasoningEffort } from "./select-reasoning-effort";
 type ReasoningEffort = "low" | "medium" | "high";
 
 type ChatInputProps = {
-  onSendAction: (message: string, options: { enableSearch: boolean }) => void;
+  onSendAction: (
+    message: string,
+    options: { enableSearch: boolean; deepResearch: boolean }
+  ) => void;
   isSubmitting?: boolean;
   hasMessages?: boolean;
   files: File[];
@@ -36,9 +41,12 @@ type ChatInputProps = {
   hasSuggestions?: boolean;
   onSelectModelAction: (model: string) => void;
   selectedModel: string;
+  compareModels?: string[];
+  onCompareModelsChangeAction?: (models: string[]) => void;
   isUserAuthenticated: boolean;
   onSelectSystemPromptAction: (personaId: string) => void;
   selectedPersonaId?: string;
+  personas?: Doc<"personas">[];
   stopAction: () => void;
   status?: "submitted" | "streaming" | "ready" | "error";
   isReasoningModel: boolean;
@@ -57,9 +65,12 @@ export function ChatInput({
   hasSuggestions,
   onSelectModelAction,
   selectedModel,
+  compareModels,
+  onCompareModelsChangeAction,
   isUserAuthenticated,
   onSelectSystemPromptAction,
   selectedPersonaId,
+  personas,
   stopAction,
   status,
   isReasoningModel,
@@ -73,8 +84,24 @@ export function ChatInput({
   const toggleSearch = useCallback(() => {
     setSearchEnabled((prev) => !prev);
   }, []);
+  const [deepResearchEnabled, setDeepResearchEnabled] = useState(false);
+  const toggleDeepResearch = useCallback(() => {
+    setDeepResearchEnabled((prev) => !prev);
+  }, []);
   const textareaRef = useRef<HTMLTextAreaElement | null>(null);
 
+  // User personas can turn search on or off by default
+  const handleSelectPersona = useCallback(
+    (personaId: string) => {
+      const persona = personas?.find((p) => p._id === personaId);
+      if (persona?.defaultEnableSearch !== undefined) {
+        setSearchEnabled(persona.defaultEnableSearch);
+      }
+      onSelectSystemPromptAction(personaId);
+    },
+    [personas, onSelectSystemPromptAction]
+  );
+
   // Track isEmpty state to prevent PromptSystem re-renders on every keystroke
   const [isEmpty, setIsEmpty] = useState(true);
 
@@ -99,11 +126,14 @@ export function ChatInput({
 
       if (e.key === "Enter" && !e.shiftKey) {
         e.preventDefault();
-        onSendAction(value, { enableSearch: searchEnabled });
+        onSendAction(value, {
+          enableSearch: searchEnabled,
+          deepResearch: deepResearchEnabled,
+        });
         setValue(""); // Clear input after sending
       }
     },
-    [onSendAction, isSubmitting, searchEnabled, value]
+    [onSendAction, isSubmitting, searchEnabled, deepResearchEnabled, value]
   );
 
   const handleMainClick = () => {
@@ -117,7 +147,10 @@ export function ChatInput({
       return;
     }
 
-    onSendAction(value, { enableSearch: searchEnabled });
+    onSendAction(value, {
+      enableSearch: searchEnabled,
+      deepResearch: deepResearchEnabled,
+    });
     setValue(""); // Clear input after sending
   };
 
@@ -262,9 +295,10 @@ export function ChatInput({
       {hasSuggestions && (
         <PromptSystem
           isEmpty={isEmpty}
-          onSelectSystemPrompt={onSelectSystemPromptAction}
+          onSelectSystemPrompt={handleSelectPersona}
           onSuggestion={handleSuggestionClick}
           onValueChange={setValue}
+          personas={personas}
           selectedPersonaId={selectedPersonaId}
         />
       )}
@@ -309,8 +343,16 @@ export function ChatInput({
                   <X className="absolute size-4 text-blue-700 opacity-0 transition-opacity group-hover:opacity-100 dark:text-blue-400" />
                 </Button>
               )}
+              <ButtonDeepResearch
+                deepResearchEnabled={deepResearchEnabled}
+                isUserAuthenticated={isUserAuthenticated}
+                model={selectedModel}
+                onToggle={toggleDeepResearch}
+              />
               <SelectModel
+                compareModels={compareModels}
                 isUserAuthenticated={isUserAuthenticated}
+                onCompareModelsChange={onCompareModelsChangeAction}
                 onSelectModel={onSelectModelAction}
                 selectedModel={selectedModel}
               />
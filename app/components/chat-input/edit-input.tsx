@@ -12,6 +12,7 @@ import {
 } from "@/components/prompt-kit/prompt-input";
 import { Button } from "@/components/ui/button";
 import { MODEL_DEFAULT, MODELS_MAP } from "@/lib/config";
+import { isCustomModelId } from "@/lib/custom-models";
 import { ButtonFileUpload } from "./button-file-upload";
 import { ButtonSearch } from "./button-search";
 import { FileList } from "./file-list";
@@ -66,7 +67,10 @@ export function EditInput({
   const [editSearchEnabled, setEditSearchEnabled] = useState(isSearchEnabled);
   const [editModel, setEditModel] = useState(() => {
     // Validate if the selected model exists in available models
-    if (selectedModel && MODELS_MAP[selectedModel]) {
+    if (
+      selectedModel &&
+      (MODELS_MAP[selectedModel] || isCustomModelId(selectedModel))
+    ) {
       return selectedModel; // Use the message-specific model if it exists
     }
     // Fall back to default model if the inferred model doesn't exist
@@ -1,10 +1,13 @@
 "use client";
 
+import { GearSix } from "@phosphor-icons/react";
 import { motion } from "motion/react";
-import { memo } from "react";
+import Link from "next/link";
+import { memo, useMemo } from "react";
 import { Button } from "@/components/ui/button";
+import type { Doc } from "@/convex/_generated/dataModel";
 import { TRANSITION_SUGGESTIONS } from "@/lib/motion";
-import { PERSONAS } from "@/lib/prompt_config";
+import { getPersonaIcon, PERSONAS } from "@/lib/prompt_config";
 import { cn } from "@/lib/utils";
 
 type ButtonPersonaProps = {
@@ -49,12 +52,33 @@ const ButtonPersona = memo(function ButtonPersonaComponent({
 type PersonasProps = {
   onSelectSystemPrompt: (personaId: string) => void;
   selectedPersonaId?: string;
+  // Personas created or imported by the user; undefined for guests
+  userPersonas?: Doc<"personas">[];
+};
+
+type PersonaOption = {
+  id: string;
+  label: string;
+  icon: React.ElementType;
 };
 
 export const Personas = memo(function PersonasComponent({
   onSelectSystemPrompt,
   selectedPersonaId,
+  userPersonas,
 }: PersonasProps) {
+  const personas = useMemo<PersonaOption[]>(
+    () => [
+      ...PERSONAS,
+      ...(userPersonas ?? []).map((persona) => ({
+        id: persona._id,
+        label: persona.name,
+        icon: getPersonaIcon(persona.icon),
+      })),
+    ],
+    [userPersonas]
+  );
+
   return (
     <motion.div
       animate="animate"
@@ -71,11 +95,11 @@ export const Personas = memo(function PersonasComponent({
         exit: { opacity: 0, y: -10, filter: "blur(4px)" },
       }}
     >
-      {PERSONAS.map((persona: (typeof PERSONAS)[0], index: number) => (
+      {personas.map((persona, index) => (
         <motion.div
           animate={{ opacity: 1, scale: 1 }}
           initial={{ opacity: 0, scale: 0.8 }}
-          key={persona.label}
+          key={persona.id}
           transition={{
             ...TRANSITION_SUGGESTIONS,
             delay: index * 0.02,
@@ -84,13 +108,29 @@ export const Personas = memo(function PersonasComponent({
           <ButtonPersona
             icon={persona.icon}
             id={persona.id}
-            key={persona.label}
             label={persona.label}
             onSelectSystemPrompt={onSelectSystemPrompt}
             selectedPersonaId={selectedPersonaId}
           />
         </motion.div>
       ))}
+      {userPersonas && (
+        <motion.div
+          animate={{ opacity: 1, scale: 1 }}
+          initial={{ opacity: 0, scale: 0.8 }}
+          transition={{
+            ...TRANSITION_SUGGESTIONS,
+            delay: personas.length * 0.02,
+          }}
+        >
+          <Button asChild className="rounded-full" size="lg" variant="ghost">
+            <Link href="/settings/personas">
+              <GearSix className="size-4" />
+              {userPersonas.length > 0 ? "Manage" : "Create your own"}
+            </Link>
+          </Button>
+        </motion.div>
+      )}
     </motion.div>
   );
 });
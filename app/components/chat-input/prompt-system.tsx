@@ -3,6 +3,7 @@
 import { AnimatePresence, motion } from "motion/react";
 import { memo, useMemo, useState } from "react";
 import { useSidebar } from "@/app/providers/sidebar-provider";
+import type { Doc } from "@/convex/_generated/dataModel";
 import { TRANSITION_LAYOUT } from "@/lib/motion";
 import { cn } from "@/lib/utils";
 import { Personas } from "./personas";
@@ -14,6 +15,7 @@ type PromptSystemProps = {
   onSelectSystemPrompt: (personaId: string) => void;
   isEmpty: boolean;
   selectedPersonaId?: string;
+  personas?: Doc<"personas">[];
 };
 
 export const PromptSystem = memo(function PromptSystemComponent({
@@ -22,6 +24,7 @@ export const PromptSystem = memo(function PromptSystemComponent({
   onSelectSystemPrompt,
   isEmpty,
   selectedPersonaId,
+  personas,
 }: PromptSystemProps) {
   const [isPersonaMode, setIsPersonaMode] = useState(false);
   const { isSidebarOpen } = useSidebar();
@@ -58,6 +61,7 @@ export const PromptSystem = memo(function PromptSystemComponent({
             <Personas
               onSelectSystemPrompt={onSelectSystemPrompt}
               selectedPersonaId={selectedPersonaId}
+              userPersonas={personas}
             />
           ) : (
             <Suggestions
@@ -1,26 +1,132 @@
+import { Columns, Plus, X } from "@phosphor-icons/react";
 import { ModelSelector } from "@/components/common/model-selector";
-// no additional config imports needed
+import { Button } from "@/components/ui/button";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import {
+  MAX_COMPARE_MODELS,
+  MODELS_MAP,
+  RECOMMENDED_MODELS,
+} from "@/lib/config";
 
 export type SelectModelProps = {
   selectedModel: string;
   onSelectModel: (model: string) => void;
   isUserAuthenticated: boolean;
+  compareModels?: string[];
+  onCompareModelsChange?: (models: string[]) => void;
 };
 
+/**
+ * Helper function to suggest a model for a new comparison slot, preferring
+ * recommended text models that are not compared yet
+ */
+function getNextCompareModel(usedModels: string[]): string | undefined {
+  return RECOMMENDED_MODELS.find(
+    (id) =>
+      !usedModels.includes(id) &&
+      MODELS_MAP[id] &&
+      !MODELS_MAP[id].features?.some(
+        (feature) => feature.id === "image-generation" && feature.enabled
+      )
+  );
+}
+
 export function SelectModelComponent({
   selectedModel,
   onSelectModel,
-  isUserAuthenticated: _isUserAuthenticated,
+  isUserAuthenticated,
+  compareModels = [],
+  onCompareModelsChange,
 }: SelectModelProps) {
   // Selection handled solely via ModelSelector; availability and provider visuals are managed inside it.
   // Always render the full model selector for both anonymous and logged-in users.
   // Premium/locked models are already disabled by availability logic inside the selector.
+  const isComparing = compareModels.length > 0;
+  const canCompare = isUserAuthenticated && Boolean(onCompareModelsChange);
+  const canAddModel = compareModels.length + 1 < MAX_COMPARE_MODELS;
+
+  const addCompareModel = () => {
+    const nextModel = getNextCompareModel([selectedModel, ...compareModels]);
+    if (nextModel) {
+      onCompareModelsChange?.([...compareModels, nextModel]);
+    }
+  };
+
+  const updateCompareModel = (index: number, model: string) => {
+    // Each model is compared once
+    if (model === selectedModel || compareModels.includes(model)) {
+      return;
+    }
+    onCompareModelsChange?.(
+      compareModels.map((current, i) => (i === index ? model : current))
+    );
+  };
+
+  const removeCompareModel = (index: number) => {
+    onCompareModelsChange?.(compareModels.filter((_, i) => i !== index));
+  };
+
   return (
-    <ModelSelector
-      className="rounded-full"
-      selectedModelId={selectedModel}
-      setSelectedModelId={onSelectModel}
-    />
+    <>
+      <ModelSelector
+        className="rounded-full"
+        selectedModelId={selectedModel}
+        setSelectedModelId={onSelectModel}
+      />
+      {compareModels.map((model, index) => (
+        <div className="flex items-center" key={model}>
+          <ModelSelector
+            className="rounded-full"
+            selectedModelId={model}
+            setSelectedModelId={(nextModel) =>
+              updateCompareModel(index, nextModel)
+            }
+          />
+          <Button
+            aria-label="Remove model from comparison"
+            className="size-7 rounded-full p-0"
+            onClick={() => removeCompareModel(index)}
+            size="sm"
+            type="button"
+            variant="ghost"
+          >
+            <X className="size-3.5" />
+          </Button>
+        </div>
+      ))}
+      {canCompare && (
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <Button
+              aria-label={
+                isComparing ? "Add a model to compare" : "Compare models"
+              }
+              className="size-9 rounded-full"
+              disabled={isComparing && !canAddModel}
+              onClick={addCompareModel}
+              size="sm"
+              type="button"
+              variant="outline"
+            >
+              {isComparing ? (
+                <Plus className="size-4" />
+              ) : (
+                <Columns className="size-5" />
+              )}
+            </Button>
+          </TooltipTrigger>
+          <TooltipContent>
+            {isComparing
+              ? `Compare up to ${MAX_COMPARE_MODELS} models`
+              : "Compare models side by side"}
+          </TooltipContent>
+        </Tooltip>
+      )}
+    </>
   );
 }
 
@@ -25,7 +25,8 @@ import { toast } from "@/components/ui/toast";
 import { api } from "@/convex/_generated/api";
 import type { Id } from "@/convex/_generated/dataModel";
 import { createChatErrorHandler } from "@/lib/chat-error-utils";
-import { MODEL_DEFAULT } from "@/lib/config";
+import { getCompareModelIds, getThreadMessages } from "@/lib/compare-mode";
+import { MAX_COMPARE_MODELS, MODEL_DEFAULT } from "@/lib/config";
 import {
   createOptimisticAttachments,
   revokeOptimisticAttachments,
@@ -55,12 +56,15 @@ const ChatBodySchema = z.object({
   model: z.string(),
   personaId: z.string().optional(),
   enableSearch: z.boolean().optional(),
+  deepResearch: z.boolean().optional(),
   reasoningEffort: z.enum(["low", "medium", "high"]).optional(),
   userInfo: z
     .object({
       timezone: z.string().optional(),
     })
     .optional(),
+  compareGroupId: z.string().optional(),
+  compareModelIds: z.array(z.string()).optional(),
 });
 
 type ChatBody = z.infer<typeof ChatBodySchema>;
@@ -95,6 +99,8 @@ export default function Chat() {
     handleModelChange: handleModelUpdate,
     handleBranch,
     handleDeleteMessage,
+    handleSelectCompareWinner,
+    handleSelectMessageVersion,
   } = useChatOperations();
 
   const { checkRateLimits, validateModelAccess, validateSearchQuery } =
@@ -121,6 +127,8 @@ export default function Chat() {
   const [tempSelectedModel, setTempSelectedModel] = useState<
     string | undefined
   >();
+  const [compareModels, setCompareModels] = useState<string[]>([]);
+  const [isComparing, setIsComparing] = useState(false);
   const processedUrl = useRef(false);
 
   // Data queries
@@ -140,17 +148,32 @@ export default function Chat() {
     enabled: Boolean(chatId),
   });
 
+  // New chats started from a project in the sidebar land on /?project=<id>
+  const newChatProjectId = chatId ? null : searchParams.get("project");
+
+  const { data: newChatProject } = useTanStackQuery({
+    ...convexQuery(
+      api.projects.getProject,
+      newChatProjectId ? { projectId: newChatProjectId } : "skip"
+    ),
+    enabled: Boolean(newChatProjectId) && isUserAuthenticated(user),
+  });
+
   // Derived state
   const selectedModel = useMemo(() => {
     if (currentChat?.model) {
       return getValidModel(currentChat.model, user?.disabledModels);
     }
     const preferredModel =
-      tempSelectedModel ?? user?.preferredModel ?? MODEL_DEFAULT;
+      tempSelectedModel ??
+      newChatProject?.defaultModel ??
+      user?.preferredModel ??
+      MODEL_DEFAULT;
     return getValidModel(preferredModel, user?.disabledModels);
   }, [
     currentChat?.model,
     tempSelectedModel,
+    newChatProject?.defaultModel,
     user?.preferredModel,
     user?.disabledModels,
     getValidModel,
@@ -159,19 +182,52 @@ export default function Chat() {
   const personaId = currentChat?.personaId ?? tempPersonaId;
   const isAuthenticated = isUserAuthenticated(user);
 
+  const { data: userPersonas } = useTanStackQuery({
+    ...convexQuery(api.personas.listPersonas, {}),
+    enabled: isAuthenticated,
+  });
+
   // Enhanced useChat hook with AI SDK best practices
-  const { messages, status, regenerate, stop, setMessages, sendMessage } =
-    useChat({
-      transport: new DefaultChatTransport({
-        api: API_ROUTE_CHAT,
-        // Global configuration
-        headers: {
-          "Content-Type": "application/json",
+  const {
+    messages,
+    status,
+    regenerate,
+    stop,
+    setMessages,
+    sendMessage,
+    resumeStream,
+  } = useChat({
+    transport: new DefaultChatTransport({
+      api: API_ROUTE_CHAT,
+      // Global configuration
+      headers: {
+        "Content-Type": "application/json",
+      },
+      // Only the winning answer of a comparison is part of the thread
+      prepareSendMessagesRequest: ({
+        id,
+        messages: chatMessages,
+        ...rest
+      }) => ({
+        body: {
+          ...rest.body,
+          id,
+          messages: getThreadMessages(chatMessages as MessageWithExtras[]),
+          trigger: rest.trigger,
+          messageId: rest.messageId,
         },
       }),
-      // AI SDK error handling
-      onError: createChatErrorHandler(),
-    });
+      // Resume requests target the chat passed in the resumeStream body
+      prepareReconnectToStreamRequest: ({ body }) => ({
+        api: `${API_ROUTE_CHAT}/${body?.chatId}/stream`,
+      }),
+    }),
+    // AI SDK error handling
+    onError: createChatErrorHandler(),
+  });
+
+  const messagesRef = useRef(messages);
+  messagesRef.current = messages;
 
   // Message synchronization effect - optimized to prevent infinite re-renders
   useEffect(() => {
@@ -185,6 +241,14 @@ export default function Chat() {
 
     const mappedDb = messagesFromDB.map((msg, index) => {
       const mappedMessage = mapMessage(msg) as MessageWithExtras;
+      mappedMessage.parentMessageId = msg.parentMessageId;
+      mappedMessage.siblingIds = msg.siblingIds;
+      mappedMessage.isStreaming = msg.status === "streaming";
+      if (msg.compareGroupId) {
+        mappedMessage.compareGroupId = msg.compareGroupId;
+        mappedMessage.compareModelIds = msg.compareModelIds;
+        mappedMessage.selectedChildId = msg.selectedChildId;
+      }
 
       if (msg.role === "user") {
         // Next message is always the assistant response
@@ -215,10 +279,21 @@ export default function Chat() {
         return currentMessages;
       }
 
-      // Check if we need to update at all by comparing lengths and IDs
+      // Check if we need to update at all by comparing lengths and IDs.
+      // Parts and compare state are compared too since answers that stream
+      // outside useChat (compare mode) only reach this tab through the DB
       if (
         mappedDb.length === currentMessages.length &&
-        mappedDb.every((dbMsg, idx) => dbMsg.id === currentMessages[idx]?.id)
+        mappedDb.every((dbMsg, idx) => {
+          const current = currentMessages[idx] as MessageWithExtras | undefined;
+          return (
+            dbMsg.id === current?.id &&
+            dbMsg.parts === current.parts &&
+            dbMsg.siblingIds === current.siblingIds &&
+            dbMsg.isStreaming === current.isStreaming &&
+            dbMsg.selectedChildId === current.selectedChildId
+          );
+        })
       ) {
         return currentMessages; // No change needed - prevents unnecessary re-renders
       }
@@ -254,6 +329,44 @@ export default function Chat() {
     });
   }, [messagesFromDB, status, setMessages, isDeleting]);
 
+  // Stream resumption - reattach to an answer that is still being generated
+  // when the chat is opened (e.g. after a reload) or the connection drops
+  const resumeCheckedChatIdRef = useRef<string | null>(null);
+  const resumedMessageIdRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!(chatId && messagesFromDB) || isDeleting) {
+      return;
+    }
+
+    const isFirstLoad = resumeCheckedChatIdRef.current !== chatId;
+    resumeCheckedChatIdRef.current = chatId;
+
+    // Only resume on open (not while this tab is the one streaming) or after
+    // the live stream failed
+    if (!(isFirstLoad && status === "ready") && status !== "error") {
+      return;
+    }
+
+    const lastMessage = messagesFromDB.at(-1);
+    if (
+      lastMessage?.role !== "assistant" ||
+      lastMessage.status !== "streaming" ||
+      resumedMessageIdRef.current === lastMessage._id
+    ) {
+      return;
+    }
+    resumedMessageIdRef.current = lastMessage._id;
+
+    // Drop the partial copy; the resumed stream replays it from the start
+    setMessages((currentMessages) =>
+      currentMessages.filter((m) => m.id !== lastMessage._id)
+    );
+    resumeStream({ body: { chatId } }).catch(() => {
+      // Nothing to resume; the synced message is shown as is
+    });
+  }, [chatId, messagesFromDB, status, isDeleting, setMessages, resumeStream]);
+
   // Reset state for new chats
   useEffect(() => {
     if ((status === "ready" || status === "error") && !chatId) {
@@ -263,12 +376,72 @@ export default function Chat() {
     }
   }, [status, chatId, setMessages]);
 
+  // Compare mode - fan the prompt out to every compared model in parallel.
+  // The answers stream into the DB and reach the conversation through the
+  // message synchronization effect, one column per model.
+  const sendCompareMessage = useCallback(
+    async (body: ChatBody, parts: UIMessage["parts"], modelIds: string[]) => {
+      const compareGroupId = crypto.randomUUID();
+      const userMessage: UIMessage = {
+        id: createPlaceholderId(),
+        role: "user",
+        parts,
+      };
+      const requestMessages = [
+        ...getThreadMessages(messagesRef.current as MessageWithExtras[]),
+        userMessage,
+      ];
+      const transport = new DefaultChatTransport<UIMessage>({
+        api: API_ROUTE_CHAT,
+        headers: {
+          "Content-Type": "application/json",
+        },
+      });
+      const handleError = createChatErrorHandler();
+
+      setMessages((cur) => [...cur, userMessage]);
+      setIsComparing(true);
+
+      try {
+        await Promise.all(
+          modelIds.map(async (modelId) => {
+            try {
+              const stream = await transport.sendMessages({
+                chatId: body.chatId,
+                messages: requestMessages,
+                abortSignal: undefined,
+                trigger: "submit-message",
+                messageId: undefined,
+                body: {
+                  ...body,
+                  model: modelId,
+                  reasoningEffort: supportsReasoningEffort(modelId)
+                    ? reasoningEffort
+                    : undefined,
+                  compareGroupId,
+                  compareModelIds: modelIds,
+                },
+              });
+              // Drain the stream; the answer itself is read from the DB
+              await stream.pipeTo(new WritableStream());
+            } catch (error) {
+              handleError(error as Error);
+            }
+          })
+        );
+      } finally {
+        setIsComparing(false);
+      }
+    },
+    [reasoningEffort, setMessages]
+  );
+
   // Core message sending function
   const sendMessageHelper = useCallback(
     async (
       inputMessage: string,
       currentChatId?: string,
-      options?: { enableSearch?: boolean }
+      options?: { enableSearch?: boolean; deepResearch?: boolean }
     ) => {
       const chatIdToUse = currentChatId || chatId;
       if (!chatIdToUse) {
@@ -285,6 +458,7 @@ export default function Chat() {
         ...(typeof options?.enableSearch !== "undefined"
           ? { enableSearch: options.enableSearch }
           : {}),
+        ...(options?.deepResearch ? { deepResearch: true } : {}),
         ...(isReasoningModel ? { reasoningEffort } : {}),
         ...(timezone ? { userInfo: { timezone } } : {}),
       };
@@ -328,6 +502,16 @@ export default function Chat() {
           ...(attachments || []),
         ];
 
+        const compareModelIds = getCompareModelIds(
+          selectedModel,
+          compareModels,
+          MAX_COMPARE_MODELS
+        );
+        if (compareModelIds.length > 1) {
+          await sendCompareMessage(body, messageParts, compareModelIds);
+          return;
+        }
+
         await sendMessage({ parts: messageParts, role: "user" }, { body });
       } catch {
         toast({ title: "Failed to send message", status: "error" });
@@ -343,6 +527,8 @@ export default function Chat() {
       processFiles,
       sendMessage,
       setMessages,
+      compareModels,
+      sendCompareMessage,
     ]
   );
 
@@ -405,7 +591,7 @@ export default function Chat() {
   const submit = useCallback(
     async (
       inputMessage: string,
-      opts?: { body?: { enableSearch?: boolean } }
+      opts?: { body?: { enableSearch?: boolean; deepResearch?: boolean } }
     ) => {
       if (!validateInput(inputMessage, files.length, user?._id)) {
         return;
@@ -423,7 +609,8 @@ export default function Chat() {
         currentChatId = await handleCreateChat(
           inputMessage,
           selectedModel,
-          personaId
+          personaId,
+          newChatProject?._id
         );
         if (!currentChatId) {
           return;
@@ -451,6 +638,7 @@ export default function Chat() {
       handleCreateChat,
       selectedModel,
       personaId,
+      newChatProject?._id,
       clearFiles,
       sendMessageHelper,
     ]
@@ -472,10 +660,22 @@ export default function Chat() {
     [chatId, user, handleModelUpdate]
   );
 
-  // Message handlers
-  const messagesRef = useRef(messages);
-  messagesRef.current = messages;
+  // Picking a user persona also applies its default model and reasoning effort
+  const handleSelectPersona = useCallback(
+    async (id: string) => {
+      setTempPersonaId(id);
+      const persona = userPersonas?.find((p) => p._id === id);
+      if (persona?.defaultReasoningEffort) {
+        setReasoningEffort(persona.defaultReasoningEffort);
+      }
+      if (persona?.defaultModel) {
+        await handleModelChange(persona.defaultModel);
+      }
+    },
+    [userPersonas, handleModelChange]
+  );
 
+  // Message handlers
   const handleDelete = useCallback(
     async (id: string) => {
       const currentMessages = messagesRef.current;
@@ -519,25 +719,11 @@ export default function Chat() {
         return;
       }
 
+      // The regenerated answer becomes a new version; the previous one and
+      // everything after it stay reachable through the version switcher
       const trimmedMessages = originalMessages.slice(0, targetIdx + 1);
       setMessages(trimmedMessages);
 
-      const firstFollowing = originalMessages[targetIdx + 1];
-      if (firstFollowing) {
-        setIsDeleting(true);
-        try {
-          await handleDeleteMessage(firstFollowing.id);
-        } catch {
-          setMessages(originalMessages);
-          toast({
-            title: "Failed to delete messages for reload",
-            status: "error",
-          });
-        } finally {
-          setIsDeleting(false);
-        }
-      }
-
       const isReasoningModel = supportsReasoningEffort(selectedModel);
       const timezone = getUserTimezone();
 
@@ -554,7 +740,7 @@ export default function Chat() {
           ...(timezone ? { userInfo: { timezone } } : {}),
         },
       };
-      regenerate(options);
+      await regenerate(options);
     },
     [
       user,
@@ -563,8 +749,6 @@ export default function Chat() {
       personaId,
       reasoningEffort,
       setMessages,
-      handleDeleteMessage,
-      setIsDeleting,
       regenerate,
     ]
   );
@@ -830,6 +1014,10 @@ export default function Chat() {
         ) : (
           <Conversation
             autoScroll={!targetMessageId}
+            compactedThroughMessageId={
+              currentChat?.contextSummary?.lastMessageId
+            }
+            isComparing={isComparing}
             isReasoningModel={supportsReasoningEffort(selectedModel)}
             isUserAuthenticated={isAuthenticated}
             key="conversation"
@@ -840,6 +1028,8 @@ export default function Chat() {
             onDelete={handleDelete}
             onEdit={handleEdit}
             onReload={handleReload}
+            onSelectCompareWinner={handleSelectCompareWinner}
+            onSelectVersion={handleSelectMessageVersion}
             reasoningEffort={reasoningEffort}
             selectedModel={selectedModel}
             status={status}
@@ -861,23 +1051,29 @@ export default function Chat() {
         }}
       >
         <ChatInput
+          compareModels={compareModels}
           files={files}
           hasSuggestions={!chatId && messages.length === 0}
           isReasoningModel={supportsReasoningEffort(selectedModel)}
-          isSubmitting={status === "streaming"}
+          isSubmitting={status === "streaming" || isComparing}
           isUserAuthenticated={isAuthenticated}
+          onCompareModelsChangeAction={setCompareModels}
           onFileRemoveAction={removeFile}
           onFileUploadAction={addFiles}
           onSelectModelAction={handleModelChange}
           onSelectReasoningEffortAction={setReasoningEffort}
-          onSelectSystemPromptAction={(id: string) => setTempPersonaId(id)}
+          onSelectSystemPromptAction={handleSelectPersona}
           onSendAction={(
             message: string,
-            { enableSearch }: { enableSearch: boolean }
-          ) => submit(message, { body: { enableSearch } })}
+            {
+              enableSearch,
+              deepResearch,
+            }: { enableSearch: boolean; deepResearch: boolean }
+          ) => submit(message, { body: { enableSearch, deepResearch } })}
           onSuggestionAction={(suggestion: string) =>
             sendMessage({ text: suggestion })
           }
+          personas={isAuthenticated ? userPersonas : undefined}
           reasoningEffort={reasoningEffort}
           selectedModel={selectedModel}
           selectedPersonaId={personaId}
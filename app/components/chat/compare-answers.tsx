@@ -0,0 +1,129 @@
+import { Trophy } from "@phosphor-icons/react";
+import { Loader } from "@/components/prompt-kit/loader";
+import { Button } from "@/components/ui/button";
+import { MODELS_MAP } from "@/lib/config";
+import { cn } from "@/lib/utils";
+import type { MessageWithExtras } from "./conversation";
+import { Message } from "./message";
+
+type CompareAnswersProps = {
+  userMessage: MessageWithExtras;
+  answers: MessageWithExtras[];
+  isPending: boolean;
+  hasScrollAnchor?: boolean;
+  onSelectWinner: (messageId: string) => void;
+  selectedModel?: string;
+  isUserAuthenticated?: boolean;
+  reasoningEffort?: "low" | "medium" | "high";
+};
+
+const noop = () => {
+  // Compare columns are read-only
+};
+
+/**
+ * Helper function to get the model an answer was requested from, which
+ * differs from the answering model when a fallback kicked in
+ */
+const getRequestedModelId = (answer: MessageWithExtras) =>
+  answer.metadata?.fallbackFromModelId ?? answer.metadata?.modelId;
+
+/**
+ * Renders the answers to a compared prompt side by side, one column per
+ * model, and lets the user pick the winner the thread continues from
+ */
+export function CompareAnswers({
+  userMessage,
+  answers,
+  isPending,
+  hasScrollAnchor,
+  onSelectWinner,
+  selectedModel,
+  isUserAuthenticated = false,
+  reasoningEffort = "medium",
+}: CompareAnswersProps) {
+  const answeredModelIds = new Set(answers.map(getRequestedModelId));
+  const pendingModelIds = isPending
+    ? (userMessage.compareModelIds ?? []).filter(
+        (modelId) => !answeredModelIds.has(modelId)
+      )
+    : [];
+  const columnCount = answers.length + pendingModelIds.length;
+
+  return (
+    <div
+      className={cn(
+        "grid w-full max-w-6xl gap-3 px-2 pb-2",
+        columnCount > 1 && "md:grid-cols-2",
+        columnCount > 2 && "lg:grid-cols-3",
+        hasScrollAnchor && "min-h-scroll-anchor"
+      )}
+    >
+      {answers.map((answer) => {
+        const isWinner = userMessage.selectedChildId === answer.id;
+        const isStreaming = answer.isStreaming === true;
+
+        return (
+          <div
+            className={cn(
+              "flex min-w-0 flex-col rounded-xl border pt-3",
+              isWinner && "border-primary"
+            )}
+            key={answer.id}
+          >
+            <div className="flex items-center justify-between gap-2 px-6 pb-2">
+              <span className="truncate font-medium text-sm">
+                {MODELS_MAP[getRequestedModelId(answer) ?? ""]?.name ??
+                  answer.metadata?.modelName}
+              </span>
+              {isWinner ? (
+                <span className="flex items-center gap-1 text-primary text-xs">
+                  <Trophy className="size-3.5" />
+                  Winner
+                </span>
+              ) : (
+                <Button
+                  className="h-7 rounded-full px-3 text-xs"
+                  disabled={isStreaming}
+                  onClick={() => onSelectWinner(answer.id)}
+                  size="sm"
+                  type="button"
+                  variant="outline"
+                >
+                  Pick winner
+                </Button>
+              )}
+            </div>
+            <Message
+              id={answer.id}
+              isUserAuthenticated={isUserAuthenticated}
+              metadata={answer.metadata}
+              model={answer.model}
+              onBranch={noop}
+              onDelete={noop}
+              onEdit={noop}
+              onReload={noop}
+              parts={answer.parts}
+              readOnly
+              reasoningEffort={reasoningEffort}
+              selectedModel={selectedModel}
+              status={isStreaming ? "streaming" : "ready"}
+              variant="assistant"
+            />
+          </div>
+        );
+      })}
+      {pendingModelIds.map((modelId) => (
+        <div
+          className="flex min-w-0 flex-col gap-3 rounded-xl border px-6 py-3"
+          key={`pending-${modelId}`}
+        >
+          <span className="truncate font-medium text-sm">
+            {MODELS_MAP[modelId]?.name ?? modelId}
+          </span>
+          <Loader size="md" variant="dots" />
+        </div>
+      ))}
+    </div>
+  );
+}
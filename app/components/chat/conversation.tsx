@@ -1,4 +1,5 @@
 import type { UIMessage } from "@ai-sdk/react";
+import { ArchiveIcon } from "@phosphor-icons/react";
 import type { Infer } from "convex/values";
 import React, { useRef } from "react";
 import { ScrollButton } from "@/components/motion-primitives/scroll-button";
@@ -6,12 +7,20 @@ import { ChatContainer } from "@/components/prompt-kit/chat-container";
 import { ImageSkeleton } from "@/components/prompt-kit/image-skeleton";
 import { Loader } from "@/components/prompt-kit/loader";
 import type { Message as MessageSchema } from "@/convex/schema/message";
+import { groupCompareAnswers } from "@/lib/compare-mode";
 import { MODELS_MAP } from "@/lib/config";
+import { CompareAnswers } from "./compare-answers";
 import { Message } from "./message";
 
 export type MessageWithExtras = UIMessage & {
   model?: string;
   metadata?: Infer<typeof MessageSchema>["metadata"];
+  parentMessageId?: string;
+  siblingIds?: string[];
+  isStreaming?: boolean;
+  compareGroupId?: string;
+  compareModelIds?: string[];
+  selectedChildId?: string;
 };
 
 type ConversationProps = {
@@ -31,13 +40,30 @@ type ConversationProps = {
   ) => void;
   onReload: (id: string) => void;
   onBranch: (messageId: string) => void;
+  onSelectVersion?: (messageId: string) => void;
+  onSelectCompareWinner?: (messageId: string) => void;
+  isComparing?: boolean;
   autoScroll?: boolean;
   selectedModel?: string;
   isUserAuthenticated?: boolean;
   isReasoningModel?: boolean;
   reasoningEffort?: "low" | "medium" | "high";
+  // Last message folded into the chat's rolling context summary
+  compactedThroughMessageId?: string;
 };
 
+// Helper component marking where older turns were summarized
+const ContextCompactedNotice = () => (
+  <div className="flex w-full max-w-3xl items-center gap-3 px-6 py-2 text-muted-foreground text-xs">
+    <div className="h-px flex-1 bg-border" />
+    <span className="flex items-center gap-1.5">
+      <ArchiveIcon className="size-3.5" />
+      Earlier messages were summarized to fit the model's context window
+    </span>
+    <div className="h-px flex-1 bg-border" />
+  </div>
+);
+
 const Conversation = React.memo(
   ({
     messages,
@@ -46,11 +72,15 @@ const Conversation = React.memo(
     onEdit,
     onReload,
     onBranch,
+    onSelectVersion,
+    onSelectCompareWinner,
+    isComparing = false,
     autoScroll = true,
     selectedModel,
     isUserAuthenticated = false,
     isReasoningModel = false,
     reasoningEffort = "medium",
+    compactedThroughMessageId,
   }: ConversationProps) => {
     const initialMessageCount = useRef(messages.length);
     const containerRef = useRef<HTMLDivElement>(null);
@@ -78,7 +108,57 @@ const Conversation = React.memo(
             scrollbarGutter: "stable both-edges",
           }}
         >
-          {messages?.map((message, index) => {
+          {groupCompareAnswers(messages).map((item, itemIndex, items) => {
+            if (item.type === "compare") {
+              const isLastItem = itemIndex === items.length - 1;
+              const isCompactedBoundary = [
+                item.userMessage,
+                ...item.answers,
+              ].some(
+                (groupMessage) => groupMessage.id === compactedThroughMessageId
+              );
+              return (
+                <React.Fragment key={item.userMessage.id}>
+                  <Message
+                    id={item.userMessage.id}
+                    isReasoningModel={isReasoningModel}
+                    isUserAuthenticated={isUserAuthenticated}
+                    metadata={item.userMessage.metadata}
+                    model={item.userMessage.model}
+                    onBranch={() => onBranch(item.userMessage.id)}
+                    onDelete={onDelete}
+                    onEdit={onEdit}
+                    onReload={() => onReload(item.userMessage.id)}
+                    onSelectVersion={onSelectVersion}
+                    parts={item.userMessage.parts}
+                    readOnly
+                    reasoningEffort={reasoningEffort}
+                    selectedModel={selectedModel}
+                    siblingIds={item.userMessage.siblingIds}
+                    status="ready"
+                    variant="user"
+                  />
+                  <CompareAnswers
+                    answers={item.answers}
+                    hasScrollAnchor={
+                      isLastItem &&
+                      messages.length > initialMessageCount.current
+                    }
+                    isPending={isLastItem && isComparing}
+                    isUserAuthenticated={isUserAuthenticated}
+                    onSelectWinner={(messageId) =>
+                      onSelectCompareWinner?.(messageId)
+                    }
+                    reasoningEffort={reasoningEffort}
+                    selectedModel={selectedModel}
+                    userMessage={item.userMessage}
+                  />
+                  {isCompactedBoundary && <ContextCompactedNotice />}
+                </React.Fragment>
+              );
+            }
+
+            const { message, index } = item;
             const isLast =
               index === messages.length - 1 && status !== "submitted";
             const hasScrollAnchor =
@@ -86,25 +166,31 @@ const Conversation = React.memo(
             const messageStatus = isLast ? status : "ready";
 
             return (
-              <Message
-                hasScrollAnchor={hasScrollAnchor}
-                id={message.id}
-                isLast={isLast}
-                isReasoningModel={isReasoningModel}
-                isUserAuthenticated={isUserAuthenticated}
-                key={message.id}
-                metadata={message.metadata}
-                model={message.model}
-                onBranch={() => onBranch(message.id)}
-                onDelete={onDelete}
-                onEdit={onEdit}
-                onReload={() => onReload(message.id)}
-                parts={message.parts}
-                reasoningEffort={reasoningEffort}
-                selectedModel={selectedModel}
-                status={messageStatus}
-                variant={message.role}
-              />
+              <React.Fragment key={message.id}>
+                <Message
+                  hasScrollAnchor={hasScrollAnchor}
+                  id={message.id}
+                  isLast={isLast}
+                  isReasoningModel={isReasoningModel}
+                  isUserAuthenticated={isUserAuthenticated}
+                  metadata={message.metadata}
+                  model={message.model}
+                  onBranch={() => onBranch(message.id)}
+                  onDelete={onDelete}
+                  onEdit={onEdit}
+                  onReload={() => onReload(message.id)}
+                  onSelectVersion={onSelectVersion}
+                  parts={message.parts}
+                  reasoningEffort={reasoningEffort}
+                  selectedModel={selectedModel}
+                  siblingIds={message.siblingIds}
+                  status={messageStatus}
+                  variant={message.role}
+                />
+                {message.id === compactedThroughMessageId && (
+                  <ContextCompactedNotice />
+                )}
+              </React.Fragment>
             );
           })}
           {((status === "submitted" &&
@@ -23,6 +23,15 @@ import {
   buildConnectorDisplayLabel,
   ConnectorToolCall,
 } from "@/app/components/tool/connector_tool_call";
+import {
+  DeepResearchProgress,
+  type ResearchStep,
+} from "@/app/components/tool/deep_research";
+import {
+  FetchUrlCard,
+  type FetchUrlOutput,
+} from "@/app/components/tool/fetch_url";
+import { RunCode, type RunCodeOutput } from "@/app/components/tool/run_code";
 import { UnifiedSearch } from "@/app/components/tool/web_search";
 import {
   ChainOfThought,
@@ -56,8 +65,11 @@ import {
   getConnectorTypeFromToolName,
   isConnectorTool,
 } from "@/lib/config/tools";
+import type { DeepResearchOutput, ResearchProgress } from "@/lib/deep-research";
 import type { ConnectorType } from "@/lib/types";
+import { formatCostUsd } from "@/lib/usage-cost";
 import { cn } from "@/lib/utils";
+import { MessageVersionSwitcher } from "./message-version-switcher";
 import { SourcesList } from "./sources-list";
 
 // Error part type for rendering
@@ -192,6 +204,66 @@ const isAgentBoundaryPart = (
   );
 };
 
+type ResearchProgressDataPart = {
+  type: "data-research-progress";
+  id: string;
+  data: ResearchProgress;
+};
+
+const isResearchProgressPart = (
+  part: MessageType["parts"][number]
+): part is ResearchProgressDataPart => {
+  return (
+    typeof part === "object" &&
+    part !== null &&
+    part.type === "data-research-progress" &&
+    "data" in part &&
+    typeof part.data === "object" &&
+    part.data !== null &&
+    "researchId" in part.data
+  );
+};
+
+type ResearchRun = {
+  steps: ResearchStep[];
+  isFinished: boolean;
+  sourceCount?: number;
+};
+
+// Helper function to group deep research progress steps by research run,
+// which is the id of the deep_research tool call
+const groupResearchRuns = (
+  parts: MessageType["parts"]
+): Map<string, ResearchRun> => {
+  const runs = new Map<string, ResearchRun>();
+  for (const part of parts) {
+    if (isResearchProgressPart(part)) {
+      const run = runs.get(part.data.researchId) ?? {
+        steps: [],
+        isFinished: false,
+      };
+      run.steps.push({ ...part.data, id: part.id });
+      runs.set(part.data.researchId, run);
+    }
+  }
+  for (const part of parts) {
+    if (
+      part.type === "tool-deep_research" &&
+      "toolCallId" in part &&
+      "state" in part
+    ) {
+      const run = runs.get(part.toolCallId);
+      if (run && part.state === "output-available") {
+        run.isFinished = true;
+        run.sourceCount = (part.output as DeepResearchOutput).sources.length;
+      } else if (run && part.state === "output-error") {
+        run.isFinished = true;
+      }
+    }
+  }
+  return runs;
+};
+
 // Helper function to find create_agent tool boundaries using custom markers
 const findCreateAgentBoundaries = (
   parts: MessageType["parts"]
@@ -333,6 +405,59 @@ const extractSourcesFromParts = (
       }));
     }
 
+    // Handle every source a deep research run read, in citation order
+    if (
+      part.type === "tool-deep_research" &&
+      "state" in part &&
+      part.state === "output-available" &&
+      "output" in part &&
+      part.output &&
+      typeof part.output === "object" &&
+      "sources" in part.output &&
+      Array.isArray((part.output as { sources: unknown }).sources)
+    ) {
+      const toolPart = part as ToolUIPart & { output: DeepResearchOutput };
+
+      return toolPart.output.sources.map((source) => ({
+        sourceId: source.url,
+        type: "source-url",
+        url: source.url,
+        title: `[${source.index}] ${source.title}`,
+      }));
+    }
+
+    // Handle passages from the user's uploaded documents, one source per file
+    if (
+      part.type === "tool-search_documents" &&
+      "state" in part &&
+      part.state === "output-available" &&
+      "output" in part &&
+      part.output &&
+      typeof part.output === "object" &&
+      "results" in part.output &&
+      Array.isArray((part.output as { results: unknown }).results)
+    ) {
+      const toolPart = part as ToolUIPart & {
+        output: { results: Array<{ url?: string; fileName: string }> };
+      };
+      const seenUrls = new Set<string>();
+
+      return toolPart.output.results.flatMap((result): SourceUrlUIPart[] => {
+        if (!result.url || seenUrls.has(result.url)) {
+          return [];
+        }
+        seenUrls.add(result.url);
+        return [
+          {
+            sourceId: result.url,
+            type: "source-url",
+            url: result.url,
+            title: result.fileName,
+          },
+        ];
+      });
+    }
+
     // Return empty for other part types
     return [];
   });
@@ -538,6 +663,8 @@ type MessageAssistantProps = {
   id: string;
   metadata?: Infer<typeof MessageSchema>["metadata"];
   readOnly?: boolean;
+  siblingIds?: string[];
+  onSelectVersion?: (messageId: string) => void;
 };
 
 const Markdown = dynamic(
@@ -598,6 +725,18 @@ const renderReasoningPart = (
 
 type ExtendedToolUIPart = ToolUIPart & { toolName?: string };
 
+const MEMORY_TOOL_LABELS = {
+  remember: { pending: "Saving to memory", done: "Saved to memory" },
+  forget: { pending: "Updating memory", done: "Removed from memory" },
+  recall: { pending: "Checking memory", done: "Checked memory" },
+} as const;
+
+type MemoryToolOutput = {
+  success: boolean;
+  content?: string;
+  error?: string;
+};
+
 // Add memoized ConnectorToolCall wrapper
 const ConnectorToolCallMemo = React.memo(ConnectorToolCall);
 
@@ -720,9 +859,13 @@ const renderToolPart = (
         sources = stableSources;
       }
 
+      const cached =
+        "output" in part && (part.output as { cached?: boolean })?.cached;
+
       if (searchQuery) {
         return (
           <UnifiedSearch
+            cached={cached === true}
             isLoading={false}
             query={searchQuery}
             sources={sources}
@@ -732,6 +875,88 @@ const renderToolPart = (
     }
   }
 
+  // Fetched links are shown as a compact link card
+  if (toolType === "fetch_url") {
+    const input = "input" in part ? (part.input as { url?: string }) : null;
+    const isLoading = "state" in part && part.state !== "output-available";
+    if (!input?.url) {
+      return null;
+    }
+    return (
+      <FetchUrlCard
+        isLoading={isLoading}
+        key={`tool-${index}`}
+        output={
+          isLoading ? undefined : (part.output as FetchUrlOutput | undefined)
+        }
+        url={input.url}
+      />
+    );
+  }
+
+  // Code runs show their code, output and generated charts
+  if (toolType === "run_code") {
+    const input =
+      "input" in part
+        ? (part.input as { language?: string; code?: string } | undefined)
+        : undefined;
+    const isLoading = "state" in part && part.state !== "output-available";
+    return (
+      <RunCode
+        code={input?.code}
+        isLoading={isLoading}
+        key={`tool-${index}`}
+        language={input?.language}
+        output={
+          isLoading ? undefined : (part.output as RunCodeOutput | undefined)
+        }
+      />
+    );
+  }
+
+  // Deep research progress is rendered from its research steps
+  if (toolType === "deep_research") {
+    return null;
+  }
+
+  // Document passages are cited in the sources list below the answer
+  if (toolType === "search_documents") {
+    if ("state" in part && part.state !== "output-available") {
+      return (
+        <div
+          className="my-2 flex items-center gap-2 text-muted-foreground text-sm"
+          key={`tool-${index}`}
+        >
+          <Loader text="Searching your documents" />
+        </div>
+      );
+    }
+    return null;
+  }
+
+  // Memory updates are shown as a single muted line
+  if (toolType in MEMORY_TOOL_LABELS) {
+    const { pending, done } =
+      MEMORY_TOOL_LABELS[toolType as keyof typeof MEMORY_TOOL_LABELS];
+    if ("state" in part && part.state !== "output-available") {
+      return (
+        <div
+          className="my-2 flex items-center gap-2 text-muted-foreground text-sm"
+          key={`tool-${index}`}
+        >
+          <Loader text={pending} />
+        </div>
+      );
+    }
+    const output = "output" in part ? (part.output as MemoryToolOutput) : null;
+    return (
+      <div className="my-2 text-muted-foreground text-sm" key={`tool-${index}`}>
+        {output?.success === false ? output.error : done}
+        {output?.success && output.content ? `: ${output.content}` : null}
+      </div>
+    );
+  }
+
   // Handle connector tool calls (Composio tools)
   const isConnectorToolCall = isConnectorTool(toolType);
 
@@ -927,14 +1152,23 @@ const renderPartInChainOfThought = (
       if (part.type.startsWith("tool-")) {
         const toolPart = part as ToolUIPart;
         const toolType = toolPart.type.replace("tool-", "");
-        const toolLabel = isConnectorTool(toolType)
-          ? buildConnectorDisplayLabel(
-              getConnectorTypeFromToolName(toolType) as ConnectorType,
-              getConnectorConfig(
-                getConnectorTypeFromToolName(toolType) as ConnectorType
-              ).displayName
-            )
-          : toolType;
+        let toolLabel = toolType;
+        if (isConnectorTool(toolType)) {
+          toolLabel = buildConnectorDisplayLabel(
+            getConnectorTypeFromToolName(toolType) as ConnectorType,
+            getConnectorConfig(
+              getConnectorTypeFromToolName(toolType) as ConnectorType
+            ).displayName
+          );
+        } else if (toolType === "search_documents") {
+          toolLabel = "Document search";
+        } else if (toolType === "fetch_url") {
+          toolLabel = "Read page";
+        } else if (toolType === "run_code") {
+          toolLabel = "Run code";
+        } else if (toolType in MEMORY_TOOL_LABELS) {
+          toolLabel = "Memory";
+        }
 
         return (
           <ChainOfThoughtStep key={partKey} label={toolLabel} status="complete">
@@ -1073,6 +1307,8 @@ function MessageAssistantInner({
   id,
   metadata,
   readOnly = false,
+  siblingIds,
+  onSelectVersion,
 }: MessageAssistantProps) {
   // Prefer `parts` prop, but fall back to `attachments` if `parts` is undefined.
   const combinedParts = parts || [];
@@ -1085,6 +1321,11 @@ function MessageAssistantInner({
     [combinedParts]
   );
 
+  const researchRuns = useMemo(
+    () => groupResearchRuns(combinedParts),
+    [combinedParts]
+  );
+
   const agentSegments = useMemo(
     () =>
       segments.filter(
@@ -1311,6 +1552,22 @@ function MessageAssistantInner({
               const fallbackKey = `${segment.key}-${innerIndex}`;
               const stableKey = getStablePartKey(part, fallbackKey);
 
+              // A research run renders all its steps at its first step
+              if (isResearchProgressPart(part)) {
+                const run = researchRuns.get(part.data.researchId);
+                if (!run || run.steps[0]?.id !== part.id) {
+                  return null;
+                }
+                return (
+                  <DeepResearchProgress
+                    isRunning={!run.isFinished && status === "streaming"}
+                    key={stableKey}
+                    sourceCount={run.sourceCount}
+                    steps={run.steps}
+                  />
+                );
+              }
+
               return (
                 <React.Fragment key={stableKey}>
                   {renderPartDirectly(
@@ -1416,6 +1673,12 @@ function MessageAssistantInner({
               : "opacity-100 md:opacity-0 md:group-hover:opacity-100"
           )}
         >
+          <MessageVersionSwitcher
+            disabled={status === "streaming"}
+            id={id}
+            onSelectVersion={onSelectVersion}
+            siblingIds={siblingIds}
+          />
           <MessageAction
             delayDuration={0}
             side="bottom"
@@ -1468,6 +1731,24 @@ function MessageAssistantInner({
           {displayModel && (
             <span className="ml-2 inline-block text-muted-foreground text-xs">
               {formatModelDisplayText(displayModel, reasoningEffort)}
+              {metadata?.fallbackFromModelId && (
+                <span
+                  title={`Answered by a fallback for ${metadata.fallbackFromModelId}`}
+                >
+                  {" · fallback"}
+                </span>
+              )}
+              {metadata?.costUsd !== undefined && (
+                <span
+                  title={
+                    metadata.wasUserKeyUsed
+                      ? "Estimated cost, billed to your API key"
+                      : "Estimated cost"
+                  }
+                >
+                  {` · ${formatCostUsd(metadata.costUsd)}`}
+                </span>
+              )}
             </span>
           )}
         </MessageActions>
@@ -1488,8 +1769,9 @@ const areEqual = (prev: MessageAssistantProps, next: MessageAssistantProps) => {
     prev.copied === next.copied &&
     prev.metadata === next.metadata &&
     prev.parts === next.parts && // keep ref equality
+    prev.siblingIds === next.siblingIds &&
     prev.copyToClipboard === next.copyToClipboard
-    // Intentionally ignore: onReload, onBranch
+    // Intentionally ignore: onReload, onBranch, onSelectVersion
   );
 };
 
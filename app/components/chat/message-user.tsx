@@ -28,6 +28,7 @@ import {
   MessageContent,
 } from "@/components/prompt-kit/message";
 import { cn } from "@/lib/utils";
+import { MessageVersionSwitcher } from "./message-version-switcher";
 
 const getTextFromDataUrl = (dataUrl: string) => {
   const base64 = dataUrl.split(",")[1];
@@ -193,6 +194,8 @@ export type MessageUserProps = {
   isReasoningModel?: boolean;
   reasoningEffort?: "low" | "medium" | "high";
   isSearchEnabled?: boolean;
+  siblingIds?: string[];
+  onSelectVersion?: (messageId: string) => void;
 };
 
 function MessageUserInner({
@@ -211,6 +214,8 @@ function MessageUserInner({
   isReasoningModel = false,
   reasoningEffort = "medium",
   isSearchEnabled = false,
+  siblingIds,
+  onSelectVersion,
 }: MessageUserProps): React.ReactElement {
   // Extract text content from parts
   const textContent =
@@ -296,6 +301,12 @@ function MessageUserInner({
             : "opacity-100 md:opacity-0 md:group-hover:opacity-100"
         )}
       >
+        <MessageVersionSwitcher
+          disabled={status === "streaming"}
+          id={id}
+          onSelectVersion={onSelectVersion}
+          siblingIds={siblingIds}
+        />
         <MessageAction
           delayDuration={0}
           side="bottom"
@@ -0,0 +1,53 @@
+import { CaretLeftIcon, CaretRightIcon } from "@phosphor-icons/react";
+
+type MessageVersionSwitcherProps = {
+  id: string;
+  siblingIds?: string[];
+  onSelectVersion?: (messageId: string) => void;
+  disabled?: boolean;
+};
+
+/**
+ * "< 2/3 >" control for moving between the versions of a message that was
+ * regenerated or edited
+ */
+export function MessageVersionSwitcher({
+  id,
+  siblingIds,
+  onSelectVersion,
+  disabled = false,
+}: MessageVersionSwitcherProps) {
+  const index = siblingIds?.indexOf(id) ?? -1;
+  if (!(siblingIds && onSelectVersion) || index === -1) {
+    return null;
+  }
+
+  const previousId = siblingIds[index - 1];
+  const nextId = siblingIds[index + 1];
+
+  return (
+    <div className="flex items-center text-muted-foreground text-xs">
+      <button
+        aria-label="Previous version"
+        className="flex h-8 w-6 items-center justify-center rounded-full bg-transparent transition disabled:cursor-not-allowed disabled:opacity-50"
+        disabled={disabled || !previousId}
+        onClick={() => onSelectVersion(previousId)}
+        type="button"
+      >
+        <CaretLeftIcon className="size-3.5" />
+      </button>
+      <span className="min-w-8 text-center tabular-nums">
+        {index + 1}/{siblingIds.length}
+      </span>
+      <button
+        aria-label="Next version"
+        className="flex h-8 w-6 items-center justify-center rounded-full bg-transparent transition disabled:cursor-not-allowed disabled:opacity-50"
+        disabled={disabled || !nextId}
+        onClick={() => onSelectVersion(nextId)}
+        type="button"
+      >
+        <CaretRightIcon className="size-3.5" />
+      </button>
+    </div>
+  );
+}
@@ -33,6 +33,8 @@ export type MessageProps = {
   isUserAuthenticated?: boolean;
   isReasoningModel?: boolean;
   reasoningEffort?: "low" | "medium" | "high";
+  siblingIds?: string[];
+  onSelectVersion?: (messageId: string) => void;
 };
 
 function MessageComponent({
@@ -53,6 +55,8 @@ function MessageComponent({
   isUserAuthenticated = false,
   isReasoningModel = false,
   reasoningEffort = "medium",
+  siblingIds,
+  onSelectVersion,
 }: MessageProps) {
   const [copied, setCopied] = useState(false);
 
@@ -81,10 +85,12 @@ function MessageComponent({
         isUserAuthenticated={isUserAuthenticated}
         onDelete={onDelete}
         onEdit={onEdit}
+        onSelectVersion={onSelectVersion}
         parts={parts}
         readOnly={readOnly}
         reasoningEffort={reasoningEffort}
         selectedModel={model || selectedModel || ""}
+        siblingIds={siblingIds}
         status={status}
       />
     );
@@ -102,8 +108,10 @@ function MessageComponent({
         model={model}
         onBranch={onBranch}
         onReload={onReload}
+        onSelectVersion={onSelectVersion}
         parts={parts}
         readOnly={readOnly}
+        siblingIds={siblingIds}
         status={status}
       />
     );
@@ -127,8 +135,10 @@ const equalMessage = (a: MessageProps, b: MessageProps) =>
   a.isReasoningModel === b.isReasoningModel &&
   a.reasoningEffort === b.reasoningEffort &&
   a.parts === b.parts &&
+  a.siblingIds === b.siblingIds &&
   a.onDelete === b.onDelete &&
-  a.onEdit === b.onEdit;
+  a.onEdit === b.onEdit &&
+  a.onSelectVersion === b.onSelectVersion;
 // Intentionally ignore: onReload, onBranch (their identities change but logic doesn't)
 
 export const Message = React.memo(MessageComponent, equalMessage);
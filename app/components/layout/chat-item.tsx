@@ -2,6 +2,7 @@
 
 import {
   Check,
+  FolderSimple,
   GitBranch,
   PencilSimple,
   PushPinSimple,
@@ -13,6 +14,14 @@ import Link from "next/link";
 import { useRouter } from "next/navigation";
 import React, { useState } from "react";
 import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import { Input } from "@/components/ui/input";
 import {
   Tooltip,
@@ -25,6 +34,11 @@ import type { Id } from "@/convex/_generated/dataModel";
 const cn = (...classes: (string | boolean | undefined)[]) =>
   classes.filter(Boolean).join(" ");
 
+export type ProjectOption = {
+  _id: Id<"projects">;
+  name: string;
+};
+
 type ChatItemProps = {
   id: Id<"chats">;
   title: string | undefined;
@@ -35,6 +49,9 @@ type ChatItemProps = {
   handleTogglePin: (id: Id<"chats">) => void;
   isPinned: boolean;
   isActive?: boolean;
+  projectId?: Id<"projects">;
+  projects?: ProjectOption[];
+  handleMoveToProject?: (id: Id<"chats">, projectId?: Id<"projects">) => void;
 };
 
 const ChatItemComponent = function ChatItemComponent({
@@ -47,12 +64,16 @@ const ChatItemComponent = function ChatItemComponent({
   handleTogglePin,
   isPinned,
   isActive,
+  projectId,
+  projects,
+  handleMoveToProject,
 }: ChatItemProps): React.ReactElement {
   const router = useRouter();
   const [isEditing, setIsEditing] = useState(false);
   const [editedTitle, setEditedTitle] = useState(title || "");
   const [isDeleting, setIsDeleting] = useState(false);
   const [showActions, setShowActions] = useState(false);
+  const [isMoveMenuOpen, setIsMoveMenuOpen] = useState(false);
 
   const onSave = () => {
     handleSaveEdit(id, editedTitle);
@@ -190,9 +211,56 @@ const ChatItemComponent = function ChatItemComponent({
             </span>
           </div>
         </div>
-        {(showActions || isActive) && (
+        {(showActions || isActive || isMoveMenuOpen) && (
           <div className="-right-0.25 pointer-events-auto absolute top-0 bottom-0 z-10 flex translate-x-full items-center justify-end text-muted-foreground transition-transform duration-200 group-hover/link:translate-x-0 group-hover/link:bg-accent dark:group-hover/link:bg-muted">
             <div className="pointer-events-none absolute top-0 right-[100%] bottom-0 h-12 w-8 bg-gradient-to-l from-accent to-transparent opacity-0 transition-opacity duration-200 group-hover/link:opacity-100 dark:from-muted" />
+            {handleMoveToProject && projects && projects.length > 0 && (
+              <DropdownMenu
+                onOpenChange={setIsMoveMenuOpen}
+                open={isMoveMenuOpen}
+              >
+                <DropdownMenuTrigger asChild>
+                  <Button
+                    aria-label="Move to project"
+                    className="rounded-md p-1.5 text-muted-foreground hover:bg-green-500/20 hover:text-green-600 dark:hover:text-green-400"
+                    onClick={(e) => e.preventDefault()}
+                    size="icon"
+                    tabIndex={-1}
+                    type="button"
+                    variant="ghost"
+                  >
+                    <FolderSimple className="size-4" />
+                  </Button>
+                </DropdownMenuTrigger>
+                {/* Portal clicks still bubble to the surrounding Link in React */}
+                <DropdownMenuContent
+                  align="start"
+                  className="z-[9999]"
+                  onClick={(e) => e.stopPropagation()}
+                >
+                  <DropdownMenuLabel>Move to project</DropdownMenuLabel>
+                  {projects.map((project) => (
+                    <DropdownMenuItem
+                      disabled={project._id === projectId}
+                      key={project._id}
+                      onSelect={() => handleMoveToProject(id, project._id)}
+                    >
+                      <span className="truncate">{project.name}</span>
+                    </DropdownMenuItem>
+                  ))}
+                  {projectId && (
+                    <>
+                      <DropdownMenuSeparator />
+                      <DropdownMenuItem
+                        onSelect={() => handleMoveToProject(id, undefined)}
+                      >
+                        Remove from project
+                      </DropdownMenuItem>
+                    </>
+                  )}
+                </DropdownMenuContent>
+              </DropdownMenu>
+            )}
             <Tooltip>
               <TooltipTrigger asChild>
                 <Button
@@ -281,7 +349,9 @@ export const ChatItem = React.memo(
       prevProps.originalChatId === nextProps.originalChatId &&
       prevProps.parentChatTitle === nextProps.parentChatTitle &&
       prevProps.isPinned === nextProps.isPinned &&
-      prevProps.isActive === nextProps.isActive
+      prevProps.isActive === nextProps.isActive &&
+      prevProps.projectId === nextProps.projectId &&
+      prevProps.projects === nextProps.projects
       // Note: We intentionally don't compare handler functions as they're
       // memoized in the parent and should be stable across renders
     );
@@ -1,10 +1,18 @@
 "use client";
 
-import { PushPinSimpleIcon } from "@phosphor-icons/react";
+import {
+  FolderSimpleIcon,
+  PencilSimpleIcon,
+  PlusIcon,
+  PushPinSimpleIcon,
+} from "@phosphor-icons/react";
 import { memo, useCallback, useMemo } from "react";
 import type { Doc, Id } from "@/convex/_generated/dataModel";
-import type { TimeGroup } from "@/lib/chat-utils/time-grouping";
-import { ChatItem } from "./chat-item";
+import type {
+  ProjectChatGroup,
+  TimeGroup,
+} from "@/lib/chat-utils/time-grouping";
+import { ChatItem, type ProjectOption } from "./chat-item";
 
 // Helper function for conditional classes
 
@@ -20,6 +28,11 @@ type ChatListProps = {
     groupKey: TimeGroup
   ) => boolean;
   activeChatId?: string | null;
+  projectGroups?: ProjectChatGroup[];
+  projects?: ProjectOption[];
+  handleMoveToProject?: (id: Id<"chats">, projectId?: Id<"projects">) => void;
+  handleNewProjectChat?: (projectId: Id<"projects">) => void;
+  handleEditProject?: (project: Doc<"projects">) => void;
 };
 
 export const ChatList = memo(function ChatListComponent({
@@ -31,6 +44,11 @@ export const ChatList = memo(function ChatListComponent({
   handleTogglePin,
   hasChatsInGroup,
   activeChatId,
+  projectGroups = [],
+  projects,
+  handleMoveToProject,
+  handleNewProjectChat,
+  handleEditProject,
 }: ChatListProps) {
   // Pre-compute chat lookup map for O(1) access instead of O(n) searches
   const chatLookupMap = useMemo(() => {
@@ -52,8 +70,19 @@ export const ChatList = memo(function ChatListComponent({
       }
     }
 
+    // Add chats inside projects to the map
+    for (const projectGroup of projectGroups) {
+      for (const chatArray of Object.values(projectGroup.groupedChats)) {
+        for (const chat of chatArray) {
+          if (chat.title) {
+            map.set(chat._id, chat.title);
+          }
+        }
+      }
+    }
+
     return map;
-  }, [pinnedChats, groupedChats]);
+  }, [pinnedChats, groupedChats, projectGroups]);
 
   // Helper function to get parent chat title for reuse across both sections (memoized)
   const getParentChatTitle = useCallback(
@@ -63,13 +92,33 @@ export const ChatList = memo(function ChatListComponent({
     [chatLookupMap]
   );
 
+  const renderChatItem = (chat: Doc<"chats">, isPinned: boolean) => (
+    <ChatItem
+      handleConfirmDelete={handleConfirmDelete}
+      handleMoveToProject={handleMoveToProject}
+      handleSaveEdit={handleSaveEdit}
+      handleTogglePin={handleTogglePin}
+      id={chat._id}
+      isActive={chat._id === activeChatId}
+      isPinned={isPinned}
+      key={chat._id}
+      originalChatId={chat.originalChatId}
+      parentChatTitle={getParentChatTitle(chat.originalChatId)}
+      projectId={chat.projectId}
+      projects={projects}
+      title={chat.title}
+    />
+  );
+
   return (
     <div className="flex flex-col pt-2 pb-8">
-      {pinnedChats.length === 0 && Object.keys(groupedChats).length === 0 && (
-        <span className="px-1.5 text-muted-foreground text-sm">
-          No chat history found.
-        </span>
-      )}
+      {pinnedChats.length === 0 &&
+        projectGroups.length === 0 &&
+        Object.keys(groupedChats).length === 0 && (
+          <span className="px-1.5 text-muted-foreground text-sm">
+            No chat history found.
+          </span>
+        )}
       {/* Pinned Chats Section */}
       {pinnedChats.length > 0 && (
         <div className="relative flex w-full min-w-0 flex-col">
@@ -78,23 +127,62 @@ export const ChatList = memo(function ChatListComponent({
             Pinned
           </h3>
           <ul className="flex w-full min-w-0 flex-col gap-1 text-sm">
-            {pinnedChats.map((chat) => (
-              <ChatItem
-                handleConfirmDelete={handleConfirmDelete}
-                handleSaveEdit={handleSaveEdit}
-                handleTogglePin={handleTogglePin}
-                id={chat._id}
-                isActive={chat._id === activeChatId}
-                isPinned={true}
-                key={chat._id}
-                originalChatId={chat.originalChatId}
-                parentChatTitle={getParentChatTitle(chat.originalChatId)}
-                title={chat.title}
-              />
-            ))}
+            {pinnedChats.map((chat) => renderChatItem(chat, true))}
           </ul>
         </div>
       )}
+      {/* Projects Section */}
+      {projectGroups.length > 0 && (
+        <div className="relative flex w-full min-w-0 flex-col">
+          <h3 className="flex h-8 shrink-0 select-none items-center rounded-md px-1.5 pt-8 pb-4 font-medium text-muted-foreground text-xs uppercase tracking-wider outline-none focus-visible:ring-2 focus-visible:ring-primary">
+            Projects
+          </h3>
+          {projectGroups.map(({ project, chatCount, groupedChats: chats }) => (
+            <div className="flex w-full min-w-0 flex-col" key={project._id}>
+              <div className="group/project flex h-8 items-center gap-1 rounded-md px-1.5 text-sm hover:bg-accent/50">
+                <FolderSimpleIcon className="size-4 shrink-0 text-muted-foreground" />
+                <span className="flex-1 truncate font-medium">
+                  {project.name}
+                </span>
+                <span className="text-muted-foreground text-xs group-hover/project:hidden">
+                  {chatCount}
+                </span>
+                {handleEditProject && (
+                  <button
+                    aria-label={`Edit ${project.name}`}
+                    className="hidden rounded p-0.5 text-muted-foreground hover:text-foreground group-hover/project:block"
+                    onClick={() => handleEditProject(project)}
+                    type="button"
+                  >
+                    <PencilSimpleIcon className="size-3.5" />
+                  </button>
+                )}
+                {handleNewProjectChat && (
+                  <button
+                    aria-label={`New chat in ${project.name}`}
+                    className="hidden rounded p-0.5 text-muted-foreground hover:text-foreground group-hover/project:block"
+                    onClick={() => handleNewProjectChat(project._id)}
+                    type="button"
+                  >
+                    <PlusIcon className="size-3.5" />
+                  </button>
+                )}
+              </div>
+              {chatCount > 0 && (
+                <ul className="ml-3 flex min-w-0 flex-col gap-1 border-l pl-1.5 text-sm">
+                  {orderedGroupKeys.flatMap((groupKey) =>
+                    hasChatsInGroup(chats, groupKey)
+                      ? chats[groupKey].map((chat) =>
+                          renderChatItem(chat, false)
+                        )
+                      : []
+                  )}
+                </ul>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
       {orderedGroupKeys.map(
         (groupKey) =>
           hasChatsInGroup(groupedChats, groupKey) && (
@@ -106,20 +194,9 @@ export const ChatList = memo(function ChatListComponent({
                 {groupKey}
               </h3>
               <ul className="flex w-full min-w-0 flex-col gap-1 text-sm">
-                {groupedChats[groupKey].map((chat) => (
-                  <ChatItem
-                    handleConfirmDelete={handleConfirmDelete}
-                    handleSaveEdit={handleSaveEdit}
-                    handleTogglePin={handleTogglePin}
-                    id={chat._id}
-                    isActive={chat._id === activeChatId}
-                    isPinned={false}
-                    key={chat._id}
-                    originalChatId={chat.originalChatId}
-                    parentChatTitle={getParentChatTitle(chat.originalChatId)}
-                    title={chat.title}
-                  />
-                ))}
+                {groupedChats[groupKey].map((chat) =>
+                  renderChatItem(chat, false)
+                )}
               </ul>
             </div>
           )
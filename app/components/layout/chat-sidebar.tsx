@@ -24,11 +24,13 @@ import { api } from "@/convex/_generated/api";
 import type { Doc, Id } from "@/convex/_generated/dataModel";
 import {
   getOrderedGroupKeys,
+  groupChatsByProject,
   groupChatsByTime,
   hasChatsInGroup,
 } from "@/lib/chat-utils/time-grouping";
 import { TRANSITION_LAYOUT } from "@/lib/motion";
 import { ChatList } from "./chat-list";
+import { DialogProject } from "./dialog-project";
 
 const ChatSidebar = memo(function SidebarComponent() {
   const { isSidebarOpen: isOpen, toggleSidebar } = useSidebar();
@@ -38,7 +40,12 @@ const ChatSidebar = memo(function SidebarComponent() {
     // Extended cache for chat list to prevent flickering
     gcTime: 20 * 60 * 1000, // 20 minutes
   });
+  const { data: projects = [] } = useTanStackQuery({
+    ...convexQuery(api.projects.listProjects, {}),
+    gcTime: 20 * 60 * 1000, // 20 minutes
+  });
   const updateChatTitle = useMutation(api.chats.updateChatTitle);
+  const setChatProject = useMutation(api.projects.setChatProject);
   const deleteChat = useMutation(api.chats.deleteChat);
   const pinChatToggle = useMutation(api.chats.pinChatToggle);
   const { setIsDeleting: setChatIsDeleting, chatId: activeChatId } =
@@ -55,6 +62,10 @@ const ChatSidebar = memo(function SidebarComponent() {
 
   // State for search and edit/delete in the main sidebar list
   const [searchQuery, setSearchQuery] = useState("");
+  // Project dialog: null when closed, undefined project when creating
+  const [projectDialog, setProjectDialog] = useState<{
+    project?: Doc<"projects">;
+  } | null>(null);
 
   // Memoize search input handler
   const handleSearchChange = useCallback(
@@ -146,6 +157,32 @@ const ChatSidebar = memo(function SidebarComponent() {
     [pinChatToggle]
   );
 
+  const handleMoveToProject = useCallback(
+    async (id: Id<"chats">, projectId?: Id<"projects">) => {
+      await setChatProject({ chatId: id, projectId });
+    },
+    [setChatProject]
+  );
+
+  const handleNewProjectChat = useCallback(
+    (projectId: Id<"projects">) => {
+      router.push(`/?project=${projectId}`);
+    },
+    [router]
+  );
+
+  const handleCreateProject = useCallback(() => {
+    if (!user || user.isAnonymous) {
+      router.push("/auth");
+      return;
+    }
+    setProjectDialog({});
+  }, [router, user]);
+
+  const handleEditProject = useCallback((project: Doc<"projects">) => {
+    setProjectDialog({ project });
+  }, []);
+
   // Memoize filtered chats with early return for empty arrays
   const filteredChats = useMemo(() => {
     if (!chats?.length) {
@@ -182,12 +219,24 @@ const ChatSidebar = memo(function SidebarComponent() {
     return { pinnedChats: pinned, unpinnedChats: unpinned };
   }, [filteredChats]);
 
-  // Memoize grouped chats and ordered group keys
-  const { groupedChats, orderedGroupKeys } = useMemo(() => {
-    const grouped = groupChatsByTime(unpinnedChats);
+  // Memoize project groups, grouped chats and ordered group keys
+  const { projectGroups, groupedChats, orderedGroupKeys } = useMemo(() => {
+    const { projectGroups: byProject, ungroupedChats } = groupChatsByProject(
+      unpinnedChats,
+      projects
+    );
+    // Hide empty projects while searching
+    const visibleProjects = searchQuery.trim()
+      ? byProject.filter((group) => group.chatCount > 0)
+      : byProject;
+    const grouped = groupChatsByTime(ungroupedChats);
     const ordered = getOrderedGroupKeys();
-    return { groupedChats: grouped, orderedGroupKeys: ordered };
-  }, [unpinnedChats]);
+    return {
+      projectGroups: visibleProjects,
+      groupedChats: grouped,
+      orderedGroupKeys: ordered,
+    };
+  }, [unpinnedChats, projects, searchQuery]);
 
   return (
     <div className="z-51 hidden md:block">
@@ -357,6 +406,14 @@ const ChatSidebar = memo(function SidebarComponent() {
             Background Agents
           </Button>
 
+          <Button
+            className="h-9 w-full justify-center font-bold text-sm"
+            onClick={handleCreateProject}
+            variant="outline"
+          >
+            New Project
+          </Button>
+
           <div className="relative">
             <MagnifyingGlass className="-translate-y-1/2 absolute top-1/2 left-2.5 h-4 w-4 text-muted-foreground" />
             <Input
@@ -399,15 +456,33 @@ const ChatSidebar = memo(function SidebarComponent() {
               activeChatId={activeChatId}
               groupedChats={groupedChats}
               handleConfirmDelete={handleConfirmDelete}
+              handleEditProject={handleEditProject}
+              handleMoveToProject={handleMoveToProject}
+              handleNewProjectChat={handleNewProjectChat}
               handleSaveEdit={handleSaveEdit}
               handleTogglePin={handleTogglePin}
               hasChatsInGroup={hasChatsInGroup}
               orderedGroupKeys={orderedGroupKeys}
               pinnedChats={pinnedChats}
+              projectGroups={projectGroups}
+              projects={projects}
             />
           )}
         </motion.div>
       </motion.aside>
+      {projectDialog && (
+        <DialogProject
+          key={projectDialog.project?._id ?? "new"}
+          onCreated={handleNewProjectChat}
+          onOpenChange={(open) => {
+            if (!open) {
+              setProjectDialog(null);
+            }
+          }}
+          open
+          project={projectDialog.project}
+        />
+      )}
     </div>
   );
 });
@@ -0,0 +1,256 @@
+"use client";
+
+import { convexQuery } from "@convex-dev/react-query";
+import { FileIcon, ImageIcon } from "@phosphor-icons/react";
+import { useQuery as useTanStackQuery } from "@tanstack/react-query";
+import { useMutation } from "convex/react";
+import { useState } from "react";
+import { ModelSelector } from "@/components/common/model-selector";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "@/components/ui/toast";
+import { api } from "@/convex/_generated/api";
+import type { Doc, Id } from "@/convex/_generated/dataModel";
+import { MAX_PROJECT_ATTACHMENTS, MODEL_DEFAULT } from "@/lib/config";
+
+type DialogProjectProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Edits the project when set, otherwise creates a new one
+  project?: Doc<"projects">;
+  onCreated?: (projectId: Id<"projects">) => void;
+};
+
+export function DialogProject({
+  open,
+  onOpenChange,
+  project,
+  onCreated,
+}: DialogProjectProps) {
+  const createProject = useMutation(api.projects.createProject);
+  const updateProject = useMutation(api.projects.updateProject);
+  const deleteProject = useMutation(api.projects.deleteProject);
+  const { data: attachments = [] } = useTanStackQuery({
+    ...convexQuery(api.files.getAttachmentsForUser, {}),
+    enabled: open,
+  });
+
+  const [name, setName] = useState(project?.name ?? "");
+  const [instructions, setInstructions] = useState(project?.instructions ?? "");
+  const [defaultModel, setDefaultModel] = useState(project?.defaultModel);
+  const [attachmentIds, setAttachmentIds] = useState<Id<"chat_attachments">[]>(
+    project?.attachmentIds ?? []
+  );
+  const [isSaving, setIsSaving] = useState(false);
+  const [isConfirmingDelete, setIsConfirmingDelete] = useState(false);
+
+  const referenceFiles = attachments.filter(
+    (attachment) => attachment.url && !attachment.isGenerated
+  );
+  const canAddFile = attachmentIds.length < MAX_PROJECT_ATTACHMENTS;
+
+  const toggleAttachment = (id: Id<"chat_attachments">, checked: boolean) => {
+    setAttachmentIds((prev) =>
+      checked ? [...prev, id] : prev.filter((current) => current !== id)
+    );
+  };
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      toast({ title: "Project name is required", status: "error" });
+      return;
+    }
+
+    // Drop files that were deleted since they were pinned
+    const availableIds = attachmentIds.filter((id) =>
+      attachments.some((attachment) => attachment._id === id)
+    );
+    const fields = {
+      name,
+      instructions,
+      attachmentIds: availableIds,
+      defaultModel,
+    };
+
+    setIsSaving(true);
+    try {
+      if (project) {
+        await updateProject({ projectId: project._id, ...fields });
+      } else {
+        const projectId = await createProject(fields);
+        onCreated?.(projectId);
+      }
+      onOpenChange(false);
+    } catch {
+      toast({ title: "Failed to save project", status: "error" });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!project) {
+      return;
+    }
+    setIsSaving(true);
+    try {
+      await deleteProject({ projectId: project._id });
+      onOpenChange(false);
+    } catch {
+      toast({ title: "Failed to delete project", status: "error" });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog onOpenChange={onOpenChange} open={open}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle>{project ? "Edit project" : "New project"}</DialogTitle>
+          <DialogDescription>
+            Chats in a project share its instructions, reference files and
+            default model.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <div className="space-y-2">
+            <Label htmlFor="project-name">Name</Label>
+            <Input
+              id="project-name"
+              maxLength={80}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Acme Corp"
+              value={name}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="project-instructions">Instructions</Label>
+            <Textarea
+              className="max-h-64 min-h-28"
+              id="project-instructions"
+              maxLength={10_000}
+              onChange={(e) => setInstructions(e.target.value)}
+              placeholder="Acme sells industrial sensors. Keep answers in British English and reference their product names..."
+              value={instructions}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Default model</Label>
+            <div className="flex items-center gap-2">
+              {defaultModel ? (
+                <>
+                  <ModelSelector
+                    className="rounded-full"
+                    selectedModelId={defaultModel}
+                    setSelectedModelId={setDefaultModel}
+                  />
+                  <Button
+                    onClick={() => setDefaultModel(undefined)}
+                    size="sm"
+                    type="button"
+                    variant="ghost"
+                  >
+                    Clear
+                  </Button>
+                </>
+              ) : (
+                <Button
+                  onClick={() => setDefaultModel(MODEL_DEFAULT)}
+                  size="sm"
+                  type="button"
+                  variant="outline"
+                >
+                  Set a default model
+                </Button>
+              )}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>
+              Reference files ({attachmentIds.length}/{MAX_PROJECT_ATTACHMENTS})
+            </Label>
+            {referenceFiles.length > 0 ? (
+              <div className="max-h-48 space-y-1 overflow-y-auto rounded-lg border p-2">
+                {referenceFiles.map((attachment) => {
+                  const isSelected = attachmentIds.includes(attachment._id);
+                  const Icon = attachment.fileType?.startsWith("image/")
+                    ? ImageIcon
+                    : FileIcon;
+                  return (
+                    <Label
+                      className="flex items-center gap-2 rounded-md px-2 py-1.5 font-normal hover:bg-accent"
+                      key={attachment._id}
+                    >
+                      <Checkbox
+                        checked={isSelected}
+                        disabled={!(isSelected || canAddFile)}
+                        onCheckedChange={(checked) =>
+                          toggleAttachment(attachment._id, checked === true)
+                        }
+                      />
+                      <Icon className="size-4 shrink-0 text-muted-foreground" />
+                      <span className="truncate">
+                        {attachment.fileName ?? attachment.key}
+                      </span>
+                    </Label>
+                  );
+                })}
+              </div>
+            ) : (
+              <p className="text-muted-foreground text-xs">
+                Files you upload in chats can be pinned here.
+              </p>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2 sm:justify-between">
+          {project ? (
+            <Button
+              disabled={isSaving}
+              onClick={
+                isConfirmingDelete
+                  ? handleDelete
+                  : () => setIsConfirmingDelete(true)
+              }
+              type="button"
+              variant="destructive"
+            >
+              {isConfirmingDelete ? "Confirm delete" : "Delete project"}
+            </Button>
+          ) : (
+            <span />
+          )}
+          <div className="flex gap-2">
+            <Button
+              onClick={() => onOpenChange(false)}
+              type="button"
+              variant="outline"
+            >
+              Cancel
+            </Button>
+            <Button disabled={isSaving} onClick={handleSave} type="button">
+              {isSaving ? "Saving..." : "Save"}
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -12,6 +12,7 @@ import { usePathname, useRouter } from "next/navigation";
 import { HistoryTrigger } from "@/app/components/history/history-trigger";
 import { AppInfoTrigger } from "@/app/components/layout/app-info/app-info-trigger";
 import { DialogShare } from "@/app/components/layout/dialog-share";
+import { NotificationsMenu } from "@/app/components/layout/notifications-menu";
 import { UserMenu } from "@/app/components/layout/user-menu";
 import { useBreakpoint } from "@/app/hooks/use-breakpoint";
 import { useUser } from "@/app/providers/user-provider";
@@ -109,6 +110,7 @@ export function Header() {
                 <DialogShare />
               </>
             )}
+            <NotificationsMenu />
             {(!isMobile || pathname === "/" || pathname === "/tasks") && (
               <UpgradeButton />
             )}
@@ -0,0 +1,105 @@
+"use client";
+
+import { convexQuery } from "@convex-dev/react-query";
+import { BellIcon } from "@phosphor-icons/react";
+import { useQuery as useTanStackQuery } from "@tanstack/react-query";
+import { useMutation } from "convex/react";
+import dayjs from "dayjs";
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { api } from "@/convex/_generated/api";
+
+export function NotificationsMenu() {
+  const router = useRouter();
+  const [open, setOpen] = useState(false);
+  const { data: unreadCount = 0 } = useTanStackQuery(
+    convexQuery(api.notifications.getUnreadCount, {})
+  );
+  const { data: notifications = [] } = useTanStackQuery({
+    ...convexQuery(api.notifications.listNotifications, {}),
+    enabled: open,
+  });
+  const markAllRead = useMutation(api.notifications.markAllNotificationsRead);
+
+  const handleMarkAllRead = async () => {
+    try {
+      await markAllRead({});
+    } catch {
+      toast.error("Failed to mark notifications as read");
+    }
+  };
+
+  return (
+    <Popover onOpenChange={setOpen} open={open}>
+      <PopoverTrigger asChild>
+        <button
+          aria-label="Notifications"
+          className="relative rounded-full p-1.5 text-muted-foreground transition-colors hover:bg-muted hover:text-foreground"
+          type="button"
+        >
+          <BellIcon size={24} />
+          {unreadCount > 0 && (
+            <span className="-top-0.5 -right-0.5 absolute flex min-w-4 items-center justify-center rounded-full bg-red-600 px-1 font-medium text-[10px] text-white">
+              {unreadCount > 9 ? "9+" : unreadCount}
+            </span>
+          )}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between border-b px-3 py-2">
+          <span className="font-medium text-sm">Notifications</span>
+          {unreadCount > 0 && (
+            <Button onClick={handleMarkAllRead} size="sm" variant="ghost">
+              Mark all read
+            </Button>
+          )}
+        </div>
+        {notifications.length === 0 ? (
+          <p className="px-3 py-6 text-center text-muted-foreground text-sm">
+            No notifications yet
+          </p>
+        ) : (
+          <ul className="max-h-96 overflow-y-auto">
+            {notifications.map((notification) => (
+              <li key={notification._id}>
+                <button
+                  className="w-full px-3 py-2 text-left transition-colors hover:bg-muted"
+                  onClick={() => {
+                    setOpen(false);
+                    router.push(
+                      notification.chatId
+                        ? `/c/${notification.chatId}`
+                        : "/tasks"
+                    );
+                  }}
+                  type="button"
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span
+                      className={`truncate text-sm ${notification.isRead ? "" : "font-medium"}`}
+                    >
+                      {notification.title}
+                    </span>
+                    <span className="shrink-0 text-muted-foreground text-xs">
+                      {dayjs(notification.createdAt).format("MMM D, h:mm a")}
+                    </span>
+                  </div>
+                  <p className="line-clamp-2 text-muted-foreground text-xs">
+                    {notification.body}
+                  </p>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -37,10 +37,34 @@ const AttachmentsPage = dynamic(
   () => import("@/app/settings/attachments/page").then((m) => m.default),
   { ssr: false }
 );
+const PersonasPage = dynamic(
+  () => import("@/app/settings/personas/page").then((m) => m.default),
+  { ssr: false }
+);
+const MemoryPage = dynamic(
+  () => import("@/app/settings/memory/page").then((m) => m.default),
+  { ssr: false }
+);
 const ApiKeysPage = dynamic(
   () => import("@/app/settings/api-keys/page").then((m) => m.default),
   { ssr: false }
 );
+const CustomModelsPage = dynamic(
+  () => import("@/app/settings/custom-models/page").then((m) => m.default),
+  { ssr: false }
+);
+const SearchSettingsPage = dynamic(
+  () => import("@/app/settings/search/page").then((m) => m.default),
+  { ssr: false }
+);
+const AccessTokensPage = dynamic(
+  () => import("@/app/settings/access-tokens/page").then((m) => m.default),
+  { ssr: false }
+);
+const UsagePage = dynamic(
+  () => import("@/app/settings/usage/page").then((m) => m.default),
+  { ssr: false }
+);
 const ModelsPage = dynamic(
   () => import("@/app/settings/models/page").then((m) => m.default),
   { ssr: false }
@@ -55,7 +79,13 @@ const NAV_ITEMS = [
   { key: "customization", name: "Customization" },
   { key: "history", name: "History & Sync" },
   { key: "models", name: "Models" },
+  { key: "personas", name: "Personas" },
+  { key: "memory", name: "Memory" },
   { key: "api-keys", name: "API Keys" },
+  { key: "custom-models", name: "Custom Models" },
+  { key: "search", name: "Search" },
+  { key: "access-tokens", name: "Access Tokens" },
+  { key: "usage", name: "Usage" },
   { key: "connectors", name: "Connectors" },
   { key: "attachments", name: "Attachments" },
 ] as const;
@@ -125,9 +155,27 @@ export function DrawerSettings({
               <TabsContent value="models">
                 <ModelsPage />
               </TabsContent>
+              <TabsContent value="personas">
+                <PersonasPage />
+              </TabsContent>
+              <TabsContent value="memory">
+                <MemoryPage />
+              </TabsContent>
               <TabsContent value="api-keys">
                 <ApiKeysPage />
               </TabsContent>
+              <TabsContent value="custom-models">
+                <CustomModelsPage />
+              </TabsContent>
+              <TabsContent value="search">
+                <SearchSettingsPage />
+              </TabsContent>
+              <TabsContent value="access-tokens">
+                <AccessTokensPage />
+              </TabsContent>
+              <TabsContent value="usage">
+                <UsagePage />
+              </TabsContent>
               <TabsContent value="connectors">
                 <ConnectorsPage />
               </TabsContent>
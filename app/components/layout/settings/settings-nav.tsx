@@ -10,7 +10,13 @@ const NAV_ITEMS = [
   { name: "Customization", href: "/settings/customization" },
   { name: "History & Sync", href: "/settings/history" },
   { name: "Models", href: "/settings/models" },
+  { name: "Personas", href: "/settings/personas" },
+  { name: "Memory", href: "/settings/memory" },
   { name: "API Keys", href: "/settings/api-keys" },
+  { name: "Custom Models", href: "/settings/custom-models" },
+  { name: "Search", href: "/settings/search" },
+  { name: "Access Tokens", href: "/settings/access-tokens" },
+  { name: "Usage", href: "/settings/usage" },
   { name: "Connectors", href: "/settings/connectors" },
   { name: "Attachments", href: "/settings/attachments" },
 ] as const;
@@ -0,0 +1,44 @@
+"use client";
+
+import { useMutation } from "convex/react";
+import { useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { api } from "@/convex/_generated/api";
+
+type CancelExecutionButtonProps = {
+  executionId: string;
+  className?: string;
+};
+
+export function CancelExecutionButton({
+  executionId,
+  className,
+}: CancelExecutionButtonProps) {
+  const cancelExecution = useMutation(api.task_history.cancelExecution);
+  const [isCancelling, setIsCancelling] = useState(false);
+
+  const handleCancel = async () => {
+    setIsCancelling(true);
+    try {
+      await cancelExecution({ executionId });
+      toast.success("Run cancelled");
+    } catch (_error) {
+      toast.error("Failed to cancel run");
+    } finally {
+      setIsCancelling(false);
+    }
+  };
+
+  return (
+    <Button
+      className={className}
+      disabled={isCancelling}
+      onClick={handleCancel}
+      size="sm"
+      variant="outline"
+    >
+      {isCancelling ? "Cancelling..." : "Cancel Run"}
+    </Button>
+  );
+}
@@ -0,0 +1,33 @@
+"use client";
+
+import dayjs from "dayjs";
+import type { Doc } from "@/convex/_generated/dataModel";
+
+type ExecutionAttemptProps = {
+  execution: Pick<
+    Doc<"task_history">,
+    "attempt" | "nextRetryAt" | "retriesExhausted"
+  >;
+};
+
+// Retry state of an execution: its attempt, when it is retried, or that it
+// failed after its last retry
+export function ExecutionAttempt({ execution }: ExecutionAttemptProps) {
+  const attempt = execution.attempt ?? 1;
+
+  return (
+    <>
+      {attempt > 1 && (
+        <div className="text-muted-foreground text-xs">Retry {attempt - 1}</div>
+      )}
+      {execution.nextRetryAt && (
+        <div className="text-muted-foreground text-xs">
+          Retrying at {dayjs(execution.nextRetryAt).format("MMM D, h:mm a")}
+        </div>
+      )}
+      {execution.retriesExhausted && (
+        <div className="text-red-600 text-xs">Failed after its last retry</div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,29 @@
+"use client";
+
+import type { Doc } from "@/convex/_generated/dataModel";
+import { NOTIFICATION_CHANNEL_LABELS } from "@/lib/task-notifications";
+
+type ExecutionDeliveriesProps = {
+  deliveries: NonNullable<Doc<"task_history">["deliveries"]>;
+};
+
+// Channels a run's result was delivered to, with the error of failed ones
+export function ExecutionDeliveries({ deliveries }: ExecutionDeliveriesProps) {
+  return (
+    <div className="text-muted-foreground text-xs">
+      Sent to:{" "}
+      {deliveries.map((delivery, index) => (
+        <span key={delivery.channel}>
+          {index > 0 && ", "}
+          <span
+            className={delivery.status === "failed" ? "text-red-600" : ""}
+            title={delivery.error}
+          >
+            {NOTIFICATION_CHANNEL_LABELS[delivery.channel]}
+            {delivery.status === "failed" && " (failed)"}
+          </span>
+        </span>
+      ))}
+    </div>
+  );
+}
@@ -19,6 +19,11 @@ import { Pill, PillIndicator } from "@/components/ui/pill";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { api } from "@/convex/_generated/api";
 import type { Id } from "@/convex/_generated/dataModel";
+import { formatCostUsd } from "@/lib/usage-cost";
+import { CancelExecutionButton } from "./cancel-execution-button";
+import { ExecutionAttempt } from "./execution-attempt";
+import { ExecutionDeliveries } from "./execution-deliveries";
+import { ExecutionSteps } from "./execution-steps";
 
 type ExecutionHistoryDialogProps = {
   trigger: React.ReactNode;
@@ -125,7 +130,7 @@ function ExecutionHistoryDialogComponent({
         <div className="space-y-6">
           {/* Statistics Section */}
           {!isStatsLoading && stats && (
-            <div className="grid grid-cols-2 gap-4 rounded-lg bg-muted/50 p-4 md:grid-cols-5">
+            <div className="grid grid-cols-2 gap-4 rounded-lg bg-muted/50 p-4 md:grid-cols-6">
               <div className="text-center">
                 <div className="font-semibold text-2xl">
                   {stats.totalExecutions}
@@ -152,6 +157,12 @@ function ExecutionHistoryDialogComponent({
                 </div>
                 <div className="text-muted-foreground text-sm">Failed</div>
               </div>
+              <div className="text-center">
+                <div className="font-semibold text-2xl">
+                  {stats.retryAttempts}
+                </div>
+                <div className="text-muted-foreground text-sm">Retries</div>
+              </div>
               <div className="text-center">
                 <div className="font-semibold text-2xl text-orange-600">
                   {stats.runningExecutions}
@@ -223,15 +234,42 @@ function ExecutionHistoryDialogComponent({
                                 {execution.metadata.totalTokens.toLocaleString()}
                               </div>
                             )}
+                            {execution.metadata?.costUsd !== undefined && (
+                              <div className="text-muted-foreground text-xs">
+                                Cost:{" "}
+                                {formatCostUsd(execution.metadata.costUsd)}
+                              </div>
+                            )}
+                            <ExecutionAttempt execution={execution} />
+                            {execution.deliveries &&
+                              execution.deliveries.length > 0 && (
+                                <ExecutionDeliveries
+                                  deliveries={execution.deliveries}
+                                />
+                              )}
+                            {execution.triggerEvent && (
+                              <div className="break-words text-muted-foreground text-xs">
+                                Event: {execution.triggerEvent}
+                              </div>
+                            )}
                             {execution.errorMessage && (
                               <div className="mt-1 break-words text-red-600 text-xs">
                                 Error: {execution.errorMessage}
                               </div>
                             )}
+                            {execution.steps && execution.steps.length > 0 && (
+                              <ExecutionSteps steps={execution.steps} />
+                            )}
                           </div>
                         </div>
 
                         <div className="flex items-center gap-2">
+                          {(execution.status === "running" ||
+                            execution.status === "pending") && (
+                            <CancelExecutionButton
+                              executionId={execution.executionId}
+                            />
+                          )}
                           {execution.chatId && (
                             <Button
                               onClick={() => {
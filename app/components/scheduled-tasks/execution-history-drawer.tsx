@@ -20,6 +20,11 @@ import { Pill, PillIndicator } from "@/components/ui/pill";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { api } from "@/convex/_generated/api";
 import type { Id } from "@/convex/_generated/dataModel";
+import { formatCostUsd } from "@/lib/usage-cost";
+import { CancelExecutionButton } from "./cancel-execution-button";
+import { ExecutionAttempt } from "./execution-attempt";
+import { ExecutionDeliveries } from "./execution-deliveries";
+import { ExecutionSteps } from "./execution-steps";
 
 type ExecutionHistoryDrawerProps = {
   trigger: React.ReactNode;
@@ -164,6 +169,12 @@ function ExecutionHistoryDrawerComponent({
                 </div>
                 <div className="text-muted-foreground text-xs">Failed</div>
               </div>
+              <div className="text-center">
+                <div className="font-semibold text-lg">
+                  {stats.retryAttempts}
+                </div>
+                <div className="text-muted-foreground text-xs">Retries</div>
+              </div>
             </div>
           )}
 
@@ -222,13 +233,40 @@ function ExecutionHistoryDrawerComponent({
                               {execution.metadata.totalTokens.toLocaleString()}
                             </div>
                           )}
+                          {execution.metadata?.costUsd !== undefined && (
+                            <div className="text-muted-foreground text-xs">
+                              Cost: {formatCostUsd(execution.metadata.costUsd)}
+                            </div>
+                          )}
+                          <ExecutionAttempt execution={execution} />
+                          {execution.deliveries &&
+                            execution.deliveries.length > 0 && (
+                              <ExecutionDeliveries
+                                deliveries={execution.deliveries}
+                              />
+                            )}
+                          {execution.triggerEvent && (
+                            <div className="break-words text-muted-foreground text-xs">
+                              Event: {execution.triggerEvent}
+                            </div>
+                          )}
                           {execution.errorMessage && (
                             <p className="text-destructive text-xs">
                               Error: {execution.errorMessage}
                             </p>
                           )}
+                          {execution.steps && execution.steps.length > 0 && (
+                            <ExecutionSteps steps={execution.steps} />
+                          )}
                         </div>
                         <div className="ml-2 flex flex-col items-end gap-1">
+                          {(execution.status === "running" ||
+                            execution.status === "pending") && (
+                            <CancelExecutionButton
+                              className="h-7 text-xs"
+                              executionId={execution.executionId}
+                            />
+                          )}
                           {execution.chatId && (
                             <Button
                               className="h-7 text-xs"
@@ -0,0 +1,54 @@
+"use client";
+
+import { Pill, PillIndicator } from "@/components/ui/pill";
+import type { Doc } from "@/convex/_generated/dataModel";
+
+type ExecutionStep = NonNullable<Doc<"task_history">["steps"]>[number];
+
+type ExecutionStepsProps = {
+  steps: ExecutionStep[];
+};
+
+const STEP_STATUS_CONFIG = {
+  success: {
+    label: "Done",
+    indicator: "success" as const,
+  },
+  skipped: {
+    label: "Skipped",
+    indicator: "info" as const,
+  },
+  failure: {
+    label: "Failed",
+    indicator: "error" as const,
+  },
+} as const;
+
+// Per-step results of a workflow execution
+export function ExecutionSteps({ steps }: ExecutionStepsProps) {
+  return (
+    <ol className="mt-2 space-y-2">
+      {steps.map((step) => {
+        const statusConfig = STEP_STATUS_CONFIG[step.status];
+        return (
+          <li className="space-y-1" key={step.index}>
+            <div className="flex items-center gap-2">
+              <Pill className="text-xs" variant="outline">
+                <PillIndicator pulse={false} variant={statusConfig.indicator} />
+                Step {step.index + 1}: {statusConfig.label}
+              </Pill>
+              <span className="truncate text-muted-foreground text-xs">
+                {step.prompt}
+              </span>
+            </div>
+            {step.output && (
+              <p className="line-clamp-3 whitespace-pre-wrap break-words text-muted-foreground text-xs">
+                {step.output}
+              </p>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
@@ -37,6 +37,10 @@ import {
   TooltipTrigger,
 } from "@/components/ui/tooltip";
 import { api } from "@/convex/_generated/api";
+import { MODELS_MAP, TASK_MODEL_DEFAULT } from "@/lib/config";
+import { parseCustomModelId } from "@/lib/custom-models";
+import { describeSchedule } from "@/lib/task-schedule";
+import { describeTrigger } from "@/lib/task-triggers";
 import { ExecutionHistoryTrigger } from "./execution-history-trigger";
 import { TaskTrigger } from "./task-trigger";
 import type { ScheduledTask } from "./types";
@@ -56,6 +60,10 @@ const SCHEDULE_TYPE_DISPLAY_MAP = {
   onetime: "One-time",
   daily: "Daily",
   weekly: "Weekly",
+  monthly: "Monthly",
+  interval: "Interval",
+  cron: "Cron",
+  event: "On event",
 } as const;
 
 type TaskCardProps = {
@@ -122,6 +130,33 @@ function TaskCardComponent({ task, isMobile = false }: TaskCardProps) {
     );
   }, [task.scheduleType]);
 
+  // Human-readable schedule, e.g. "At 9:00 AM on weekdays", or the event
+  // that runs the task
+  const scheduleDescription = useMemo(
+    () =>
+      task.scheduleType === "event"
+        ? describeTrigger(task.trigger)
+        : describeSchedule({
+            scheduleType: task.scheduleType,
+            scheduledTime: task.scheduledTime,
+            scheduledDate: task.scheduledDate,
+            timezone: task.timezone,
+            monthlyRule: task.monthlyRule,
+            intervalMinutes: task.intervalMinutes,
+            cronExpression: task.cronExpression,
+          }),
+    [
+      task.scheduleType,
+      task.scheduledTime,
+      task.scheduledDate,
+      task.timezone,
+      task.monthlyRule,
+      task.intervalMinutes,
+      task.cronExpression,
+      task.trigger,
+    ]
+  );
+
   // Memoized weekly day computation
   const weeklyDay = useMemo(() => {
     if (task.scheduleType !== "weekly") {
@@ -149,7 +184,9 @@ function TaskCardComponent({ task, isMobile = false }: TaskCardProps) {
   const nextExecutionDisplay = useMemo(() => {
     switch (task.status) {
       case "active":
-        return formatTime(task.nextExecution);
+        return task.scheduleType === "event"
+          ? "On the next event"
+          : formatTime(task.nextExecution);
       case "running":
         return "Currently running";
       case "paused":
@@ -159,7 +196,7 @@ function TaskCardComponent({ task, isMobile = false }: TaskCardProps) {
       default:
         return "Unknown";
     }
-  }, [task.status, task.nextExecution, formatTime]);
+  }, [task.status, task.scheduleType, task.nextExecution, formatTime]);
 
   // Memoized last execution display
   const lastExecutionDisplay = useMemo(() => {
@@ -215,10 +252,23 @@ function TaskCardComponent({ task, isMobile = false }: TaskCardProps) {
       prompt: task.prompt,
       scheduleType: task.scheduleType,
       scheduledTime: task.scheduledTime,
+      scheduledDate: task.scheduledDate,
+      monthlyRule: task.monthlyRule,
+      intervalMinutes: task.intervalMinutes,
+      cronExpression: task.cronExpression,
       timezone: task.timezone,
       enableSearch: task.enableSearch,
       enabledToolSlugs: task.enabledToolSlugs,
       emailNotifications: task.emailNotifications,
+      steps: task.steps,
+      modelId: task.modelId,
+      reasoningEffort: task.reasoningEffort,
+      personaId: task.personaId,
+      trigger: task.trigger,
+      retryPolicy: task.retryPolicy,
+      timeoutMinutes: task.timeoutMinutes,
+      notificationChannels: task.notificationChannels,
+      notificationPolicy: task.notificationPolicy,
     }),
     [
       task._id,
@@ -226,13 +276,35 @@ function TaskCardComponent({ task, isMobile = false }: TaskCardProps) {
       task.prompt,
       task.scheduleType,
       task.scheduledTime,
+      task.scheduledDate,
+      task.monthlyRule,
+      task.intervalMinutes,
+      task.cronExpression,
       task.timezone,
       task.enableSearch,
       task.enabledToolSlugs,
       task.emailNotifications,
+      task.steps,
+      task.modelId,
+      task.reasoningEffort,
+      task.personaId,
+      task.trigger,
+      task.retryPolicy,
+      task.timeoutMinutes,
+      task.notificationChannels,
+      task.notificationPolicy,
     ]
   );
 
+  // Workflow steps that run after the task prompt
+  const stepCount = task.steps?.length ?? 0;
+
+  const taskModelId = task.modelId ?? TASK_MODEL_DEFAULT;
+  const modelName =
+    MODELS_MAP[taskModelId]?.name ??
+    parseCustomModelId(taskModelId)?.modelId ??
+    taskModelId;
+
   // Mobile layout component
   const mobileLayout = isMobile ? (
     // biome-ignore lint/a11y/useSemanticElements: <soh>
@@ -416,11 +488,23 @@ function TaskCardComponent({ task, isMobile = false }: TaskCardProps) {
                   Email
                 </Pill>
               )}
+              {stepCount > 0 && (
+                <Pill className="text-xs" variant="outline">
+                  {stepCount + 1} steps
+                </Pill>
+              )}
             </div>
 
             {/* Additional info */}
             <div className="space-y-1 text-muted-foreground text-sm">
+              <p>Schedule: {scheduleDescription}</p>
+              <p>Model: {modelName}</p>
               <p>Last Run: {lastExecutionDisplay}</p>
+              {task.trigger?.error && (
+                <p className="text-destructive">
+                  Trigger error: {task.trigger.error}
+                </p>
+              )}
             </div>
 
             {/* View results link */}
@@ -465,6 +549,11 @@ function TaskCardComponent({ task, isMobile = false }: TaskCardProps) {
                 Email
               </Pill>
             )}
+            {stepCount > 0 && (
+              <Pill className="text-xs" variant="outline">
+                {stepCount + 1} steps
+              </Pill>
+            )}
             {task.status === "paused" && (
               <Pill className="text-xs" variant="outline">
                 <PillIndicator pulse={false} variant="warning" />
@@ -486,8 +575,15 @@ function TaskCardComponent({ task, isMobile = false }: TaskCardProps) {
           </div>
 
           <div className="mt-4 space-y-1 text-muted-foreground text-sm">
+            <p>Schedule: {scheduleDescription}</p>
+            <p>Model: {modelName}</p>
             <p>Next Run: {nextExecutionDisplay}</p>
             <p>Last Run: {lastExecutionDisplay}</p>
+            {task.trigger?.error && (
+              <p className="text-destructive">
+                Trigger error: {task.trigger.error}
+              </p>
+            )}
           </div>
         </div>
 
@@ -735,6 +831,11 @@ export const TaskCard = memo(TaskCardComponent, (prevProps, nextProps) => {
     prevTask.status === nextTask.status &&
     prevTask.scheduleType === nextTask.scheduleType &&
     prevTask.scheduledTime === nextTask.scheduledTime &&
+    prevTask.scheduledDate === nextTask.scheduledDate &&
+    prevTask.intervalMinutes === nextTask.intervalMinutes &&
+    prevTask.cronExpression === nextTask.cronExpression &&
+    JSON.stringify(prevTask.monthlyRule) ===
+      JSON.stringify(nextTask.monthlyRule) &&
     prevTask.nextExecution === nextTask.nextExecution &&
     prevTask.lastExecuted === nextTask.lastExecuted &&
     prevTask.emailNotifications === nextTask.emailNotifications &&
@@ -743,6 +844,18 @@ export const TaskCard = memo(TaskCardComponent, (prevProps, nextProps) => {
     prevTask.timezone === nextTask.timezone &&
     prevTask.enableSearch === nextTask.enableSearch &&
     JSON.stringify(prevTask.enabledToolSlugs) ===
-      JSON.stringify(nextTask.enabledToolSlugs)
+      JSON.stringify(nextTask.enabledToolSlugs) &&
+    JSON.stringify(prevTask.steps) === JSON.stringify(nextTask.steps) &&
+    prevTask.modelId === nextTask.modelId &&
+    prevTask.reasoningEffort === nextTask.reasoningEffort &&
+    prevTask.personaId === nextTask.personaId &&
+    JSON.stringify(prevTask.trigger) === JSON.stringify(nextTask.trigger) &&
+    JSON.stringify(prevTask.retryPolicy) ===
+      JSON.stringify(nextTask.retryPolicy) &&
+    prevTask.timeoutMinutes === nextTask.timeoutMinutes &&
+    JSON.stringify(prevTask.notificationChannels) ===
+      JSON.stringify(nextTask.notificationChannels) &&
+    JSON.stringify(prevTask.notificationPolicy) ===
+      JSON.stringify(nextTask.notificationPolicy)
   );
 });
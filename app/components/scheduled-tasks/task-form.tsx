@@ -7,7 +7,12 @@ import { useMutation } from "convex/react";
 import dayjs from "dayjs";
 import { useMemo, useState } from "react";
 import { toast } from "sonner";
-import { formatWeeklyTime, parseWeeklyTime } from "@/app/utils/time-utils";
+import { useEnrichedModels } from "@/app/hooks/use-enriched-models";
+import {
+  formatNextRun,
+  formatWeeklyTime,
+  parseWeeklyTime,
+} from "@/app/utils/time-utils";
 import { Button } from "@/components/ui/button";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Input } from "@/components/ui/input";
@@ -22,8 +27,31 @@ import {
 } from "@/components/ui/tooltip";
 import { api } from "@/convex/_generated/api";
 import type { Id } from "@/convex/_generated/dataModel";
+import { TASK_MODEL_DEFAULT } from "@/lib/config";
+import { supportsReasoningEffort } from "@/lib/model-utils";
+import {
+  DEFAULT_NOTIFICATION_POLICY,
+  validateNotificationSettings,
+} from "@/lib/task-notifications";
+import {
+  DEFAULT_TASK_RETRY_POLICY,
+  DEFAULT_TASK_TIMEOUT_MINUTES,
+} from "@/lib/task-retry";
+import {
+  describeSchedule,
+  getNextRunTimes,
+  type TaskSchedule,
+  validateSchedule,
+} from "@/lib/task-schedule";
+import { type TaskStep, validateTaskSteps } from "@/lib/task-steps";
+import { validateTaskTrigger } from "@/lib/task-triggers";
+import { TaskModelSettings } from "./task-model-settings";
+import { TaskNotificationSettings } from "./task-notification-settings";
+import { TaskRetrySettings } from "./task-retry-settings";
+import { TaskStepsEditor } from "./task-steps-editor";
+import { TaskTriggerSettings } from "./task-trigger-settings";
 import { TimePicker } from "./time-picker";
-import type { CreateTaskForm } from "./types";
+import type { CreateTaskForm, ScheduleType } from "./types";
 
 // Task limits constants (matching backend)
 const TASK_LIMITS = {
@@ -32,6 +60,14 @@ const TASK_LIMITS = {
   TOTAL_TASKS: 10,
 } as const;
 
+// Number of upcoming runs shown in the schedule preview
+const PREVIEW_RUN_COUNT = 5;
+
+const DEFAULT_CRON_EXPRESSION = "0 9 * * 1-5";
+
+// Schedule types that count against the daily limit (matching backend)
+const DAILY_LIMIT_TYPES: ScheduleType[] = ["daily", "interval", "cron"];
+
 // Helper function to get tomorrow's date as YYYY-MM-DD
 const getTomorrowDate = () => {
   const tomorrow = new Date();
@@ -67,14 +103,69 @@ const getInitialFormState = (
       parsedData?.scheduledDate ||
       (isNewOnetimeTask ? getTomorrowDate() : undefined),
     selectedDay: parsedData?.selectedDay ?? 1, // Default to Monday
+    monthlyRule: parsedData?.monthlyRule ?? { type: "day", day: 1 },
+    intervalMinutes: parsedData?.intervalMinutes ?? 240,
+    cronExpression: parsedData?.cronExpression || DEFAULT_CRON_EXPRESSION,
     timezone:
       parsedData?.timezone || Intl.DateTimeFormat().resolvedOptions().timeZone,
     enableSearch: parsedData?.enableSearch,
     enabledToolSlugs: parsedData?.enabledToolSlugs || [],
     emailNotifications: parsedData?.emailNotifications,
+    steps: parsedData?.steps || [],
+    modelId: parsedData?.modelId || TASK_MODEL_DEFAULT,
+    reasoningEffort: parsedData?.reasoningEffort ?? "low",
+    personaId: parsedData?.personaId,
+    trigger: parsedData?.trigger,
+    retryPolicy: parsedData?.retryPolicy ?? DEFAULT_TASK_RETRY_POLICY,
+    timeoutMinutes: parsedData?.timeoutMinutes ?? DEFAULT_TASK_TIMEOUT_MINUTES,
+    notificationChannels: parsedData?.notificationChannels || [],
+    notificationPolicy:
+      parsedData?.notificationPolicy ?? DEFAULT_NOTIFICATION_POLICY,
   };
 };
 
+type ScheduleFields = Pick<
+  CreateTaskForm,
+  | "scheduleType"
+  | "scheduledTime"
+  | "scheduledDate"
+  | "selectedDay"
+  | "timezone"
+  | "monthlyRule"
+  | "intervalMinutes"
+  | "cronExpression"
+>;
+
+// Helper function to build the schedule a form describes
+const getFormSchedule = (form: ScheduleFields): TaskSchedule => ({
+  scheduleType: form.scheduleType,
+  scheduledTime:
+    form.scheduleType === "weekly"
+      ? formatWeeklyTime(form.selectedDay ?? 1, form.scheduledTime)
+      : form.scheduledTime,
+  scheduledDate:
+    form.scheduleType === "onetime" || form.scheduleType === "interval"
+      ? form.scheduledDate
+      : undefined,
+  timezone: form.timezone,
+  monthlyRule: form.scheduleType === "monthly" ? form.monthlyRule : undefined,
+  intervalMinutes:
+    form.scheduleType === "interval" ? form.intervalMinutes : undefined,
+  cronExpression:
+    form.scheduleType === "cron" ? form.cronExpression?.trim() : undefined,
+});
+
+// Helper function to trim step text before saving
+const normalizeSteps = (steps: TaskStep[]): TaskStep[] =>
+  steps.map((step) => ({
+    ...step,
+    prompt: step.prompt.trim(),
+    condition: step.condition && {
+      ...step.condition,
+      value: step.condition.value.trim(),
+    },
+  }));
+
 type CreateTaskFormProps = {
   onSuccess: () => void;
   onCancel: () => void;
@@ -96,6 +187,7 @@ export function TaskFormContent({
   );
 
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const { enrichedModels } = useEnrichedModels();
   const createTask = useMutation(api.scheduled_tasks.createScheduledTask);
   const updateTask = useMutation(api.scheduled_tasks.updateScheduledTask);
 
@@ -111,6 +203,46 @@ export function TaskFormContent({
   // Fetch task limits data
   const { data: taskLimits } = useTanStackQuery(queryConfig);
 
+  // Only the schedule fields affect the preview
+  const {
+    scheduleType,
+    scheduledTime,
+    scheduledDate,
+    selectedDay,
+    timezone,
+    monthlyRule,
+    intervalMinutes,
+    cronExpression,
+  } = form;
+  const schedule = useMemo(
+    () =>
+      getFormSchedule({
+        scheduleType,
+        scheduledTime,
+        scheduledDate,
+        selectedDay,
+        timezone,
+        monthlyRule,
+        intervalMinutes,
+        cronExpression,
+      }),
+    [
+      scheduleType,
+      scheduledTime,
+      scheduledDate,
+      selectedDay,
+      timezone,
+      monthlyRule,
+      intervalMinutes,
+      cronExpression,
+    ]
+  );
+  const scheduleError = useMemo(() => validateSchedule(schedule), [schedule]);
+  const upcomingRuns = useMemo(
+    () => (scheduleError ? [] : getNextRunTimes(schedule, PREVIEW_RUN_COUNT)),
+    [schedule, scheduleError]
+  );
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
@@ -119,39 +251,104 @@ export function TaskFormContent({
       return;
     }
 
+    if (scheduleError) {
+      toast.error(scheduleError);
+      return;
+    }
+
+    // Only the event and its filter are sent; registration is server-side
+    const isEventTask = form.scheduleType === "event";
+    const trigger =
+      isEventTask && form.trigger
+        ? { type: form.trigger.type, filter: form.trigger.filter?.trim() }
+        : undefined;
+    const triggerError = isEventTask ? validateTaskTrigger(trigger) : undefined;
+    if (triggerError) {
+      toast.error(triggerError);
+      return;
+    }
+
+    const steps = normalizeSteps(form.steps ?? []);
+    const stepsError = validateTaskSteps(steps);
+    if (stepsError) {
+      toast.error(stepsError);
+      return;
+    }
+
+    const notificationSettings = {
+      notificationChannels: (form.notificationChannels ?? []).map((channel) => {
+        if (channel.type === "webhook") {
+          return { ...channel, url: channel.url.trim() };
+        }
+        if (channel.type === "slack") {
+          return { ...channel, channel: channel.channel.trim() };
+        }
+        return channel;
+      }),
+      notificationPolicy: form.notificationPolicy,
+    };
+    const notificationError = validateNotificationSettings(
+      notificationSettings.notificationChannels,
+      notificationSettings.notificationPolicy
+    );
+    if (notificationError) {
+      toast.error(notificationError);
+      return;
+    }
+
+    // Same premium and API key rules as the chat input
+    const modelId = form.modelId ?? TASK_MODEL_DEFAULT;
+    const selectedModel = enrichedModels.find((model) => model.id === modelId);
+    if (selectedModel && !selectedModel.available) {
+      toast.error(
+        selectedModel.apiKeyUsage.userKeyOnly
+          ? `${selectedModel.name} requires your own API key`
+          : `${selectedModel.name} requires a premium subscription`
+      );
+      return;
+    }
+    const modelSettings = {
+      modelId,
+      reasoningEffort: supportsReasoningEffort(modelId)
+        ? form.reasoningEffort
+        : undefined,
+      // An empty id clears the persona of an existing task
+      personaId: form.personaId ?? "",
+    };
+
     setIsSubmitting(true);
     try {
-      // Format scheduledTime for weekly tasks
-      const formattedScheduledTime =
-        form.scheduleType === "weekly"
-          ? formatWeeklyTime(form.selectedDay ?? 1, form.scheduledTime)
-          : form.scheduledTime;
-
       if (mode === "edit" && initialData?.taskId) {
         await updateTask({
           taskId: initialData.taskId,
           title: form.title.trim(),
           prompt: form.prompt.trim(),
-          scheduleType: form.scheduleType as "onetime" | "daily" | "weekly",
-          scheduledTime: formattedScheduledTime,
-          scheduledDate: form.scheduledDate,
-          timezone: form.timezone,
+          ...schedule,
           enableSearch: form.enableSearch,
           enabledToolSlugs: form.enabledToolSlugs,
           emailNotifications: form.emailNotifications,
+          steps,
+          ...modelSettings,
+          trigger,
+          retryPolicy: form.retryPolicy,
+          timeoutMinutes: form.timeoutMinutes,
+          ...notificationSettings,
         });
         toast.success("Scheduled task updated successfully");
       } else {
         await createTask({
           title: form.title.trim(),
           prompt: form.prompt.trim(),
-          scheduleType: form.scheduleType as "onetime" | "daily" | "weekly",
-          scheduledTime: formattedScheduledTime,
-          scheduledDate: form.scheduledDate,
-          timezone: form.timezone,
+          ...schedule,
           enableSearch: form.enableSearch,
           enabledToolSlugs: form.enabledToolSlugs,
           emailNotifications: form.emailNotifications,
+          steps,
+          ...modelSettings,
+          trigger,
+          retryPolicy: form.retryPolicy,
+          timeoutMinutes: form.timeoutMinutes,
+          ...notificationSettings,
         });
         toast.success("Scheduled task created successfully");
       }
@@ -189,6 +386,20 @@ export function TaskFormContent({
     );
   };
 
+  // Helper to switch schedule types, starting interval tasks today
+  const handleScheduleTypeChange = (nextType: ScheduleType) => {
+    setForm((prev) => ({
+      ...prev,
+      scheduleType: nextType,
+      scheduledDate:
+        nextType === "interval" && !prev.scheduledDate
+          ? dayjs().format("YYYY-MM-DD")
+          : prev.scheduledDate,
+    }));
+  };
+
+  const usesDailyLimit = DAILY_LIMIT_TYPES.includes(form.scheduleType);
+
   // Check if user has reached limits for current schedule type
   const isLimitReached = () => {
     if (!taskLimits) {
@@ -197,11 +408,14 @@ export function TaskFormContent({
 
     switch (form.scheduleType) {
       case "daily":
-        // Daily tasks are limited by both daily limit AND total limit
+      case "interval":
+      case "cron":
+        // Daily, interval and cron tasks are limited by both daily limit AND total limit
         return (
           taskLimits.daily.remaining <= 0 || taskLimits.total.remaining <= 0
         );
       case "weekly":
+      case "monthly":
         // Weekly tasks are limited by both weekly limit AND total limit
         return (
           taskLimits.weekly.remaining <= 0 || taskLimits.total.remaining <= 0
@@ -259,37 +473,95 @@ export function TaskFormContent({
           <Label>Frequency</Label>
           <Tabs
             onValueChange={(value) =>
-              updateForm(
-                "scheduleType",
-                value as "onetime" | "daily" | "weekly"
-              )
+              handleScheduleTypeChange(value as ScheduleType)
             }
             value={form.scheduleType}
           >
-            <TabsList className="grid w-full grid-cols-3">
+            <TabsList className="grid h-auto w-full grid-cols-4 sm:grid-cols-7">
               <TabsTrigger value="onetime">Once</TabsTrigger>
               <TabsTrigger value="daily">Daily</TabsTrigger>
               <TabsTrigger value="weekly">Weekly</TabsTrigger>
+              <TabsTrigger value="monthly">Monthly</TabsTrigger>
+              <TabsTrigger value="interval">Interval</TabsTrigger>
+              <TabsTrigger value="cron">Cron</TabsTrigger>
+              <TabsTrigger value="event">Event</TabsTrigger>
             </TabsList>
           </Tabs>
         </div>
 
-        {/* Time */}
-        <div className="space-y-2">
-          <Label htmlFor="scheduledTime">On</Label>
-          <TimePicker
-            filterPastTimes={form.scheduleType === "onetime"}
-            name="scheduledTime"
-            onChange={(value: string) => updateForm("scheduledTime", value)}
-            onDateChange={handleDateChange}
-            onDayChange={(day: number) => updateForm("selectedDay", day)}
-            selectedDate={getSelectedDate()}
-            selectedDay={form.selectedDay}
-            showDatePicker={form.scheduleType === "onetime"}
-            showDayPicker={form.scheduleType === "weekly"}
-            value={form.scheduledTime}
+        {/* Time, or the event that starts the agent */}
+        {form.scheduleType === "event" && (
+          <TaskTriggerSettings
+            onChange={(trigger) => updateForm("trigger", trigger)}
+            trigger={form.trigger}
           />
-        </div>
+        )}
+        {form.scheduleType === "cron" && (
+          <div className="space-y-2">
+            <Label htmlFor="cronExpression">Cron expression</Label>
+            <Input
+              className="font-mono"
+              id="cronExpression"
+              onChange={(e) => updateForm("cronExpression", e.target.value)}
+              placeholder={DEFAULT_CRON_EXPRESSION}
+              value={form.cronExpression}
+            />
+            <p className="text-muted-foreground text-xs">
+              minute hour day-of-month month day-of-week, in your timezone. Use
+              1#1 for the first Monday of the month or L for its last day.
+            </p>
+          </div>
+        )}
+        {form.scheduleType !== "event" && form.scheduleType !== "cron" && (
+          <div className="space-y-2">
+            <Label htmlFor="scheduledTime">
+              {form.scheduleType === "interval" ? "Starting" : "On"}
+            </Label>
+            <TimePicker
+              filterPastTimes={form.scheduleType === "onetime"}
+              intervalMinutes={form.intervalMinutes}
+              monthlyRule={form.monthlyRule}
+              name="scheduledTime"
+              onChange={(value: string) => updateForm("scheduledTime", value)}
+              onDateChange={handleDateChange}
+              onDayChange={(day: number) => updateForm("selectedDay", day)}
+              onIntervalChange={(minutes: number) =>
+                updateForm("intervalMinutes", minutes)
+              }
+              onMonthlyRuleChange={(rule) => updateForm("monthlyRule", rule)}
+              selectedDate={getSelectedDate()}
+              selectedDay={form.selectedDay}
+              showDatePicker={
+                form.scheduleType === "onetime" ||
+                form.scheduleType === "interval"
+              }
+              showDayPicker={form.scheduleType === "weekly"}
+              showIntervalPicker={form.scheduleType === "interval"}
+              showMonthlyPicker={form.scheduleType === "monthly"}
+              value={form.scheduledTime}
+            />
+          </div>
+        )}
+
+        {/* Schedule preview */}
+        {form.scheduleType !== "event" && (
+          <div className="space-y-1 rounded-lg bg-muted/40 p-3 text-sm">
+            {scheduleError ? (
+              <p className="text-destructive">{scheduleError}</p>
+            ) : (
+              <>
+                <p className="font-medium">{describeSchedule(schedule)}</p>
+                <ul className="space-y-0.5 text-muted-foreground text-xs">
+                  {upcomingRuns.map((run) => (
+                    <li key={run}>
+                      {formatNextRun(new Date(run), form.timezone)}
+                    </li>
+                  ))}
+                </ul>
+              </>
+            )}
+          </div>
+        )}
 
         {/* Timezone */}
         <div className="space-y-2">
@@ -320,6 +592,51 @@ export function TaskFormContent({
           />
         </div>
 
+        {/* Model and persona */}
+        <TaskModelSettings
+          modelId={form.modelId ?? TASK_MODEL_DEFAULT}
+          onModelChange={(modelId) => updateForm("modelId", modelId)}
+          onPersonaChange={(personaId) => updateForm("personaId", personaId)}
+          onReasoningEffortChange={(reasoningEffort) =>
+            updateForm("reasoningEffort", reasoningEffort)
+          }
+          personaId={form.personaId}
+          reasoningEffort={form.reasoningEffort ?? "low"}
+        />
+
+        {/* Workflow steps */}
+        <TaskStepsEditor
+          onChange={(steps) => updateForm("steps", steps)}
+          steps={form.steps ?? []}
+        />
+
+        {/* Retries and timeout */}
+        <TaskRetrySettings
+          onRetryPolicyChange={(retryPolicy) =>
+            updateForm("retryPolicy", retryPolicy)
+          }
+          onTimeoutChange={(timeoutMinutes) =>
+            updateForm("timeoutMinutes", timeoutMinutes)
+          }
+          retryPolicy={form.retryPolicy ?? DEFAULT_TASK_RETRY_POLICY}
+          timeoutMinutes={form.timeoutMinutes ?? DEFAULT_TASK_TIMEOUT_MINUTES}
+        />
+
+        {/* Notifications */}
+        <TaskNotificationSettings
+          channels={form.notificationChannels ?? []}
+          emailNotifications={Boolean(form.emailNotifications)}
+          onChannelsChange={(channels) =>
+            updateForm("notificationChannels", channels)
+          }
+          onEmailNotificationsChange={(emailNotifications) =>
+            updateForm("emailNotifications", emailNotifications)
+          }
+          onPolicyChange={(policy) => updateForm("notificationPolicy", policy)}
+          policy={form.notificationPolicy ?? DEFAULT_NOTIFICATION_POLICY}
+          taskId={initialData?.taskId}
+        />
+
         {/* Options */}
         <div className="space-y-4">
           <div className="flex items-center space-x-2">
@@ -332,19 +649,6 @@ export function TaskFormContent({
             />
             <Label htmlFor="enableSearch">Enable web search</Label>
           </div>
-
-          <div className="flex items-center space-x-2">
-            <Checkbox
-              checked={form.emailNotifications}
-              id="emailNotifications"
-              onCheckedChange={(checked) =>
-                updateForm("emailNotifications", Boolean(checked))
-              }
-            />
-            <Label htmlFor="emailNotifications">
-              Email notifications enabled
-            </Label>
-          </div>
         </div>
       </div>
 
@@ -355,7 +659,7 @@ export function TaskFormContent({
           <div className="flex items-center gap-3">
             {taskLimits && (
               <>
-                {form.scheduleType === "daily" ? (
+                {usesDailyLimit ? (
                   <ProgressRing
                     color={getDailyTaskColor(taskLimits.daily.remaining)}
                     max={TASK_LIMITS.DAILY_TASKS}
@@ -375,7 +679,7 @@ export function TaskFormContent({
                   />
                 )}
                 <div className="text-muted-foreground text-xs">
-                  {form.scheduleType === "daily"
+                  {usesDailyLimit
                     ? `${Math.max(0, taskLimits.daily.remaining)} task remaining`
                     : `${taskLimits.total.remaining} task remaining`}
                 </div>
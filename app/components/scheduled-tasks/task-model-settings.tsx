@@ -0,0 +1,141 @@
+"use client";
+
+import { convexQuery } from "@convex-dev/react-query";
+import { useQuery as useTanStackQuery } from "@tanstack/react-query";
+import { useEnrichedModels } from "@/app/hooks/use-enriched-models";
+import { useModelSettings } from "@/app/hooks/use-model-settings";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { api } from "@/convex/_generated/api";
+import { supportsReasoningEffort } from "@/lib/model-utils";
+import { PERSONAS } from "@/lib/prompt_config";
+import type { ReasoningEffort } from "@/lib/reasoning-options";
+
+const NO_PERSONA = "none";
+
+type TaskModelSettingsProps = {
+  modelId: string;
+  reasoningEffort: ReasoningEffort;
+  personaId?: string;
+  onModelChange: (modelId: string) => void;
+  onReasoningEffortChange: (reasoningEffort: ReasoningEffort) => void;
+  onPersonaChange: (personaId: string | undefined) => void;
+};
+
+export function TaskModelSettings({
+  modelId,
+  reasoningEffort,
+  personaId,
+  onModelChange,
+  onReasoningEffortChange,
+  onPersonaChange,
+}: TaskModelSettingsProps) {
+  const { categorizedModels } = useEnrichedModels();
+  const { disabledModelsSet } = useModelSettings();
+  const { data: personas = [] } = useTanStackQuery({
+    ...convexQuery(api.personas.listPersonas, {}),
+  });
+
+  // Models turned off in settings stay hidden, except the one already chosen
+  const models = categorizedModels.all.filter(
+    (model) => !disabledModelsSet.has(model.id) || model.id === modelId
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="space-y-2">
+          <Label>Model</Label>
+          <Select onValueChange={onModelChange} value={modelId}>
+            <SelectTrigger className="w-full">
+              <SelectValue placeholder="Select a model" />
+            </SelectTrigger>
+            <SelectContent className="z-[101] max-h-[300px]">
+              {models.map((model) => (
+                <SelectItem
+                  disabled={!model.available}
+                  key={model.id}
+                  value={model.id}
+                >
+                  {model.name}
+                  {!model.available &&
+                    (model.apiKeyUsage.userKeyOnly
+                      ? " (requires API key)"
+                      : " (premium)")}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {supportsReasoningEffort(modelId) && (
+          <div className="space-y-2">
+            <Label>Reasoning effort</Label>
+            <Select
+              onValueChange={(value) =>
+                onReasoningEffortChange(value as ReasoningEffort)
+              }
+              value={reasoningEffort}
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="z-[101]">
+                <SelectItem value="low">Low</SelectItem>
+                <SelectItem value="medium">Medium</SelectItem>
+                <SelectItem value="high">High</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Label>Persona</Label>
+        <Select
+          onValueChange={(value) =>
+            onPersonaChange(value === NO_PERSONA ? undefined : value)
+          }
+          value={personaId ?? NO_PERSONA}
+        >
+          <SelectTrigger className="w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="z-[101] max-h-[300px]">
+            <SelectItem value={NO_PERSONA}>No persona</SelectItem>
+            <SelectGroup>
+              <SelectLabel>Built-in</SelectLabel>
+              {PERSONAS.map((persona) => (
+                <SelectItem key={persona.id} value={persona.id}>
+                  {persona.label}
+                </SelectItem>
+              ))}
+            </SelectGroup>
+            {personas.length > 0 && (
+              <SelectGroup>
+                <SelectLabel>Your personas</SelectLabel>
+                {personas.map((persona) => (
+                  <SelectItem key={persona._id} value={persona._id}>
+                    {persona.name}
+                  </SelectItem>
+                ))}
+              </SelectGroup>
+            )}
+          </SelectContent>
+        </Select>
+        <p className="text-muted-foreground text-xs">
+          The persona sets the agent's voice and limits the connectors it can
+          use.
+        </p>
+      </div>
+    </div>
+  );
+}
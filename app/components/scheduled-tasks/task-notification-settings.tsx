@@ -0,0 +1,217 @@
+"use client";
+
+import { useQuery } from "convex/react";
+import { useUser } from "@/app/providers/user-provider";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { api } from "@/convex/_generated/api";
+import type { Id } from "@/convex/_generated/dataModel";
+import {
+  NOTIFICATION_CHANNEL_LABELS,
+  type NotificationChannel,
+  type NotificationPolicy,
+} from "@/lib/task-notifications";
+
+type WebhookChannel = Extract<NotificationChannel, { type: "webhook" }>;
+type SlackChannel = Extract<NotificationChannel, { type: "slack" }>;
+
+type TaskNotificationSettingsProps = {
+  taskId?: Id<"scheduled_tasks">; // Unset for tasks that are not saved yet
+  emailNotifications: boolean;
+  channels: NotificationChannel[];
+  policy: NotificationPolicy;
+  onEmailNotificationsChange: (emailNotifications: boolean) => void;
+  onChannelsChange: (channels: NotificationChannel[]) => void;
+  onPolicyChange: (policy: NotificationPolicy) => void;
+};
+
+export function TaskNotificationSettings({
+  taskId,
+  emailNotifications,
+  channels,
+  policy,
+  onEmailNotificationsChange,
+  onChannelsChange,
+  onPolicyChange,
+}: TaskNotificationSettingsProps) {
+  const { connectors } = useUser();
+  const isSlackConnected = connectors.some(
+    (connector) => connector.type === "slack" && connector.isConnected
+  );
+  const webhook = channels.find(
+    (channel): channel is WebhookChannel => channel.type === "webhook"
+  );
+  const slack = channels.find(
+    (channel): channel is SlackChannel => channel.type === "slack"
+  );
+  const inApp = channels.some((channel) => channel.type === "in_app");
+  // The server creates the secret when the webhook is first saved
+  const webhookSecret = useQuery(
+    api.scheduled_tasks.getWebhookSecret,
+    taskId ? { taskId } : "skip"
+  );
+
+  // Helper function to add, replace or remove the channel of a type
+  const setChannel = (
+    type: NotificationChannel["type"],
+    channel?: NotificationChannel
+  ) => {
+    const others = channels.filter((c) => c.type !== type);
+    onChannelsChange(channel ? [...others, channel] : others);
+  };
+
+  return (
+    <div className="space-y-3">
+      <Label>Notifications</Label>
+
+      <div className="flex items-center space-x-2">
+        <Checkbox
+          checked={emailNotifications}
+          id="emailNotifications"
+          onCheckedChange={(checked) =>
+            onEmailNotificationsChange(Boolean(checked))
+          }
+        />
+        <Label htmlFor="emailNotifications">
+          {NOTIFICATION_CHANNEL_LABELS.email}
+        </Label>
+      </div>
+
+      <div className="flex items-center space-x-2">
+        <Checkbox
+          checked={inApp}
+          id="inAppNotifications"
+          onCheckedChange={(checked) =>
+            setChannel("in_app", checked ? { type: "in_app" } : undefined)
+          }
+        />
+        <Label htmlFor="inAppNotifications">
+          {NOTIFICATION_CHANNEL_LABELS.in_app}
+        </Label>
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center space-x-2">
+          <Checkbox
+            checked={Boolean(webhook)}
+            id="webhookNotifications"
+            onCheckedChange={(checked) =>
+              setChannel(
+                "webhook",
+                checked ? { type: "webhook", url: "" } : undefined
+              )
+            }
+          />
+          <Label htmlFor="webhookNotifications">
+            {NOTIFICATION_CHANNEL_LABELS.webhook}
+          </Label>
+        </div>
+        {webhook && (
+          <div className="space-y-2 pl-6">
+            <Input
+              aria-label="Webhook URL"
+              onChange={(e) =>
+                setChannel("webhook", { ...webhook, url: e.target.value })
+              }
+              placeholder="https://example.com/hooks/tasks"
+              value={webhook.url}
+            />
+            {webhookSecret ? (
+              <>
+                <Input
+                  aria-label="Signing secret"
+                  className="font-mono text-xs"
+                  readOnly
+                  value={webhookSecret}
+                />
+                <p className="text-muted-foreground text-xs">
+                  Each request is signed with this secret in the
+                  X-OSChat-Signature header.
+                </p>
+              </>
+            ) : (
+              <p className="text-muted-foreground text-xs">
+                Each request is signed in the X-OSChat-Signature header with a
+                secret that is created when you save the agent.
+              </p>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center space-x-2">
+          <Checkbox
+            checked={Boolean(slack)}
+            disabled={!(slack || isSlackConnected)}
+            id="slackNotifications"
+            onCheckedChange={(checked) =>
+              setChannel(
+                "slack",
+                checked ? { type: "slack", channel: "" } : undefined
+              )
+            }
+          />
+          <Label htmlFor="slackNotifications">
+            {NOTIFICATION_CHANNEL_LABELS.slack}
+            {!isSlackConnected && " (connect Slack)"}
+          </Label>
+        </div>
+        {slack && (
+          <Input
+            aria-label="Slack channel"
+            className="ml-6 w-[calc(100%-1.5rem)]"
+            onChange={(e) =>
+              setChannel("slack", { ...slack, channel: e.target.value })
+            }
+            placeholder="#alerts"
+            value={slack.channel}
+          />
+        )}
+      </div>
+
+      <div className="grid gap-2 sm:grid-cols-2">
+        <Select
+          onValueChange={(value) =>
+            onPolicyChange({
+              ...policy,
+              when: value as NotificationPolicy["when"],
+            })
+          }
+          value={policy.when}
+        >
+          <SelectTrigger aria-label="Deliver" className="w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="z-[101]">
+            <SelectItem value="always">Every run</SelectItem>
+            <SelectItem value="failure">Failed runs only</SelectItem>
+            <SelectItem value="match">Results containing text</SelectItem>
+          </SelectContent>
+        </Select>
+        {policy.when === "match" && (
+          <Input
+            aria-label="Results must contain"
+            onChange={(e) =>
+              onPolicyChange({ ...policy, match: e.target.value })
+            }
+            placeholder="e.g. price drop"
+            value={policy.match ?? ""}
+          />
+        )}
+      </div>
+      <p className="text-muted-foreground text-xs">
+        Runs that fail after their last retry always send an email and an in-app
+        notification.
+      </p>
+    </div>
+  );
+}
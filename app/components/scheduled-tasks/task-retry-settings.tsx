@@ -0,0 +1,103 @@
+"use client";
+
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  MAX_TASK_ATTEMPTS,
+  MAX_TASK_TIMEOUT_MINUTES,
+  type TaskRetryPolicy,
+} from "@/lib/task-retry";
+
+const BACKOFF_OPTIONS = [1, 5, 15, 30, 60];
+const TIMEOUT_OPTIONS = [1, 3, 5, MAX_TASK_TIMEOUT_MINUTES];
+
+type TaskRetrySettingsProps = {
+  retryPolicy: TaskRetryPolicy;
+  timeoutMinutes: number;
+  onRetryPolicyChange: (retryPolicy: TaskRetryPolicy) => void;
+  onTimeoutChange: (timeoutMinutes: number) => void;
+};
+
+export function TaskRetrySettings({
+  retryPolicy,
+  timeoutMinutes,
+  onRetryPolicyChange,
+  onTimeoutChange,
+}: TaskRetrySettingsProps) {
+  return (
+    <div className="space-y-2">
+      <Label>Retries & timeout</Label>
+      <div className="grid gap-2 sm:grid-cols-3">
+        <Select
+          onValueChange={(value) =>
+            onRetryPolicyChange({ ...retryPolicy, maxAttempts: Number(value) })
+          }
+          value={String(retryPolicy.maxAttempts)}
+        >
+          <SelectTrigger aria-label="Retries" className="w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="z-[101]">
+            {Array.from({ length: MAX_TASK_ATTEMPTS }, (_, i) => i + 1).map(
+              (attempts) => (
+                <SelectItem key={attempts} value={String(attempts)}>
+                  {attempts === 1
+                    ? "No retries"
+                    : `Retry ${attempts - 1} ${attempts === 2 ? "time" : "times"}`}
+                </SelectItem>
+              )
+            )}
+          </SelectContent>
+        </Select>
+
+        <Select
+          disabled={retryPolicy.maxAttempts === 1}
+          onValueChange={(value) =>
+            onRetryPolicyChange({
+              ...retryPolicy,
+              backoffMinutes: Number(value),
+            })
+          }
+          value={String(retryPolicy.backoffMinutes)}
+        >
+          <SelectTrigger aria-label="First retry after" className="w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="z-[101]">
+            {BACKOFF_OPTIONS.map((minutes) => (
+              <SelectItem key={minutes} value={String(minutes)}>
+                First retry after {minutes} min
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Select
+          onValueChange={(value) => onTimeoutChange(Number(value))}
+          value={String(timeoutMinutes)}
+        >
+          <SelectTrigger aria-label="Timeout" className="w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="z-[101]">
+            {TIMEOUT_OPTIONS.map((minutes) => (
+              <SelectItem key={minutes} value={String(minutes)}>
+                Stop after {minutes} min
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <p className="text-muted-foreground text-xs">
+        Failed runs are retried with a doubling delay. You get an email when a
+        run fails after its last retry.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,187 @@
+"use client";
+
+import { PlusIcon, TrashIcon } from "@phosphor-icons/react";
+import { useUser } from "@/app/providers/user-provider";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { CONNECTOR_CONFIGS } from "@/lib/config/tools";
+import { MAX_TASK_STEPS, type TaskStep } from "@/lib/task-steps";
+
+type ConditionChoice = "always" | "contains" | "not_contains";
+
+type TaskStepsEditorProps = {
+  steps: TaskStep[];
+  onChange: (steps: TaskStep[]) => void;
+};
+
+export function TaskStepsEditor({ steps, onChange }: TaskStepsEditorProps) {
+  const { connectors } = useUser();
+  const connectedConnectors = connectors.filter(
+    (connector) => connector.isConnected
+  );
+
+  const updateStep = (index: number, updates: Partial<TaskStep>) => {
+    onChange(
+      steps.map((step, i) => (i === index ? { ...step, ...updates } : step))
+    );
+  };
+
+  const handleConditionChange = (index: number, choice: ConditionChoice) => {
+    const step = steps[index];
+    updateStep(index, {
+      condition:
+        choice === "always"
+          ? undefined
+          : { operator: choice, value: step.condition?.value ?? "" },
+    });
+  };
+
+  // A step without its own toolkit list may use every connected toolkit
+  const handleToolkitToggle = (
+    index: number,
+    slug: string,
+    checked: boolean
+  ) => {
+    const allSlugs = connectedConnectors.map((c) => c.type.toUpperCase());
+    const current = steps[index].toolkitSlugs ?? allSlugs;
+    const next = checked
+      ? [...current, slug]
+      : current.filter((existing) => existing !== slug);
+    updateStep(index, {
+      toolkitSlugs: next.length === allSlugs.length ? undefined : next,
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <Label>Follow-up steps</Label>
+        <p className="mt-1 text-muted-foreground text-xs">
+          Steps run in order after the instructions above, in the same chat.
+          Each one sees the output of the steps before it.
+        </p>
+      </div>
+
+      {steps.map((step, index) => (
+        <div
+          className="space-y-3 rounded-lg border border-border p-3"
+          // biome-ignore lint/suspicious/noArrayIndexKey: <steps have no stable id while being edited>
+          key={index}
+        >
+          <div className="flex items-center justify-between">
+            <span className="font-medium text-sm">Step {index + 2}</span>
+            <Button
+              aria-label={`Remove step ${index + 2}`}
+              onClick={() => onChange(steps.filter((_, i) => i !== index))}
+              size="icon"
+              type="button"
+              variant="ghost"
+            >
+              <TrashIcon className="h-4 w-4" />
+            </Button>
+          </div>
+
+          <Textarea
+            className="min-h-[80px] resize-none"
+            onChange={(e) => updateStep(index, { prompt: e.target.value })}
+            placeholder="e.g. Draft a short alert listing the urgent emails"
+            value={step.prompt}
+          />
+
+          <div className="flex gap-2">
+            <Select
+              onValueChange={(value) =>
+                handleConditionChange(index, value as ConditionChoice)
+              }
+              value={step.condition?.operator ?? "always"}
+            >
+              <SelectTrigger className="h-9 w-[200px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="z-[101]">
+                <SelectItem value="always">Always run</SelectItem>
+                <SelectItem value="contains">
+                  If previous output contains
+                </SelectItem>
+                <SelectItem value="not_contains">
+                  If previous output lacks
+                </SelectItem>
+              </SelectContent>
+            </Select>
+            {step.condition && (
+              <Input
+                className="h-9 flex-1"
+                onChange={(e) => {
+                  const condition = step.condition;
+                  if (condition) {
+                    updateStep(index, {
+                      condition: { ...condition, value: e.target.value },
+                    });
+                  }
+                }}
+                placeholder="e.g. urgent"
+                value={step.condition.value}
+              />
+            )}
+          </div>
+
+          {connectedConnectors.length > 0 && (
+            <div className="space-y-2">
+              <span className="text-muted-foreground text-xs">
+                Connectors this step can use
+              </span>
+              <div className="flex flex-wrap gap-x-4 gap-y-2">
+                {connectedConnectors.map((connector) => {
+                  const slug = connector.type.toUpperCase();
+                  const id = `step-${index}-${connector.type}`;
+                  return (
+                    <div
+                      className="flex items-center space-x-2"
+                      key={connector.type}
+                    >
+                      <Checkbox
+                        checked={
+                          step.toolkitSlugs === undefined ||
+                          step.toolkitSlugs.includes(slug)
+                        }
+                        id={id}
+                        onCheckedChange={(checked) =>
+                          handleToolkitToggle(index, slug, Boolean(checked))
+                        }
+                      />
+                      <Label className="font-normal text-sm" htmlFor={id}>
+                        {CONNECTOR_CONFIGS[connector.type].displayName}
+                      </Label>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+        </div>
+      ))}
+
+      {steps.length < MAX_TASK_STEPS && (
+        <Button
+          onClick={() => onChange([...steps, { prompt: "" }])}
+          size="sm"
+          type="button"
+          variant="outline"
+        >
+          <PlusIcon className="mr-1 h-4 w-4" />
+          Add step
+        </Button>
+      )}
+    </div>
+  );
+}
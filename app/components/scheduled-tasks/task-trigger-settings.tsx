@@ -0,0 +1,89 @@
+"use client";
+
+import { useUser } from "@/app/providers/user-provider";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { CONNECTOR_CONFIGS } from "@/lib/config/tools";
+import {
+  TASK_TRIGGER_TYPES,
+  TASK_TRIGGERS,
+  type TaskTrigger,
+  type TaskTriggerType,
+} from "@/lib/task-triggers";
+
+type TaskTriggerSettingsProps = {
+  trigger?: TaskTrigger;
+  onChange: (trigger: TaskTrigger) => void;
+};
+
+export function TaskTriggerSettings({
+  trigger,
+  onChange,
+}: TaskTriggerSettingsProps) {
+  const { connectors } = useUser();
+  const connectedTypes = new Set(
+    connectors
+      .filter((connector) => connector.isConnected)
+      .map((connector) => connector.type)
+  );
+  const config = trigger ? TASK_TRIGGERS[trigger.type] : undefined;
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label>Run when</Label>
+        <Select
+          onValueChange={(value) =>
+            // A different event needs a different filter
+            onChange({ type: value as TaskTriggerType })
+          }
+          value={trigger?.type}
+        >
+          <SelectTrigger className="w-full">
+            <SelectValue placeholder="Choose an event" />
+          </SelectTrigger>
+          <SelectContent className="z-[101]">
+            {TASK_TRIGGER_TYPES.map((type) => {
+              const { connector, label } = TASK_TRIGGERS[type];
+              const isConnected = connectedTypes.has(connector);
+              return (
+                <SelectItem disabled={!isConnected} key={type} value={type}>
+                  {label}
+                  {!isConnected &&
+                    ` (connect ${CONNECTOR_CONFIGS[connector].displayName})`}
+                </SelectItem>
+              );
+            })}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {trigger && config && (
+        <div className="space-y-2">
+          <Label htmlFor="triggerFilter">
+            {config.filterLabel}
+            {!config.filterRequired && " (optional)"}
+          </Label>
+          <Input
+            id="triggerFilter"
+            onChange={(e) => onChange({ ...trigger, filter: e.target.value })}
+            placeholder={config.filterPlaceholder}
+            value={trigger.filter ?? ""}
+          />
+        </div>
+      )}
+
+      <p className="text-muted-foreground text-xs">
+        The agent runs once for each new event, with the event's details added
+        to its instructions.
+      </p>
+    </div>
+  );
+}
@@ -22,6 +22,7 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import type { MonthlyRule } from "@/lib/task-schedule";
 import { cn } from "@/lib/utils";
 
 // Pre-generated time options for performance - 144 options (12 hours × 12 five-minute intervals)
@@ -55,6 +56,35 @@ const TIME_OPTIONS = (() => {
   return options;
 })();
 
+// Interval choices in minutes for interval tasks
+const INTERVAL_OPTIONS = [
+  { value: 30, label: "Every 30 minutes" },
+  { value: 60, label: "Every hour" },
+  { value: 120, label: "Every 2 hours" },
+  { value: 180, label: "Every 3 hours" },
+  { value: 240, label: "Every 4 hours" },
+  { value: 360, label: "Every 6 hours" },
+  { value: 480, label: "Every 8 hours" },
+  { value: 720, label: "Every 12 hours" },
+] as const;
+
+// Day of the month or the nth weekday ("w1" is the first, "w-1" the last)
+const MONTHLY_OPTIONS = [
+  ...Array.from({ length: 31 }, (_, i) => ({
+    value: String(i + 1),
+    label: `Day ${i + 1}`,
+  })),
+  { value: "w1", label: "First" },
+  { value: "w2", label: "Second" },
+  { value: "w3", label: "Third" },
+  { value: "w4", label: "Fourth" },
+  { value: "w-1", label: "Last" },
+];
+
+// Helper function to get the monthly select value for a rule
+const getMonthlyOptionValue = (rule: MonthlyRule): string =>
+  rule.type === "day" ? String(rule.day) : `w${rule.week}`;
+
 type TimePickerProps = {
   value: string;
   onChange: (value: string) => void;
@@ -66,6 +96,12 @@ type TimePickerProps = {
   selectedDay?: number;
   onDayChange?: (day: number) => void;
   showDayPicker?: boolean;
+  monthlyRule?: MonthlyRule;
+  onMonthlyRuleChange?: (rule: MonthlyRule) => void;
+  showMonthlyPicker?: boolean;
+  intervalMinutes?: number;
+  onIntervalChange?: (minutes: number) => void;
+  showIntervalPicker?: boolean;
 };
 
 function TimePickerComponent({
@@ -79,6 +115,12 @@ function TimePickerComponent({
   selectedDay = 1,
   onDayChange,
   showDayPicker = false,
+  monthlyRule = { type: "day", day: 1 },
+  onMonthlyRuleChange,
+  showMonthlyPicker = false,
+  intervalMinutes = 240,
+  onIntervalChange,
+  showIntervalPicker = false,
 }: TimePickerProps) {
   const now = new Date();
   const isToday =
@@ -192,9 +234,41 @@ function TimePickerComponent({
     onChange(timeString);
   };
 
+  const handleMonthlyOptionChange = (option: string) => {
+    if (!option.startsWith("w")) {
+      onMonthlyRuleChange?.({ type: "day", day: Number.parseInt(option, 10) });
+      return;
+    }
+    onMonthlyRuleChange?.({
+      type: "weekday",
+      week: Number.parseInt(option.slice(1), 10),
+      weekday: monthlyRule.type === "weekday" ? monthlyRule.weekday : 1,
+    });
+  };
+
   return (
     <>
       <input name={name} type="hidden" value={value} />
+      {/* Interval Picker for Interval Tasks */}
+      {showIntervalPicker && (
+        <Select
+          onValueChange={(minutes) =>
+            onIntervalChange?.(Number.parseInt(minutes, 10))
+          }
+          value={intervalMinutes.toString()}
+        >
+          <SelectTrigger className="h-9 w-full">
+            <SelectValue placeholder="Select interval" />
+          </SelectTrigger>
+          <SelectContent className="z-[101]">
+            {INTERVAL_OPTIONS.map((option) => (
+              <SelectItem key={option.value} value={option.value.toString()}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
       <div className="flex gap-2">
         <Select
           onValueChange={handleHourMinuteChange}
@@ -289,6 +363,52 @@ function TimePickerComponent({
             </Select>
           </div>
         )}
+
+        {/* Day of Month Picker for Monthly Tasks */}
+        {showMonthlyPicker && (
+          <div className="flex flex-1 gap-2">
+            <Select
+              onValueChange={handleMonthlyOptionChange}
+              value={getMonthlyOptionValue(monthlyRule)}
+            >
+              <SelectTrigger className="h-9 flex-1">
+                <SelectValue placeholder="Select day" />
+              </SelectTrigger>
+              <SelectContent className="z-[101] max-h-[200px]">
+                {MONTHLY_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {monthlyRule.type === "weekday" && (
+              <Select
+                onValueChange={(dayValue) =>
+                  onMonthlyRuleChange?.({
+                    ...monthlyRule,
+                    weekday: Number.parseInt(dayValue, 10),
+                  })
+                }
+                value={monthlyRule.weekday.toString()}
+              >
+                <SelectTrigger className="h-9 flex-1">
+                  <SelectValue placeholder="Select day" />
+                </SelectTrigger>
+                <SelectContent className="z-[101]">
+                  {getDayOptions().map((option) => (
+                    <SelectItem
+                      key={option.value}
+                      value={option.value.toString()}
+                    >
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+        )}
       </div>
     </>
   );
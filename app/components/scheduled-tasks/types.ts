@@ -1,20 +1,47 @@
 import type { Doc } from "@/convex/_generated/dataModel";
+import type { ReasoningEffort } from "@/lib/reasoning-options";
+import type {
+  NotificationChannel,
+  NotificationPolicy,
+} from "@/lib/task-notifications";
+import type { TaskRetryPolicy } from "@/lib/task-retry";
+import type { MonthlyRule, ScheduleType } from "@/lib/task-schedule";
+import type { TaskStep } from "@/lib/task-steps";
+import type { TaskTrigger } from "@/lib/task-triggers";
 
-export type ScheduledTask = Doc<"scheduled_tasks">;
+// A task as listScheduledTasks returns it, without webhook secrets
+export type ScheduledTask = Omit<
+  Doc<"scheduled_tasks">,
+  "notificationChannels"
+> & {
+  notificationChannels?: NotificationChannel[];
+};
 
-export type ScheduleType = "onetime" | "daily" | "weekly";
+export type { ScheduleType } from "@/lib/task-schedule";
 
 export type CreateTaskForm = {
   title: string;
   prompt: string;
   scheduleType: ScheduleType;
   scheduledTime: string;
-  scheduledDate?: string; // For onetime tasks
+  scheduledDate?: string; // For onetime tasks, or the start of interval tasks
   selectedDay?: number; // For weekly tasks (0-6, Sunday-Saturday)
+  monthlyRule?: MonthlyRule; // For monthly tasks
+  intervalMinutes?: number; // For interval tasks
+  cronExpression?: string; // For cron tasks
   timezone: string;
   enableSearch?: boolean;
   enabledToolSlugs?: string[];
   emailNotifications?: boolean;
+  steps?: TaskStep[]; // Workflow steps run after the prompt
+  modelId?: string; // Defaults to the task model when unset
+  reasoningEffort?: ReasoningEffort;
+  personaId?: string;
+  trigger?: TaskTrigger; // For event tasks
+  retryPolicy?: TaskRetryPolicy;
+  timeoutMinutes?: number;
+  notificationChannels?: NotificationChannel[];
+  notificationPolicy?: NotificationPolicy;
 };
 
 export type TaskStatus = "active" | "paused" | "archived" | "running";
@@ -0,0 +1,86 @@
+"use client";
+
+import {
+  BookOpenIcon,
+  ListTodoIcon,
+  type LucideIcon,
+  ScanSearchIcon,
+  SearchIcon,
+} from "lucide-react";
+import { memo, useState } from "react";
+import {
+  ChainOfThought,
+  ChainOfThoughtContent,
+  ChainOfThoughtHeader,
+  ChainOfThoughtSearchResult,
+  ChainOfThoughtSearchResults,
+  ChainOfThoughtStep,
+} from "@/components/ai-elements/chain-of-thought";
+import type { ResearchProgress, ResearchStepType } from "@/lib/deep-research";
+
+const STEP_ICONS: Record<ResearchStepType, LucideIcon> = {
+  plan: ListTodoIcon,
+  search: SearchIcon,
+  read: BookOpenIcon,
+  reflect: ScanSearchIcon,
+};
+
+// A progress step with the id of the data part it streamed in
+export type ResearchStep = ResearchProgress & { id: string };
+
+type DeepResearchProgressProps = {
+  steps: ResearchStep[];
+  isRunning: boolean;
+  sourceCount?: number;
+};
+
+// Helper function to get the header status of a research run
+const getStatusText = (isRunning: boolean, sourceCount?: number) => {
+  if (isRunning) {
+    return "Researching";
+  }
+  if (sourceCount === undefined) {
+    return "Stopped";
+  }
+  return `${sourceCount} source${sourceCount === 1 ? "" : "s"}`;
+};
+
+export const DeepResearchProgress = memo(
+  ({ steps, isRunning, sourceCount }: DeepResearchProgressProps) => {
+    // Open while the research runs, unless the user toggled it
+    const [openOverride, setOpenOverride] = useState<boolean>();
+
+    return (
+      <ChainOfThought
+        onOpenChange={setOpenOverride}
+        open={openOverride ?? isRunning}
+      >
+        <ChainOfThoughtHeader status={getStatusText(isRunning, sourceCount)}>
+          Deep research
+        </ChainOfThoughtHeader>
+        <ChainOfThoughtContent autoScrollKey={steps.length}>
+          {steps.map((step) => (
+            <ChainOfThoughtStep
+              icon={STEP_ICONS[step.type]}
+              key={step.id}
+              label={step.label}
+              status={isRunning ? step.status : "complete"}
+            >
+              {step.items && step.items.length > 0 && (
+                <ChainOfThoughtSearchResults className="flex-wrap">
+                  {step.items.map((item) => (
+                    <ChainOfThoughtSearchResult key={item}>
+                      {item}
+                    </ChainOfThoughtSearchResult>
+                  ))}
+                </ChainOfThoughtSearchResults>
+              )}
+            </ChainOfThoughtStep>
+          ))}
+        </ChainOfThoughtContent>
+      </ChainOfThought>
+    );
+  }
+);
+
+DeepResearchProgress.displayName = "DeepResearchProgress";
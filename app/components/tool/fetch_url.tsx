@@ -0,0 +1,112 @@
+"use client";
+
+import { LinkSimple, SpinnerGap, Warning } from "@phosphor-icons/react";
+import { memo } from "react";
+import { cn } from "@/lib/utils";
+
+const WWW_REGEX = /^www\./;
+
+// Output of the fetch_url tool
+export type FetchUrlOutput =
+  | {
+      success: true;
+      url: string;
+      result: { url: string; title: string; description: string };
+      contentType: "html" | "pdf" | "text";
+      truncated: boolean;
+    }
+  | { success: false; url: string; error: string };
+
+type FetchUrlCardProps = {
+  url: string;
+  output?: FetchUrlOutput;
+  isLoading?: boolean;
+  className?: string;
+};
+
+// Helper function to get the display domain of a URL
+const getDomain = (url: string) => {
+  try {
+    return new URL(url).hostname.replace(WWW_REGEX, "");
+  } catch {
+    return url;
+  }
+};
+
+// Helper function to get the status text shown on the right of the card
+const getStatusText = (isLoading: boolean, output?: FetchUrlOutput) => {
+  if (isLoading || !output) {
+    return "Reading page...";
+  }
+  if (!output.success) {
+    return output.error;
+  }
+  const kind = output.contentType === "pdf" ? "PDF" : "Page";
+  return output.truncated ? `${kind} read (truncated)` : `${kind} read`;
+};
+
+export const FetchUrlCard = memo<FetchUrlCardProps>(
+  ({ url, output, isLoading = false, className }) => {
+    const href = output?.success ? output.result.url : url;
+    const domain = getDomain(href);
+    const title = output?.success ? output.result.title : domain;
+    const hasError = output?.success === false;
+
+    return (
+      <div className={cn("my-3 w-full", className)}>
+        <a
+          className="flex h-[2.625rem] min-w-0 flex-row items-center justify-between gap-4 rounded-xl border bg-card px-3 py-2 text-muted-foreground leading-normal tracking-tight shadow-sm transition-colors duration-200 hover:text-foreground"
+          href={href}
+          rel="noopener noreferrer"
+          target="_blank"
+        >
+          <div className="flex min-w-0 flex-row items-center gap-2">
+            <div className="flex h-5 w-5 shrink-0 items-center justify-center">
+              {domain ? (
+                // biome-ignore lint/performance/noImgElement: Favicons should use native img for better caching
+                <img
+                  alt="favicon"
+                  className="rounded-sm"
+                  decoding="async"
+                  height={16}
+                  loading="lazy"
+                  referrerPolicy="no-referrer"
+                  src={`https://www.google.com/s2/favicons?domain=${domain}&sz=32`}
+                  width={16}
+                />
+              ) : (
+                <LinkSimple size={16} />
+              )}
+            </div>
+            <p className="shrink overflow-hidden text-ellipsis whitespace-nowrap text-foreground text-sm">
+              {title}
+            </p>
+            {title !== domain && (
+              <p className="line-clamp-1 shrink-0 text-muted-foreground text-xs">
+                {domain}
+              </p>
+            )}
+          </div>
+          <div
+            className={cn(
+              "flex min-w-0 shrink-0 flex-row items-center gap-1.5 text-sm",
+              hasError && "text-destructive"
+            )}
+          >
+            {isLoading && (
+              <div className="animate-spin">
+                <SpinnerGap size={16} weight="bold" />
+              </div>
+            )}
+            {hasError && <Warning size={16} />}
+            <p className="max-w-[16rem] truncate whitespace-nowrap leading-tight">
+              {getStatusText(isLoading, output)}
+            </p>
+          </div>
+        </a>
+      </div>
+    );
+  }
+);
+
+FetchUrlCard.displayName = "FetchUrlCard";
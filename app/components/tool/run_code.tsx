@@ -0,0 +1,187 @@
+"use client";
+
+import { CaretDown, SpinnerGap, Terminal } from "@phosphor-icons/react";
+import { motion } from "motion/react";
+import { memo, useCallback, useState } from "react";
+import { TRANSITION_LAYOUT } from "@/lib/motion";
+import { cn } from "@/lib/utils";
+
+// Output of the run_code tool
+export type RunCodeOutput =
+  | {
+      success: true;
+      language: "python" | "javascript";
+      stdout: string;
+      stderr: string;
+      exitCode: number | null;
+      timedOut: boolean;
+      artifacts: { name: string; url: string; mediaType: string }[];
+    }
+  | { success: false; error: string };
+
+type RunCodeProps = {
+  language?: string;
+  code?: string;
+  output?: RunCodeOutput;
+  isLoading?: boolean;
+  className?: string;
+};
+
+const LANGUAGE_LABELS: Record<string, string> = {
+  python: "Python",
+  javascript: "JavaScript",
+};
+
+// Helper function to get the status shown on the right of the header
+const getStatusText = (isLoading: boolean, output?: RunCodeOutput) => {
+  if (isLoading || !output) {
+    return "Running";
+  }
+  if (!output.success) {
+    return "Failed";
+  }
+  if (output.timedOut) {
+    return "Timed out";
+  }
+  return output.exitCode === 0 ? "Done" : `Exit code ${output.exitCode}`;
+};
+
+// Helper component for a labelled block of code or program output
+const OutputSection = ({
+  label,
+  content,
+  isError = false,
+}: {
+  label: string;
+  content: string;
+  isError?: boolean;
+}) => (
+  <div className="flex flex-col gap-2 rounded-md bg-muted p-3">
+    <p className="font-medium font-ui text-[0.6875rem] text-muted-foreground tracking-tight">
+      {label}
+    </p>
+    <div className="max-h-48 overflow-auto font-mono text-sm leading-relaxed">
+      <pre className={cn("whitespace-pre-wrap", isError && "text-destructive")}>
+        {content}
+      </pre>
+    </div>
+  </div>
+);
+
+export const RunCode = memo<RunCodeProps>(
+  ({ language, code, output, isLoading = false, className }) => {
+    const [isExpanded, setIsExpanded] = useState(false);
+    const artifacts = output?.success ? output.artifacts : [];
+    const statusText = getStatusText(isLoading, output);
+
+    const handleToggleExpanded = useCallback(() => {
+      setIsExpanded((prev) => !prev);
+    }, []);
+
+    return (
+      <div className={cn("my-3 w-full", className)}>
+        <div className="flex min-h-[2.625rem] flex-col rounded-xl border bg-card font-ui leading-normal tracking-tight shadow-sm transition-all duration-400 ease-out">
+          {/* Toggle Button Header */}
+          <button
+            className="group/row flex h-[2.625rem] cursor-pointer flex-row items-center justify-between gap-4 rounded-xl px-3 py-2 text-muted-foreground transition-colors duration-200 hover:text-foreground"
+            onClick={handleToggleExpanded}
+            type="button"
+          >
+            <div className="flex min-w-0 flex-row items-center gap-2">
+              <div className="flex h-5 w-5 items-center justify-center text-muted-foreground">
+                <Terminal size={16} />
+              </div>
+              <div className="flex-grow overflow-hidden overflow-ellipsis whitespace-nowrap text-left leading-tight">
+                {language && LANGUAGE_LABELS[language]
+                  ? `${LANGUAGE_LABELS[language]} code`
+                  : "Code"}
+              </div>
+            </div>
+            <div className="flex min-w-0 shrink-0 flex-row items-center gap-1.5">
+              {isLoading && (
+                <div className="animate-spin">
+                  <SpinnerGap size={16} weight="bold" />
+                </div>
+              )}
+              <p
+                className={cn(
+                  "shrink-0 whitespace-nowrap text-sm leading-tight",
+                  !(isLoading || statusText === "Done") && "text-destructive"
+                )}
+              >
+                {statusText}
+              </p>
+              <motion.div
+                animate={{ rotate: isExpanded ? -180 : 0 }}
+                className="flex h-4 w-4 items-center justify-center text-muted-foreground"
+                initial={{ rotate: isExpanded ? -180 : 0 }}
+                transition={TRANSITION_LAYOUT}
+              >
+                <CaretDown size={20} />
+              </motion.div>
+            </div>
+          </button>
+
+          {/* Collapsible code and output */}
+          <motion.div
+            animate={{
+              height: isExpanded ? "auto" : 0,
+              opacity: isExpanded ? 1 : 0,
+            }}
+            className="shrink-0 overflow-hidden"
+            initial={{
+              height: isExpanded ? "auto" : 0,
+              opacity: isExpanded ? 1 : 0,
+            }}
+            tabIndex={-1}
+            transition={TRANSITION_LAYOUT}
+          >
+            <div className="flex flex-col gap-3 p-3 pt-1">
+              {code && <OutputSection content={code} label="Code" />}
+              {output?.success && output.stdout && (
+                <OutputSection content={output.stdout} label="Output" />
+              )}
+              {output?.success && output.stderr && (
+                <OutputSection
+                  content={output.stderr}
+                  isError={output.exitCode !== 0}
+                  label="Errors"
+                />
+              )}
+              {output?.success === false && (
+                <OutputSection content={output.error} isError label="Error" />
+              )}
+            </div>
+          </motion.div>
+
+          {/* Charts and other images stay visible below the header */}
+          {artifacts.length > 0 && (
+            <div className="flex flex-wrap gap-2 p-3 pt-0">
+              {artifacts.map((artifact) => (
+                <a
+                  href={artifact.url}
+                  key={artifact.url}
+                  rel="noopener noreferrer"
+                  target="_blank"
+                >
+                  {/* biome-ignore lint/performance/noImgElement: Generated charts are served from storage with their own sizes */}
+                  <img
+                    alt={artifact.name}
+                    className="h-auto max-h-80 w-auto max-w-full rounded-md border bg-white object-contain"
+                    decoding="async"
+                    height={480}
+                    loading="lazy"
+                    src={artifact.url}
+                    width={640}
+                  />
+                </a>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  }
+);
+
+RunCode.displayName = "RunCode";
@@ -24,6 +24,7 @@ type UnifiedSearchProps = {
   sources?: SourceUrlUIPart[];
   className?: string;
   isLoading?: boolean;
+  cached?: boolean; // Results came from the search cache
 };
 
 // Domain-only favicon helper (cache-friendly across app)
@@ -108,7 +109,7 @@ const SearchResultItem = memo<{
 SearchResultItem.displayName = "SearchResultItem";
 
 export const UnifiedSearch = memo<UnifiedSearchProps>(
-  ({ query, sources = [], className, isLoading = false }) => {
+  ({ query, sources = [], className, isLoading = false, cached = false }) => {
     const [isExpanded, setIsExpanded] = useState(false);
 
     // 1) Defer sources so we render fewer frames during streaming
@@ -158,8 +159,9 @@ export const UnifiedSearch = memo<UnifiedSearchProps>(
     }, [isLoading, query]);
 
     const resultText = useMemo(() => {
-      return `${stableSources.length} result${stableSources.length !== 1 ? "s" : ""}`;
-    }, [stableSources.length]);
+      const count = `${stableSources.length} result${stableSources.length !== 1 ? "s" : ""}`;
+      return cached ? `${count} · cached` : count;
+    }, [stableSources.length, cached]);
 
     const buttonClassName = useMemo(() => {
       return cn(
@@ -273,6 +275,7 @@ export const UnifiedSearch = memo<UnifiedSearchProps>(
   (a, b) =>
     a.query === b.query &&
     a.isLoading === b.isLoading &&
+    a.cached === b.cached &&
     a.sources === b.sources &&
     a.className === b.className
 );
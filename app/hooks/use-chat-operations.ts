@@ -1,6 +1,6 @@
 /**
  * Chat Operations Hook
- * Manages chat creation, updates, branching, and deletion operations
+ * Manages chat creation, updates, branching, deletion and message version operations
  */
 
 import { useMutation } from "convex/react";
@@ -19,14 +19,22 @@ export function useChatOperations() {
   const updateChatModel = useMutation(api.chats.updateChatModel);
   const branchChat = useMutation(api.chats.branchChat);
   const deleteMessage = useMutation(api.messages.deleteMessageAndDescendants);
+  const selectCompareWinner = useMutation(api.messages.selectCompareWinner);
+  const selectMessageVersion = useMutation(api.messages.selectMessageVersion);
 
   const handleCreateChat = useCallback(
-    async (title: string, model: string, personaId?: string) => {
+    async (
+      title: string,
+      model: string,
+      personaId?: string,
+      projectId?: Id<"projects">
+    ) => {
       try {
         const result = await createChat({
           title: title.substring(0, 50),
           model,
           personaId,
+          projectId,
         });
         return result.chatId;
       } catch {
@@ -116,10 +124,42 @@ export function useChatOperations() {
     [deleteMessage]
   );
 
+  const handleSelectCompareWinner = useCallback(
+    async (messageId: string) => {
+      try {
+        await selectCompareWinner({
+          messageId: messageId as Id<"messages">,
+        });
+        return true;
+      } catch {
+        toast({ title: "Failed to pick the winning answer", status: "error" });
+        return false;
+      }
+    },
+    [selectCompareWinner]
+  );
+
+  const handleSelectMessageVersion = useCallback(
+    async (messageId: string) => {
+      try {
+        await selectMessageVersion({
+          messageId: messageId as Id<"messages">,
+        });
+        return true;
+      } catch {
+        toast({ title: "Failed to switch message version", status: "error" });
+        return false;
+      }
+    },
+    [selectMessageVersion]
+  );
+
   return {
     handleCreateChat,
     handleModelChange,
     handleBranch,
     handleDeleteMessage,
+    handleSelectCompareWinner,
+    handleSelectMessageVersion,
   };
 }
@@ -8,6 +8,7 @@ import { useUser } from "@/app/providers/user-provider";
 import { toast } from "@/components/ui/toast";
 import type { Doc } from "@/convex/_generated/dataModel";
 import { MODELS_MAP, REMAINING_QUERY_ALERT_THRESHOLD } from "@/lib/config";
+import { isCustomModelId } from "@/lib/custom-models";
 import { validateQueryParam } from "@/lib/message-utils";
 import {
   getModelProvider,
@@ -65,7 +66,7 @@ export function useChatValidation() {
     ) => {
       const model = MODELS_MAP[modelId];
 
-      if (!model) {
+      if (!(model || isCustomModelId(modelId))) {
         toast({ title: "Model not found", status: "error" });
         return false;
       }
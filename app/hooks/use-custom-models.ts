@@ -0,0 +1,43 @@
+"use client";
+
+import { convexQuery } from "@convex-dev/react-query";
+import { useQuery as useTanStackQuery } from "@tanstack/react-query";
+import { useMemo } from "react";
+import { api } from "@/convex/_generated/api";
+import { MODELS_MAP } from "@/lib/config";
+import { buildCustomModel } from "@/lib/custom-models";
+import { useUser } from "../providers/user-provider";
+
+/**
+ * Models from the user's custom OpenAI-compatible endpoints
+ */
+export function useCustomModels() {
+  const { user } = useUser();
+  const { data: endpoints } = useTanStackQuery({
+    ...convexQuery(api.custom_endpoints.listCustomEndpoints, {}),
+    enabled: Boolean(user && !user.isAnonymous),
+  });
+
+  return useMemo(
+    () =>
+      (endpoints ?? []).flatMap((endpoint) =>
+        endpoint.models.map((model) => buildCustomModel(endpoint, model))
+      ),
+    [endpoints]
+  );
+}
+
+/**
+ * Look up a built-in or custom model by id
+ */
+export function useModelById(modelId: string | undefined) {
+  const customModels = useCustomModels();
+  return useMemo(() => {
+    if (!modelId) {
+      return;
+    }
+    return (
+      MODELS_MAP[modelId] ?? customModels.find((model) => model.id === modelId)
+    );
+  }, [modelId, customModels]);
+}
@@ -2,7 +2,9 @@
 
 import { useMemo } from "react";
 import { MODELS_OPTIONS, PROVIDERS_OPTIONS } from "@/lib/config";
+import { getUserKeyProvider } from "@/lib/user-key-models";
 import { useUser } from "../providers/user-provider";
+import { useCustomModels } from "./use-custom-models";
 import { useModelPreferences } from "./use-model-preferences";
 
 export type EnrichedModel = {
@@ -31,6 +33,7 @@ export type EnrichedModel = {
 export function useEnrichedModels() {
   const { hasPremium, apiKeys } = useUser();
   const { favoriteModelsSet } = useModelPreferences();
+  const customModels = useCustomModels();
 
   // Transform API keys array to Map for O(1) lookups
   const apiKeysMap = useMemo(() => {
@@ -38,9 +41,9 @@ export function useEnrichedModels() {
   }, [apiKeys]);
 
   const enrichedModels = useMemo(() => {
-    return MODELS_OPTIONS.map((model): EnrichedModel => {
+    return [...MODELS_OPTIONS, ...customModels].map((model): EnrichedModel => {
       // Compute availability once
-      const userHasKey = apiKeysMap.has(model.provider);
+      const userHasKey = apiKeysMap.has(getUserKeyProvider(model));
       const requiresKey = model.apiKeyUsage?.userKeyOnly ?? false;
       const canUseWithKey = !requiresKey || userHasKey;
       const requiresPremium = model.premium ?? false;
@@ -71,7 +74,7 @@ export function useEnrichedModels() {
         featuresMap,
       };
     });
-  }, [apiKeysMap, hasPremium]);
+  }, [apiKeysMap, hasPremium, customModels]);
 
   // Separate models by category for efficient filtering
   const categorizedModels = useMemo(() => {
@@ -0,0 +1,99 @@
+"use client";
+
+import { ArrowUpRight } from "@phosphor-icons/react";
+import { useMutation } from "convex/react";
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import { useUser } from "@/app/providers/user-provider";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { toast } from "@/components/ui/toast";
+import { api } from "@/convex/_generated/api";
+import type { Id } from "@/convex/_generated/dataModel";
+import { MODELS_MAP } from "@/lib/config";
+import { getPersonaIcon } from "@/lib/prompt_config";
+
+type SharedPersona = {
+  _id: Id<"personas">;
+  name: string;
+  icon: string;
+  prompt: string;
+  defaultModel?: string;
+  defaultReasoningEffort?: "low" | "medium" | "high";
+  defaultEnableSearch?: boolean;
+  defaultConnectors?: string[];
+};
+
+export default function ImportView({ persona }: { persona: SharedPersona }) {
+  const { user } = useUser();
+  const importPersona = useMutation(api.personas.importPersona);
+  const router = useRouter();
+  const [isImporting, setIsImporting] = useState(false);
+
+  const isAuthenticated = Boolean(user && !user.isAnonymous);
+  const Icon = getPersonaIcon(persona.icon);
+
+  const onImport = async () => {
+    if (!isAuthenticated) {
+      router.push("/auth");
+      return;
+    }
+
+    setIsImporting(true);
+    try {
+      await importPersona({ personaId: persona._id });
+      toast({ title: `${persona.name} added to your personas` });
+      router.push("/settings/personas");
+    } catch {
+      toast({
+        title: "Import Failed",
+        description: "This persona is no longer shared.",
+        status: "error",
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <h1 className="flex items-center justify-center gap-3 text-center font-medium text-4xl tracking-tight md:text-5xl">
+        <Icon className="size-9" />
+        {persona.name}
+      </h1>
+      <div className="flex flex-wrap justify-center gap-2">
+        {persona.defaultModel && (
+          <Badge variant="outline">
+            {MODELS_MAP[persona.defaultModel]?.name ?? persona.defaultModel}
+          </Badge>
+        )}
+        {persona.defaultReasoningEffort && (
+          <Badge variant="outline">
+            {persona.defaultReasoningEffort} reasoning
+          </Badge>
+        )}
+        {persona.defaultEnableSearch !== undefined && (
+          <Badge variant="outline">
+            Search {persona.defaultEnableSearch ? "on" : "off"}
+          </Badge>
+        )}
+      </div>
+      <p className="whitespace-pre-wrap rounded-lg border p-4 text-muted-foreground text-sm">
+        {persona.prompt}
+      </p>
+      <div className="flex justify-center">
+        <Button
+          className="group flex h-12 items-center justify-between gap-2 rounded-full py-2 pr-2 pl-4"
+          disabled={isImporting}
+          onClick={onImport}
+          variant="outline"
+        >
+          {isAuthenticated ? "Add to my personas" : "Sign in to import"}
+          <span className="rounded-full bg-black/20 p-2 backdrop-blur-sm transition-colors group-hover:bg-black/30">
+            <ArrowUpRight className="h-4 w-4 text-white" />
+          </span>
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+import { fetchQuery } from "convex/nextjs";
+import type { Metadata } from "next";
+import { redirect } from "next/navigation";
+import { api } from "@/convex/_generated/api";
+import { APP_BASE_URL } from "@/lib/config/constants";
+import ImportView from "./import-view";
+
+export async function generateMetadata({
+  params,
+}: {
+  params: Promise<{ personaId: string }>;
+}): Promise<Metadata> {
+  const { personaId } = await params;
+
+  // Get minimal persona metadata if public
+  let title = "Persona";
+  try {
+    const persona = await fetchQuery(api.personas.getPublicPersona, {
+      personaId,
+    });
+    if (persona) {
+      title = persona.name;
+    }
+  } catch {
+    // ignore
+  }
+
+  const description = "A shared persona";
+
+  return {
+    title,
+    description,
+    openGraph: {
+      title,
+      description,
+      type: "article",
+      url: `${APP_BASE_URL}/personas/${personaId}`,
+    },
+  };
+}
+
+export default async function SharedPersonaPage({
+  params,
+}: {
+  params: Promise<{ personaId: string }>;
+}) {
+  const { personaId } = await params;
+
+  // Verify persona is public
+  const persona = await fetchQuery(api.personas.getPublicPersona, {
+    personaId,
+  });
+  if (!persona) {
+    redirect("/");
+  }
+
+  return (
+    <div className="mx-auto max-w-3xl px-4 pt-20 pb-12 md:pt-24 md:pb-24">
+      <p className="mb-4 text-center text-lg text-muted-foreground">
+        A persona shared from oschat.ai
+      </p>
+      <ImportView persona={persona} />
+    </div>
+  );
+}
@@ -16,6 +16,7 @@ export type ApiKey = {
   messageCount?: number;
   createdAt?: number;
   updatedAt?: number;
+  lastUsedAt?: number;
 };
 
 export type Connector = Doc<"connectors">;
@@ -0,0 +1,248 @@
+"use client";
+
+import { convexQuery } from "@convex-dev/react-query";
+import { CopyIcon, PlusIcon, TrashSimpleIcon } from "@phosphor-icons/react";
+import { useQuery as useTanStackQuery } from "@tanstack/react-query";
+import { useAction, useMutation } from "convex/react";
+import { useState } from "react";
+import { useUser } from "@/app/providers/user-provider";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { toast } from "@/components/ui/toast";
+import { api } from "@/convex/_generated/api";
+import type { Id } from "@/convex/_generated/dataModel";
+import { classifyError } from "@/lib/error-utils";
+
+const EXPIRY_OPTIONS = [
+  { value: "30", label: "30 days" },
+  { value: "90", label: "90 days" },
+  { value: "365", label: "1 year" },
+  { value: "never", label: "Never" },
+] as const;
+
+const SCOPE_LABELS = {
+  completions: "Completions",
+  history: "Save to history",
+} as const;
+
+export default function AccessTokensPage() {
+  const { user } = useUser();
+  const { data: tokens, isLoading } = useTanStackQuery({
+    ...convexQuery(api.access_tokens.listAccessTokens, {}),
+    enabled: Boolean(user && !user.isAnonymous),
+  });
+  const createAccessToken = useAction(api.access_tokens.createAccessToken);
+  const revokeAccessToken = useMutation(api.access_tokens.revokeAccessToken);
+
+  const [name, setName] = useState("");
+  const [allowHistory, setAllowHistory] = useState(false);
+  const [expiry, setExpiry] = useState<string>("90");
+  const [isCreating, setIsCreating] = useState(false);
+  const [createdToken, setCreatedToken] = useState<string | null>(null);
+
+  const handleCreate = async () => {
+    if (!name.trim()) {
+      return;
+    }
+    setIsCreating(true);
+    try {
+      const { token } = await createAccessToken({
+        name,
+        scopes: allowHistory ? ["completions", "history"] : ["completions"],
+        expiresInDays: expiry === "never" ? undefined : Number(expiry),
+      });
+      setCreatedToken(token);
+      setName("");
+      setAllowHistory(false);
+    } catch (error) {
+      toast({
+        title: classifyError(error).userFriendlyMessage,
+        status: "error",
+      });
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleRevoke = async (tokenId: Id<"access_tokens">) => {
+    try {
+      await revokeAccessToken({ tokenId });
+      toast({ title: "Access token revoked", status: "success" });
+    } catch {
+      toast({ title: "Failed to revoke access token", status: "error" });
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!createdToken) {
+      return;
+    }
+    await navigator.clipboard.writeText(createdToken);
+    toast({ title: "Copied to clipboard", status: "success" });
+  };
+
+  return (
+    <div className="w-full">
+      <div className="space-y-6">
+        <h1 className="font-bold text-2xl">Access Tokens</h1>
+        <p className="text-muted-foreground text-xs">
+          Use personal access tokens to call the OpenAI-compatible API at{" "}
+          <code>/api/v1/chat/completions</code> and <code>/api/v1/models</code>{" "}
+          with an <code>Authorization: Bearer</code> header. Requests use your
+          credits and API keys like chats do. Pass <code>store: true</code> to
+          save a conversation to your history.
+        </p>
+
+        <div className="space-y-3 rounded-lg border p-4">
+          <Input
+            maxLength={64}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Token name, e.g. My script"
+            value={name}
+          />
+          <div className="flex flex-wrap items-center gap-4">
+            <div className="flex items-center gap-2">
+              <Checkbox
+                checked={allowHistory}
+                id="token-history"
+                onCheckedChange={(checked) => setAllowHistory(checked === true)}
+              />
+              <Label htmlFor="token-history">Allow saving to history</Label>
+            </div>
+            <Select onValueChange={setExpiry} value={expiry}>
+              <SelectTrigger className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {EXPIRY_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              className="ml-auto"
+              disabled={isCreating || !name.trim()}
+              onClick={handleCreate}
+              size="sm"
+            >
+              <PlusIcon className="size-4" />
+              {isCreating ? "Creating..." : "Create token"}
+            </Button>
+          </div>
+        </div>
+
+        {isLoading && (
+          <div className="space-y-2">
+            <Skeleton className="h-14 w-full" />
+            <Skeleton className="h-14 w-full" />
+          </div>
+        )}
+        {!isLoading && tokens?.length === 0 && (
+          <p className="rounded-lg border border-dashed p-6 text-center text-muted-foreground text-sm">
+            You have no access tokens.
+          </p>
+        )}
+        {tokens && tokens.length > 0 && (
+          <div className="space-y-2">
+            {tokens.map((token) => {
+              const isExpired =
+                token.expiresAt !== undefined && token.expiresAt <= Date.now();
+              return (
+                <div
+                  className="flex items-center justify-between gap-2 rounded-lg border px-4 py-2"
+                  key={token._id}
+                >
+                  <div className="min-w-0 space-y-1">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <p className="font-medium text-sm">{token.name}</p>
+                      <code className="text-muted-foreground text-xs">
+                        {token.prefix}…
+                      </code>
+                      {token.scopes.map((scope) => (
+                        <Badge key={scope} variant="secondary">
+                          {SCOPE_LABELS[scope]}
+                        </Badge>
+                      ))}
+                      {isExpired && (
+                        <Badge variant="destructive">Expired</Badge>
+                      )}
+                    </div>
+                    <p className="text-muted-foreground text-xs">
+                      Created {new Date(token.createdAt).toLocaleDateString()}
+                      {" · "}
+                      {token.lastUsedAt
+                        ? `Last used ${new Date(token.lastUsedAt).toLocaleDateString()}`
+                        : "Never used"}
+                      {" · "}
+                      {token.expiresAt
+                        ? `Expires ${new Date(token.expiresAt).toLocaleDateString()}`
+                        : "No expiry"}
+                    </p>
+                  </div>
+                  <Button
+                    aria-label="Revoke access token"
+                    onClick={() => handleRevoke(token._id)}
+                    size="icon"
+                    variant="ghost"
+                  >
+                    <TrashSimpleIcon size={18} />
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {/* Newly created token, shown once */}
+      <Dialog
+        onOpenChange={(open) => !open && setCreatedToken(null)}
+        open={createdToken !== null}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Access token created</DialogTitle>
+            <DialogDescription>
+              Copy your token now. You will not be able to see it again.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex items-center gap-2">
+            <Input className="font-mono" readOnly value={createdToken ?? ""} />
+            <Button
+              aria-label="Copy access token"
+              onClick={handleCopy}
+              size="icon"
+              variant="outline"
+            >
+              <CopyIcon size={18} />
+            </Button>
+          </div>
+          <DialogFooter>
+            <Button onClick={() => setCreatedToken(null)}>Done</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
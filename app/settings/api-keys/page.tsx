@@ -6,7 +6,7 @@ import {
   TrashSimpleIcon,
   WarningCircleIcon,
 } from "@phosphor-icons/react";
-import { useMutation } from "convex/react";
+import { useAction, useMutation } from "convex/react";
 import { useCallback, useEffect, useState } from "react";
 import { useUser } from "@/app/providers/user-provider";
 import { Badge } from "@/components/ui/badge";
@@ -80,7 +80,9 @@ function ApiKeyInputForm({
   title,
   validationError,
   isValidating,
+  isTesting,
   onSave,
+  onTest,
   onInputChange,
   value,
 }: {
@@ -89,7 +91,9 @@ function ApiKeyInputForm({
   title: string;
   validationError?: string;
   isValidating: boolean;
+  isTesting: boolean;
   onSave: () => void;
+  onTest: () => void;
   onInputChange: (value: string) => void;
   value: string;
 }) {
@@ -136,6 +140,13 @@ function ApiKeyInputForm({
         </p>
       </div>
       <div className="flex w-full justify-end gap-2">
+        <Button
+          disabled={isTesting || !value.trim()}
+          onClick={onTest}
+          variant="outline"
+        >
+          {isTesting ? "Testing..." : "Test"}
+        </Button>
         <Button disabled={isValidating} onClick={onSave}>
           {isValidating ? "Saving..." : "Save"}
         </Button>
@@ -150,27 +161,29 @@ function ProviderCard({
   savedApiKeys,
   validationErrors,
   isValidating,
+  isTesting,
   onSave,
+  onTest,
   onInputChange,
   onDelete,
   onToggle,
   inputValue,
 }: {
   providerConfig: (typeof PROVIDERS)[0];
-  savedApiKeys: Array<{ provider: string; mode?: string }>;
+  savedApiKeys: Array<{ provider: string; mode?: string; lastUsedAt?: number }>;
   validationErrors: Record<string, string>;
   isValidating: Record<string, boolean>;
+  isTesting: Record<string, boolean>;
   onSave: (provider: Provider) => void;
+  onTest: (provider: Provider) => void;
   onInputChange: (provider: Provider, value: string) => void;
   onDelete: (provider: Provider) => void;
   onToggle: (provider: Provider, checked: boolean) => void;
   inputValue: string;
 }) {
-  const hasKey = savedApiKeys.some((k) => k.provider === providerConfig.id);
-  const getMode = () => {
-    const apiKey = savedApiKeys.find((k) => k.provider === providerConfig.id);
-    return (apiKey?.mode || "fallback") === "priority";
-  };
+  const savedKey = savedApiKeys.find((k) => k.provider === providerConfig.id);
+  const hasKey = Boolean(savedKey);
+  const getMode = () => (savedKey?.mode || "fallback") === "priority";
 
   return (
     <div className="space-y-4 rounded-lg border p-4" key={providerConfig.id}>
@@ -209,16 +222,33 @@ function ProviderCard({
         </div>
       </div>
       {hasKey ? (
-        <div className="flex items-center gap-2 text-sm">
-          <CorrectIcon />
-          <span>API key configured</span>
+        <div className="flex items-center justify-between gap-2 text-sm">
+          <div className="flex items-center gap-2">
+            <CorrectIcon />
+            <span>API key configured</span>
+            <span className="text-muted-foreground text-xs">
+              {savedKey?.lastUsedAt
+                ? `Last used ${new Date(savedKey.lastUsedAt).toLocaleDateString()}`
+                : "Never used"}
+            </span>
+          </div>
+          <Button
+            disabled={isTesting[providerConfig.id]}
+            onClick={() => onTest(providerConfig.id)}
+            size="sm"
+            variant="outline"
+          >
+            {isTesting[providerConfig.id] ? "Testing..." : "Test key"}
+          </Button>
         </div>
       ) : (
         <ApiKeyInputForm
           docs={providerConfig.docs}
+          isTesting={isTesting[providerConfig.id]}
           isValidating={isValidating[providerConfig.id]}
           onInputChange={(value) => onInputChange(providerConfig.id, value)}
           onSave={() => onSave(providerConfig.id)}
+          onTest={() => onTest(providerConfig.id)}
           placeholder={providerConfig.placeholder}
           title={providerConfig.title}
           validationError={validationErrors[providerConfig.id]}
@@ -234,6 +264,7 @@ export default function ApiKeysPage() {
   const saveApiKey = useMutation(api.api_keys.saveApiKey);
   const deleteApiKey = useMutation(api.api_keys.deleteApiKey);
   const updateMode = useMutation(api.api_keys.updateApiKeyMode);
+  const testApiKey = useAction(api.api_keys.testApiKey);
 
   // Use controlled inputs with state for better mobile drawer compatibility
   const [inputValues, setInputValues] = useState<Record<string, string>>({});
@@ -241,6 +272,7 @@ export default function ApiKeysPage() {
     Record<string, string>
   >({});
   const [isValidating, setIsValidating] = useState<Record<string, boolean>>({});
+  const [isTesting, setIsTesting] = useState<Record<string, boolean>>({});
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
   const [providerToDelete, setProviderToDelete] = useState<Provider | null>(
     null
@@ -292,6 +324,29 @@ export default function ApiKeysPage() {
     [saveApiKey, inputValues]
   );
 
+  // Test the typed key, or the saved one when nothing is typed
+  const handleTest = useCallback(
+    async (provider: Provider) => {
+      setIsTesting((prev) => ({ ...prev, [provider]: true }));
+      try {
+        const result = await testApiKey({
+          provider,
+          key: inputValues[provider]?.trim() || undefined,
+        });
+        toast(
+          result.success
+            ? { title: "API key works", status: "success" }
+            : { title: result.error ?? "API key test failed", status: "error" }
+        );
+      } catch {
+        toast({ title: "Failed to test key", status: "error" });
+      } finally {
+        setIsTesting((prev) => ({ ...prev, [provider]: false }));
+      }
+    },
+    [testApiKey, inputValues]
+  );
+
   const handleInputChange = useCallback(
     (provider: Provider, value: string) => {
       // Update input value
@@ -365,8 +420,9 @@ export default function ApiKeysPage() {
         <h1 className="font-bold text-2xl">API Keys</h1>
         <div className="space-y-2">
           <p className="text-muted-foreground text-xs">
-            Bring your own API keys for select models. Messages sent using your
-            API keys will not count towards your monthly limits.
+            Bring your own API keys for any provider below. Messages sent using
+            your API keys call the provider directly and will not count towards
+            your monthly limits.
           </p>
           <p className="text-muted-foreground text-xs">
             Note: For optional API key models, you can choose Priority (always
@@ -377,11 +433,13 @@ export default function ApiKeysPage() {
         {PROVIDERS.map((providerConfig) => (
           <ProviderCard
             inputValue={inputValues[providerConfig.id] || ""}
+            isTesting={isTesting}
             isValidating={isValidating}
             key={providerConfig.id}
             onDelete={handleDelete}
             onInputChange={handleInputChange}
             onSave={handleSave}
+            onTest={handleTest}
             onToggle={handleToggle}
             providerConfig={providerConfig}
             savedApiKeys={apiKeys}
@@ -23,6 +23,13 @@ import { toast } from "@/components/ui/toast";
 import { api } from "@/convex/_generated/api";
 import type { Id } from "@/convex/_generated/dataModel";
 
+// Search indexing progress of uploaded documents
+const INDEX_STATUS_LABELS = {
+  pending: "Indexing for search...",
+  indexed: "Searchable",
+  failed: "Indexing failed",
+} as const;
+
 function formatBytes(bytes: number) {
   if (bytes === 0) {
     return "0 B";
@@ -227,6 +234,8 @@ export default function AttachmentsPage() {
                       <span className="text-muted-foreground text-sm">
                         {att.fileType ?? "file"} •{" "}
                         {formatBytes(att.fileSize ?? 0)}
+                        {att.indexStatus &&
+                          ` • ${INDEX_STATUS_LABELS[att.indexStatus]}`}
                       </span>
                     </div>
                     <Button
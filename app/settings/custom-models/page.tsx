@@ -0,0 +1,372 @@
+"use client";
+
+import { convexQuery } from "@convex-dev/react-query";
+import {
+  PencilSimpleIcon,
+  PlusIcon,
+  TrashSimpleIcon,
+  XIcon,
+} from "@phosphor-icons/react";
+import { useQuery as useTanStackQuery } from "@tanstack/react-query";
+import { useMutation } from "convex/react";
+import { useState } from "react";
+import { useUser } from "@/app/providers/user-provider";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { toast } from "@/components/ui/toast";
+import { api } from "@/convex/_generated/api";
+import type { Id } from "@/convex/_generated/dataModel";
+import type { CustomEndpointModel } from "@/lib/custom-models";
+import { classifyError } from "@/lib/error-utils";
+
+type EndpointForm = {
+  endpointId?: Id<"custom_endpoints">;
+  name: string;
+  baseUrl: string;
+  apiKey: string;
+  hasKey: boolean;
+  removeKey: boolean;
+  models: CustomEndpointModel[];
+};
+
+const MODEL_CAPABILITIES = [
+  { key: "toolCalling", label: "Tools" },
+  { key: "vision", label: "Vision" },
+  { key: "reasoning", label: "Reasoning" },
+] as const;
+
+const emptyModel = (): CustomEndpointModel => ({
+  modelId: "",
+  name: "",
+  toolCalling: false,
+  vision: false,
+  reasoning: false,
+});
+
+const emptyForm = (): EndpointForm => ({
+  name: "",
+  baseUrl: "",
+  apiKey: "",
+  hasKey: false,
+  removeKey: false,
+  models: [emptyModel()],
+});
+
+// Helper function to decide what to send for the endpoint key
+function getApiKeyUpdate(form: EndpointForm): string | undefined {
+  if (form.apiKey.trim()) {
+    return form.apiKey;
+  }
+  // An empty key removes the saved one; omitting it keeps it
+  return form.removeKey ? "" : undefined;
+}
+
+export default function CustomModelsPage() {
+  const { user } = useUser();
+  const { data: endpoints, isLoading } = useTanStackQuery({
+    ...convexQuery(api.custom_endpoints.listCustomEndpoints, {}),
+    enabled: Boolean(user && !user.isAnonymous),
+  });
+  const saveCustomEndpoint = useMutation(
+    api.custom_endpoints.saveCustomEndpoint
+  );
+  const deleteCustomEndpoint = useMutation(
+    api.custom_endpoints.deleteCustomEndpoint
+  );
+
+  const [form, setForm] = useState<EndpointForm | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const updateModel = (index: number, patch: Partial<CustomEndpointModel>) => {
+    setForm((current) =>
+      current
+        ? {
+            ...current,
+            models: current.models.map((model, i) =>
+              i === index ? { ...model, ...patch } : model
+            ),
+          }
+        : current
+    );
+  };
+
+  const handleSave = async () => {
+    if (!form) {
+      return;
+    }
+    setIsSaving(true);
+    try {
+      await saveCustomEndpoint({
+        endpointId: form.endpointId,
+        name: form.name,
+        baseUrl: form.baseUrl,
+        apiKey: getApiKeyUpdate(form),
+        models: form.models.map((model) => ({
+          ...model,
+          name: model.name || undefined,
+        })),
+      });
+      toast({ title: "Endpoint saved", status: "success" });
+      setForm(null);
+    } catch (error) {
+      toast({
+        title: classifyError(error).userFriendlyMessage,
+        status: "error",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (endpointId: Id<"custom_endpoints">) => {
+    try {
+      await deleteCustomEndpoint({ endpointId });
+      toast({ title: "Endpoint deleted", status: "success" });
+    } catch {
+      toast({ title: "Failed to delete endpoint", status: "error" });
+    }
+  };
+
+  const canSave =
+    form?.name.trim() &&
+    form.baseUrl.trim() &&
+    form.models.some((model) => model.modelId.trim());
+
+  return (
+    <div className="w-full">
+      <div className="space-y-6">
+        <div className="flex items-center justify-between gap-4">
+          <h1 className="font-bold text-2xl">Custom Models</h1>
+          <Button onClick={() => setForm(emptyForm())} size="sm">
+            <PlusIcon className="size-4" />
+            Add endpoint
+          </Button>
+        </div>
+        <p className="text-muted-foreground text-xs">
+          Connect OpenAI-compatible servers such as Ollama, vLLM or LM Studio.
+          Their models appear in the model selector and never use your credits.
+          The base URL must be reachable from the OS Chat server, e.g.{" "}
+          <code>http://localhost:11434/v1</code> for a local Ollama. Local and
+          private addresses only work when the server sets{" "}
+          <code>ALLOW_PRIVATE_CUSTOM_ENDPOINTS</code>.
+        </p>
+
+        {isLoading && (
+          <div className="space-y-2">
+            <Skeleton className="h-16 w-full" />
+            <Skeleton className="h-16 w-full" />
+          </div>
+        )}
+        {!isLoading && endpoints?.length === 0 && (
+          <p className="rounded-lg border border-dashed p-6 text-center text-muted-foreground text-sm">
+            You have no custom endpoints.
+          </p>
+        )}
+        {endpoints && endpoints.length > 0 && (
+          <div className="space-y-2">
+            {endpoints.map((endpoint) => (
+              <div
+                className="flex items-start justify-between gap-2 rounded-lg border px-4 py-3"
+                key={endpoint._id}
+              >
+                <div className="min-w-0 space-y-1">
+                  <p className="font-medium text-sm">{endpoint.name}</p>
+                  <p className="truncate text-muted-foreground text-xs">
+                    {endpoint.baseUrl}
+                    {endpoint.hasKey ? " · API key saved" : ""}
+                  </p>
+                  <div className="flex flex-wrap gap-1">
+                    {endpoint.models.map((model) => (
+                      <Badge key={model.modelId} variant="secondary">
+                        {model.name || model.modelId}
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+                <div className="flex shrink-0 items-center">
+                  <Button
+                    aria-label="Edit endpoint"
+                    onClick={() =>
+                      setForm({
+                        endpointId: endpoint._id,
+                        name: endpoint.name,
+                        baseUrl: endpoint.baseUrl,
+                        apiKey: "",
+                        hasKey: endpoint.hasKey,
+                        removeKey: false,
+                        models: endpoint.models,
+                      })
+                    }
+                    size="icon"
+                    variant="ghost"
+                  >
+                    <PencilSimpleIcon size={18} />
+                  </Button>
+                  <Button
+                    aria-label="Delete endpoint"
+                    onClick={() => handleDelete(endpoint._id)}
+                    size="icon"
+                    variant="ghost"
+                  >
+                    <TrashSimpleIcon size={18} />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Add or edit endpoint dialog */}
+      <Dialog
+        onOpenChange={(open) => !(open || isSaving) && setForm(null)}
+        open={form !== null}
+      >
+        <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-xl">
+          <DialogHeader>
+            <DialogTitle>
+              {form?.endpointId ? "Edit endpoint" : "Add endpoint"}
+            </DialogTitle>
+            <DialogDescription>
+              Declare what each model supports so OS Chat only offers tools and
+              uploads it can handle.
+            </DialogDescription>
+          </DialogHeader>
+          {form && (
+            <div className="space-y-3">
+              <Input
+                maxLength={64}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="Name, e.g. Home Ollama"
+                value={form.name}
+              />
+              <Input
+                onChange={(e) => setForm({ ...form, baseUrl: e.target.value })}
+                placeholder="Base URL, e.g. http://localhost:11434/v1"
+                value={form.baseUrl}
+              />
+              <Input
+                onChange={(e) => setForm({ ...form, apiKey: e.target.value })}
+                placeholder={
+                  form.hasKey
+                    ? "Leave blank to keep the saved key"
+                    : "API key (optional)"
+                }
+                type="password"
+                value={form.apiKey}
+              />
+              {form.hasKey && (
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    checked={form.removeKey}
+                    id="remove-endpoint-key"
+                    onCheckedChange={(checked) =>
+                      setForm({ ...form, removeKey: checked === true })
+                    }
+                  />
+                  <Label htmlFor="remove-endpoint-key">
+                    Remove the saved key
+                  </Label>
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <p className="font-medium text-sm">Models</p>
+                {form.models.map((model, index) => (
+                  <div
+                    className="space-y-2 rounded-lg border p-3"
+                    // biome-ignore lint/suspicious/noArrayIndexKey: <rows have no stable id while being edited>
+                    key={index}
+                  >
+                    <div className="flex gap-2">
+                      <Input
+                        onChange={(e) =>
+                          updateModel(index, { modelId: e.target.value })
+                        }
+                        placeholder="Model id, e.g. llama3.1:8b"
+                        value={model.modelId}
+                      />
+                      <Input
+                        onChange={(e) =>
+                          updateModel(index, { name: e.target.value })
+                        }
+                        placeholder="Display name"
+                        value={model.name ?? ""}
+                      />
+                      <Button
+                        aria-label="Remove model"
+                        disabled={form.models.length === 1}
+                        onClick={() =>
+                          setForm({
+                            ...form,
+                            models: form.models.filter((_, i) => i !== index),
+                          })
+                        }
+                        size="icon"
+                        variant="ghost"
+                      >
+                        <XIcon size={16} />
+                      </Button>
+                    </div>
+                    <div className="flex flex-wrap gap-4">
+                      {MODEL_CAPABILITIES.map((capability) => {
+                        const id = `model-${index}-${capability.key}`;
+                        return (
+                          <div
+                            className="flex items-center gap-2"
+                            key={capability.key}
+                          >
+                            <Checkbox
+                              checked={model[capability.key]}
+                              id={id}
+                              onCheckedChange={(checked) =>
+                                updateModel(index, {
+                                  [capability.key]: checked === true,
+                                })
+                              }
+                            />
+                            <Label htmlFor={id}>{capability.label}</Label>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  </div>
+                ))}
+                <Button
+                  onClick={() =>
+                    setForm({ ...form, models: [...form.models, emptyModel()] })
+                  }
+                  size="sm"
+                  variant="outline"
+                >
+                  <PlusIcon className="size-4" />
+                  Add model
+                </Button>
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button onClick={() => setForm(null)} variant="outline">
+              Cancel
+            </Button>
+            <Button disabled={isSaving || !canSave} onClick={handleSave}>
+              {isSaving ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,213 @@
+"use client";
+
+import { convexQuery } from "@convex-dev/react-query";
+import { PlusIcon, TrashSimpleIcon } from "@phosphor-icons/react";
+import { useQuery as useTanStackQuery } from "@tanstack/react-query";
+import { useMutation } from "convex/react";
+import { useState } from "react";
+import { useUser } from "@/app/providers/user-provider";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Switch } from "@/components/ui/switch";
+import { toast } from "@/components/ui/toast";
+import { api } from "@/convex/_generated/api";
+import type { Id } from "@/convex/_generated/dataModel";
+import { classifyError } from "@/lib/error-utils";
+
+export default function MemoryPage() {
+  const { user, updateUser } = useUser();
+  const isEnabled = user?.memoryEnabled ?? false;
+  const { data: memories, isLoading } = useTanStackQuery({
+    ...convexQuery(api.memories.listMemories, {}),
+    enabled: Boolean(user && !user.isAnonymous),
+  });
+  const createMemory = useMutation(api.memories.createMemory);
+  const deleteMemory = useMutation(api.memories.deleteMemory);
+  const deleteAllMemories = useMutation(api.memories.deleteAllMemories);
+
+  const [newMemory, setNewMemory] = useState("");
+  const [isAdding, setIsAdding] = useState(false);
+  const [isClearOpen, setIsClearOpen] = useState(false);
+  const [isClearing, setIsClearing] = useState(false);
+
+  const handleToggle = async (checked: boolean) => {
+    try {
+      await updateUser({ memoryEnabled: checked });
+    } catch {
+      toast({ title: "Failed to update memory setting", status: "error" });
+    }
+  };
+
+  const handleAdd = async () => {
+    if (!newMemory.trim()) {
+      return;
+    }
+    setIsAdding(true);
+    try {
+      await createMemory({ content: newMemory });
+      setNewMemory("");
+    } catch (error) {
+      toast({
+        title: classifyError(error).userFriendlyMessage,
+        status: "error",
+      });
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const handleDelete = async (memoryId: Id<"memories">) => {
+    try {
+      await deleteMemory({ memoryId });
+    } catch {
+      toast({ title: "Failed to delete memory", status: "error" });
+    }
+  };
+
+  const handleClearOpenChange = (open: boolean) => {
+    // Prevent closing dialog while delete is in progress
+    if (!open && isClearing) {
+      return;
+    }
+    setIsClearOpen(open);
+  };
+
+  const confirmClear = async () => {
+    setIsClearing(true);
+    try {
+      await deleteAllMemories({});
+      toast({ title: "All memories deleted", status: "success" });
+    } catch {
+      toast({ title: "Failed to delete memories", status: "error" });
+    } finally {
+      setIsClearing(false);
+      setIsClearOpen(false);
+    }
+  };
+
+  return (
+    <div className="w-full">
+      <div className="space-y-6">
+        <div className="flex items-center justify-between gap-4">
+          <h1 className="font-bold text-2xl">Memory</h1>
+          <Switch
+            aria-label="Enable memory"
+            checked={isEnabled}
+            onCheckedChange={handleToggle}
+          />
+        </div>
+        <p className="text-muted-foreground text-xs">
+          When memory is on, the assistant saves lasting facts and preferences
+          you share and uses them in future chats. Memories are never included
+          in shared chats. Turning memory off keeps your saved memories but
+          stops the assistant from reading or adding to them.
+        </p>
+
+        {isEnabled && (
+          <div className="flex gap-2">
+            <Input
+              maxLength={500}
+              onChange={(e) => setNewMemory(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") {
+                  e.preventDefault();
+                  handleAdd();
+                }
+              }}
+              placeholder="Add something for the assistant to remember"
+              value={newMemory}
+            />
+            <Button
+              disabled={isAdding || !newMemory.trim()}
+              onClick={handleAdd}
+              size="sm"
+            >
+              <PlusIcon className="size-4" />
+              Add
+            </Button>
+          </div>
+        )}
+
+        {isLoading && (
+          <div className="space-y-2">
+            <Skeleton className="h-12 w-full" />
+            <Skeleton className="h-12 w-full" />
+          </div>
+        )}
+        {!isLoading && memories?.length === 0 && (
+          <p className="rounded-lg border border-dashed p-6 text-center text-muted-foreground text-sm">
+            The assistant has not saved any memories yet.
+          </p>
+        )}
+        {memories && memories.length > 0 && (
+          <div className="space-y-2">
+            {memories.map((memory) => (
+              <div
+                className="flex items-center justify-between gap-2 rounded-lg border px-4 py-2"
+                key={memory._id}
+              >
+                <div className="min-w-0">
+                  <p className="text-sm">{memory.content}</p>
+                  <p className="text-muted-foreground text-xs">
+                    {new Date(memory.createdAt).toLocaleDateString()}
+                  </p>
+                </div>
+                <Button
+                  aria-label="Delete memory"
+                  onClick={() => handleDelete(memory._id)}
+                  size="icon"
+                  variant="ghost"
+                >
+                  <TrashSimpleIcon size={18} />
+                </Button>
+              </div>
+            ))}
+            <div className="flex justify-end">
+              <Button
+                onClick={() => setIsClearOpen(true)}
+                size="sm"
+                variant="outline"
+              >
+                Delete all memories
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Delete all confirmation dialog */}
+      <Dialog onOpenChange={handleClearOpenChange} open={isClearOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete all memories?</DialogTitle>
+            <DialogDescription>
+              This action cannot be undone. The assistant will forget everything
+              it has saved about you.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button onClick={() => setIsClearOpen(false)} variant="outline">
+              Cancel
+            </Button>
+            <Button
+              disabled={isClearing}
+              onClick={confirmClear}
+              variant="destructive"
+            >
+              {isClearing ? "Deleting..." : "Delete all"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
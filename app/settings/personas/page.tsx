@@ -0,0 +1,593 @@
+"use client";
+
+import { convexQuery } from "@convex-dev/react-query";
+import {
+  CheckIcon,
+  LinkIcon,
+  PencilSimpleIcon,
+  PlusIcon,
+  TrashSimpleIcon,
+} from "@phosphor-icons/react";
+import { useQuery as useTanStackQuery } from "@tanstack/react-query";
+import { useMutation } from "convex/react";
+import { useCallback, useState } from "react";
+import { useUser } from "@/app/providers/user-provider";
+import { ModelSelector } from "@/components/common/model-selector";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "@/components/ui/toast";
+import { api } from "@/convex/_generated/api";
+import type { Doc, Id } from "@/convex/_generated/dataModel";
+import { APP_BASE_URL, MODEL_DEFAULT, MODELS_MAP } from "@/lib/config";
+import { getConnectorConfig } from "@/lib/config/tools";
+import {
+  DEFAULT_PERSONA_ICON,
+  getPersonaIcon,
+  PERSONA_ICONS,
+  type PersonaIconName,
+} from "@/lib/prompt_config";
+import type { ConnectorType } from "@/lib/types";
+import { cn } from "@/lib/utils";
+
+type Persona = Doc<"personas">;
+
+type ReasoningEffort = "low" | "medium" | "high";
+
+type PersonaForm = {
+  name: string;
+  icon: string;
+  prompt: string;
+  defaultModel?: string;
+  defaultReasoningEffort?: ReasoningEffort;
+  defaultEnableSearch?: boolean;
+  defaultConnectors?: string[];
+};
+
+// "Keep" leaves the current chat setting untouched
+const KEEP = "keep";
+
+const EMPTY_FORM: PersonaForm = {
+  name: "",
+  icon: DEFAULT_PERSONA_ICON,
+  prompt: "",
+};
+
+// Helper function to build the public import link of a persona
+const getPersonaLink = (personaId: Id<"personas">) =>
+  `${APP_BASE_URL}/personas/${personaId}`;
+
+// Helper function to turn a stored persona into editable form state
+const getFormState = (persona?: Persona): PersonaForm =>
+  persona
+    ? {
+        name: persona.name,
+        icon: persona.icon,
+        prompt: persona.prompt,
+        defaultModel: persona.defaultModel,
+        defaultReasoningEffort: persona.defaultReasoningEffort,
+        defaultEnableSearch: persona.defaultEnableSearch,
+        defaultConnectors: persona.defaultConnectors,
+      }
+    : EMPTY_FORM;
+
+// Helper component for the create/edit dialog
+function PersonaFormDialog({
+  open,
+  persona,
+  onOpenChange,
+}: {
+  open: boolean;
+  persona?: Persona;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { connectors } = useUser();
+  const createPersona = useMutation(api.personas.createPersona);
+  const updatePersona = useMutation(api.personas.updatePersona);
+  const [form, setForm] = useState<PersonaForm>(() => getFormState(persona));
+  const [isSaving, setIsSaving] = useState(false);
+
+  const connectedTypes = connectors
+    .filter((connector) => connector.isConnected)
+    .map((connector) => connector.type);
+
+  const updateForm = <K extends keyof PersonaForm>(
+    key: K,
+    value: PersonaForm[K]
+  ) => {
+    setForm((prev) => ({ ...prev, [key]: value }));
+  };
+
+  const toggleConnector = (type: ConnectorType, checked: boolean) => {
+    const current = form.defaultConnectors ?? [];
+    updateForm(
+      "defaultConnectors",
+      checked ? [...current, type] : current.filter((t) => t !== type)
+    );
+  };
+
+  const handleSave = async () => {
+    if (!(form.name.trim() && form.prompt.trim())) {
+      toast({ title: "Name and prompt are required", status: "error" });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      if (persona) {
+        await updatePersona({ personaId: persona._id, ...form });
+        toast({ title: "Persona updated", status: "success" });
+      } else {
+        await createPersona(form);
+        toast({ title: "Persona created", status: "success" });
+      }
+      onOpenChange(false);
+    } catch {
+      toast({ title: "Failed to save persona", status: "error" });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  let searchValue = KEEP;
+  if (form.defaultEnableSearch !== undefined) {
+    searchValue = form.defaultEnableSearch ? "on" : "off";
+  }
+
+  return (
+    <Dialog onOpenChange={onOpenChange} open={open}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle>{persona ? "Edit persona" : "New persona"}</DialogTitle>
+          <DialogDescription>
+            Personas set the system prompt and default settings of new chats.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <div className="space-y-2">
+            <Label htmlFor="persona-name">Name</Label>
+            <Input
+              id="persona-name"
+              maxLength={50}
+              onChange={(e) => updateForm("name", e.target.value)}
+              placeholder="Travel Planner"
+              value={form.name}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Icon</Label>
+            <div className="flex flex-wrap gap-2">
+              {(Object.keys(PERSONA_ICONS) as PersonaIconName[]).map((name) => {
+                const Icon = PERSONA_ICONS[name];
+                return (
+                  <Button
+                    aria-label={name}
+                    className={cn(
+                      "size-9 rounded-full",
+                      form.icon === name &&
+                        "bg-primary text-primary-foreground hover:bg-primary/90 hover:text-primary-foreground"
+                    )}
+                    key={name}
+                    onClick={() => updateForm("icon", name)}
+                    size="icon"
+                    type="button"
+                    variant="outline"
+                  >
+                    <Icon className="size-4" />
+                  </Button>
+                );
+              })}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="persona-prompt">System prompt</Label>
+            <Textarea
+              className="max-h-64 min-h-32"
+              id="persona-prompt"
+              maxLength={10_000}
+              onChange={(e) => updateForm("prompt", e.target.value)}
+              placeholder="You're a seasoned traveler who plans practical itineraries..."
+              value={form.prompt}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Default model</Label>
+            <div className="flex items-center gap-2">
+              {form.defaultModel ? (
+                <>
+                  <ModelSelector
+                    className="rounded-full"
+                    selectedModelId={form.defaultModel}
+                    setSelectedModelId={(modelId) =>
+                      updateForm("defaultModel", modelId)
+                    }
+                  />
+                  <Button
+                    onClick={() => updateForm("defaultModel", undefined)}
+                    size="sm"
+                    type="button"
+                    variant="ghost"
+                  >
+                    Clear
+                  </Button>
+                </>
+              ) : (
+                <Button
+                  onClick={() => updateForm("defaultModel", MODEL_DEFAULT)}
+                  size="sm"
+                  type="button"
+                  variant="outline"
+                >
+                  Set a default model
+                </Button>
+              )}
+            </div>
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label>Reasoning effort</Label>
+              <Select
+                onValueChange={(value) =>
+                  updateForm(
+                    "defaultReasoningEffort",
+                    value === KEEP ? undefined : (value as ReasoningEffort)
+                  )
+                }
+                value={form.defaultReasoningEffort ?? KEEP}
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={KEEP}>Keep current</SelectItem>
+                  <SelectItem value="low">Low</SelectItem>
+                  <SelectItem value="medium">Medium</SelectItem>
+                  <SelectItem value="high">High</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Web search</Label>
+              <Select
+                onValueChange={(value) =>
+                  updateForm(
+                    "defaultEnableSearch",
+                    value === KEEP ? undefined : value === "on"
+                  )
+                }
+                value={searchValue}
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={KEEP}>Keep current</SelectItem>
+                  <SelectItem value="on">On</SelectItem>
+                  <SelectItem value="off">Off</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <Label htmlFor="persona-limit-connectors">
+                  Limit connectors
+                </Label>
+                <p className="text-muted-foreground text-xs">
+                  Only let this persona use the selected connectors.
+                </p>
+              </div>
+              <Switch
+                checked={form.defaultConnectors !== undefined}
+                id="persona-limit-connectors"
+                onCheckedChange={(checked) =>
+                  updateForm("defaultConnectors", checked ? [] : undefined)
+                }
+              />
+            </div>
+            {form.defaultConnectors !== undefined &&
+              (connectedTypes.length > 0 ? (
+                <div className="grid gap-2 sm:grid-cols-2">
+                  {connectedTypes.map((type) => (
+                    <Label
+                      className="flex items-center gap-2 font-normal"
+                      key={type}
+                    >
+                      <Checkbox
+                        checked={form.defaultConnectors?.includes(type)}
+                        onCheckedChange={(checked) =>
+                          toggleConnector(type, checked === true)
+                        }
+                      />
+                      {getConnectorConfig(type).displayName}
+                    </Label>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-muted-foreground text-xs">
+                  No connectors are connected yet.
+                </p>
+              ))}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button
+            onClick={() => onOpenChange(false)}
+            type="button"
+            variant="outline"
+          >
+            Cancel
+          </Button>
+          <Button disabled={isSaving} onClick={handleSave} type="button">
+            {isSaving ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Helper component for a persona in the library
+function PersonaCard({
+  persona,
+  onEdit,
+  onDelete,
+}: {
+  persona: Persona;
+  onEdit: (persona: Persona) => void;
+  onDelete: (persona: Persona) => void;
+}) {
+  const setPersonaPublic = useMutation(api.personas.setPersonaPublic);
+  const [copied, setCopied] = useState(false);
+  const Icon = getPersonaIcon(persona.icon);
+  const isPublic = persona.public ?? false;
+  const switchId = `publish-${persona._id}`;
+
+  const handlePublish = async (checked: boolean) => {
+    try {
+      await setPersonaPublic({ personaId: persona._id, public: checked });
+    } catch {
+      toast({ title: "Failed to update sharing", status: "error" });
+    }
+  };
+
+  const handleCopyLink = async () => {
+    await navigator.clipboard.writeText(getPersonaLink(persona._id));
+    setCopied(true);
+    setTimeout(() => setCopied(false), 1500);
+  };
+
+  return (
+    <div className="space-y-3 rounded-lg border p-4">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="flex min-w-0 items-center gap-2 font-semibold">
+          <Icon className="size-4 shrink-0" />
+          <span className="truncate">{persona.name}</span>
+          {persona.importedFromId && (
+            <Badge variant="secondary">Imported</Badge>
+          )}
+        </h3>
+        <div className="flex items-center">
+          <Button
+            aria-label="Edit persona"
+            onClick={() => onEdit(persona)}
+            size="icon"
+            variant="ghost"
+          >
+            <PencilSimpleIcon size={18} />
+          </Button>
+          <Button
+            aria-label="Delete persona"
+            onClick={() => onDelete(persona)}
+            size="icon"
+            variant="ghost"
+          >
+            <TrashSimpleIcon size={18} />
+          </Button>
+        </div>
+      </div>
+      <p className="line-clamp-2 text-muted-foreground text-sm">
+        {persona.prompt}
+      </p>
+      <div className="flex flex-wrap gap-2">
+        {persona.defaultModel && (
+          <Badge variant="outline">
+            {MODELS_MAP[persona.defaultModel]?.name ?? persona.defaultModel}
+          </Badge>
+        )}
+        {persona.defaultReasoningEffort && (
+          <Badge variant="outline">
+            {persona.defaultReasoningEffort} reasoning
+          </Badge>
+        )}
+        {persona.defaultEnableSearch !== undefined && (
+          <Badge variant="outline">
+            Search {persona.defaultEnableSearch ? "on" : "off"}
+          </Badge>
+        )}
+        {persona.defaultConnectors && (
+          <Badge variant="outline">
+            {persona.defaultConnectors.length} connector
+            {persona.defaultConnectors.length === 1 ? "" : "s"}
+          </Badge>
+        )}
+      </div>
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Switch
+            checked={isPublic}
+            id={switchId}
+            onCheckedChange={handlePublish}
+          />
+          <label className="text-muted-foreground text-sm" htmlFor={switchId}>
+            {isPublic ? "Shared via public link" : "Private"}
+          </label>
+        </div>
+        {isPublic && (
+          <Button onClick={handleCopyLink} size="sm" variant="outline">
+            {copied ? (
+              <CheckIcon className="size-4" />
+            ) : (
+              <LinkIcon className="size-4" />
+            )}
+            {copied ? "Copied" : "Copy link"}
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function PersonasPage() {
+  const { data: personas, isLoading } = useTanStackQuery({
+    ...convexQuery(api.personas.listPersonas, {}),
+  });
+  const deletePersona = useMutation(api.personas.deletePersona);
+
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingPersona, setEditingPersona] = useState<Persona | undefined>();
+  const [personaToDelete, setPersonaToDelete] = useState<Persona | null>(null);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  const handleCreate = useCallback(() => {
+    setEditingPersona(undefined);
+    setIsFormOpen(true);
+  }, []);
+
+  const handleEdit = useCallback((persona: Persona) => {
+    setEditingPersona(persona);
+    setIsFormOpen(true);
+  }, []);
+
+  const handleDialogOpenChange = useCallback(
+    (open: boolean) => {
+      // Prevent closing dialog while delete is in progress
+      if (!open && isDeleting) {
+        return;
+      }
+      if (!open) {
+        setPersonaToDelete(null);
+      }
+    },
+    [isDeleting]
+  );
+
+  const confirmDelete = useCallback(async () => {
+    if (!personaToDelete) {
+      return;
+    }
+    setIsDeleting(true);
+    try {
+      await deletePersona({ personaId: personaToDelete._id });
+      toast({ title: "Persona deleted", status: "success" });
+    } catch {
+      toast({ title: "Failed to delete persona", status: "error" });
+    } finally {
+      setIsDeleting(false);
+      setPersonaToDelete(null);
+    }
+  }, [deletePersona, personaToDelete]);
+
+  return (
+    <div className="w-full">
+      <div className="space-y-6">
+        <div className="flex items-center justify-between gap-4">
+          <h1 className="font-bold text-2xl">Personas</h1>
+          <Button onClick={handleCreate} size="sm">
+            <PlusIcon className="size-4" />
+            New persona
+          </Button>
+        </div>
+        <p className="text-muted-foreground text-xs">
+          Create personas with their own system prompt, default model, search
+          and connectors. Share a persona through its public link so others can
+          import it into their library.
+        </p>
+
+        {isLoading && (
+          <div className="space-y-4">
+            <Skeleton className="h-32 w-full" />
+            <Skeleton className="h-32 w-full" />
+          </div>
+        )}
+        {!isLoading && personas?.length === 0 && (
+          <p className="rounded-lg border border-dashed p-6 text-center text-muted-foreground text-sm">
+            You have not created any personas yet.
+          </p>
+        )}
+        {personas?.map((persona) => (
+          <PersonaCard
+            key={persona._id}
+            onDelete={setPersonaToDelete}
+            onEdit={handleEdit}
+            persona={persona}
+          />
+        ))}
+      </div>
+
+      {isFormOpen && (
+        <PersonaFormDialog
+          onOpenChange={setIsFormOpen}
+          open={isFormOpen}
+          persona={editingPersona}
+        />
+      )}
+
+      {/* Delete confirmation dialog */}
+      <Dialog
+        onOpenChange={handleDialogOpenChange}
+        open={personaToDelete !== null}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete persona?</DialogTitle>
+            <DialogDescription>
+              This action cannot be undone. {personaToDelete?.name} will be
+              removed from your library and its public link will stop working.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button onClick={() => setPersonaToDelete(null)} variant="outline">
+              Cancel
+            </Button>
+            <Button
+              disabled={isDeleting}
+              onClick={confirmDelete}
+              variant="destructive"
+            >
+              {isDeleting ? "Deleting..." : "Delete"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,342 @@
+"use client";
+
+import { convexQuery } from "@convex-dev/react-query";
+import {
+  ArrowDownIcon,
+  ArrowUpIcon,
+  TrashSimpleIcon,
+  XIcon,
+} from "@phosphor-icons/react";
+import { useQuery as useTanStackQuery } from "@tanstack/react-query";
+import { useMutation } from "convex/react";
+import { useEffect, useState } from "react";
+import { useUser } from "@/app/providers/user-provider";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { toast } from "@/components/ui/toast";
+import { api } from "@/convex/_generated/api";
+import { classifyError } from "@/lib/error-utils";
+import {
+  SEARCH_KEY_PROVIDERS,
+  SEARCH_PROVIDER_LABELS,
+  SEARCH_PROVIDERS,
+  type SearchKeyProvider,
+  type SearchProvider,
+  type UserSearchSettings,
+  validateSearchSettings,
+} from "@/lib/search-providers";
+
+const KEY_PLACEHOLDERS: Record<SearchKeyProvider, string> = {
+  brave: "BSA...",
+  tavily: "tvly-...",
+  exa: "Exa API key",
+  custom: "Bearer token sent to your endpoint",
+};
+
+// Helper function to move a provider one place up or down
+function moveProvider(
+  providers: SearchProvider[],
+  index: number,
+  offset: -1 | 1
+): SearchProvider[] {
+  const next = [...providers];
+  [next[index], next[index + offset]] = [next[index + offset], next[index]];
+  return next;
+}
+
+export default function SearchSettingsPage() {
+  const { user } = useUser();
+  const { data: settings, isLoading } = useTanStackQuery({
+    ...convexQuery(api.search_settings.getSearchSettings, {}),
+    enabled: Boolean(user && !user.isAnonymous),
+  });
+  const saveSearchSettings = useMutation(
+    api.search_settings.saveSearchSettings
+  );
+  const saveSearchKey = useMutation(api.search_settings.saveSearchKey);
+  const deleteSearchKey = useMutation(api.search_settings.deleteSearchKey);
+
+  const [form, setForm] = useState<UserSearchSettings>({ providers: [] });
+  const [keyInputs, setKeyInputs] = useState<
+    Partial<Record<SearchKeyProvider, string>>
+  >({});
+  const [isSaving, setIsSaving] = useState(false);
+  const [isFormLoaded, setIsFormLoaded] = useState(false);
+
+  // Start editing from the saved settings, once, so saving a key does not
+  // discard unsaved changes
+  useEffect(() => {
+    if (settings && !isFormLoaded) {
+      setForm({
+        providers: settings.providers,
+        searxngUrl: settings.searxngUrl,
+        customEndpointUrl: settings.customEndpointUrl,
+      });
+      setIsFormLoaded(true);
+    }
+  }, [settings, isFormLoaded]);
+
+  const availableProviders = SEARCH_PROVIDERS.filter(
+    (provider) => !form.providers.includes(provider)
+  );
+
+  const handleSave = async () => {
+    const settingsToSave = {
+      providers: form.providers,
+      searxngUrl: form.searxngUrl?.trim() || undefined,
+      customEndpointUrl: form.customEndpointUrl?.trim() || undefined,
+    };
+    const error = validateSearchSettings(settingsToSave);
+    if (error) {
+      toast({ title: error, status: "error" });
+      return;
+    }
+    setIsSaving(true);
+    try {
+      await saveSearchSettings(settingsToSave);
+      toast({ title: "Search settings saved", status: "success" });
+    } catch (saveError) {
+      toast({
+        title: classifyError(saveError).userFriendlyMessage,
+        status: "error",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSaveKey = async (provider: SearchKeyProvider) => {
+    const key = keyInputs[provider]?.trim();
+    if (!key) {
+      return;
+    }
+    try {
+      await saveSearchKey({ provider, key });
+      toast({ title: "Search key saved", status: "success" });
+      // Clear the input right away for security
+      setKeyInputs((prev) => ({ ...prev, [provider]: "" }));
+    } catch {
+      toast({ title: "Failed to save key", status: "error" });
+    }
+  };
+
+  const handleDeleteKey = async (provider: SearchKeyProvider) => {
+    try {
+      await deleteSearchKey({ provider });
+      toast({ title: "Search key deleted", status: "success" });
+    } catch {
+      toast({ title: "Failed to delete key", status: "error" });
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="space-y-2">
+        <Skeleton className="h-16 w-full" />
+        <Skeleton className="h-16 w-full" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full space-y-8">
+      <div className="space-y-2">
+        <h1 className="font-bold text-2xl">Search</h1>
+        <p className="text-muted-foreground text-xs">
+          Choose which search providers web search uses and the order they are
+          tried in. Providers without a key or URL are skipped. Use a
+          self-hosted SearXNG instance or your own search endpoint to search
+          without a subscription.
+        </p>
+      </div>
+
+      <section className="space-y-3">
+        <Label>Provider order</Label>
+        {form.providers.length === 0 ? (
+          <p className="rounded-lg border border-dashed p-4 text-center text-muted-foreground text-sm">
+            Using the server's default order
+          </p>
+        ) : (
+          <ol className="space-y-2">
+            {form.providers.map((provider, index) => (
+              <li
+                className="flex items-center justify-between gap-2 rounded-lg border px-4 py-2"
+                key={provider}
+              >
+                <div className="flex items-center gap-2 text-sm">
+                  <span className="text-muted-foreground">{index + 1}.</span>
+                  {SEARCH_PROVIDER_LABELS[provider]}
+                  {index === 0 && <Badge variant="secondary">Primary</Badge>}
+                </div>
+                <div className="flex items-center">
+                  <Button
+                    aria-label="Move up"
+                    disabled={index === 0}
+                    onClick={() =>
+                      setForm({
+                        ...form,
+                        providers: moveProvider(form.providers, index, -1),
+                      })
+                    }
+                    size="icon"
+                    variant="ghost"
+                  >
+                    <ArrowUpIcon size={16} />
+                  </Button>
+                  <Button
+                    aria-label="Move down"
+                    disabled={index === form.providers.length - 1}
+                    onClick={() =>
+                      setForm({
+                        ...form,
+                        providers: moveProvider(form.providers, index, 1),
+                      })
+                    }
+                    size="icon"
+                    variant="ghost"
+                  >
+                    <ArrowDownIcon size={16} />
+                  </Button>
+                  <Button
+                    aria-label="Remove provider"
+                    onClick={() =>
+                      setForm({
+                        ...form,
+                        providers: form.providers.filter((p) => p !== provider),
+                      })
+                    }
+                    size="icon"
+                    variant="ghost"
+                  >
+                    <XIcon size={16} />
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ol>
+        )}
+        {availableProviders.length > 0 && (
+          <Select
+            onValueChange={(value) =>
+              setForm({
+                ...form,
+                providers: [...form.providers, value as SearchProvider],
+              })
+            }
+            value=""
+          >
+            <SelectTrigger className="w-full sm:w-64">
+              <SelectValue placeholder="Add a provider" />
+            </SelectTrigger>
+            <SelectContent>
+              {availableProviders.map((provider) => (
+                <SelectItem key={provider} value={provider}>
+                  {SEARCH_PROVIDER_LABELS[provider]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="searxngUrl">SearXNG URL</Label>
+          <Input
+            id="searxngUrl"
+            onChange={(e) => setForm({ ...form, searxngUrl: e.target.value })}
+            placeholder="https://searx.example.com"
+            value={form.searxngUrl ?? ""}
+          />
+          <p className="text-muted-foreground text-xs">
+            The instance must allow the <code>json</code> format in its
+            settings.yml.
+          </p>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="customEndpointUrl">Custom search endpoint</Label>
+          <Input
+            id="customEndpointUrl"
+            onChange={(e) =>
+              setForm({ ...form, customEndpointUrl: e.target.value })
+            }
+            placeholder="https://search.example.com/api/search"
+            value={form.customEndpointUrl ?? ""}
+          />
+          <p className="text-muted-foreground text-xs">
+            Receives a POST with the query and answers with{" "}
+            <code>{"{ results: [{ url, title, description, content }] }"}</code>
+            . URLs must be reachable from the OS Chat server, and can only be
+            local or private addresses when the server sets{" "}
+            <code>ALLOW_PRIVATE_CUSTOM_ENDPOINTS</code>.
+          </p>
+        </div>
+        <Button disabled={isSaving} onClick={handleSave} size="sm">
+          {isSaving ? "Saving..." : "Save"}
+        </Button>
+      </section>
+
+      <section className="space-y-3">
+        <Label>Search API keys</Label>
+        <p className="text-muted-foreground text-xs">
+          Your keys are used instead of the server's for the providers above.
+        </p>
+        {SEARCH_KEY_PROVIDERS.map((provider) => {
+          const hasKey = settings?.keyProviders.includes(provider);
+          return (
+            <div className="space-y-2 rounded-lg border p-4" key={provider}>
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-medium text-sm">
+                  {SEARCH_PROVIDER_LABELS[provider]}
+                </span>
+                {hasKey && (
+                  <div className="flex items-center gap-1">
+                    <Badge variant="secondary">Key saved</Badge>
+                    <Button
+                      aria-label="Delete key"
+                      onClick={() => handleDeleteKey(provider)}
+                      size="icon"
+                      variant="ghost"
+                    >
+                      <TrashSimpleIcon size={18} />
+                    </Button>
+                  </div>
+                )}
+              </div>
+              <div className="flex gap-2">
+                <Input
+                  autoComplete="off"
+                  onChange={(e) =>
+                    setKeyInputs((prev) => ({
+                      ...prev,
+                      [provider]: e.target.value,
+                    }))
+                  }
+                  placeholder={KEY_PLACEHOLDERS[provider]}
+                  type="password"
+                  value={keyInputs[provider] ?? ""}
+                />
+                <Button
+                  disabled={!keyInputs[provider]?.trim()}
+                  onClick={() => handleSaveKey(provider)}
+                  size="sm"
+                  variant="outline"
+                >
+                  Save
+                </Button>
+              </div>
+            </div>
+          );
+        })}
+      </section>
+    </div>
+  );
+}
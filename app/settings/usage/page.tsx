@@ -0,0 +1,232 @@
+"use client";
+
+import { convexQuery } from "@convex-dev/react-query";
+import { useQuery as useTanStackQuery } from "@tanstack/react-query";
+import Link from "next/link";
+import { type ReactNode, useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { api } from "@/convex/_generated/api";
+import { MODELS_MAP } from "@/lib/config";
+import { formatCostUsd } from "@/lib/usage-cost";
+
+const PERIOD_OPTIONS = [
+  { days: 7, label: "Last 7 days" },
+  { days: 30, label: "Last 30 days" },
+  { days: 90, label: "Last 90 days" },
+] as const;
+
+type Spend = {
+  costUsd: number;
+  builtInCostUsd: number;
+  userKeyCostUsd: number;
+  answers: number;
+};
+
+type SpendRow = Spend & { key: string; label: ReactNode };
+
+// Helper component for a spend breakdown table
+function SpendTable({
+  title,
+  rows,
+  emptyText,
+}: {
+  title: string;
+  rows: SpendRow[];
+  emptyText: string;
+}) {
+  return (
+    <div className="space-y-2">
+      <h2 className="font-semibold text-sm">{title}</h2>
+      {rows.length === 0 ? (
+        <p className="text-muted-foreground text-sm">{emptyText}</p>
+      ) : (
+        <div className="overflow-x-auto rounded-lg border">
+          <table className="w-full text-sm">
+            <thead className="text-muted-foreground text-xs">
+              <tr className="border-b">
+                <th className="px-3 py-2 text-left font-medium" />
+                <th className="px-3 py-2 text-right font-medium">Answers</th>
+                <th className="px-3 py-2 text-right font-medium">Credits</th>
+                <th className="px-3 py-2 text-right font-medium">Your keys</th>
+                <th className="px-3 py-2 text-right font-medium">Total</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row) => (
+                <tr className="border-b last:border-0" key={row.key}>
+                  <td className="max-w-48 truncate px-3 py-2">{row.label}</td>
+                  <td className="px-3 py-2 text-right tabular-nums">
+                    {row.answers.toLocaleString()}
+                  </td>
+                  <td className="px-3 py-2 text-right tabular-nums">
+                    {formatCostUsd(row.builtInCostUsd)}
+                  </td>
+                  <td className="px-3 py-2 text-right tabular-nums">
+                    {formatCostUsd(row.userKeyCostUsd)}
+                  </td>
+                  <td className="px-3 py-2 text-right font-medium tabular-nums">
+                    {formatCostUsd(row.costUsd)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function UsagePage() {
+  const [days, setDays] = useState<number>(30);
+  const timezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  const { data: usage, isLoading } = useTanStackQuery({
+    ...convexQuery(api.usage.getUsageSummary, { days, timezone }),
+  });
+
+  const totals = usage?.totals;
+  const maxDailyCost = Math.max(
+    0,
+    ...(usage?.byDay.map((day) => day.costUsd) ?? [])
+  );
+
+  return (
+    <div className="w-full">
+      <div className="space-y-6">
+        <div className="flex items-center justify-between gap-4">
+          <h1 className="font-bold text-2xl">Usage</h1>
+          <Select
+            onValueChange={(value) => setDays(Number(value))}
+            value={String(days)}
+          >
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PERIOD_OPTIONS.map((option) => (
+                <SelectItem key={option.days} value={String(option.days)}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <p className="text-muted-foreground text-xs">
+          Estimated spend from token counts and list prices. Credits are answers
+          on built-in keys; your keys are billed by your provider. Models
+          without published prices are not included.
+        </p>
+
+        {isLoading && (
+          <div className="space-y-4">
+            <Skeleton className="h-20 w-full" />
+            <Skeleton className="h-40 w-full" />
+          </div>
+        )}
+
+        {totals && (
+          <div className="grid gap-3 sm:grid-cols-3">
+            {[
+              { label: "Total", value: totals.costUsd },
+              { label: "Built-in credits", value: totals.builtInCostUsd },
+              { label: "Your API keys", value: totals.userKeyCostUsd },
+            ].map((stat) => (
+              <Card key={stat.label}>
+                <CardContent className="p-4">
+                  <p className="text-muted-foreground text-xs">{stat.label}</p>
+                  <p className="font-semibold text-xl tabular-nums">
+                    {formatCostUsd(stat.value)}
+                  </p>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+
+        {usage && usage.byDay.length > 0 && (
+          <div className="space-y-2">
+            <h2 className="font-semibold text-sm">By day</h2>
+            <div className="space-y-1">
+              {usage.byDay.map((day) => (
+                <div className="flex items-center gap-3 text-xs" key={day.date}>
+                  <span className="w-20 shrink-0 text-muted-foreground tabular-nums">
+                    {day.date}
+                  </span>
+                  <div className="flex h-3 flex-1 overflow-hidden rounded-sm bg-muted">
+                    <div
+                      className="h-full bg-primary"
+                      style={{
+                        width: `${maxDailyCost ? (day.builtInCostUsd / maxDailyCost) * 100 : 0}%`,
+                      }}
+                    />
+                    <div
+                      className="h-full bg-primary/50"
+                      style={{
+                        width: `${maxDailyCost ? (day.userKeyCostUsd / maxDailyCost) * 100 : 0}%`,
+                      }}
+                    />
+                  </div>
+                  <span className="w-16 shrink-0 text-right tabular-nums">
+                    {formatCostUsd(day.costUsd)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {usage && (
+          <>
+            <SpendTable
+              emptyText="No costed answers in this period."
+              rows={usage.byModel.map((model) => ({
+                ...model,
+                key: model.modelId,
+                label: MODELS_MAP[model.modelId]?.name ?? model.modelId,
+              }))}
+              title="By model"
+            />
+            <SpendTable
+              emptyText="No chats in this period."
+              rows={usage.byChat.map((chat) => ({
+                ...chat,
+                key: chat.chatId,
+                label:
+                  chat.title === undefined ? (
+                    <span className="text-muted-foreground">Deleted chat</span>
+                  ) : (
+                    <Link
+                      className="hover:underline"
+                      href={`/c/${chat.chatId}`}
+                    >
+                      {chat.title}
+                    </Link>
+                  ),
+              }))}
+              title="Top chats"
+            />
+            <SpendTable
+              emptyText="No scheduled task runs in this period."
+              rows={usage.byTask.map((task) => ({
+                ...task,
+                key: task.taskId,
+                label: task.title ?? (
+                  <span className="text-muted-foreground">Deleted task</span>
+                ),
+              }))}
+              title="By scheduled task"
+            />
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
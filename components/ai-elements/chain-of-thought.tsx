@@ -88,6 +88,7 @@ export const ChainOfThought = memo(
 
 export type ChainOfThoughtHeaderProps = ComponentProps<"button"> & {
   tools?: string[];
+  status?: string; // Replaces the tool count or "Completed"
 };
 
 export const ChainOfThoughtHeader = memo(
@@ -95,6 +96,7 @@ export const ChainOfThoughtHeader = memo(
     className,
     children,
     tools = [],
+    status,
     ...props
   }: ChainOfThoughtHeaderProps) => {
     const { isOpen, setIsOpen } = useChainOfThought();
@@ -105,11 +107,14 @@ export const ChainOfThoughtHeader = memo(
     }, [children]);
 
     const statusText = useMemo(() => {
+      if (status) {
+        return status;
+      }
       if (tools.length > 0) {
         return `${tools.length} tool${tools.length !== 1 ? "s" : ""}`;
       }
       return "Completed";
-    }, [tools.length]);
+    }, [status, tools.length]);
 
     const buttonClassName = useMemo(() => {
       return cn(
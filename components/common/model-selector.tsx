@@ -36,7 +36,6 @@ import {
   TooltipTrigger,
 } from '@/components/ui/tooltip';
 import { api } from '@/convex/_generated/api';
-import { MODELS_OPTIONS, PROVIDERS_OPTIONS } from '@/lib/config';
 import { cn } from '@/lib/utils';
 import { ModelCard } from './model-card';
 import { ModelSelectorFooter } from './model-selector-footer';
@@ -167,18 +166,11 @@ export function ModelSelector({
   }, [user?.isAnonymous, products?.premium?.id, generateCheckoutLink, router]);
 
   const model = useMemo(() => {
-    // Always look in the full MODELS_OPTIONS list, not just filtered results
-    return MODELS_OPTIONS.find((model) => model.id === selectedModelId);
-  }, [selectedModelId]);
+    // Always look in the full model list (built-in and custom), not just filtered results
+    return categorizedModels.all.find((model) => model.id === selectedModelId);
+  }, [categorizedModels, selectedModelId]);
 
-  const provider = useMemo(
-    () =>
-      PROVIDERS_OPTIONS.find(
-        (provider) =>
-          provider.id === (model?.displayProvider || model?.provider)
-      ),
-    [model]
-  );
+  const provider = model?.providerInfo;
 
   const renderModelOption = useCallback(
     (modelOption: EnrichedModel) => {
@@ -8,10 +8,15 @@
  * @module
  */
 
+import type * as access_tokens from "../access_tokens.js";
 import type * as api_keys from "../api_keys.js";
 import type * as auth from "../auth.js";
 import type * as chats from "../chats.js";
+import type * as composio_triggers from "../composio_triggers.js";
 import type * as connectors from "../connectors.js";
+import type * as custom_endpoints from "../custom_endpoints.js";
+import type * as documents from "../documents.js";
+import type * as documents_ai from "../documents_ai.js";
 import type * as email from "../email.js";
 import type * as feedback from "../feedback.js";
 import type * as files from "../files.js";
@@ -19,25 +24,45 @@ import type * as http from "../http.js";
 import type * as import_export from "../import_export.js";
 import type * as lib_auth_helper from "../lib/auth_helper.js";
 import type * as lib_cleanup_helper from "../lib/cleanup_helper.js";
+import type * as lib_message_tree from "../lib/message_tree.js";
 import type * as lib_rateLimitConstants from "../lib/rateLimitConstants.js";
 import type * as lib_sanitization_helper from "../lib/sanitization_helper.js";
+import type * as lib_usage_helper from "../lib/usage_helper.js";
+import type * as memories from "../memories.js";
 import type * as messages from "../messages.js";
+import type * as notifications from "../notifications.js";
+import type * as personas from "../personas.js";
+import type * as projects from "../projects.js";
 import type * as polar from "../polar.js";
+import type * as public_api from "../public_api.js";
 import type * as rateLimiter from "../rateLimiter.js";
 import type * as scheduled_ai from "../scheduled_ai.js";
 import type * as scheduled_tasks from "../scheduled_tasks.js";
+import type * as schema_access_token from "../schema/access_token.js";
 import type * as schema_chat from "../schema/chat.js";
 import type * as schema_chat_attachment from "../schema/chat_attachment.js";
 import type * as schema_connectors from "../schema/connectors.js";
+import type * as schema_custom_endpoint from "../schema/custom_endpoint.js";
+import type * as schema_document_chunk from "../schema/document_chunk.js";
 import type * as schema_feedback from "../schema/feedback.js";
+import type * as schema_memory from "../schema/memory.js";
 import type * as schema_message from "../schema/message.js";
+import type * as schema_notification from "../schema/notification.js";
+import type * as schema_persona from "../schema/persona.js";
+import type * as schema_project from "../schema/project.js";
 import type * as schema_scheduled_task from "../schema/scheduled_task.js";
+import type * as schema_search_settings from "../schema/search_settings.js";
 import type * as schema_task_history from "../schema/task_history.js";
 import type * as schema_usage_history from "../schema/usage_history.js";
+import type * as schema_usage_record from "../schema/usage_record.js";
 import type * as schema_user from "../schema/user.js";
 import type * as schema_user_api_key from "../schema/user_api_key.js";
+import type * as search_settings from "../search_settings.js";
 import type * as subscription from "../subscription.js";
 import type * as task_history from "../task_history.js";
+import type * as task_notifications from "../task_notifications.js";
+import type * as task_triggers from "../task_triggers.js";
+import type * as usage from "../usage.js";
 import type * as users from "../users.js";
 
 import type {
@@ -55,10 +80,15 @@ import type {
  * ```
  */
 declare const fullApi: ApiFromModules<{
+  access_tokens: typeof access_tokens;
   api_keys: typeof api_keys;
   auth: typeof auth;
   chats: typeof chats;
+  composio_triggers: typeof composio_triggers;
   connectors: typeof connectors;
+  custom_endpoints: typeof custom_endpoints;
+  documents: typeof documents;
+  documents_ai: typeof documents_ai;
   email: typeof email;
   feedback: typeof feedback;
   files: typeof files;
@@ -66,25 +96,45 @@ declare const fullApi: ApiFromModules<{
   import_export: typeof import_export;
   "lib/auth_helper": typeof lib_auth_helper;
   "lib/cleanup_helper": typeof lib_cleanup_helper;
+  "lib/message_tree": typeof lib_message_tree;
   "lib/rateLimitConstants": typeof lib_rateLimitConstants;
   "lib/sanitization_helper": typeof lib_sanitization_helper;
+  "lib/usage_helper": typeof lib_usage_helper;
+  memories: typeof memories;
   messages: typeof messages;
+  notifications: typeof notifications;
+  personas: typeof personas;
+  projects: typeof projects;
   polar: typeof polar;
+  public_api: typeof public_api;
   rateLimiter: typeof rateLimiter;
   scheduled_ai: typeof scheduled_ai;
   scheduled_tasks: typeof scheduled_tasks;
+  "schema/access_token": typeof schema_access_token;
   "schema/chat": typeof schema_chat;
   "schema/chat_attachment": typeof schema_chat_attachment;
   "schema/connectors": typeof schema_connectors;
+  "schema/custom_endpoint": typeof schema_custom_endpoint;
+  "schema/document_chunk": typeof schema_document_chunk;
   "schema/feedback": typeof schema_feedback;
+  "schema/memory": typeof schema_memory;
   "schema/message": typeof schema_message;
+  "schema/notification": typeof schema_notification;
+  "schema/persona": typeof schema_persona;
+  "schema/project": typeof schema_project;
   "schema/scheduled_task": typeof schema_scheduled_task;
+  "schema/search_settings": typeof schema_search_settings;
   "schema/task_history": typeof schema_task_history;
   "schema/usage_history": typeof schema_usage_history;
+  "schema/usage_record": typeof schema_usage_record;
   "schema/user": typeof schema_user;
   "schema/user_api_key": typeof schema_user_api_key;
+  search_settings: typeof search_settings;
   subscription: typeof subscription;
   task_history: typeof task_history;
+  task_notifications: typeof task_notifications;
+  task_triggers: typeof task_triggers;
+  usage: typeof usage;
   users: typeof users;
 }>;
 declare const fullApiWithMounts: typeof fullApi;
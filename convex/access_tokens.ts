@@ -0,0 +1,219 @@
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { ConvexError, v } from "convex/values";
+import { ERROR_CODES } from "../lib/error-codes";
+import { internal } from "./_generated/api";
+import type { Id } from "./_generated/dataModel";
+import { action, internalMutation, mutation, query } from "./_generated/server";
+import { ensureAuthenticated } from "./lib/auth_helper";
+import { AccessTokenScope } from "./schema/access_token";
+
+// Constants for personal access tokens
+const ACCESS_TOKEN_LIMITS = {
+  perUser: 20,
+  nameLength: 64,
+  maxExpiryDays: 365,
+  // lastUsedAt is only rewritten when older than this, to avoid a write per request
+  lastUsedPrecisionMs: 60 * 1000,
+} as const;
+
+const ACCESS_TOKEN_PREFIX = "osk_";
+const ACCESS_TOKEN_BYTES = 32;
+const DISPLAYED_PREFIX_LENGTH = 12;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const accessTokenSummary = v.object({
+  _id: v.id("access_tokens"),
+  name: v.string(),
+  prefix: v.string(),
+  scopes: v.array(AccessTokenScope),
+  expiresAt: v.optional(v.number()),
+  lastUsedAt: v.optional(v.number()),
+  createdAt: v.number(),
+});
+
+// Helper function to convert bytes to a hex string
+const toHex = (bytes: Uint8Array): string =>
+  Array.from(bytes)
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+
+/**
+ * Hash an access token for storage and lookup
+ */
+export async function hashAccessToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(token)
+  );
+  return toHex(new Uint8Array(digest));
+}
+
+/**
+ * List the authenticated user's access tokens, newest first
+ */
+export const listAccessTokens = query({
+  args: {},
+  returns: v.array(accessTokenSummary),
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      return [];
+    }
+    const tokens = await ctx.db
+      .query("access_tokens")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .order("desc")
+      .collect();
+    return tokens.map((token) => ({
+      _id: token._id,
+      name: token.name,
+      prefix: token.prefix,
+      scopes: token.scopes,
+      expiresAt: token.expiresAt,
+      lastUsedAt: token.lastUsedAt,
+      createdAt: token.createdAt,
+    }));
+  },
+});
+
+/**
+ * Create an access token. The token is only returned here and cannot be
+ * retrieved again. Generated in an action so it uses a secure random source.
+ */
+export const createAccessToken = action({
+  args: {
+    name: v.string(),
+    scopes: v.array(AccessTokenScope),
+    expiresInDays: v.optional(v.number()),
+  },
+  returns: v.object({
+    tokenId: v.id("access_tokens"),
+    token: v.string(),
+  }),
+  handler: async (
+    ctx,
+    { name, scopes, expiresInDays }
+  ): Promise<{ tokenId: Id<"access_tokens">; token: string }> => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new ConvexError(ERROR_CODES.NOT_AUTHENTICATED);
+    }
+
+    const bytes = new Uint8Array(ACCESS_TOKEN_BYTES);
+    crypto.getRandomValues(bytes);
+    const token = `${ACCESS_TOKEN_PREFIX}${toHex(bytes)}`;
+
+    const tokenId = await ctx.runMutation(
+      internal.access_tokens.insertAccessToken,
+      {
+        userId,
+        name,
+        scopes,
+        expiresInDays,
+        tokenHash: await hashAccessToken(token),
+        prefix: token.slice(0, DISPLAYED_PREFIX_LENGTH),
+      }
+    );
+    return { tokenId, token };
+  },
+});
+
+// Internal mutation to store a newly generated access token
+export const insertAccessToken = internalMutation({
+  args: {
+    userId: v.id("users"),
+    name: v.string(),
+    scopes: v.array(AccessTokenScope),
+    expiresInDays: v.optional(v.number()),
+    tokenHash: v.string(),
+    prefix: v.string(),
+  },
+  returns: v.id("access_tokens"),
+  handler: async (ctx, args) => {
+    const name = args.name.trim().slice(0, ACCESS_TOKEN_LIMITS.nameLength);
+    const scopes = [...new Set(args.scopes)];
+    if (!name || scopes.length === 0) {
+      throw new ConvexError(ERROR_CODES.MISSING_REQUIRED_FIELD);
+    }
+    if (
+      args.expiresInDays !== undefined &&
+      (args.expiresInDays < 1 ||
+        args.expiresInDays > ACCESS_TOKEN_LIMITS.maxExpiryDays)
+    ) {
+      throw new ConvexError(ERROR_CODES.INVALID_INPUT);
+    }
+
+    const existing = await ctx.db
+      .query("access_tokens")
+      .withIndex("by_user", (q) => q.eq("userId", args.userId))
+      .collect();
+    if (existing.length >= ACCESS_TOKEN_LIMITS.perUser) {
+      throw new ConvexError(ERROR_CODES.ACCESS_TOKEN_LIMIT_REACHED);
+    }
+
+    const now = Date.now();
+    return await ctx.db.insert("access_tokens", {
+      userId: args.userId,
+      name,
+      tokenHash: args.tokenHash,
+      prefix: args.prefix,
+      scopes,
+      expiresAt:
+        args.expiresInDays === undefined
+          ? undefined
+          : now + args.expiresInDays * DAY_MS,
+      createdAt: now,
+    });
+  },
+});
+
+/**
+ * Revoke one of the authenticated user's access tokens
+ */
+export const revokeAccessToken = mutation({
+  args: { tokenId: v.id("access_tokens") },
+  returns: v.null(),
+  handler: async (ctx, { tokenId }) => {
+    const userId = await ensureAuthenticated(ctx);
+    const token = await ctx.db.get(tokenId);
+    if (!token || token.userId !== userId) {
+      throw new ConvexError(ERROR_CODES.UNAUTHORIZED);
+    }
+    await ctx.db.delete(tokenId);
+    return null;
+  },
+});
+
+// Internal mutation to resolve an access token to its user, checking expiry and scope
+export const authenticateAccessToken = internalMutation({
+  args: {
+    tokenHash: v.string(),
+    scope: AccessTokenScope,
+  },
+  returns: v.id("users"),
+  handler: async (ctx, { tokenHash, scope }) => {
+    const token = await ctx.db
+      .query("access_tokens")
+      .withIndex("by_token_hash", (q) => q.eq("tokenHash", tokenHash))
+      .unique();
+    if (!token) {
+      throw new ConvexError(ERROR_CODES.INVALID_ACCESS_TOKEN);
+    }
+
+    const now = Date.now();
+    if (token.expiresAt !== undefined && token.expiresAt <= now) {
+      throw new ConvexError(ERROR_CODES.ACCESS_TOKEN_EXPIRED);
+    }
+    if (!token.scopes.includes(scope)) {
+      throw new ConvexError(ERROR_CODES.INSUFFICIENT_SCOPE);
+    }
+
+    if (
+      !token.lastUsedAt ||
+      now - token.lastUsedAt > ACCESS_TOKEN_LIMITS.lastUsedPrecisionMs
+    ) {
+      await ctx.db.patch(token._id, { lastUsedAt: now });
+    }
+    return token.userId;
+  },
+});
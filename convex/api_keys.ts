@@ -1,163 +1,76 @@
 import { getAuthUserId } from "@convex-dev/auth/server";
 import { ConvexError, v } from "convex/values";
+import {
+  decryptSecret,
+  type EncryptedSecret,
+  encryptSecret,
+  getCurrentKeyVersion,
+  needsRewrap,
+  readMasterSecrets,
+  rewrapAllTables,
+  rewrapRecords,
+  rewrapSecret,
+} from "../lib/api-key-crypto";
+import { buildKeyTestRequest } from "../lib/api-key-providers";
 import { ERROR_CODES } from "../lib/error-codes";
-import { mutation, query } from "./_generated/server";
+import { internal } from "./_generated/api";
+import type { Doc } from "./_generated/dataModel";
+import {
+  action,
+  internalAction,
+  internalMutation,
+  internalQuery,
+  mutation,
+  query,
+} from "./_generated/server";
+import { UserApiKeyProvider } from "./schema/user_api_key";
 
-const API_KEY_SECRET = process.env.API_KEY_SECRET;
-if (!API_KEY_SECRET) {
-  throw new Error(
-    "CRITICAL SECURITY ERROR: API_KEY_SECRET environment variable is required but not set. API keys cannot be stored securely without encryption. Set API_KEY_SECRET to continue."
-  );
-}
+// Master secrets by version, see readMasterSecrets
+const MASTER_SECRETS = readMasterSecrets(process.env);
 
-// Define regex at top level for performance
-const HEX_REGEX = /^[0-9a-fA-F]+$/;
+// Number of records re-wrapped per migration mutation
+const MIGRATION_BATCH_SIZE = 25;
 
-// Convert string to ArrayBuffer
-function stringToArrayBuffer(str: string): ArrayBuffer {
-  const encoder = new TextEncoder();
-  const uint8Array = encoder.encode(str);
-  // Create a new ArrayBuffer and copy the data
-  const buffer = new ArrayBuffer(uint8Array.length);
-  const view = new Uint8Array(buffer);
-  view.set(uint8Array);
-  return buffer;
-}
+// Give up on a key test after this long
+const KEY_TEST_TIMEOUT_MS = 10_000;
 
-// Convert ArrayBuffer to string
-function arrayBufferToString(buffer: ArrayBuffer): string {
-  const decoder = new TextDecoder();
-  return decoder.decode(buffer);
+function encrypt(text: string, userId: string): Promise<EncryptedSecret> {
+  return encryptSecret(MASTER_SECRETS, text, userId);
 }
 
-// Convert ArrayBuffer to hex string
-function arrayBufferToHex(buffer: ArrayBuffer): string {
-  return Array.from(new Uint8Array(buffer))
-    .map((b) => b.toString(16).padStart(2, "0"))
-    .join("");
+function decrypt(secret: EncryptedSecret, userId: string): Promise<string> {
+  return decryptSecret(MASTER_SECRETS, secret, userId);
 }
 
-// Convert hex string to ArrayBuffer
-function hexToArrayBuffer(hex: string): ArrayBuffer {
-  // Input validation
-  if (typeof hex !== "string") {
-    throw new Error("Input must be a string");
-  }
-
-  if (hex.length === 0) {
-    throw new Error("Input string cannot be empty");
-  }
-
-  if (hex.length % 2 !== 0) {
-    throw new Error("Hex string must have an even length");
+// Helper function to re-wrap the webhook signing secrets of a task. Returns
+// the task's channels, or undefined when none needed it.
+async function rewrapWebhookSecrets(
+  task: Doc<"scheduled_tasks">
+): Promise<Doc<"scheduled_tasks">["notificationChannels"]> {
+  const channels = task.notificationChannels ?? [];
+  if (
+    !channels.some(
+      (channel) =>
+        channel.type === "webhook" &&
+        needsRewrap(MASTER_SECRETS, channel.signingSecret)
+    )
+  ) {
+    return;
   }
-
-  // Check if string contains only valid hexadecimal characters
-  if (!HEX_REGEX.test(hex)) {
-    throw new Error("Input string contains invalid hexadecimal characters");
-  }
-
-  const bytes = new Uint8Array(hex.length / 2);
-  for (let i = 0; i < hex.length; i += 2) {
-    bytes[i / 2] = Number.parseInt(hex.substring(i, i + 2), 16);
-  }
-  return bytes.buffer;
-}
-
-async function getKey(userId: string): Promise<CryptoKey> {
-  if (!API_KEY_SECRET) {
-    throw new Error("API_KEY_SECRET not configured");
-  }
-
-  const keyMaterial = await crypto.subtle.importKey(
-    "raw",
-    stringToArrayBuffer(API_KEY_SECRET),
-    { name: "PBKDF2" },
-    false,
-    ["deriveKey"]
+  return await Promise.all(
+    channels.map(async (channel) =>
+      channel.type === "webhook"
+        ? {
+            ...channel,
+            signingSecret: await rewrapSecret(
+              MASTER_SECRETS,
+              channel.signingSecret,
+              task.userId
+            ),
+          }
+        : channel
+    )
   );
-
-  // Create a unique salt per user using a hash for additional security
-  const userIdHash = await crypto.subtle.digest(
-    "SHA-256",
-    stringToArrayBuffer(userId)
-  );
-  const userSalt = `convex-api-keys-${arrayBufferToHex(userIdHash)}`;
-
-  return crypto.subtle.deriveKey(
-    {
-      name: "PBKDF2",
-      salt: stringToArrayBuffer(userSalt), // User-specific salt for security
-      iterations: 100_000,
-      hash: "SHA-256",
-    },
-    keyMaterial,
-    { name: "AES-GCM", length: 256 },
-    false,
-    ["encrypt", "decrypt"]
-  );
-}
-
-async function encrypt(text: string, userId: string): Promise<string> {
-  if (!API_KEY_SECRET) {
-    throw new Error("Cannot encrypt API key: API_KEY_SECRET not configured");
-  }
-
-  try {
-    const key = await getKey(userId);
-    const iv = crypto.getRandomValues(new Uint8Array(12));
-    const data = stringToArrayBuffer(text);
-
-    const encrypted = await crypto.subtle.encrypt(
-      { name: "AES-GCM", iv },
-      key,
-      data
-    );
-
-    return `${arrayBufferToHex(iv.buffer)}:${arrayBufferToHex(encrypted)}`;
-  } catch {
-    // Prevent sensitive information leakage by throwing a generic error
-    throw new Error("Failed to encrypt API key");
-  }
-}
-
-async function decrypt(payload: string, userId: string): Promise<string> {
-  if (!API_KEY_SECRET) {
-    throw new Error("Cannot decrypt API key: API_KEY_SECRET not configured");
-  }
-
-  // Validate payload format before splitting
-  if (typeof payload !== "string") {
-    throw new Error("Payload must be a string");
-  }
-
-  if (payload.length === 0) {
-    throw new Error("Payload cannot be empty");
-  }
-
-  const colonCount = (payload.match(/:/g) || []).length;
-  if (colonCount !== 1) {
-    throw new Error(
-      "Invalid payload format: must contain exactly one colon separator between IV and data parts"
-    );
-  }
-
-  const [ivHex, dataHex] = payload.split(":");
-  const key = await getKey(userId);
-  const iv = hexToArrayBuffer(ivHex);
-  const data = hexToArrayBuffer(dataHex);
-
-  try {
-    const decrypted = await crypto.subtle.decrypt(
-      { name: "AES-GCM", iv },
-      key,
-      data
-    );
-    return arrayBufferToString(decrypted);
-  } catch {
-    // Silently handle decryption errors to prevent sensitive information leakage
-    throw new Error("Failed to decrypt API key");
-  }
 }
 
 export const getApiKeys = query({
@@ -170,6 +83,7 @@ export const getApiKeys = query({
       messageCount: v.optional(v.number()),
       createdAt: v.optional(v.number()),
       updatedAt: v.optional(v.number()),
+      lastUsedAt: v.optional(v.number()),
     })
   ),
   handler: async (ctx) => {
@@ -183,13 +97,22 @@ export const getApiKeys = query({
       .withIndex("by_user_provider", (q) => q.eq("userId", userId))
       .collect();
     return keys.map(
-      ({ _id, provider, mode, messageCount, createdAt, updatedAt }) => ({
+      ({
+        _id,
+        provider,
+        mode,
+        messageCount,
+        createdAt,
+        updatedAt,
+        lastUsedAt,
+      }) => ({
         _id,
         provider,
         mode,
         messageCount,
         createdAt,
         updatedAt,
+        lastUsedAt,
       })
     );
   },
@@ -197,15 +120,7 @@ export const getApiKeys = query({
 
 export const saveApiKey = mutation({
   args: {
-    provider: v.union(
-      v.literal("openrouter"),
-      v.literal("openai"),
-      v.literal("anthropic"),
-      v.literal("gemini"),
-      v.literal("mistral"),
-      v.literal("meta"),
-      v.literal("Qwen")
-    ),
+    provider: UserApiKeyProvider,
     key: v.string(),
     mode: v.optional(v.union(v.literal("priority"), v.literal("fallback"))),
   },
@@ -229,7 +144,7 @@ export const saveApiKey = mutation({
     const finalMode = mode || "fallback";
     if (existing) {
       await ctx.db.patch(existing._id, {
-        encryptedKey: encrypted,
+        ...encrypted,
         mode: finalMode,
         updatedAt: now,
       });
@@ -237,7 +152,7 @@ export const saveApiKey = mutation({
       await ctx.db.insert("user_api_keys", {
         userId,
         provider,
-        encryptedKey: encrypted,
+        ...encrypted,
         mode: finalMode,
         messageCount: 0,
         createdAt: now,
@@ -250,15 +165,7 @@ export const saveApiKey = mutation({
 
 export const deleteApiKey = mutation({
   args: {
-    provider: v.union(
-      v.literal("openrouter"),
-      v.literal("openai"),
-      v.literal("anthropic"),
-      v.literal("gemini"),
-      v.literal("mistral"),
-      v.literal("meta"),
-      v.literal("Qwen")
-    ),
+    provider: UserApiKeyProvider,
   },
   returns: v.null(),
   handler: async (ctx, { provider }) => {
@@ -281,15 +188,7 @@ export const deleteApiKey = mutation({
 
 export const updateApiKeyMode = mutation({
   args: {
-    provider: v.union(
-      v.literal("openrouter"),
-      v.literal("openai"),
-      v.literal("anthropic"),
-      v.literal("gemini"),
-      v.literal("mistral"),
-      v.literal("meta"),
-      v.literal("Qwen")
-    ),
+    provider: UserApiKeyProvider,
     mode: v.union(v.literal("priority"), v.literal("fallback")),
   },
   returns: v.null(),
@@ -313,15 +212,7 @@ export const updateApiKeyMode = mutation({
 
 export const getDecryptedKey = query({
   args: {
-    provider: v.union(
-      v.literal("openrouter"),
-      v.literal("openai"),
-      v.literal("anthropic"),
-      v.literal("gemini"),
-      v.literal("mistral"),
-      v.literal("meta"),
-      v.literal("Qwen")
-    ),
+    provider: UserApiKeyProvider,
   },
   handler: async (ctx, { provider }) => {
     const userId = await getAuthUserId(ctx);
@@ -337,12 +228,16 @@ export const getDecryptedKey = query({
     if (!existing) {
       return null;
     }
-    return await decryptKey(existing.encryptedKey, userId);
+    return await decryptKey(existing, userId);
   },
 });
 
-export async function decryptKey(encrypted: string, userId: string) {
-  return await decrypt(encrypted, userId);
+export async function encryptKey(text: string, userId: string) {
+  return await encrypt(text, userId);
+}
+
+export async function decryptKey(secret: EncryptedSecret, userId: string) {
+  return await decrypt(secret, userId);
 }
 
 export const incrementUserApiKeyUsage = mutation({
@@ -361,8 +256,197 @@ export const incrementUserApiKeyUsage = mutation({
       .unique();
     if (existing) {
       const currentCount = existing.messageCount || 0;
-      await ctx.db.patch(existing._id, { messageCount: currentCount + 1 });
+      await ctx.db.patch(existing._id, {
+        messageCount: currentCount + 1,
+        lastUsedAt: Date.now(),
+      });
+    }
+    return null;
+  },
+});
+
+// Internal query to get a user's decrypted key and its mode, for requests
+// authenticated with an access token
+export const getDecryptedKeyInternal = internalQuery({
+  args: { userId: v.id("users"), provider: v.string() },
+  returns: v.union(
+    v.null(),
+    v.object({
+      key: v.string(),
+      mode: v.optional(v.union(v.literal("priority"), v.literal("fallback"))),
+    })
+  ),
+  handler: async (ctx, { userId, provider }) => {
+    const existing = await ctx.db
+      .query("user_api_keys")
+      .withIndex("by_user_provider", (q) =>
+        q.eq("userId", userId).eq("provider", provider)
+      )
+      .unique();
+    if (!existing) {
+      return null;
+    }
+    return {
+      key: await decryptKey(existing, userId),
+      mode: existing.mode,
+    };
+  },
+});
+
+// Internal mutation to count a message sent with a user's key
+export const incrementUserApiKeyUsageInternal = internalMutation({
+  args: { userId: v.id("users"), provider: v.string() },
+  returns: v.null(),
+  handler: async (ctx, { userId, provider }) => {
+    const existing = await ctx.db
+      .query("user_api_keys")
+      .withIndex("by_user_provider", (q) =>
+        q.eq("userId", userId).eq("provider", provider)
+      )
+      .unique();
+    if (existing) {
+      await ctx.db.patch(existing._id, {
+        messageCount: (existing.messageCount || 0) + 1,
+        lastUsedAt: Date.now(),
+      });
     }
     return null;
   },
 });
+
+// Helper function to explain why a provider rejected a key test
+function describeKeyTestFailure(status: number): string {
+  if (status === 401 || status === 403) {
+    return "The provider rejected this API key";
+  }
+  if (status === 402 || status === 429) {
+    return "The API key is valid but out of credits or rate limited";
+  }
+  return `The provider responded with status ${status}`;
+}
+
+/**
+ * Test an API key with a cheap call to its provider. Tests the saved key
+ * when no key is given.
+ */
+export const testApiKey = action({
+  args: {
+    provider: UserApiKeyProvider,
+    key: v.optional(v.string()),
+  },
+  returns: v.object({
+    success: v.boolean(),
+    error: v.optional(v.string()),
+  }),
+  handler: async (
+    ctx,
+    { provider, key }
+  ): Promise<{ success: boolean; error?: string }> => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new ConvexError(ERROR_CODES.NOT_AUTHENTICATED);
+    }
+
+    const apiKey =
+      key?.trim() ||
+      (
+        await ctx.runQuery(internal.api_keys.getDecryptedKeyInternal, {
+          userId,
+          provider,
+        })
+      )?.key;
+    if (!apiKey) {
+      return { success: false, error: "No API key saved for this provider" };
+    }
+
+    const { url, init } = buildKeyTestRequest(provider, apiKey);
+    try {
+      const response = await fetch(url, {
+        ...init,
+        signal: AbortSignal.timeout(KEY_TEST_TIMEOUT_MS),
+      });
+      return response.ok
+        ? { success: true }
+        : { success: false, error: describeKeyTestFailure(response.status) };
+    } catch {
+      return { success: false, error: "Could not reach the provider" };
+    }
+  },
+});
+
+// Internal mutation to re-wrap one page of stored secrets with the newest
+// master key
+export const rewrapKeysBatch = internalMutation({
+  args: {
+    table: v.union(
+      v.literal("user_api_keys"),
+      v.literal("custom_endpoints"),
+      v.literal("user_search_keys"),
+      v.literal("scheduled_tasks")
+    ),
+    cursor: v.union(v.null(), v.string()),
+    batchSize: v.number(),
+  },
+  returns: v.object({
+    rewrapped: v.number(),
+    continueCursor: v.string(),
+    isDone: v.boolean(),
+  }),
+  handler: async (ctx, { table, cursor, batchSize }) => {
+    if (table === "scheduled_tasks") {
+      const tasks = await ctx.db
+        .query(table)
+        .paginate({ cursor, numItems: batchSize });
+      let rewrapped = 0;
+      for (const task of tasks.page) {
+        const notificationChannels = await rewrapWebhookSecrets(task);
+        if (notificationChannels) {
+          await ctx.db.patch(task._id, { notificationChannels });
+          rewrapped++;
+        }
+      }
+      return {
+        rewrapped,
+        continueCursor: tasks.continueCursor,
+        isDone: tasks.isDone,
+      };
+    }
+
+    const { page, continueCursor, isDone } = await ctx.db
+      .query(table)
+      .paginate({ cursor, numItems: batchSize });
+    const now = Date.now();
+    const updates = await rewrapRecords(MASTER_SECRETS, page);
+    for (const { record, secret } of updates) {
+      await ctx.db.patch(
+        record._id,
+        table === "user_api_keys" ? { ...secret, lastRotatedAt: now } : secret
+      );
+    }
+
+    return { rewrapped: updates.length, continueCursor, isDone };
+  },
+});
+
+/**
+ * Re-wrap every stored key with the newest master key, in batches. Run it
+ * after adding API_KEY_SECRET_V<n>, with
+ * `npx convex run api_keys:migrateApiKeys`.
+ */
+export const migrateApiKeys = internalAction({
+  args: { batchSize: v.optional(v.number()) },
+  returns: v.object({ keyVersion: v.number(), rewrapped: v.number() }),
+  handler: async (
+    ctx,
+    { batchSize }
+  ): Promise<{ keyVersion: number; rewrapped: number }> => {
+    const rewrapped = await rewrapAllTables((table, cursor) =>
+      ctx.runMutation(internal.api_keys.rewrapKeysBatch, {
+        table,
+        cursor,
+        batchSize: batchSize ?? MIGRATION_BATCH_SIZE,
+      })
+    );
+    return { keyVersion: getCurrentKeyVersion(MASTER_SECRETS), rewrapped };
+  },
+});
@@ -15,7 +15,11 @@ import {
   deleteChatCompletely,
   deleteMultipleChats,
 } from "./lib/cleanup_helper";
-import { sanitizeMessageParts } from "./lib/sanitization_helper";
+import { getParentKeys, getSelectedPath } from "./lib/message_tree";
+import {
+  sanitizeMessageMetadata,
+  sanitizeMessageParts,
+} from "./lib/sanitization_helper";
 import { Chat } from "./schema/chat";
 
 // New: Publish a chat and set share policy
@@ -155,7 +159,7 @@ export const forkFromShared = mutation({
         createdAt: m.createdAt,
         parentMessageId,
         parts: sanitizedParts,
-        metadata: m.metadata,
+        metadata: sanitizeMessageMetadata(m.metadata),
       });
 
       // Track the ID mapping for future parent references
@@ -171,16 +175,24 @@ export const createChat = mutation({
     title: v.optional(v.string()),
     model: v.optional(v.string()),
     personaId: v.optional(v.string()),
+    projectId: v.optional(v.id("projects")),
   },
   returns: v.object({ chatId: v.id("chats") }),
   handler: async (ctx, args) => {
     const userId = await ensureAuthenticated(ctx);
+    if (args.projectId) {
+      const project = await ctx.db.get(args.projectId);
+      if (!project || project.userId !== userId) {
+        throw new ConvexError(ERROR_CODES.PROJECT_NOT_FOUND);
+      }
+    }
     const now = Date.now();
     const chatId = await ctx.db.insert("chats", {
       userId,
       title: args.title ?? "New Chat",
       model: args.model,
       personaId: args.personaId,
+      projectId: args.projectId,
       createdAt: now,
       updatedAt: now,
       // Always set explicit boolean defaults (never undefined)
@@ -255,6 +267,35 @@ export const updateChatTitle = mutation({
   },
 });
 
+export const updateContextSummary = mutation({
+  args: {
+    chatId: v.id("chats"),
+    text: v.string(),
+    lastMessageId: v.string(),
+  },
+  returns: v.null(),
+  handler: async (ctx, { chatId, text, lastMessageId }) => {
+    const result = await tryEnsureChatAccess(ctx, chatId);
+    if (!result) {
+      return null;
+    }
+    // The summary must end at a stored message of this chat
+    const messageId = ctx.db.normalizeId("messages", lastMessageId);
+    const message = messageId ? await ctx.db.get(messageId) : null;
+    if (!message || message.chatId !== chatId) {
+      throw new ConvexError(ERROR_CODES.MESSAGE_NOT_FOUND);
+    }
+    await ctx.db.patch(chatId, {
+      contextSummary: {
+        text,
+        lastMessageId: message._id,
+        updatedAt: Date.now(),
+      },
+    });
+    return null;
+  },
+});
+
 export const deleteChat = mutation({
   args: { chatId: v.id("chats") },
   returns: v.null(),
@@ -333,10 +374,6 @@ export const branchChat = mutation({
       throw new ConvexError(ERROR_CODES.UNSUPPORTED_OPERATION);
     }
 
-    // Get the branch message creation time for filtering
-    const branchTimestamp =
-      branchMessage.createdAt ?? branchMessage._creationTime;
-
     // Create new chat with same properties as original but mark as branched
     const now = Date.now();
     const newChatId = await ctx.db.insert("chats", {
@@ -344,6 +381,7 @@ export const branchChat = mutation({
       title: originalChat.title || "New Chat",
       model: originalChat.model,
       personaId: originalChat.personaId,
+      projectId: originalChat.projectId,
       originalChatId: args.originalChatId,
       createdAt: now,
       updatedAt: now,
@@ -352,45 +390,60 @@ export const branchChat = mutation({
       shareAttachments: false,
     });
 
-    // Get all messages up to and including the branch point
-    const messagesToCopy = await ctx.db
+    // Copy the selected path of the message tree up to the branch point
+    const originalMessages = await ctx.db
       .query("messages")
       .withIndex("by_chat_and_created", (q) =>
         q.eq("chatId", args.originalChatId)
       )
       .order("asc")
       .collect();
+    const { path } = getSelectedPath(
+      originalMessages,
+      originalChat.selectedRootMessageId
+    );
+    const branchIndex = path.findIndex(
+      ({ message }) => message._id === args.branchFromMessageId
+    );
+    if (branchIndex === -1) {
+      throw new ConvexError(ERROR_CODES.MESSAGE_NOT_FOUND);
+    }
+    const parentKeys = getParentKeys(originalMessages);
 
-    // Copy messages up to and including the branch message in parallel
-    const messageInsertPromises: Promise<Id<"messages">>[] = [];
-    for (const message of messagesToCopy) {
-      const messageTimestamp = message.createdAt ?? message._creationTime;
-
-      // Include messages up to and including the branch message
-      if (messageTimestamp <= branchTimestamp) {
-        messageInsertPromises.push(
-          ctx.db.insert("messages", {
-            chatId: newChatId,
-            userId: message.userId,
-            role: message.role,
-            content: message.content,
-            createdAt: message.createdAt,
-            parentMessageId: message.parentMessageId,
-            parts: message.parts,
-            metadata: message.metadata,
-          })
-        );
-      }
+    // Insert in order so parents can be remapped to the copied messages
+    const idMap = new Map<string, Id<"messages">>();
+    for (const { message } of path.slice(0, branchIndex + 1)) {
+      const parentKey = parentKeys.get(message._id);
+      const newMessageId = await ctx.db.insert("messages", {
+        chatId: newChatId,
+        userId: message.userId,
+        role: message.role,
+        content: message.content,
+        createdAt: message.createdAt,
+        parentMessageId: parentKey ? idMap.get(parentKey) : undefined,
+        parts: message.parts,
+        metadata: message.metadata,
+        ...(message.compareGroupId
+          ? {
+              compareGroupId: message.compareGroupId,
+              compareModelIds: message.compareModelIds,
+            }
+          : {}),
+      });
+      idMap.set(message._id, newMessageId);
+    }
 
-      // Stop after we've processed the branch message
-      if (message._id === args.branchFromMessageId) {
-        break;
+    // Keep the picked compare winners on the copied path
+    for (const { message } of path.slice(0, branchIndex + 1)) {
+      const selectedChildId = message.selectedChildId
+        ? idMap.get(message.selectedChildId)
+        : undefined;
+      const newMessageId = idMap.get(message._id);
+      if (message.compareGroupId && selectedChildId && newMessageId) {
+        await ctx.db.patch(newMessageId, { selectedChildId });
       }
     }
 
-    // Execute all message insertions in parallel
-    await Promise.all(messageInsertPromises);
-
     return { chatId: newChatId };
   },
 });
@@ -0,0 +1,59 @@
+"use node";
+
+import { v } from "convex/values";
+import { createTaskTrigger, deleteTaskTrigger } from "@/lib/composio-server";
+import { internal } from "./_generated/api";
+import { internalAction } from "./_generated/server";
+
+// Register an event task's trigger with Composio
+export const registerTaskTrigger = internalAction({
+  args: { taskId: v.id("scheduled_tasks") },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const task = await ctx.runQuery(internal.scheduled_tasks.getTask, {
+      taskId: args.taskId,
+    });
+    if (!task?.trigger || task.scheduleType !== "event") {
+      return null;
+    }
+    const trigger = { type: task.trigger.type, filter: task.trigger.filter };
+
+    let composioTriggerId: string;
+    try {
+      composioTriggerId = await createTaskTrigger(task.userId, trigger);
+    } catch (error) {
+      // Shown on the task card, e.g. when the connection lacks a permission
+      await ctx.runMutation(internal.task_triggers.setTriggerRegistration, {
+        taskId: args.taskId,
+        trigger,
+        error:
+          error instanceof Error ? error.message : "Failed to register trigger",
+      });
+      return null;
+    }
+
+    const isSaved = await ctx.runMutation(
+      internal.task_triggers.setTriggerRegistration,
+      { taskId: args.taskId, trigger, composioTriggerId }
+    );
+    // The task was edited or deleted while registering
+    if (!isSaved) {
+      await deleteTaskTrigger(composioTriggerId);
+    }
+    return null;
+  },
+});
+
+// Remove a trigger from Composio after its task changed or was deleted
+export const unregisterTaskTrigger = internalAction({
+  args: { composioTriggerId: v.string() },
+  returns: v.null(),
+  handler: async (_ctx, args) => {
+    try {
+      await deleteTaskTrigger(args.composioTriggerId);
+    } catch {
+      // The trigger may already be gone, e.g. after its connection was removed
+    }
+    return null;
+  },
+});
@@ -0,0 +1,263 @@
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { ConvexError, v } from "convex/values";
+import type { EncryptedSecret } from "../lib/api-key-crypto";
+import { ERROR_CODES } from "../lib/error-codes";
+import {
+  allowsPrivateCustomEndpoints,
+  isPrivateHostname,
+} from "../lib/private-address";
+import type { Doc, Id } from "./_generated/dataModel";
+import {
+  internalQuery,
+  mutation,
+  type QueryCtx,
+  query,
+} from "./_generated/server";
+import { decryptKey, encryptKey } from "./api_keys";
+import { ensureAuthenticated } from "./lib/auth_helper";
+import { CustomEndpointModel } from "./schema/custom_endpoint";
+
+// Constants for custom endpoint limits
+const CUSTOM_ENDPOINT_LIMITS = {
+  perUser: 10,
+  modelsPerEndpoint: 50,
+  nameLength: 64,
+} as const;
+
+const TRAILING_SLASHES_REGEX = /\/+$/;
+
+const customEndpointSummary = v.object({
+  _id: v.id("custom_endpoints"),
+  name: v.string(),
+  baseUrl: v.string(),
+  hasKey: v.boolean(),
+  models: v.array(CustomEndpointModel),
+  createdAt: v.number(),
+  updatedAt: v.number(),
+});
+
+const toSummary = (endpoint: Doc<"custom_endpoints">) => ({
+  _id: endpoint._id,
+  name: endpoint.name,
+  baseUrl: endpoint.baseUrl,
+  hasKey: Boolean(endpoint.encryptedKey),
+  models: endpoint.models,
+  createdAt: endpoint.createdAt,
+  updatedAt: endpoint.updatedAt,
+});
+
+// Helper function to validate and normalize an endpoint base URL. Host names
+// are not resolved here; callers check the resolved address before each call.
+function normalizeBaseUrl(baseUrl: string): string {
+  let url: URL;
+  try {
+    url = new URL(baseUrl.trim());
+  } catch {
+    throw new ConvexError(ERROR_CODES.INVALID_INPUT);
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new ConvexError(ERROR_CODES.INVALID_INPUT);
+  }
+  if (!allowsPrivateCustomEndpoints() && isPrivateHostname(url.hostname)) {
+    throw new ConvexError(ERROR_CODES.CUSTOM_ENDPOINT_PRIVATE_URL);
+  }
+  return url.toString().replace(TRAILING_SLASHES_REGEX, "");
+}
+
+/**
+ * List the authenticated user's custom endpoints. Keys are never returned.
+ */
+export const listCustomEndpoints = query({
+  args: {},
+  returns: v.array(customEndpointSummary),
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      return [];
+    }
+    const endpoints = await ctx.db
+      .query("custom_endpoints")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .collect();
+    return endpoints.map(toSummary);
+  },
+});
+
+/**
+ * Create or update a custom endpoint. On update, an omitted apiKey keeps the
+ * stored key and an empty one removes it.
+ */
+export const saveCustomEndpoint = mutation({
+  args: {
+    endpointId: v.optional(v.id("custom_endpoints")),
+    name: v.string(),
+    baseUrl: v.string(),
+    apiKey: v.optional(v.string()),
+    models: v.array(CustomEndpointModel),
+  },
+  returns: v.id("custom_endpoints"),
+  handler: async (ctx, args) => {
+    const userId = await ensureAuthenticated(ctx);
+
+    const name = args.name.trim().slice(0, CUSTOM_ENDPOINT_LIMITS.nameLength);
+    const models = args.models
+      .map((model) => ({
+        ...model,
+        modelId: model.modelId.trim(),
+        name: model.name?.trim() || undefined,
+      }))
+      .filter(
+        (model, index, all) =>
+          model.modelId &&
+          all.findIndex((m) => m.modelId === model.modelId) === index
+      );
+    if (!name || models.length === 0) {
+      throw new ConvexError(ERROR_CODES.MISSING_REQUIRED_FIELD);
+    }
+    if (models.length > CUSTOM_ENDPOINT_LIMITS.modelsPerEndpoint) {
+      throw new ConvexError(ERROR_CODES.INVALID_INPUT);
+    }
+    const baseUrl = normalizeBaseUrl(args.baseUrl);
+    const apiKey = args.apiKey?.trim();
+    const now = Date.now();
+
+    if (args.endpointId) {
+      const existing = await ctx.db.get(args.endpointId);
+      if (!existing || existing.userId !== userId) {
+        throw new ConvexError(ERROR_CODES.UNAUTHORIZED);
+      }
+      // An empty key clears all three secret fields
+      let secret: Partial<EncryptedSecret> = {
+        encryptedKey: existing.encryptedKey,
+        encryptedDataKey: existing.encryptedDataKey,
+        keyVersion: existing.keyVersion,
+      };
+      if (apiKey !== undefined) {
+        secret = apiKey
+          ? await encryptKey(apiKey, userId)
+          : {
+              encryptedKey: undefined,
+              encryptedDataKey: undefined,
+              keyVersion: undefined,
+            };
+      }
+      await ctx.db.patch(args.endpointId, {
+        name,
+        baseUrl,
+        ...secret,
+        models,
+        updatedAt: now,
+      });
+      return args.endpointId;
+    }
+
+    const endpoints = await ctx.db
+      .query("custom_endpoints")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .collect();
+    if (endpoints.length >= CUSTOM_ENDPOINT_LIMITS.perUser) {
+      throw new ConvexError(ERROR_CODES.CUSTOM_ENDPOINT_LIMIT_REACHED);
+    }
+
+    return await ctx.db.insert("custom_endpoints", {
+      userId,
+      name,
+      baseUrl,
+      ...(apiKey ? await encryptKey(apiKey, userId) : {}),
+      models,
+      createdAt: now,
+      updatedAt: now,
+    });
+  },
+});
+
+/**
+ * Delete one of the authenticated user's custom endpoints
+ */
+export const deleteCustomEndpoint = mutation({
+  args: { endpointId: v.id("custom_endpoints") },
+  returns: v.null(),
+  handler: async (ctx, { endpointId }) => {
+    const userId = await ensureAuthenticated(ctx);
+    const endpoint = await ctx.db.get(endpointId);
+    if (!endpoint || endpoint.userId !== userId) {
+      throw new ConvexError(ERROR_CODES.UNAUTHORIZED);
+    }
+    await ctx.db.delete(endpointId);
+    return null;
+  },
+});
+
+const customModelConfig = v.union(
+  v.null(),
+  v.object({
+    endpointName: v.string(),
+    baseUrl: v.string(),
+    apiKey: v.union(v.null(), v.string()),
+    model: CustomEndpointModel,
+  })
+);
+
+// Helper function to load a user's custom model with its decrypted key
+async function loadCustomModelConfig(
+  ctx: QueryCtx,
+  userId: Id<"users">,
+  endpointId: string,
+  modelId: string
+) {
+  const id = ctx.db.normalizeId("custom_endpoints", endpointId);
+  const endpoint = id ? await ctx.db.get(id) : null;
+  if (!endpoint || endpoint.userId !== userId) {
+    return null;
+  }
+  const model = endpoint.models.find((m) => m.modelId === modelId);
+  if (!model) {
+    return null;
+  }
+  return {
+    endpointName: endpoint.name,
+    baseUrl: endpoint.baseUrl,
+    apiKey: endpoint.encryptedKey
+      ? await decryptKey(
+          {
+            encryptedKey: endpoint.encryptedKey,
+            encryptedDataKey: endpoint.encryptedDataKey,
+            keyVersion: endpoint.keyVersion,
+          },
+          userId
+        )
+      : null,
+    model,
+  };
+}
+
+/**
+ * Get the connection details of a custom model for the chat route, including
+ * the decrypted key
+ */
+export const getCustomModelConfig = query({
+  args: {
+    endpointId: v.string(),
+    modelId: v.string(),
+  },
+  returns: customModelConfig,
+  handler: async (ctx, { endpointId, modelId }) => {
+    const userId = await ensureAuthenticated(ctx);
+    return await loadCustomModelConfig(ctx, userId, endpointId, modelId);
+  },
+});
+
+/**
+ * Get the connection details of a custom model for a background task run
+ */
+export const getCustomModelConfigInternal = internalQuery({
+  args: {
+    userId: v.id("users"),
+    endpointId: v.string(),
+    modelId: v.string(),
+  },
+  returns: customModelConfig,
+  handler: async (ctx, { userId, endpointId, modelId }) => {
+    return await loadCustomModelConfig(ctx, userId, endpointId, modelId);
+  },
+});
@@ -0,0 +1,156 @@
+import { v } from "convex/values";
+import { internalMutation, internalQuery } from "./_generated/server";
+import { deleteChunksForAttachment } from "./lib/cleanup_helper";
+
+const indexStatus = v.union(
+  v.literal("pending"),
+  v.literal("indexed"),
+  v.literal("failed")
+);
+
+/**
+ * Load an attachment for indexing; the action runs without user auth
+ */
+export const getAttachmentForIndexing = internalQuery({
+  args: { attachmentId: v.id("chat_attachments") },
+  returns: v.union(
+    v.null(),
+    v.object({
+      userId: v.id("users"),
+      key: v.string(),
+      fileName: v.string(),
+      fileType: v.string(),
+      url: v.optional(v.string()),
+    })
+  ),
+  handler: async (ctx, { attachmentId }) => {
+    const attachment = await ctx.db.get(attachmentId);
+    if (!(attachment?.fileName && attachment.fileType)) {
+      return null;
+    }
+    return {
+      userId: attachment.userId,
+      key: attachment.key,
+      fileName: attachment.fileName,
+      fileType: attachment.fileType,
+      url: attachment.url,
+    };
+  },
+});
+
+export const setIndexStatus = internalMutation({
+  args: {
+    attachmentId: v.id("chat_attachments"),
+    status: indexStatus,
+  },
+  returns: v.null(),
+  handler: async (ctx, { attachmentId, status }) => {
+    // The attachment may have been deleted while it was being indexed
+    if (await ctx.db.get(attachmentId)) {
+      await ctx.db.patch(attachmentId, { indexStatus: status });
+    }
+    return null;
+  },
+});
+
+/**
+ * Replace the stored chunks of an attachment and mark it as indexed
+ */
+export const saveChunks = internalMutation({
+  args: {
+    attachmentId: v.id("chat_attachments"),
+    chunks: v.array(
+      v.object({
+        text: v.string(),
+        embedding: v.array(v.float64()),
+      })
+    ),
+  },
+  returns: v.null(),
+  handler: async (ctx, { attachmentId, chunks }) => {
+    const attachment = await ctx.db.get(attachmentId);
+    if (!attachment) {
+      return null;
+    }
+
+    await deleteChunksForAttachment(ctx, attachmentId);
+    const now = Date.now();
+    await Promise.all(
+      chunks.map((chunk, chunkIndex) =>
+        ctx.db.insert("document_chunks", {
+          userId: attachment.userId,
+          attachmentId,
+          fileName: attachment.fileName ?? attachment.key,
+          chunkIndex,
+          text: chunk.text,
+          embedding: chunk.embedding,
+          createdAt: now,
+        })
+      )
+    );
+    await ctx.db.patch(attachmentId, { indexStatus: "indexed" });
+    return null;
+  },
+});
+
+/**
+ * Load vector search hits, keeping only the user's chunks and, when given,
+ * chunks of the listed attachments
+ */
+export const getChunksByIds = internalQuery({
+  args: {
+    userId: v.id("users"),
+    chunkIds: v.array(v.id("document_chunks")),
+    attachmentIds: v.optional(v.array(v.id("chat_attachments"))),
+  },
+  returns: v.array(
+    v.object({
+      _id: v.id("document_chunks"),
+      attachmentId: v.id("chat_attachments"),
+      fileName: v.string(),
+      chunkIndex: v.number(),
+      text: v.string(),
+      url: v.optional(v.string()),
+    })
+  ),
+  handler: async (ctx, { userId, chunkIds, attachmentIds }) => {
+    const allowed = attachmentIds ? new Set(attachmentIds) : null;
+    const chunks = await Promise.all(chunkIds.map((id) => ctx.db.get(id)));
+    const results = await Promise.all(
+      chunks.map(async (chunk) => {
+        if (
+          !chunk ||
+          chunk.userId !== userId ||
+          (allowed && !allowed.has(chunk.attachmentId))
+        ) {
+          return null;
+        }
+        const attachment = await ctx.db.get(chunk.attachmentId);
+        return {
+          _id: chunk._id,
+          attachmentId: chunk.attachmentId,
+          fileName: chunk.fileName,
+          chunkIndex: chunk.chunkIndex,
+          text: chunk.text,
+          url: attachment?.url,
+        };
+      })
+    );
+    return results.filter((result) => result !== null);
+  },
+});
+
+/**
+ * Get the reference files of a project owned by the user
+ */
+export const getProjectAttachmentIds = internalQuery({
+  args: { userId: v.id("users"), projectId: v.id("projects") },
+  returns: v.union(v.null(), v.array(v.id("chat_attachments"))),
+  handler: async (ctx, { userId, projectId }) => {
+    const project = await ctx.db.get(projectId);
+    if (!project || project.userId !== userId) {
+      return null;
+    }
+    return project.attachmentIds ?? [];
+  },
+});
@@ -0,0 +1,184 @@
+"use node";
+
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { R2 } from "@convex-dev/r2";
+import { generateText } from "ai";
+import { ConvexError, v } from "convex/values";
+import { MODELS_MAP } from "@/lib/config";
+import { ERROR_CODES } from "@/lib/error-codes";
+import {
+  chunkText,
+  DOCUMENT_EXTRACTION_MODEL,
+  getEmbedder,
+  RETRIEVAL_CONFIG,
+} from "@/lib/retrieval";
+import { components, internal } from "./_generated/api";
+import type { Id } from "./_generated/dataModel";
+import { action, internalAction } from "./_generated/server";
+
+const r2 = new R2(components.r2);
+
+type DocumentSearchResult = {
+  fileName: string;
+  chunkIndex: number;
+  text: string;
+  url?: string;
+  score: number;
+};
+
+const EXTRACTION_PROMPT =
+  "Transcribe the full text of this document as plain text. Keep headings, lists and table rows on their own lines. Do not summarize or add commentary.";
+
+// Helper function to read the plain text of an uploaded document
+async function extractDocumentText(document: {
+  key: string;
+  fileType: string;
+  url?: string;
+}): Promise<string> {
+  const url = document.url ?? (await r2.getUrl(document.key));
+
+  // PDFs are transcribed by a model with native PDF support
+  if (document.fileType === "application/pdf") {
+    const model = MODELS_MAP[DOCUMENT_EXTRACTION_MODEL];
+    const { text } = await generateText({
+      model: model.api_sdk,
+      messages: [
+        {
+          role: "user",
+          content: [
+            { type: "text", text: EXTRACTION_PROMPT },
+            {
+              type: "file",
+              data: new URL(url),
+              mediaType: "application/pdf",
+            },
+          ],
+        },
+      ],
+    });
+    return text;
+  }
+
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to download document: ${response.status}`);
+  }
+  return await response.text();
+}
+
+/**
+ * Chunk and embed an uploaded document so search_documents can find it
+ */
+export const indexAttachment = internalAction({
+  args: { attachmentId: v.id("chat_attachments") },
+  returns: v.null(),
+  handler: async (ctx, { attachmentId }) => {
+    const document = await ctx.runQuery(
+      internal.documents.getAttachmentForIndexing,
+      { attachmentId }
+    );
+    if (!document) {
+      return null;
+    }
+
+    try {
+      const text = await extractDocumentText(document);
+      const chunks = chunkText(text).slice(
+        0,
+        RETRIEVAL_CONFIG.maxChunksPerDocument
+      );
+      const embeddings =
+        chunks.length > 0 ? await getEmbedder().embed(chunks) : [];
+
+      await ctx.runMutation(internal.documents.saveChunks, {
+        attachmentId,
+        chunks: chunks.map((chunk, index) => ({
+          text: chunk,
+          embedding: embeddings[index],
+        })),
+      });
+    } catch {
+      await ctx.runMutation(internal.documents.setIndexStatus, {
+        attachmentId,
+        status: "failed",
+      });
+    }
+    return null;
+  },
+});
+
+/**
+ * Find the passages of the user's uploaded documents most relevant to a
+ * query, optionally limited to the reference files of a project
+ */
+export const searchDocuments = action({
+  args: {
+    query: v.string(),
+    projectId: v.optional(v.id("projects")),
+    limit: v.optional(v.number()),
+  },
+  returns: v.array(
+    v.object({
+      fileName: v.string(),
+      chunkIndex: v.number(),
+      text: v.string(),
+      url: v.optional(v.string()),
+      score: v.number(),
+    })
+  ),
+  handler: async (
+    ctx,
+    { query, projectId, limit }
+  ): Promise<DocumentSearchResult[]> => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new ConvexError(ERROR_CODES.NOT_AUTHENTICATED);
+    }
+    const trimmedQuery = query.trim();
+    if (!trimmedQuery) {
+      return [];
+    }
+
+    let attachmentIds: Id<"chat_attachments">[] | undefined;
+    if (projectId) {
+      const projectFiles: Id<"chat_attachments">[] | null = await ctx.runQuery(
+        internal.documents.getProjectAttachmentIds,
+        { userId, projectId }
+      );
+      if (!projectFiles) {
+        throw new ConvexError(ERROR_CODES.PROJECT_NOT_FOUND);
+      }
+      if (projectFiles.length === 0) {
+        return [];
+      }
+      attachmentIds = projectFiles;
+    }
+
+    const resultLimit = Math.min(
+      Math.max(limit ?? RETRIEVAL_CONFIG.defaultResults, 1),
+      RETRIEVAL_CONFIG.maxResults
+    );
+    const [embedding] = await getEmbedder().embed([trimmedQuery]);
+    const hits = await ctx.vectorSearch("document_chunks", "by_embedding", {
+      vector: embedding,
+      // Over-fetch when results are filtered down to a project afterwards
+      limit: attachmentIds ? resultLimit * 5 : resultLimit,
+      filter: (q) => q.eq("userId", userId),
+    });
+
+    const scores = new Map(hits.map((hit) => [hit._id, hit._score]));
+    const chunks = await ctx.runQuery(internal.documents.getChunksByIds, {
+      userId,
+      chunkIds: hits.map((hit) => hit._id),
+      attachmentIds,
+    });
+
+    return chunks.slice(0, resultLimit).map((chunk) => ({
+      fileName: chunk.fileName,
+      chunkIndex: chunk.chunkIndex,
+      text: chunk.text,
+      url: chunk.url,
+      score: scores.get(chunk._id) ?? 0,
+    }));
+  },
+});
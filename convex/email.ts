@@ -157,6 +157,113 @@ export const sendTaskSummaryEmail = internalMutation({
   },
 });
 
+/**
+ * Let the user know a task run failed after its last retry
+ * This function is designed to never throw errors that would break task execution
+ */
+export const sendTaskFailureEmail = internalMutation({
+  args: {
+    userId: v.id("users"),
+    taskId: v.id("scheduled_tasks"),
+    taskTitle: v.string(),
+    errorMessage: v.string(),
+    attempts: v.number(),
+  },
+  returns: v.object({
+    success: v.boolean(),
+    error: v.optional(v.string()),
+  }),
+  handler: async (ctx, args) => {
+    try {
+      const user = await ctx.db.get(args.userId);
+
+      if (!user) {
+        return { success: false, error: "User not found" };
+      }
+
+      if (!(user.email && EMAIL_REGEX.test(user.email))) {
+        return { success: false, error: "User has no valid email address" };
+      }
+
+      const userName = user.name || user.preferredName || "there";
+      const failureSummary = describeFailure(args.attempts);
+      const tasksUrl = `${process.env.NEXT_PUBLIC_APP_URL || "https://oschat.ai"}/tasks`;
+
+      await resend.sendEmail(ctx, {
+        from: "OS Chat <noreply@oschat.ai>",
+        to: user.email,
+        subject: `Task Failed: ${args.taskTitle}`,
+        html: createFailureTemplate({
+          ...args,
+          failureSummary,
+          userName,
+          tasksUrl,
+        }),
+        text: `Scheduled Task Failed
+
+Hi ${userName},
+
+Your scheduled task ${failureSummary}.
+
+Task: ${args.taskTitle}
+Last error: ${args.errorMessage}
+
+Review the task's execution history: ${tasksUrl}
+`,
+      });
+
+      return { success: true };
+    } catch (error) {
+      // Log error but don't throw - we never want to break task execution
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  },
+});
+
+// Helper function to describe how often a failed run was attempted
+function describeFailure(attempts: number): string {
+  return attempts > 1
+    ? `failed ${attempts} times in a row and will not be retried`
+    : "failed and will not be retried";
+}
+
+/**
+ * Create HTML email template for a failed task run
+ */
+function createFailureTemplate({
+  taskTitle,
+  errorMessage,
+  failureSummary,
+  userName,
+  tasksUrl,
+}: {
+  taskTitle: string;
+  errorMessage: string;
+  failureSummary: string;
+  userName: string;
+  tasksUrl: string;
+}): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Task Failed: ${escapeHtml(taskTitle)}</title>
+</head>
+<body style="font-family: 'SF Mono', Monaco, 'Cascadia Code', 'Roboto Mono', 'Courier New', monospace; font-size: 14px; line-height: 1.6; color: #333333; background: #f8f8f8; padding: 20px;">
+    <div style="max-width: 650px; margin: 0 auto; background: #ffffff; border: 1px solid #cccccc; padding: 24px;">
+        <p>Hi ${escapeHtml(userName)},</p>
+        <p>Your scheduled task <strong>${escapeHtml(taskTitle)}</strong> ${failureSummary}.</p>
+        <pre style="white-space: pre-wrap; background: #f4f4f4; border: 1px solid #e0e0e0; padding: 12px;">${escapeHtml(errorMessage)}</pre>
+        <p><a href="${tasksUrl}" style="color: #333333;">Review the execution history</a></p>
+    </div>
+</body>
+</html>`;
+}
+
 /**
  * Create HTML email template for task summary
  * Currently using the monospace terminal-style template
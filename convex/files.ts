@@ -1,12 +1,17 @@
 import { getAuthUserId } from "@convex-dev/auth/server";
 import { R2, type R2Callbacks } from "@convex-dev/r2";
 import { ConvexError, v } from "convex/values";
-import { UPLOAD_ALLOWED_MIME, UPLOAD_MAX_BYTES } from "@/lib/config/upload";
+import {
+  isIndexableMime,
+  UPLOAD_ALLOWED_MIME,
+  UPLOAD_MAX_BYTES,
+} from "@/lib/config/upload";
 import { sanitizeAndValidateFileName } from "@/lib/filename";
 import { ERROR_CODES } from "../lib/error-codes";
 import { api, components, internal } from "./_generated/api";
 import type { Id } from "./_generated/dataModel";
 import { action, internalMutation, mutation, query } from "./_generated/server";
+import { deleteChunksForAttachment } from "./lib/cleanup_helper";
 
 // R2 client and client API exports (used by React upload hook and server routes)
 const r2 = new R2(components.r2);
@@ -321,6 +326,9 @@ export const internalSave = internalMutation({
 
     const safeName = sanitizeAndValidateFileName(args.fileName);
 
+    // Documents are indexed in the background for search_documents
+    const shouldIndex = isIndexableMime(args.fileType);
+
     // Patch the existing pending row instead of creating a duplicate
     await ctx.db.patch(existing._id, {
       chatId: args.chatId,
@@ -328,7 +336,13 @@ export const internalSave = internalMutation({
       fileType: args.fileType,
       fileSize: args.fileSize,
       url: args.url,
+      indexStatus: shouldIndex ? "pending" : undefined,
     });
+    if (shouldIndex) {
+      await ctx.scheduler.runAfter(0, internal.documents_ai.indexAttachment, {
+        attachmentId: existing._id,
+      });
+    }
     return existing._id;
   },
 });
@@ -501,6 +515,7 @@ export const deleteAttachments = mutation({
     await Promise.all([
       ...keysToDelete.map((key) => r2.deleteObject(ctx, key)),
       ...docIdsToDelete.map((id) => ctx.db.delete(id)),
+      ...docIdsToDelete.map((id) => deleteChunksForAttachment(ctx, id)),
     ]);
   },
 });
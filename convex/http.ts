@@ -2,6 +2,7 @@ import { httpRouter } from "convex/server";
 import { internal } from "./_generated/api";
 import { auth } from "./auth";
 import { polar } from "./polar";
+import { handleComposioWebhook } from "./task_triggers";
 
 const http = httpRouter();
 
@@ -25,4 +26,11 @@ polar.registerRoutes(http, {
   },
 });
 
+// Composio trigger events that run event tasks
+http.route({
+  path: "/composio/triggers",
+  method: "POST",
+  handler: handleComposioWebhook,
+});
+
 export default http;
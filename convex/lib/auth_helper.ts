@@ -161,3 +161,30 @@ export async function validateChatOwnership(
     (chat): chat is Doc<"chats"> => chat !== null && chat.userId === userId
   );
 }
+
+// Helper function to compare secrets without leaking where they differ
+function secretsMatch(a: string, b: string): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+  let difference = 0;
+  for (let index = 0; index < a.length; index++) {
+    difference += a.charCodeAt(index) === b.charCodeAt(index) ? 0 : 1;
+  }
+  return difference === 0;
+}
+
+/**
+ * Ensures a call comes from the Next.js server, which sends the
+ * PUBLIC_API_SERVER_SECRET both servers share.
+ * Throws an error for any other caller.
+ *
+ * @example
+ * assertServerSecret(args.serverSecret);
+ */
+export function assertServerSecret(serverSecret: string): void {
+  const expected = process.env.PUBLIC_API_SERVER_SECRET;
+  if (!(expected && secretsMatch(serverSecret, expected))) {
+    throw new ConvexError(ERROR_CODES.UNAUTHORIZED);
+  }
+}
@@ -27,6 +27,24 @@ export async function deleteMessagesForChat(
   return messageIds;
 }
 
+/**
+ * Deletes the search chunks of an uploaded document.
+ *
+ * @example
+ * await deleteChunksForAttachment(ctx, attachmentId);
+ */
+export async function deleteChunksForAttachment(
+  ctx: MutationCtx,
+  attachmentId: Id<"chat_attachments">
+): Promise<void> {
+  const chunks = await ctx.db
+    .query("document_chunks")
+    .withIndex("by_attachment", (q) => q.eq("attachmentId", attachmentId))
+    .collect();
+
+  await Promise.all(chunks.map((chunk) => ctx.db.delete(chunk._id)));
+}
+
 /**
  * Deletes all attachments (files and database records) for a given chat.
  * Silently handles storage deletion errors to ensure cleanup continues.
@@ -54,8 +72,11 @@ export async function deleteAttachmentsForChat(
         // Silently handle storage deletion errors
         // Continue with DB cleanup even if storage deletion fails
       }
-      // Then delete the database record
-      await ctx.db.delete(attachment._id);
+      // Then delete the database record and its search chunks
+      await Promise.all([
+        ctx.db.delete(attachment._id),
+        deleteChunksForAttachment(ctx, attachment._id),
+      ]);
     })
   );
 }
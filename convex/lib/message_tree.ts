@@ -0,0 +1,144 @@
+import type { Doc, Id } from "../_generated/dataModel";
+
+/**
+ * Message tree helpers.
+ * Regenerations and edits add sibling messages under the same parent, and
+ * every parent remembers which child is selected. The chat shows the
+ * selected path from the root down to a leaf.
+ */
+
+type TreeMessage = Pick<
+  Doc<"messages">,
+  | "_id"
+  | "role"
+  | "parentMessageId"
+  | "isRoot"
+  | "compareGroupId"
+  | "selectedChildId"
+>;
+
+export const ROOT_KEY = "root";
+
+export type PathEntry<T extends TreeMessage> = {
+  message: T;
+  // All versions of the message, only set when there is more than one
+  siblingIds?: Id<"messages">[];
+};
+
+/**
+ * Resolves the parent of every message (ROOT_KEY for roots).
+ * Chats were stored as a flat list before messages formed a tree, so a
+ * message without a (known) parent hangs off the message before it.
+ * Messages must be sorted by creation time.
+ */
+export function getParentKeys<T extends TreeMessage>(
+  messages: T[]
+): Map<Id<"messages">, string> {
+  const ids = new Set<string>(messages.map((m) => m._id));
+  const parentKeys = new Map<Id<"messages">, string>();
+
+  messages.forEach((message, index) => {
+    if (message.parentMessageId && ids.has(message.parentMessageId)) {
+      parentKeys.set(message._id, message.parentMessageId);
+    } else if (index === 0 || message.isRoot) {
+      parentKeys.set(message._id, ROOT_KEY);
+    } else {
+      parentKeys.set(message._id, messages[index - 1]._id);
+    }
+  });
+
+  return parentKeys;
+}
+
+/**
+ * Groups messages by parent key, keeping creation order within a group
+ */
+export function getChildrenByParent<T extends TreeMessage>(
+  messages: T[]
+): Map<string, T[]> {
+  const parentKeys = getParentKeys(messages);
+  const children = new Map<string, T[]>();
+
+  for (const message of messages) {
+    const key = parentKeys.get(message._id) ?? ROOT_KEY;
+    const siblings = children.get(key) ?? [];
+    siblings.push(message);
+    children.set(key, siblings);
+  }
+
+  return children;
+}
+
+/**
+ * Walks the selected path through the tree. Without a stored selection the
+ * newest version is shown. The answers of a compared prompt are all part of
+ * the path and the thread continues from the picked winner (or the first
+ * answer until one is picked).
+ */
+export function getSelectedPath<T extends TreeMessage>(
+  messages: T[],
+  selectedRootId?: Id<"messages">
+): { path: PathEntry<T>[]; leafId?: Id<"messages"> } {
+  const children = getChildrenByParent(messages);
+  const byId = new Map(messages.map((m) => [m._id as string, m]));
+  const path: PathEntry<T>[] = [];
+  const visited = new Set<string>();
+  let key = ROOT_KEY;
+  let leafId: Id<"messages"> | undefined;
+
+  while (!visited.has(key)) {
+    visited.add(key);
+    const siblings = children.get(key);
+    if (!siblings?.length) {
+      break;
+    }
+
+    const parent = byId.get(key);
+    const selectedId =
+      key === ROOT_KEY ? selectedRootId : parent?.selectedChildId;
+
+    if (parent?.compareGroupId) {
+      for (const answer of siblings) {
+        path.push({ message: answer });
+      }
+      const winner =
+        siblings.find((m) => m._id === selectedId) ?? (siblings[0] as T);
+      leafId = winner._id;
+      key = winner._id;
+      continue;
+    }
+
+    const selected =
+      siblings.find((m) => m._id === selectedId) ?? (siblings.at(-1) as T);
+    path.push({
+      message: selected,
+      siblingIds: siblings.length > 1 ? siblings.map((m) => m._id) : undefined,
+    });
+    leafId = selected._id;
+    key = selected._id;
+  }
+
+  return { path, leafId };
+}
+
+/**
+ * Collects a message and everything below it in the tree
+ */
+export function getSubtreeIds<T extends TreeMessage>(
+  messages: T[],
+  messageId: Id<"messages">
+): Id<"messages">[] {
+  const children = getChildrenByParent(messages);
+  const ids: Id<"messages">[] = [];
+  const queue: Id<"messages">[] = [messageId];
+
+  while (queue.length > 0) {
+    const id = queue.shift() as Id<"messages">;
+    ids.push(id);
+    for (const child of children.get(id) ?? []) {
+      queue.push(child._id);
+    }
+  }
+
+  return ids;
+}
@@ -5,6 +5,14 @@
  * data protection across all public-facing endpoints and operations.
  */
 
+// Memory tool calls reveal the user's long-term memories and are dropped
+// entirely rather than redacted, so they never show up in shares or forks
+const MEMORY_TOOL_PART_TYPES = new Set([
+  "tool-remember",
+  "tool-forget",
+  "tool-recall",
+]);
+
 export type SanitizationOptions = {
   /** Whether to redact file URLs and replace with 'redacted' placeholder */
   hideFiles: boolean;
@@ -14,6 +22,7 @@ export type SanitizationOptions = {
  * Sanitizes message parts for public sharing by redacting sensitive information
  *
  * This function handles:
+ * - Memory tool removal: remember/forget/recall calls are dropped
  * - Tool call redaction: inputs, outputs, and errors are replaced with 'REDACTED'
  * - File URL redaction: URLs replaced with 'redacted' when hideFiles is true
  * - Error handling: fails closed with safe placeholder on processing errors
@@ -28,8 +37,12 @@ export function sanitizeMessageParts(
   options: SanitizationOptions
   // biome-ignore lint/suspicious/noExplicitAny: parts can be any; we validate properties at runtime
 ): any[] {
+  const visibleParts = (parts ?? []).filter(
+    // biome-ignore lint/suspicious/noExplicitAny: parts can be any; we validate properties at runtime
+    (p: any) => !MEMORY_TOOL_PART_TYPES.has(p?.type)
+  );
   // biome-ignore lint/suspicious/noExplicitAny: parts can be any; we validate properties at runtime
-  return (parts ?? []).map((p: any) => {
+  return visibleParts.map((p: any) => {
     try {
       if (!p || typeof p !== "object") {
         return p;
@@ -66,3 +79,20 @@ export function sanitizeMessageParts(
     }
   });
 }
+
+/**
+ * Removes what a user spent on a message before it is shared or forked
+ *
+ * @param metadata Message metadata to sanitize
+ * @returns Metadata without cost and key usage details
+ */
+export function sanitizeMessageMetadata<
+  T extends { costUsd?: number; wasUserKeyUsed?: boolean },
+>(metadata: T): Omit<T, "costUsd" | "wasUserKeyUsed"> {
+  const {
+    costUsd: _costUsd,
+    wasUserKeyUsed: _wasUserKeyUsed,
+    ...publicMetadata
+  } = metadata;
+  return publicMetadata;
+}
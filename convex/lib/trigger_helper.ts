@@ -0,0 +1,28 @@
+import { internal } from "../_generated/api";
+import type { Doc } from "../_generated/dataModel";
+import type { MutationCtx } from "../_generated/server";
+
+/**
+ * Starts the next queued event of an event task whose run is ending.
+ * Returns the task updates that keep the task claimed for that run, or null
+ * when no event is waiting and the task can go back to active.
+ *
+ * @example
+ * const next = await startNextQueuedEvent(ctx, task);
+ * await ctx.db.patch(task._id, next ?? { status: "active" });
+ */
+export async function startNextQueuedEvent(
+  ctx: MutationCtx,
+  task: Doc<"scheduled_tasks">
+): Promise<Partial<Doc<"scheduled_tasks">> | null> {
+  const [nextEvent, ...pendingTriggerEvents] = task.pendingTriggerEvents ?? [];
+  if (task.scheduleType !== "event" || !nextEvent) {
+    return null;
+  }
+
+  await ctx.scheduler.runAfter(0, internal.scheduled_ai.executeTask, {
+    taskId: task._id,
+    triggerEvent: nextEvent,
+  });
+  return { status: "running", pendingTriggerEvents };
+}
@@ -0,0 +1,41 @@
+import type { Doc, Id } from "../_generated/dataModel";
+import type { MutationCtx } from "../_generated/server";
+
+/**
+ * Records the cost of an assistant answer in the user's usage ledger.
+ * Answers without a cost (unpriced models, errors) are skipped. Public API
+ * answers that are not stored have no chat.
+ *
+ * @example
+ * await recordMessageUsage(ctx, { userId, chatId, metadata });
+ */
+export async function recordMessageUsage(
+  ctx: MutationCtx,
+  {
+    userId,
+    chatId,
+    taskId,
+    metadata,
+  }: {
+    userId: Id<"users">;
+    chatId?: Id<"chats">;
+    taskId?: Id<"scheduled_tasks">;
+    metadata?: Doc<"messages">["metadata"];
+  }
+): Promise<void> {
+  if (metadata?.costUsd === undefined || !metadata.modelId) {
+    return;
+  }
+
+  await ctx.db.insert("usage_records", {
+    userId,
+    modelId: metadata.modelId,
+    chatId,
+    taskId,
+    inputTokens: metadata.inputTokens ?? 0,
+    outputTokens: metadata.outputTokens ?? 0,
+    costUsd: metadata.costUsd,
+    wasUserKeyUsed: metadata.wasUserKeyUsed ?? false,
+    createdAt: Date.now(),
+  });
+}
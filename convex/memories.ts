@@ -0,0 +1,183 @@
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { ConvexError, v } from "convex/values";
+import { ERROR_CODES } from "../lib/error-codes";
+import type { Doc, Id } from "./_generated/dataModel";
+import { mutation, type QueryCtx, query } from "./_generated/server";
+import { ensureAuthenticated } from "./lib/auth_helper";
+import { Memory } from "./schema/memory";
+
+// Constants for memory limits
+const MEMORY_LIMITS = {
+  contentLength: 500,
+  total: 200,
+  relevant: 10,
+} as const;
+
+const memoryDoc = v.object({
+  _id: v.id("memories"),
+  _creationTime: v.number(),
+  ...Memory.fields,
+});
+
+const memorySummary = v.object({
+  _id: v.id("memories"),
+  content: v.string(),
+  createdAt: v.number(),
+});
+
+// Helper function to load all memories of a user, newest first
+async function getUserMemories(
+  ctx: QueryCtx,
+  userId: Id<"users">
+): Promise<Doc<"memories">[]> {
+  return await ctx.db
+    .query("memories")
+    .withIndex("by_user", (q) => q.eq("userId", userId))
+    .order("desc")
+    .collect();
+}
+
+const toSummary = (memory: Doc<"memories">) => ({
+  _id: memory._id,
+  content: memory.content,
+  createdAt: memory.createdAt,
+});
+
+/**
+ * List all memories of the authenticated user, newest first
+ */
+export const listMemories = query({
+  args: {},
+  returns: v.array(memoryDoc),
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      return [];
+    }
+    return await getUserMemories(ctx, userId);
+  },
+});
+
+/**
+ * Get the memories most relevant to a message: full-text matches first,
+ * topped up with the most recent memories. Empty when memory is off.
+ */
+export const getRelevantMemories = query({
+  args: {
+    query: v.string(),
+    limit: v.optional(v.number()),
+  },
+  returns: v.array(memorySummary),
+  handler: async (ctx, { query: text, limit }) => {
+    const userId = await getAuthUserId(ctx);
+    const user = userId ? await ctx.db.get(userId) : null;
+    if (!user?.memoryEnabled) {
+      return [];
+    }
+
+    const maxResults = Math.min(
+      Math.max(limit ?? MEMORY_LIMITS.relevant, 1),
+      MEMORY_LIMITS.total
+    );
+    const searchText = text.trim().slice(0, MEMORY_LIMITS.contentLength);
+    const matches = searchText
+      ? await ctx.db
+          .query("memories")
+          .withSearchIndex("search_content", (q) =>
+            q.search("content", searchText).eq("userId", user._id)
+          )
+          .take(maxResults)
+      : [];
+
+    const seen = new Set(matches.map((memory) => memory._id));
+    const recent =
+      matches.length < maxResults
+        ? await ctx.db
+            .query("memories")
+            .withIndex("by_user", (q) => q.eq("userId", user._id))
+            .order("desc")
+            .take(maxResults)
+        : [];
+
+    return [...matches, ...recent.filter((memory) => !seen.has(memory._id))]
+      .slice(0, maxResults)
+      .map(toSummary);
+  },
+});
+
+/**
+ * Save a memory. Called by the assistant's remember tool and the settings page.
+ */
+export const createMemory = mutation({
+  args: {
+    content: v.string(),
+    sourceChatId: v.optional(v.id("chats")),
+  },
+  returns: v.id("memories"),
+  handler: async (ctx, { content, sourceChatId }) => {
+    const userId = await ensureAuthenticated(ctx);
+    const user = await ctx.db.get(userId);
+    if (!user?.memoryEnabled) {
+      throw new ConvexError(ERROR_CODES.MEMORY_DISABLED);
+    }
+
+    const trimmed = content.trim();
+    if (!trimmed) {
+      throw new ConvexError(ERROR_CODES.MISSING_REQUIRED_FIELD);
+    }
+    if (trimmed.length > MEMORY_LIMITS.contentLength) {
+      throw new ConvexError(ERROR_CODES.INVALID_INPUT);
+    }
+
+    const existing = await getUserMemories(ctx, userId);
+    const duplicate = existing.find(
+      (memory) => memory.content.toLowerCase() === trimmed.toLowerCase()
+    );
+    if (duplicate) {
+      return duplicate._id;
+    }
+    if (existing.length >= MEMORY_LIMITS.total) {
+      throw new ConvexError(ERROR_CODES.MEMORY_LIMIT_REACHED);
+    }
+
+    // Only link chats the user owns
+    const chat = sourceChatId ? await ctx.db.get(sourceChatId) : null;
+
+    return await ctx.db.insert("memories", {
+      userId,
+      content: trimmed,
+      sourceChatId: chat?.userId === userId ? chat._id : undefined,
+      createdAt: Date.now(),
+    });
+  },
+});
+
+/**
+ * Delete one memory. Takes a plain string since the assistant passes ids
+ * it read from the system prompt.
+ */
+export const deleteMemory = mutation({
+  args: { memoryId: v.string() },
+  returns: v.null(),
+  handler: async (ctx, { memoryId }) => {
+    const userId = await ensureAuthenticated(ctx);
+    const id = ctx.db.normalizeId("memories", memoryId);
+    const memory = id ? await ctx.db.get(id) : null;
+    if (!memory || memory.userId !== userId) {
+      throw new ConvexError(ERROR_CODES.MEMORY_NOT_FOUND);
+    }
+    await ctx.db.delete(memory._id);
+    return null;
+  },
+});
+
+export const deleteAllMemories = mutation({
+  args: {},
+  returns: v.null(),
+  handler: async (ctx) => {
+    const userId = await ensureAuthenticated(ctx);
+    const memories = await getUserMemories(ctx, userId);
+    await Promise.all(memories.map((memory) => ctx.db.delete(memory._id)));
+    return null;
+  },
+});
@@ -1,17 +1,38 @@
 import { getAuthUserId } from "@convex-dev/auth/server";
 import { R2 } from "@convex-dev/r2";
-import { v } from "convex/values";
-import { components } from "./_generated/api";
+import { ConvexError, v } from "convex/values";
+import { ERROR_CODES } from "../lib/error-codes";
+import {
+  isStaleStreamingMessage,
+  RESUMABLE_STREAM_STALE_MS,
+} from "../lib/resumable-stream";
+import { components, internal } from "./_generated/api";
 import type { Doc, Id } from "./_generated/dataModel";
 import {
+  action,
   internalMutation,
   type MutationCtx,
   mutation,
+  type QueryCtx,
   query,
 } from "./_generated/server";
 // Import helper functions
-import { ensureChatAccess, ensureMessageAccess } from "./lib/auth_helper";
-import { sanitizeMessageParts } from "./lib/sanitization_helper";
+import {
+  assertServerSecret,
+  ensureChatAccess,
+  ensureMessageAccess,
+} from "./lib/auth_helper";
+import {
+  getParentKeys,
+  getSelectedPath,
+  getSubtreeIds,
+  ROOT_KEY,
+} from "./lib/message_tree";
+import {
+  sanitizeMessageMetadata,
+  sanitizeMessageParts,
+} from "./lib/sanitization_helper";
+import { recordMessageUsage } from "./lib/usage_helper";
 
 // Keep reusable regex at top-level per lint rule
 const TRAILING_SLASH_RE = /\/$/;
@@ -41,6 +62,7 @@ export const getPublicChatMessages = query({
         serverDurationMs: v.optional(v.number()),
         includeSearch: v.optional(v.boolean()),
         reasoningEffort: v.optional(v.string()),
+        fallbackFromModelId: v.optional(v.string()),
       }),
     })
   ),
@@ -52,21 +74,20 @@ export const getPublicChatMessages = query({
 
     const hideFiles = !(chat.shareAttachments ?? false);
 
-    const messages = await ctx.db
-      .query("messages")
-      .withIndex("by_chat_and_created", (q) => q.eq("chatId", chatId))
-      .order("asc")
-      .collect();
+    const { path } = getSelectedPath(
+      await getChatMessages(ctx, chatId),
+      chat.selectedRootMessageId
+    );
 
     // Sanitize parts if needed
-    return messages.map((m) => {
+    return path.map(({ message: m }) => {
       const sanitizedParts = sanitizeMessageParts(m.parts, { hideFiles });
 
       return {
         _id: m._id,
         role: m.role,
         parts: sanitizedParts,
-        metadata: m.metadata,
+        metadata: sanitizeMessageMetadata(m.metadata),
       };
     });
   },
@@ -195,6 +216,45 @@ async function cleanupOrphanedAttachments(
   await Promise.allSettled(cleanupPromises);
 }
 
+/**
+ * Helper function to load all messages of a chat in creation order
+ */
+async function getChatMessages(
+  ctx: QueryCtx | MutationCtx,
+  chatId: Id<"chats">
+): Promise<Doc<"messages">[]> {
+  return await ctx.db
+    .query("messages")
+    .withIndex("by_chat_and_created", (q) => q.eq("chatId", chatId))
+    .order("asc")
+    .collect();
+}
+
+/**
+ * Helper function to find where a new user message goes in the message tree:
+ * next to the message it is an edited version of, or below the selected leaf
+ */
+async function getUserMessagePlacement(
+  ctx: MutationCtx,
+  chat: Doc<"chats">,
+  versionOfMessageId?: Id<"messages">
+): Promise<{ parentMessageId?: Id<"messages">; isRoot?: boolean }> {
+  const messages = await getChatMessages(ctx, chat._id);
+
+  if (versionOfMessageId) {
+    const parentKey = getParentKeys(messages).get(versionOfMessageId);
+    if (!parentKey) {
+      throw new ConvexError(ERROR_CODES.MESSAGE_NOT_FOUND);
+    }
+    return parentKey === ROOT_KEY
+      ? { isRoot: true }
+      : { parentMessageId: parentKey as Id<"messages"> };
+  }
+
+  const { leafId } = getSelectedPath(messages, chat.selectedRootMessageId);
+  return leafId ? { parentMessageId: leafId } : {};
+}
+
 /**
  * Shared helper function to insert a message to chat
  * Used by both public mutations (with auth) and internal mutations (without auth)
@@ -206,6 +266,7 @@ async function insertMessageToChat(
     role: "user" | "assistant" | "system";
     content: string;
     parentMessageId?: Id<"messages">;
+    isRoot?: boolean;
     // biome-ignore lint/suspicious/noExplicitAny: <parts can be any>
     parts?: any;
     metadata?: {
@@ -219,22 +280,60 @@ async function insertMessageToChat(
       serverDurationMs?: number;
       includeSearch?: boolean;
       reasoningEffort?: string;
+      fallbackFromModelId?: string;
+      costUsd?: number;
+      wasUserKeyUsed?: boolean;
     };
+    status?: "streaming" | "complete";
+    compareGroupId?: string;
+    compareModelIds?: string[];
+    // Scheduled task that produced the answer, for usage accounting
+    taskId?: Id<"scheduled_tasks">;
   },
   userId: Id<"users">
 ): Promise<{ messageId: Id<"messages"> }> {
+  const now = Date.now();
   const messageId = await ctx.db.insert("messages", {
     chatId: args.chatId,
     userId,
     role: args.role,
     content: args.content,
     parentMessageId: args.parentMessageId,
+    ...(args.isRoot ? { isRoot: true } : {}),
     parts: args.parts,
     metadata: args.metadata || {},
-    createdAt: Date.now(),
+    createdAt: now,
+    ...(args.status ? { status: args.status, updatedAt: now } : {}),
+    ...(args.compareGroupId
+      ? {
+          compareGroupId: args.compareGroupId,
+          compareModelIds: args.compareModelIds,
+        }
+      : {}),
+  });
+
+  // A new version becomes the selected one, while compared answers keep
+  // the picked winner
+  if (args.parentMessageId) {
+    const parent = await ctx.db.get(args.parentMessageId);
+    if (parent && !parent.compareGroupId) {
+      await ctx.db.patch(parent._id, { selectedChildId: messageId });
+    }
+  }
+
+  await ctx.db.patch(args.chatId, {
+    updatedAt: Date.now(),
+    ...(args.isRoot ? { selectedRootMessageId: messageId } : {}),
   });
 
-  await ctx.db.patch(args.chatId, { updatedAt: Date.now() });
+  if (args.role === "assistant") {
+    await recordMessageUsage(ctx, {
+      userId,
+      chatId: args.chatId,
+      taskId: args.taskId,
+      metadata: args.metadata,
+    });
+  }
   return { messageId };
 }
 
@@ -261,13 +360,39 @@ export const sendUserMessageToChat = mutation({
         reasoningEffort: v.optional(v.string()),
       })
     ),
+    compareGroupId: v.optional(v.string()),
+    compareModelIds: v.optional(v.array(v.string())),
+    // Saves the message as an edited version of an existing user message
+    versionOfMessageId: v.optional(v.id("messages")),
   },
   returns: v.object({ messageId: v.id("messages") }),
   handler: async (ctx, args) => {
     // Verify that the authenticated user owns the chat
-    const { userId } = await ensureChatAccess(ctx, args.chatId);
+    const { chat, userId } = await ensureChatAccess(ctx, args.chatId);
 
-    return await insertMessageToChat(ctx, args, userId);
+    // The parallel requests of a comparison share a single user message
+    if (args.compareGroupId) {
+      const existing = await ctx.db
+        .query("messages")
+        .withIndex("by_chat_and_created", (q) => q.eq("chatId", args.chatId))
+        .order("desc")
+        .filter((q) => q.eq(q.field("compareGroupId"), args.compareGroupId))
+        .first();
+      if (existing) {
+        return { messageId: existing._id };
+      }
+    }
+
+    const { versionOfMessageId, ...messageArgs } = args;
+    const placement = messageArgs.parentMessageId
+      ? { parentMessageId: messageArgs.parentMessageId }
+      : await getUserMessagePlacement(ctx, chat, versionOfMessageId);
+
+    return await insertMessageToChat(
+      ctx,
+      { ...messageArgs, ...placement },
+      userId
+    );
   },
 });
 
@@ -294,6 +419,7 @@ export const saveAssistantMessage = mutation({
         serverDurationMs: v.optional(v.number()),
         includeSearch: v.optional(v.boolean()),
         reasoningEffort: v.optional(v.string()),
+        fallbackFromModelId: v.optional(v.string()),
       })
     ),
   },
@@ -323,6 +449,16 @@ export const getMessagesForChat = query({
       createdAt: v.optional(v.number()),
       parts: v.optional(v.any()),
       parentMessageId: v.optional(v.id("messages")),
+      isRoot: v.optional(v.boolean()),
+      selectedChildId: v.optional(v.id("messages")),
+      // Versions of this message, only set when there is more than one
+      siblingIds: v.optional(v.array(v.id("messages"))),
+      status: v.optional(
+        v.union(v.literal("streaming"), v.literal("complete"))
+      ),
+      updatedAt: v.optional(v.number()),
+      compareGroupId: v.optional(v.string()),
+      compareModelIds: v.optional(v.array(v.string())),
       metadata: v.object({
         modelId: v.optional(v.string()),
         modelName: v.optional(v.string()),
@@ -334,22 +470,339 @@ export const getMessagesForChat = query({
         serverDurationMs: v.optional(v.number()),
         includeSearch: v.optional(v.boolean()),
         reasoningEffort: v.optional(v.string()),
+        fallbackFromModelId: v.optional(v.string()),
+        costUsd: v.optional(v.number()),
+        wasUserKeyUsed: v.optional(v.boolean()),
       }),
     })
   ),
   handler: async (ctx, { chatId }) => {
     // Verify user has access (but don't throw - return empty array)
+    let chat: Doc<"chats">;
     try {
-      await ensureChatAccess(ctx, chatId);
+      ({ chat } = await ensureChatAccess(ctx, chatId));
     } catch {
       return [];
     }
 
-    return await ctx.db
-      .query("messages")
-      .withIndex("by_chat_and_created", (q) => q.eq("chatId", chatId))
-      .order("asc")
-      .collect();
+    // Only the selected path through the message tree is shown
+    const { path } = getSelectedPath(
+      await getChatMessages(ctx, chatId),
+      chat.selectedRootMessageId
+    );
+    return path.map(({ message, siblingIds }) => ({ ...message, siblingIds }));
+  },
+});
+
+/**
+ * Creates the assistant row for an answer that is still streaming.
+ * The chat route keeps its parts up to date so a reloaded client can resume.
+ */
+export const startStreamingMessage = mutation({
+  args: {
+    chatId: v.id("chats"),
+    parentMessageId: v.optional(v.id("messages")),
+    metadata: v.optional(
+      v.object({
+        modelId: v.optional(v.string()),
+        modelName: v.optional(v.string()),
+        includeSearch: v.optional(v.boolean()),
+        reasoningEffort: v.optional(v.string()),
+        fallbackFromModelId: v.optional(v.string()),
+      })
+    ),
+  },
+  returns: v.object({ messageId: v.id("messages") }),
+  handler: async (ctx, args) => {
+    const { userId } = await ensureChatAccess(ctx, args.chatId);
+
+    const result = await insertMessageToChat(
+      ctx,
+      {
+        chatId: args.chatId,
+        role: "assistant",
+        content: "",
+        parentMessageId: args.parentMessageId,
+        parts: [],
+        metadata: args.metadata,
+        status: "streaming",
+      },
+      userId
+    );
+    // Close the row if the generation dies without completing it
+    await ctx.scheduler.runAfter(
+      RESUMABLE_STREAM_STALE_MS,
+      internal.messages.expireStreamingMessageInternal,
+      { messageId: result.messageId }
+    );
+    return result;
+  },
+});
+
+/**
+ * Closes a streaming row whose generation stopped updating it (a crashed or
+ * killed function): partial output is kept as the answer, an empty row is
+ * removed. Reschedules itself while the row is still being updated.
+ */
+export const expireStreamingMessageInternal = internalMutation({
+  args: { messageId: v.id("messages") },
+  returns: v.null(),
+  handler: async (ctx, { messageId }) => {
+    const message = await ctx.db.get(messageId);
+    if (message?.status !== "streaming") {
+      return null;
+    }
+
+    if (!isStaleStreamingMessage(message.updatedAt ?? message.createdAt)) {
+      await ctx.scheduler.runAfter(
+        RESUMABLE_STREAM_STALE_MS,
+        internal.messages.expireStreamingMessageInternal,
+        { messageId }
+      );
+      return null;
+    }
+
+    const hasOutput =
+      message.content.length > 0 ||
+      (Array.isArray(message.parts) && message.parts.length > 0);
+    if (hasOutput) {
+      await ctx.db.patch(messageId, { status: "complete" });
+    } else {
+      await ctx.db.delete(messageId);
+    }
+    return null;
+  },
+});
+
+export const updateStreamingMessage = mutation({
+  args: {
+    messageId: v.id("messages"),
+    content: v.string(),
+    parts: v.optional(v.any()),
+  },
+  returns: v.null(),
+  handler: async (ctx, { messageId, content, parts }) => {
+    const { message } = await ensureMessageAccess(ctx, messageId);
+
+    // Late snapshots must not overwrite the completed answer
+    if (message.status !== "streaming") {
+      return null;
+    }
+
+    await ctx.db.patch(messageId, {
+      content,
+      parts,
+      updatedAt: Date.now(),
+    });
+    return null;
+  },
+});
+
+export const completeStreamingMessage = mutation({
+  args: {
+    messageId: v.id("messages"),
+    content: v.string(),
+    parts: v.optional(v.any()),
+    metadata: v.optional(
+      v.object({
+        modelId: v.optional(v.string()),
+        modelName: v.optional(v.string()),
+        inputTokens: v.optional(v.number()),
+        outputTokens: v.optional(v.number()),
+        reasoningTokens: v.optional(v.number()),
+        totalTokens: v.optional(v.number()),
+        cachedInputTokens: v.optional(v.number()),
+        serverDurationMs: v.optional(v.number()),
+        includeSearch: v.optional(v.boolean()),
+        reasoningEffort: v.optional(v.string()),
+        fallbackFromModelId: v.optional(v.string()),
+      })
+    ),
+  },
+  returns: v.null(),
+  handler: async (ctx, { messageId, content, parts, metadata }) => {
+    const { message } = await ensureMessageAccess(ctx, messageId);
+
+    const now = Date.now();
+    await ctx.db.patch(messageId, {
+      content,
+      parts,
+      metadata: metadata ?? message.metadata,
+      status: "complete",
+      updatedAt: now,
+    });
+    await ctx.db.patch(message.chatId, { updatedAt: now });
+    return null;
+  },
+});
+
+/**
+ * Records what an answer cost. Only the chat route can call it: it computes
+ * the cost itself and proves it is the caller with the server secret, so
+ * clients cannot report their own spend through the save mutations.
+ */
+export const recordAnswerUsage = action({
+  args: {
+    serverSecret: v.string(),
+    messageId: v.id("messages"),
+    costUsd: v.optional(v.number()),
+    wasUserKeyUsed: v.boolean(),
+  },
+  returns: v.null(),
+  handler: async (ctx, { serverSecret, ...args }): Promise<null> => {
+    assertServerSecret(serverSecret);
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new ConvexError(ERROR_CODES.NOT_AUTHENTICATED);
+    }
+
+    await ctx.runMutation(internal.messages.recordAnswerUsageInternal, {
+      userId,
+      ...args,
+    });
+    return null;
+  },
+});
+
+// Internal mutation to store the cost of an answer and add it to the usage ledger
+export const recordAnswerUsageInternal = internalMutation({
+  args: {
+    userId: v.id("users"),
+    messageId: v.id("messages"),
+    costUsd: v.optional(v.number()),
+    wasUserKeyUsed: v.boolean(),
+  },
+  returns: v.null(),
+  handler: async (ctx, { userId, messageId, costUsd, wasUserKeyUsed }) => {
+    const message = await ctx.db.get(messageId);
+    if (message?.userId !== userId || message.role !== "assistant") {
+      throw new ConvexError(ERROR_CODES.MESSAGE_NOT_FOUND);
+    }
+    // Only the first report for an answer is costed
+    if (message.metadata.costUsd !== undefined) {
+      return null;
+    }
+
+    const metadata = { ...message.metadata, costUsd, wasUserKeyUsed };
+    await ctx.db.patch(messageId, { metadata });
+    await recordMessageUsage(ctx, {
+      userId,
+      chatId: message.chatId,
+      metadata,
+    });
+    return null;
+  },
+});
+
+/**
+ * Removes a streaming row whose answer ended in an error; the error itself is
+ * saved as its own assistant message
+ */
+export const discardStreamingMessage = mutation({
+  args: { messageId: v.id("messages") },
+  returns: v.null(),
+  handler: async (ctx, { messageId }) => {
+    const { message } = await ensureMessageAccess(ctx, messageId);
+    if (message.status === "streaming") {
+      await ctx.db.delete(messageId);
+    }
+    return null;
+  },
+});
+
+/**
+ * Gets the message a client should reattach to: the given message, or the
+ * latest message of the chat if it is still streaming
+ */
+export const getResumableMessage = query({
+  args: {
+    chatId: v.id("chats"),
+    messageId: v.optional(v.id("messages")),
+  },
+  returns: v.union(
+    v.null(),
+    v.object({
+      _id: v.id("messages"),
+      parts: v.optional(v.any()),
+      status: v.optional(
+        v.union(v.literal("streaming"), v.literal("complete"))
+      ),
+      updatedAt: v.optional(v.number()),
+    })
+  ),
+  handler: async (ctx, { chatId, messageId }) => {
+    try {
+      await ensureChatAccess(ctx, chatId);
+    } catch {
+      return null;
+    }
+
+    const message = messageId
+      ? await ctx.db.get(messageId)
+      : await ctx.db
+          .query("messages")
+          .withIndex("by_chat_and_created", (q) => q.eq("chatId", chatId))
+          .order("desc")
+          .first();
+
+    if (!message || message.chatId !== chatId) {
+      return null;
+    }
+    if (!messageId && message.status !== "streaming") {
+      return null;
+    }
+
+    return {
+      _id: message._id,
+      parts: message.parts,
+      status: message.status,
+      updatedAt: message.updatedAt,
+    };
+  },
+});
+
+/**
+ * Picks the answer of a compared prompt that the thread continues from
+ */
+export const selectCompareWinner = mutation({
+  args: { messageId: v.id("messages") },
+  returns: v.null(),
+  handler: async (ctx, { messageId }) => {
+    const { message } = await ensureMessageAccess(ctx, messageId);
+    if (message.role !== "assistant" || !message.parentMessageId) {
+      throw new ConvexError(ERROR_CODES.INVALID_INPUT);
+    }
+
+    const parent = await ctx.db.get(message.parentMessageId);
+    if (!parent?.compareGroupId) {
+      throw new ConvexError(ERROR_CODES.INVALID_INPUT);
+    }
+
+    await ctx.db.patch(parent._id, { selectedChildId: messageId });
+    return null;
+  },
+});
+
+/**
+ * Switches the version shown for a message that was regenerated or edited
+ */
+export const selectMessageVersion = mutation({
+  args: { messageId: v.id("messages") },
+  returns: v.null(),
+  handler: async (ctx, { messageId }) => {
+    const { message, chat } = await ensureMessageAccess(ctx, messageId);
+    const parentKey = getParentKeys(
+      await getChatMessages(ctx, message.chatId)
+    ).get(messageId);
+
+    if (parentKey === ROOT_KEY) {
+      await ctx.db.patch(chat._id, { selectedRootMessageId: messageId });
+    } else if (parentKey) {
+      await ctx.db.patch(parentKey as Id<"messages">, {
+        selectedChildId: messageId,
+      });
+    }
+    return null;
   },
 });
 
@@ -371,8 +824,16 @@ export const getMessageDetails = query({
   handler: async (ctx, args) => {
     try {
       const { message } = await ensureMessageAccess(ctx, args.messageId);
+      // Resolve the parent like the tree does, so legacy messages without a
+      // stored parent hang off the message before them
+      const parentKey = getParentKeys(
+        await getChatMessages(ctx, message.chatId)
+      ).get(message._id);
       return {
-        parentMessageId: message.parentMessageId,
+        parentMessageId:
+          parentKey && parentKey !== ROOT_KEY
+            ? (parentKey as Id<"messages">)
+            : undefined,
         role: message.role,
       };
     } catch {
@@ -402,19 +863,13 @@ export const deleteMessageAndDescendants = mutation({
       return { chatDeleted: false };
     }
 
-    const threshold = message.createdAt ?? message._creationTime;
-
-    // Fix: Use .collect() directly instead of async iteration
-    // See: https://docs.convex.dev/database/reading-data
-    const messagesToDelete = await ctx.db
-      .query("messages")
-      .withIndex("by_chat_and_created", (q) =>
-        deleteOnlyDescendants
-          ? q.eq("chatId", message.chatId).gt("createdAt", threshold)
-          : q.eq("chatId", message.chatId).gte("createdAt", threshold)
-      )
-      .order("asc")
-      .collect();
+    // Delete the message's subtree; other versions of it are kept
+    const chatMessages = await getChatMessages(ctx, message.chatId);
+    const subtreeIds = new Set<string>(getSubtreeIds(chatMessages, messageId));
+    if (deleteOnlyDescendants) {
+      subtreeIds.delete(messageId);
+    }
+    const messagesToDelete = chatMessages.filter((m) => subtreeIds.has(m._id));
 
     const ids = messagesToDelete.map((m) => m._id);
 
@@ -608,8 +1063,12 @@ export const saveAssistantMessageInternal = internalMutation({
         serverDurationMs: v.optional(v.number()),
         includeSearch: v.optional(v.boolean()),
         reasoningEffort: v.optional(v.string()),
+        fallbackFromModelId: v.optional(v.string()),
+        costUsd: v.optional(v.number()),
+        wasUserKeyUsed: v.optional(v.boolean()),
       })
     ),
+    taskId: v.optional(v.id("scheduled_tasks")),
   },
   returns: v.object({ messageId: v.id("messages") }),
   handler: async (ctx, args) => {
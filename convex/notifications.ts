@@ -0,0 +1,100 @@
+import { v } from "convex/values";
+import { internalMutation, mutation, query } from "./_generated/server";
+import { ensureAuthenticated } from "./lib/auth_helper";
+import { Notification } from "./schema/notification";
+
+// Older notifications are removed as new ones arrive
+const MAX_NOTIFICATIONS_PER_USER = 50;
+
+const notificationDoc = v.object({
+  _id: v.id("notifications"),
+  _creationTime: v.number(),
+  ...Notification.fields,
+});
+
+// List the user's latest notifications
+export const listNotifications = query({
+  args: { limit: v.optional(v.number()) },
+  returns: v.array(notificationDoc),
+  handler: async (ctx, args) => {
+    const userId = await ensureAuthenticated(ctx);
+
+    return await ctx.db
+      .query("notifications")
+      .withIndex("by_user_and_created", (q) => q.eq("userId", userId))
+      .order("desc")
+      .take(Math.min(args.limit ?? 20, MAX_NOTIFICATIONS_PER_USER));
+  },
+});
+
+// Count the user's unread notifications
+export const getUnreadCount = query({
+  args: {},
+  returns: v.number(),
+  handler: async (ctx) => {
+    const userId = await ensureAuthenticated(ctx);
+
+    const unread = await ctx.db
+      .query("notifications")
+      .withIndex("by_user_and_read", (q) =>
+        q.eq("userId", userId).eq("isRead", false)
+      )
+      .take(MAX_NOTIFICATIONS_PER_USER);
+    return unread.length;
+  },
+});
+
+// Mark all of the user's notifications as read
+export const markAllNotificationsRead = mutation({
+  args: {},
+  returns: v.null(),
+  handler: async (ctx) => {
+    const userId = await ensureAuthenticated(ctx);
+
+    const unread = await ctx.db
+      .query("notifications")
+      .withIndex("by_user_and_read", (q) =>
+        q.eq("userId", userId).eq("isRead", false)
+      )
+      .collect();
+    await Promise.all(
+      unread.map((notification) =>
+        ctx.db.patch(notification._id, { isRead: true })
+      )
+    );
+    return null;
+  },
+});
+
+// Internal mutation to add a notification for a user
+export const createNotificationInternal = internalMutation({
+  args: {
+    userId: v.id("users"),
+    taskId: v.optional(v.id("scheduled_tasks")),
+    chatId: v.optional(v.id("chats")),
+    title: v.string(),
+    body: v.string(),
+  },
+  returns: v.id("notifications"),
+  handler: async (ctx, args) => {
+    const notificationId = await ctx.db.insert("notifications", {
+      ...args,
+      isRead: false,
+      createdAt: Date.now(),
+    });
+
+    // Keep only the latest notifications
+    const stale = await ctx.db
+      .query("notifications")
+      .withIndex("by_user_and_created", (q) => q.eq("userId", args.userId))
+      .order("desc")
+      .collect();
+    await Promise.all(
+      stale
+        .slice(MAX_NOTIFICATIONS_PER_USER)
+        .map((notification) => ctx.db.delete(notification._id))
+    );
+
+    return notificationId;
+  },
+});
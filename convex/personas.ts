@@ -0,0 +1,300 @@
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { ConvexError, v } from "convex/values";
+import { ERROR_CODES } from "../lib/error-codes";
+import type { Doc, Id } from "./_generated/dataModel";
+import {
+  internalQuery,
+  type MutationCtx,
+  mutation,
+  query,
+} from "./_generated/server";
+import { ensureAuthenticated } from "./lib/auth_helper";
+import { Persona } from "./schema/persona";
+
+// Constants for persona limits
+const PERSONA_LIMITS = {
+  nameLength: 50,
+  promptLength: 10_000,
+  total: 50,
+} as const;
+
+const REASONING_EFFORT = v.union(
+  v.literal("low"),
+  v.literal("medium"),
+  v.literal("high")
+);
+
+// Editable persona settings shared by create and update
+const personaFields = {
+  name: v.string(),
+  icon: v.string(),
+  prompt: v.string(),
+  defaultModel: v.optional(v.string()),
+  defaultReasoningEffort: v.optional(REASONING_EFFORT),
+  defaultEnableSearch: v.optional(v.boolean()),
+  defaultConnectors: v.optional(v.array(v.string())),
+};
+
+const personaDoc = v.object({
+  _id: v.id("personas"),
+  _creationTime: v.number(),
+  ...Persona.fields,
+});
+
+// Fields visible to anyone holding the public link
+const publicPersonaDoc = v.object({
+  _id: v.id("personas"),
+  name: v.string(),
+  icon: v.string(),
+  prompt: v.string(),
+  defaultModel: v.optional(v.string()),
+  defaultReasoningEffort: v.optional(REASONING_EFFORT),
+  defaultEnableSearch: v.optional(v.boolean()),
+  defaultConnectors: v.optional(v.array(v.string())),
+});
+
+type PersonaFields = {
+  name: string;
+  icon: string;
+  prompt: string;
+  defaultModel?: string;
+  defaultReasoningEffort?: "low" | "medium" | "high";
+  defaultEnableSearch?: boolean;
+  defaultConnectors?: string[];
+};
+
+// Helper function to trim and validate user-provided persona settings
+function normalizePersonaFields(fields: PersonaFields): PersonaFields {
+  const name = fields.name.trim();
+  const prompt = fields.prompt.trim();
+
+  if (!(name && prompt)) {
+    throw new ConvexError(ERROR_CODES.MISSING_REQUIRED_FIELD);
+  }
+  if (
+    name.length > PERSONA_LIMITS.nameLength ||
+    prompt.length > PERSONA_LIMITS.promptLength
+  ) {
+    throw new ConvexError(ERROR_CODES.INVALID_INPUT);
+  }
+
+  // Every key is set so updates clear defaults removed in the editor
+  return {
+    name,
+    icon: fields.icon,
+    prompt,
+    defaultModel: fields.defaultModel || undefined,
+    defaultReasoningEffort: fields.defaultReasoningEffort,
+    defaultEnableSearch: fields.defaultEnableSearch,
+    defaultConnectors: fields.defaultConnectors
+      ? [...new Set(fields.defaultConnectors)]
+      : undefined,
+  };
+}
+
+// Helper function to load a persona owned by the current user
+async function getOwnedPersona(
+  ctx: MutationCtx,
+  personaId: Id<"personas">
+): Promise<Doc<"personas">> {
+  const userId = await ensureAuthenticated(ctx);
+  const persona = await ctx.db.get(personaId);
+  if (!persona || persona.userId !== userId) {
+    throw new ConvexError(ERROR_CODES.PERSONA_NOT_FOUND);
+  }
+  return persona;
+}
+
+// Helper function to enforce the per-user persona limit
+async function ensurePersonaLimit(ctx: MutationCtx, userId: Id<"users">) {
+  const personas = await ctx.db
+    .query("personas")
+    .withIndex("by_user", (q) => q.eq("userId", userId))
+    .collect();
+  if (personas.length >= PERSONA_LIMITS.total) {
+    throw new ConvexError(ERROR_CODES.INVALID_INPUT);
+  }
+}
+
+/**
+ * List all personas of the authenticated user
+ */
+export const listPersonas = query({
+  args: {},
+  returns: v.array(personaDoc),
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      return [];
+    }
+    return await ctx.db
+      .query("personas")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .collect();
+  },
+});
+
+/**
+ * Get one of the authenticated user's personas. Takes a plain string so
+ * callers can pass any chat personaId, including built-in persona ids.
+ */
+export const getPersona = query({
+  args: { personaId: v.string() },
+  returns: v.union(v.null(), personaDoc),
+  handler: async (ctx, { personaId }) => {
+    const userId = await getAuthUserId(ctx);
+    const id = ctx.db.normalizeId("personas", personaId);
+    if (!(userId && id)) {
+      return null;
+    }
+    const persona = await ctx.db.get(id);
+    if (!persona || persona.userId !== userId) {
+      return null;
+    }
+    return persona;
+  },
+});
+
+/**
+ * Get one of a user's personas for a background task run
+ */
+export const getPersonaInternal = internalQuery({
+  args: { userId: v.id("users"), personaId: v.string() },
+  returns: v.union(v.null(), personaDoc),
+  handler: async (ctx, { userId, personaId }) => {
+    const id = ctx.db.normalizeId("personas", personaId);
+    const persona = id ? await ctx.db.get(id) : null;
+    if (!persona || persona.userId !== userId) {
+      return null;
+    }
+    return persona;
+  },
+});
+
+/**
+ * Get a published persona for its public link
+ */
+export const getPublicPersona = query({
+  args: { personaId: v.string() },
+  returns: v.union(v.null(), publicPersonaDoc),
+  handler: async (ctx, { personaId }) => {
+    const id = ctx.db.normalizeId("personas", personaId);
+    const persona = id ? await ctx.db.get(id) : null;
+    if (!(persona && (persona.public ?? false))) {
+      return null;
+    }
+    return {
+      _id: persona._id,
+      name: persona.name,
+      icon: persona.icon,
+      prompt: persona.prompt,
+      defaultModel: persona.defaultModel,
+      defaultReasoningEffort: persona.defaultReasoningEffort,
+      defaultEnableSearch: persona.defaultEnableSearch,
+      defaultConnectors: persona.defaultConnectors,
+    };
+  },
+});
+
+export const createPersona = mutation({
+  args: personaFields,
+  returns: v.id("personas"),
+  handler: async (ctx, args) => {
+    const userId = await ensureAuthenticated(ctx);
+    await ensurePersonaLimit(ctx, userId);
+
+    const now = Date.now();
+    return await ctx.db.insert("personas", {
+      ...normalizePersonaFields(args),
+      userId,
+      public: false,
+      createdAt: now,
+      updatedAt: now,
+    });
+  },
+});
+
+export const updatePersona = mutation({
+  args: { personaId: v.id("personas"), ...personaFields },
+  returns: v.null(),
+  handler: async (ctx, { personaId, ...fields }) => {
+    await getOwnedPersona(ctx, personaId);
+    await ctx.db.patch(personaId, {
+      ...normalizePersonaFields(fields),
+      updatedAt: Date.now(),
+    });
+    return null;
+  },
+});
+
+export const deletePersona = mutation({
+  args: { personaId: v.id("personas") },
+  returns: v.null(),
+  handler: async (ctx, { personaId }) => {
+    await getOwnedPersona(ctx, personaId);
+    await ctx.db.delete(personaId);
+    return null;
+  },
+});
+
+export const setPersonaPublic = mutation({
+  args: { personaId: v.id("personas"), public: v.boolean() },
+  returns: v.null(),
+  handler: async (ctx, { personaId, public: isPublic }) => {
+    await getOwnedPersona(ctx, personaId);
+    await ctx.db.patch(personaId, { public: isPublic, updatedAt: Date.now() });
+    return null;
+  },
+});
+
+/**
+ * Copy a published persona into the authenticated user's library
+ */
+export const importPersona = mutation({
+  args: { personaId: v.id("personas") },
+  returns: v.id("personas"),
+  handler: async (ctx, { personaId }) => {
+    const userId = await ensureAuthenticated(ctx);
+    const source = await ctx.db.get(personaId);
+    if (!source) {
+      throw new ConvexError(ERROR_CODES.PERSONA_NOT_FOUND);
+    }
+    // Importing your own persona is a no-op
+    if (source.userId === userId) {
+      return source._id;
+    }
+    if (!(source.public ?? false)) {
+      throw new ConvexError(ERROR_CODES.PERSONA_NOT_FOUND);
+    }
+
+    const existing = await ctx.db
+      .query("personas")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .collect();
+    const alreadyImported = existing.find(
+      (persona) => persona.importedFromId === personaId
+    );
+    if (alreadyImported) {
+      return alreadyImported._id;
+    }
+    if (existing.length >= PERSONA_LIMITS.total) {
+      throw new ConvexError(ERROR_CODES.INVALID_INPUT);
+    }
+
+    const now = Date.now();
+    return await ctx.db.insert("personas", {
+      userId,
+      name: source.name,
+      icon: source.icon,
+      prompt: source.prompt,
+      defaultModel: source.defaultModel,
+      defaultReasoningEffort: source.defaultReasoningEffort,
+      defaultEnableSearch: source.defaultEnableSearch,
+      defaultConnectors: source.defaultConnectors,
+      public: false,
+      importedFromId: personaId,
+      createdAt: now,
+      updatedAt: now,
+    });
+  },
+});
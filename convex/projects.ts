@@ -0,0 +1,263 @@
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { ConvexError, v } from "convex/values";
+import { MAX_PROJECT_ATTACHMENTS } from "../lib/config";
+import { ERROR_CODES } from "../lib/error-codes";
+import type { Doc, Id } from "./_generated/dataModel";
+import {
+  type MutationCtx,
+  mutation,
+  type QueryCtx,
+  query,
+} from "./_generated/server";
+import { ensureAuthenticated, tryEnsureChatAccess } from "./lib/auth_helper";
+import { Project } from "./schema/project";
+
+// Constants for project limits
+const PROJECT_LIMITS = {
+  nameLength: 80,
+  instructionsLength: 10_000,
+  attachments: MAX_PROJECT_ATTACHMENTS,
+} as const;
+
+const projectDoc = v.object({
+  _id: v.id("projects"),
+  _creationTime: v.number(),
+  ...Project.fields,
+});
+
+// Helper function to load a project owned by the current user
+async function getOwnedProject(
+  ctx: QueryCtx | MutationCtx,
+  projectId: Id<"projects">
+): Promise<Doc<"projects">> {
+  const userId = await ensureAuthenticated(ctx);
+  const project = await ctx.db.get(projectId);
+  if (!project || project.userId !== userId) {
+    throw new ConvexError(ERROR_CODES.PROJECT_NOT_FOUND);
+  }
+  return project;
+}
+
+// Helper function to validate the project name and instructions
+function normalizeProjectText(name: string, instructions?: string) {
+  const trimmedName = name.trim();
+  const trimmedInstructions = instructions?.trim() || undefined;
+
+  if (!trimmedName) {
+    throw new ConvexError(ERROR_CODES.MISSING_REQUIRED_FIELD);
+  }
+  if (
+    trimmedName.length > PROJECT_LIMITS.nameLength ||
+    (trimmedInstructions?.length ?? 0) > PROJECT_LIMITS.instructionsLength
+  ) {
+    throw new ConvexError(ERROR_CODES.INVALID_INPUT);
+  }
+
+  return { name: trimmedName, instructions: trimmedInstructions };
+}
+
+// Helper function to keep only attachments the user owns, without duplicates
+async function validateAttachmentIds(
+  ctx: MutationCtx,
+  userId: Id<"users">,
+  attachmentIds: Id<"chat_attachments">[]
+): Promise<Id<"chat_attachments">[]> {
+  const uniqueIds = [...new Set(attachmentIds)];
+  if (uniqueIds.length > PROJECT_LIMITS.attachments) {
+    throw new ConvexError(ERROR_CODES.INVALID_INPUT);
+  }
+
+  const attachments = await Promise.all(uniqueIds.map((id) => ctx.db.get(id)));
+  if (attachments.some((attachment) => attachment?.userId !== userId)) {
+    throw new ConvexError(ERROR_CODES.FILE_NOT_FOUND);
+  }
+  return uniqueIds;
+}
+
+/**
+ * List all projects of the authenticated user
+ */
+export const listProjects = query({
+  args: {},
+  returns: v.array(projectDoc),
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      return [];
+    }
+    return await ctx.db
+      .query("projects")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .collect();
+  },
+});
+
+/**
+ * Get one of the authenticated user's projects. Takes a plain string since
+ * the id comes from the new chat URL.
+ */
+export const getProject = query({
+  args: { projectId: v.string() },
+  returns: v.union(v.null(), projectDoc),
+  handler: async (ctx, { projectId }) => {
+    const userId = await getAuthUserId(ctx);
+    const id = ctx.db.normalizeId("projects", projectId);
+    if (!(userId && id)) {
+      return null;
+    }
+    const project = await ctx.db.get(id);
+    if (!project || project.userId !== userId) {
+      return null;
+    }
+    return project;
+  },
+});
+
+/**
+ * Get the shared context of the project a chat belongs to: the custom
+ * instructions and the reference files that still exist
+ */
+export const getProjectContextForChat = query({
+  args: { chatId: v.id("chats") },
+  returns: v.union(
+    v.null(),
+    v.object({
+      projectId: v.id("projects"),
+      name: v.string(),
+      instructions: v.optional(v.string()),
+      attachments: v.array(
+        v.object({
+          url: v.string(),
+          fileName: v.optional(v.string()),
+          fileType: v.optional(v.string()),
+        })
+      ),
+    })
+  ),
+  handler: async (ctx, { chatId }) => {
+    const result = await tryEnsureChatAccess(ctx, chatId);
+    if (!result?.chat.projectId) {
+      return null;
+    }
+    const project = await ctx.db.get(result.chat.projectId);
+    if (!project || project.userId !== result.userId) {
+      return null;
+    }
+
+    const attachments = await Promise.all(
+      (project.attachmentIds ?? []).map((id) => ctx.db.get(id))
+    );
+
+    return {
+      projectId: project._id,
+      name: project.name,
+      instructions: project.instructions,
+      attachments: attachments.flatMap((attachment) =>
+        attachment?.url
+          ? [
+              {
+                url: attachment.url,
+                fileName: attachment.fileName,
+                fileType: attachment.fileType,
+              },
+            ]
+          : []
+      ),
+    };
+  },
+});
+
+export const createProject = mutation({
+  args: {
+    name: v.string(),
+    instructions: v.optional(v.string()),
+    attachmentIds: v.optional(v.array(v.id("chat_attachments"))),
+    defaultModel: v.optional(v.string()),
+  },
+  returns: v.id("projects"),
+  handler: async (ctx, args) => {
+    const userId = await ensureAuthenticated(ctx);
+    const now = Date.now();
+    return await ctx.db.insert("projects", {
+      userId,
+      ...normalizeProjectText(args.name, args.instructions),
+      attachmentIds: await validateAttachmentIds(
+        ctx,
+        userId,
+        args.attachmentIds ?? []
+      ),
+      defaultModel: args.defaultModel || undefined,
+      createdAt: now,
+      updatedAt: now,
+    });
+  },
+});
+
+export const updateProject = mutation({
+  args: {
+    projectId: v.id("projects"),
+    name: v.string(),
+    instructions: v.optional(v.string()),
+    attachmentIds: v.optional(v.array(v.id("chat_attachments"))),
+    defaultModel: v.optional(v.string()),
+  },
+  returns: v.null(),
+  handler: async (ctx, { projectId, ...args }) => {
+    const project = await getOwnedProject(ctx, projectId);
+    await ctx.db.patch(projectId, {
+      ...normalizeProjectText(args.name, args.instructions),
+      attachmentIds: await validateAttachmentIds(
+        ctx,
+        project.userId,
+        args.attachmentIds ?? []
+      ),
+      defaultModel: args.defaultModel || undefined,
+      updatedAt: Date.now(),
+    });
+    return null;
+  },
+});
+
+/**
+ * Delete a project. Its chats are kept and move back to the main list.
+ */
+export const deleteProject = mutation({
+  args: { projectId: v.id("projects") },
+  returns: v.null(),
+  handler: async (ctx, { projectId }) => {
+    await getOwnedProject(ctx, projectId);
+
+    const chats = await ctx.db
+      .query("chats")
+      .withIndex("by_project", (q) => q.eq("projectId", projectId))
+      .collect();
+    await Promise.all(
+      chats.map((chat) => ctx.db.patch(chat._id, { projectId: undefined }))
+    );
+
+    await ctx.db.delete(projectId);
+    return null;
+  },
+});
+
+/**
+ * Move a chat into a project, or out of its project when projectId is omitted
+ */
+export const setChatProject = mutation({
+  args: {
+    chatId: v.id("chats"),
+    projectId: v.optional(v.id("projects")),
+  },
+  returns: v.null(),
+  handler: async (ctx, { chatId, projectId }) => {
+    const result = await tryEnsureChatAccess(ctx, chatId);
+    if (!result) {
+      return null;
+    }
+    if (projectId) {
+      await getOwnedProject(ctx, projectId);
+    }
+    await ctx.db.patch(chatId, { projectId });
+    return null;
+  },
+});
@@ -0,0 +1,209 @@
+import { v } from "convex/values";
+import { internal } from "./_generated/api";
+import type { Id } from "./_generated/dataModel";
+import { type ActionCtx, action } from "./_generated/server";
+import { hashAccessToken } from "./access_tokens";
+import { assertServerSecret } from "./lib/auth_helper";
+import { polar } from "./polar";
+
+// Functions behind the public API. The Next.js /api/v1 routes call them with
+// the caller's personal access token instead of a user session, plus the
+// PUBLIC_API_SERVER_SECRET both servers share: these functions return the
+// user's own provider keys and trust the accounting the route reports, so an
+// access token alone must not be enough to call them.
+
+const STORED_CHAT_TITLE_LENGTH = 60;
+
+// Helper function to resolve an access token to its user
+async function authenticate(
+  ctx: ActionCtx,
+  accessToken: string,
+  scope: "completions" | "history"
+): Promise<Id<"users">> {
+  return await ctx.runMutation(internal.access_tokens.authenticateAccessToken, {
+    tokenHash: await hashAccessToken(accessToken),
+    scope,
+  });
+}
+
+/**
+ * Check an access token and load what a completion needs: the user's plan
+ * and their own key for the model's provider
+ */
+export const getAccessContext = action({
+  args: {
+    serverSecret: v.string(),
+    accessToken: v.string(),
+    provider: v.optional(v.string()),
+    store: v.optional(v.boolean()),
+  },
+  returns: v.object({
+    isPremium: v.boolean(),
+    userKey: v.union(
+      v.null(),
+      v.object({
+        key: v.string(),
+        mode: v.optional(v.union(v.literal("priority"), v.literal("fallback"))),
+      })
+    ),
+  }),
+  handler: async (
+    ctx,
+    { serverSecret, accessToken, provider, store }
+  ): Promise<{
+    isPremium: boolean;
+    userKey: { key: string; mode?: "priority" | "fallback" } | null;
+  }> => {
+    assertServerSecret(serverSecret);
+    const userId = await authenticate(ctx, accessToken, "completions");
+    // Fail before the model call when the exchange cannot be stored
+    if (store) {
+      await authenticate(ctx, accessToken, "history");
+    }
+
+    const [subscription, userKey] = await Promise.all([
+      polar.getCurrentSubscription(ctx, { userId }),
+      provider
+        ? ctx.runQuery(internal.api_keys.getDecryptedKeyInternal, {
+            userId,
+            provider,
+          })
+        : null,
+    ]);
+    return { isPremium: subscription?.status === "active", userKey };
+  },
+});
+
+/**
+ * Same check as users.assertNotOverLimit for access token requests
+ */
+export const assertNotOverLimit = action({
+  args: {
+    serverSecret: v.string(),
+    accessToken: v.string(),
+    usesPremiumCredits: v.optional(v.boolean()),
+  },
+  returns: v.null(),
+  handler: async (ctx, { serverSecret, accessToken, usesPremiumCredits }) => {
+    assertServerSecret(serverSecret);
+    const userId = await authenticate(ctx, accessToken, "completions");
+    await ctx.runMutation(internal.users.assertNotOverLimitInternal, {
+      userId,
+      usesPremiumCredits,
+    });
+    return null;
+  },
+});
+
+/**
+ * Account for a finished completion: consume credits or count the user key
+ * use, record its cost and optionally store the exchange as a chat
+ */
+export const recordCompletion = action({
+  args: {
+    serverSecret: v.string(),
+    accessToken: v.string(),
+    provider: v.string(),
+    usesPremiumCredits: v.optional(v.boolean()),
+    skipRateLimit: v.optional(v.boolean()),
+    metadata: v.object({
+      modelId: v.string(),
+      modelName: v.string(),
+      inputTokens: v.optional(v.number()),
+      outputTokens: v.optional(v.number()),
+      reasoningTokens: v.optional(v.number()),
+      totalTokens: v.optional(v.number()),
+      cachedInputTokens: v.optional(v.number()),
+      serverDurationMs: v.optional(v.number()),
+      costUsd: v.optional(v.number()),
+      wasUserKeyUsed: v.boolean(),
+    }),
+    store: v.optional(
+      v.object({
+        messages: v.array(
+          v.object({
+            role: v.union(v.literal("user"), v.literal("assistant")),
+            content: v.string(),
+          })
+        ),
+        answer: v.string(),
+      })
+    ),
+  },
+  returns: v.object({ chatId: v.union(v.null(), v.id("chats")) }),
+  handler: async (ctx, args): Promise<{ chatId: Id<"chats"> | null }> => {
+    assertServerSecret(args.serverSecret);
+    const userId = await authenticate(ctx, args.accessToken, "completions");
+
+    if (args.metadata.wasUserKeyUsed) {
+      await ctx.runMutation(
+        internal.api_keys.incrementUserApiKeyUsageInternal,
+        {
+          userId,
+          provider: args.provider,
+        }
+      );
+    } else if (!args.skipRateLimit) {
+      await ctx.runMutation(internal.users.incrementMessageCountInternal, {
+        userId,
+        usesPremiumCredits: args.usesPremiumCredits,
+      });
+    }
+
+    if (!args.store) {
+      const { modelId, inputTokens, outputTokens, costUsd, wasUserKeyUsed } =
+        args.metadata;
+      await ctx.runMutation(internal.usage.recordUsageInternal, {
+        userId,
+        metadata: {
+          modelId,
+          inputTokens,
+          outputTokens,
+          costUsd,
+          wasUserKeyUsed,
+        },
+      });
+      return { chatId: null };
+    }
+
+    await authenticate(ctx, args.accessToken, "history");
+    const firstUserMessage = args.store.messages.find((m) => m.role === "user");
+    const { chatId } = await ctx.runMutation(
+      internal.chats.createChatInternal,
+      {
+        userId,
+        title: firstUserMessage?.content
+          .trim()
+          .slice(0, STORED_CHAT_TITLE_LENGTH),
+        model: args.metadata.modelId,
+      }
+    );
+
+    let parentMessageId: Id<"messages"> | undefined;
+    for (const message of args.store.messages) {
+      const { messageId } = await ctx.runMutation(
+        internal.messages.sendUserMessageToChatInternal,
+        {
+          chatId,
+          role: message.role,
+          content: message.content,
+          parentMessageId,
+          parts: [{ type: "text", text: message.content }],
+          metadata: {},
+        }
+      );
+      parentMessageId = messageId;
+    }
+
+    // Saving the answer also records its cost
+    await ctx.runMutation(internal.messages.saveAssistantMessageInternal, {
+      chatId,
+      role: "assistant",
+      content: args.store.answer,
+      parentMessageId,
+      parts: [{ type: "text", text: args.store.answer }],
+      metadata: args.metadata,
+    });
+    return { chatId };
+  },
+});
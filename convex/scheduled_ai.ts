@@ -3,6 +3,8 @@
 import {
   consumeStream,
   convertToModelMessages,
+  type JSONValue,
+  type LanguageModel,
   stepCountIs,
   streamText,
   type Tool,
@@ -10,29 +12,477 @@ import {
   type UIMessageStreamWriter,
 } from "ai";
 import { ConvexError, v } from "convex/values";
-import dayjs from "dayjs";
-import timezonePlugin from "dayjs/plugin/timezone";
-import utc from "dayjs/plugin/utc";
-import { searchTool } from "@/app/api/tools/search";
-import { MODELS_MAP } from "@/lib/config";
-import type { ConnectorStatusLists } from "@/lib/connector-utils";
+import { createSearchTool } from "@/app/api/tools/search";
+import type { SearchProviderConfig } from "@/app/api/tools/types";
+import { MODELS_MAP, TASK_MODEL_DEFAULT } from "@/lib/config";
+import type { Model } from "@/lib/config/schemas";
+import {
+  type ConnectorStatusLists,
+  restrictConnectorStatus,
+} from "@/lib/connector-utils";
 import { createAgentTool } from "@/lib/create-agent-tool";
+import { buildCustomModel, parseCustomModelId } from "@/lib/custom-models";
+import { createCustomLanguageModel } from "@/lib/custom-models-server";
 import { limitDepth } from "@/lib/depth-limiter";
 import { ERROR_CODES } from "@/lib/error-codes";
-import { buildSystemPrompt } from "@/lib/prompt_config";
+import {
+  buildSystemPrompt,
+  getTaskPromptDefault,
+  PERSONAS_MAP,
+} from "@/lib/prompt_config";
+import { buildProviderOptions } from "@/lib/reasoning-options";
+import {
+  DEFAULT_TASK_RETRY_POLICY,
+  DEFAULT_TASK_TIMEOUT_MINUTES,
+  getRetryDelayMs,
+  hasRetriesLeft,
+} from "@/lib/task-retry";
+import { getNextRunTime } from "@/lib/task-schedule";
+import {
+  getStepToolkits,
+  matchesStepCondition,
+  type TaskStep,
+  truncateStepOutput,
+} from "@/lib/task-steps";
+import { buildTriggerEventPrompt } from "@/lib/task-triggers";
+import { computeCostUsd } from "@/lib/usage-cost";
+import { createUserKeyModel, getUserKeyProvider } from "@/lib/user-key-models";
 import { internal } from "./_generated/api";
-import type { Doc } from "./_generated/dataModel";
-import { internalAction } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import { type ActionCtx, internalAction } from "./_generated/server";
+import { polar } from "./polar";
+import { TriggerEvent } from "./schema/scheduled_task";
+
+type TaskHistoryStepResult = NonNullable<Doc<"task_history">["steps"]>[number];
+
+// How often a running task checks whether the user cancelled it
+const CANCEL_POLL_INTERVAL_MS = 5000;
+// Extra time before the watchdog gives up on a run that stopped responding
+const EXPIRY_GRACE_MS = 60 * 1000;
+
+// Error for task settings that a retry cannot fix, e.g. a missing API key
+class TaskSettingsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TaskSettingsError";
+  }
+}
+
+// Error a run stops with when it times out or the user cancels it
+class TaskStoppedError extends Error {
+  status: "timeout" | "cancelled";
+
+  constructor(status: "timeout" | "cancelled", message: string) {
+    super(message);
+    this.name = "TaskStoppedError";
+    this.status = status;
+  }
+}
+
+type StepUsage = {
+  inputTokens: number;
+  outputTokens: number;
+  reasoningTokens: number;
+  totalTokens: number;
+  cachedInputTokens: number;
+};
+
+type TaskModel = {
+  selectedModel: Model;
+  languageModel: LanguageModel;
+  // Provider of the user's own key, when the run uses it
+  userKeyProvider?: string;
+};
+
+type StepRunContext = {
+  ctx: ActionCtx;
+  task: Doc<"scheduled_tasks">;
+  user: Doc<"users">;
+  chatId: Id<"chats">;
+  taskModel: TaskModel;
+  personaPrompt?: string;
+  connectorsStatus?: ConnectorStatusLists;
+  searchConfig: SearchProviderConfig | null; // The user's search settings
+  abortSignal: AbortSignal;
+};
+
+type StepRunInput = {
+  prompt: string;
+  toolkitSlugs: string[];
+  // Earlier steps of the run, so the model can build on their output
+  history: UIMessage[];
+  parentMessageId?: Id<"messages">;
+};
+
+type StepRunResult = {
+  userMessage: UIMessage;
+  responseMessage: UIMessage;
+  assistantMessageId: Id<"messages">;
+  output: string;
+  lastText: string;
+  usage: StepUsage;
+};
+
+/**
+ * Resolve the model a task runs on with the same user key and premium rules
+ * as the chat route. Throws an error whose message is shown in the task's
+ * execution history when the model cannot be used.
+ */
+async function resolveTaskModel(
+  ctx: ActionCtx,
+  task: Doc<"scheduled_tasks">,
+  user: Doc<"users">
+): Promise<TaskModel> {
+  const modelId = task.modelId ?? TASK_MODEL_DEFAULT;
+
+  if (user.disabledModels?.includes(modelId)) {
+    const name = MODELS_MAP[modelId]?.name ?? modelId;
+    throw new TaskSettingsError(
+      `${name} is disabled in your model settings. Enable it or choose another model for this task.`
+    );
+  }
+
+  const customModelId = parseCustomModelId(modelId);
+  if (customModelId) {
+    const config = await ctx.runQuery(
+      internal.custom_endpoints.getCustomModelConfigInternal,
+      { userId: task.userId, ...customModelId }
+    );
+    if (!config) {
+      throw new TaskSettingsError(
+        "The custom model for this task no longer exists. Choose another model for this task."
+      );
+    }
+    const selectedModel = buildCustomModel(
+      { _id: customModelId.endpointId, name: config.endpointName },
+      config.model
+    );
+    return {
+      selectedModel,
+      languageModel: createCustomLanguageModel(config),
+    };
+  }
+
+  const selectedModel = MODELS_MAP[modelId];
+  if (!selectedModel) {
+    throw new TaskSettingsError(
+      `The model ${modelId} is no longer available. Choose another model for this task.`
+    );
+  }
+
+  // Use the user's own key when the model needs one or the key has priority
+  const { apiKeyUsage } = selectedModel;
+  const userKeyProvider = getUserKeyProvider(selectedModel);
+  const userKey = apiKeyUsage?.allowUserKey
+    ? await ctx.runQuery(internal.api_keys.getDecryptedKeyInternal, {
+        userId: task.userId,
+        provider: userKeyProvider,
+      })
+    : null;
+  const useUserKey = Boolean(
+    userKey && (apiKeyUsage?.userKeyOnly || userKey.mode === "priority")
+  );
+
+  if (apiKeyUsage?.userKeyOnly && !userKey) {
+    throw new TaskSettingsError(
+      `${selectedModel.name} requires your own API key. Add one in Settings > API Keys or choose another model for this task.`
+    );
+  }
+
+  if (selectedModel.premium && !useUserKey) {
+    const subscription = await polar
+      .getCurrentSubscription(ctx, { userId: task.userId })
+      .catch(() => null);
+    if (subscription?.status !== "active") {
+      throw new TaskSettingsError(
+        `${selectedModel.name} requires a premium subscription or your own API key. Upgrade or choose another model for this task.`
+      );
+    }
+  }
+
+  if (userKey && useUserKey) {
+    return {
+      selectedModel,
+      languageModel: createUserKeyModel(selectedModel, userKey.key),
+      userKeyProvider,
+    };
+  }
+  return { selectedModel, languageModel: selectedModel.api_sdk };
+}
+
+// Helper function to run one step of a task and save it to the run's chat
+async function runStep(
+  {
+    ctx,
+    task,
+    user,
+    chatId,
+    taskModel,
+    personaPrompt,
+    connectorsStatus,
+    searchConfig,
+    abortSignal,
+  }: StepRunContext,
+  { prompt, toolkitSlugs, history, parentMessageId }: StepRunInput
+): Promise<StepRunResult> {
+  const { selectedModel, languageModel, userKeyProvider } = taskModel;
+  // Models without tool calling run on the prompt alone
+  const supportsTools =
+    selectedModel.features?.some(
+      (feature) => feature.id === "tool-calling" && feature.enabled
+    ) ?? false;
+  const stepToolkits = supportsTools ? toolkitSlugs : [];
+
+  // Build system prompt. A persona adds its voice to the task instructions.
+  const systemPrompt = buildSystemPrompt(
+    user,
+    personaPrompt
+      ? `${getTaskPromptDefault(task.timezone, connectorsStatus)}\n\n${personaPrompt}`
+      : undefined,
+    task.enableSearch,
+    stepToolkits.length > 0,
+    task.timezone,
+    task.emailNotifications, // Enable email mode when notifications are enabled
+    true, // Enable task mode for autonomous execution
+    connectorsStatus
+  );
+
+  // Create user message
+  const userMessage: UIMessage = {
+    id: Math.random().toString(36).substring(2, 15),
+    role: "user",
+    parts: [{ type: "text", text: prompt }],
+  };
+
+  // Save user message
+  const { messageId: userMsgId } = await ctx.runMutation(
+    internal.messages.sendUserMessageToChatInternal,
+    {
+      chatId,
+      role: "user",
+      content: prompt,
+      parts: [{ type: "text", text: prompt }],
+      metadata: {},
+      parentMessageId,
+    }
+  );
+
+  // Execute AI request using streamText (same pattern as chat route)
+  const aiStartTime = Date.now();
+
+  // Pre-build base metadata before streaming (same as chat route)
+  const baseMetadata = {
+    modelId: selectedModel.id,
+    modelName: selectedModel.name,
+    includeSearch: task.enableSearch,
+    reasoningEffort: task.reasoningEffort || "none",
+  };
+
+  // Initialize usage tracking (same as chat route)
+  let finalUsage: StepUsage = {
+    inputTokens: 0,
+    outputTokens: 0,
+    reasoningTokens: 0,
+    totalTokens: 0,
+    cachedInputTokens: 0,
+  };
+
+  const providerOptions = buildProviderOptions(
+    selectedModel,
+    task.reasoningEffort,
+    task.userId
+  ) as Record<string, Record<string, JSONValue>> | undefined;
+
+  const toolset: Record<string, Tool> = {};
+
+  if (task.enableSearch && supportsTools) {
+    toolset.search = createSearchTool(searchConfig ?? undefined);
+  }
+
+  if (stepToolkits.length > 0) {
+    const noopWriter: UIMessageStreamWriter = {
+      write: () => {
+        // no-op writer for scheduled executions
+      },
+      merge: () => {
+        // scheduled runs do not stream to a client
+      },
+      onError: undefined,
+    };
+    toolset.create_agent = createAgentTool({
+      userId: task.userId,
+      availableToolkits: stepToolkits,
+      model: languageModel,
+      providerOptions,
+      connectorsStatus,
+      writer: noopWriter,
+    });
+  }
+
+  const result = streamText({
+    model: languageModel,
+    system: systemPrompt,
+    messages: convertToModelMessages([...history, userMessage]),
+    toolChoice: "auto",
+    tools: toolset,
+    stopWhen: stepCountIs(10),
+    providerOptions,
+    abortSignal,
+    onFinish({ usage }) {
+      // Capture usage data (runs on successful completion) - same as chat route
+      finalUsage = {
+        inputTokens: usage.inputTokens || 0,
+        outputTokens: usage.outputTokens || 0,
+        reasoningTokens: usage.reasoningTokens || 0,
+        totalTokens: usage.totalTokens || 0,
+        cachedInputTokens: usage.cachedInputTokens || 0,
+      };
+    },
+  });
+
+  // Consume the stream to ensure it runs to completion (same as chat route)
+  await result.consumeStream();
+
+  // Get UI-compatible parts using toUIMessageStreamResponse (same as chat route)
+  // Create a promise that resolves when onFinish completes
+  return await new Promise<StepRunResult>((resolve, reject) => {
+    result.toUIMessageStreamResponse({
+      originalMessages: [userMessage],
+      sendReasoning: true,
+      sendSources: true,
+      onFinish: async (Messages) => {
+        try {
+          // Construct final metadata (same as chat route)
+          const finalMetadata = {
+            ...baseMetadata,
+            serverDurationMs: Date.now() - aiStartTime,
+            ...finalUsage,
+            costUsd: computeCostUsd(selectedModel.pricing, finalUsage),
+            wasUserKeyUsed: Boolean(userKeyProvider),
+          };
+
+          // Extract text content for the content field (for search indexing)
+          const textParts = Messages.responseMessage.parts.filter(
+            (part) => part.type === "text"
+          );
+          const textContent = textParts.map((part) => part.text).join("");
+
+          // Limit depth of parts to prevent Convex nesting limit errors
+          const depthLimitedParts = limitDepth(
+            Messages.responseMessage.parts,
+            14
+          );
+
+          // Save assistant message with UI-compatible parts
+          const { messageId: assistantMessageId } = await ctx.runMutation(
+            internal.messages.saveAssistantMessageInternal,
+            {
+              chatId,
+              role: "assistant",
+              content: textContent,
+              parentMessageId: userMsgId,
+              parts: depthLimitedParts,
+              metadata: finalMetadata,
+              taskId: task._id,
+            }
+          );
+
+          // --- Usage Tracking (same as chat route) ---
+          // Runs on the user's key count toward the key instead of credits
+          if (userKeyProvider) {
+            await ctx.runMutation(
+              internal.api_keys.incrementUserApiKeyUsageInternal,
+              { userId: task.userId, provider: userKeyProvider }
+            );
+          } else if (!selectedModel.skipRateLimit) {
+            // Check if the selected model uses premium credits
+            const usesPremiumCredits =
+              selectedModel.usesPremiumCredits === true;
 
-// Extend dayjs with plugins
-dayjs.extend(utc);
-dayjs.extend(timezonePlugin);
+            await ctx.runMutation(
+              internal.users.incrementMessageCountInternal,
+              {
+                userId: task.userId,
+                usesPremiumCredits,
+              }
+            );
+          }
+
+          resolve({
+            userMessage,
+            responseMessage: Messages.responseMessage,
+            assistantMessageId,
+            output: textContent,
+            // Email content is the last text part only
+            lastText: textParts.at(-1)?.text || "",
+            usage: finalUsage,
+          });
+        } catch (error) {
+          reject(error);
+        }
+      },
+      consumeSseStream: consumeStream,
+    });
+  });
+}
+
+/**
+ * Stop a run when it times out or the user cancels it. Returns a function
+ * that clears the timers once the run is over.
+ */
+function watchExecution(
+  ctx: ActionCtx,
+  executionId: string,
+  timeoutMinutes: number,
+  controller: AbortController
+): () => void {
+  const timeout = setTimeout(
+    () =>
+      controller.abort(
+        new TaskStoppedError(
+          "timeout",
+          `Run did not finish within ${timeoutMinutes} minutes`
+        )
+      ),
+    timeoutMinutes * 60 * 1000
+  );
+  const poll = setInterval(async () => {
+    const status = await ctx
+      .runQuery(internal.task_history.getExecutionStatus, { executionId })
+      .catch(() => null);
+    if (status === "cancelled") {
+      controller.abort(new TaskStoppedError("cancelled", "Cancelled by user"));
+    }
+  }, CANCEL_POLL_INTERVAL_MS);
+
+  return () => {
+    clearTimeout(timeout);
+    clearInterval(poll);
+  };
+}
+
+// Helper function to reject as soon as a run is stopped, even while the
+// promise it waits on is still pending
+function untilStopped<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+  if (signal.aborted) {
+    return Promise.reject(signal.reason);
+  }
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener("abort", onAbort));
+  });
+}
 
 // Execute a scheduled task
 export const executeTask = internalAction({
   args: {
     taskId: v.id("scheduled_tasks"),
     isManualTrigger: v.optional(v.boolean()),
+    triggerEvent: v.optional(TriggerEvent), // Set for runs of event tasks
+    attempt: v.optional(v.number()), // Set for retries, the first run is 1
   },
   returns: v.null(),
   handler: async (ctx, args) => {
@@ -40,21 +490,34 @@ export const executeTask = internalAction({
     const executionId = `exec_${Date.now()}_${Math.random().toString(36).substring(2, 15)}`;
     const startTime = Date.now();
     let historyRecordId: string | null = null;
+    // Per-step results, recorded in history for workflow tasks
+    const stepResults: TaskHistoryStepResult[] = [];
+    let currentStep:
+      | { index: number; prompt: string; startTime: number }
+      | undefined;
+    let isWorkflow = false;
+    const attempt = args.attempt ?? 1;
+    let task: Doc<"scheduled_tasks"> | null = null;
+    // Aborted when the run times out or the user cancels it
+    const abortController = new AbortController();
+    let stopWatching: (() => void) | undefined;
 
     try {
       // Get task details
       // console.log('Executing scheduled task:', args.taskId);
-      const task: Doc<"scheduled_tasks"> | null = await ctx.runQuery(
-        internal.scheduled_tasks.getTask,
-        { taskId: args.taskId }
-      );
+      task = await ctx.runQuery(internal.scheduled_tasks.getTask, {
+        taskId: args.taskId,
+      });
 
       if (!task) {
         // console.log('Task not found:', args.taskId);
         return null;
       }
 
-      if (task.status !== "active") {
+      // Event runs are claimed by enqueueTriggerEvent, which sets the task
+      // to running before scheduling them
+      const claimedStatus = args.triggerEvent ? "running" : "active";
+      if (task.status !== claimedStatus) {
         // console.log('Task is not active:', args.taskId);
         return null;
       }
@@ -67,6 +530,16 @@ export const executeTask = internalAction({
 
       if (!user) {
         // console.log('User not found for task:', args.taskId);
+        if (args.triggerEvent) {
+          await ctx.runMutation(
+            internal.scheduled_tasks.updateTaskAfterExecution,
+            {
+              taskId: args.taskId,
+              lastExecuted: Date.now(),
+              newStatus: "active",
+            }
+          );
+        }
         return null;
       }
 
@@ -78,9 +551,44 @@ export const executeTask = internalAction({
           executionId,
           startTime,
           isManualTrigger: args.isManualTrigger,
+          triggerEvent: args.triggerEvent?.summary,
+          attempt,
         }
       );
 
+      // Enforce the task's timeout, with a watchdog in case this action
+      // stops before it can record the result
+      const timeoutMinutes =
+        task.timeoutMinutes ?? DEFAULT_TASK_TIMEOUT_MINUTES;
+      stopWatching = watchExecution(
+        ctx,
+        executionId,
+        timeoutMinutes,
+        abortController
+      );
+      await ctx.scheduler.runAfter(
+        timeoutMinutes * 60 * 1000 + EXPIRY_GRACE_MS,
+        internal.scheduled_tasks.expireTaskExecution,
+        { taskId: args.taskId, executionId }
+      );
+
+      // Resolve the task's model before creating its chat, so a model the
+      // user can no longer use fails the run with a clear message
+      const taskModel = await resolveTaskModel(ctx, task, user);
+      const { selectedModel } = taskModel;
+
+      // Built-in personas live in PERSONAS_MAP, user-defined ones in the db
+      const persona =
+        task.personaId && !PERSONAS_MAP[task.personaId]
+          ? await ctx.runQuery(internal.personas.getPersonaInternal, {
+              userId: task.userId,
+              personaId: task.personaId,
+            })
+          : null;
+      const personaPrompt = task.personaId
+        ? (PERSONAS_MAP[task.personaId]?.prompt ?? persona?.prompt)
+        : undefined;
+
       // Create a new chat for each task execution
       const currentDate = new Date().toISOString().split("T")[0]; // YYYY-MM-DD format
       const currentTime = new Date().toLocaleTimeString("en-US", {
@@ -94,7 +602,7 @@ export const executeTask = internalAction({
         {
           userId: task.userId,
           title: `${task.title} - ${currentDate} ${currentTime}`,
-          model: "moonshotai/kimi-k2-0905",
+          model: selectedModel.id,
         }
       );
 
@@ -166,254 +674,174 @@ export const executeTask = internalAction({
           (t) => !presentTypes.has(t)
         ).map((t) => t.toUpperCase());
 
-        connectorsStatus = {
-          enabled: enabledSlugs,
-          disabled: disabledSlugs,
-          notConnected: notConnectedSlugs,
-        };
+        // Limited to the connectors the task's persona allows
+        connectorsStatus = restrictConnectorStatus(
+          {
+            enabled: enabledSlugs,
+            disabled: disabledSlugs,
+            notConnected: notConnectedSlugs,
+          },
+          persona?.defaultConnectors
+        );
+        toolkitSlugs = connectorsStatus.enabled;
       } catch (_error) {
         // console.error('Failed to load Composio tools:', error);
         // Continue without Composio tools
       }
 
-      // Build system prompt
-      const systemPrompt = buildSystemPrompt(
-        user,
-        undefined, // No persona for scheduled tasks
-        task.enableSearch,
-        toolkitSlugs.length > 0,
-        task.timezone,
-        task.emailNotifications, // Enable email mode when notifications are enabled
-        true, // Enable task mode for autonomous execution
-        connectorsStatus
-      );
-
-      // Get Kimi K2 0905 model
-      const selectedModel = MODELS_MAP["moonshotai/kimi-k2-0905"];
-      if (!selectedModel) {
-        // console.log('Kimi K2 0905 model not found');
-        return null;
-      }
-
       // --- Rate Limiting Check (same as chat route) ---
-      try {
-        // Check if the selected model uses premium credits
-        const usesPremiumCredits = selectedModel.usesPremiumCredits === true;
+      // Runs on the user's own key or on unmetered models skip the limits
+      if (!(taskModel.userKeyProvider || selectedModel.skipRateLimit)) {
+        try {
+          // Check if the selected model uses premium credits
+          const usesPremiumCredits = selectedModel.usesPremiumCredits === true;
 
-        await ctx.runMutation(internal.users.assertNotOverLimitInternal, {
-          userId: task.userId,
-          usesPremiumCredits,
-        });
-      } catch (error) {
-        if (error instanceof ConvexError) {
-          const errorCode = error.data;
-          if (
-            errorCode === ERROR_CODES.DAILY_LIMIT_REACHED ||
-            errorCode === ERROR_CODES.MONTHLY_LIMIT_REACHED ||
-            errorCode === ERROR_CODES.PREMIUM_LIMIT_REACHED
-          ) {
-            // Rate limit reached - pause the task (don't reschedule)
-            await ctx.runMutation(
-              internal.scheduled_tasks.updateTaskAfterExecution,
-              {
-                taskId: args.taskId,
-                lastExecuted: Date.now(),
-                newStatus: "paused",
-              }
-            );
-            return null;
+          await ctx.runMutation(internal.users.assertNotOverLimitInternal, {
+            userId: task.userId,
+            usesPremiumCredits,
+          });
+        } catch (error) {
+          if (error instanceof ConvexError) {
+            const errorCode = error.data;
+            if (
+              errorCode === ERROR_CODES.DAILY_LIMIT_REACHED ||
+              errorCode === ERROR_CODES.MONTHLY_LIMIT_REACHED ||
+              errorCode === ERROR_CODES.PREMIUM_LIMIT_REACHED
+            ) {
+              // Rate limit reached - pause the task (don't reschedule)
+              await ctx.runMutation(
+                internal.task_history.updateExecutionHistory,
+                {
+                  executionId,
+                  status: "failure",
+                  endTime: Date.now(),
+                  errorMessage:
+                    "Usage limit reached. The task was paused; resume it once your limit resets.",
+                }
+              );
+              await ctx.runMutation(
+                internal.scheduled_tasks.updateTaskAfterExecution,
+                {
+                  taskId: args.taskId,
+                  lastExecuted: Date.now(),
+                  newStatus: "paused",
+                }
+              );
+              return null;
+            }
           }
+          // Re-throw non-rate-limit errors
+          throw error;
         }
-        // Re-throw non-rate-limit errors
-        throw error;
       }
 
-      // console.log('Selected model:', selectedModel);
-      // Create user message
-      const userMessage: UIMessage = {
-        id: Math.random().toString(36).substring(2, 15),
-        role: "user",
-        parts: [{ type: "text", text: task.prompt }],
-      };
+      // The user's search providers and keys; server defaults when unset
+      const searchConfig = task.enableSearch
+        ? await ctx
+            .runQuery(internal.search_settings.getSearchConfigInternal, {
+              userId: task.userId,
+            })
+            .catch(() => null)
+        : null;
 
-      // console.log('User message:', userMessage);
-
-      // Save user message
-      const { messageId: userMsgId } = await ctx.runMutation(
-        internal.messages.sendUserMessageToChatInternal,
+      // The task prompt is the first step; workflow steps follow in the same chat.
+      // Event runs add the event to the first step so the agent can act on it.
+      const workflowSteps: TaskStep[] = [
         {
-          chatId,
-          role: "user",
-          content: task.prompt,
-          parts: [{ type: "text", text: task.prompt }],
-          metadata: {},
-        }
-      );
-
-      // Execute AI request using streamText (same pattern as chat route)
-      const aiStartTime = Date.now();
-
-      // Pre-build base metadata before streaming (same as chat route)
-      const baseMetadata = {
-        modelId: selectedModel.id,
-        modelName: selectedModel.name,
-        includeSearch: task.enableSearch,
-      };
+          prompt: args.triggerEvent
+            ? buildTriggerEventPrompt(task.prompt, args.triggerEvent)
+            : task.prompt,
+        },
+        ...(task.steps ?? []),
+      ];
+      isWorkflow = workflowSteps.length > 1;
 
-      // Initialize usage tracking (same as chat route)
-      let finalUsage = {
+      const totalUsage: StepUsage = {
         inputTokens: 0,
         outputTokens: 0,
         reasoningTokens: 0,
         totalTokens: 0,
         cachedInputTokens: 0,
       };
+      let history: UIMessage[] = [];
+      let parentMessageId: Id<"messages"> | undefined;
+      let previousOutput = "";
+      let resultText = "";
+      let stoppedByCondition = false;
 
-      const toolset: Record<string, Tool> = {};
+      for (const [index, step] of workflowSteps.entries()) {
+        // A step whose condition fails ends the workflow
+        if (
+          stoppedByCondition ||
+          !matchesStepCondition(step.condition, previousOutput)
+        ) {
+          stoppedByCondition = true;
+          stepResults.push({ index, prompt: step.prompt, status: "skipped" });
+          continue;
+        }
 
-      if (task.enableSearch) {
-        toolset.search = searchTool;
-      }
+        currentStep = { index, prompt: step.prompt, startTime: Date.now() };
+        const stepResult = await untilStopped(
+          runStep(
+            {
+              ctx,
+              task,
+              user,
+              chatId,
+              taskModel,
+              personaPrompt,
+              connectorsStatus,
+              searchConfig,
+              abortSignal: abortController.signal,
+            },
+            {
+              prompt: step.prompt,
+              toolkitSlugs: getStepToolkits(step.toolkitSlugs, toolkitSlugs),
+              history,
+              parentMessageId,
+            }
+          ),
+          abortController.signal
+        );
 
-      if (toolkitSlugs.length > 0) {
-        const noopWriter: UIMessageStreamWriter = {
-          write: () => {
-            // no-op writer for scheduled executions
-          },
-          merge: () => {
-            // scheduled runs do not stream to a client
-          },
-          onError: undefined,
-        };
-        toolset.create_agent = createAgentTool({
-          userId: task.userId,
-          availableToolkits: toolkitSlugs,
-          model: selectedModel.api_sdk,
-          connectorsStatus,
-          writer: noopWriter,
+        stepResults.push({
+          ...currentStep,
+          status: "success",
+          output: truncateStepOutput(stepResult.output),
+          endTime: Date.now(),
         });
-      }
-
-      const result = streamText({
-        model: selectedModel.api_sdk,
-        system: systemPrompt,
-        messages: convertToModelMessages([userMessage]),
-        toolChoice: "auto",
-        tools: toolset,
-        stopWhen: stepCountIs(10),
-        onFinish({ usage }) {
-          // Capture usage data (runs on successful completion) - same as chat route
-          finalUsage = {
-            inputTokens: usage.inputTokens || 0,
-            outputTokens: usage.outputTokens || 0,
-            reasoningTokens: usage.reasoningTokens || 0,
-            totalTokens: usage.totalTokens || 0,
-            cachedInputTokens: usage.cachedInputTokens || 0,
-          };
-        },
-      });
-
-      // Consume the stream to ensure it runs to completion (same as chat route)
-      await result.consumeStream();
-
-      // Variable to store email content outside the callback
-      let emailTextContent = "";
-
-      // Get UI-compatible parts using toUIMessageStreamResponse (same as chat route)
-      // Create a promise that resolves when onFinish completes
-      await new Promise<void>((resolve, reject) => {
-        result.toUIMessageStreamResponse({
-          originalMessages: [userMessage],
-          sendReasoning: true,
-          sendSources: true,
-          onFinish: async (Messages) => {
-            try {
-              // Construct final metadata (same as chat route)
-              const finalMetadata = {
-                ...baseMetadata,
-                serverDurationMs: Date.now() - aiStartTime,
-                inputTokens: finalUsage.inputTokens,
-                outputTokens: finalUsage.outputTokens,
-                totalTokens: finalUsage.totalTokens,
-                reasoningTokens: finalUsage.reasoningTokens,
-                cachedInputTokens: finalUsage.cachedInputTokens,
-              };
-
-              // Extract text content for the content field (for search indexing)
-              const textContent = Messages.responseMessage.parts
-                .filter((part) => part.type === "text")
-                .map((part) => part.text)
-                .join("");
-
-              // Extract email content (last text part only)
-              const textParts = Messages.responseMessage.parts.filter(
-                (part) => part.type === "text"
-              );
-              emailTextContent =
-                textParts.length > 0 ? textParts.at(-1)?.text || "" : "";
-
-              // Limit depth of parts to prevent Convex nesting limit errors
-              const depthLimitedParts = limitDepth(
-                Messages.responseMessage.parts,
-                14
-              );
-
-              // Send email notification after message processing is complete
-              if (task.emailNotifications && emailTextContent) {
-                const executionDate = `${currentDate} ${currentTime}`;
-                // Schedule email mutation to run immediately after this action completes
-                await ctx.scheduler.runAfter(
-                  0,
-                  internal.email.sendTaskSummaryEmail,
-                  {
-                    userId: task.userId,
-                    taskId: args.taskId,
-                    taskTitle: task.title,
-                    taskContent: emailTextContent,
-                    executionDate,
-                    chatId,
-                  }
-                );
-              }
-
-              // Save assistant message with UI-compatible parts
-              await ctx.runMutation(
-                internal.messages.saveAssistantMessageInternal,
-                {
-                  chatId,
-                  role: "assistant",
-                  content: textContent,
-                  parentMessageId: userMsgId,
-                  parts: depthLimitedParts,
-                  metadata: finalMetadata,
-                }
-              );
+        currentStep = undefined;
 
-              // --- Usage Tracking (same as chat route) ---
-              // Only increment credits if model doesn't skip rate limiting
-              if (!selectedModel.skipRateLimit) {
-                // Check if the selected model uses premium credits
-                const usesPremiumCredits =
-                  selectedModel.usesPremiumCredits === true;
-
-                await ctx.runMutation(
-                  internal.users.incrementMessageCountInternal,
-                  {
-                    userId: task.userId,
-                    usesPremiumCredits,
-                  }
-                );
-              }
+        for (const key of Object.keys(totalUsage) as (keyof StepUsage)[]) {
+          totalUsage[key] += stepResult.usage[key];
+        }
+        history = [
+          ...history,
+          stepResult.userMessage,
+          stepResult.responseMessage,
+        ];
+        parentMessageId = stepResult.assistantMessageId;
+        previousOutput = stepResult.output;
+        resultText = stepResult.lastText;
+      }
 
-              // Resolve the promise to signal completion
-              resolve();
-            } catch (error) {
-              reject(error);
-            }
-          },
-          consumeSseStream: consumeStream,
-        });
-      });
+      // Deliver the output of the last step to the task's channels, unless
+      // a condition stopped the workflow
+      if (resultText && !stoppedByCondition) {
+        await ctx.scheduler.runAfter(
+          0,
+          internal.task_notifications.deliverTaskResult,
+          {
+            taskId: args.taskId,
+            executionId,
+            status: "success",
+            output: resultText,
+            chatId,
+            attempt,
+            executionDate: `${currentDate} ${currentTime}`,
+          }
+        );
+      }
 
       // Handle rescheduling based on task type
       const now = Date.now();
@@ -428,8 +856,9 @@ export const executeTask = internalAction({
             newStatus: "archived",
           }
         );
-      } else if (args.isManualTrigger) {
-        // Manual trigger for recurring task - execute normally but don't reschedule
+      } else if (args.isManualTrigger || task.scheduleType === "event") {
+        // Manual trigger for recurring task, or an event task waiting for its
+        // next event - execute normally but don't reschedule
         await ctx.runMutation(
           internal.scheduled_tasks.updateTaskAfterExecution,
           {
@@ -439,69 +868,9 @@ export const executeTask = internalAction({
           }
         );
       } else {
-        // Recurring task (daily or weekly) - calculate next execution
-        // We need to parse the original scheduled time to maintain consistent timing
-        let nextExecution: number;
-
-        if (task.scheduleType === "daily") {
-          // Parse the scheduled time (HH:MM) and calculate next occurrence
-          const [hours, minutes] = task.scheduledTime.split(":").map(Number);
-
-          // Create a date in the user's timezone
-          const nowInUserTz = new Date();
-          const userDate = new Date(
-            nowInUserTz.getFullYear(),
-            nowInUserTz.getMonth(),
-            nowInUserTz.getDate(),
-            hours,
-            minutes,
-            0,
-            0
-          );
-
-          // Convert from user timezone to UTC
-          let utcDate = dayjs.tz(userDate, task.timezone).utc().toDate();
-
-          // Keep adding days until we find the next future occurrence
-          while (utcDate.getTime() <= now) {
-            userDate.setDate(userDate.getDate() + 1);
-            utcDate = dayjs.tz(userDate, task.timezone).utc().toDate();
-          }
-
-          nextExecution = utcDate.getTime();
-        } else {
-          // Weekly - parse day:HH:MM
-          const parts = task.scheduledTime.split(":");
-          const targetDay = Number.parseInt(parts[0], 10);
-          const hours = Number.parseInt(parts[1], 10);
-          const minutes = Number.parseInt(parts[2], 10);
-
-          // Create a date in the user's timezone
-          const nowInUserTz = new Date();
-          const currentDay = nowInUserTz.getDay();
-          const daysToTarget = (targetDay - currentDay + 7) % 7;
-
-          const userDate = new Date(
-            nowInUserTz.getFullYear(),
-            nowInUserTz.getMonth(),
-            nowInUserTz.getDate() + daysToTarget,
-            hours,
-            minutes,
-            0,
-            0
-          );
-
-          // Convert from user timezone to UTC
-          let utcDate = dayjs.tz(userDate, task.timezone).utc().toDate();
-
-          // If this week's occurrence is in the past, add 7 days
-          if (utcDate.getTime() <= now) {
-            userDate.setDate(userDate.getDate() + 7);
-            utcDate = dayjs.tz(userDate, task.timezone).utc().toDate();
-          }
-
-          nextExecution = utcDate.getTime();
-        }
+        // Recurring task - calculate next execution from the task's schedule
+        // so runs keep their wall-clock time across DST changes
+        const nextExecution = getNextRunTime(task, now);
 
         const scheduledFunctionId = await ctx.scheduler.runAt(
           nextExecution,
@@ -531,15 +900,13 @@ export const executeTask = internalAction({
           metadata: {
             modelId: selectedModel.id,
             modelName: selectedModel.name,
-            inputTokens: finalUsage.inputTokens,
-            outputTokens: finalUsage.outputTokens,
-            totalTokens: finalUsage.totalTokens,
-            reasoningTokens: finalUsage.reasoningTokens,
-            cachedInputTokens: finalUsage.cachedInputTokens,
+            ...totalUsage,
+            costUsd: computeCostUsd(selectedModel.pricing, totalUsage),
             serverDurationMs: Date.now() - startTime,
             includeSearch: task.enableSearch,
             toolkitSlugs,
           },
+          steps: isWorkflow ? stepResults : undefined,
         });
       }
 
@@ -553,25 +920,131 @@ export const executeTask = internalAction({
     } catch (error) {
       // console.log('Error executing scheduled task:', error);
 
-      // Update execution history with failure
-      if (historyRecordId) {
-        await ctx.runMutation(internal.task_history.updateExecutionHistory, {
-          executionId,
+      // Record the step that was running when the workflow failed
+      if (currentStep) {
+        stepResults.push({
+          ...currentStep,
           status: "failure",
           endTime: Date.now(),
-          errorMessage:
-            error instanceof Error ? error.message : "Unknown error",
         });
       }
 
-      // Update task to mark last execution attempt and reset status to active
-      await ctx.runMutation(internal.scheduled_tasks.updateTaskAfterExecution, {
-        taskId: args.taskId,
-        lastExecuted: Date.now(),
-        newStatus: "active", // Reset to active even on error for recurring tasks
-      });
+      const stoppedStatus =
+        error instanceof TaskStoppedError ? error.status : undefined;
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      const now = Date.now();
+
+      // Retry failures and timeouts; cancelled runs and settings the user
+      // has to fix are not retried
+      const retryPolicy = task?.retryPolicy ?? DEFAULT_TASK_RETRY_POLICY;
+      const isRetryable =
+        stoppedStatus !== "cancelled" && !(error instanceof TaskSettingsError);
+      const willRetry =
+        Boolean(task && historyRecordId) &&
+        isRetryable &&
+        hasRetriesLeft(retryPolicy, attempt);
+      const nextRetryAt = willRetry
+        ? now + getRetryDelayMs(retryPolicy, attempt)
+        : undefined;
+      const retriesExhausted =
+        isRetryable &&
+        retryPolicy.maxAttempts > 1 &&
+        !hasRetriesLeft(retryPolicy, attempt);
+
+      // Update execution history with failure. Cancelled runs were already
+      // recorded by the user's cancel.
+      if (historyRecordId && stoppedStatus !== "cancelled") {
+        await ctx.runMutation(internal.task_history.updateExecutionHistory, {
+          executionId,
+          status: stoppedStatus ?? "failure",
+          endTime: now,
+          errorMessage,
+          steps: isWorkflow ? stepResults : undefined,
+          nextRetryAt,
+          retriesExhausted: retriesExhausted || undefined,
+        });
+      }
+
+      const isRecurring =
+        task?.scheduleType !== "onetime" && task?.scheduleType !== "event";
+      if (task && nextRetryAt !== undefined) {
+        const retryFunctionId = await ctx.scheduler.runAt(
+          nextRetryAt,
+          internal.scheduled_ai.executeTask,
+          {
+            taskId: args.taskId,
+            isManualTrigger: args.isManualTrigger,
+            triggerEvent: args.triggerEvent,
+            attempt: attempt + 1,
+          }
+        );
+        // A scheduled run's retry takes the place of its next run, which the
+        // retry schedules; manual and event runs keep the task's schedule.
+        // An event run keeps the task claimed until its retry, so queued
+        // events wait for it.
+        const replacesSchedule =
+          !args.isManualTrigger && task.scheduleType !== "event";
+        await ctx.runMutation(
+          internal.scheduled_tasks.updateTaskAfterExecution,
+          {
+            taskId: args.taskId,
+            lastExecuted: now,
+            nextExecution: replacesSchedule ? nextRetryAt : undefined,
+            scheduledFunctionId: replacesSchedule ? retryFunctionId : undefined,
+            newStatus: args.triggerEvent ? "running" : "active",
+          }
+        );
+      } else if (task && isRecurring && !args.isManualTrigger) {
+        // Out of retries - keep the recurring schedule going
+        const nextExecution = getNextRunTime(task, now);
+        const scheduledFunctionId = await ctx.scheduler.runAt(
+          nextExecution,
+          internal.scheduled_ai.executeTask,
+          { taskId: args.taskId }
+        );
+        await ctx.runMutation(
+          internal.scheduled_tasks.updateTaskAfterExecution,
+          {
+            taskId: args.taskId,
+            lastExecuted: now,
+            nextExecution,
+            scheduledFunctionId,
+            newStatus: "active",
+          }
+        );
+      } else {
+        // Update task to mark last execution attempt and reset status to active
+        await ctx.runMutation(
+          internal.scheduled_tasks.updateTaskAfterExecution,
+          {
+            taskId: args.taskId,
+            lastExecuted: now,
+            newStatus: "active",
+          }
+        );
+      }
+
+      // Let the user know a run failed for good
+      if (task && stoppedStatus !== "cancelled" && !willRetry) {
+        await ctx.scheduler.runAfter(
+          0,
+          internal.task_notifications.deliverTaskResult,
+          {
+            taskId: args.taskId,
+            executionId,
+            status: "failure",
+            output: errorMessage,
+            attempt,
+            retriesExhausted: retriesExhausted || undefined,
+            executionDate: new Date(now).toISOString(),
+          }
+        );
+      }
 
       return null;
+    } finally {
+      stopWatching?.();
     }
   },
 });
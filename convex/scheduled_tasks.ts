@@ -1,161 +1,242 @@
 import { ConvexError, v } from "convex/values";
-import dayjs from "dayjs";
-import timezonePlugin from "dayjs/plugin/timezone";
-import utc from "dayjs/plugin/utc";
+import { MODELS_MAP } from "../lib/config";
+import { isCustomModelId } from "../lib/custom-models";
 import { ERROR_CODES } from "../lib/error-codes";
+import {
+  allowsPrivateCustomEndpoints,
+  isPrivateHostname,
+} from "../lib/private-address";
+import {
+  type NotificationChannel,
+  validateNotificationSettings,
+} from "../lib/task-notifications";
+import { validateRetrySettings } from "../lib/task-retry";
+import {
+  getNextRunTime,
+  type TaskSchedule,
+  validateSchedule,
+} from "../lib/task-schedule";
+import { validateTaskSteps } from "../lib/task-steps";
+import {
+  TASK_TRIGGERS,
+  type TaskTrigger,
+  validateTaskTrigger,
+} from "../lib/task-triggers";
 import { internal } from "./_generated/api";
 import type { Doc, Id } from "./_generated/dataModel";
 import {
   internalMutation,
   internalQuery,
+  type MutationCtx,
   mutation,
   query,
 } from "./_generated/server";
+import { decryptKey, encryptKey } from "./api_keys";
 import { ensureAuthenticated } from "./lib/auth_helper";
+import { startNextQueuedEvent } from "./lib/trigger_helper";
+import {
+  MonthlyRule,
+  NotificationPolicy,
+  ReasoningEffort,
+  ScheduledTask,
+  ScheduleType,
+  TaskRetryPolicy,
+  TaskStep,
+  TaskTriggerType,
+} from "./schema/scheduled_task";
+
+// Trigger chosen for an event task; registration fields are set by the server
+const TaskTriggerInput = v.object({
+  type: TaskTriggerType,
+  filter: v.optional(v.string()),
+});
 
-// Extend dayjs with plugins
-dayjs.extend(utc);
-dayjs.extend(timezonePlugin);
+// Notification channel as the client sends it; webhook signing secrets are
+// set by the server
+const NotificationChannelInput = v.union(
+  v.object({ type: v.literal("webhook"), url: v.string() }),
+  v.object({ type: v.literal("slack"), channel: v.string() }),
+  v.object({ type: v.literal("in_app") })
+);
+
+// Bytes of randomness in a webhook signing secret
+const WEBHOOK_SECRET_BYTES = 32;
+
+// Shared validator for a complete scheduled task document
+const scheduledTaskDocValidator = v.object({
+  _id: v.id("scheduled_tasks"),
+  _creationTime: v.number(),
+  ...ScheduledTask.fields,
+});
 
-// Constants for task limits
-const TASK_LIMITS = {
-  daily: 5,
-  weekly: 10,
-  total: 10,
-} as const;
+// Shared validator for a task as its owner sees it, without the encrypted
+// webhook secrets
+const scheduledTaskValidator = v.object({
+  ...scheduledTaskDocValidator.fields,
+  notificationChannels: v.optional(v.array(NotificationChannelInput)),
+});
 
-// Helper function to parse scheduled time and convert to next execution timestamp
-export function calculateNextExecution(
-  scheduleType: "onetime" | "daily" | "weekly",
-  scheduledTime: string,
-  timezone: string,
-  scheduledDate?: string
-): number {
-  const now = Date.now();
-
-  if (scheduleType === "onetime") {
-    // For one-time tasks, scheduledTime is "HH:MM" format
-    const [hours, minutes] = scheduledTime.split(":").map(Number);
-
-    let utcDate: Date;
-
-    if (scheduledDate) {
-      // Use the provided date in "YYYY-MM-DD" format and create directly in user timezone
-      const [year, month, day] = scheduledDate.split("-").map(Number);
-      // Build a zero-padded ISO 8601 local datetime to avoid ambiguous parsing
-      const mm = String(month).padStart(2, "0");
-      const dd = String(day).padStart(2, "0");
-      const HH = String(hours).padStart(2, "0");
-      const MM = String(minutes).padStart(2, "0");
-      const isoLocal = `${year}-${mm}-${dd}T${HH}:${MM}`;
-      utcDate = dayjs.tz(isoLocal, timezone).utc().toDate();
-    } else {
-      // Fallback to tomorrow if no date provided (backward compatibility)
-      // Create tomorrow's date directly in user timezone
-      const tomorrow = dayjs().tz(timezone).add(1, "day");
-      utcDate = tomorrow
-        .hour(hours)
-        .minute(minutes)
-        .second(0)
-        .millisecond(0)
-        .utc()
-        .toDate();
-    }
-
-    if (!utcDate || Number.isNaN(utcDate.getTime())) {
-      throw new Error(`Invalid timezone: ${timezone}`);
-    }
-
-    return utcDate.getTime();
+// Helper function to reject invalid workflow steps
+function assertValidSteps(steps: Doc<"scheduled_tasks">["steps"]) {
+  const error = steps ? validateTaskSteps(steps) : undefined;
+  if (error) {
+    throw new ConvexError(error);
   }
+}
 
-  // For recurring tasks, always calculate from the scheduled time
-  // This ensures consistent timing regardless of execution delays
-
-  if (scheduleType === "daily") {
-    // scheduledTime format: "HH:MM"
-    const [hours, minutes] = scheduledTime.split(":").map(Number);
-
-    // Create today's date at the specified time directly in user timezone
-    const today = dayjs().tz(timezone);
-    let utcDate = today
-      .hour(hours)
-      .minute(minutes)
-      .second(0)
-      .millisecond(0)
-      .utc()
-      .toDate();
-
-    if (!utcDate || Number.isNaN(utcDate.getTime())) {
-      throw new Error(`Invalid timezone: ${timezone}`);
-    }
-
-    // Keep adding days until we find the next future occurrence
-    let currentDay = today;
-    while (utcDate.getTime() <= now) {
-      currentDay = currentDay.add(1, "day");
-      utcDate = currentDay
-        .hour(hours)
-        .minute(minutes)
-        .second(0)
-        .millisecond(0)
-        .utc()
-        .toDate();
-
-      if (!utcDate || Number.isNaN(utcDate.getTime())) {
-        throw new Error(`Invalid timezone: ${timezone}`);
-      }
-    }
+// Helper function to reject retry and timeout settings out of range
+function assertValidRetrySettings(
+  retryPolicy: Doc<"scheduled_tasks">["retryPolicy"],
+  timeoutMinutes: number | undefined
+) {
+  const error = validateRetrySettings(retryPolicy, timeoutMinutes);
+  if (error) {
+    throw new ConvexError(error);
+  }
+}
 
-    return utcDate.getTime();
+// Helper function to reject invalid notification channels and policies
+function assertValidNotificationSettings(
+  channels: NotificationChannel[] | undefined,
+  policy: Doc<"scheduled_tasks">["notificationPolicy"]
+) {
+  const error = validateNotificationSettings(channels ?? [], policy);
+  if (error) {
+    throw new ConvexError(error);
   }
+  if (
+    !allowsPrivateCustomEndpoints() &&
+    channels?.some(
+      (channel) =>
+        channel.type === "webhook" &&
+        isPrivateHostname(new URL(channel.url.trim()).hostname)
+    )
+  ) {
+    throw new ConvexError(
+      "Webhook URLs must use a public address. Private and local addresses are turned off on this server."
+    );
+  }
+}
 
-  if (scheduleType === "weekly") {
-    // scheduledTime format: "day:HH:MM" where day is 0-6 (Sunday-Saturday)
-    const parts = scheduledTime.split(":");
-    const targetDay = Number.parseInt(parts[0], 10);
-    const hours = Number.parseInt(parts[1], 10);
-    const minutes = Number.parseInt(parts[2], 10);
-
-    // Create target date directly in the user's timezone
-    const nowInUserTz = dayjs().tz(timezone);
-    const currentDay = nowInUserTz.day();
-    const daysToTarget = (targetDay - currentDay + 7) % 7;
-
-    const targetDate = nowInUserTz.add(daysToTarget, "day");
-    let utcDate = targetDate
-      .hour(hours)
-      .minute(minutes)
-      .second(0)
-      .millisecond(0)
-      .utc()
-      .toDate();
-
-    if (!utcDate || Number.isNaN(utcDate.getTime())) {
-      throw new Error(`Invalid timezone: ${timezone}`);
-    }
-
-    // If this week's occurrence is in the past, add 7 days
-    const nowTimestamp = Date.now();
-    if (utcDate.getTime() <= nowTimestamp) {
-      const nextWeekDate = targetDate.add(7, "day");
-      utcDate = nextWeekDate
-        .hour(hours)
-        .minute(minutes)
-        .second(0)
-        .millisecond(0)
-        .utc()
-        .toDate();
-
-      if (!utcDate || Number.isNaN(utcDate.getTime())) {
-        throw new Error(`Invalid timezone: ${timezone}`);
+// Helper function to give webhook channels their signing secret. A webhook
+// that was already saved keeps its secret, a new one gets a random secret.
+async function withWebhookSecrets(
+  userId: Id<"users">,
+  channels: NotificationChannel[],
+  saved: Doc<"scheduled_tasks">["notificationChannels"]
+): Promise<NonNullable<Doc<"scheduled_tasks">["notificationChannels"]>> {
+  const savedWebhook = saved?.find((channel) => channel.type === "webhook");
+  return await Promise.all(
+    channels.map(async (channel) => {
+      if (channel.type !== "webhook") {
+        return channel;
       }
-    }
+      if (savedWebhook?.type === "webhook") {
+        return { ...channel, signingSecret: savedWebhook.signingSecret };
+      }
+      const bytes = crypto.getRandomValues(
+        new Uint8Array(WEBHOOK_SECRET_BYTES)
+      );
+      const secret = Array.from(bytes, (byte) =>
+        byte.toString(16).padStart(2, "0")
+      ).join("");
+      return { ...channel, signingSecret: await encryptKey(secret, userId) };
+    })
+  );
+}
+
+// Helper function to leave the encrypted webhook secrets out of a task sent
+// to the client
+function withoutWebhookSecrets(task: Doc<"scheduled_tasks">) {
+  return {
+    ...task,
+    notificationChannels: task.notificationChannels?.map((channel) =>
+      channel.type === "webhook"
+        ? { type: channel.type, url: channel.url }
+        : channel
+    ),
+  };
+}
 
-    return utcDate.getTime();
+// Helper function to reject model ids that are neither built-in nor custom.
+// Access to the model is checked when the task runs.
+function assertKnownModel(modelId: string | undefined) {
+  if (modelId && !(MODELS_MAP[modelId] || isCustomModelId(modelId))) {
+    throw new ConvexError("Unknown model");
+  }
+}
+
+// Helper function to reject triggers that are invalid or whose connector
+// the user has not connected
+async function assertValidTrigger(
+  ctx: MutationCtx,
+  userId: Id<"users">,
+  trigger: TaskTrigger | undefined
+) {
+  const error = validateTaskTrigger(trigger);
+  if (error || !trigger) {
+    throw new ConvexError(error ?? "Choose an event that starts this agent");
   }
 
-  throw new Error("Invalid schedule type");
+  const connectorType = TASK_TRIGGERS[trigger.type].connector;
+  const connector = await ctx.db
+    .query("connectors")
+    .withIndex("by_user_and_type", (q) =>
+      q.eq("userId", userId).eq("type", connectorType)
+    )
+    .first();
+  if (!connector?.isConnected) {
+    throw new ConvexError(
+      `Connect ${connectorType} before using ${TASK_TRIGGERS[trigger.type].label.toLowerCase()} triggers`
+    );
+  }
+}
+
+// Helper function to remove a task's trigger from Composio
+async function unregisterTrigger(
+  ctx: MutationCtx,
+  trigger: Doc<"scheduled_tasks">["trigger"]
+) {
+  if (trigger?.composioTriggerId) {
+    await ctx.scheduler.runAfter(
+      0,
+      internal.composio_triggers.unregisterTaskTrigger,
+      { composioTriggerId: trigger.composioTriggerId }
+    );
+  }
+}
+
+// Constants for task limits
+const TASK_LIMITS = {
+  daily: 5,
+  weekly: 10,
+  total: 10,
+} as const;
+
+// Interval and cron tasks can run several times a day, so they count
+// against the daily limit; monthly tasks count against the weekly one.
+// Event tasks only count against the total.
+const DAILY_LIMIT_TYPES = new Set(["daily", "interval", "cron"]);
+const WEEKLY_LIMIT_TYPES = new Set(["weekly", "monthly"]);
+
+// Helper function to count active tasks per limit
+function countActiveTasks(activeTasks: Doc<"scheduled_tasks">[]) {
+  return {
+    daily: activeTasks.filter((t) => DAILY_LIMIT_TYPES.has(t.scheduleType))
+      .length,
+    weekly: activeTasks.filter((t) => WEEKLY_LIMIT_TYPES.has(t.scheduleType))
+      .length,
+    total: activeTasks.length,
+  };
+}
+
+// Helper function to validate a schedule and get its next execution timestamp
+export function calculateNextExecution(schedule: TaskSchedule): number {
+  const error = validateSchedule(schedule);
+  if (error) {
+    throw new ConvexError(error);
+  }
+  return getNextRunTime(schedule);
 }
 
 // Create a new scheduled task
@@ -163,22 +244,41 @@ export const createScheduledTask = mutation({
   args: {
     title: v.string(),
     prompt: v.string(),
-    scheduleType: v.union(
-      v.literal("onetime"),
-      v.literal("daily"),
-      v.literal("weekly")
-    ),
+    scheduleType: ScheduleType,
     scheduledTime: v.string(),
-    scheduledDate: v.optional(v.string()), // For onetime tasks, format: "YYYY-MM-DD"
+    scheduledDate: v.optional(v.string()), // For onetime and interval tasks, format: "YYYY-MM-DD"
+    monthlyRule: v.optional(MonthlyRule),
+    intervalMinutes: v.optional(v.number()),
+    cronExpression: v.optional(v.string()),
     timezone: v.string(),
     enableSearch: v.optional(v.boolean()),
     enabledToolSlugs: v.optional(v.array(v.string())),
     emailNotifications: v.optional(v.boolean()),
+    steps: v.optional(v.array(TaskStep)),
+    modelId: v.optional(v.string()),
+    reasoningEffort: v.optional(ReasoningEffort),
+    personaId: v.optional(v.string()),
+    trigger: v.optional(TaskTriggerInput), // For event tasks
+    retryPolicy: v.optional(TaskRetryPolicy),
+    timeoutMinutes: v.optional(v.number()),
+    notificationChannels: v.optional(v.array(NotificationChannelInput)),
+    notificationPolicy: v.optional(NotificationPolicy),
     chatId: v.optional(v.id("chats")),
   },
   returns: v.id("scheduled_tasks"),
   handler: async (ctx, args) => {
     const userId = await ensureAuthenticated(ctx);
+    assertValidSteps(args.steps);
+    assertKnownModel(args.modelId);
+    assertValidRetrySettings(args.retryPolicy, args.timeoutMinutes);
+    assertValidNotificationSettings(
+      args.notificationChannels,
+      args.notificationPolicy
+    );
+    const isEventTask = args.scheduleType === "event";
+    if (isEventTask) {
+      await assertValidTrigger(ctx, userId, args.trigger);
+    }
 
     // Validate user limits - only count 'active' tasks
     const activeTasks = await ctx.db
@@ -187,17 +287,19 @@ export const createScheduledTask = mutation({
       .filter((q) => q.eq(q.field("status"), "active"))
       .collect();
 
-    const counts = {
-      daily: activeTasks.filter((t) => t.scheduleType === "daily").length,
-      weekly: activeTasks.filter((t) => t.scheduleType === "weekly").length,
-      total: activeTasks.length,
-    };
+    const counts = countActiveTasks(activeTasks);
 
     // Check limits
-    if (args.scheduleType === "daily" && counts.daily >= TASK_LIMITS.daily) {
+    if (
+      DAILY_LIMIT_TYPES.has(args.scheduleType) &&
+      counts.daily >= TASK_LIMITS.daily
+    ) {
       throw new ConvexError("Daily task limit reached (max 5)");
     }
-    if (args.scheduleType === "weekly" && counts.weekly >= TASK_LIMITS.weekly) {
+    if (
+      WEEKLY_LIMIT_TYPES.has(args.scheduleType) &&
+      counts.weekly >= TASK_LIMITS.weekly
+    ) {
       throw new ConvexError("Weekly task limit reached (max 10)");
     }
     if (counts.total >= TASK_LIMITS.total) {
@@ -205,12 +307,18 @@ export const createScheduledTask = mutation({
     }
 
     const now = Date.now();
-    const nextExecution = calculateNextExecution(
-      args.scheduleType,
-      args.scheduledTime,
-      args.timezone,
-      args.scheduledDate
-    );
+    // Event tasks wait for their trigger instead of a time
+    const nextExecution = isEventTask
+      ? undefined
+      : calculateNextExecution({
+          scheduleType: args.scheduleType,
+          scheduledTime: args.scheduledTime,
+          scheduledDate: args.scheduledDate,
+          timezone: args.timezone,
+          monthlyRule: args.monthlyRule,
+          intervalMinutes: args.intervalMinutes,
+          cronExpression: args.cronExpression,
+        });
 
     // Insert the task
     const taskId = await ctx.db.insert("scheduled_tasks", {
@@ -220,16 +328,42 @@ export const createScheduledTask = mutation({
       scheduleType: args.scheduleType,
       scheduledTime: args.scheduledTime,
       scheduledDate: args.scheduledDate,
+      monthlyRule: args.monthlyRule,
+      intervalMinutes: args.intervalMinutes,
+      cronExpression: args.cronExpression,
       timezone: args.timezone,
       status: "active",
       enableSearch: args.enableSearch,
       enabledToolSlugs: args.enabledToolSlugs,
       emailNotifications: args.emailNotifications,
+      steps: args.steps,
+      modelId: args.modelId,
+      reasoningEffort: args.reasoningEffort,
+      personaId: args.personaId || undefined,
+      trigger:
+        isEventTask && args.trigger
+          ? { type: args.trigger.type, filter: args.trigger.filter?.trim() }
+          : undefined,
+      retryPolicy: args.retryPolicy,
+      timeoutMinutes: args.timeoutMinutes,
+      notificationChannels: args.notificationChannels
+        ? await withWebhookSecrets(userId, args.notificationChannels, undefined)
+        : undefined,
+      notificationPolicy: args.notificationPolicy,
       chatId: args.chatId,
       createdAt: now,
       nextExecution,
     });
 
+    if (nextExecution === undefined) {
+      await ctx.scheduler.runAfter(
+        0,
+        internal.composio_triggers.registerTaskTrigger,
+        { taskId }
+      );
+      return taskId;
+    }
+
     // Schedule the function
     const scheduledFunctionId = await ctx.scheduler.runAt(
       nextExecution,
@@ -247,45 +381,39 @@ export const createScheduledTask = mutation({
 // List user's scheduled tasks
 export const listScheduledTasks = query({
   args: {},
-  returns: v.array(
-    v.object({
-      _id: v.id("scheduled_tasks"),
-      _creationTime: v.number(),
-      userId: v.id("users"),
-      title: v.string(),
-      prompt: v.string(),
-      scheduleType: v.union(
-        v.literal("onetime"),
-        v.literal("daily"),
-        v.literal("weekly")
-      ),
-      scheduledTime: v.string(),
-      scheduledDate: v.optional(v.string()),
-      timezone: v.string(),
-      status: v.union(
-        v.literal("active"),
-        v.literal("paused"),
-        v.literal("archived"),
-        v.literal("running")
-      ),
-      enableSearch: v.optional(v.boolean()),
-      enabledToolSlugs: v.optional(v.array(v.string())),
-      emailNotifications: v.optional(v.boolean()),
-      lastExecuted: v.optional(v.number()),
-      nextExecution: v.optional(v.number()),
-      scheduledFunctionId: v.optional(v.string()),
-      createdAt: v.number(),
-      chatId: v.optional(v.id("chats")),
-    })
-  ),
+  returns: v.array(scheduledTaskValidator),
   handler: async (ctx) => {
     const userId = await ensureAuthenticated(ctx);
 
-    return await ctx.db
+    const tasks = await ctx.db
       .query("scheduled_tasks")
       .withIndex("by_user", (q) => q.eq("userId", userId))
       .order("desc")
       .collect();
+    return tasks.map(withoutWebhookSecrets);
+  },
+});
+
+/**
+ * Get the secret a task's webhook deliveries are signed with, for its owner
+ * to verify them. Returns null when the task has no webhook.
+ */
+export const getWebhookSecret = query({
+  args: { taskId: v.id("scheduled_tasks") },
+  returns: v.union(v.null(), v.string()),
+  handler: async (ctx, { taskId }) => {
+    const userId = await ensureAuthenticated(ctx);
+    const task = await ctx.db.get(taskId);
+    if (!task || task.userId !== userId) {
+      return null;
+    }
+
+    const webhook = task.notificationChannels?.find(
+      (channel) => channel.type === "webhook"
+    );
+    return webhook?.type === "webhook"
+      ? await decryptKey(webhook.signingSecret, userId)
+      : null;
   },
 });
 
@@ -295,15 +423,25 @@ export const updateScheduledTask = mutation({
     taskId: v.id("scheduled_tasks"),
     title: v.optional(v.string()),
     prompt: v.optional(v.string()),
-    scheduleType: v.optional(
-      v.union(v.literal("onetime"), v.literal("daily"), v.literal("weekly"))
-    ),
+    scheduleType: v.optional(ScheduleType),
     scheduledTime: v.optional(v.string()),
     scheduledDate: v.optional(v.string()),
+    monthlyRule: v.optional(MonthlyRule),
+    intervalMinutes: v.optional(v.number()),
+    cronExpression: v.optional(v.string()),
     timezone: v.optional(v.string()),
     enableSearch: v.optional(v.boolean()),
     enabledToolSlugs: v.optional(v.array(v.string())),
     emailNotifications: v.optional(v.boolean()),
+    steps: v.optional(v.array(TaskStep)),
+    modelId: v.optional(v.string()),
+    reasoningEffort: v.optional(ReasoningEffort),
+    personaId: v.optional(v.string()),
+    trigger: v.optional(TaskTriggerInput),
+    retryPolicy: v.optional(TaskRetryPolicy),
+    timeoutMinutes: v.optional(v.number()),
+    notificationChannels: v.optional(v.array(NotificationChannelInput)),
+    notificationPolicy: v.optional(NotificationPolicy),
     status: v.optional(
       v.union(
         v.literal("active"),
@@ -345,6 +483,49 @@ export const updateScheduledTask = mutation({
     if (args.emailNotifications !== undefined) {
       updates.emailNotifications = args.emailNotifications;
     }
+    if (args.steps !== undefined) {
+      assertValidSteps(args.steps);
+      updates.steps = args.steps;
+    }
+    if (args.modelId !== undefined) {
+      assertKnownModel(args.modelId);
+      updates.modelId = args.modelId;
+    }
+    if (args.reasoningEffort !== undefined) {
+      updates.reasoningEffort = args.reasoningEffort;
+    }
+    if (args.personaId !== undefined) {
+      // An empty id clears the persona
+      updates.personaId = args.personaId || undefined;
+    }
+    if (args.retryPolicy !== undefined || args.timeoutMinutes !== undefined) {
+      assertValidRetrySettings(args.retryPolicy, args.timeoutMinutes);
+    }
+    if (args.retryPolicy !== undefined) {
+      updates.retryPolicy = args.retryPolicy;
+    }
+    if (args.timeoutMinutes !== undefined) {
+      updates.timeoutMinutes = args.timeoutMinutes;
+    }
+    if (
+      args.notificationChannels !== undefined ||
+      args.notificationPolicy !== undefined
+    ) {
+      assertValidNotificationSettings(
+        args.notificationChannels ?? task.notificationChannels,
+        args.notificationPolicy ?? task.notificationPolicy
+      );
+    }
+    if (args.notificationChannels !== undefined) {
+      updates.notificationChannels = await withWebhookSecrets(
+        userId,
+        args.notificationChannels,
+        task.notificationChannels
+      );
+    }
+    if (args.notificationPolicy !== undefined) {
+      updates.notificationPolicy = args.notificationPolicy;
+    }
     if (args.status !== undefined) {
       updates.status = args.status;
     }
@@ -354,17 +535,86 @@ export const updateScheduledTask = mutation({
     if (args.scheduleType !== undefined) {
       updates.scheduleType = args.scheduleType;
     }
+    if (args.monthlyRule !== undefined) {
+      updates.monthlyRule = args.monthlyRule;
+    }
+    if (args.intervalMinutes !== undefined) {
+      updates.intervalMinutes = args.intervalMinutes;
+    }
+    if (args.cronExpression !== undefined) {
+      updates.cronExpression = args.cronExpression;
+    }
 
-    // If scheduledTime, scheduledDate, timezone, or scheduleType changed, recalculate next execution
-    if (
+    const isEventTask = (args.scheduleType ?? task.scheduleType) === "event";
+    if (isEventTask) {
+      const trigger = args.trigger ?? task.trigger;
+      const filter = trigger?.filter?.trim();
+      const isTriggerChanged =
+        task.scheduleType !== "event" ||
+        trigger?.type !== task.trigger?.type ||
+        filter !== task.trigger?.filter;
+
+      // Re-register with Composio when the event or its filter changed
+      if (isTriggerChanged) {
+        await assertValidTrigger(ctx, userId, trigger);
+        await unregisterTrigger(ctx, task.trigger);
+        updates.trigger = trigger ? { type: trigger.type, filter } : undefined;
+        await ctx.scheduler.runAfter(
+          0,
+          internal.composio_triggers.registerTaskTrigger,
+          { taskId: args.taskId }
+        );
+      }
+
+      // A task switched to events no longer runs on a schedule
+      if (task.scheduledFunctionId) {
+        await ctx.scheduler.cancel(
+          task.scheduledFunctionId as Id<"_scheduled_functions">
+        );
+      }
+      updates.scheduledFunctionId = undefined;
+      updates.nextExecution = undefined;
+      if (args.scheduledTime !== undefined) {
+        updates.scheduledTime = args.scheduledTime;
+      }
+      // Paused and archived tasks ignore events, including queued ones
+      if (args.status === "paused" || args.status === "archived") {
+        updates.pendingTriggerEvents = undefined;
+      }
+
+      await ctx.db.patch(args.taskId, updates);
+      return null;
+    }
+
+    // A task switched away from events drops its trigger
+    if (task.trigger) {
+      await unregisterTrigger(ctx, task.trigger);
+      updates.trigger = undefined;
+    }
+
+    const isScheduleChanged =
       args.scheduledTime !== undefined ||
       args.scheduledDate !== undefined ||
       args.timezone !== undefined ||
-      args.scheduleType !== undefined
-    ) {
+      args.scheduleType !== undefined ||
+      args.monthlyRule !== undefined ||
+      args.intervalMinutes !== undefined ||
+      args.cronExpression !== undefined;
+
+    // If any part of the schedule changed, recalculate next execution
+    if (isScheduleChanged) {
       const newScheduledTime = args.scheduledTime ?? task.scheduledTime;
-      const newScheduledDate = args.scheduledDate ?? task.scheduledDate;
-      const newScheduleType = args.scheduleType ?? task.scheduleType;
+      const newSchedule: TaskSchedule = {
+        scheduleType: args.scheduleType ?? task.scheduleType,
+        scheduledTime: newScheduledTime,
+        scheduledDate: args.scheduledDate ?? task.scheduledDate,
+        timezone: args.timezone ?? task.timezone,
+        monthlyRule: args.monthlyRule ?? task.monthlyRule,
+        intervalMinutes: args.intervalMinutes ?? task.intervalMinutes,
+        cronExpression: args.cronExpression ?? task.cronExpression,
+      };
+      // Validate before cancelling the current run
+      const nextExecution = calculateNextExecution(newSchedule);
 
       // Cancel existing scheduled function if any
       if (task.scheduledFunctionId) {
@@ -379,13 +629,6 @@ export const updateScheduledTask = mutation({
         args.status !== "archived" &&
         task.status === "active"
       ) {
-        const nextExecution = calculateNextExecution(
-          newScheduleType,
-          newScheduledTime,
-          args.timezone ?? task.timezone,
-          newScheduledDate
-        );
-
         const scheduledFunctionId = await ctx.scheduler.runAt(
           nextExecution,
           internal.scheduled_ai.executeTask,
@@ -403,21 +646,10 @@ export const updateScheduledTask = mutation({
     }
 
     // Handle status transitions (pause/resume/archive)
-    if (
-      args.status !== undefined &&
-      args.scheduledTime === undefined &&
-      args.scheduledDate === undefined &&
-      args.timezone === undefined &&
-      args.scheduleType === undefined
-    ) {
+    if (args.status !== undefined && !isScheduleChanged) {
       if (args.status === "active" && task.status !== "active") {
         // Reactivating from paused/archived - schedule next execution
-        const nextExecution = calculateNextExecution(
-          task.scheduleType,
-          task.scheduledTime,
-          task.timezone,
-          task.scheduledDate
-        );
+        const nextExecution = calculateNextExecution(task);
 
         const scheduledFunctionId = await ctx.scheduler.runAt(
           nextExecution,
@@ -468,6 +700,7 @@ export const deleteScheduledTask = mutation({
         task.scheduledFunctionId as Id<"_scheduled_functions">
       );
     }
+    await unregisterTrigger(ctx, task.trigger);
 
     await ctx.db.delete(args.taskId);
     return null;
@@ -477,38 +710,7 @@ export const deleteScheduledTask = mutation({
 // Internal query to get task details
 export const getTask = internalQuery({
   args: { taskId: v.id("scheduled_tasks") },
-  returns: v.union(
-    v.null(),
-    v.object({
-      _id: v.id("scheduled_tasks"),
-      _creationTime: v.number(),
-      userId: v.id("users"),
-      title: v.string(),
-      prompt: v.string(),
-      scheduleType: v.union(
-        v.literal("onetime"),
-        v.literal("daily"),
-        v.literal("weekly")
-      ),
-      scheduledTime: v.string(),
-      scheduledDate: v.optional(v.string()),
-      timezone: v.string(),
-      status: v.union(
-        v.literal("active"),
-        v.literal("paused"),
-        v.literal("archived"),
-        v.literal("running")
-      ),
-      enableSearch: v.optional(v.boolean()),
-      enabledToolSlugs: v.optional(v.array(v.string())),
-      emailNotifications: v.optional(v.boolean()),
-      lastExecuted: v.optional(v.number()),
-      nextExecution: v.optional(v.number()),
-      scheduledFunctionId: v.optional(v.string()),
-      createdAt: v.number(),
-      chatId: v.optional(v.id("chats")),
-    })
-  ),
+  returns: v.union(v.null(), scheduledTaskDocValidator),
   handler: async (ctx, args) => {
     return await ctx.db.get(args.taskId);
   },
@@ -551,8 +753,87 @@ export const updateTaskAfterExecution = internalMutation({
         updates.scheduledFunctionId = undefined;
         updates.nextExecution = undefined;
       }
+      // Paused and archived tasks drop the events waiting for a run
+      if (args.newStatus === "paused" || args.newStatus === "archived") {
+        updates.pendingTriggerEvents = undefined;
+      }
+    }
+
+    // An event task that finished its run starts the next queued event
+    if (args.newStatus === "active") {
+      const task = await ctx.db.get(args.taskId);
+      const nextRun = task ? await startNextQueuedEvent(ctx, task) : null;
+      Object.assign(updates, nextRun);
+    }
+
+    await ctx.db.patch(args.taskId, updates);
+    return null;
+  },
+});
+
+// Internal mutation that enforces the hard timeout of a run. It only acts
+// when the run's action died without recording a result, e.g. when Convex
+// stopped it; a run that timed out by itself has already been recorded.
+export const expireTaskExecution = internalMutation({
+  args: {
+    taskId: v.id("scheduled_tasks"),
+    executionId: v.string(),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const execution = await ctx.db
+      .query("task_history")
+      .withIndex("by_execution_id", (q) =>
+        q.eq("executionId", args.executionId)
+      )
+      .unique();
+    if (!execution) {
+      return null;
+    }
+
+    // A run that recorded its result released the task itself
+    if (execution.status !== "running" && execution.status !== "pending") {
+      return null;
     }
 
+    const now = Date.now();
+    await ctx.db.patch(execution._id, {
+      status: "timeout",
+      endTime: now,
+      errorMessage: "Run stopped without finishing",
+    });
+
+    // Release the task unless a later run owns it
+    const task = await ctx.db.get(args.taskId);
+    const laterRun = await ctx.db
+      .query("task_history")
+      .withIndex("by_task_and_time", (q) =>
+        q.eq("taskId", args.taskId).gt("startTime", execution.startTime)
+      )
+      .filter((q) =>
+        q.or(
+          q.eq(q.field("status"), "running"),
+          q.eq(q.field("status"), "pending")
+        )
+      )
+      .first();
+    if (task?.status !== "running" || laterRun) {
+      return null;
+    }
+
+    const updates: Partial<Doc<"scheduled_tasks">> =
+      (await startNextQueuedEvent(ctx, task)) ?? { status: "active" };
+    const isRecurring =
+      task.scheduleType !== "onetime" && task.scheduleType !== "event";
+    if (isRecurring && !execution.isManualTrigger) {
+      const nextExecution = getNextRunTime(task, now);
+      updates.nextExecution = nextExecution;
+      updates.scheduledFunctionId = await ctx.scheduler.runAt(
+        nextExecution,
+        internal.scheduled_ai.executeTask,
+        { taskId: args.taskId }
+      );
+    }
     await ctx.db.patch(args.taskId, updates);
     return null;
   },
@@ -601,11 +882,7 @@ export const getTaskLimits = query({
       .filter((q) => q.eq(q.field("status"), "active"))
       .collect();
 
-    const counts = {
-      daily: activeTasks.filter((t) => t.scheduleType === "daily").length,
-      weekly: activeTasks.filter((t) => t.scheduleType === "weekly").length,
-      total: activeTasks.length,
-    };
+    const counts = countActiveTasks(activeTasks);
 
     return {
       daily: {
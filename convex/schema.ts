@@ -1,21 +1,36 @@
 import { authTables } from "@convex-dev/auth/server";
 import { defineSchema, defineTable } from "convex/server";
+import { EMBEDDING_DIMENSIONS } from "../lib/config/constants";
+import { AccessToken } from "./schema/access_token";
 import { Chat } from "./schema/chat";
 import { ChatAttachment } from "./schema/chat_attachment";
 import { Connector } from "./schema/connectors";
+import { CustomEndpoint } from "./schema/custom_endpoint";
+import { DocumentChunk } from "./schema/document_chunk";
 import { Feedback } from "./schema/feedback";
+import { Memory } from "./schema/memory";
 import { Message } from "./schema/message";
+import { Notification } from "./schema/notification";
+import { Persona } from "./schema/persona";
+import { Project } from "./schema/project";
 import { ScheduledTask } from "./schema/scheduled_task";
+import { SearchSettings, UserSearchKey } from "./schema/search_settings";
 import { TaskHistory } from "./schema/task_history";
 import { UsageHistory } from "./schema/usage_history";
+import { UsageRecord } from "./schema/usage_record";
 // Import all schema modules
 import { User } from "./schema/user";
 import { UserApiKey } from "./schema/user_api_key";
 
 export default defineSchema({
   ...authTables,
+  access_tokens: defineTable(AccessToken)
+    .index("by_user", ["userId"])
+    .index("by_token_hash", ["tokenHash"]),
   users: defineTable(User).index("email", ["email"]),
-  chats: defineTable(Chat).index("by_user", ["userId"]),
+  chats: defineTable(Chat)
+    .index("by_user", ["userId"])
+    .index("by_project", ["projectId"]),
   messages: defineTable(Message)
     .index("by_chat_and_created", ["chatId", "createdAt"])
     .index("by_user", ["userId"])
@@ -29,19 +44,49 @@ export default defineSchema({
     .index("by_userId", ["userId"])
     // Dedicated index for direct lookups/deletes by R2 object key
     .index("by_key", ["key"]),
+  document_chunks: defineTable(DocumentChunk)
+    .index("by_attachment", ["attachmentId"])
+    .index("by_user", ["userId"])
+    .vectorIndex("by_embedding", {
+      vectorField: "embedding",
+      dimensions: EMBEDDING_DIMENSIONS,
+      filterFields: ["userId"],
+    }),
   usage_history: defineTable(UsageHistory).index("by_user", ["userId"]),
+  usage_records: defineTable(UsageRecord).index("by_user_and_created", [
+    "userId",
+    "createdAt",
+  ]),
   user_api_keys: defineTable(UserApiKey).index("by_user_provider", [
     "userId",
     "provider",
   ]),
+  custom_endpoints: defineTable(CustomEndpoint).index("by_user", ["userId"]),
+  search_settings: defineTable(SearchSettings).index("by_user", ["userId"]),
+  user_search_keys: defineTable(UserSearchKey).index("by_user_provider", [
+    "userId",
+    "provider",
+  ]),
   connectors: defineTable(Connector)
     .index("by_user", ["userId"])
     .index("by_user_and_type", ["userId", "type"])
     .index("by_user_and_connected", ["userId", "isConnected"]),
+  memories: defineTable(Memory)
+    .index("by_user", ["userId"])
+    .searchIndex("search_content", {
+      searchField: "content",
+      filterFields: ["userId"],
+    }),
+  notifications: defineTable(Notification)
+    .index("by_user_and_created", ["userId", "createdAt"])
+    .index("by_user_and_read", ["userId", "isRead"]),
+  personas: defineTable(Persona).index("by_user", ["userId"]),
+  projects: defineTable(Project).index("by_user", ["userId"]),
   scheduled_tasks: defineTable(ScheduledTask)
     .index("by_user", ["userId"])
     .index("by_user_and_type", ["userId", "scheduleType"])
-    .index("by_next_execution", ["status", "nextExecution"]),
+    .index("by_next_execution", ["status", "nextExecution"])
+    .index("by_composio_trigger", ["trigger.composioTriggerId"]),
   task_history: defineTable(TaskHistory)
     .index("by_task", ["taskId"])
     .index("by_task_and_time", ["taskId", "startTime"])
@@ -0,0 +1,21 @@
+import { v } from "convex/values";
+
+export const AccessTokenScope = v.union(
+  // Call /api/v1/chat/completions and /api/v1/models
+  v.literal("completions"),
+  // Save API conversations as chats in the user's history
+  v.literal("history")
+);
+
+// Personal access token for the public API. Only a SHA-256 hash is stored.
+export const AccessToken = v.object({
+  userId: v.id("users"),
+  name: v.string(),
+  tokenHash: v.string(),
+  // First characters of the token, shown so users can tell tokens apart
+  prefix: v.string(),
+  scopes: v.array(AccessTokenScope),
+  expiresAt: v.optional(v.number()),
+  lastUsedAt: v.optional(v.number()),
+  createdAt: v.number(),
+});
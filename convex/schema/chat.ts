@@ -5,10 +5,22 @@ export const Chat = v.object({
   title: v.optional(v.string()),
   model: v.optional(v.string()),
   personaId: v.optional(v.string()),
+  projectId: v.optional(v.id("projects")),
   createdAt: v.optional(v.number()),
   updatedAt: v.optional(v.number()),
   originalChatId: v.optional(v.id("chats")),
   isPinned: v.optional(v.boolean()),
+  // Selected version of the first message when it has been edited
+  selectedRootMessageId: v.optional(v.id("messages")),
+  // Rolling summary of the turns up to lastMessageId, sent instead of them
+  // once the chat outgrows the model's context window
+  contextSummary: v.optional(
+    v.object({
+      text: v.string(),
+      lastMessageId: v.id("messages"),
+      updatedAt: v.number(),
+    })
+  ),
   // Public sharing controls (undefined = false, but never write undefined again)
   public: v.optional(v.boolean()),
   shareAttachments: v.optional(v.boolean()),
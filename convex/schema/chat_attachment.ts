@@ -11,4 +11,8 @@ export const ChatAttachment = v.object({
   fileSize: v.optional(v.number()),
   isGenerated: v.optional(v.boolean()), // Indicates if this is an AI-generated image
   url: v.optional(v.string()), // Permanent public storage URL
+  // Progress of chunking and embedding for search_documents
+  indexStatus: v.optional(
+    v.union(v.literal("pending"), v.literal("indexed"), v.literal("failed"))
+  ),
 });
@@ -0,0 +1,26 @@
+import { v } from "convex/values";
+
+// A model served by a custom endpoint, with the capabilities the user declared
+export const CustomEndpointModel = v.object({
+  // Model id sent to the endpoint, e.g. "llama3.1:8b"
+  modelId: v.string(),
+  name: v.optional(v.string()),
+  toolCalling: v.boolean(),
+  vision: v.boolean(),
+  reasoning: v.boolean(),
+  contextWindow: v.optional(v.number()),
+});
+
+// User-registered OpenAI-compatible endpoint (Ollama, vLLM, LM Studio, ...)
+export const CustomEndpoint = v.object({
+  userId: v.id("users"),
+  name: v.string(),
+  baseUrl: v.string(),
+  // Encrypted like user_api_keys; unset for endpoints without auth
+  encryptedKey: v.optional(v.string()),
+  encryptedDataKey: v.optional(v.string()),
+  keyVersion: v.optional(v.number()),
+  models: v.array(CustomEndpointModel),
+  createdAt: v.number(),
+  updatedAt: v.number(),
+});
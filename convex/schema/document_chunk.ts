@@ -0,0 +1,11 @@
+import { v } from "convex/values";
+
+export const DocumentChunk = v.object({
+  userId: v.id("users"),
+  attachmentId: v.id("chat_attachments"),
+  fileName: v.string(),
+  chunkIndex: v.number(),
+  text: v.string(),
+  embedding: v.array(v.float64()),
+  createdAt: v.number(),
+});
@@ -0,0 +1,9 @@
+import { v } from "convex/values";
+
+export const Memory = v.object({
+  userId: v.id("users"),
+  content: v.string(),
+  // Chat the assistant learned the memory in; unset for memories added in settings
+  sourceChatId: v.optional(v.id("chats")),
+  createdAt: v.number(),
+});
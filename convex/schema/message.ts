@@ -8,6 +8,19 @@ export const Message = v.object({
   parts: v.optional(v.any()), // New parts system
   createdAt: v.optional(v.number()),
   parentMessageId: v.optional(v.id("messages")), // Keeping for threading
+  // Messages form a tree: regenerations and edits are siblings under the same
+  // parent and selectedChildId is the version shown. Edited versions of the
+  // first message have no parent and are flagged as roots instead.
+  isRoot: v.optional(v.boolean()),
+  // Assistant rows are written while their answer is still streaming so a
+  // reloaded client can resume them; missing status means complete
+  status: v.optional(v.union(v.literal("streaming"), v.literal("complete"))),
+  updatedAt: v.optional(v.number()),
+  selectedChildId: v.optional(v.id("messages")),
+  // Compare mode: a user message fanned out to several models. Each answer is
+  // a sibling assistant message and selectedChildId is the picked winner
+  compareGroupId: v.optional(v.string()),
+  compareModelIds: v.optional(v.array(v.string())),
   metadata: v.object({
     modelId: v.optional(v.string()),
     modelName: v.optional(v.string()),
@@ -19,5 +32,8 @@ export const Message = v.object({
     serverDurationMs: v.optional(v.number()),
     includeSearch: v.optional(v.boolean()),
     reasoningEffort: v.optional(v.string()),
+    fallbackFromModelId: v.optional(v.string()),
+    costUsd: v.optional(v.number()),
+    wasUserKeyUsed: v.optional(v.boolean()),
   }),
 });
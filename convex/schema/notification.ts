@@ -0,0 +1,12 @@
+import { v } from "convex/values";
+
+// In-app notification, e.g. the result of a scheduled task run
+export const Notification = v.object({
+  userId: v.id("users"),
+  taskId: v.optional(v.id("scheduled_tasks")),
+  chatId: v.optional(v.id("chats")),
+  title: v.string(),
+  body: v.string(),
+  isRead: v.boolean(),
+  createdAt: v.number(),
+});
@@ -0,0 +1,20 @@
+import { v } from "convex/values";
+
+export const Persona = v.object({
+  userId: v.id("users"),
+  name: v.string(),
+  icon: v.string(), // Key of PERSONA_ICONS
+  prompt: v.string(),
+  defaultModel: v.optional(v.string()),
+  defaultReasoningEffort: v.optional(
+    v.union(v.literal("low"), v.literal("medium"), v.literal("high"))
+  ),
+  defaultEnableSearch: v.optional(v.boolean()),
+  // Connector types the persona may use; undefined keeps every enabled connector
+  defaultConnectors: v.optional(v.array(v.string())),
+  // Published personas can be viewed and imported through a public link
+  public: v.optional(v.boolean()),
+  importedFromId: v.optional(v.id("personas")),
+  createdAt: v.number(),
+  updatedAt: v.number(),
+});
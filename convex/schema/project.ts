@@ -0,0 +1,13 @@
+import { v } from "convex/values";
+
+export const Project = v.object({
+  userId: v.id("users"),
+  name: v.string(),
+  // Appended to the system prompt of every chat in the project
+  instructions: v.optional(v.string()),
+  // Reference files shared with every chat in the project
+  attachmentIds: v.optional(v.array(v.id("chat_attachments"))),
+  defaultModel: v.optional(v.string()),
+  createdAt: v.number(),
+  updatedAt: v.number(),
+});
@@ -1,16 +1,105 @@
 import { v } from "convex/values";
 
+// Follow-up step of a workflow task. It runs in the same chat after the
+// previous step and only when its condition matches that step's output.
+export const TaskStep = v.object({
+  prompt: v.string(),
+  toolkitSlugs: v.optional(v.array(v.string())), // Restricts connected toolkits
+  condition: v.optional(
+    v.object({
+      operator: v.union(v.literal("contains"), v.literal("not_contains")),
+      value: v.string(),
+    })
+  ),
+});
+
+export const ScheduleType = v.union(
+  v.literal("onetime"),
+  v.literal("daily"),
+  v.literal("weekly"),
+  v.literal("monthly"),
+  v.literal("interval"),
+  v.literal("cron"),
+  v.literal("event") // Runs when a connector event arrives, see trigger
+);
+
+export const MonthlyRule = v.union(
+  v.object({ type: v.literal("day"), day: v.number() }), // 1-31, clamped to short months
+  v.object({
+    type: v.literal("weekday"),
+    week: v.number(), // 1-4, or -1 for the last one
+    weekday: v.number(), // 0-6, Sunday-Saturday
+  })
+);
+
+export const ReasoningEffort = v.union(
+  v.literal("low"),
+  v.literal("medium"),
+  v.literal("high")
+);
+
+export const TaskRetryPolicy = v.object({
+  maxAttempts: v.number(), // Including the first run
+  backoffMinutes: v.number(), // Doubled after each retry
+});
+
+// Channel that delivers task results besides email
+export const NotificationChannel = v.union(
+  v.object({
+    type: v.literal("webhook"),
+    url: v.string(),
+    // Signs each delivery, see signWebhookPayload. Generated by the server
+    // and encrypted like user_api_keys
+    signingSecret: v.object({
+      encryptedKey: v.string(),
+      encryptedDataKey: v.optional(v.string()),
+      keyVersion: v.optional(v.number()),
+    }),
+  }),
+  v.object({ type: v.literal("slack"), channel: v.string() }),
+  v.object({ type: v.literal("in_app") })
+);
+
+export const NotificationPolicy = v.object({
+  when: v.union(v.literal("always"), v.literal("failure"), v.literal("match")),
+  match: v.optional(v.string()), // Text results must contain, for "match"
+});
+
+export const TaskTriggerType = v.union(
+  v.literal("gmail_new_message"),
+  v.literal("github_new_issue"),
+  v.literal("linear_new_issue"),
+  v.literal("slack_mention")
+);
+
+// Connector event that runs an event task, registered with Composio
+export const TaskTrigger = v.object({
+  type: TaskTriggerType,
+  filter: v.optional(v.string()), // Gmail query, GitHub repo, Linear team or Slack mention
+  composioTriggerId: v.optional(v.string()), // Set once registered
+  recentEventIds: v.optional(v.array(v.string())), // Events recently run or queued, to drop redeliveries
+  error: v.optional(v.string()), // Why registration failed
+});
+
+// Event passed to an execution of an event task
+export const TriggerEvent = v.object({
+  id: v.string(),
+  type: TaskTriggerType,
+  summary: v.string(),
+  payload: v.string(), // Truncated JSON of the event data
+  receivedAt: v.number(),
+});
+
 export const ScheduledTask = v.object({
   userId: v.id("users"),
   title: v.string(),
   prompt: v.string(),
-  scheduleType: v.union(
-    v.literal("onetime"),
-    v.literal("daily"),
-    v.literal("weekly")
-  ),
-  scheduledTime: v.string(), // "HH:MM" format for all types
-  scheduledDate: v.optional(v.string()), // "YYYY-MM-DD" format for onetime tasks
+  scheduleType: ScheduleType,
+  scheduledTime: v.string(), // "HH:MM" format, "day:HH:MM" for weekly tasks
+  scheduledDate: v.optional(v.string()), // "YYYY-MM-DD" run date (onetime) or start date (interval)
+  monthlyRule: v.optional(MonthlyRule), // For monthly tasks
+  intervalMinutes: v.optional(v.number()), // For interval tasks
+  cronExpression: v.optional(v.string()), // For cron tasks, in the task timezone
   timezone: v.string(),
   status: v.union(
     v.literal("active"),
@@ -21,6 +110,16 @@ export const ScheduledTask = v.object({
   enableSearch: v.optional(v.boolean()),
   enabledToolSlugs: v.optional(v.array(v.string())),
   emailNotifications: v.optional(v.boolean()),
+  notificationChannels: v.optional(v.array(NotificationChannel)),
+  notificationPolicy: v.optional(NotificationPolicy), // Defaults to always, for every channel
+  steps: v.optional(v.array(TaskStep)), // Workflow steps run after the prompt
+  modelId: v.optional(v.string()), // Defaults to the task model when unset
+  reasoningEffort: v.optional(ReasoningEffort),
+  personaId: v.optional(v.string()), // Built-in persona id or personas document id
+  trigger: v.optional(TaskTrigger), // For event tasks
+  pendingTriggerEvents: v.optional(v.array(TriggerEvent)), // Events waiting for the current run to finish
+  retryPolicy: v.optional(TaskRetryPolicy), // Defaults to DEFAULT_TASK_RETRY_POLICY
+  timeoutMinutes: v.optional(v.number()), // Defaults to DEFAULT_TASK_TIMEOUT_MINUTES
   lastExecuted: v.optional(v.number()),
   nextExecution: v.optional(v.number()),
   scheduledFunctionId: v.optional(v.string()), // Convex scheduled function ID
@@ -0,0 +1,37 @@
+import { v } from "convex/values";
+
+// Search providers, see lib/search-providers.ts
+export const SearchProvider = v.union(
+  v.literal("brave"),
+  v.literal("tavily"),
+  v.literal("exa"),
+  v.literal("searxng"),
+  v.literal("custom")
+);
+
+export const SearchKeyProvider = v.union(
+  v.literal("brave"),
+  v.literal("tavily"),
+  v.literal("exa"),
+  v.literal("custom")
+);
+
+// A user's choice of search providers. Unset URLs use the server's.
+export const SearchSettings = v.object({
+  userId: v.id("users"),
+  providers: v.array(SearchProvider), // Primary first, then the fallback order
+  searxngUrl: v.optional(v.string()),
+  customEndpointUrl: v.optional(v.string()),
+  updatedAt: v.number(),
+});
+
+// A user's own search API key, encrypted like user_api_keys
+export const UserSearchKey = v.object({
+  userId: v.id("users"),
+  provider: SearchKeyProvider,
+  encryptedKey: v.string(),
+  encryptedDataKey: v.optional(v.string()),
+  keyVersion: v.optional(v.number()),
+  createdAt: v.number(),
+  updatedAt: v.number(),
+});
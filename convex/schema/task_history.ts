@@ -1,5 +1,31 @@
 import { v } from "convex/values";
 
+// Result of one step of a workflow execution
+export const TaskHistoryStep = v.object({
+  index: v.number(), // 0 is the task prompt, follow-up steps start at 1
+  prompt: v.string(),
+  status: v.union(
+    v.literal("success"),
+    v.literal("skipped"),
+    v.literal("failure")
+  ),
+  output: v.optional(v.string()), // Truncated text output of the step
+  startTime: v.optional(v.number()),
+  endTime: v.optional(v.number()),
+});
+
+// Result of delivering a run to one notification channel
+export const TaskHistoryDelivery = v.object({
+  channel: v.union(
+    v.literal("email"),
+    v.literal("webhook"),
+    v.literal("slack"),
+    v.literal("in_app")
+  ),
+  status: v.union(v.literal("sent"), v.literal("failed")),
+  error: v.optional(v.string()),
+});
+
 export const TaskHistory = v.object({
   taskId: v.id("scheduled_tasks"),
   executionId: v.string(), // Unique identifier for this execution
@@ -24,11 +50,18 @@ export const TaskHistory = v.object({
       totalTokens: v.optional(v.number()),
       reasoningTokens: v.optional(v.number()),
       cachedInputTokens: v.optional(v.number()),
+      costUsd: v.optional(v.number()),
       serverDurationMs: v.optional(v.number()),
       includeSearch: v.optional(v.boolean()),
       toolkitSlugs: v.optional(v.array(v.string())),
     })
   ),
+  steps: v.optional(v.array(TaskHistoryStep)), // Per-step results of workflows
   isManualTrigger: v.optional(v.boolean()), // Track manual vs scheduled executions
+  triggerEvent: v.optional(v.string()), // Summary of the event that started an event task
+  attempt: v.optional(v.number()), // 1 for the first run, higher for retries
+  nextRetryAt: v.optional(v.number()), // Set when a failed attempt will be retried
+  retriesExhausted: v.optional(v.boolean()), // Last attempt of a run that never succeeded
+  deliveries: v.optional(v.array(TaskHistoryDelivery)), // Notifications sent for this run
   createdAt: v.number(),
 });
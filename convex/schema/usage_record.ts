@@ -0,0 +1,15 @@
+import { v } from "convex/values";
+
+// One costed model call. Kept when the chat is deleted so spend stays accurate.
+export const UsageRecord = v.object({
+  userId: v.id("users"),
+  modelId: v.string(),
+  chatId: v.optional(v.id("chats")),
+  taskId: v.optional(v.id("scheduled_tasks")),
+  inputTokens: v.number(),
+  outputTokens: v.number(),
+  costUsd: v.number(),
+  // Billed to the user's own provider key instead of built-in credits
+  wasUserKeyUsed: v.boolean(),
+  createdAt: v.number(),
+});
@@ -13,4 +13,6 @@ export const User = v.object({
   about: v.optional(v.string()),
   disabledModels: v.optional(v.array(v.string())),
   favoriteModels: v.optional(v.array(v.string())),
+  // Lets the assistant remember and recall facts across chats
+  memoryEnabled: v.optional(v.boolean()),
 });
@@ -1,11 +1,33 @@
 import { v } from "convex/values";
 
+// Providers users can bring their own key for, see lib/api-key-providers.ts
+export const UserApiKeyProvider = v.union(
+  v.literal("anthropic"),
+  v.literal("openai"),
+  v.literal("gemini"),
+  v.literal("openrouter"),
+  v.literal("mistral"),
+  v.literal("xai"),
+  v.literal("deepseek"),
+  v.literal("moonshot"),
+  v.literal("zai"),
+  v.literal("qwen"),
+  v.literal("meta")
+);
+
 export const UserApiKey = v.object({
   userId: v.id("users"),
   provider: v.string(),
+  // The key encrypted with a per-record data key
   encryptedKey: v.string(),
+  // The data key wrapped by master key `keyVersion`. Keys saved before
+  // envelope encryption have neither and use master key 1 directly.
+  encryptedDataKey: v.optional(v.string()),
+  keyVersion: v.optional(v.number()),
   mode: v.optional(v.union(v.literal("priority"), v.literal("fallback"))),
   messageCount: v.optional(v.number()),
   createdAt: v.optional(v.number()),
   updatedAt: v.optional(v.number()),
+  lastUsedAt: v.optional(v.number()),
+  lastRotatedAt: v.optional(v.number()),
 });
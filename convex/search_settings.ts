@@ -0,0 +1,230 @@
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { ConvexError, v } from "convex/values";
+import { ERROR_CODES } from "../lib/error-codes";
+import {
+  allowsPrivateCustomEndpoints,
+  isPrivateHostname,
+} from "../lib/private-address";
+import {
+  normalizeSearchUrl,
+  validateSearchSettings,
+} from "../lib/search-providers";
+import type { Id } from "./_generated/dataModel";
+import {
+  internalQuery,
+  mutation,
+  type QueryCtx,
+  query,
+} from "./_generated/server";
+import { decryptKey, encryptKey } from "./api_keys";
+import { ensureAuthenticated } from "./lib/auth_helper";
+import { SearchKeyProvider, SearchProvider } from "./schema/search_settings";
+
+const searchSettingsSummary = v.object({
+  providers: v.array(SearchProvider),
+  searxngUrl: v.optional(v.string()),
+  customEndpointUrl: v.optional(v.string()),
+  keyProviders: v.array(SearchKeyProvider), // Providers with a saved key
+});
+
+// Settings the search tool runs with, including decrypted keys
+const searchProviderConfig = v.union(
+  v.null(),
+  v.object({
+    providers: v.array(SearchProvider),
+    apiKeys: v.object({
+      brave: v.optional(v.string()),
+      tavily: v.optional(v.string()),
+      exa: v.optional(v.string()),
+      custom: v.optional(v.string()),
+    }),
+    searxngUrl: v.optional(v.string()),
+    customEndpointUrl: v.optional(v.string()),
+  })
+);
+
+// Helper function to load a user's search settings with decrypted keys
+async function loadSearchConfig(ctx: QueryCtx, userId: Id<"users">) {
+  const [settings, keys] = await Promise.all([
+    ctx.db
+      .query("search_settings")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .unique(),
+    ctx.db
+      .query("user_search_keys")
+      .withIndex("by_user_provider", (q) => q.eq("userId", userId))
+      .collect(),
+  ]);
+  if (!settings && keys.length === 0) {
+    return null;
+  }
+
+  const apiKeys: Partial<Record<(typeof keys)[number]["provider"], string>> =
+    {};
+  for (const key of keys) {
+    apiKeys[key.provider] = await decryptKey(key, userId);
+  }
+  return {
+    providers: settings?.providers ?? [],
+    apiKeys,
+    searxngUrl: settings?.searxngUrl,
+    customEndpointUrl: settings?.customEndpointUrl,
+  };
+}
+
+/**
+ * Get the authenticated user's search settings. Keys are never returned.
+ */
+export const getSearchSettings = query({
+  args: {},
+  returns: v.union(v.null(), searchSettingsSummary),
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      return null;
+    }
+    const [settings, keys] = await Promise.all([
+      ctx.db
+        .query("search_settings")
+        .withIndex("by_user", (q) => q.eq("userId", userId))
+        .unique(),
+      ctx.db
+        .query("user_search_keys")
+        .withIndex("by_user_provider", (q) => q.eq("userId", userId))
+        .collect(),
+    ]);
+    return {
+      providers: settings?.providers ?? [],
+      searxngUrl: settings?.searxngUrl,
+      customEndpointUrl: settings?.customEndpointUrl,
+      keyProviders: keys.map((key) => key.provider),
+    };
+  },
+});
+
+/**
+ * Save the provider order and self-hosted endpoints. An empty provider list
+ * goes back to the server's default order.
+ */
+export const saveSearchSettings = mutation({
+  args: {
+    providers: v.array(SearchProvider),
+    searxngUrl: v.optional(v.string()),
+    customEndpointUrl: v.optional(v.string()),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const userId = await ensureAuthenticated(ctx);
+    if (validateSearchSettings(args)) {
+      throw new ConvexError(ERROR_CODES.INVALID_INPUT);
+    }
+
+    const settings = {
+      providers: args.providers,
+      searxngUrl: args.searxngUrl
+        ? normalizeSearchUrl(args.searxngUrl)
+        : undefined,
+      customEndpointUrl: args.customEndpointUrl
+        ? normalizeSearchUrl(args.customEndpointUrl)
+        : undefined,
+      updatedAt: Date.now(),
+    };
+    // Host names are not resolved here; the search tool connects to public
+    // addresses only
+    const urls = [settings.searxngUrl, settings.customEndpointUrl];
+    if (
+      !allowsPrivateCustomEndpoints() &&
+      urls.some((url) => url && isPrivateHostname(new URL(url).hostname))
+    ) {
+      throw new ConvexError(ERROR_CODES.CUSTOM_ENDPOINT_PRIVATE_URL);
+    }
+    const existing = await ctx.db
+      .query("search_settings")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .unique();
+    if (existing) {
+      await ctx.db.patch(existing._id, settings);
+    } else {
+      await ctx.db.insert("search_settings", { userId, ...settings });
+    }
+    return null;
+  },
+});
+
+export const saveSearchKey = mutation({
+  args: {
+    provider: SearchKeyProvider,
+    key: v.string(),
+  },
+  returns: v.null(),
+  handler: async (ctx, { provider, key }) => {
+    const userId = await ensureAuthenticated(ctx);
+    if (!key.trim()) {
+      throw new ConvexError(ERROR_CODES.MISSING_REQUIRED_FIELD);
+    }
+    const [encrypted, existing] = await Promise.all([
+      encryptKey(key.trim(), userId),
+      ctx.db
+        .query("user_search_keys")
+        .withIndex("by_user_provider", (q) =>
+          q.eq("userId", userId).eq("provider", provider)
+        )
+        .unique(),
+    ]);
+    const now = Date.now();
+    if (existing) {
+      await ctx.db.patch(existing._id, { ...encrypted, updatedAt: now });
+    } else {
+      await ctx.db.insert("user_search_keys", {
+        userId,
+        provider,
+        ...encrypted,
+        createdAt: now,
+        updatedAt: now,
+      });
+    }
+    return null;
+  },
+});
+
+export const deleteSearchKey = mutation({
+  args: { provider: SearchKeyProvider },
+  returns: v.null(),
+  handler: async (ctx, { provider }) => {
+    const userId = await ensureAuthenticated(ctx);
+    const existing = await ctx.db
+      .query("user_search_keys")
+      .withIndex("by_user_provider", (q) =>
+        q.eq("userId", userId).eq("provider", provider)
+      )
+      .unique();
+    if (existing) {
+      await ctx.db.delete(existing._id);
+    }
+    return null;
+  },
+});
+
+/**
+ * Get the search settings of the chat route's user, including decrypted
+ * keys. Null when the user has not set any.
+ */
+export const getSearchConfig = query({
+  args: {},
+  returns: searchProviderConfig,
+  handler: async (ctx) => {
+    const userId = await ensureAuthenticated(ctx);
+    return await loadSearchConfig(ctx, userId);
+  },
+});
+
+/**
+ * Get a user's search settings for a background task run
+ */
+export const getSearchConfigInternal = internalQuery({
+  args: { userId: v.id("users") },
+  returns: searchProviderConfig,
+  handler: async (ctx, { userId }) => {
+    return await loadSearchConfig(ctx, userId);
+  },
+});
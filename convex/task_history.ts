@@ -1,7 +1,13 @@
 import { ConvexError, v } from "convex/values";
 import { ERROR_CODES } from "../lib/error-codes";
-import { internalMutation, query } from "./_generated/server";
+import {
+  internalMutation,
+  internalQuery,
+  mutation,
+  query,
+} from "./_generated/server";
 import { ensureAuthenticated } from "./lib/auth_helper";
+import { TaskHistoryDelivery, TaskHistoryStep } from "./schema/task_history";
 
 // Shared validator for task_history entity metadata
 const taskHistoryMetadataValidator = v.optional(
@@ -13,6 +19,7 @@ const taskHistoryMetadataValidator = v.optional(
     totalTokens: v.optional(v.number()),
     reasoningTokens: v.optional(v.number()),
     cachedInputTokens: v.optional(v.number()),
+    costUsd: v.optional(v.number()),
     serverDurationMs: v.optional(v.number()),
     includeSearch: v.optional(v.boolean()),
     toolkitSlugs: v.optional(v.array(v.string())),
@@ -41,7 +48,13 @@ const taskHistoryEntityValidator = v.object({
   chatId: v.optional(v.id("chats")),
   errorMessage: v.optional(v.string()),
   metadata: taskHistoryMetadataValidator,
+  steps: v.optional(v.array(TaskHistoryStep)),
   isManualTrigger: v.optional(v.boolean()),
+  triggerEvent: v.optional(v.string()),
+  attempt: v.optional(v.number()),
+  nextRetryAt: v.optional(v.number()),
+  retriesExhausted: v.optional(v.boolean()),
+  deliveries: v.optional(v.array(TaskHistoryDelivery)),
   createdAt: v.number(),
 });
 
@@ -52,6 +65,8 @@ export const createExecutionHistory = internalMutation({
     executionId: v.string(),
     startTime: v.number(),
     isManualTrigger: v.optional(v.boolean()),
+    triggerEvent: v.optional(v.string()),
+    attempt: v.optional(v.number()),
   },
   returns: v.id("task_history"),
   handler: async (ctx, args) => {
@@ -61,6 +76,8 @@ export const createExecutionHistory = internalMutation({
       status: "running", // Task is now running, will be updated on completion/failure
       startTime: args.startTime,
       isManualTrigger: args.isManualTrigger,
+      triggerEvent: args.triggerEvent,
+      attempt: args.attempt,
       createdAt: Date.now(),
     });
 
@@ -77,6 +94,9 @@ export const updateExecutionHistory = internalMutation({
     chatId: v.optional(v.id("chats")),
     errorMessage: v.optional(v.string()),
     metadata: taskHistoryMetadataValidator,
+    steps: v.optional(v.array(TaskHistoryStep)),
+    nextRetryAt: v.optional(v.number()),
+    retriesExhausted: v.optional(v.boolean()),
   },
   returns: v.null(),
   handler: async (ctx, args) => {
@@ -95,6 +115,11 @@ export const updateExecutionHistory = internalMutation({
       });
     }
 
+    // A run the user cancelled keeps its status, even if it finished meanwhile
+    if (historyRecord.status === "cancelled") {
+      return null;
+    }
+
     // Update the record
     await ctx.db.patch(historyRecord._id, {
       status: args.status,
@@ -102,12 +127,90 @@ export const updateExecutionHistory = internalMutation({
       chatId: args.chatId,
       errorMessage: args.errorMessage,
       metadata: args.metadata,
+      steps: args.steps,
+      nextRetryAt: args.nextRetryAt,
+      retriesExhausted: args.retriesExhausted,
     });
 
     return null;
   },
 });
 
+// Record where a finished run's result was delivered
+export const recordDeliveries = internalMutation({
+  args: {
+    executionId: v.string(),
+    deliveries: v.array(TaskHistoryDelivery),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const historyRecord = await ctx.db
+      .query("task_history")
+      .withIndex("by_execution_id", (q) =>
+        q.eq("executionId", args.executionId)
+      )
+      .unique();
+
+    // The record may have been cleaned up meanwhile
+    if (historyRecord) {
+      await ctx.db.patch(historyRecord._id, { deliveries: args.deliveries });
+    }
+    return null;
+  },
+});
+
+// Internal query for running executions to check whether they were cancelled
+export const getExecutionStatus = internalQuery({
+  args: { executionId: v.string() },
+  returns: v.union(v.null(), taskHistoryStatusValidator),
+  handler: async (ctx, args) => {
+    const execution = await ctx.db
+      .query("task_history")
+      .withIndex("by_execution_id", (q) =>
+        q.eq("executionId", args.executionId)
+      )
+      .unique();
+    return execution?.status ?? null;
+  },
+});
+
+// Cancel a running execution. The run stops within a few seconds.
+export const cancelExecution = mutation({
+  args: { executionId: v.string() },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const userId = await ensureAuthenticated(ctx);
+
+    const execution = await ctx.db
+      .query("task_history")
+      .withIndex("by_execution_id", (q) =>
+        q.eq("executionId", args.executionId)
+      )
+      .unique();
+    const task = execution ? await ctx.db.get(execution.taskId) : null;
+    if (!(execution && task) || task.userId !== userId) {
+      throw new ConvexError({
+        message: "Execution not found or access denied",
+        code: ERROR_CODES.INVALID_INPUT,
+      });
+    }
+
+    if (execution.status !== "running" && execution.status !== "pending") {
+      throw new ConvexError({
+        message: "Only running executions can be cancelled",
+        code: ERROR_CODES.INVALID_INPUT,
+      });
+    }
+
+    await ctx.db.patch(execution._id, {
+      status: "cancelled",
+      endTime: Date.now(),
+      errorMessage: "Cancelled by user",
+    });
+    return null;
+  },
+});
+
 // Get execution history for a specific task
 export const getTaskExecutionHistory = query({
   args: {
@@ -150,6 +253,9 @@ export const getTaskExecutionStats = query({
     failedExecutions: v.number(),
     runningExecutions: v.number(),
     completedExecutions: v.number(),
+    totalAttempts: v.number(), // Every attempt, including retries
+    retryAttempts: v.number(),
+    exhaustedRuns: v.number(), // Runs that failed after their last retry
     successRate: v.number(),
     averageDuration: v.optional(v.number()),
     lastExecution: v.optional(
@@ -181,7 +287,11 @@ export const getTaskExecutionStats = query({
       .withIndex("by_task", (q) => q.eq("taskId", args.taskId))
       .collect();
 
-    const totalExecutions = allHistory.length;
+    // A run is its first attempt plus any retries
+    const totalAttempts = allHistory.length;
+    const retryAttempts = allHistory.filter((h) => (h.attempt ?? 1) > 1).length;
+    const totalExecutions = totalAttempts - retryAttempts;
+    const exhaustedRuns = allHistory.filter((h) => h.retriesExhausted).length;
     const successfulExecutions = allHistory.filter(
       (h) => h.status === "success"
     ).length;
@@ -226,6 +336,9 @@ export const getTaskExecutionStats = query({
       failedExecutions,
       runningExecutions,
       completedExecutions,
+      totalAttempts,
+      retryAttempts,
+      exhaustedRuns,
       successRate: Math.round(successRate * 100) / 100, // Round to 2 decimal places
       averageDuration,
       lastExecution: lastExecution
@@ -0,0 +1,243 @@
+"use node";
+
+import { v } from "convex/values";
+import { decryptSecret, readMasterSecrets } from "@/lib/api-key-crypto";
+import { sendSlackMessage } from "@/lib/composio-server";
+import { allowsPrivateCustomEndpoints } from "@/lib/private-address";
+import {
+  formatNotificationMessage,
+  shouldDeliverNotification,
+  signWebhookPayload,
+  type TaskRunOutcome,
+  type TaskWebhookPayload,
+  truncateNotificationSummary,
+  WEBHOOK_EVENT_HEADER,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+} from "@/lib/task-notifications";
+import { publicFetch } from "@/lib/url-safety";
+import { internal } from "./_generated/api";
+import type { Doc, Id } from "./_generated/dataModel";
+import { type ActionCtx, internalAction } from "./_generated/server";
+
+// Receivers that take longer than this count as failed deliveries
+const WEBHOOK_TIMEOUT_MS = 10 * 1000;
+
+type DeliveryChannel =
+  | NonNullable<Doc<"scheduled_tasks">["notificationChannels"]>[number]
+  | { type: "email" };
+
+type DeliveryContext = {
+  ctx: ActionCtx;
+  task: Doc<"scheduled_tasks">;
+  outcome: TaskRunOutcome;
+  executionId: string;
+  executionDate: string;
+  attempt: number;
+  chatId?: Id<"chats">;
+};
+
+// Helper function to build the link to a run's chat
+function getChatUrl(chatId: Id<"chats"> | undefined): string | undefined {
+  if (!chatId) {
+    return;
+  }
+  return `${process.env.NEXT_PUBLIC_APP_URL || "https://oschat.ai"}/c/${chatId}`;
+}
+
+// Helper function to email the result of a run
+async function deliverEmail({
+  ctx,
+  task,
+  outcome,
+  executionDate,
+  attempt,
+  chatId,
+}: DeliveryContext): Promise<void> {
+  let result: { success: boolean; error?: string };
+  if (outcome.status === "failure") {
+    result = await ctx.runMutation(internal.email.sendTaskFailureEmail, {
+      userId: task.userId,
+      taskId: task._id,
+      taskTitle: task.title,
+      errorMessage: outcome.output,
+      attempts: attempt,
+    });
+  } else if (chatId) {
+    result = await ctx.runMutation(internal.email.sendTaskSummaryEmail, {
+      userId: task.userId,
+      taskId: task._id,
+      taskTitle: task.title,
+      taskContent: outcome.output,
+      executionDate,
+      chatId,
+    });
+  } else {
+    result = { success: false, error: "Run has no chat to link to" };
+  }
+
+  if (!result.success) {
+    throw new Error(result.error ?? "Failed to send email");
+  }
+}
+
+// Helper function to post the result of a run to a webhook
+async function deliverWebhook(
+  { task, outcome, executionId, attempt, chatId }: DeliveryContext,
+  channel: Extract<DeliveryChannel, { type: "webhook" }>
+): Promise<void> {
+  const payload: TaskWebhookPayload = {
+    event:
+      outcome.status === "success" ? "task.run.succeeded" : "task.run.failed",
+    task: { id: task._id, title: task.title },
+    run: {
+      executionId,
+      status: outcome.status,
+      attempt,
+      finishedAt: new Date().toISOString(),
+      chatUrl: getChatUrl(chatId),
+    },
+    summary:
+      outcome.status === "success"
+        ? truncateNotificationSummary(outcome.output)
+        : "",
+    error: outcome.status === "failure" ? outcome.output : undefined,
+  };
+  const body = JSON.stringify(payload);
+  const timestamp = String(Math.floor(Date.now() / 1000));
+  const secret = await decryptSecret(
+    readMasterSecrets(process.env),
+    channel.signingSecret,
+    task.userId
+  );
+
+  // Receivers on private addresses are only reached when the server allows it
+  const send = allowsPrivateCustomEndpoints() ? fetch : publicFetch;
+  const response = await send(channel.url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      [WEBHOOK_EVENT_HEADER]: payload.event,
+      [WEBHOOK_TIMESTAMP_HEADER]: timestamp,
+      [WEBHOOK_SIGNATURE_HEADER]: await signWebhookPayload(
+        body,
+        secret,
+        timestamp
+      ),
+    },
+    body,
+    signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(`Webhook responded with ${response.status}`);
+  }
+}
+
+// Helper function to deliver a run's result to one channel
+async function deliverToChannel(
+  delivery: DeliveryContext,
+  channel: DeliveryChannel
+): Promise<void> {
+  const { ctx, task, outcome, chatId } = delivery;
+  switch (channel.type) {
+    case "email":
+      return await deliverEmail(delivery);
+    case "webhook":
+      return await deliverWebhook(delivery, channel);
+    case "slack":
+      return await sendSlackMessage(
+        task.userId,
+        channel.channel,
+        formatNotificationMessage(task.title, outcome, getChatUrl(chatId))
+      );
+    default:
+      await ctx.runMutation(internal.notifications.createNotificationInternal, {
+        userId: task.userId,
+        taskId: task._id,
+        chatId,
+        title:
+          outcome.status === "success"
+            ? `${task.title} finished`
+            : `${task.title} failed`,
+        body: truncateNotificationSummary(outcome.output),
+      });
+  }
+}
+
+/**
+ * Deliver the result of a finished run to the task's channels. Runs that
+ * failed after their last retry always reach email and the in-app inbox.
+ */
+export const deliverTaskResult = internalAction({
+  args: {
+    taskId: v.id("scheduled_tasks"),
+    executionId: v.string(),
+    status: v.union(v.literal("success"), v.literal("failure")),
+    output: v.string(), // Last step output, or the error of a failed run
+    chatId: v.optional(v.id("chats")),
+    attempt: v.number(),
+    retriesExhausted: v.optional(v.boolean()),
+    executionDate: v.string(),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const task = await ctx.runQuery(internal.scheduled_tasks.getTask, {
+      taskId: args.taskId,
+    });
+    if (!task) {
+      return null;
+    }
+
+    const outcome: TaskRunOutcome = {
+      status: args.status,
+      output: args.output,
+    };
+    const channels: DeliveryChannel[] = [];
+    if (shouldDeliverNotification(task.notificationPolicy, outcome)) {
+      if (task.emailNotifications) {
+        channels.push({ type: "email" });
+      }
+      channels.push(...(task.notificationChannels ?? []));
+    }
+    if (args.retriesExhausted) {
+      for (const type of ["email", "in_app"] as const) {
+        if (!channels.some((channel) => channel.type === type)) {
+          channels.push({ type });
+        }
+      }
+    }
+    if (channels.length === 0) {
+      return null;
+    }
+
+    const delivery: DeliveryContext = {
+      ctx,
+      task,
+      outcome,
+      executionId: args.executionId,
+      executionDate: args.executionDate,
+      attempt: args.attempt,
+      chatId: args.chatId,
+    };
+    const results = await Promise.allSettled(
+      channels.map((channel) => deliverToChannel(delivery, channel))
+    );
+
+    await ctx.runMutation(internal.task_history.recordDeliveries, {
+      executionId: args.executionId,
+      deliveries: results.map((result, index) =>
+        result.status === "fulfilled"
+          ? { channel: channels[index].type, status: "sent" as const }
+          : {
+              channel: channels[index].type,
+              status: "failed" as const,
+              error:
+                result.reason instanceof Error
+                  ? result.reason.message
+                  : "Delivery failed",
+            }
+      ),
+    });
+    return null;
+  },
+});
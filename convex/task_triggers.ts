@@ -0,0 +1,198 @@
+import { v } from "convex/values";
+import {
+  MAX_PENDING_TRIGGER_EVENTS,
+  matchesTriggerEvent,
+  parseTriggerWebhook,
+  rememberTriggerEventId,
+  serializeTriggerPayload,
+  summarizeTriggerEvent,
+  verifyWebhookSignature,
+} from "../lib/task-triggers";
+import { internal } from "./_generated/api";
+import {
+  httpAction,
+  internalMutation,
+  internalQuery,
+} from "./_generated/server";
+import { TaskTrigger, TriggerEvent } from "./schema/scheduled_task";
+
+// Internal query to find the task a Composio trigger belongs to
+export const getTaskByTrigger = internalQuery({
+  args: { composioTriggerId: v.string() },
+  returns: v.union(
+    v.null(),
+    v.object({ _id: v.id("scheduled_tasks"), trigger: TaskTrigger })
+  ),
+  handler: async (ctx, args) => {
+    const task = await ctx.db
+      .query("scheduled_tasks")
+      .withIndex("by_composio_trigger", (q) =>
+        q.eq("trigger.composioTriggerId", args.composioTriggerId)
+      )
+      .first();
+
+    if (!task?.trigger || task.scheduleType !== "event") {
+      return null;
+    }
+    return { _id: task._id, trigger: task.trigger };
+  },
+});
+
+// Internal mutation to save the result of registering a trigger. Returns
+// false when the task or its trigger changed meanwhile, so the caller can
+// remove the trigger it just created.
+export const setTriggerRegistration = internalMutation({
+  args: {
+    taskId: v.id("scheduled_tasks"),
+    trigger: TaskTrigger, // The trigger that was registered
+    composioTriggerId: v.optional(v.string()),
+    error: v.optional(v.string()),
+  },
+  returns: v.boolean(),
+  handler: async (ctx, args) => {
+    const task = await ctx.db.get(args.taskId);
+    if (
+      !task?.trigger ||
+      task.scheduleType !== "event" ||
+      task.trigger.type !== args.trigger.type ||
+      task.trigger.filter !== args.trigger.filter ||
+      task.trigger.composioTriggerId
+    ) {
+      return false;
+    }
+
+    await ctx.db.patch(args.taskId, {
+      trigger: {
+        type: task.trigger.type,
+        filter: task.trigger.filter,
+        composioTriggerId: args.composioTriggerId,
+        error: args.error,
+      },
+    });
+    return true;
+  },
+});
+
+// Internal mutation to run an event task for an incoming event. The task is
+// claimed (set to running) in the same transaction that schedules the run,
+// so two events never start concurrent runs; events that arrive during a run
+// are queued and started when it finishes.
+export const enqueueTriggerEvent = internalMutation({
+  args: {
+    taskId: v.id("scheduled_tasks"),
+    event: TriggerEvent,
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const task = await ctx.db.get(args.taskId);
+    if (!task?.trigger || task.scheduleType !== "event") {
+      return null;
+    }
+
+    // Composio redelivers events it did not see acknowledged
+    if (task.trigger.recentEventIds?.includes(args.event.id)) {
+      return null;
+    }
+
+    // Paused and archived tasks ignore events
+    if (task.status !== "active" && task.status !== "running") {
+      return null;
+    }
+
+    const trigger = {
+      ...task.trigger,
+      recentEventIds: rememberTriggerEventId(
+        task.trigger.recentEventIds,
+        args.event.id
+      ),
+    };
+
+    if (task.status === "running") {
+      const pendingTriggerEvents = task.pendingTriggerEvents ?? [];
+      if (pendingTriggerEvents.length < MAX_PENDING_TRIGGER_EVENTS) {
+        await ctx.db.patch(args.taskId, {
+          trigger,
+          pendingTriggerEvents: [...pendingTriggerEvents, args.event],
+        });
+        return null;
+      }
+
+      // The queue is full: record the dropped event so the user sees it
+      const now = Date.now();
+      await ctx.db.patch(args.taskId, { trigger });
+      await ctx.db.insert("task_history", {
+        taskId: args.taskId,
+        executionId: `drop_${now}_${Math.random().toString(36).substring(2, 15)}`,
+        status: "failure",
+        startTime: now,
+        endTime: now,
+        errorMessage: `Event dropped: ${MAX_PENDING_TRIGGER_EVENTS} events were already waiting for the current run`,
+        triggerEvent: args.event.summary,
+        createdAt: now,
+      });
+      return null;
+    }
+
+    await ctx.db.patch(args.taskId, { trigger, status: "running" });
+    await ctx.scheduler.runAfter(0, internal.scheduled_ai.executeTask, {
+      taskId: args.taskId,
+      triggerEvent: args.event,
+    });
+    return null;
+  },
+});
+
+// Webhook Composio calls for every event of a registered trigger
+export const handleComposioWebhook = httpAction(async (ctx, request) => {
+  const secret = process.env.COMPOSIO_WEBHOOK_SECRET;
+  if (!secret) {
+    return new Response("Webhook secret not configured", { status: 500 });
+  }
+
+  const body = await request.text();
+  const webhookId = request.headers.get("webhook-id");
+  const timestamp = request.headers.get("webhook-timestamp");
+  const signature = request.headers.get("webhook-signature");
+  const isVerified =
+    webhookId !== null &&
+    timestamp !== null &&
+    signature !== null &&
+    (await verifyWebhookSignature(
+      { body, webhookId, timestamp, signature },
+      secret
+    ));
+  if (!isVerified) {
+    return new Response("Invalid signature", { status: 401 });
+  }
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(body);
+  } catch {
+    return new Response("Invalid JSON", { status: 400 });
+  }
+
+  // Acknowledge events we do not handle, so Composio stops retrying them
+  const webhook = parseTriggerWebhook(payload, webhookId);
+  if (!webhook) {
+    return new Response(null, { status: 204 });
+  }
+  const task = await ctx.runQuery(internal.task_triggers.getTaskByTrigger, {
+    composioTriggerId: webhook.composioTriggerId,
+  });
+  if (!(task && matchesTriggerEvent(task.trigger, webhook.data))) {
+    return new Response(null, { status: 204 });
+  }
+
+  await ctx.runMutation(internal.task_triggers.enqueueTriggerEvent, {
+    taskId: task._id,
+    event: {
+      id: webhook.eventId,
+      type: task.trigger.type,
+      summary: summarizeTriggerEvent(task.trigger.type, webhook.data),
+      payload: serializeTriggerPayload(webhook.data),
+      receivedAt: Date.now(),
+    },
+  });
+  return new Response(null, { status: 200 });
+});
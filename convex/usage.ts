@@ -0,0 +1,194 @@
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { v } from "convex/values";
+import type { Doc, Id } from "./_generated/dataModel";
+import { internalMutation, query } from "./_generated/server";
+import { recordMessageUsage } from "./lib/usage_helper";
+
+// Constants for the usage dashboard
+const USAGE_LIMITS = {
+  maxDays: 90,
+  topChats: 10,
+} as const;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const spendFields = {
+  costUsd: v.number(),
+  // Spend on built-in credits versus the user's own provider keys
+  builtInCostUsd: v.number(),
+  userKeyCostUsd: v.number(),
+  answers: v.number(),
+};
+
+const spendSummary = v.object({
+  totals: v.object(spendFields),
+  byModel: v.array(v.object({ modelId: v.string(), ...spendFields })),
+  byDay: v.array(v.object({ date: v.string(), ...spendFields })),
+  byChat: v.array(
+    v.object({
+      chatId: v.id("chats"),
+      // Unset once the chat has been deleted
+      title: v.optional(v.string()),
+      ...spendFields,
+    })
+  ),
+  byTask: v.array(
+    v.object({
+      taskId: v.id("scheduled_tasks"),
+      title: v.optional(v.string()),
+      ...spendFields,
+    })
+  ),
+});
+
+type Spend = {
+  costUsd: number;
+  builtInCostUsd: number;
+  userKeyCostUsd: number;
+  answers: number;
+};
+
+const emptySpend = (): Spend => ({
+  costUsd: 0,
+  builtInCostUsd: 0,
+  userKeyCostUsd: 0,
+  answers: 0,
+});
+
+// Helper function to add a usage record to the spend bucket of a key
+function addSpend<K extends string>(
+  buckets: Map<K, Spend>,
+  key: K,
+  record: Doc<"usage_records">
+) {
+  const spend = buckets.get(key) ?? emptySpend();
+  spend.costUsd += record.costUsd;
+  if (record.wasUserKeyUsed) {
+    spend.userKeyCostUsd += record.costUsd;
+  } else {
+    spend.builtInCostUsd += record.costUsd;
+  }
+  spend.answers += 1;
+  buckets.set(key, spend);
+}
+
+// Helper function to format a timestamp as YYYY-MM-DD in the user's timezone
+function toDateKey(timestamp: number, timezone?: string): string {
+  const options: Intl.DateTimeFormatOptions = {
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  };
+  try {
+    return new Intl.DateTimeFormat("en-CA", {
+      ...options,
+      timeZone: timezone,
+    }).format(timestamp);
+  } catch {
+    // Unknown timezone
+    return new Intl.DateTimeFormat("en-CA", {
+      ...options,
+      timeZone: "UTC",
+    }).format(timestamp);
+  }
+}
+
+const bySpend = (a: Spend, b: Spend) => b.costUsd - a.costUsd;
+
+/**
+ * Break the authenticated user's spend down by model, day, chat and
+ * scheduled task over the last few days
+ */
+export const getUsageSummary = query({
+  args: {
+    days: v.number(),
+    timezone: v.optional(v.string()),
+  },
+  returns: v.union(v.null(), spendSummary),
+  handler: async (ctx, { days, timezone }) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      return null;
+    }
+
+    const periodDays = Math.min(
+      Math.max(Math.floor(days), 1),
+      USAGE_LIMITS.maxDays
+    );
+    const since = Date.now() - periodDays * DAY_MS;
+    const records = await ctx.db
+      .query("usage_records")
+      .withIndex("by_user_and_created", (q) =>
+        q.eq("userId", userId).gte("createdAt", since)
+      )
+      .collect();
+
+    const totals = new Map<string, Spend>();
+    const models = new Map<string, Spend>();
+    const dates = new Map<string, Spend>();
+    const chats = new Map<Id<"chats">, Spend>();
+    const tasks = new Map<Id<"scheduled_tasks">, Spend>();
+    for (const record of records) {
+      addSpend(totals, "all", record);
+      addSpend(models, record.modelId, record);
+      addSpend(dates, toDateKey(record.createdAt, timezone), record);
+      // Every task run gets its own chat, so task spend is grouped by task
+      if (record.taskId) {
+        addSpend(tasks, record.taskId, record);
+      } else if (record.chatId) {
+        addSpend(chats, record.chatId, record);
+      }
+    }
+
+    const topChats = [...chats.entries()]
+      .sort(([, a], [, b]) => bySpend(a, b))
+      .slice(0, USAGE_LIMITS.topChats);
+
+    return {
+      totals: totals.get("all") ?? emptySpend(),
+      byModel: [...models.entries()]
+        .map(([modelId, spend]) => ({ modelId, ...spend }))
+        .sort(bySpend),
+      byDay: [...dates.entries()]
+        .map(([date, spend]) => ({ date, ...spend }))
+        .sort((a, b) => a.date.localeCompare(b.date)),
+      byChat: await Promise.all(
+        topChats.map(async ([chatId, spend]) => {
+          const chat = await ctx.db.get(chatId);
+          return {
+            chatId,
+            title: chat ? (chat.title ?? "New Chat") : undefined,
+            ...spend,
+          };
+        })
+      ),
+      byTask: (
+        await Promise.all(
+          [...tasks.entries()].map(async ([taskId, spend]) => {
+            const task = await ctx.db.get(taskId);
+            return { taskId, title: task?.title, ...spend };
+          })
+        )
+      ).sort(bySpend),
+    };
+  },
+});
+
+// Internal mutation to record the cost of a public API answer that was not stored as a chat
+export const recordUsageInternal = internalMutation({
+  args: {
+    userId: v.id("users"),
+    metadata: v.object({
+      modelId: v.string(),
+      inputTokens: v.optional(v.number()),
+      outputTokens: v.optional(v.number()),
+      costUsd: v.optional(v.number()),
+      wasUserKeyUsed: v.boolean(),
+    }),
+  },
+  returns: v.null(),
+  handler: async (ctx, { userId, metadata }) => {
+    await recordMessageUsage(ctx, { userId, metadata });
+    return null;
+  },
+});
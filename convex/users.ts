@@ -74,6 +74,7 @@ export const updateUserProfile = mutation({
       about: v.optional(v.string()),
       disabledModels: v.optional(v.array(v.string())),
       favoriteModels: v.optional(v.array(v.string())),
+      memoryEnabled: v.optional(v.boolean()),
     }),
   },
   returns: v.null(),
@@ -609,6 +610,14 @@ export const deleteAccount = mutation({
       usage,
       authAccounts,
       authSessions,
+      documentChunks,
+      memories,
+      usageRecords,
+      accessTokens,
+      customEndpoints,
+      notifications,
+      searchSettings,
+      searchKeys,
     ] = await Promise.all([
       ctx.db
         .query("chat_attachments")
@@ -638,6 +647,38 @@ export const deleteAccount = mutation({
         .query("authSessions")
         .withIndex("userId", (q) => q.eq("userId", userId))
         .collect(),
+      ctx.db
+        .query("document_chunks")
+        .withIndex("by_user", (q) => q.eq("userId", userId))
+        .collect(),
+      ctx.db
+        .query("memories")
+        .withIndex("by_user", (q) => q.eq("userId", userId))
+        .collect(),
+      ctx.db
+        .query("usage_records")
+        .withIndex("by_user_and_created", (q) => q.eq("userId", userId))
+        .collect(),
+      ctx.db
+        .query("access_tokens")
+        .withIndex("by_user", (q) => q.eq("userId", userId))
+        .collect(),
+      ctx.db
+        .query("custom_endpoints")
+        .withIndex("by_user", (q) => q.eq("userId", userId))
+        .collect(),
+      ctx.db
+        .query("notifications")
+        .withIndex("by_user_and_created", (q) => q.eq("userId", userId))
+        .collect(),
+      ctx.db
+        .query("search_settings")
+        .withIndex("by_user", (q) => q.eq("userId", userId))
+        .collect(),
+      ctx.db
+        .query("user_search_keys")
+        .withIndex("by_user_provider", (q) => q.eq("userId", userId))
+        .collect(),
     ]);
 
     // --- Step 2: Collect all deletion promises and execute them concurrently ---
@@ -670,6 +711,32 @@ export const deleteAccount = mutation({
     // Delete usage history
     deletionPromises.push(...usage.map((u) => ctx.db.delete(u._id)));
 
+    // Delete document search chunks
+    deletionPromises.push(
+      ...documentChunks.map((chunk) => ctx.db.delete(chunk._id))
+    );
+
+    // Delete long-term memories
+    deletionPromises.push(...memories.map((m) => ctx.db.delete(m._id)));
+
+    // Delete the cost ledger
+    deletionPromises.push(...usageRecords.map((r) => ctx.db.delete(r._id)));
+
+    // Revoke personal access tokens
+    deletionPromises.push(...accessTokens.map((t) => ctx.db.delete(t._id)));
+
+    // Delete custom model endpoints and their keys
+    deletionPromises.push(...customEndpoints.map((e) => ctx.db.delete(e._id)));
+
+    // Delete in-app notifications
+    deletionPromises.push(...notifications.map((n) => ctx.db.delete(n._id)));
+
+    // Delete search settings and search API keys
+    deletionPromises.push(
+      ...searchSettings.map((s) => ctx.db.delete(s._id)),
+      ...searchKeys.map((k) => ctx.db.delete(k._id))
+    );
+
     // Delete auth accounts
     deletionPromises.push(
       ...authAccounts.map((acc) => ctx.db.delete(acc._id as Id<"authAccounts">))
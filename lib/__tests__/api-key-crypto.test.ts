@@ -0,0 +1,170 @@
+import { describe, expect, it } from "vitest";
+import {
+  decryptSecret,
+  type EncryptedSecret,
+  encryptSecret,
+  type RewrapBatchResult,
+  readMasterSecrets,
+  rewrapAllTables,
+  rewrapRecords,
+  rewrapSecret,
+  type SecretTable,
+} from "@/lib/api-key-crypto";
+
+const V1_SECRETS = new Map([[1, "first-master-secret"]]);
+const V2_SECRETS = new Map([
+  [1, "first-master-secret"],
+  [2, "second-master-secret"],
+]);
+const ONLY_V2_SECRETS = new Map([[2, "second-master-secret"]]);
+
+// Written for user_1 by the encryption used before data keys: "iv:ciphertext"
+// hex of "sk-legacy-1234", encrypted directly with master key 1
+const LEGACY_RECORD: EncryptedSecret = {
+  encryptedKey:
+    "b6e77ac6ca581532d4f6e19c:02e8bce6375a5ea5913725f55c9fee18e1360b8704a7e071edb9b74ce4b9",
+};
+
+describe("readMasterSecrets", () => {
+  it("reads API_KEY_SECRET as version 1 and numbered secrets after it", () => {
+    const secrets = readMasterSecrets({
+      API_KEY_SECRET: "one",
+      API_KEY_SECRET_V3: "three",
+    });
+    expect([...secrets.entries()]).toEqual([
+      [1, "one"],
+      [3, "three"],
+    ]);
+  });
+
+  it("refuses to run without a master secret", () => {
+    expect(() => readMasterSecrets({})).toThrow("API_KEY_SECRET");
+  });
+});
+
+describe("encryptSecret", () => {
+  it("round-trips a value with a data key wrapped by the newest master key", async () => {
+    const secret = await encryptSecret(V1_SECRETS, "sk-test-1234", "user_1");
+    expect(secret.keyVersion).toBe(1);
+    expect(secret.encryptedDataKey).toBeDefined();
+    expect(secret.encryptedKey).not.toContain("sk-test-1234");
+    expect(await decryptSecret(V1_SECRETS, secret, "user_1")).toBe(
+      "sk-test-1234"
+    );
+  });
+
+  it("cannot be decrypted for another user", async () => {
+    const secret = await encryptSecret(V1_SECRETS, "sk-test-1234", "user_1");
+    await expect(decryptSecret(V1_SECRETS, secret, "user_2")).rejects.toThrow(
+      "Failed to decrypt API key"
+    );
+  });
+});
+
+describe("decryptSecret", () => {
+  it("reads legacy records encrypted with master key 1", async () => {
+    expect(await decryptSecret(V1_SECRETS, LEGACY_RECORD, "user_1")).toBe(
+      "sk-legacy-1234"
+    );
+  });
+});
+
+describe("rewrapSecret", () => {
+  it("moves a v1 record to v2 without re-encrypting the value", async () => {
+    const secret = await encryptSecret(V1_SECRETS, "sk-test-1234", "user_1");
+    const rewrapped = await rewrapSecret(V2_SECRETS, secret, "user_1");
+
+    expect(rewrapped.keyVersion).toBe(2);
+    expect(rewrapped.encryptedKey).toBe(secret.encryptedKey);
+    expect(await decryptSecret(ONLY_V2_SECRETS, rewrapped, "user_1")).toBe(
+      "sk-test-1234"
+    );
+  });
+
+  it("encrypts legacy records from scratch", async () => {
+    const rewrapped = await rewrapSecret(V2_SECRETS, LEGACY_RECORD, "user_1");
+
+    expect(rewrapped.keyVersion).toBe(2);
+    expect(await decryptSecret(ONLY_V2_SECRETS, rewrapped, "user_1")).toBe(
+      "sk-legacy-1234"
+    );
+  });
+});
+
+describe("rewrapAllTables", () => {
+  type Row = Partial<EncryptedSecret> & { _id: string; userId: string };
+
+  it("pages through every table and re-wraps only outdated records", async () => {
+    const v1 = (value: string) => encryptSecret(V1_SECRETS, value, "user_1");
+    const tables: Record<SecretTable, Row[]> = {
+      user_api_keys: [
+        { _id: "k1", userId: "user_1", ...(await v1("openai")) },
+        { _id: "k2", userId: "user_1", ...(await v1("anthropic")) },
+        {
+          _id: "k3",
+          userId: "user_1",
+          ...(await encryptSecret(V2_SECRETS, "google", "user_1")),
+        },
+      ],
+      // Endpoints without a key have nothing to re-wrap
+      custom_endpoints: [
+        { _id: "e1", userId: "user_1" },
+        { _id: "e2", userId: "user_1", ...(await v1("endpoint")) },
+      ],
+      user_search_keys: [{ _id: "s1", userId: "user_1", ...LEGACY_RECORD }],
+      scheduled_tasks: [],
+    };
+
+    // Pages of two records, with the offset as the cursor, like paginate
+    const calls: [SecretTable, string | null][] = [];
+    const rewrapBatch = async (
+      table: SecretTable,
+      cursor: string | null
+    ): Promise<RewrapBatchResult> => {
+      calls.push([table, cursor]);
+      const start = cursor ? Number(cursor) : 0;
+      const page = tables[table].slice(start, start + 2);
+      const updates = await rewrapRecords(V2_SECRETS, page);
+      for (const { record, secret } of updates) {
+        Object.assign(record, secret);
+      }
+      const end = start + page.length;
+      return {
+        rewrapped: updates.length,
+        continueCursor: String(end),
+        isDone: end >= tables[table].length,
+      };
+    };
+
+    expect(await rewrapAllTables(rewrapBatch)).toBe(4);
+    expect(calls).toEqual([
+      ["user_api_keys", null],
+      ["user_api_keys", "2"],
+      ["custom_endpoints", null],
+      ["user_search_keys", null],
+      ["scheduled_tasks", null],
+    ]);
+
+    // Every stored value is now readable with only the new master key
+    const values: (string | undefined)[] = [];
+    for (const row of Object.values(tables).flat()) {
+      values.push(
+        row.encryptedKey
+          ? await decryptSecret(
+              ONLY_V2_SECRETS,
+              row as EncryptedSecret,
+              row.userId
+            )
+          : undefined
+      );
+    }
+    expect(values).toEqual([
+      "openai",
+      "anthropic",
+      "google",
+      undefined,
+      "endpoint",
+      "sk-legacy-1234",
+    ]);
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { buildKeyTestRequest } from "@/lib/api-key-providers";
+import { getApiKeyProviders, validateApiKey } from "@/lib/config/api-keys";
+import { MODELS_RAW } from "@/lib/config/models";
+import { getUserKeyModelId, getUserKeyProvider } from "@/lib/user-key-models";
+
+// Helper function to get a configured model by id
+function getModel(id: string) {
+  const model = MODELS_RAW.find((m) => m.id === id);
+  if (!model) {
+    throw new Error(`Unknown model ${id}`);
+  }
+  return model;
+}
+
+describe("getUserKeyProvider", () => {
+  it("uses the vendor of models routed through OpenRouter", () => {
+    const model = getModel("x-ai/grok-4-fast");
+    expect(getUserKeyProvider(model)).toBe("xai");
+    expect(getUserKeyModelId(model)).toBe("grok-4-fast-non-reasoning");
+  });
+
+  it("falls back to the routing provider and its model id", () => {
+    const model = getModel("claude-3-7-sonnet-reasoning");
+    expect(getUserKeyProvider(model)).toBe("anthropic");
+    expect(getUserKeyModelId(model)).toBe("claude-3-7-sonnet-20250219");
+  });
+});
+
+describe("getApiKeyProviders", () => {
+  it("offers keys beyond Anthropic, OpenAI and Google", () => {
+    const ids = getApiKeyProviders().map((provider) => provider.id);
+    expect(ids).toEqual(
+      expect.arrayContaining(["xai", "mistral", "deepseek", "zai", "qwen"])
+    );
+  });
+});
+
+describe("validateApiKey", () => {
+  it("checks provider-specific formats", () => {
+    expect(validateApiKey("xai", `xai-${"a".repeat(40)}`).isValid).toBe(true);
+    expect(validateApiKey("xai", "sk-123").isValid).toBe(false);
+    expect(validateApiKey("meta", "LLM|123|abc").isValid).toBe(true);
+  });
+});
+
+describe("buildKeyTestRequest", () => {
+  it("lists models on OpenAI-compatible providers", () => {
+    const { url, init } = buildKeyTestRequest("deepseek", "sk-test");
+    expect(url).toBe("https://api.deepseek.com/v1/models");
+    expect(init.headers).toEqual({ Authorization: "Bearer sk-test" });
+  });
+});
@@ -0,0 +1,122 @@
+import type { UIMessage } from "ai";
+import { describe, expect, it } from "vitest";
+import {
+  buildDockerRunArgs,
+  getArtifactMime,
+  getDataFileInputs,
+  getSandboxFileName,
+  truncateOutput,
+} from "@/lib/code-sandbox";
+
+const XLSX_MIME =
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+describe("getSandboxFileName", () => {
+  it("keeps only a safe base name", () => {
+    expect(getSandboxFileName("../../etc/passwd")).toBe("passwd");
+    expect(getSandboxFileName("Q3 sales (final).xlsx")).toBe(
+      "Q3_sales_final_.xlsx"
+    );
+    expect(getSandboxFileName(".hidden.csv")).toBe("hidden.csv");
+    expect(getSandboxFileName("")).toBe("file");
+  });
+
+  it("numbers repeated names", () => {
+    const taken = new Set<string>();
+    expect(getSandboxFileName("data.csv", taken)).toBe("data.csv");
+    expect(getSandboxFileName("data.csv", taken)).toBe("data-2.csv");
+    expect(getSandboxFileName("data.csv", taken)).toBe("data-3.csv");
+  });
+});
+
+describe("getDataFileInputs", () => {
+  it("collects CSV and XLSX attachments once per URL", () => {
+    const messages = [
+      {
+        id: "1",
+        role: "user",
+        parts: [
+          {
+            type: "file",
+            mediaType: "text/csv",
+            url: "https://files.example.com/a",
+            filename: "data.csv",
+          },
+          {
+            type: "file",
+            mediaType: "image/png",
+            url: "https://files.example.com/b",
+            filename: "photo.png",
+          },
+        ],
+      },
+      {
+        id: "2",
+        role: "user",
+        parts: [
+          {
+            type: "file",
+            mediaType: "text/csv",
+            url: "https://files.example.com/a",
+            filename: "data.csv",
+          },
+          {
+            type: "file",
+            mediaType: XLSX_MIME,
+            url: "https://files.example.com/c",
+            filename: "data.csv",
+          },
+        ],
+      },
+    ] as UIMessage[];
+
+    expect(getDataFileInputs(messages)).toEqual([
+      {
+        name: "data.csv",
+        url: "https://files.example.com/a",
+        mediaType: "text/csv",
+      },
+      {
+        name: "data-2.csv",
+        url: "https://files.example.com/c",
+        mediaType: XLSX_MIME,
+      },
+    ]);
+  });
+});
+
+describe("getArtifactMime", () => {
+  it("recognizes generated images only", () => {
+    expect(getArtifactMime("chart.PNG")).toBe("image/png");
+    expect(getArtifactMime("plot.jpeg")).toBe("image/jpeg");
+    expect(getArtifactMime("drawing.svg")).toBeNull();
+    expect(getArtifactMime("data.csv")).toBeNull();
+    expect(getArtifactMime("png")).toBeNull();
+  });
+});
+
+describe("truncateOutput", () => {
+  it("keeps the start of long output", () => {
+    expect(truncateOutput("short", 10)).toBe("short");
+    expect(truncateOutput("0123456789abc", 10)).toBe(
+      "0123456789\n... [output truncated]"
+    );
+  });
+});
+
+describe("buildDockerRunArgs", () => {
+  it("isolates the container", () => {
+    const args = buildDockerRunArgs({
+      name: "run-1",
+      image: "python:3.12",
+      workspace: "/tmp/run-1",
+      command: ["python", "main.py"],
+      user: "1000:1000",
+    });
+    expect(args.join(" ")).toContain("--network none");
+    expect(args).toContain("--read-only");
+    expect(args.join(" ")).toContain("--cap-drop ALL");
+    expect(args.join(" ")).toContain("--volume /tmp/run-1:/workspace");
+    expect(args.slice(-3)).toEqual(["python:3.12", "python", "main.py"]);
+  });
+});
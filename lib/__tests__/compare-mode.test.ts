@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import {
+  getCompareModelIds,
+  getCompareWinnerId,
+  getThreadMessages,
+  groupCompareAnswers,
+} from "@/lib/compare-mode";
+
+type TestMessage = {
+  id: string;
+  role: string;
+  parentMessageId?: string;
+  compareGroupId?: string;
+  selectedChildId?: string;
+};
+
+const comparedThread: TestMessage[] = [
+  { id: "u1", role: "user" },
+  { id: "a1", role: "assistant", parentMessageId: "u1" },
+  { id: "u2", role: "user", compareGroupId: "g1" },
+  { id: "a2", role: "assistant", parentMessageId: "u2" },
+  { id: "a3", role: "assistant", parentMessageId: "u2" },
+  { id: "a4", role: "assistant", parentMessageId: "u2" },
+];
+
+describe("getCompareModelIds", () => {
+  it("puts the primary model first and removes duplicates", () => {
+    expect(
+      getCompareModelIds("gpt-5", ["claude-4-sonnet", "gpt-5"], 3)
+    ).toEqual(["gpt-5", "claude-4-sonnet"]);
+  });
+
+  it("caps the number of models", () => {
+    expect(getCompareModelIds("a", ["b", "c", "d"], 3)).toEqual([
+      "a",
+      "b",
+      "c",
+    ]);
+  });
+});
+
+describe("groupCompareAnswers", () => {
+  it("groups sibling answers under their compared prompt", () => {
+    const items = groupCompareAnswers(comparedThread);
+
+    expect(items.map((item) => item.type)).toEqual([
+      "message",
+      "message",
+      "compare",
+    ]);
+    const compareItem = items[2];
+    expect(compareItem.type === "compare" && compareItem.answers).toEqual([
+      comparedThread[3],
+      comparedThread[4],
+      comparedThread[5],
+    ]);
+  });
+});
+
+describe("getCompareWinnerId", () => {
+  it("defaults to the first answer until a winner is picked", () => {
+    const answers = comparedThread.slice(3);
+    expect(getCompareWinnerId(comparedThread[2], answers)).toBe("a2");
+    expect(
+      getCompareWinnerId(
+        { ...comparedThread[2], selectedChildId: "a4" },
+        answers
+      )
+    ).toBe("a4");
+  });
+});
+
+describe("getThreadMessages", () => {
+  it("keeps only the winning answer of a comparison", () => {
+    const thread = comparedThread.map((message) =>
+      message.id === "u2" ? { ...message, selectedChildId: "a3" } : message
+    );
+
+    expect(getThreadMessages(thread).map((message) => message.id)).toEqual([
+      "u1",
+      "a1",
+      "u2",
+      "a3",
+    ]);
+  });
+});
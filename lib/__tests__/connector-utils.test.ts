@@ -0,0 +1,22 @@
+import { describe, expect, it } from "vitest";
+import { restrictConnectorStatus } from "@/lib/connector-utils";
+
+const status = {
+  enabled: ["GMAIL", "NOTION", "GITHUB"],
+  disabled: ["SLACK"],
+  notConnected: ["LINEAR"],
+};
+
+describe("restrictConnectorStatus", () => {
+  it("keeps every enabled connector without a persona limit", () => {
+    expect(restrictConnectorStatus(status)).toBe(status);
+  });
+
+  it("reports connectors outside the persona limit as disabled", () => {
+    expect(restrictConnectorStatus(status, ["gmail", "github"])).toEqual({
+      enabled: ["GMAIL", "GITHUB"],
+      disabled: ["SLACK", "NOTION"],
+      notConnected: ["LINEAR"],
+    });
+  });
+});
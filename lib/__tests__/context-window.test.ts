@@ -0,0 +1,84 @@
+import type { UIMessage } from "ai";
+import { describe, expect, it } from "vitest";
+import {
+  applyContextSummary,
+  estimateMessageTokens,
+  splitForCompaction,
+} from "@/lib/context-window";
+
+const makeMessage = (
+  id: string,
+  role: UIMessage["role"],
+  length = 400
+): UIMessage => ({
+  id,
+  role,
+  parts: [{ type: "text", text: "x".repeat(length) }],
+});
+
+// Six alternating turns of 100 tokens each
+const conversation = ["u1", "a1", "u2", "a2", "u3", "a3"].map((id) =>
+  makeMessage(id, id.startsWith("u") ? "user" : "assistant")
+);
+
+const ids = (messages: UIMessage[]) => messages.map((message) => message.id);
+
+describe("estimateMessageTokens", () => {
+  it("counts text, files and tool calls", () => {
+    const message: UIMessage = {
+      id: "m",
+      role: "assistant",
+      parts: [
+        { type: "text", text: "x".repeat(40) },
+        { type: "file", mediaType: "image/png", url: "https://example.com" },
+        {
+          type: "tool-search",
+          toolCallId: "call",
+          state: "output-available",
+          input: { query: "abcd" },
+          output: "y".repeat(400),
+        },
+      ],
+    };
+
+    expect(estimateMessageTokens(message)).toBe(10 + 1000 + 4 + 100);
+  });
+});
+
+describe("applyContextSummary", () => {
+  it("drops the turns the summary covers", () => {
+    const result = applyContextSummary(conversation, {
+      text: "Summary",
+      lastMessageId: "a1",
+    });
+
+    expect(result.summary).toBe("Summary");
+    expect(ids(result.messages)).toEqual(["u2", "a2", "u3", "a3"]);
+  });
+
+  it("ignores a summary that is not on the current path", () => {
+    const result = applyContextSummary(conversation, {
+      text: "Summary",
+      lastMessageId: "edited-away",
+    });
+
+    expect(result.summary).toBeUndefined();
+    expect(result.messages).toBe(conversation);
+  });
+});
+
+describe("splitForCompaction", () => {
+  it("keeps recent turns within budget, starting at a user message", () => {
+    const { older, recent } = splitForCompaction(conversation, 300);
+
+    expect(ids(older)).toEqual(["u1", "a1"]);
+    expect(ids(recent)).toEqual(["u2", "a2", "u3", "a3"]);
+  });
+
+  it("always keeps the latest exchange", () => {
+    const { older, recent } = splitForCompaction(conversation, 0);
+
+    expect(ids(older)).toEqual(["u1", "a1", "u2", "a2"]);
+    expect(ids(recent)).toEqual(["u3", "a3"]);
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildCustomModel,
+  parseCustomModelId,
+  toCustomModelId,
+} from "@/lib/custom-models";
+
+describe("parseCustomModelId", () => {
+  it("keeps colons inside the model id", () => {
+    expect(parseCustomModelId(toCustomModelId("abc", "llama3.1:8b"))).toEqual({
+      endpointId: "abc",
+      modelId: "llama3.1:8b",
+    });
+  });
+
+  it("rejects built-in and malformed ids", () => {
+    expect(parseCustomModelId("gpt-5")).toBeNull();
+    expect(parseCustomModelId("custom:abc")).toBeNull();
+    expect(parseCustomModelId("custom:abc:")).toBeNull();
+  });
+});
+
+describe("buildCustomModel", () => {
+  it("maps declared capabilities to model features", () => {
+    const model = buildCustomModel(
+      { _id: "abc", name: "Home Ollama" },
+      {
+        modelId: "qwen3:14b",
+        toolCalling: true,
+        vision: false,
+        reasoning: true,
+      }
+    );
+
+    expect(model.id).toBe("custom:abc:qwen3:14b");
+    expect(model.name).toBe("qwen3:14b");
+    expect(model.skipRateLimit).toBe(true);
+    expect(model.features.map((feature) => feature.id)).toEqual([
+      "tool-calling",
+      "reasoning",
+    ]);
+  });
+});
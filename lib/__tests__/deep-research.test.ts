@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import {
+  dedupeSources,
+  formatResearchSources,
+  normalizeSourceUrl,
+} from "@/lib/deep-research";
+
+describe("normalizeSourceUrl", () => {
+  it("ignores protocol, www, hash, tracking parameters and trailing slashes", () => {
+    expect(
+      normalizeSourceUrl(
+        "https://www.Example.com/post/?utm_source=news&id=2#section"
+      )
+    ).toBe("example.com/post?id=2");
+    expect(normalizeSourceUrl("http://example.com/post")).toBe(
+      "example.com/post"
+    );
+  });
+
+  it("keeps different pages apart", () => {
+    expect(normalizeSourceUrl("https://example.com/a")).not.toBe(
+      normalizeSourceUrl("https://example.com/b")
+    );
+    expect(normalizeSourceUrl("https://example.com/?page=1")).not.toBe(
+      normalizeSourceUrl("https://example.com/?page=2")
+    );
+  });
+});
+
+describe("dedupeSources", () => {
+  it("drops sources seen in this or an earlier round", () => {
+    const seen = new Set<string>();
+    const first = dedupeSources(
+      [
+        { url: "https://example.com/a" },
+        { url: "https://www.example.com/a/" },
+        { url: "" },
+      ],
+      seen
+    );
+    expect(first).toEqual([{ url: "https://example.com/a" }]);
+
+    const second = dedupeSources(
+      [{ url: "http://example.com/a" }, { url: "https://example.com/b" }],
+      seen
+    );
+    expect(second).toEqual([{ url: "https://example.com/b" }]);
+  });
+});
+
+describe("formatResearchSources", () => {
+  it("numbers sources for citation", () => {
+    const text = formatResearchSources([
+      { index: 1, url: "https://a.com", title: "A", content: "Alpha" },
+      { index: 2, url: "https://b.com", title: "B", content: "Beta" },
+    ]);
+    expect(text).toContain("[1] A\nURL: https://a.com\nAlpha");
+    expect(text).toContain("[2] B\nURL: https://b.com\nBeta");
+  });
+
+  it("says when nothing was found", () => {
+    expect(formatResearchSources([])).toBe("No sources were found.");
+  });
+});
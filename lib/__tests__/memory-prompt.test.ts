@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildSystemPrompt,
+  MEMORY_PROMPT_INSTRUCTIONS,
+} from "@/lib/prompt_config";
+
+const buildWithMemories = (memories?: { _id: string; content: string }[]) =>
+  buildSystemPrompt(
+    null,
+    "Base prompt",
+    false,
+    false,
+    undefined,
+    undefined,
+    undefined,
+    undefined,
+    undefined,
+    memories
+  );
+
+describe("buildSystemPrompt memories", () => {
+  it("leaves memory out when it is off", () => {
+    expect(buildWithMemories()).not.toContain(MEMORY_PROMPT_INSTRUCTIONS);
+  });
+
+  it("lists memories with their ids so they can be forgotten", () => {
+    const prompt = buildWithMemories([
+      { _id: "m1", content: "Prefers metric units" },
+      { _id: "m2", content: "Works as a nurse" },
+    ]);
+
+    expect(prompt).toContain(MEMORY_PROMPT_INSTRUCTIONS);
+    expect(prompt).toContain(
+      "- [m1] Prefers metric units\n- [m2] Works as a nurse"
+    );
+  });
+
+  it("keeps the instructions when no memories are saved yet", () => {
+    const prompt = buildWithMemories([]);
+
+    expect(prompt).toContain(MEMORY_PROMPT_INSTRUCTIONS);
+    expect(prompt).not.toContain("What you remember about the user");
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, expect, it } from "vitest";
+import type { Id } from "@/convex/_generated/dataModel";
+import {
+  getParentKeys,
+  getSelectedPath,
+  getSubtreeIds,
+  ROOT_KEY,
+} from "@/convex/lib/message_tree";
+
+type TestMessage = {
+  _id: Id<"messages">;
+  role: "user" | "assistant" | "system";
+  parentMessageId?: Id<"messages">;
+  isRoot?: boolean;
+  compareGroupId?: string;
+  selectedChildId?: Id<"messages">;
+};
+
+const id = (value: string) => value as Id<"messages">;
+
+const message = (
+  value: string,
+  role: TestMessage["role"],
+  extra: Partial<TestMessage> = {}
+): TestMessage => ({ _id: id(value), role, ...extra });
+
+const pathIds = (messages: TestMessage[], selectedRootId?: string) =>
+  getSelectedPath(
+    messages,
+    selectedRootId ? id(selectedRootId) : undefined
+  ).path.map((entry) => entry.message._id);
+
+describe("getParentKeys", () => {
+  it("chains flat legacy messages to the message before them", () => {
+    const parents = getParentKeys([
+      message("u1", "user"),
+      message("a1", "assistant", { parentMessageId: id("u1") }),
+      message("u2", "user"),
+    ]);
+
+    expect(parents.get(id("u1"))).toBe(ROOT_KEY);
+    expect(parents.get(id("a1"))).toBe("u1");
+    expect(parents.get(id("u2"))).toBe("a1");
+  });
+
+  it("makes a regenerated legacy answer a sibling of the old one", () => {
+    const legacy = [
+      message("u1", "user"),
+      message("a1", "assistant"),
+      message("u2", "user"),
+      message("a2", "assistant"),
+    ];
+    // A reload saves the new version under the resolved parent of the answer
+    const parentOfAnswer = getParentKeys(legacy).get(id("a2"));
+    expect(parentOfAnswer).toBe("u2");
+
+    const regenerated = [
+      ...legacy,
+      message("a2b", "assistant", {
+        parentMessageId: id(parentOfAnswer as string),
+      }),
+    ];
+    const { path } = getSelectedPath(regenerated);
+    expect(path.map((entry) => entry.message._id)).toEqual([
+      "u1",
+      "a1",
+      "u2",
+      "a2b",
+    ]);
+    expect(path.at(-1)?.siblingIds).toEqual(["a2", "a2b"]);
+  });
+});
+
+describe("getSelectedPath", () => {
+  const tree = [
+    message("u1", "user"),
+    message("a1", "assistant", { parentMessageId: id("u1") }),
+    message("u2", "user", { parentMessageId: id("a1") }),
+    message("a2", "assistant", { parentMessageId: id("u2") }),
+    message("a1b", "assistant", { parentMessageId: id("u1") }),
+  ];
+
+  it("follows the newest version when nothing is selected", () => {
+    expect(pathIds(tree)).toEqual(["u1", "a1b"]);
+  });
+
+  it("follows the selected version and reports its siblings", () => {
+    const selected = tree.map((m) =>
+      m._id === "u1" ? { ...m, selectedChildId: id("a1") } : m
+    );
+    const { path, leafId } = getSelectedPath(selected);
+
+    expect(path.map((entry) => entry.message._id)).toEqual([
+      "u1",
+      "a1",
+      "u2",
+      "a2",
+    ]);
+    expect(path[1].siblingIds).toEqual(["a1", "a1b"]);
+    expect(path[0].siblingIds).toBeUndefined();
+    expect(leafId).toBe("a2");
+  });
+
+  it("switches between edited versions of the first message", () => {
+    const edited = [
+      ...tree,
+      message("u1b", "user", { isRoot: true }),
+      message("a3", "assistant", { parentMessageId: id("u1b") }),
+    ];
+
+    expect(pathIds(edited)).toEqual(["u1b", "a3"]);
+    expect(pathIds(edited, "u1")).toEqual(["u1", "a1b"]);
+  });
+
+  it("keeps every compared answer and continues from the winner", () => {
+    const compared = [
+      message("u1", "user", { compareGroupId: "g1", selectedChildId: id("b") }),
+      message("a", "assistant", { parentMessageId: id("u1") }),
+      message("b", "assistant", { parentMessageId: id("u1") }),
+      message("u2", "user", { parentMessageId: id("b") }),
+    ];
+    const { path, leafId } = getSelectedPath(compared);
+
+    expect(path.map((entry) => entry.message._id)).toEqual([
+      "u1",
+      "a",
+      "b",
+      "u2",
+    ]);
+    expect(leafId).toBe("u2");
+  });
+});
+
+describe("getSubtreeIds", () => {
+  it("collects a message and its descendants but not its siblings", () => {
+    const tree = [
+      message("u1", "user"),
+      message("a1", "assistant", { parentMessageId: id("u1") }),
+      message("u2", "user", { parentMessageId: id("a1") }),
+      message("a1b", "assistant", { parentMessageId: id("u1") }),
+    ];
+
+    expect(getSubtreeIds(tree, id("a1"))).toEqual(["a1", "u2"]);
+  });
+});
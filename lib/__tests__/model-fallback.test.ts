@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import {
+  planModelAttempts,
+  shouldMoveToNextAttempt,
+} from "@/lib/model-fallback";
+import { getBuiltInFallbackModelIds } from "@/lib/model-utils";
+import { detectProviderErrorFromObject } from "@/lib/provider-error-detector";
+
+const overloaded = () =>
+  detectProviderErrorFromObject(
+    Object.assign(new Error("Overloaded"), { statusCode: 529 }),
+    "anthropic"
+  );
+
+describe("planModelAttempts", () => {
+  const fallbacks = ["gpt-5", "gemini-2.5-pro"];
+
+  it("retries the same model on the built-in key before other models", () => {
+    expect(
+      planModelAttempts("claude-4-sonnet", fallbacks, {
+        useUserKey: true,
+        canSwitchKey: true,
+      })
+    ).toEqual([
+      { modelId: "claude-4-sonnet", useUserKey: true },
+      { modelId: "claude-4-sonnet", useUserKey: false },
+      { modelId: "gpt-5", useUserKey: false },
+      { modelId: "gemini-2.5-pro", useUserKey: false },
+    ]);
+  });
+
+  it("does not move on to other models after the user's key fails", () => {
+    expect(
+      planModelAttempts("claude-4-sonnet", fallbacks, {
+        useUserKey: true,
+        canSwitchKey: false,
+      })
+    ).toEqual([{ modelId: "claude-4-sonnet", useUserKey: true }]);
+    expect(
+      planModelAttempts("claude-4-sonnet", fallbacks, {
+        useUserKey: false,
+        canSwitchKey: true,
+      })
+    ).toEqual([
+      { modelId: "claude-4-sonnet", useUserKey: false },
+      { modelId: "claude-4-sonnet", useUserKey: true },
+    ]);
+  });
+});
+
+describe("shouldMoveToNextAttempt", () => {
+  const userKeyAttempt = { modelId: "claude-4-sonnet", useUserKey: true };
+  const builtInAttempt = { modelId: "claude-4-sonnet", useUserKey: false };
+  const otherModel = { modelId: "gpt-5", useUserKey: false };
+
+  it("retries the same model on the other key for any error", () => {
+    expect(shouldMoveToNextAttempt(userKeyAttempt, builtInAttempt, null)).toBe(
+      true
+    );
+  });
+
+  it("only switches models for transient and quota errors", () => {
+    expect(shouldMoveToNextAttempt(builtInAttempt, otherModel, null)).toBe(
+      false
+    );
+    expect(
+      shouldMoveToNextAttempt(builtInAttempt, otherModel, overloaded())
+    ).toBe(true);
+  });
+
+  it("stops at the last attempt", () => {
+    expect(
+      shouldMoveToNextAttempt(builtInAttempt, undefined, overloaded())
+    ).toBe(false);
+  });
+});
+
+describe("getBuiltInFallbackModelIds", () => {
+  it("follows the declared fallbacks of a model", () => {
+    expect(getBuiltInFallbackModelIds("gpt-5")).toEqual([
+      "claude-4-sonnet",
+      "gemini-2.5-pro",
+    ]);
+  });
+
+  it("leaves out models the user disabled", () => {
+    expect(getBuiltInFallbackModelIds("gpt-5", ["claude-4-sonnet"])).toEqual([
+      "gemini-2.5-pro",
+    ]);
+  });
+});
@@ -0,0 +1,153 @@
+import { describe, expect, it, vi } from "vitest";
+import { htmlToMarkdown, readPage } from "@/app/api/tools/page-reader";
+
+const PAGE_URL = "https://example.com/docs/page";
+
+// Helper function to stub the download of a page, cut off at maxBytes like
+// the real one
+function stubFetch(body: string | Uint8Array, contentType: string) {
+  const bytes =
+    typeof body === "string" ? new TextEncoder().encode(body) : body;
+  return vi.fn((url: string, { maxBytes }: { maxBytes: number }) =>
+    Promise.resolve({
+      url,
+      contentType,
+      bytes: bytes.subarray(0, maxBytes),
+      truncated: bytes.byteLength > maxBytes,
+    })
+  );
+}
+
+describe("htmlToMarkdown", () => {
+  it("converts headings, emphasis, links, lists, code and tables", () => {
+    const { markdown } = htmlToMarkdown(
+      `<body>
+        <h1>Guide</h1>
+        <p>Read the <a href="/api">API docs</a> <strong>first</strong>, then <em>try</em> <code>npm i</code>.</p>
+        <ul><li>One</li><li>Two</li></ul>
+        <ol><li>Step</li></ol>
+        <pre>const a = 1;
+  const b = 2;</pre>
+        <table><tr><th>Name</th><th>Value</th></tr><tr><td>a</td><td>1</td></tr></table>
+      </body>`,
+      PAGE_URL
+    );
+
+    expect(markdown).toBe(
+      [
+        "# Guide",
+        "",
+        "Read the [API docs](https://example.com/api) **first**, then *try* `npm i`.",
+        "",
+        "- One",
+        "- Two",
+        "",
+        "1. Step",
+        "",
+        "```",
+        "const a = 1;",
+        "  const b = 2;",
+        "```",
+        "",
+        "| Name | Value |",
+        "| --- | --- |",
+        "| a | 1 |",
+      ].join("\n")
+    );
+  });
+
+  it("drops scripts, styles and navigation and prefers the main content", () => {
+    const page = htmlToMarkdown(
+      `<html><head>
+        <title> Release notes </title>
+        <meta name="description" content="What changed">
+        <style>body { color: red; }</style>
+      </head><body>
+        <nav>Home | Docs</nav>
+        <header>Site header</header>
+        <p>Outside the article</p>
+        <article><p>Version 2 is out.</p><script>track()</script></article>
+        <footer>Copyright</footer>
+      </body></html>`,
+      PAGE_URL
+    );
+
+    expect(page.title).toBe("Release notes");
+    expect(page.description).toBe("What changed");
+    expect(page.markdown).toBe("Version 2 is out.");
+  });
+});
+
+describe("readPage", () => {
+  it("reads HTML pages as markdown", async () => {
+    const fetchBody = stubFetch(
+      "<title>Hello</title><main><p>Hi there</p></main>",
+      "text/html; charset=utf-8"
+    );
+
+    const page = await readPage(PAGE_URL, { fetchBody });
+
+    expect(page).toEqual({
+      url: PAGE_URL,
+      title: "Hello",
+      description: "",
+      markdown: "Hi there",
+      contentType: "html",
+      truncated: false,
+    });
+  });
+
+  it("reports HTML cut off at the size limit", async () => {
+    const fetchBody = stubFetch(`<p>${"a".repeat(100)}</p>`, "text/html");
+
+    const page = await readPage(PAGE_URL, { fetchBody, maxBytes: 20 });
+
+    expect(fetchBody).toHaveBeenCalledWith(PAGE_URL, {
+      timeoutMs: expect.any(Number),
+      maxBytes: 20,
+    });
+    expect(page.truncated).toBe(true);
+    expect(page.markdown).toBe("a".repeat(17));
+  });
+
+  it("returns plain text as is", async () => {
+    const page = await readPage(PAGE_URL, {
+      fetchBody: stubFetch("  line one\nline two  ", "text/plain"),
+    });
+
+    expect(page.contentType).toBe("text");
+    expect(page.markdown).toBe("line one\nline two");
+  });
+
+  it("transcribes PDFs and refuses ones past the size limit", async () => {
+    const pdf = new Uint8Array([37, 80, 68, 70, 45]); // %PDF-
+    const transcribePdf = vi.fn(() => Promise.resolve("# Report"));
+
+    const page = await readPage("https://example.com/files/report.pdf", {
+      fetchBody: stubFetch(pdf, "application/pdf"),
+      transcribePdf,
+    });
+    expect(page).toMatchObject({
+      title: "report.pdf",
+      markdown: "# Report",
+      contentType: "pdf",
+      truncated: false,
+    });
+    expect(transcribePdf).toHaveBeenCalledWith(pdf);
+
+    await expect(
+      readPage(PAGE_URL, {
+        fetchBody: stubFetch(pdf, "application/pdf"),
+        transcribePdf,
+        maxBytes: 3,
+      })
+    ).rejects.toThrow("too large");
+    expect(transcribePdf).toHaveBeenCalledTimes(1);
+  });
+
+  it("refuses content types it cannot read", async () => {
+    await expect(
+      readPage(PAGE_URL, { fetchBody: stubFetch("PK", "application/zip") })
+    ).rejects.toThrow("application/zip");
+  });
+});
@@ -0,0 +1,112 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  allowsPrivateCustomEndpoints,
+  getIPVersion,
+  isPrivateAddress,
+  isPrivateHostname,
+} from "@/lib/private-address";
+
+describe("isPrivateAddress", () => {
+  it("flags private, loopback and link-local IPv4 addresses", () => {
+    for (const ip of [
+      "127.0.0.1",
+      "10.1.2.3",
+      "172.16.0.1",
+      "172.31.255.255",
+      "192.168.1.1",
+      "169.254.169.254",
+      "100.64.0.1",
+      "0.0.0.0",
+    ]) {
+      expect(isPrivateAddress(ip)).toBe(true);
+    }
+  });
+
+  it("allows public IPv4 addresses", () => {
+    for (const ip of ["8.8.8.8", "1.1.1.1", "172.32.0.1", "93.184.216.34"]) {
+      expect(isPrivateAddress(ip)).toBe(false);
+    }
+  });
+
+  it("flags private IPv6 addresses, including embedded IPv4 ones", () => {
+    for (const ip of [
+      "::1",
+      "::",
+      "[::1]",
+      "fc00::1",
+      "fd12:3456::1",
+      "fe80::1",
+      "::ffff:127.0.0.1",
+      "::ffff:7f00:1",
+      "64:ff9b::10.0.0.1",
+    ]) {
+      expect(isPrivateAddress(ip)).toBe(true);
+    }
+  });
+
+  it("allows public IPv6 addresses", () => {
+    expect(isPrivateAddress("2606:4700:4700::1111")).toBe(false);
+    expect(isPrivateAddress("::ffff:8.8.8.8")).toBe(false);
+  });
+
+  it("treats anything that is not an IP address as private", () => {
+    expect(isPrivateAddress("example.com")).toBe(true);
+    expect(isPrivateAddress("")).toBe(true);
+  });
+});
+
+describe("getIPVersion", () => {
+  it("recognizes IPv4 and IPv6 addresses like net.isIP", () => {
+    expect(getIPVersion("127.0.0.1")).toBe(4);
+    expect(getIPVersion("::1")).toBe(6);
+    expect(getIPVersion("2606:4700:4700::1111")).toBe(6);
+    expect(getIPVersion("::ffff:10.0.0.1")).toBe(6);
+  });
+
+  it("returns 0 for anything else", () => {
+    for (const value of [
+      "example.com",
+      "256.0.0.1",
+      "1.2.3",
+      "1::2::3",
+      "fe80::1%eth0",
+      "",
+    ]) {
+      expect(getIPVersion(value)).toBe(0);
+    }
+  });
+});
+
+describe("isPrivateHostname", () => {
+  it("flags local names and private IP literals", () => {
+    for (const hostname of [
+      "localhost",
+      "api.localhost",
+      "127.0.0.1",
+      "169.254.169.254",
+      "[::1]",
+      "[fd00::1]",
+    ]) {
+      expect(isPrivateHostname(hostname)).toBe(true);
+    }
+  });
+
+  it("leaves public addresses and names that need a lookup", () => {
+    for (const hostname of ["api.openai.com", "8.8.8.8", "[2606:4700::1]"]) {
+      expect(isPrivateHostname(hostname)).toBe(false);
+    }
+  });
+});
+
+describe("allowsPrivateCustomEndpoints", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("refuses private endpoints unless the deployment opts in", () => {
+    vi.stubEnv("ALLOW_PRIVATE_CUSTOM_ENDPOINTS", "");
+    expect(allowsPrivateCustomEndpoints()).toBe(false);
+    vi.stubEnv("ALLOW_PRIVATE_CUSTOM_ENDPOINTS", "true");
+    expect(allowsPrivateCustomEndpoints()).toBe(true);
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import {
+  detectProviderErrorFromObject,
+  detectProviderErrorInText,
+  shouldTriggerModelFallback,
+} from "@/lib/provider-error-detector";
+
+describe("detectProviderErrorFromObject", () => {
+  it("detects Anthropic overloads from the status code", () => {
+    const error = Object.assign(new Error("Overloaded"), { statusCode: 529 });
+    const detected = detectProviderErrorFromObject(error, "anthropic");
+    expect(detected?.isOverloaded).toBe(true);
+  });
+
+  it("detects overloads from specific phrases", () => {
+    const detected = detectProviderErrorFromObject(
+      new Error("The model is currently at capacity"),
+      "openrouter"
+    );
+    expect(detected?.isOverloaded).toBe(true);
+  });
+
+  it("ignores 529 and capacity outside an overload message", () => {
+    const withRequestId = detectProviderErrorFromObject(
+      new Error("Invalid prompt (request id req_5291a)"),
+      "anthropic"
+    );
+    const contextCapacity = detectProviderErrorFromObject(
+      new Error("context capacity exceeded"),
+      "openai"
+    );
+    expect(withRequestId?.isOverloaded).toBeFalsy();
+    expect(contextCapacity?.isOverloaded).toBeFalsy();
+  });
+
+  it("detects 5xx server errors from the status code", () => {
+    const error = Object.assign(new Error("Upstream failed"), {
+      statusCode: 502,
+    });
+    const detected = detectProviderErrorFromObject(error, "openai");
+    expect(detected?.isServerError).toBe(true);
+  });
+
+  it("detects server errors from the message alone", () => {
+    const detected = detectProviderErrorFromObject(
+      new Error("503 Service Unavailable"),
+      "gemini"
+    );
+    expect(detected?.isServerError).toBe(true);
+  });
+
+  it("keeps provider-specific detection ahead of server errors", () => {
+    const detected = detectProviderErrorFromObject(
+      new Error("You exceeded your current quota"),
+      "openai"
+    );
+    expect(detected?.isQuotaExceeded).toBe(true);
+  });
+
+  it("returns null for unrelated errors", () => {
+    expect(
+      detectProviderErrorFromObject(new Error("Invalid prompt"), "openai")
+    ).toBeNull();
+  });
+});
+
+describe("detectProviderErrorInText", () => {
+  it("does not treat model output mentioning overloads as an error", () => {
+    expect(
+      detectProviderErrorInText(
+        "The server was overloaded and returned a 503.",
+        "anthropic"
+      )
+    ).toBeNull();
+  });
+});
+
+describe("shouldTriggerModelFallback", () => {
+  it("falls back on transient and quota errors", () => {
+    const overloaded = detectProviderErrorFromObject(
+      Object.assign(new Error("Overloaded"), { statusCode: 529 }),
+      "anthropic"
+    );
+    const quota = detectProviderErrorFromObject(
+      new Error("insufficient quota"),
+      "openai"
+    );
+    expect(overloaded && shouldTriggerModelFallback(overloaded)).toBe(true);
+    expect(quota && shouldTriggerModelFallback(quota)).toBe(true);
+  });
+
+  it("does not fall back on auth errors", () => {
+    const auth = detectProviderErrorFromObject(
+      new Error("Invalid API key"),
+      "openai"
+    );
+    expect(auth && shouldTriggerModelFallback(auth)).toBe(false);
+  });
+});
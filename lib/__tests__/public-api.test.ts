@@ -0,0 +1,101 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  ChatCompletionRequestSchema,
+  getBearerToken,
+  parseImageDataUrl,
+  toModelMessages,
+  toOpenAIFinishReason,
+  toOpenAIUsage,
+} from "@/lib/public-api";
+
+describe("getBearerToken", () => {
+  it("reads the token from the authorization header", () => {
+    const request = new Request("https://example.com", {
+      headers: { Authorization: "Bearer osk_abc123" },
+    });
+    expect(getBearerToken(request)).toBe("osk_abc123");
+  });
+
+  it("is null without a bearer header", () => {
+    expect(getBearerToken(new Request("https://example.com"))).toBeNull();
+  });
+});
+
+describe("toModelMessages", () => {
+  it("converts OpenAI messages, loading remote images as bytes", async () => {
+    const { messages } = ChatCompletionRequestSchema.parse({
+      model: "gpt-5",
+      messages: [
+        { role: "developer", content: "Be brief." },
+        {
+          role: "user",
+          content: [
+            { type: "text", text: "What is this?" },
+            { type: "image_url", image_url: { url: "https://x.test/a.png" } },
+          ],
+        },
+        { role: "assistant", content: null },
+      ],
+    });
+    const image = new Uint8Array([1, 2, 3]);
+    const loadImage = vi.fn(async () => ({
+      data: image,
+      mediaType: "image/png",
+    }));
+
+    expect(await toModelMessages(messages, loadImage)).toEqual([
+      { role: "system", content: "Be brief." },
+      {
+        role: "user",
+        content: [
+          { type: "text", text: "What is this?" },
+          { type: "image", image, mediaType: "image/png" },
+        ],
+      },
+      { role: "assistant", content: "" },
+    ]);
+    expect(loadImage).toHaveBeenCalledWith("https://x.test/a.png");
+  });
+
+  it("decodes data URLs without calling the loader", async () => {
+    const loadImage = vi.fn();
+    const [message] = await toModelMessages(
+      [
+        {
+          role: "user",
+          content: [
+            {
+              type: "image_url",
+              image_url: { url: "data:image/png;base64,AQID" },
+            },
+          ],
+        },
+      ],
+      loadImage
+    );
+
+    expect(message.content).toEqual([
+      {
+        type: "image",
+        image: new Uint8Array([1, 2, 3]),
+        mediaType: "image/png",
+      },
+    ]);
+    expect(loadImage).not.toHaveBeenCalled();
+  });
+
+  it("refuses data URLs that are not images", () => {
+    expect(parseImageDataUrl("https://x.test/a.png")).toBeNull();
+    expect(() => parseImageDataUrl("data:text/html,<p>hi</p>")).toThrow();
+  });
+});
+
+describe("OpenAI response mapping", () => {
+  it("maps finish reasons and usage", () => {
+    expect(toOpenAIFinishReason("content-filter")).toBe("content_filter");
+    expect(toOpenAIFinishReason("unknown")).toBe("stop");
+    expect(
+      toOpenAIUsage({ inputTokens: 10, outputTokens: 5, totalTokens: 20 })
+    ).toEqual({ prompt_tokens: 10, completion_tokens: 10, total_tokens: 20 });
+  });
+});
@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest";
+import { MODELS_MAP } from "@/lib/config/models";
+import { buildProviderOptions } from "@/lib/reasoning-options";
+
+describe("buildProviderOptions", () => {
+  it("maps reasoning effort to the model's provider", () => {
+    expect(
+      buildProviderOptions(MODELS_MAP["claude-4-sonnet-reasoning"], "medium")
+    ).toEqual({
+      anthropic: { thinking: { type: "enabled", budgetTokens: 6000 } },
+    });
+    expect(buildProviderOptions(MODELS_MAP["gpt-5"], "high")).toEqual({
+      openai: { reasoningEffort: "high", reasoningSummary: "detailed" },
+    });
+  });
+
+  it("tags OpenRouter calls with the user", () => {
+    expect(
+      buildProviderOptions(MODELS_MAP["glm-4.5"], "low", "user123")
+    ).toEqual({
+      openrouter: { reasoning: { effort: "low" }, user: "user_user123" },
+    });
+  });
+
+  it("leaves out reasoning without an effort", () => {
+    expect(buildProviderOptions(MODELS_MAP["gpt-5"])).toEqual({ openai: {} });
+  });
+});
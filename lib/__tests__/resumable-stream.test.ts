@@ -0,0 +1,97 @@
+import type { UIMessage } from "ai";
+import { describe, expect, it } from "vitest";
+import {
+  diffPartsToChunks,
+  isStaleStreamingMessage,
+  RESUMABLE_STREAM_STALE_MS,
+} from "@/lib/resumable-stream";
+
+describe("diffPartsToChunks", () => {
+  it("replays a partial message from scratch", () => {
+    const parts: UIMessage["parts"] = [
+      { type: "step-start" },
+      { type: "reasoning", text: "Thinking", state: "done" },
+      { type: "text", text: "Hello", state: "streaming" },
+    ];
+
+    expect(diffPartsToChunks([], parts)).toEqual([
+      { type: "start-step" },
+      { type: "reasoning-start", id: "reasoning-1" },
+      { type: "reasoning-delta", id: "reasoning-1", delta: "Thinking" },
+      { type: "reasoning-end", id: "reasoning-1" },
+      { type: "text-start", id: "text-2" },
+      { type: "text-delta", id: "text-2", delta: "Hello" },
+    ]);
+  });
+
+  it("only sends the new suffix of growing text", () => {
+    const previous: UIMessage["parts"] = [
+      { type: "text", text: "Hello", state: "streaming" },
+    ];
+    const next: UIMessage["parts"] = [
+      { type: "text", text: "Hello world", state: "done" },
+    ];
+
+    expect(diffPartsToChunks(previous, next)).toEqual([
+      { type: "text-delta", id: "text-0", delta: " world" },
+      { type: "text-end", id: "text-0" },
+    ]);
+  });
+
+  it("follows tool calls from input to output", () => {
+    const started = {
+      type: "tool-search",
+      toolCallId: "call-1",
+      state: "input-available",
+      input: { query: "weather" },
+    } as UIMessage["parts"][number];
+    const finished = {
+      ...started,
+      state: "output-available",
+      output: { results: [] },
+    } as UIMessage["parts"][number];
+
+    expect(diffPartsToChunks([], [started])).toEqual([
+      {
+        type: "tool-input-start",
+        toolCallId: "call-1",
+        toolName: "search",
+        dynamic: false,
+      },
+      {
+        type: "tool-input-available",
+        toolCallId: "call-1",
+        toolName: "search",
+        input: { query: "weather" },
+        dynamic: false,
+      },
+    ]);
+    expect(diffPartsToChunks([started], [finished])).toEqual([
+      {
+        type: "tool-output-available",
+        toolCallId: "call-1",
+        output: { results: [] },
+        dynamic: false,
+      },
+    ]);
+  });
+
+  it("sends nothing when the parts are unchanged", () => {
+    const parts: UIMessage["parts"] = [
+      { type: "text", text: "Done", state: "done" },
+      { type: "source-url", sourceId: "s1", url: "https://example.com" },
+    ];
+    expect(diffPartsToChunks(parts, parts)).toEqual([]);
+  });
+});
+
+describe("isStaleStreamingMessage", () => {
+  it("treats rows without recent updates as stale", () => {
+    const now = Date.now();
+    expect(isStaleStreamingMessage(undefined, now)).toBe(true);
+    expect(
+      isStaleStreamingMessage(now - RESUMABLE_STREAM_STALE_MS - 1, now)
+    ).toBe(true);
+    expect(isStaleStreamingMessage(now - 1000, now)).toBe(false);
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { chunkText, createLocalEmbedder } from "@/lib/retrieval";
+
+const dot = (a: number[], b: number[]) =>
+  a.reduce((sum, value, i) => sum + value * b[i], 0);
+
+describe("chunkText", () => {
+  it("returns no chunks for blank text", () => {
+    expect(chunkText("  \n\n ")).toEqual([]);
+  });
+
+  it("keeps short documents in a single chunk", () => {
+    expect(chunkText("First paragraph.\n\n\n\nSecond one.")).toEqual([
+      "First paragraph.\n\nSecond one.",
+    ]);
+  });
+
+  it("splits long text into bounded, overlapping chunks", () => {
+    const paragraphs = Array.from(
+      { length: 6 },
+      (_, i) => `Paragraph ${i} ${"word ".repeat(30).trim()}`
+    );
+    const chunks = chunkText(paragraphs.join("\n\n"), 300, 50);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(chunk.length).toBeLessThanOrEqual(300);
+    }
+    // The start of each chunk repeats the end of the previous one
+    expect(chunks[0].endsWith(chunks[1].split("\n\n")[0])).toBe(true);
+  });
+});
+
+describe("createLocalEmbedder", () => {
+  it("is deterministic and ranks related text higher", async () => {
+    const embedder = createLocalEmbedder(256);
+    const [query, related, unrelated] = await embedder.embed([
+      "quarterly revenue growth",
+      "Revenue growth in the third quarterly report was strong",
+      "The hiking trail follows the river to the waterfall",
+    ]);
+    const [again] = await embedder.embed(["quarterly revenue growth"]);
+
+    expect(query).toHaveLength(256);
+    expect(again).toEqual(query);
+    expect(dot(query, related)).toBeGreaterThan(dot(query, unrelated));
+  });
+});
@@ -0,0 +1,76 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  createMemorySearchCache,
+  getSearchCacheKey,
+  getSearchCacheStoreType,
+  normalizeSearchQuery,
+} from "@/lib/search-cache";
+
+describe("normalizeSearchQuery", () => {
+  it("ignores case and extra whitespace", () => {
+    expect(normalizeSearchQuery("  Latest   Next.js\tRelease ")).toBe(
+      "latest next.js release"
+    );
+  });
+});
+
+describe("getSearchCacheKey", () => {
+  it("matches the same search regardless of option order", () => {
+    expect(
+      getSearchCacheKey("Rust news", {
+        maxResults: 3,
+        includeDomains: ["a.com"],
+        category: undefined,
+      })
+    ).toBe(
+      getSearchCacheKey("rust  news", {
+        includeDomains: ["a.com"],
+        maxResults: 3,
+      })
+    );
+  });
+
+  it("keeps different options apart", () => {
+    expect(getSearchCacheKey("rust", { maxResults: 3 })).not.toBe(
+      getSearchCacheKey("rust", { maxResults: 5 })
+    );
+    expect(getSearchCacheKey("rust", { providers: ["exa", "brave"] })).not.toBe(
+      getSearchCacheKey("rust", { providers: ["brave", "exa"] })
+    );
+  });
+});
+
+describe("getSearchCacheStoreType", () => {
+  it("uses the configured store, else Redis when it is set up", () => {
+    expect(getSearchCacheStoreType("none", true)).toBe("none");
+    expect(getSearchCacheStoreType(undefined, true)).toBe("redis");
+    expect(getSearchCacheStoreType(undefined, false)).toBe("memory");
+    expect(getSearchCacheStoreType("unknown", false)).toBe("memory");
+  });
+});
+
+describe("createMemorySearchCache", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("expires entries after their TTL", async () => {
+    vi.useFakeTimers();
+    const cache = createMemorySearchCache();
+    await cache.set("key", ["result"], 60);
+    expect(await cache.get("key")).toEqual(["result"]);
+
+    vi.advanceTimersByTime(61_000);
+    expect(await cache.get("key")).toBeNull();
+  });
+
+  it("drops the oldest entries past the size limit", async () => {
+    const cache = createMemorySearchCache(2);
+    await cache.set("a", 1, 60);
+    await cache.set("b", 2, 60);
+    await cache.set("c", 3, 60);
+    expect(await cache.get("a")).toBeNull();
+    expect(await cache.get("b")).toBe(2);
+    expect(await cache.get("c")).toBe(3);
+  });
+});
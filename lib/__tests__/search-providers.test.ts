@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import {
+  getSearchProviderOrder,
+  normalizeSearchUrl,
+  validateSearchSettings,
+} from "@/lib/search-providers";
+
+describe("getSearchProviderOrder", () => {
+  it("starts with the default provider when the user set no order", () => {
+    expect(getSearchProviderOrder("searxng")).toEqual([
+      "searxng",
+      "brave",
+      "tavily",
+      "exa",
+      "custom",
+    ]);
+    expect(getSearchProviderOrder("brave", [])).toEqual([
+      "brave",
+      "tavily",
+      "exa",
+      "searxng",
+      "custom",
+    ]);
+  });
+
+  it("uses only the user's providers in their order", () => {
+    expect(getSearchProviderOrder("brave", ["custom", "searxng"])).toEqual([
+      "custom",
+      "searxng",
+    ]);
+  });
+});
+
+describe("normalizeSearchUrl", () => {
+  it("trims whitespace and trailing slashes", () => {
+    expect(normalizeSearchUrl(" http://localhost:8888/ ")).toBe(
+      "http://localhost:8888"
+    );
+  });
+
+  it("rejects other protocols and invalid urls", () => {
+    expect(normalizeSearchUrl("ftp://searx.example.com")).toBeUndefined();
+    expect(normalizeSearchUrl("searx.example.com")).toBeUndefined();
+  });
+});
+
+describe("validateSearchSettings", () => {
+  it("accepts an order with self-hosted urls", () => {
+    expect(
+      validateSearchSettings({
+        providers: ["searxng", "brave"],
+        searxngUrl: "https://searx.example.com",
+      })
+    ).toBeUndefined();
+  });
+
+  it("rejects duplicate providers and invalid urls", () => {
+    expect(
+      validateSearchSettings({ providers: ["brave", "brave"] })
+    ).toBeDefined();
+    expect(
+      validateSearchSettings({ providers: [], customEndpointUrl: "nope" })
+    ).toBeDefined();
+  });
+});
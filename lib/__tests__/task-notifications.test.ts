@@ -0,0 +1,93 @@
+import { createHmac } from "node:crypto";
+import { describe, expect, it } from "vitest";
+import {
+  MAX_NOTIFICATION_CHANNELS,
+  shouldDeliverNotification,
+  signWebhookPayload,
+  validateNotificationSettings,
+} from "@/lib/task-notifications";
+
+const success = { status: "success" as const, output: "Price dropped to $42" };
+const failure = { status: "failure" as const, output: "Rate limited" };
+
+describe("shouldDeliverNotification", () => {
+  it("delivers every run by default", () => {
+    expect(shouldDeliverNotification(undefined, success)).toBe(true);
+    expect(shouldDeliverNotification(undefined, failure)).toBe(true);
+  });
+
+  it("delivers only failed runs for the failure policy", () => {
+    const policy = { when: "failure" as const };
+    expect(shouldDeliverNotification(policy, success)).toBe(false);
+    expect(shouldDeliverNotification(policy, failure)).toBe(true);
+  });
+
+  it("matches successful output case-insensitively", () => {
+    const policy = { when: "match" as const, match: " price DROPPED " };
+    expect(shouldDeliverNotification(policy, success)).toBe(true);
+    expect(
+      shouldDeliverNotification(policy, { ...success, output: "No change" })
+    ).toBe(false);
+    expect(
+      shouldDeliverNotification(policy, { ...failure, output: "price dropped" })
+    ).toBe(false);
+    expect(shouldDeliverNotification({ when: "match" }, success)).toBe(false);
+  });
+});
+
+describe("validateNotificationSettings", () => {
+  it("accepts valid channels", () => {
+    expect(
+      validateNotificationSettings(
+        [
+          { type: "webhook", url: "http://localhost:4000" },
+          { type: "slack", channel: "#alerts" },
+          { type: "in_app" },
+        ],
+        { when: "always" }
+      )
+    ).toBeUndefined();
+  });
+
+  it("rejects invalid webhooks and Slack channels", () => {
+    expect(
+      validateNotificationSettings(
+        [{ type: "webhook", url: "ftp://example.com" }],
+        undefined
+      )
+    ).toBeDefined();
+    expect(
+      validateNotificationSettings(
+        [{ type: "slack", channel: "my alerts" }],
+        undefined
+      )
+    ).toBeDefined();
+  });
+
+  it("limits channels and requires match text", () => {
+    expect(
+      validateNotificationSettings(
+        Array.from({ length: MAX_NOTIFICATION_CHANNELS + 1 }, () => ({
+          type: "in_app" as const,
+        })),
+        undefined
+      )
+    ).toBeDefined();
+    expect(
+      validateNotificationSettings([], { when: "match", match: "" })
+    ).toBeDefined();
+  });
+});
+
+describe("signWebhookPayload", () => {
+  it("signs the timestamp and body with HMAC-SHA256", async () => {
+    const body = JSON.stringify({ event: "task.run.succeeded" });
+    const expected = createHmac("sha256", "s3cret")
+      .update(`1700000000.${body}`)
+      .digest("hex");
+
+    expect(await signWebhookPayload(body, "s3cret", "1700000000")).toBe(
+      `sha256=${expected}`
+    );
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import {
+  getRetryDelayMs,
+  hasRetriesLeft,
+  validateRetrySettings,
+} from "@/lib/task-retry";
+
+const MINUTE = 60 * 1000;
+
+describe("getRetryDelayMs", () => {
+  it("doubles the backoff after each failed attempt", () => {
+    const policy = { maxAttempts: 4, backoffMinutes: 5 };
+    expect(getRetryDelayMs(policy, 1)).toBe(5 * MINUTE);
+    expect(getRetryDelayMs(policy, 2)).toBe(10 * MINUTE);
+    expect(getRetryDelayMs(policy, 3)).toBe(20 * MINUTE);
+  });
+});
+
+describe("hasRetriesLeft", () => {
+  it("counts the first run as an attempt", () => {
+    const policy = { maxAttempts: 3, backoffMinutes: 5 };
+    expect(hasRetriesLeft(policy, 2)).toBe(true);
+    expect(hasRetriesLeft(policy, 3)).toBe(false);
+    expect(hasRetriesLeft({ ...policy, maxAttempts: 1 }, 1)).toBe(false);
+  });
+});
+
+describe("validateRetrySettings", () => {
+  it("keeps attempts, backoff and timeout in range", () => {
+    expect(
+      validateRetrySettings({ maxAttempts: 3, backoffMinutes: 5 }, 5)
+    ).toBeUndefined();
+    expect(
+      validateRetrySettings({ maxAttempts: 0, backoffMinutes: 5 }, undefined)
+    ).toBeDefined();
+    expect(
+      validateRetrySettings({ maxAttempts: 2, backoffMinutes: 0.5 }, undefined)
+    ).toBeDefined();
+    expect(validateRetrySettings(undefined, 15)).toBeDefined();
+  });
+});
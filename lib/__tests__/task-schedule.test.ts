@@ -0,0 +1,130 @@
+import { describe, expect, it } from "vitest";
+import {
+  describeSchedule,
+  getNextRunTime,
+  getNextRunTimes,
+  parseCronExpression,
+  type TaskSchedule,
+  validateSchedule,
+} from "@/lib/task-schedule";
+
+const NEW_YORK = "America/New_York";
+
+// Helper function to build a cron schedule in New York
+function cron(cronExpression: string): TaskSchedule {
+  return {
+    scheduleType: "cron",
+    scheduledTime: "00:00",
+    timezone: NEW_YORK,
+    cronExpression,
+  };
+}
+
+describe("getNextRunTime", () => {
+  it("runs cron schedules on weekdays only", () => {
+    // Friday, March 7th 2025 at 10:00 in New York
+    const after = Date.parse("2025-03-07T15:00:00Z");
+    const runs = getNextRunTimes(cron("0 9 * * 1-5"), 2, after);
+    expect(runs.map((run) => new Date(run).toISOString())).toEqual([
+      // Monday after the DST change, so 9:00 is 13:00 UTC
+      "2025-03-10T13:00:00.000Z",
+      "2025-03-11T13:00:00.000Z",
+    ]);
+  });
+
+  it("finds the first Monday of the month", () => {
+    const after = Date.parse("2025-03-04T00:00:00Z");
+    expect(new Date(getNextRunTime(cron("0 9 * * 1#1"), after))).toEqual(
+      new Date("2025-04-07T13:00:00Z")
+    );
+  });
+
+  it("moves times skipped by DST forward instead of dropping the day", () => {
+    const after = Date.parse("2025-03-08T12:00:00Z");
+    const schedule: TaskSchedule = {
+      scheduleType: "daily",
+      scheduledTime: "02:30",
+      timezone: NEW_YORK,
+    };
+    // 2:30 does not exist on March 9th, so the run happens at 3:30 EDT
+    expect(new Date(getNextRunTime(schedule, after))).toEqual(
+      new Date("2025-03-09T07:30:00Z")
+    );
+  });
+
+  it("clamps monthly days to short months", () => {
+    const after = Date.parse("2025-02-01T00:00:00Z");
+    const schedule: TaskSchedule = {
+      scheduleType: "monthly",
+      scheduledTime: "09:00",
+      timezone: "UTC",
+      monthlyRule: { type: "day", day: 31 },
+    };
+    expect(new Date(getNextRunTime(schedule, after))).toEqual(
+      new Date("2025-02-28T09:00:00Z")
+    );
+  });
+
+  it("keeps intervals anchored to their start time", () => {
+    const schedule: TaskSchedule = {
+      scheduleType: "interval",
+      scheduledTime: "09:00",
+      scheduledDate: "2025-01-01",
+      timezone: "UTC",
+      intervalMinutes: 240,
+    };
+    const after = Date.parse("2025-01-02T10:30:00Z");
+    expect(new Date(getNextRunTime(schedule, after))).toEqual(
+      new Date("2025-01-02T13:00:00Z")
+    );
+  });
+});
+
+describe("parseCronExpression", () => {
+  it("rejects malformed expressions", () => {
+    expect(() => parseCronExpression("0 9 * *")).toThrow();
+    expect(() => parseCronExpression("0 25 * * *")).toThrow();
+    expect(parseCronExpression("@daily").hours).toEqual([0]);
+  });
+});
+
+describe("validateSchedule", () => {
+  it("rejects schedules that run too often", () => {
+    expect(validateSchedule(cron("*/5 * * * *"))).toBe(
+      "Runs must be at least 30 minutes apart"
+    );
+    expect(validateSchedule(cron("0 */4 * * *"))).toBeUndefined();
+    expect(validateSchedule(cron("0 0 30 2 *"))).toBe(
+      "This cron expression never runs"
+    );
+  });
+
+  it("requires a start date for interval schedules", () => {
+    const schedule: TaskSchedule = {
+      scheduleType: "interval",
+      scheduledTime: "09:00",
+      timezone: "UTC",
+      intervalMinutes: 240,
+    };
+    expect(validateSchedule(schedule)).toBe(
+      "Interval schedules need a start date"
+    );
+    expect(
+      validateSchedule({ ...schedule, scheduledDate: "2025-01-01" })
+    ).toBeUndefined();
+  });
+});
+
+describe("describeSchedule", () => {
+  it("puts common cron expressions into words", () => {
+    expect(describeSchedule(cron("0 9 * * 1-5"))).toBe(
+      "At 9:00 AM on weekdays"
+    );
+    expect(describeSchedule(cron("0 9 * * 1#1"))).toBe(
+      "At 9:00 AM on the first Monday of the month"
+    );
+    expect(describeSchedule(cron("0 */4 * * *"))).toBe(
+      "Every 4 hours at :00 every day"
+    );
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import {
+  getStepToolkits,
+  MAX_TASK_STEPS,
+  matchesStepCondition,
+  validateTaskSteps,
+} from "@/lib/task-steps";
+
+describe("matchesStepCondition", () => {
+  it("always runs steps without a condition", () => {
+    expect(matchesStepCondition(undefined, "")).toBe(true);
+  });
+
+  it("matches the previous output ignoring case", () => {
+    const condition = { operator: "contains" as const, value: "Urgent" };
+    expect(matchesStepCondition(condition, "Two URGENT emails")).toBe(true);
+    expect(matchesStepCondition(condition, "Nothing new")).toBe(false);
+    expect(
+      matchesStepCondition(
+        { operator: "not_contains", value: "urgent" },
+        "Nothing new"
+      )
+    ).toBe(true);
+  });
+});
+
+describe("getStepToolkits", () => {
+  it("only narrows the connected toolkits", () => {
+    const connected = ["GMAIL", "NOTION"];
+    expect(getStepToolkits(undefined, connected)).toEqual(connected);
+    expect(getStepToolkits(["gmail", "SLACK"], connected)).toEqual(["GMAIL"]);
+  });
+});
+
+describe("validateTaskSteps", () => {
+  it("rejects empty prompts, empty conditions and too many steps", () => {
+    expect(validateTaskSteps([{ prompt: "Summarize" }])).toBeUndefined();
+    expect(validateTaskSteps([{ prompt: " " }])).toBe(
+      "Step 2 needs instructions"
+    );
+    expect(
+      validateTaskSteps([
+        { prompt: "Alert me", condition: { operator: "contains", value: "" } },
+      ])
+    ).toBe("Step 2 needs text for its condition");
+    const tooMany = Array.from({ length: MAX_TASK_STEPS + 1 }, () => ({
+      prompt: "Step",
+    }));
+    expect(validateTaskSteps(tooMany)).toBeDefined();
+  });
+});
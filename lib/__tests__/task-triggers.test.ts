@@ -0,0 +1,104 @@
+import { createHmac } from "node:crypto";
+import { describe, expect, it } from "vitest";
+import {
+  matchesTriggerEvent,
+  parseTriggerWebhook,
+  rememberTriggerEventId,
+  validateTaskTrigger,
+  verifyWebhookSignature,
+} from "@/lib/task-triggers";
+
+describe("validateTaskTrigger", () => {
+  it("requires the filters some events need", () => {
+    expect(validateTaskTrigger({ type: "gmail_new_message" })).toBeUndefined();
+    expect(validateTaskTrigger({ type: "slack_mention" })).toBeDefined();
+    expect(
+      validateTaskTrigger({ type: "github_new_issue", filter: "acme" })
+    ).toBe("Repositories must use the owner/repo format");
+    expect(
+      validateTaskTrigger({ type: "github_new_issue", filter: "acme/api" })
+    ).toBeUndefined();
+  });
+});
+
+describe("matchesTriggerEvent", () => {
+  it("only runs Slack tasks for messages that mention the member", () => {
+    const trigger = { type: "slack_mention" as const, filter: "<@U0123>" };
+    expect(matchesTriggerEvent(trigger, { text: "hey <@U0123> ping" })).toBe(
+      true
+    );
+    expect(matchesTriggerEvent(trigger, { text: "hey <@U9999>" })).toBe(false);
+    expect(
+      matchesTriggerEvent({ type: "gmail_new_message" }, { subject: "Hi" })
+    ).toBe(true);
+  });
+});
+
+describe("parseTriggerWebhook", () => {
+  it("reads the trigger from metadata or the older data fields", () => {
+    expect(
+      parseTriggerWebhook({
+        id: "evt_1",
+        metadata: { trigger_id: "ti_1" },
+        data: { title: "Bug" },
+      })
+    ).toEqual({
+      eventId: "evt_1",
+      composioTriggerId: "ti_1",
+      data: { title: "Bug" },
+    });
+    expect(
+      parseTriggerWebhook({ data: { trigger_nano_id: "ti_2" } }, "msg_1")
+    ).toMatchObject({ eventId: "msg_1", composioTriggerId: "ti_2" });
+    expect(parseTriggerWebhook({ data: { title: "Bug" } }, "msg_1")).toBeNull();
+  });
+});
+
+describe("verifyWebhookSignature", () => {
+  const secret = "whsec_test";
+  const now = 1_700_000_000_000;
+  const timestamp = String(now / 1000);
+  const body = '{"data":{}}';
+  const signature = `v1,${createHmac("sha256", secret)
+    .update(`msg_1.${timestamp}.${body}`)
+    .digest("base64")}`;
+
+  it("accepts signatures made with the secret", async () => {
+    await expect(
+      verifyWebhookSignature(
+        { body, webhookId: "msg_1", timestamp, signature },
+        secret,
+        now
+      )
+    ).resolves.toBe(true);
+  });
+
+  it("rejects tampered bodies and stale timestamps", async () => {
+    await expect(
+      verifyWebhookSignature(
+        { body: "{}", webhookId: "msg_1", timestamp, signature },
+        secret,
+        now
+      )
+    ).resolves.toBe(false);
+    await expect(
+      verifyWebhookSignature(
+        { body, webhookId: "msg_1", timestamp, signature },
+        secret,
+        now + 10 * 60 * 1000
+      )
+    ).resolves.toBe(false);
+  });
+});
+
+describe("rememberTriggerEventId", () => {
+  it("keeps the newest event ids", () => {
+    const ids = Array.from({ length: 50 }, (_, index) => `evt_${index}`);
+    const remembered = rememberTriggerEventId(ids, "evt_50");
+
+    expect(remembered).toHaveLength(50);
+    expect(remembered[0]).toBe("evt_1");
+    expect(remembered.at(-1)).toBe("evt_50");
+    expect(rememberTriggerEventId(undefined, "evt_0")).toEqual(["evt_0"]);
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import type { Doc, Id } from "@/convex/_generated/dataModel";
+import { groupChatsByProject } from "@/lib/chat-utils/time-grouping";
+
+const now = Date.now();
+
+const chat = (id: string, updatedAt: number, projectId?: string) =>
+  ({
+    _id: id as Id<"chats">,
+    _creationTime: updatedAt,
+    userId: "user" as Id<"users">,
+    updatedAt,
+    projectId: projectId as Id<"projects"> | undefined,
+  }) as Doc<"chats">;
+
+const project = (id: string, updatedAt: number) =>
+  ({
+    _id: id as Id<"projects">,
+    _creationTime: updatedAt,
+    userId: "user" as Id<"users">,
+    name: id,
+    createdAt: updatedAt,
+    updatedAt,
+  }) as Doc<"projects">;
+
+describe("groupChatsByProject", () => {
+  it("puts chats under their project and keeps the rest ungrouped", () => {
+    const { projectGroups, ungroupedChats } = groupChatsByProject(
+      [chat("c1", now, "p1"), chat("c2", now), chat("c3", now, "deleted")],
+      [project("p1", now)]
+    );
+
+    expect(projectGroups).toHaveLength(1);
+    expect(projectGroups[0].chatCount).toBe(1);
+    expect(projectGroups[0].groupedChats.Today?.[0]._id).toBe("c1");
+    expect(ungroupedChats.map((c) => c._id)).toEqual(["c2", "c3"]);
+  });
+
+  it("orders projects by their most recent activity", () => {
+    const day = 24 * 60 * 60 * 1000;
+    const { projectGroups } = groupChatsByProject(
+      [chat("c1", now, "old")],
+      [project("new", now - day), project("old", now - 10 * day)]
+    );
+
+    expect(projectGroups.map((group) => group.project._id)).toEqual([
+      "old",
+      "new",
+    ]);
+  });
+});
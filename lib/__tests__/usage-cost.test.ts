@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { computeCostUsd, formatCostUsd } from "@/lib/usage-cost";
+
+const pricing = { input: 2, output: 8, cachedInput: 0.5 };
+
+describe("computeCostUsd", () => {
+  it("is undefined for models without pricing", () => {
+    expect(computeCostUsd(undefined, { inputTokens: 1000 })).toBeUndefined();
+  });
+
+  it("bills cached input at the cached rate", () => {
+    const cost = computeCostUsd(pricing, {
+      inputTokens: 1_000_000,
+      cachedInputTokens: 400_000,
+      outputTokens: 100_000,
+      totalTokens: 1_100_000,
+    });
+
+    expect(cost).toBeCloseTo(0.6 * 2 + 0.4 * 0.5 + 0.1 * 8);
+  });
+
+  it("bills reasoning tokens reported outside the output count", () => {
+    const cost = computeCostUsd(pricing, {
+      inputTokens: 0,
+      outputTokens: 100_000,
+      totalTokens: 300_000,
+    });
+
+    expect(cost).toBeCloseTo(0.3 * 8);
+  });
+});
+
+describe("formatCostUsd", () => {
+  it("keeps sub-cent precision", () => {
+    expect(formatCostUsd(0)).toBe("$0.00");
+    expect(formatCostUsd(0.001_23)).toBe("$0.0012");
+    expect(formatCostUsd(12.345)).toBe("$12.35");
+  });
+});
@@ -0,0 +1,370 @@
+/**
+ * Envelope encryption for stored API keys and other user secrets. Each value
+ * is encrypted with its own data key, and the data key is wrapped by a
+ * versioned master key derived per user. Uses Web Crypto only, so Convex
+ * functions can use it.
+ */
+
+// Highest master key version looked up in the environment
+const MAX_KEY_VERSIONS = 20;
+
+// Define regex at top level for performance
+const HEX_REGEX = /^[0-9a-fA-F]+$/;
+
+// Convert string to ArrayBuffer
+function stringToArrayBuffer(str: string): ArrayBuffer {
+  const encoder = new TextEncoder();
+  const uint8Array = encoder.encode(str);
+  // Create a new ArrayBuffer and copy the data
+  const buffer = new ArrayBuffer(uint8Array.length);
+  const view = new Uint8Array(buffer);
+  view.set(uint8Array);
+  return buffer;
+}
+
+// Convert ArrayBuffer to string
+function arrayBufferToString(buffer: ArrayBuffer): string {
+  const decoder = new TextDecoder();
+  return decoder.decode(buffer);
+}
+
+// Convert ArrayBuffer to hex string
+function arrayBufferToHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+// Convert hex string to ArrayBuffer
+function hexToArrayBuffer(hex: string): ArrayBuffer {
+  // Input validation
+  if (typeof hex !== "string") {
+    throw new Error("Input must be a string");
+  }
+
+  if (hex.length === 0) {
+    throw new Error("Input string cannot be empty");
+  }
+
+  if (hex.length % 2 !== 0) {
+    throw new Error("Hex string must have an even length");
+  }
+
+  // Check if string contains only valid hexadecimal characters
+  if (!HEX_REGEX.test(hex)) {
+    throw new Error("Input string contains invalid hexadecimal characters");
+  }
+
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < hex.length; i += 2) {
+    bytes[i / 2] = Number.parseInt(hex.substring(i, i + 2), 16);
+  }
+  return bytes.buffer;
+}
+
+// A stored secret: the value encrypted with a data key, and the data key
+// wrapped by a master key. Legacy records only have `encryptedKey`.
+export type EncryptedSecret = {
+  encryptedKey: string;
+  encryptedDataKey?: string;
+  keyVersion?: number;
+};
+
+// Master secrets by version
+export type MasterSecrets = ReadonlyMap<number, string>;
+
+/**
+ * Read the master secrets from the environment. API_KEY_SECRET is version 1;
+ * rotate by adding API_KEY_SECRET_V2, API_KEY_SECRET_V3, ... and running
+ * migrateApiKeys. Retire an old secret only after the migration has finished.
+ */
+export function readMasterSecrets(
+  env: Record<string, string | undefined>
+): MasterSecrets {
+  const secrets = new Map<number, string>();
+  if (env.API_KEY_SECRET) {
+    secrets.set(1, env.API_KEY_SECRET);
+  }
+  for (let version = 2; version <= MAX_KEY_VERSIONS; version++) {
+    const secret = env[`API_KEY_SECRET_V${version}`];
+    if (secret) {
+      secrets.set(version, secret);
+    }
+  }
+  if (secrets.size === 0) {
+    throw new Error(
+      "CRITICAL SECURITY ERROR: API_KEY_SECRET environment variable is required but not set. API keys cannot be stored securely without encryption. Set API_KEY_SECRET to continue."
+    );
+  }
+  return secrets;
+}
+
+/**
+ * Get the version new secrets are wrapped with: the newest master key
+ */
+export function getCurrentKeyVersion(secrets: MasterSecrets): number {
+  return Math.max(...secrets.keys());
+}
+
+// Derive a user's key from a master secret
+async function getMasterKey(
+  secrets: MasterSecrets,
+  userId: string,
+  version: number
+): Promise<CryptoKey> {
+  const secret = secrets.get(version);
+  if (!secret) {
+    throw new Error(`Master key version ${version} is not configured`);
+  }
+
+  const keyMaterial = await crypto.subtle.importKey(
+    "raw",
+    stringToArrayBuffer(secret),
+    { name: "PBKDF2" },
+    false,
+    ["deriveKey"]
+  );
+
+  // Create a unique salt per user using a hash for additional security
+  const userIdHash = await crypto.subtle.digest(
+    "SHA-256",
+    stringToArrayBuffer(userId)
+  );
+  const userSalt = `convex-api-keys-${arrayBufferToHex(userIdHash)}`;
+
+  return crypto.subtle.deriveKey(
+    {
+      name: "PBKDF2",
+      salt: stringToArrayBuffer(userSalt), // User-specific salt for security
+      iterations: 100_000,
+      hash: "SHA-256",
+    },
+    keyMaterial,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+}
+
+// Import raw bytes as a data key
+function importDataKey(rawKey: ArrayBuffer): Promise<CryptoKey> {
+  return crypto.subtle.importKey("raw", rawKey, { name: "AES-GCM" }, false, [
+    "encrypt",
+    "decrypt",
+  ]);
+}
+
+// Encrypt data with AES-GCM into an "iv:ciphertext" hex payload
+async function sealPayload(key: CryptoKey, data: ArrayBuffer): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const encrypted = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    key,
+    data
+  );
+  return `${arrayBufferToHex(iv.buffer)}:${arrayBufferToHex(encrypted)}`;
+}
+
+// Decrypt an "iv:ciphertext" hex payload
+async function openPayload(
+  key: CryptoKey,
+  payload: string
+): Promise<ArrayBuffer> {
+  // Validate payload format before splitting
+  if (typeof payload !== "string") {
+    throw new Error("Payload must be a string");
+  }
+
+  if (payload.length === 0) {
+    throw new Error("Payload cannot be empty");
+  }
+
+  const colonCount = (payload.match(/:/g) || []).length;
+  if (colonCount !== 1) {
+    throw new Error(
+      "Invalid payload format: must contain exactly one colon separator between IV and data parts"
+    );
+  }
+
+  const [ivHex, dataHex] = payload.split(":");
+  const iv = hexToArrayBuffer(ivHex);
+  const data = hexToArrayBuffer(dataHex);
+
+  try {
+    return await crypto.subtle.decrypt({ name: "AES-GCM", iv }, key, data);
+  } catch {
+    // Silently handle decryption errors to prevent sensitive information leakage
+    throw new Error("Failed to decrypt API key");
+  }
+}
+
+// Wrap a data key with the newest master key
+async function wrapDataKey(
+  secrets: MasterSecrets,
+  rawKey: ArrayBuffer,
+  userId: string
+): Promise<Required<Omit<EncryptedSecret, "encryptedKey">>> {
+  const keyVersion = getCurrentKeyVersion(secrets);
+  const masterKey = await getMasterKey(secrets, userId, keyVersion);
+  return {
+    encryptedDataKey: await sealPayload(masterKey, rawKey),
+    keyVersion,
+  };
+}
+
+// Unwrap a record's data key with the master key it was wrapped by
+async function unwrapDataKey(
+  secrets: MasterSecrets,
+  secret: EncryptedSecret,
+  userId: string
+): Promise<ArrayBuffer | null> {
+  if (!secret.encryptedDataKey) {
+    return null;
+  }
+  const masterKey = await getMasterKey(secrets, userId, secret.keyVersion ?? 1);
+  return await openPayload(masterKey, secret.encryptedDataKey);
+}
+
+/**
+ * Encrypt a value for a user with a new data key
+ */
+export async function encryptSecret(
+  secrets: MasterSecrets,
+  text: string,
+  userId: string
+): Promise<EncryptedSecret> {
+  try {
+    const rawKey = crypto.getRandomValues(new Uint8Array(32)).buffer;
+    const dataKey = await importDataKey(rawKey);
+    return {
+      encryptedKey: await sealPayload(dataKey, stringToArrayBuffer(text)),
+      ...(await wrapDataKey(secrets, rawKey, userId)),
+    };
+  } catch {
+    // Prevent sensitive information leakage by throwing a generic error
+    throw new Error("Failed to encrypt API key");
+  }
+}
+
+/**
+ * Decrypt a stored secret, including legacy records
+ */
+export async function decryptSecret(
+  secrets: MasterSecrets,
+  secret: EncryptedSecret,
+  userId: string
+): Promise<string> {
+  const rawKey = await unwrapDataKey(secrets, secret, userId);
+  // Legacy records were encrypted with master key 1 directly
+  const key = rawKey
+    ? await importDataKey(rawKey)
+    : await getMasterKey(secrets, userId, 1);
+  return arrayBufferToString(await openPayload(key, secret.encryptedKey));
+}
+
+/**
+ * Re-wrap a secret with the newest master key. Only the data key changes,
+ * except for legacy records, which are encrypted from scratch.
+ */
+export async function rewrapSecret(
+  secrets: MasterSecrets,
+  secret: EncryptedSecret,
+  userId: string
+): Promise<EncryptedSecret> {
+  const rawKey = await unwrapDataKey(secrets, secret, userId);
+  if (!rawKey) {
+    return await encryptSecret(
+      secrets,
+      await decryptSecret(secrets, secret, userId),
+      userId
+    );
+  }
+  return {
+    encryptedKey: secret.encryptedKey,
+    ...(await wrapDataKey(secrets, rawKey, userId)),
+  };
+}
+
+/**
+ * Check whether a stored secret is not wrapped with the newest master key
+ */
+export function needsRewrap(
+  secrets: MasterSecrets,
+  secret: Partial<EncryptedSecret>
+): boolean {
+  return (
+    Boolean(secret.encryptedKey) &&
+    secret.keyVersion !== getCurrentKeyVersion(secrets)
+  );
+}
+
+// A record of a table that stores encrypted secrets
+type SecretRecord = Partial<EncryptedSecret> & { userId: string };
+
+/**
+ * Re-wrap the records of one page that are not on the newest master key.
+ * Returns each record to patch with its new secret.
+ */
+export async function rewrapRecords<Row extends SecretRecord>(
+  secrets: MasterSecrets,
+  records: Row[]
+): Promise<{ record: Row; secret: EncryptedSecret }[]> {
+  const updates: { record: Row; secret: EncryptedSecret }[] = [];
+  for (const record of records) {
+    if (!(record.encryptedKey && needsRewrap(secrets, record))) {
+      continue;
+    }
+    const secret = await rewrapSecret(
+      secrets,
+      {
+        encryptedKey: record.encryptedKey,
+        encryptedDataKey: record.encryptedDataKey,
+        keyVersion: record.keyVersion,
+      },
+      record.userId
+    );
+    updates.push({ record, secret });
+  }
+  return updates;
+}
+
+// Tables that store secrets encrypted with the master keys. Scheduled tasks
+// keep theirs in their webhook channels.
+export const SECRET_TABLES = [
+  "user_api_keys",
+  "custom_endpoints",
+  "user_search_keys",
+  "scheduled_tasks",
+] as const;
+
+export type SecretTable = (typeof SECRET_TABLES)[number];
+
+export type RewrapBatchResult = {
+  rewrapped: number;
+  continueCursor: string;
+  isDone: boolean;
+};
+
+/**
+ * Re-wrap every table page by page, starting each table from the first page.
+ * Returns the number of records re-wrapped.
+ */
+export async function rewrapAllTables(
+  rewrapBatch: (
+    table: SecretTable,
+    cursor: string | null
+  ) => Promise<RewrapBatchResult>
+): Promise<number> {
+  let rewrapped = 0;
+  for (const table of SECRET_TABLES) {
+    let cursor: string | null = null;
+    let isDone = false;
+    while (!isDone) {
+      const result = await rewrapBatch(table, cursor);
+      rewrapped += result.rewrapped;
+      cursor = result.continueCursor;
+      isDone = result.isDone;
+    }
+  }
+  return rewrapped;
+}
@@ -0,0 +1,91 @@
+/**
+ * Providers users can bring their own API key for, and how to reach their
+ * APIs directly. Kept free of SDK imports so Convex functions can use it.
+ */
+
+export const API_KEY_PROVIDERS = [
+  "anthropic",
+  "openai",
+  "gemini",
+  "openrouter",
+  "mistral",
+  "xai",
+  "deepseek",
+  "moonshot",
+  "zai",
+  "qwen",
+  "meta",
+] as const;
+
+export type ApiKeyProvider = (typeof API_KEY_PROVIDERS)[number];
+
+// Base URLs of providers that expose an OpenAI-compatible API
+export const OPENAI_COMPATIBLE_BASE_URLS: Partial<
+  Record<ApiKeyProvider, string>
+> = {
+  xai: "https://api.x.ai/v1",
+  deepseek: "https://api.deepseek.com/v1",
+  moonshot: "https://api.moonshot.ai/v1",
+  zai: "https://api.z.ai/api/paas/v4",
+  qwen: "https://dashscope-intl.aliyuncs.com/compatible-mode/v1",
+  meta: "https://api.llama.com/compat/v1",
+};
+
+export function isApiKeyProvider(provider: string): provider is ApiKeyProvider {
+  return (API_KEY_PROVIDERS as readonly string[]).includes(provider);
+}
+
+/**
+ * Build the cheapest request that proves a key works. Most providers list
+ * their models for free; Z.ai has no such endpoint, so it gets a one-token
+ * completion on its free model.
+ */
+export function buildKeyTestRequest(
+  provider: ApiKeyProvider,
+  key: string
+): { url: string; init: RequestInit } {
+  const bearer = { headers: { Authorization: `Bearer ${key}` } };
+
+  switch (provider) {
+    case "anthropic":
+      return {
+        url: "https://api.anthropic.com/v1/models?limit=1",
+        init: {
+          headers: { "x-api-key": key, "anthropic-version": "2023-06-01" },
+        },
+      };
+    case "openai":
+      return { url: "https://api.openai.com/v1/models", init: bearer };
+    case "gemini":
+      return {
+        url: "https://generativelanguage.googleapis.com/v1beta/models?pageSize=1",
+        init: { headers: { "x-goog-api-key": key } },
+      };
+    case "openrouter":
+      // The models list is public, so check the key itself
+      return { url: "https://openrouter.ai/api/v1/key", init: bearer };
+    case "mistral":
+      return { url: "https://api.mistral.ai/v1/models", init: bearer };
+    case "zai":
+      return {
+        url: `${OPENAI_COMPATIBLE_BASE_URLS.zai}/chat/completions`,
+        init: {
+          method: "POST",
+          headers: {
+            ...bearer.headers,
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({
+            model: "glm-4.5-flash",
+            messages: [{ role: "user", content: "ping" }],
+            max_tokens: 1,
+          }),
+        },
+      };
+    default:
+      return {
+        url: `${OPENAI_COMPATIBLE_BASE_URLS[provider]}/models`,
+        init: bearer,
+      };
+  }
+}
@@ -140,6 +140,59 @@ export function groupChatsByTime(chats: Doc<"chats">[]): GroupedChats {
   return groups;
 }
 
+export type ProjectChatGroup = {
+  project: Doc<"projects">;
+  chatCount: number;
+  groupedChats: GroupedChats;
+};
+
+/**
+ * Group chats by project, then by time period within each project.
+ * Projects with the most recent activity come first; chats without a
+ * (known) project are returned separately.
+ */
+export function groupChatsByProject(
+  chats: Doc<"chats">[],
+  projects: Doc<"projects">[]
+): { projectGroups: ProjectChatGroup[]; ungroupedChats: Doc<"chats">[] } {
+  const chatsByProject = new Map<string, Doc<"chats">[]>(
+    projects.map((project) => [project._id, []])
+  );
+  const ungroupedChats: Doc<"chats">[] = [];
+
+  for (const chat of chats) {
+    const projectChats = chat.projectId
+      ? chatsByProject.get(chat.projectId)
+      : undefined;
+    if (projectChats) {
+      projectChats.push(chat);
+    } else {
+      ungroupedChats.push(chat);
+    }
+  }
+
+  const getLastActivity = (project: Doc<"projects">) =>
+    Math.max(
+      project.updatedAt,
+      ...(chatsByProject.get(project._id) ?? []).map(
+        (chat) => chat.updatedAt || chat.createdAt || chat._creationTime || 0
+      )
+    );
+
+  const projectGroups = [...projects]
+    .sort((a, b) => getLastActivity(b) - getLastActivity(a))
+    .map((project) => {
+      const projectChats = chatsByProject.get(project._id) ?? [];
+      return {
+        project,
+        chatCount: projectChats.length,
+        groupedChats: groupChatsByTime(projectChats),
+      };
+    });
+
+  return { projectGroups, ungroupedChats };
+}
+
 /**
  * Get ordered group keys (for consistent rendering order)
  */
@@ -0,0 +1,190 @@
+/**
+ * Code Sandbox Utilities
+ * Config and helpers for the run_code tool, which runs Python or JavaScript
+ * in an isolated container with no network access
+ */
+
+import type { UIMessage } from "ai";
+
+export type CodeLanguage = "python" | "javascript";
+
+// An attached data file and its name in the sandbox's working directory
+export type DataFileInput = {
+  name: string;
+  url: string;
+  mediaType: string;
+};
+
+// "docker" runs code in a local container; anything else turns run_code off
+export type CodeSandboxRuntime = "docker" | "none";
+
+export const CODE_SANDBOX_CONFIG = {
+  runtime: (process.env.CODE_SANDBOX_RUNTIME === "docker"
+    ? "docker"
+    : "none") as CodeSandboxRuntime,
+  images: {
+    // Needs pandas, openpyxl and matplotlib for spreadsheet analysis
+    python: process.env.CODE_SANDBOX_PYTHON_IMAGE || "jupyter/scipy-notebook",
+    javascript: process.env.CODE_SANDBOX_NODE_IMAGE || "node:22-alpine",
+  } satisfies Record<CodeLanguage, string>,
+  timeoutMs: 60_000,
+  memory: "1g",
+  cpus: "1",
+  pids: 128,
+  maxOutputCharacters: 20_000, // Per stream, handed to the model
+  maxArtifacts: 5,
+  maxArtifactBytes: 5 * 1024 * 1024,
+};
+
+// Uploaded files the sandbox can read but model providers cannot
+export const DATA_FILE_MIME = [
+  "text/csv",
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+] as const;
+
+// Generated files returned to the chat as image artifacts
+export const ARTIFACT_MIME_BY_EXTENSION: Readonly<Record<string, string>> = {
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  webp: "image/webp",
+};
+
+const PATH_SEPARATOR_REGEX = /[\\/]/;
+const UNSAFE_FILE_NAME_CHARS_REGEX = /[^\w.-]+/g;
+const LEADING_DOTS_REGEX = /^\.+/;
+
+export function isDataFileMime(mime?: string): boolean {
+  return DATA_FILE_MIME.includes(mime as (typeof DATA_FILE_MIME)[number]);
+}
+
+/**
+ * Get the MIME type of a generated file, or null when it is not an image
+ */
+export function getArtifactMime(fileName: string): string | null {
+  const extension = fileName.split(".").pop()?.toLowerCase() ?? "";
+  return fileName.includes(".")
+    ? (ARTIFACT_MIME_BY_EXTENSION[extension] ?? null)
+    : null;
+}
+
+/**
+ * Turn an uploaded file name into a safe name inside the sandbox's working
+ * directory, numbering repeats so every file keeps its own name
+ */
+export function getSandboxFileName(
+  fileName: string,
+  taken: Set<string> = new Set()
+): string {
+  const base =
+    fileName
+      .split(PATH_SEPARATOR_REGEX)
+      .pop()
+      ?.replace(UNSAFE_FILE_NAME_CHARS_REGEX, "_")
+      .replace(LEADING_DOTS_REGEX, "") || "file";
+  const dot = base.lastIndexOf(".");
+  const stem = dot > 0 ? base.slice(0, dot) : base;
+  const extension = dot > 0 ? base.slice(dot) : "";
+
+  let name = base;
+  for (let copy = 2; taken.has(name); copy++) {
+    name = `${stem}-${copy}${extension}`;
+  }
+  taken.add(name);
+  return name;
+}
+
+/**
+ * Cut a stream of program output to a length, keeping its start
+ */
+export function truncateOutput(
+  output: string,
+  maxCharacters: number = CODE_SANDBOX_CONFIG.maxOutputCharacters
+): string {
+  if (output.length <= maxCharacters) {
+    return output;
+  }
+  return `${output.slice(0, maxCharacters)}\n... [output truncated]`;
+}
+
+/**
+ * Build the `docker run` arguments for one sandboxed run: no network, a
+ * read-only root filesystem, capped CPU, memory and processes, and only the
+ * run's working directory mounted
+ */
+export function buildDockerRunArgs({
+  name,
+  image,
+  workspace,
+  command,
+  user,
+}: {
+  name: string;
+  image: string;
+  workspace: string;
+  command: string[];
+  user?: string;
+}): string[] {
+  return [
+    "run",
+    "--rm",
+    "--name",
+    name,
+    "--network",
+    "none",
+    "--memory",
+    CODE_SANDBOX_CONFIG.memory,
+    "--memory-swap",
+    CODE_SANDBOX_CONFIG.memory,
+    "--cpus",
+    CODE_SANDBOX_CONFIG.cpus,
+    "--pids-limit",
+    String(CODE_SANDBOX_CONFIG.pids),
+    "--read-only",
+    "--tmpfs",
+    "/tmp:rw,size=64m",
+    "--cap-drop",
+    "ALL",
+    "--security-opt",
+    "no-new-privileges",
+    ...(user ? ["--user", user] : []),
+    "--env",
+    "HOME=/tmp",
+    "--env",
+    "MPLBACKEND=Agg",
+    "--env",
+    "MPLCONFIGDIR=/tmp",
+    "--volume",
+    `${workspace}:/workspace`,
+    "--workdir",
+    "/workspace",
+    image,
+    ...command,
+  ];
+}
+
+/**
+ * Collect the data files attached across a conversation, once per URL, with
+ * the names they get in the sandbox's working directory
+ */
+export function getDataFileInputs(messages: UIMessage[]): DataFileInput[] {
+  const taken = new Set<string>();
+  const files = new Map<string, DataFileInput>();
+  for (const message of messages) {
+    for (const part of message.parts) {
+      if (
+        part.type === "file" &&
+        isDataFileMime(part.mediaType) &&
+        !files.has(part.url)
+      ) {
+        files.set(part.url, {
+          name: getSandboxFileName(part.filename ?? "data", taken),
+          url: part.url,
+          mediaType: part.mediaType,
+        });
+      }
+    }
+  }
+  return Array.from(files.values());
+}
@@ -0,0 +1,112 @@
+/**
+ * Compare Mode Utilities
+ * Helpers for prompts that were fanned out to several models at once.
+ * Every answer is stored as a sibling assistant message of the same user
+ * message, and the picked winner is the one the thread continues from.
+ */
+
+type CompareThreadMessage = {
+  id: string;
+  role: string;
+  parentMessageId?: string;
+  compareGroupId?: string;
+  selectedChildId?: string;
+};
+
+export type ConversationItem<T> =
+  | { type: "message"; message: T; index: number }
+  | { type: "compare"; userMessage: T; answers: T[] };
+
+/**
+ * Helper function to normalize the models picked for a comparison:
+ * the primary model first, without duplicates, capped at the limit
+ */
+export function getCompareModelIds(
+  primaryModelId: string,
+  compareModelIds: string[],
+  limit: number
+): string[] {
+  return [...new Set([primaryModelId, ...compareModelIds])].slice(0, limit);
+}
+
+/**
+ * Returns the answer a compared prompt continues from: the picked winner,
+ * or the first answer while nothing has been picked
+ */
+export function getCompareWinnerId<T extends CompareThreadMessage>(
+  userMessage: T,
+  answers: T[]
+): string | undefined {
+  if (
+    userMessage.selectedChildId &&
+    answers.some((answer) => answer.id === userMessage.selectedChildId)
+  ) {
+    return userMessage.selectedChildId;
+  }
+  return answers[0]?.id;
+}
+
+/**
+ * Groups the answers of compared prompts so they can be rendered side by
+ * side. Other messages are passed through with their original index.
+ */
+export function groupCompareAnswers<T extends CompareThreadMessage>(
+  messages: T[]
+): ConversationItem<T>[] {
+  const answersByParent = new Map<string, T[]>();
+  for (const message of messages) {
+    if (message.role === "assistant" && message.parentMessageId) {
+      const answers = answersByParent.get(message.parentMessageId) ?? [];
+      answers.push(message);
+      answersByParent.set(message.parentMessageId, answers);
+    }
+  }
+
+  const items: ConversationItem<T>[] = [];
+  const groupedIds = new Set<string>();
+
+  messages.forEach((message, index) => {
+    if (groupedIds.has(message.id)) {
+      return;
+    }
+    if (message.role === "user" && message.compareGroupId) {
+      const answers = answersByParent.get(message.id) ?? [];
+      for (const answer of answers) {
+        groupedIds.add(answer.id);
+      }
+      items.push({ type: "compare", userMessage: message, answers });
+      return;
+    }
+    items.push({ type: "message", message, index });
+  });
+
+  return items;
+}
+
+/**
+ * Drops the answers that lost a comparison so the next request only
+ * carries the thread the user continues from
+ */
+export function getThreadMessages<T extends CompareThreadMessage>(
+  messages: T[]
+): T[] {
+  const winnerByParent = new Map<string, string | undefined>();
+  for (const item of groupCompareAnswers(messages)) {
+    if (item.type === "compare") {
+      winnerByParent.set(
+        item.userMessage.id,
+        getCompareWinnerId(item.userMessage, item.answers)
+      );
+    }
+  }
+
+  return messages.filter(
+    (message) =>
+      !(
+        message.role === "assistant" &&
+        message.parentMessageId &&
+        winnerByParent.has(message.parentMessageId) &&
+        winnerByParent.get(message.parentMessageId) !== message.id
+      )
+  );
+}
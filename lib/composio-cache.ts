@@ -1,8 +1,9 @@
 import { Redis } from "@upstash/redis";
 import type { Tool } from "ai";
 
-// Initialize Redis client using environment variables
-const redis = new Redis({
+// Initialize Redis client using environment variables (also used by the
+// search result cache)
+export const redis = new Redis({
   url: process.env.UPSTASH_REDIS_REST_URL || "",
   token: process.env.UPSTASH_REDIS_REST_TOKEN || "",
 });
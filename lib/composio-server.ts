@@ -12,6 +12,11 @@ import {
   validateComposioTools,
 } from "./composio-tool-adapter";
 import { getAuthConfigId } from "./composio-utils";
+import {
+  getComposioTriggerConfig,
+  TASK_TRIGGERS,
+  type TaskTrigger,
+} from "./task-triggers";
 import type { ConnectorType } from "./types";
 
 // Interface for cached tool's inputSchema structure
@@ -221,6 +226,46 @@ export const getComposioTools = async (
   return finalTools;
 };
 
+/**
+ * Register a task trigger with Composio, which then posts matching events
+ * to our webhook. Returns the Composio trigger id.
+ */
+export const createTaskTrigger = async (
+  userId: string,
+  trigger: TaskTrigger
+): Promise<string> => {
+  const { triggerId } = await composio.triggers.create(
+    userId,
+    TASK_TRIGGERS[trigger.type].composioSlug,
+    { triggerConfig: getComposioTriggerConfig(trigger) }
+  );
+  return triggerId;
+};
+
+/**
+ * Remove a task trigger from Composio
+ */
+export const deleteTaskTrigger = async (triggerId: string): Promise<void> => {
+  await composio.triggers.delete(triggerId);
+};
+
+/**
+ * Post a message to a Slack channel through the user's Slack connection
+ */
+export const sendSlackMessage = async (
+  userId: string,
+  channel: string,
+  text: string
+): Promise<void> => {
+  const result = await composio.tools.execute(
+    "SLACK_SENDS_A_MESSAGE_TO_A_SLACK_CHANNEL",
+    { userId, arguments: { channel, text } }
+  );
+  if (!result.successful) {
+    throw new Error(result.error ?? "Slack rejected the message");
+  }
+};
+
 /**
  * Validate environment setup (server-side only)
  */
@@ -1,15 +1,9 @@
+import type { ApiKeyProvider } from "../api-key-providers";
+import { getUserKeyProvider } from "../user-key-models";
 import { MODELS_RAW } from "./models";
 import type { Model } from "./schemas";
 
-// Define the provider type to match the API keys page requirements
-export type ApiKeyProvider =
-  | "openrouter"
-  | "openai"
-  | "anthropic"
-  | "mistral"
-  | "meta"
-  | "Qwen"
-  | "gemini";
+export type { ApiKeyProvider } from "../api-key-providers";
 
 // API key validation patterns
 export const API_KEY_PATTERNS = {
@@ -17,8 +11,34 @@ export const API_KEY_PATTERNS = {
     /^sk-(?:proj-|svcacct-|admin-)?[A-Za-z0-9_-]{20,}(?:T3BlbkFJ[A-Za-z0-9_-]{20,})?$/,
   anthropic: /^sk-ant-[a-zA-Z0-9_-]{8,}$/,
   gemini: /^AIza[a-zA-Z0-9_-]{35,}$/,
+  openrouter: /^sk-or-v1-[a-zA-Z0-9]{32,}$/,
+  mistral: /^[a-zA-Z0-9]{32}$/,
+  xai: /^xai-[a-zA-Z0-9]{32,}$/,
+  deepseek: /^sk-[a-zA-Z0-9]{32,}$/,
+  moonshot: /^sk-[a-zA-Z0-9]{32,}$/,
+  zai: /^[a-zA-Z0-9]{32}\.[a-zA-Z0-9]{16}$/,
+  qwen: /^sk-[a-zA-Z0-9]{32,}$/,
 } as const;
 
+// Error shown when a key does not match its provider's pattern
+const API_KEY_FORMAT_ERRORS: Record<keyof typeof API_KEY_PATTERNS, string> = {
+  openai:
+    "OpenAI API keys should start with 'sk-' followed by at least 20 characters",
+  anthropic:
+    "Anthropic API keys should start with 'sk-ant-' followed by at least 8 characters (letters, numbers, hyphens, underscores)",
+  gemini: "Google API keys should start with 'AIza' followed by 35+ characters",
+  openrouter:
+    "OpenRouter API keys should start with 'sk-or-v1-' followed by at least 32 characters",
+  mistral: "Mistral API keys should be 32 letters and numbers",
+  xai: "xAI API keys should start with 'xai-' followed by at least 32 characters",
+  deepseek:
+    "DeepSeek API keys should start with 'sk-' followed by at least 32 characters",
+  moonshot:
+    "Moonshot API keys should start with 'sk-' followed by at least 32 characters",
+  zai: "Z.ai API keys should be 32 characters, a dot, then 16 characters",
+  qwen: "DashScope API keys should start with 'sk-' followed by at least 32 characters",
+};
+
 // Provider configuration with metadata for API keys page
 const PROVIDER_CONFIGS = [
   {
@@ -39,6 +59,54 @@ const PROVIDER_CONFIGS = [
     placeholder: "AIza...",
     docs: "https://console.cloud.google.com/apis/credentials",
   },
+  {
+    id: "xai" as const,
+    title: "xAI API Key",
+    placeholder: "xai-...",
+    docs: "https://console.x.ai",
+  },
+  {
+    id: "mistral" as const,
+    title: "Mistral API Key",
+    placeholder: "Your Mistral key",
+    docs: "https://console.mistral.ai/api-keys",
+  },
+  {
+    id: "deepseek" as const,
+    title: "DeepSeek API Key",
+    placeholder: "sk-...",
+    docs: "https://platform.deepseek.com/api_keys",
+  },
+  {
+    id: "moonshot" as const,
+    title: "Moonshot API Key",
+    placeholder: "sk-...",
+    docs: "https://platform.moonshot.ai/console/api-keys",
+  },
+  {
+    id: "zai" as const,
+    title: "Z.ai API Key",
+    placeholder: "Your Z.ai key",
+    docs: "https://z.ai/manage-apikey/apikey-list",
+  },
+  {
+    id: "qwen" as const,
+    title: "Qwen (DashScope) API Key",
+    placeholder: "sk-...",
+    docs: "https://modelstudio.console.alibabacloud.com/?tab=playground#/api-key",
+  },
+  {
+    id: "meta" as const,
+    title: "Llama API Key",
+    placeholder: "LLM|...",
+    docs: "https://llama.developer.meta.com",
+  },
+  {
+    id: "openrouter" as const,
+    title: "OpenRouter API Key",
+    placeholder: "sk-or-v1-...",
+    docs: "https://openrouter.ai/settings/keys",
+  },
 ] as const;
 
 /**
@@ -62,7 +130,7 @@ export function getApiKeyProviders() {
   const providerGroups = new Map<string, string[]>();
 
   for (const model of apiKeyModels) {
-    const providerId = model.provider;
+    const providerId = getUserKeyProvider(model);
     if (!providerGroups.has(providerId)) {
       providerGroups.set(providerId, []);
     }
@@ -99,28 +167,11 @@ export function validateApiKey(
   }
 
   if (!pattern.test(key)) {
-    switch (provider) {
-      case "openai":
-        return {
-          isValid: false,
-          error:
-            "OpenAI API keys should start with 'sk-' followed by at least 20 characters",
-        };
-      case "anthropic":
-        return {
-          isValid: false,
-          error:
-            "Anthropic API keys should start with 'sk-ant-' followed by at least 8 characters (letters, numbers, hyphens, underscores)",
-        };
-      case "gemini":
-        return {
-          isValid: false,
-          error:
-            "Google API keys should start with 'AIza' followed by 35+ characters",
-        };
-      default:
-        return { isValid: false, error: "Invalid API key format" };
-    }
+    return {
+      isValid: false,
+      error:
+        API_KEY_FORMAT_ERRORS[provider as keyof typeof API_KEY_FORMAT_ERRORS],
+    };
   }
 
   return { isValid: true };
@@ -12,6 +12,9 @@ export const APP_BASE_URL =
 
 export const MODEL_DEFAULT = "gpt-5-nano";
 
+// Model background agents run on unless the task picks its own
+export const TASK_MODEL_DEFAULT = "moonshotai/kimi-k2-0905";
+
 export const RECOMMENDED_MODELS = [
   "gemini-2.5-flash-lite",
   "gemini-2.5-pro",
@@ -28,4 +31,16 @@ export const RECOMMENDED_MODELS = [
 
 export const MESSAGE_MAX_LENGTH = 4000;
 
+// Models a single prompt can be fanned out to in compare mode
+export const MAX_COMPARE_MODELS = 3;
+
+// Reference files a project can share with its chats
+export const MAX_PROJECT_ATTACHMENTS = 10;
+
+// Context window assumed for models that do not declare one
+export const DEFAULT_CONTEXT_WINDOW = 32_000;
+
+// Vector size of the uploaded document index; every embedder must produce it
+export const EMBEDDING_DIMENSIONS = 1536;
+
 export const GITHUB_REPO_URL = "https://github.com/ajanraj/OpenChat";
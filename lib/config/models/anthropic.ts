@@ -14,6 +14,8 @@ export const ANTHROPIC_MODELS = [
     provider: "anthropic",
     premium: true,
     usesPremiumCredits: true,
+    contextWindow: 200_000,
+    pricing: { input: 3, output: 15, cachedInput: 0.3 },
     description:
       "First model which excels at coding and tool calling.\nExcels at agentic coding, tool use, and complex reasoning tasks.",
     apiKeyUsage: { allowUserKey: true, userKeyOnly: false },
@@ -31,8 +33,11 @@ export const ANTHROPIC_MODELS = [
     provider: "anthropic",
     premium: true,
     usesPremiumCredits: true,
+    contextWindow: 200_000,
+    pricing: { input: 3, output: 15, cachedInput: 0.3 },
     description:
       "First hybrid reasoning model with visible thinking process.\nDelivers enhanced coding and math performance with step-by-step reasoning.",
+    fallbackModels: ["claude-4-sonnet", "gpt-4.1"],
     apiKeyUsage: { allowUserKey: true, userKeyOnly: false },
     features: [
       FILE_UPLOAD_FEATURE,
@@ -49,6 +54,8 @@ export const ANTHROPIC_MODELS = [
     provider: "anthropic",
     premium: true,
     usesPremiumCredits: true,
+    contextWindow: 200_000,
+    pricing: { input: 3, output: 15, cachedInput: 0.3 },
     description:
       "Claude 3.7 with thinking capabilities enabled.\nProvides deeper reasoning for complex analytical and coding tasks.",
     apiKeyUsage: { allowUserKey: true, userKeyOnly: false },
@@ -66,6 +73,8 @@ export const ANTHROPIC_MODELS = [
     provider: "anthropic",
     premium: false,
     usesPremiumCredits: false,
+    contextWindow: 200_000,
+    pricing: { input: 15, output: 75, cachedInput: 1.5 },
     description: `World's best coding model with 73% on SWE-bench.\nExcels at sustained performance on complex, long-running tasks.`,
     apiKeyUsage: { allowUserKey: true, userKeyOnly: true },
     features: [
@@ -82,7 +91,10 @@ export const ANTHROPIC_MODELS = [
     provider: "anthropic",
     premium: true,
     usesPremiumCredits: true,
+    contextWindow: 200_000,
+    pricing: { input: 3, output: 15, cachedInput: 0.3 },
     description: `Anthropic's flagship multimodal model which excels at coding.\nDelivers precise instruction following and enhanced problem-solving.`,
+    fallbackModels: ["gpt-5", "gemini-2.5-pro"],
     apiKeyUsage: { allowUserKey: true, userKeyOnly: false },
     features: [
       FILE_UPLOAD_FEATURE,
@@ -99,8 +111,11 @@ export const ANTHROPIC_MODELS = [
     provider: "anthropic",
     premium: true,
     usesPremiumCredits: true,
+    contextWindow: 200_000,
+    pricing: { input: 3, output: 15, cachedInput: 0.3 },
     description:
       "Claude 4 Sonnet with thinking capabilities.\nOptimal for complex reasoning, coding, and agentic workflows.",
+    fallbackModels: ["gpt-5", "gemini-2.5-pro"],
     apiKeyUsage: { allowUserKey: true, userKeyOnly: false },
     features: [
       FILE_UPLOAD_FEATURE,
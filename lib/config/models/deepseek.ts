@@ -14,8 +14,15 @@ export const DEEPSEEK_MODELS = [
     displayProvider: "deepseek",
     premium: false,
     usesPremiumCredits: false,
+    contextWindow: 128_000,
+    pricing: { input: 0.56, output: 1.68, cachedInput: 0.07 },
     description: `DeepSeek V3.1's non-thinking mode for fast, efficient responses.\nHybrid model with 128K context, enhanced agent capabilities, and improved performance.`,
-    apiKeyUsage: { allowUserKey: false, userKeyOnly: false },
+    apiKeyUsage: {
+      allowUserKey: true,
+      userKeyOnly: false,
+      provider: "deepseek",
+      modelId: "deepseek-chat",
+    },
     api_sdk: openrouter("deepseek/deepseek-chat-v3.1"),
     features: [TOOL_CALLING_FEATURE],
   },
@@ -27,8 +34,15 @@ export const DEEPSEEK_MODELS = [
     displayProvider: "deepseek",
     premium: true,
     usesPremiumCredits: false,
+    contextWindow: 128_000,
+    pricing: { input: 0.56, output: 1.68, cachedInput: 0.07 },
     description: `DeepSeek V3.1's thinking mode with deep chain-of-thought reasoning.\nOptimized for complex tasks, multi-step problem solving, and advanced agent capabilities.`,
-    apiKeyUsage: { allowUserKey: false, userKeyOnly: false },
+    apiKeyUsage: {
+      allowUserKey: true,
+      userKeyOnly: false,
+      provider: "deepseek",
+      modelId: "deepseek-reasoner",
+    },
     api_sdk: openrouter("deepseek/deepseek-chat-v3.1"),
     features: [TOOL_CALLING_FEATURE, REASONING_FEATURE],
   },
@@ -39,8 +53,15 @@ export const DEEPSEEK_MODELS = [
     displayProvider: "deepseek",
     premium: false,
     usesPremiumCredits: false,
+    contextWindow: 128_000,
+    pricing: { input: 0, output: 0 },
     description: `DeepSeek's experimental chat model for research exploration.\nProvides cost-effective access to DeepSeek capabilities.`,
-    apiKeyUsage: { allowUserKey: false, userKeyOnly: false },
+    apiKeyUsage: {
+      allowUserKey: true,
+      userKeyOnly: false,
+      provider: "deepseek",
+      modelId: "deepseek-chat",
+    },
     api_sdk: openrouter("deepseek/deepseek-chat-v3-0324:free"),
     features: [TOOL_CALLING_FEATURE],
   },
@@ -50,9 +71,15 @@ export const DEEPSEEK_MODELS = [
     provider: "deepseek",
     premium: false,
     usesPremiumCredits: false,
+    contextWindow: 128_000,
+    pricing: { input: 0.55, output: 2.19, cachedInput: 0.14 },
     description:
       "Reasoning model which rocked the world.\nExcels at mathematical reasoning and competitive programming.",
-    apiKeyUsage: { allowUserKey: false, userKeyOnly: false },
+    apiKeyUsage: {
+      allowUserKey: true,
+      userKeyOnly: false,
+      modelId: "deepseek-reasoner",
+    },
     features: [REASONING_FEATURE_BASIC],
     api_sdk: gateway("deepseek/deepseek-r1"),
   },
@@ -64,6 +91,8 @@ export const DEEPSEEK_MODELS = [
     displayProvider: "deepseek",
     premium: true,
     usesPremiumCredits: false,
+    contextWindow: 128_000,
+    pricing: { input: 0, output: 0 },
     description:
       "Llama-distilled reasoning model optimized for efficiency.\nCombines DeepSeek R1 capabilities with improved performance.",
     apiKeyUsage: { allowUserKey: false, userKeyOnly: false },
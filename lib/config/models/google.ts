@@ -16,6 +16,8 @@ export const GOOGLE_MODELS = [
     provider: "gemini",
     premium: false,
     usesPremiumCredits: false,
+    contextWindow: 1_048_576,
+    pricing: { input: 0.1, output: 0.4, cachedInput: 0.025 },
     description: `Google's fast multimodal model with native tool use.\nExcels at general tasks, web search, and real-time applications.`,
     apiKeyUsage: { allowUserKey: true, userKeyOnly: false },
     api_sdk: google("gemini-2.0-flash"),
@@ -32,6 +34,8 @@ export const GOOGLE_MODELS = [
     provider: "gemini",
     premium: false,
     usesPremiumCredits: false,
+    contextWindow: 1_048_576,
+    pricing: { input: 0.075, output: 0.3 },
     description:
       "Most cost-efficient Gemini model with fast responses.\nIdeal for high-volume, latency-sensitive applications.",
     apiKeyUsage: { allowUserKey: true, userKeyOnly: false },
@@ -49,6 +53,8 @@ export const GOOGLE_MODELS = [
     provider: "gemini",
     premium: false,
     usesPremiumCredits: false,
+    contextWindow: 1_048_576,
+    pricing: { input: 0.3, output: 2.5, cachedInput: 0.075 },
     description: `Google's flagship light model.\nExcels at agentic use cases and large-scale processing.`,
     apiKeyUsage: { allowUserKey: true, userKeyOnly: false },
     api_sdk: google("gemini-2.5-flash"),
@@ -66,6 +72,8 @@ export const GOOGLE_MODELS = [
     provider: "gemini",
     premium: true,
     usesPremiumCredits: false,
+    contextWindow: 1_048_576,
+    pricing: { input: 0.3, output: 2.5, cachedInput: 0.075 },
     description:
       "Gemini flagship light model with reasoning capabilities enabled.\nFeatures visible thought process for complex problem-solving with thinking.",
     apiKeyUsage: { allowUserKey: true, userKeyOnly: false },
@@ -83,6 +91,8 @@ export const GOOGLE_MODELS = [
     provider: "gemini",
     premium: false,
     usesPremiumCredits: false,
+    contextWindow: 1_048_576,
+    pricing: { input: 0.1, output: 0.4, cachedInput: 0.025 },
     description:
       "Most cost-efficient and fastest model with lowest latency.\nIdeal for high-volume classification and summarization tasks.",
     apiKeyUsage: { allowUserKey: true, userKeyOnly: false },
@@ -101,6 +111,8 @@ export const GOOGLE_MODELS = [
     provider: "gemini",
     premium: true,
     usesPremiumCredits: false,
+    contextWindow: 1_048_576,
+    pricing: { input: 0.1, output: 0.4, cachedInput: 0.025 },
     description:
       "Flash Lite with adjustable thinking budget for reasoning.\nCombines cost-efficiency with controllable thinking capabilities.",
     apiKeyUsage: { allowUserKey: true, userKeyOnly: false },
@@ -118,7 +130,10 @@ export const GOOGLE_MODELS = [
     provider: "gemini",
     premium: true,
     usesPremiumCredits: true,
+    contextWindow: 1_048_576,
+    pricing: { input: 1.25, output: 10, cachedInput: 0.31 },
     description: `Google's state-of-the-art model leading math and science benchmarks.\nExcels at creating web apps and agentic code applications.`,
+    fallbackModels: ["gpt-5", "claude-4-sonnet"],
     apiKeyUsage: { allowUserKey: true, userKeyOnly: false },
     features: [
       FILE_UPLOAD_FEATURE,
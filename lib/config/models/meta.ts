@@ -8,8 +8,14 @@ export const META_MODELS = [
     provider: "meta",
     premium: false,
     usesPremiumCredits: false,
+    contextWindow: 1_048_576,
+    pricing: { input: 0.15, output: 0.6 },
     description: `Meta's first natively multimodal model with 400B parameters.\nOffers industry-leading 10M token context window.`,
-    apiKeyUsage: { allowUserKey: false, userKeyOnly: false },
+    apiKeyUsage: {
+      allowUserKey: true,
+      userKeyOnly: false,
+      modelId: "Llama-4-Maverick-17B-128E-Instruct-FP8",
+    },
     features: [FILE_UPLOAD_FEATURE, TOOL_CALLING_FEATURE],
     api_sdk: gateway("meta/llama-4-maverick"),
   },
@@ -19,9 +25,15 @@ export const META_MODELS = [
     provider: "meta",
     premium: false,
     usesPremiumCredits: false,
+    contextWindow: 1_048_576,
+    pricing: { input: 0.08, output: 0.3 },
     description:
       "Efficient multimodal model fitting on single H100 GPU.\nBest-in-class performance with 17B active parameters.",
-    apiKeyUsage: { allowUserKey: false, userKeyOnly: false },
+    apiKeyUsage: {
+      allowUserKey: true,
+      userKeyOnly: false,
+      modelId: "Llama-4-Scout-17B-16E-Instruct-FP8",
+    },
     features: [FILE_UPLOAD_FEATURE, TOOL_CALLING_FEATURE],
     api_sdk: gateway("meta/llama-4-scout"),
   },
@@ -12,9 +12,11 @@ export const MISTRAL_MODELS = [
     provider: "mistral",
     premium: false,
     usesPremiumCredits: false,
+    contextWindow: 128_000,
+    pricing: { input: 2, output: 6 },
     description:
       "124B multimodal model leading on mathematical reasoning benchmarks.\nExcels at document analysis and complex visual comprehension.",
-    apiKeyUsage: { allowUserKey: false, userKeyOnly: false },
+    apiKeyUsage: { allowUserKey: true, userKeyOnly: false },
     features: [
       FILE_UPLOAD_FEATURE,
       PDF_PROCESSING_FEATURE,
@@ -28,8 +30,10 @@ export const MISTRAL_MODELS = [
     provider: "mistral",
     premium: false,
     usesPremiumCredits: false,
+    contextWindow: 128_000,
+    pricing: { input: 2, output: 6 },
     description: `Mistral's flagship text-focused model for general tasks.\nDelivers reliable performance across diverse applications.`,
-    apiKeyUsage: { allowUserKey: false, userKeyOnly: false },
+    apiKeyUsage: { allowUserKey: true, userKeyOnly: false },
     features: [TOOL_CALLING_FEATURE],
     api_sdk: mistral("mistral-large-latest"),
   },
@@ -10,8 +10,15 @@ export const MOONSHOT_MODELS = [
     displayProvider: "moonshotai",
     premium: true,
     usesPremiumCredits: false,
+    contextWindow: 131_072,
+    pricing: { input: 0.6, output: 2.5, cachedInput: 0.15 },
     description: `Moonshot AI's Kimi K2 model.\nOffers agentic tools capabilities for various tasks.`,
-    apiKeyUsage: { allowUserKey: false, userKeyOnly: false },
+    apiKeyUsage: {
+      allowUserKey: true,
+      userKeyOnly: false,
+      provider: "moonshot",
+      modelId: "kimi-k2-0711-preview",
+    },
     features: [TOOL_CALLING_FEATURE],
     api_sdk: openrouter("moonshotai/kimi-k2:nitro"),
   },
@@ -23,9 +30,16 @@ export const MOONSHOT_MODELS = [
     displayProvider: "moonshotai",
     premium: false,
     usesPremiumCredits: false,
+    contextWindow: 262_144,
+    pricing: { input: 0.6, output: 2.5, cachedInput: 0.15 },
     description:
       "Kimi K2 0905 is the September update of Kimi K2 model. \nThis update improves agentic coding with higher accuracy and frontend coding with more aesthetic and functional outputs for web, 3D, and related tasks.",
-    apiKeyUsage: { allowUserKey: false, userKeyOnly: false },
+    apiKeyUsage: {
+      allowUserKey: true,
+      userKeyOnly: false,
+      provider: "moonshot",
+      modelId: "kimi-k2-0905-preview",
+    },
     features: [TOOL_CALLING_FEATURE],
     api_sdk: openrouter("moonshotai/kimi-k2-0905:nitro"),
   },
@@ -17,7 +17,10 @@ export const OPENAI_MODELS = [
     provider: "openai",
     premium: true,
     usesPremiumCredits: true,
+    contextWindow: 272_000,
+    pricing: { input: 1.25, output: 10, cachedInput: 0.125 },
     description: `OpenAI's flagship reasoning-first model. \nUnifies logic and multi-step problem-solving with enhanced coding and intelligence capabilities.`,
+    fallbackModels: ["claude-4-sonnet", "gemini-2.5-pro"],
     apiKeyUsage: { allowUserKey: true, userKeyOnly: false },
     features: [
       FILE_UPLOAD_FEATURE,
@@ -33,6 +36,8 @@ export const OPENAI_MODELS = [
     provider: "openai",
     premium: false,
     usesPremiumCredits: false,
+    contextWindow: 272_000,
+    pricing: { input: 0.25, output: 2, cachedInput: 0.025 },
     description: `OpenAI's lightweight cost-effective model. \nOptimized for quick tasks and budget-conscious applications while maintaining core functionality.`,
     apiKeyUsage: { allowUserKey: false, userKeyOnly: false },
     features: [
@@ -49,6 +54,8 @@ export const OPENAI_MODELS = [
     provider: "openai",
     premium: false,
     usesPremiumCredits: false,
+    contextWindow: 272_000,
+    pricing: { input: 0.05, output: 0.4, cachedInput: 0.005 },
     description: `OpenAI's ultra-fast speed-optimized model. \nBuilt for instant responses and low-latency applications, perfect for mobile and real-time use.`,
     apiKeyUsage: { allowUserKey: false, userKeyOnly: false },
     features: [
@@ -65,6 +72,8 @@ export const OPENAI_MODELS = [
     provider: "openai",
     premium: false,
     usesPremiumCredits: false,
+    contextWindow: 131_072,
+    pricing: { input: 0.05, output: 0.2 },
     description: `OpenAI's new smaller 20B open-source model. \nAround o3-mini performance, with super fast inference by Groq.`,
     apiKeyUsage: { allowUserKey: false, userKeyOnly: false },
     features: [REASONING_FEATURE, TOOL_CALLING_FEATURE],
@@ -77,6 +86,8 @@ export const OPENAI_MODELS = [
     displayProvider: "openai",
     premium: false,
     usesPremiumCredits: false,
+    contextWindow: 131_072,
+    pricing: { input: 0.15, output: 0.6 },
     description: `OpenAI's new larger 120B open-source model. \nNearly as good as o4-mini, with super fast inference by Groq.`,
     apiKeyUsage: { allowUserKey: false, userKeyOnly: false },
     features: [REASONING_FEATURE, TOOL_CALLING_FEATURE],
@@ -88,6 +99,8 @@ export const OPENAI_MODELS = [
     provider: "openai",
     premium: true,
     usesPremiumCredits: false,
+    contextWindow: 128_000,
+    pricing: { input: 2.5, output: 10, cachedInput: 1.25 },
     description: `OpenAI's flagship multimodal model.\nProcesses text, images, and audio with fast, versatile performance.`,
     apiKeyUsage: { allowUserKey: true, userKeyOnly: false },
     features: [
@@ -104,6 +117,8 @@ export const OPENAI_MODELS = [
     provider: "openai",
     premium: false,
     usesPremiumCredits: false,
+    contextWindow: 128_000,
+    pricing: { input: 0.15, output: 0.6, cachedInput: 0.075 },
     description:
       "Cost-efficient model with fast inference speed.\nPerfect for high-volume tasks and quick interactions.",
     apiKeyUsage: { allowUserKey: false, userKeyOnly: false },
@@ -121,6 +136,8 @@ export const OPENAI_MODELS = [
     provider: "openai",
     premium: true,
     usesPremiumCredits: false,
+    contextWindow: 200_000,
+    pricing: { input: 1.1, output: 4.4, cachedInput: 0.275 },
     description:
       "Reasoning-focused model with 93% on AIME 2025.\nExcels at math, coding, and visual tasks at lower cost.",
     apiKeyUsage: { allowUserKey: false, userKeyOnly: false },
@@ -138,6 +155,8 @@ export const OPENAI_MODELS = [
     provider: "openai",
     premium: true,
     usesPremiumCredits: true,
+    contextWindow: 200_000,
+    pricing: { input: 2, output: 8, cachedInput: 0.5 },
     description:
       "Advanced reasoning model with 20% fewer errors than o1.\nExcels at programming, consulting, and creative tasks.",
     apiKeyUsage: { allowUserKey: true, userKeyOnly: false },
@@ -155,6 +174,8 @@ export const OPENAI_MODELS = [
     provider: "openai",
     premium: false,
     usesPremiumCredits: false,
+    contextWindow: 200_000,
+    pricing: { input: 20, output: 80 },
     description:
       "Premium reasoning model with enhanced capabilities.\nDesigned for research-level and professional applications.",
     apiKeyUsage: { allowUserKey: true, userKeyOnly: true },
@@ -184,6 +205,8 @@ export const OPENAI_MODELS = [
     provider: "openai",
     premium: true,
     usesPremiumCredits: false,
+    contextWindow: 1_047_576,
+    pricing: { input: 2, output: 8, cachedInput: 0.5 },
     description:
       "Enhanced GPT-4 with 55% on SWE-bench Verified.\nDelivers major improvements in coding and instruction following.",
     features: [
@@ -200,6 +223,8 @@ export const OPENAI_MODELS = [
     provider: "openai",
     premium: false,
     usesPremiumCredits: false,
+    contextWindow: 1_047_576,
+    pricing: { input: 0.4, output: 1.6, cachedInput: 0.1 },
     description:
       "Efficient model balancing speed and capability.\nIdeal for everyday conversations and quick tasks.",
     features: [
@@ -216,6 +241,8 @@ export const OPENAI_MODELS = [
     provider: "openai",
     premium: false,
     usesPremiumCredits: false,
+    contextWindow: 1_047_576,
+    pricing: { input: 0.1, output: 0.4, cachedInput: 0.025 },
     description:
       "Ultra-lightweight model with minimal latency.\nOptimized for resource-constrained environments.",
     features: [
@@ -232,6 +259,8 @@ export const OPENAI_MODELS = [
     provider: "openai",
     premium: false,
     usesPremiumCredits: false,
+    contextWindow: 128_000,
+    pricing: { input: 75, output: 150, cachedInput: 37.5 },
     description:
       "General-purpose model with enhanced understanding.\nOffers better nuance, creativity, and aesthetic intuition.",
     apiKeyUsage: { allowUserKey: true, userKeyOnly: true },
@@ -9,8 +9,15 @@ export const QWEN_MODELS = [
     displayProvider: "qwen",
     premium: false,
     usesPremiumCredits: false,
+    contextWindow: 262_144,
+    pricing: { input: 0.4, output: 1.6 },
     description: `Qwen's Best Coder model.\nOffers agentic tools capabilities for various coding tasks.`,
-    apiKeyUsage: { allowUserKey: false, userKeyOnly: false },
+    apiKeyUsage: {
+      allowUserKey: true,
+      userKeyOnly: false,
+      provider: "qwen",
+      modelId: "qwen3-coder-plus",
+    },
     features: [TOOL_CALLING_FEATURE],
     api_sdk: openrouter("qwen/qwen3-coder:nitro"),
   },
@@ -22,8 +29,15 @@ export const QWEN_MODELS = [
     displayProvider: "qwen",
     premium: true,
     usesPremiumCredits: false,
+    contextWindow: 262_144,
+    pricing: { input: 0.2, output: 2.4 },
     description: `Qwen's Best Thinking model.\nOffers agentic tools capabilities for various thinking tasks.`,
-    apiKeyUsage: { allowUserKey: false, userKeyOnly: false },
+    apiKeyUsage: {
+      allowUserKey: true,
+      userKeyOnly: false,
+      provider: "qwen",
+      modelId: "qwen3-235b-a22b-thinking-2507",
+    },
     features: [TOOL_CALLING_FEATURE, REASONING_FEATURE],
     api_sdk: openrouter("qwen/qwen3-235b-a22b-thinking-2507:nitro"),
   },
@@ -34,8 +48,15 @@ export const QWEN_MODELS = [
     displayProvider: "qwen",
     premium: false,
     usesPremiumCredits: false,
+    contextWindow: 262_144,
+    pricing: { input: 0.2, output: 0.6 },
     description: `Qwen's Best 235B model.\nOffers agentic tools capabilities for various tasks.`,
-    apiKeyUsage: { allowUserKey: false, userKeyOnly: false },
+    apiKeyUsage: {
+      allowUserKey: true,
+      userKeyOnly: false,
+      provider: "qwen",
+      modelId: "qwen3-235b-a22b-instruct-2507",
+    },
     features: [TOOL_CALLING_FEATURE],
     api_sdk: openrouter("qwen/qwen3-235b-a22b-2507:nitro"),
   },
@@ -18,9 +18,17 @@ export const XAI_MODELS = [
     displayProvider: "xai",
     premium: false,
     usesPremiumCredits: false,
+    contextWindow: 2_000_000,
+    pricing: { input: 0.2, output: 0.5, cachedInput: 0.05 },
     skipRateLimit: true,
     description:
       "Fast, cost-efficient version of Grok-4 with near-identical reasoning quality.\nSupports 2M token context, real-time X data, web search, and tool use.\nOptimized for speed and lower token usage while maintaining strong performance.",
+    apiKeyUsage: {
+      allowUserKey: true,
+      userKeyOnly: false,
+      provider: "xai",
+      modelId: "grok-4-fast-reasoning",
+    },
     api_sdk: openrouter("x-ai/grok-4-fast:free"),
     features: [
       FILE_UPLOAD_FEATURE,
@@ -36,9 +44,17 @@ export const XAI_MODELS = [
     displayProvider: "xai",
     premium: false,
     usesPremiumCredits: false,
+    contextWindow: 2_000_000,
+    pricing: { input: 0.2, output: 0.5, cachedInput: 0.05 },
     skipRateLimit: true,
     description:
       "Fast, cost-efficient version of Grok-4 with reasoning disabled to be extra fast.\nSupports 2M token context, real-time X data, web search, and tool use.\nOptimized for speed and lower token usage while maintaining strong performance.",
+    apiKeyUsage: {
+      allowUserKey: true,
+      userKeyOnly: false,
+      provider: "xai",
+      modelId: "grok-4-fast-non-reasoning",
+    },
     api_sdk: openrouter("x-ai/grok-4-fast:free"),
     features: [
       FILE_UPLOAD_FEATURE,
@@ -52,7 +68,10 @@ export const XAI_MODELS = [
     provider: "xai",
     premium: true,
     usesPremiumCredits: true,
+    contextWindow: 256_000,
+    pricing: { input: 3, output: 15, cachedInput: 0.75 },
     description: `xAI's most advanced reasoning model with frontier-level intelligence.\nFeatures real-time X data access, advanced reasoning, and native tool use.\nExcels at mathematical reasoning, coding, and complex problem-solving.`,
+    apiKeyUsage: { allowUserKey: true, userKeyOnly: false, modelId: "grok-4" },
     api_sdk: gateway("xai/grok-4"),
     features: [REASONING_FEATURE_BASIC, TOOL_CALLING_FEATURE],
   },
@@ -62,7 +81,10 @@ export const XAI_MODELS = [
     provider: "xai",
     premium: true,
     usesPremiumCredits: true,
+    contextWindow: 131_072,
+    pricing: { input: 3, output: 15, cachedInput: 0.75 },
     description: `xAI's flagship model.\nFeatures real-time X data access.`,
+    apiKeyUsage: { allowUserKey: true, userKeyOnly: false, modelId: "grok-3" },
     api_sdk: gateway("xai/grok-3-latest"),
     features: [REASONING_FEATURE_DISABLED],
   },
@@ -72,8 +94,15 @@ export const XAI_MODELS = [
     provider: "xai",
     premium: false,
     usesPremiumCredits: false,
+    contextWindow: 131_072,
+    pricing: { input: 0.3, output: 0.5, cachedInput: 0.075 },
     description:
       "Cost-efficient reasoning model from xAI.\nExcels at STEM tasks requiring less world knowledge.",
+    apiKeyUsage: {
+      allowUserKey: true,
+      userKeyOnly: false,
+      modelId: "grok-3-mini",
+    },
     api_sdk: gateway("xai/grok-3-mini"),
     features: [REASONING_FEATURE_BASIC, TOOL_CALLING_FEATURE],
   },
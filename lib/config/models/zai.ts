@@ -13,7 +13,15 @@ export const ZAI_MODELS = [
     displayProvider: "z-ai",
     premium: true,
     usesPremiumCredits: false,
+    contextWindow: 128_000,
+    pricing: { input: 0.6, output: 2.2, cachedInput: 0.11 },
     description: `ZAI's flagship reasoning model. \nFeatures 355B total parameters with 32B active, native agent capabilities for autonomous task planning, and achieves third place globally across 12 industry benchmarks while being more cost-efficient than DeepSeek.`,
+    apiKeyUsage: {
+      allowUserKey: true,
+      userKeyOnly: false,
+      provider: "zai",
+      modelId: "glm-4.5",
+    },
     api_sdk: openrouter("z-ai/glm-4.5"),
     features: [TOOL_CALLING_FEATURE, REASONING_FEATURE],
   },
@@ -24,7 +32,15 @@ export const ZAI_MODELS = [
     displayProvider: "z-ai",
     premium: false,
     usesPremiumCredits: false,
+    contextWindow: 128_000,
+    pricing: { input: 0.2, output: 1.1, cachedInput: 0.03 },
     description: `ZAI's streamlined efficiency model. \nFeatures 106B total parameters with 12B active, runs on just eight H20 GPUs, delivers exceptional performance in its parameter category, and offers superior cost-effectiveness for accessible deployment.`,
+    apiKeyUsage: {
+      allowUserKey: true,
+      userKeyOnly: false,
+      provider: "zai",
+      modelId: "glm-4.5-air",
+    },
     api_sdk: openrouter("z-ai/glm-4.5-air"),
     features: [TOOL_CALLING_FEATURE, REASONING_FEATURE],
   },
@@ -35,7 +51,15 @@ export const ZAI_MODELS = [
     displayProvider: "z-ai",
     premium: true,
     usesPremiumCredits: false,
+    contextWindow: 65_536,
+    pricing: { input: 0.6, output: 1.8, cachedInput: 0.11 },
     description: `ZAI's flagship vision model. \n `,
+    apiKeyUsage: {
+      allowUserKey: true,
+      userKeyOnly: false,
+      provider: "zai",
+      modelId: "glm-4.5v",
+    },
     api_sdk: openrouter("z-ai/glm-4.5v"),
     features: [TOOL_CALLING_FEATURE, REASONING_FEATURE, FILE_UPLOAD_FEATURE],
   },
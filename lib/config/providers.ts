@@ -1,4 +1,5 @@
 import { Flux, Moonshot, ZAI } from "@lobehub/icons";
+import { HardDrivesIcon } from "@phosphor-icons/react";
 import {
   AnthropicDark,
   AnthropicLight,
@@ -89,6 +90,12 @@ export const PROVIDERS = [
     name: "Z.AI",
     icon: ZAI,
   },
+  {
+    // Models on user-registered OpenAI-compatible endpoints
+    id: "custom",
+    name: "Custom",
+    icon: HardDrivesIcon,
+  },
 ] as Provider[];
 
 export const PROVIDERS_OPTIONS = PROVIDERS;
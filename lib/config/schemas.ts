@@ -10,6 +10,15 @@ export const ModelFeatureSchema = z.object({
 export const ApiKeyUsageSchema = z.object({
   allowUserKey: z.boolean(),
   userKeyOnly: z.boolean(),
+  provider: z.string().optional(), // Provider whose key is used, when it differs from the routing provider
+  modelId: z.string().optional(), // Model id on that provider's own API, when it differs from the routed one
+});
+
+// Prices in USD per million tokens
+export const ModelPricingSchema = z.object({
+  input: z.number(),
+  output: z.number(),
+  cachedInput: z.number().optional(),
 });
 
 export const ModelSchema = z.object({
@@ -22,6 +31,9 @@ export const ModelSchema = z.object({
   premium: z.boolean(),
   usesPremiumCredits: z.boolean(),
   skipRateLimit: z.boolean().optional(), // Skip rate limiting completely for this model
+  fallbackModels: z.array(z.string()).optional(), // Ordered model ids tried when this model is overloaded or failing
+  contextWindow: z.number().optional(), // Max input tokens; older turns are summarized before a chat outgrows it
+  pricing: ModelPricingSchema.optional(), // Used to compute the cost of each answer; unpriced models are not costed
   description: z.string(),
   features: z.array(ModelFeatureSchema).default([]),
   apiKeyUsage: ApiKeyUsageSchema.default({
@@ -31,3 +43,4 @@ export const ModelSchema = z.object({
 });
 
 export type Model = z.infer<typeof ModelSchema>;
+export type ModelPricing = z.infer<typeof ModelPricingSchema>;
@@ -10,10 +10,26 @@ export const UPLOAD_ALLOWED_MIME = [
   "image/gif",
   "image/webp",
   "application/pdf",
+  "text/plain",
+  "text/markdown",
+  // Data files for run_code
+  "text/csv",
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
 ] as const;
 
 export type UploadAllowedMime = (typeof UPLOAD_ALLOWED_MIME)[number];
 
+// Uploaded documents that are chunked and embedded for search_documents
+export const INDEXABLE_MIME: readonly UploadAllowedMime[] = [
+  "application/pdf",
+  "text/plain",
+  "text/markdown",
+];
+
+export function isIndexableMime(mime?: string): boolean {
+  return INDEXABLE_MIME.includes(mime as UploadAllowedMime);
+}
+
 // Accept string for <input type="file" accept="...">
 export const UPLOAD_ACCEPT: string = Array.from(UPLOAD_ALLOWED_MIME).join(",");
 
@@ -30,6 +46,10 @@ const MIME_LABEL_MAP: Readonly<Record<string, string>> = {
   "image/heic": "HEIC",
   "image/heif": "HEIF",
   "application/pdf": "PDF",
+  "text/plain": "TXT",
+  "text/markdown": "MD",
+  "text/csv": "CSV",
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet": "XLSX",
 };
 
 export function getAllowedLabel(
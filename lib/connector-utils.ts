@@ -46,3 +46,26 @@ export function calculateConnectorStatus(
     notConnected: notConnectedSlugs,
   };
 }
+
+/**
+ * Limit the enabled connectors to the ones a persona allows. Connectors the
+ * persona leaves out are reported as disabled for the conversation.
+ */
+export function restrictConnectorStatus(
+  status: ConnectorStatusLists,
+  allowedTypes?: string[]
+): ConnectorStatusLists {
+  if (!allowedTypes) {
+    return status;
+  }
+
+  const allowed = new Set(allowedTypes.map((type) => type.toUpperCase()));
+  return {
+    enabled: status.enabled.filter((slug) => allowed.has(slug)),
+    disabled: [
+      ...status.disabled,
+      ...status.enabled.filter((slug) => !allowed.has(slug)),
+    ],
+    notConnected: status.notConnected,
+  };
+}
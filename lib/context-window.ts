@@ -0,0 +1,191 @@
+import { generateText, type UIMessage } from "ai";
+import { DEFAULT_CONTEXT_WINDOW } from "@/lib/config/constants";
+import { MODELS_MAP } from "@/lib/config/models";
+
+// Cheap long-context model used to fold older turns into the rolling summary
+export const CONTEXT_SUMMARY_MODEL = "gemini-2.5-flash-lite";
+
+export const CONTEXT_CONFIG = {
+  // Share of the context window a request may fill before older turns are summarized
+  compactThreshold: 0.75,
+  // Share of the compaction budget kept as verbatim recent turns
+  recentShare: 0.5,
+  // Turns that are never summarized, however large they are
+  minRecentMessages: 2,
+  // Rough cost of an attached image or PDF
+  fileTokens: 1000,
+  // Tool inputs and outputs are cut to this length in the summary transcript
+  toolResultChars: 2000,
+} as const;
+
+// Roughly four characters per token across common tokenizers
+const CHARS_PER_TOKEN = 4;
+
+export type ContextSummary = {
+  text: string;
+  lastMessageId: string;
+};
+
+const SUMMARY_PROMPT = `You maintain a running summary of a conversation between a user and an AI assistant, so it can continue after older messages are dropped.
+Update the existing summary with the new messages. Keep names, numbers, decisions, open questions, user preferences and any code or data the conversation still depends on. Drop small talk and repetition.
+Write in the third person ("The user asked...") and answer with the updated summary only.`;
+
+/**
+ * Estimate the number of tokens in a piece of text
+ */
+export function estimateTokens(text?: string): number {
+  return text ? Math.ceil(text.length / CHARS_PER_TOKEN) : 0;
+}
+
+// Helper function to serialize tool inputs and outputs for estimates and transcripts
+const stringifyValue = (value: unknown): string => {
+  if (value === undefined) {
+    return "";
+  }
+  return typeof value === "string" ? value : (JSON.stringify(value) ?? "");
+};
+
+/**
+ * Estimate how many tokens a message adds to a model request
+ */
+export function estimateMessageTokens(message: UIMessage): number {
+  return message.parts.reduce((total, part) => {
+    if (part.type === "text" || part.type === "reasoning") {
+      return total + estimateTokens(part.text);
+    }
+    if (part.type === "file") {
+      return total + CONTEXT_CONFIG.fileTokens;
+    }
+    if (part.type.startsWith("tool-") && "input" in part) {
+      const output = "output" in part ? part.output : undefined;
+      return (
+        total +
+        estimateTokens(stringifyValue(part.input)) +
+        estimateTokens(stringifyValue(output))
+      );
+    }
+    return total;
+  }, 0);
+}
+
+export function estimateMessagesTokens(messages: UIMessage[]): number {
+  return messages.reduce(
+    (total, message) => total + estimateMessageTokens(message),
+    0
+  );
+}
+
+/**
+ * Get the token budget a request may use before older turns are summarized
+ */
+export function getContextBudget(contextWindow?: number): number {
+  return Math.floor(
+    (contextWindow ?? DEFAULT_CONTEXT_WINDOW) * CONTEXT_CONFIG.compactThreshold
+  );
+}
+
+/**
+ * Drop the turns a stored summary already covers. The summary is ignored
+ * when its last message is not on the current path, e.g. after an edit.
+ */
+export function applyContextSummary(
+  messages: UIMessage[],
+  summary?: ContextSummary
+): { summary?: string; messages: UIMessage[] } {
+  const index = summary
+    ? messages.findIndex((message) => message.id === summary.lastMessageId)
+    : -1;
+  if (!summary || index === -1) {
+    return { messages };
+  }
+  return { summary: summary.text, messages: messages.slice(index + 1) };
+}
+
+/**
+ * Split messages into older turns to summarize and recent turns to send
+ * verbatim. Recent turns fill up to the given budget, always start with a
+ * user message and include at least the latest exchange.
+ */
+export function splitForCompaction(
+  messages: UIMessage[],
+  recentBudget: number
+): { older: UIMessage[]; recent: UIMessage[] } {
+  let start = messages.length;
+  let used = 0;
+  while (start > 0) {
+    const cost = estimateMessageTokens(messages[start - 1]);
+    const keptCount = messages.length - start;
+    if (
+      keptCount >= CONTEXT_CONFIG.minRecentMessages &&
+      used + cost > recentBudget
+    ) {
+      break;
+    }
+    used += cost;
+    start -= 1;
+  }
+
+  // Never open the recent turns with an assistant reply to a dropped question
+  while (start > 0 && messages[start]?.role !== "user") {
+    start -= 1;
+  }
+
+  return { older: messages.slice(0, start), recent: messages.slice(start) };
+}
+
+// Helper function to render messages as a plain transcript for summarization
+const toTranscript = (messages: UIMessage[]): string =>
+  messages
+    .map((message) => {
+      const lines = message.parts.flatMap((part) => {
+        if (part.type === "text") {
+          return [part.text];
+        }
+        if (part.type === "file") {
+          return [`[Attached file: ${part.filename ?? part.mediaType}]`];
+        }
+        if (part.type.startsWith("tool-") && "input" in part) {
+          const output = "output" in part ? part.output : undefined;
+          const result = stringifyValue(output).slice(
+            0,
+            CONTEXT_CONFIG.toolResultChars
+          );
+          return [
+            `[Used ${part.type.slice("tool-".length)}: ${stringifyValue(part.input)}]${result ? `\n${result}` : ""}`,
+          ];
+        }
+        return [];
+      });
+      return lines.length > 0 ? `${message.role}: ${lines.join("\n")}` : "";
+    })
+    .filter(Boolean)
+    .join("\n\n");
+
+/**
+ * Fold older turns into the rolling conversation summary
+ */
+export async function summarizeMessages(
+  previousSummary: string | undefined,
+  messages: UIMessage[]
+): Promise<string> {
+  const model = MODELS_MAP[CONTEXT_SUMMARY_MODEL];
+  // Keep the newest part of the transcript if it exceeds the summary model
+  const maxChars =
+    getContextBudget(model.contextWindow) * CHARS_PER_TOKEN -
+    (previousSummary?.length ?? 0);
+  const transcript = toTranscript(messages).slice(-maxChars);
+
+  const { text } = await generateText({
+    model: model.api_sdk,
+    system: SUMMARY_PROMPT,
+    prompt: `Existing summary:\n${previousSummary ?? "(none)"}\n\nNew messages:\n${transcript}`,
+  });
+  return text.trim();
+}
+
+/**
+ * Build the system prompt section that stands in for summarized turns
+ */
+export function buildSummaryPrompt(summary: string): string {
+  return `<conversation_summary>\nEarlier messages of this conversation were summarized to fit the context window:\n${summary}\n</conversation_summary>`;
+}
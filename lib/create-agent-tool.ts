@@ -1,4 +1,4 @@
-import type { Tool, UIMessage, UIMessageStreamWriter } from "ai";
+import type { LanguageModel, Tool, UIMessage, UIMessageStreamWriter } from "ai";
 import { convertToModelMessages, stepCountIs, streamText, tool } from "ai";
 import { z } from "zod";
 import { getComposioTools } from "@/lib/composio-server";
@@ -43,7 +43,7 @@ type JSONValue =
 type CreateAgentToolOptions = {
   userId?: string;
   availableToolkits: string[];
-  model: string;
+  model: LanguageModel;
   systemPrompt?: string;
   maxSteps?: number;
   providerOptions?: Record<string, Record<string, JSONValue>>;
@@ -0,0 +1,27 @@
+import { createOpenAICompatible } from "@ai-sdk/openai-compatible";
+import { extractReasoningMiddleware, wrapLanguageModel } from "ai";
+import { CUSTOM_PROVIDER_ID, type CustomModelConfig } from "./custom-models";
+import { allowsPrivateCustomEndpoints } from "./private-address";
+import { publicFetch } from "./url-safety";
+
+/**
+ * Create the language model for a custom endpoint. Reasoning models are
+ * expected to wrap their thoughts in <think> tags, like local open models do.
+ * Unless the deployment allows private endpoints, requests only connect to
+ * public addresses.
+ */
+export function createCustomLanguageModel(config: CustomModelConfig) {
+  const provider = createOpenAICompatible({
+    name: CUSTOM_PROVIDER_ID,
+    baseURL: config.baseUrl,
+    apiKey: config.apiKey ?? undefined,
+    fetch: allowsPrivateCustomEndpoints() ? undefined : publicFetch,
+  });
+  const languageModel = provider.chatModel(config.model.modelId);
+  return config.model.reasoning
+    ? wrapLanguageModel({
+        model: languageModel,
+        middleware: extractReasoningMiddleware({ tagName: "think" }),
+      })
+    : languageModel;
+}
@@ -0,0 +1,88 @@
+import {
+  FILE_UPLOAD_FEATURE,
+  REASONING_FEATURE_BASIC,
+  TOOL_CALLING_FEATURE,
+} from "@/lib/config/features";
+import type { Model } from "@/lib/config/schemas";
+
+/**
+ * Models served by user-registered OpenAI-compatible endpoints. They are
+ * addressed as `custom:<endpointId>:<modelId>` next to built-in model ids.
+ */
+
+export const CUSTOM_PROVIDER_ID = "custom";
+
+const CUSTOM_MODEL_PREFIX = `${CUSTOM_PROVIDER_ID}:`;
+
+export type CustomEndpointModel = {
+  modelId: string;
+  name?: string;
+  toolCalling: boolean;
+  vision: boolean;
+  reasoning: boolean;
+  contextWindow?: number;
+};
+
+export type CustomModelConfig = {
+  endpointName: string;
+  baseUrl: string;
+  apiKey: string | null;
+  model: CustomEndpointModel;
+};
+
+export function toCustomModelId(endpointId: string, modelId: string): string {
+  return `${CUSTOM_MODEL_PREFIX}${endpointId}:${modelId}`;
+}
+
+export function isCustomModelId(id: string): boolean {
+  return id.startsWith(CUSTOM_MODEL_PREFIX);
+}
+
+/**
+ * Split a custom model id into its endpoint and model. Model ids may contain
+ * colons themselves, e.g. Ollama tags like `llama3.1:8b`.
+ */
+export function parseCustomModelId(
+  id: string
+): { endpointId: string; modelId: string } | null {
+  if (!isCustomModelId(id)) {
+    return null;
+  }
+  const rest = id.slice(CUSTOM_MODEL_PREFIX.length);
+  const separator = rest.indexOf(":");
+  if (separator <= 0 || separator === rest.length - 1) {
+    return null;
+  }
+  return {
+    endpointId: rest.slice(0, separator),
+    modelId: rest.slice(separator + 1),
+  };
+}
+
+/**
+ * Describe a custom endpoint model like a built-in one, so the model selector
+ * and the chat route can treat both the same way
+ */
+export function buildCustomModel(
+  endpoint: { _id: string; name: string },
+  model: CustomEndpointModel
+): Model {
+  return {
+    id: toCustomModelId(endpoint._id, model.modelId),
+    name: model.name || model.modelId,
+    subName: endpoint.name,
+    provider: CUSTOM_PROVIDER_ID,
+    premium: false,
+    usesPremiumCredits: false,
+    // Runs on the user's own endpoint, so it never uses credits
+    skipRateLimit: true,
+    contextWindow: model.contextWindow,
+    description: `${model.modelId} served by ${endpoint.name}`,
+    features: [
+      ...(model.toolCalling ? [TOOL_CALLING_FEATURE] : []),
+      ...(model.vision ? [FILE_UPLOAD_FEATURE] : []),
+      ...(model.reasoning ? [REASONING_FEATURE_BASIC] : []),
+    ],
+    apiKeyUsage: { allowUserKey: false, userKeyOnly: false },
+  };
+}
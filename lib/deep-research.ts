@@ -0,0 +1,110 @@
+/**
+ * Shared pieces of deep research mode: limits, the progress steps streamed to
+ * the chat and helpers for numbering the sources a report cites.
+ */
+
+export const DEEP_RESEARCH_CONFIG = {
+  // Search, read and reflect rounds before the report is written
+  maxRounds: 3,
+  queriesPerRound: 4,
+  resultsPerQuery: 5,
+  // Pages read in full per round; the rest keep their search snippet
+  pagesPerRound: 6,
+  maxSources: 20,
+  // Characters of each source handed to the model
+  maxSourceCharacters: 4000,
+  pageTimeoutMs: 10_000,
+};
+
+export type ResearchStepType = "plan" | "search" | "read" | "reflect";
+
+// Progress of one step, streamed as a `data-research-progress` part. Steps
+// with the same id replace each other, so a step goes from active to complete.
+export type ResearchProgress = {
+  researchId: string;
+  type: ResearchStepType;
+  status: "active" | "complete";
+  label: string;
+  items?: string[]; // Queries searched or domains read
+};
+
+export type ResearchSource = {
+  index: number; // Citation number, starting at 1
+  url: string;
+  title: string;
+  content: string;
+};
+
+export type DeepResearchOutput = {
+  question: string;
+  sources: ResearchSource[];
+  rounds: number;
+};
+
+const WWW_PREFIX_REGEX = /^www\./;
+const TRAILING_SLASHES_REGEX = /\/+$/;
+const TRACKING_PARAM_REGEX = /^(utm_|ref$|fbclid$|gclid$)/;
+
+/**
+ * Normalize a URL for deduplication: ignores the protocol, "www.", the hash,
+ * tracking parameters and trailing slashes
+ */
+export function normalizeSourceUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    for (const key of [...parsed.searchParams.keys()]) {
+      if (TRACKING_PARAM_REGEX.test(key)) {
+        parsed.searchParams.delete(key);
+      }
+    }
+    const host = parsed.hostname.toLowerCase().replace(WWW_PREFIX_REGEX, "");
+    const path = parsed.pathname.replace(TRAILING_SLASHES_REGEX, "");
+    return `${host}${path}${parsed.search}`;
+  } catch {
+    return url.trim().toLowerCase();
+  }
+}
+
+/**
+ * Keep the sources whose URL has not been seen yet, and mark them as seen
+ */
+export function dedupeSources<T extends { url: string }>(
+  sources: T[],
+  seen: Set<string>
+): T[] {
+  return sources.filter((source) => {
+    if (!source.url) {
+      return false;
+    }
+    const key = normalizeSourceUrl(source.url);
+    if (seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+}
+
+// Helper function to get the domain of a source for progress steps
+export function getSourceDomain(url: string): string {
+  try {
+    return new URL(url).hostname.replace(WWW_PREFIX_REGEX, "");
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Format numbered sources for the model writing the report
+ */
+export function formatResearchSources(sources: ResearchSource[]): string {
+  if (sources.length === 0) {
+    return "No sources were found.";
+  }
+  return sources
+    .map(
+      (source) =>
+        `[${source.index}] ${source.title}\nURL: ${source.url}\n${source.content}`
+    )
+    .join("\n\n---\n\n");
+}
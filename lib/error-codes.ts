@@ -7,6 +7,9 @@ export const AUTH_ERRORS = {
   NOT_AUTHENTICATED: "NOT_AUTHENTICATED",
   UNAUTHORIZED: "UNAUTHORIZED",
   TOKEN_EXPIRED: "TOKEN_EXPIRED",
+  INVALID_ACCESS_TOKEN: "INVALID_ACCESS_TOKEN",
+  ACCESS_TOKEN_EXPIRED: "ACCESS_TOKEN_EXPIRED",
+  INSUFFICIENT_SCOPE: "INSUFFICIENT_SCOPE",
 } as const;
 
 // Validation errors
@@ -18,6 +21,9 @@ export const VALIDATION_ERRORS = {
   MESSAGE_NOT_FOUND: "MESSAGE_NOT_FOUND",
   FILE_NOT_FOUND: "FILE_NOT_FOUND",
   CONNECTOR_NOT_FOUND: "CONNECTOR_NOT_FOUND",
+  PERSONA_NOT_FOUND: "PERSONA_NOT_FOUND",
+  PROJECT_NOT_FOUND: "PROJECT_NOT_FOUND",
+  MEMORY_NOT_FOUND: "MEMORY_NOT_FOUND",
 } as const;
 
 // Rate limiting errors
@@ -34,6 +40,11 @@ export const BUSINESS_ERRORS = {
   UNSUPPORTED_MODEL: "UNSUPPORTED_MODEL",
   UNSUPPORTED_OPERATION: "UNSUPPORTED_OPERATION",
   REDACTED_CONTENT: "REDACTED_CONTENT",
+  MEMORY_DISABLED: "MEMORY_DISABLED",
+  MEMORY_LIMIT_REACHED: "MEMORY_LIMIT_REACHED",
+  ACCESS_TOKEN_LIMIT_REACHED: "ACCESS_TOKEN_LIMIT_REACHED",
+  CUSTOM_ENDPOINT_LIMIT_REACHED: "CUSTOM_ENDPOINT_LIMIT_REACHED",
+  CUSTOM_ENDPOINT_PRIVATE_URL: "CUSTOM_ENDPOINT_PRIVATE_URL",
 } as const;
 
 // File operation errors
@@ -85,6 +96,12 @@ export function getErrorMessage(code: ErrorCode): string {
       return "You are not authorized to perform this action.";
     case ERROR_CODES.TOKEN_EXPIRED:
       return "Your session has expired. Please sign in again.";
+    case ERROR_CODES.INVALID_ACCESS_TOKEN:
+      return "Invalid access token. Create a new one in settings.";
+    case ERROR_CODES.ACCESS_TOKEN_EXPIRED:
+      return "This access token has expired. Create a new one in settings.";
+    case ERROR_CODES.INSUFFICIENT_SCOPE:
+      return "This access token does not have permission for this action.";
 
     // Validation errors
     case ERROR_CODES.INVALID_INPUT:
@@ -101,6 +118,12 @@ export function getErrorMessage(code: ErrorCode): string {
       return "File not found.";
     case ERROR_CODES.CONNECTOR_NOT_FOUND:
       return "Connector not found or not connected.";
+    case ERROR_CODES.PERSONA_NOT_FOUND:
+      return "Persona not found or no longer shared.";
+    case ERROR_CODES.PROJECT_NOT_FOUND:
+      return "Project not found.";
+    case ERROR_CODES.MEMORY_NOT_FOUND:
+      return "Memory not found.";
 
     // Rate limit errors
     case ERROR_CODES.DAILY_LIMIT_REACHED:
@@ -121,6 +144,16 @@ export function getErrorMessage(code: ErrorCode): string {
       return "This operation is not supported.";
     case ERROR_CODES.REDACTED_CONTENT:
       return "Cannot fork chat with redacted content. Forking disabled to maintain conversation integrity.";
+    case ERROR_CODES.MEMORY_DISABLED:
+      return "Memory is turned off. Turn it on in settings to let the assistant remember things.";
+    case ERROR_CODES.MEMORY_LIMIT_REACHED:
+      return "Memory is full. Delete some memories in settings to add new ones.";
+    case ERROR_CODES.ACCESS_TOKEN_LIMIT_REACHED:
+      return "You have reached the maximum number of access tokens. Revoke one to create another.";
+    case ERROR_CODES.CUSTOM_ENDPOINT_LIMIT_REACHED:
+      return "You have reached the maximum number of custom endpoints. Delete one to add another.";
+    case ERROR_CODES.CUSTOM_ENDPOINT_PRIVATE_URL:
+      return "Custom endpoints must use a public address. Private and local addresses are turned off on this server.";
 
     // File errors
     case ERROR_CODES.UNSUPPORTED_FILE_TYPE:
@@ -58,8 +58,11 @@ function getHttpStatusForErrorCode(code: string): number {
     // Auth errors
     case ERROR_CODES.NOT_AUTHENTICATED:
     case ERROR_CODES.TOKEN_EXPIRED:
+    case ERROR_CODES.INVALID_ACCESS_TOKEN:
+    case ERROR_CODES.ACCESS_TOKEN_EXPIRED:
       return 401;
     case ERROR_CODES.UNAUTHORIZED:
+    case ERROR_CODES.INSUFFICIENT_SCOPE:
       return 403;
 
     // Business errors
@@ -132,6 +135,12 @@ function getResponseTypeForErrorCode(code: string): string {
       return "unauthorized";
     case ERROR_CODES.TOKEN_EXPIRED:
       return "token_expired";
+    case ERROR_CODES.INVALID_ACCESS_TOKEN:
+      return "invalid_access_token";
+    case ERROR_CODES.ACCESS_TOKEN_EXPIRED:
+      return "access_token_expired";
+    case ERROR_CODES.INSUFFICIENT_SCOPE:
+      return "insufficient_scope";
 
     // Business errors
     case ERROR_CODES.PREMIUM_MODEL_ACCESS_DENIED:
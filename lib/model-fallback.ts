@@ -0,0 +1,59 @@
+/**
+ * Model Fallback
+ * Plans the order in which a request tries models and keys, and decides when
+ * an error moves it on to the next attempt
+ */
+
+import {
+  type DetectedError,
+  shouldTriggerModelFallback,
+} from "@/lib/provider-error-detector";
+
+export type ModelAttemptPlan = {
+  modelId: string;
+  useUserKey: boolean;
+};
+
+/**
+ * Plans the attempts for a request: the requested model on the preferred
+ * key, the same model on the other key when the user has one, then the
+ * fallback models on built-in keys. A failure on the user's own key does not
+ * move on to other models, so it never silently spends built-in credits on a
+ * model the user did not pick.
+ */
+export function planModelAttempts(
+  modelId: string,
+  fallbackModelIds: string[],
+  { useUserKey, canSwitchKey }: { useUserKey: boolean; canSwitchKey: boolean }
+): ModelAttemptPlan[] {
+  const attempts: ModelAttemptPlan[] = [{ modelId, useUserKey }];
+  if (canSwitchKey) {
+    attempts.push({ modelId, useUserKey: !useUserKey });
+  }
+  if (attempts.at(-1)?.useUserKey) {
+    return attempts;
+  }
+  for (const fallbackId of fallbackModelIds) {
+    attempts.push({ modelId: fallbackId, useUserKey: false });
+  }
+  return attempts;
+}
+
+/**
+ * Checks if an error before any output should move a request on to its next
+ * attempt. The same model on the other key is retried for any error, a
+ * different model only for transient and quota errors.
+ */
+export function shouldMoveToNextAttempt(
+  current: ModelAttemptPlan,
+  next: ModelAttemptPlan | undefined,
+  detectedError: DetectedError | null
+): boolean {
+  if (!next) {
+    return false;
+  }
+  if (next.modelId === current.modelId) {
+    return true;
+  }
+  return Boolean(detectedError && shouldTriggerModelFallback(detectedError));
+}
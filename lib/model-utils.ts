@@ -3,7 +3,9 @@
  * Helper functions for model validation, feature detection, and configuration
  */
 
-import { MODEL_DEFAULT, MODELS } from "@/lib/config";
+import { MODEL_DEFAULT } from "@/lib/config/constants";
+import { MODELS } from "@/lib/config/models";
+import { isCustomModelId } from "@/lib/custom-models";
 
 /**
  * Checks if a model supports configurable reasoning effort
@@ -30,8 +32,9 @@ export function createModelValidator() {
     preferredModel: string,
     disabledModels: string[] = []
   ): string {
-    // Check if model exists and is not disabled
-    if (!validModels.has(preferredModel)) {
+    // Check if model exists and is not disabled. Custom models are checked
+    // by the chat route, since their endpoints load asynchronously.
+    if (!(validModels.has(preferredModel) || isCustomModelId(preferredModel))) {
       return MODEL_DEFAULT;
     }
 
@@ -75,3 +78,47 @@ export function getModelProvider(modelId: string): string | undefined {
   const model = getModelById(modelId);
   return model?.provider;
 }
+
+/**
+ * Gets the ordered list of model ids to try for a request, starting with the
+ * requested model and followed by its declared fallbacks (unknown ids,
+ * duplicates and cycles back to the requested model are dropped)
+ */
+export function getModelFallbackChain(modelId: string): string[] {
+  const model = getModelById(modelId);
+  if (!model) {
+    return [];
+  }
+
+  const chain = [model.id];
+  for (const fallbackId of model.fallbackModels ?? []) {
+    if (!chain.includes(fallbackId) && getModelById(fallbackId)) {
+      chain.push(fallbackId);
+    }
+  }
+  return chain;
+}
+
+/**
+ * Gets the fallback models of a model that can run on built-in keys: models
+ * that require a user key or generate images, and models the user disabled,
+ * are never part of the chain
+ */
+export function getBuiltInFallbackModelIds(
+  modelId: string,
+  disabledModels: string[] = []
+): string[] {
+  return getModelFallbackChain(modelId)
+    .slice(1)
+    .filter((fallbackId) => {
+      const model = getModelById(fallbackId);
+      return (
+        model &&
+        !disabledModels.includes(fallbackId) &&
+        !model.apiKeyUsage?.userKeyOnly &&
+        !model.features?.some(
+          (feature) => feature.id === "image-generation" && feature.enabled
+        )
+      );
+    });
+}
@@ -0,0 +1,177 @@
+/**
+ * Classifies IP addresses and host names as public or private without any
+ * Node.js APIs, so the Convex runtime can use it too. Fetching code should
+ * use lib/url-safety, which also resolves host names.
+ */
+
+// IPv4 ranges that are not reachable on the public internet, as
+// [network, prefix length]
+const BLOCKED_IPV4_RANGES: [string, number][] = [
+  ["0.0.0.0", 8], // "This" network
+  ["10.0.0.0", 8], // Private
+  ["100.64.0.0", 10], // Carrier-grade NAT
+  ["127.0.0.0", 8], // Loopback
+  ["169.254.0.0", 16], // Link-local, including cloud metadata endpoints
+  ["172.16.0.0", 12], // Private
+  ["192.0.0.0", 24], // IETF protocol assignments
+  ["192.0.2.0", 24], // Documentation
+  ["192.168.0.0", 16], // Private
+  ["198.18.0.0", 15], // Benchmarking
+  ["198.51.100.0", 24], // Documentation
+  ["203.0.113.0", 24], // Documentation
+  ["224.0.0.0", 4], // Multicast
+  ["240.0.0.0", 4], // Reserved and broadcast
+];
+
+const LOCALHOST_SUFFIX = ".localhost";
+const IPV6_BRACKETS_REGEX = /^\[|\]$/g;
+const IPV4_REGEX =
+  /^(?:(?:25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)\.){3}(?:25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)$/;
+const IPV6_GROUP_REGEX = /^[0-9a-f]{1,4}$/i;
+
+// Helper function to convert a dotted IPv4 address to a 32-bit number
+function ipv4ToNumber(ip: string): number {
+  return ip.split(".").reduce((value, octet) => value * 256 + Number(octet), 0);
+}
+
+function isPrivateIPv4(ip: string): boolean {
+  const value = ipv4ToNumber(ip);
+  return BLOCKED_IPV4_RANGES.some(([network, prefix]) => {
+    const size = 2 ** (32 - prefix);
+    const start = ipv4ToNumber(network);
+    return value >= start && value < start + size;
+  });
+}
+
+// Helper function to expand an IPv6 address into its eight 16-bit groups
+function parseIPv6(ip: string): number[] | null {
+  let address = ip.toLowerCase();
+  const groups: number[] = [];
+
+  // A trailing dotted IPv4 address fills the last two groups
+  const lastColon = address.lastIndexOf(":");
+  const tail = address.slice(lastColon + 1);
+  if (getIPVersion(tail) === 4) {
+    const value = ipv4ToNumber(tail);
+    address = `${address.slice(0, lastColon + 1)}${Math.floor(value / 65_536).toString(16)}:${(value % 65_536).toString(16)}`;
+  }
+
+  const [head, rest] = address.split("::");
+  const headGroups = head ? head.split(":") : [];
+  const restGroups = rest ? rest.split(":") : [];
+  const missing = address.includes("::")
+    ? 8 - headGroups.length - restGroups.length
+    : 0;
+  for (const group of [
+    ...headGroups,
+    ...new Array<string>(missing).fill("0"),
+    ...restGroups,
+  ]) {
+    groups.push(Number.parseInt(group, 16));
+  }
+  return groups.length === 8 && groups.every((g) => g >= 0 && g <= 0xff_ff)
+    ? groups
+    : null;
+}
+
+function isPrivateIPv6(ip: string): boolean {
+  const groups = parseIPv6(ip);
+  if (!groups) {
+    return true;
+  }
+  const [first] = groups;
+  const isZeroPrefix = groups.slice(0, 5).every((group) => group === 0);
+
+  // IPv4-mapped (::ffff:a.b.c.d) and NAT64 (64:ff9b::a.b.c.d) addresses
+  // reach the embedded IPv4 address
+  const embedsIPv4 =
+    (isZeroPrefix && groups[5] === 0xff_ff) ||
+    (first === 0x64 &&
+      groups[1] === 0xff_9b &&
+      groups.slice(2, 6).every((group) => group === 0));
+  if (embedsIPv4) {
+    const [high, low] = [groups[6], groups[7]];
+    return isPrivateIPv4(
+      [Math.floor(high / 256), high % 256, Math.floor(low / 256), low % 256]
+        .map(String)
+        .join(".")
+    );
+  }
+
+  return (
+    (isZeroPrefix && groups[5] === 0 && groups[6] === 0 && groups[7] <= 1) || // :: and ::1
+    (first >= 0xfc_00 && first <= 0xfd_ff) || // Unique local
+    (first >= 0xfe_80 && first <= 0xfe_bf) || // Link-local
+    first >= 0xff_00 || // Multicast
+    (first === 0x20_01 && groups[1] === 0x0d_b8) // Documentation
+  );
+}
+
+/**
+ * Check whether an IP address is private, loopback, link-local or otherwise
+ * not public. Anything that is not a valid IP address counts as private.
+ */
+export function isPrivateAddress(ip: string): boolean {
+  const address = ip.replace(IPV6_BRACKETS_REGEX, "");
+  switch (getIPVersion(address)) {
+    case 4:
+      return isPrivateIPv4(address);
+    case 6:
+      return isPrivateIPv6(address);
+    default:
+      return true;
+  }
+}
+
+/**
+ * Get the version of an IP address like net.isIP: 4, 6, or 0 when the value
+ * is not an IP address
+ */
+export function getIPVersion(value: string): 0 | 4 | 6 {
+  if (IPV4_REGEX.test(value)) {
+    return 4;
+  }
+  if (!value.includes(":") || value.split("::").length > 2) {
+    return 0;
+  }
+  const lastColon = value.lastIndexOf(":");
+  const tail = value.slice(lastColon + 1);
+  const groups = value
+    .slice(0, IPV4_REGEX.test(tail) ? lastColon : undefined)
+    .split(":")
+    .filter(Boolean);
+  return groups.every((group) => IPV6_GROUP_REGEX.test(group)) &&
+    parseIPv6(value)
+    ? 6
+    : 0;
+}
+
+/**
+ * Check whether a host name is localhost or one of its subdomains
+ */
+export function isLocalHostname(hostname: string): boolean {
+  const host = hostname.toLowerCase();
+  return host === "localhost" || host.endsWith(LOCALHOST_SUFFIX);
+}
+
+/**
+ * Check whether a URL host name is local or a private IP address. Host names
+ * that need a DNS lookup are not resolved, see assertPublicUrl for that.
+ */
+export function isPrivateHostname(hostname: string): boolean {
+  const host = hostname.replace(IPV6_BRACKETS_REGEX, "");
+  return (
+    isLocalHostname(host) ||
+    (getIPVersion(host) !== 0 && isPrivateAddress(host))
+  );
+}
+
+/**
+ * Whether endpoints users configure, such as custom model and search
+ * endpoints and task webhooks, may point at private and local addresses. Only self-hosted
+ * installs should set ALLOW_PRIVATE_CUSTOM_ENDPOINTS, since the server sends
+ * requests to whatever address users register.
+ */
+export function allowsPrivateCustomEndpoints(): boolean {
+  return process.env.ALLOW_PRIVATE_CUSTOM_ENDPOINTS === "true";
+}
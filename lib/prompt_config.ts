@@ -1,11 +1,20 @@
 import {
+  BrainIcon,
+  BriefcaseIcon,
   ChalkboardTeacherIcon,
   ChatTeardropTextIcon,
   CodeIcon,
   CookingPotIcon,
+  GlobeIcon,
+  GraduationCapIcon,
   HeartbeatIcon,
+  LightbulbIcon,
   MagnifyingGlassIcon,
+  MusicNoteIcon,
   PenNibIcon,
+  RobotIcon,
+  SparkleIcon,
+  UserIcon,
 } from "@phosphor-icons/react/dist/ssr";
 import dayjs from "dayjs";
 import advancedFormat from "dayjs/plugin/advancedFormat";
@@ -47,7 +56,7 @@ export const PERSONAS = [
   {
     id: "software-engineer",
     label: "Software Engineer",
-    prompt: `You're a pragmatic senior developer who values clean, maintainable code and practical solutions. You speak knowledgeably but conversationally about technical concepts, occasionally using industry shorthand or references that feel authentic. When discussing code, you consider trade-offs between different approaches rather than presenting only one solution. You acknowledge when certain technologies or practices are contentious within the community. Your explanations include real-world considerations like performance, security, and developer experience. You're helpful but straightforward, avoiding excessive formality or corporate-speak.
+    prompt: `You're a pragmatic senior developer who values clean, maintainable code and practical solutions. You speak knowledgeably but conversationally about technical concepts, occasionally using industry shorthand or references that feel authentic. When discussing code, you consider trade-offs between different approaches rather than presenting only one solution. You acknowledge when certain technologies or practices are contentious within the community. Your explanations include real-world considerations like performance, security, and developer experience. You're helpful but straightforward, avoiding excessive formality or corporate-speak. When the run_code tool is available, you run code to check it and to analyze data rather than guessing at its output.
     `,
     icon: CodeIcon,
   },
@@ -78,6 +87,34 @@ export const PERSONAS = [
 export const PERSONAS_MAP: Record<string, (typeof PERSONAS)[0]> =
   Object.fromEntries(PERSONAS.map((persona) => [persona.id, persona]));
 
+// Icons users can pick for their own personas, stored by name
+export const PERSONA_ICONS = {
+  user: UserIcon,
+  robot: RobotIcon,
+  sparkle: SparkleIcon,
+  brain: BrainIcon,
+  lightbulb: LightbulbIcon,
+  code: CodeIcon,
+  pen: PenNibIcon,
+  briefcase: BriefcaseIcon,
+  graduation: GraduationCapIcon,
+  globe: GlobeIcon,
+  music: MusicNoteIcon,
+  heartbeat: HeartbeatIcon,
+} as const;
+
+export type PersonaIconName = keyof typeof PERSONA_ICONS;
+
+export const DEFAULT_PERSONA_ICON: PersonaIconName = "user";
+
+// Helper function to get the icon component for a stored icon name
+export function getPersonaIcon(name?: string) {
+  return (
+    PERSONA_ICONS[name as PersonaIconName] ??
+    PERSONA_ICONS[DEFAULT_PERSONA_ICON]
+  );
+}
+
 const ALL_INTEGRATIONS = Object.values(CONNECTOR_CONFIGS)
   .sort((a, b) => a.displayName.localeCompare(b.displayName))
   .map((c) => `- ${c.displayName}: ${c.description}`)
@@ -343,6 +380,17 @@ Do NOT use web search for:
 - Coding syntax or documentation you're confident about
 </search_restrictions>`.trim();
 
+// Deep research prompt instructions
+export const DEEP_RESEARCH_PROMPT_INSTRUCTIONS = `
+<deep_research>
+Deep research mode is on. Call the deep_research tool once with the user's question, then write a long-form report from the sources it returns:
+- Start with a short summary of the answer, then cover each aspect of the question in its own ## section.
+- Cite every sourced claim inline with the source's number as a markdown link, e.g. [[3]](https://example.com/page). Use only the numbers and URLs the tool returned.
+- Compare sources where they disagree and say which is more reliable.
+- State what the sources could not confirm instead of guessing.
+- End with a "## Sources" list of the cited sources in number order.
+</deep_research>`.trim();
+
 // Tool usage prompt instructions
 export const TOOL_PROMPT_INSTRUCTIONS = `
 <tool_calling>
@@ -390,6 +438,15 @@ Writing a great email is very context-dependant, so you must think deeply about
 `.trim();
 
 // Email-specific prompt instructions
+export const MEMORY_PROMPT_INSTRUCTIONS = `
+<memory>
+You have long-term memory of this user across chats:
+- When the user shares a lasting preference, goal or fact about themselves, or asks you to remember something, save it with the remember tool.
+- When a saved memory turns out to be wrong or outdated, or the user asks you to forget something, delete it with the forget tool using its id.
+- Use the recall tool to look for memories that are not listed below.
+- Use memories naturally; do not recite them or mention the memory tools unless asked.
+</memory>`;
+
 export const EMAIL_PROMPT_INSTRUCTIONS = `
 <email_formatting>
 Your response will be sent via email notification. Please format your response to be email-friendly:
@@ -421,7 +478,11 @@ export function buildSystemPrompt(
   timezone?: string,
   emailMode?: boolean,
   taskMode?: boolean,
-  connectorsStatus?: ConnectorStatusLists
+  connectorsStatus?: ConnectorStatusLists,
+  projectInstructions?: string,
+  // Relevant long-term memories; undefined when memory is off
+  memories?: { _id: string; content: string }[],
+  deepResearch?: boolean
 ) {
   // Choose the appropriate base prompt based on mode
   let prompt =
@@ -437,6 +498,10 @@ export function buildSystemPrompt(
     prompt += `\n\n${SEARCH_PROMPT_INSTRUCTIONS}`;
   }
 
+  if (deepResearch) {
+    prompt += `\n\n${DEEP_RESEARCH_PROMPT_INSTRUCTIONS}`;
+  }
+
   // Add tool instructions if tools are enabled
   if (enableTools) {
     prompt += `\n\n${TOOL_PROMPT_INSTRUCTIONS}`;
@@ -455,6 +520,19 @@ export function buildSystemPrompt(
     }
   }
 
+  if (projectInstructions) {
+    prompt += `\n\nThe user set the following instructions for all chats in this project:\n${projectInstructions}`;
+  }
+
+  if (memories) {
+    prompt += `\n\n${MEMORY_PROMPT_INSTRUCTIONS}`;
+    if (memories.length > 0) {
+      prompt += `\n\nWhat you remember about the user:\n${memories
+        .map((memory) => `- [${memory._id}] ${memory.content}`)
+        .join("\n")}`;
+    }
+  }
+
   if (!user) {
     return prompt;
   }
@@ -12,8 +12,27 @@ export type DetectedError = {
   isQuotaExceeded?: boolean;
   isInsufficientBalance?: boolean;
   isAuthError?: boolean;
+  isOverloaded?: boolean;
+  isServerError?: boolean;
 };
 
+// Upstream failures that only surface on error objects (never in model text)
+// Specific phrases only: bare numbers and words like "capacity" also appear
+// in request IDs and unrelated errors ("context capacity exceeded"). The 529
+// status code is checked separately.
+const OVERLOADED_PATTERNS = [
+  "overloaded",
+  "at capacity",
+  "over capacity",
+  "no capacity available",
+];
+const SERVER_ERROR_PATTERNS = [
+  "internal server error",
+  "bad gateway",
+  "service unavailable",
+  "gateway timeout",
+];
+
 /**
  * Detects provider-specific error patterns in streaming text content
  */
@@ -606,7 +625,59 @@ export function detectProviderErrorFromObject(
     errorText = String(error);
   }
 
-  return detectProviderErrorInText(errorText, provider);
+  return (
+    detectProviderErrorInText(errorText, provider) ??
+    detectServerErrorFromObject(error, errorText, provider)
+  );
+}
+
+/**
+ * Detects overloaded and 5xx upstream errors from the status code or message
+ * of an error object. Kept out of text detection so model output can't trip it.
+ */
+function detectServerErrorFromObject(
+  error: unknown,
+  errorText: string,
+  provider: string
+): DetectedError | null {
+  const lowercaseText = errorText.toLowerCase();
+  const statusCode =
+    typeof error === "object" &&
+    error !== null &&
+    "statusCode" in error &&
+    typeof (error as { statusCode: unknown }).statusCode === "number"
+      ? (error as { statusCode: number }).statusCode
+      : undefined;
+
+  if (
+    statusCode === 529 ||
+    OVERLOADED_PATTERNS.some((pattern) => lowercaseText.includes(pattern))
+  ) {
+    return {
+      type: "OVERLOADED",
+      provider,
+      message: errorText,
+      userFriendlyMessage:
+        "The model provider is currently overloaded. Please try again in a moment.",
+      isOverloaded: true,
+    };
+  }
+
+  if (
+    (statusCode !== undefined && statusCode >= 500) ||
+    SERVER_ERROR_PATTERNS.some((pattern) => lowercaseText.includes(pattern))
+  ) {
+    return {
+      type: "SERVER_ERROR",
+      provider,
+      message: errorText,
+      userFriendlyMessage:
+        "The model provider returned a server error. Please try again in a moment.",
+      isServerError: true,
+    };
+  }
+
+  return null;
 }
 
 /**
@@ -619,3 +690,20 @@ export function shouldTriggerFallback(detectedError: DetectedError): boolean {
     Boolean(detectedError.isQuotaExceeded)
   );
 }
+
+/**
+ * Determines if a detected error should move the request on to the next
+ * model in its fallback chain. Auth errors are excluded since they point at a
+ * configuration problem that a sibling model would not fix.
+ */
+export function shouldTriggerModelFallback(
+  detectedError: DetectedError
+): boolean {
+  return (
+    Boolean(detectedError.isOverloaded) ||
+    Boolean(detectedError.isServerError) ||
+    Boolean(detectedError.isRateLimit) ||
+    Boolean(detectedError.isQuotaExceeded) ||
+    Boolean(detectedError.isInsufficientBalance)
+  );
+}
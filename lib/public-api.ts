@@ -0,0 +1,204 @@
+import type { FinishReason, LanguageModelUsage, ModelMessage } from "ai";
+import { z } from "zod";
+import type { Model } from "@/lib/config/schemas";
+
+/**
+ * Helpers for the OpenAI-compatible public API under /api/v1
+ */
+
+const BEARER_REGEX = /^Bearer\s+(\S+)$/i;
+const DATA_URL_REGEX = /^data:([^;,]*)((?:;[^;,]*)*),([\s\S]*)$/;
+
+const TextContentPartSchema = z.object({
+  type: z.literal("text"),
+  text: z.string(),
+});
+
+const ImageContentPartSchema = z.object({
+  type: z.literal("image_url"),
+  image_url: z.object({ url: z.string() }),
+});
+
+const ContentSchema = z.union([
+  z.string(),
+  z.array(z.union([TextContentPartSchema, ImageContentPartSchema])),
+]);
+
+const ChatCompletionMessageSchema = z.discriminatedUnion("role", [
+  z.object({ role: z.literal("system"), content: ContentSchema }),
+  z.object({ role: z.literal("developer"), content: ContentSchema }),
+  z.object({ role: z.literal("user"), content: ContentSchema }),
+  z.object({
+    role: z.literal("assistant"),
+    content: ContentSchema.nullable().optional(),
+  }),
+]);
+
+export const ChatCompletionRequestSchema = z.object({
+  model: z.string(),
+  messages: z.array(ChatCompletionMessageSchema).min(1),
+  stream: z.boolean().optional(),
+  stream_options: z
+    .object({ include_usage: z.boolean().optional() })
+    .nullable()
+    .optional(),
+  temperature: z.number().nullable().optional(),
+  top_p: z.number().nullable().optional(),
+  max_tokens: z.number().int().positive().nullable().optional(),
+  max_completion_tokens: z.number().int().positive().nullable().optional(),
+  stop: z
+    .union([z.string(), z.array(z.string())])
+    .nullable()
+    .optional(),
+  // Save the exchange as a chat in the user's history
+  store: z.boolean().optional(),
+});
+
+export type ChatCompletionRequest = z.infer<typeof ChatCompletionRequestSchema>;
+export type ChatCompletionMessage = z.infer<typeof ChatCompletionMessageSchema>;
+
+/**
+ * Whether a model can answer chat completions (image generation models cannot)
+ */
+export function isCompletionModel(model: Pick<Model, "features">): boolean {
+  return !model.features.some(
+    (feature) => feature.id === "image-generation" && feature.enabled
+  );
+}
+
+/**
+ * Read the access token from an `Authorization: Bearer` header
+ */
+export function getBearerToken(request: Request): string | null {
+  const header = request.headers.get("authorization");
+  return header?.match(BEARER_REGEX)?.[1] ?? null;
+}
+
+/**
+ * Get the plain text of a message, ignoring images
+ */
+export function getContentText(
+  content: ChatCompletionMessage["content"]
+): string {
+  if (!content) {
+    return "";
+  }
+  if (typeof content === "string") {
+    return content;
+  }
+  return content
+    .flatMap((part) => (part.type === "text" ? [part.text] : []))
+    .join("\n");
+}
+
+export type LoadedImage = {
+  data: Uint8Array;
+  mediaType: string;
+};
+
+/**
+ * Decode an image sent inline as a data: URL. Null for any other URL.
+ */
+export function parseImageDataUrl(url: string): LoadedImage | null {
+  const match = url.match(DATA_URL_REGEX);
+  if (!match) {
+    return null;
+  }
+  const [, mediaType, parameters, payload] = match;
+  if (!mediaType.startsWith("image/")) {
+    throw new Error("Data URLs must hold an image");
+  }
+  const data = parameters.split(";").includes("base64")
+    ? Buffer.from(payload, "base64")
+    : Buffer.from(decodeURIComponent(payload));
+  return { data: new Uint8Array(data), mediaType };
+}
+
+/**
+ * Convert OpenAI chat messages into AI SDK model messages. Images are handed
+ * to the model as bytes, never as URLs for the provider to fetch: data: URLs
+ * are decoded and any other URL goes through loadImage.
+ */
+export async function toModelMessages(
+  messages: ChatCompletionMessage[],
+  loadImage: (url: string) => Promise<LoadedImage>
+): Promise<ModelMessage[]> {
+  // Helper function to load an image part's bytes
+  const toImagePart = async (url: string) => {
+    const { data, mediaType } =
+      parseImageDataUrl(url) ?? (await loadImage(url));
+    return { type: "image" as const, image: data, mediaType };
+  };
+
+  return await Promise.all(
+    messages.map(async (message): Promise<ModelMessage> => {
+      if (message.role === "system" || message.role === "developer") {
+        return { role: "system", content: getContentText(message.content) };
+      }
+      if (message.role === "assistant") {
+        return { role: "assistant", content: getContentText(message.content) };
+      }
+      if (typeof message.content === "string") {
+        return { role: "user", content: message.content };
+      }
+      return {
+        role: "user",
+        content: await Promise.all(
+          message.content.map((part) =>
+            part.type === "text"
+              ? { type: "text" as const, text: part.text }
+              : toImagePart(part.image_url.url)
+          )
+        ),
+      };
+    })
+  );
+}
+
+/**
+ * Map an AI SDK finish reason to its OpenAI name
+ */
+export function toOpenAIFinishReason(
+  reason: FinishReason
+): "stop" | "length" | "content_filter" | "tool_calls" {
+  switch (reason) {
+    case "length":
+      return "length";
+    case "content-filter":
+      return "content_filter";
+    case "tool-calls":
+      return "tool_calls";
+    default:
+      return "stop";
+  }
+}
+
+/**
+ * Map AI SDK token usage to the OpenAI usage object
+ */
+export function toOpenAIUsage(usage: LanguageModelUsage) {
+  const promptTokens = usage.inputTokens ?? 0;
+  const completionTokens = Math.max(
+    usage.outputTokens ?? 0,
+    (usage.totalTokens ?? 0) - promptTokens
+  );
+  return {
+    prompt_tokens: promptTokens,
+    completion_tokens: completionTokens,
+    total_tokens: promptTokens + completionTokens,
+  };
+}
+
+/**
+ * Create an OpenAI-style completion id
+ */
+export function createCompletionId(): string {
+  return `chatcmpl-${crypto.randomUUID().replaceAll("-", "")}`;
+}
+
+/**
+ * Encode one server-sent event of a streamed completion
+ */
+export function encodeSseData(data: unknown): string {
+  return `data: ${typeof data === "string" ? data : JSON.stringify(data)}\n\n`;
+}
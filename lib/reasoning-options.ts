@@ -0,0 +1,219 @@
+import type { AnthropicProviderOptions } from "@ai-sdk/anthropic";
+import type { GoogleGenerativeAIProviderOptions } from "@ai-sdk/google";
+import type { OpenAIResponsesProviderOptions } from "@ai-sdk/openai";
+import { MODELS_MAP } from "@/lib/config/models";
+import type { Model } from "@/lib/config/schemas";
+
+export type ReasoningEffort = "low" | "medium" | "high";
+
+/**
+ * Centralized reasoning effort configuration
+ * - low: For quick responses with minimal reasoning depth
+ * - medium: Balanced reasoning depth for most use cases
+ * - high: Maximum reasoning depth for complex problems
+ *
+ * tokens: Used by Google and Anthropic providers
+ * effort: Used by OpenAI and OpenRouter providers
+ */
+const REASONING_EFFORT_CONFIG = {
+  low: {
+    tokens: 1024,
+    effort: "low",
+  },
+  medium: {
+    tokens: 6000,
+    effort: "medium",
+  },
+  high: {
+    tokens: 12_000,
+    effort: "high",
+  },
+} as const;
+
+/**
+ * Maps reasoning effort to provider-specific configuration
+ * Uses feature-based detection instead of hardcoded patterns
+ */
+const mapReasoningEffortToProviderConfig = (
+  provider: string,
+  effort: ReasoningEffort
+): Record<string, unknown> => {
+  const config = REASONING_EFFORT_CONFIG[effort];
+
+  switch (provider) {
+    case "openai":
+      return { reasoningEffort: config.effort };
+
+    case "anthropic":
+      return {
+        thinking: {
+          budgetTokens: config.tokens,
+        },
+      };
+
+    case "google":
+    case "gemini":
+      return {
+        thinkingConfig: {
+          thinkingBudget: config.tokens,
+        },
+      };
+
+    case "openrouter":
+      return {
+        reasoning: {
+          effort: config.effort,
+        },
+      };
+
+    default:
+      return {};
+  }
+};
+
+/**
+ * Helper function to check if a model should have thinking enabled
+ * based on its features configuration
+ */
+const shouldEnableThinking = (modelId: string): boolean => {
+  const model = MODELS_MAP[modelId];
+  if (!model) {
+    return false;
+  }
+
+  const reasoningFeature = model.features?.find((f) => f.id === "reasoning");
+  return reasoningFeature?.enabled === true;
+};
+
+const buildGoogleProviderOptions = (
+  modelId: string,
+  reasoningEffort?: ReasoningEffort
+): GoogleGenerativeAIProviderOptions => {
+  const options: GoogleGenerativeAIProviderOptions = {};
+
+  // Check if model supports reasoning using feature-based detection
+  if (shouldEnableThinking(modelId) && reasoningEffort) {
+    const reasoningConfig = mapReasoningEffortToProviderConfig(
+      "google",
+      reasoningEffort
+    );
+
+    if (reasoningConfig.thinkingConfig) {
+      options.thinkingConfig = {
+        includeThoughts: true,
+        ...reasoningConfig.thinkingConfig,
+      } as GoogleGenerativeAIProviderOptions["thinkingConfig"];
+    }
+  }
+
+  return options;
+};
+
+const buildOpenAIProviderOptions = (
+  modelId: string,
+  reasoningEffort?: ReasoningEffort
+): OpenAIResponsesProviderOptions => {
+  const options: OpenAIResponsesProviderOptions = {};
+
+  // Check if model supports reasoning using feature-based detection
+  if (shouldEnableThinking(modelId) && reasoningEffort) {
+    const reasoningConfig = mapReasoningEffortToProviderConfig(
+      "openai",
+      reasoningEffort
+    );
+
+    if (reasoningConfig.reasoningEffort) {
+      options.reasoningEffort =
+        reasoningConfig.reasoningEffort as ReasoningEffort;
+      options.reasoningSummary = "detailed";
+    }
+  }
+
+  return options;
+};
+
+const buildAnthropicProviderOptions = (
+  modelId: string,
+  reasoningEffort?: ReasoningEffort
+): AnthropicProviderOptions => {
+  const options: AnthropicProviderOptions = {};
+
+  // Check if model supports reasoning using feature-based detection
+  if (shouldEnableThinking(modelId) && reasoningEffort) {
+    const reasoningConfig = mapReasoningEffortToProviderConfig(
+      "anthropic",
+      reasoningEffort
+    );
+
+    if (reasoningConfig.thinking) {
+      options.thinking = {
+        type: "enabled",
+        ...reasoningConfig.thinking,
+      } as AnthropicProviderOptions["thinking"];
+    }
+  }
+
+  return options;
+};
+
+const buildOpenRouterProviderOptions = (
+  modelId: string,
+  reasoningEffort?: ReasoningEffort
+): Record<string, unknown> => {
+  const options: Record<string, unknown> = {};
+
+  // Check if model supports reasoning using feature-based detection
+  if (shouldEnableThinking(modelId) && reasoningEffort) {
+    const reasoningConfig = mapReasoningEffortToProviderConfig(
+      "openrouter",
+      reasoningEffort
+    );
+
+    if (reasoningConfig.reasoning) {
+      options.reasoning = reasoningConfig.reasoning;
+    }
+  }
+
+  return options;
+};
+
+/**
+ * Build the provider options for a model call, mapping the reasoning effort
+ * to the model's provider. OpenRouter calls are tagged with the user id.
+ */
+export function buildProviderOptions(
+  model: Model,
+  reasoningEffort?: ReasoningEffort,
+  userId?: string
+) {
+  if (model.provider === "gemini") {
+    return {
+      google: {
+        ...buildGoogleProviderOptions(model.id, reasoningEffort),
+      },
+    };
+  }
+  if (model.provider === "openai") {
+    return {
+      openai: {
+        ...buildOpenAIProviderOptions(model.id, reasoningEffort),
+      },
+    };
+  }
+  if (model.provider === "anthropic") {
+    return {
+      anthropic: {
+        ...buildAnthropicProviderOptions(model.id, reasoningEffort),
+      },
+    };
+  }
+  if (model.provider === "openrouter") {
+    return {
+      openrouter: {
+        ...buildOpenRouterProviderOptions(model.id, reasoningEffort),
+        user: userId ? `user_${userId}` : undefined,
+      },
+    };
+  }
+  return;
+}
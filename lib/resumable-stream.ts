@@ -0,0 +1,221 @@
+/**
+ * Resumable Stream Utilities
+ * Helpers for replaying a persisted, still-streaming assistant message to a
+ * client that reconnects after a reload or network drop
+ */
+
+import type { UIMessage, UIMessageChunk } from "ai";
+
+// How often the chat route writes the growing answer to the database
+export const RESUMABLE_STREAM_PERSIST_INTERVAL_MS = 1000;
+
+// How often the resume endpoint polls the database for new output
+export const RESUMABLE_STREAM_POLL_INTERVAL_MS = 500;
+
+// How often the chat route touches the streaming row while no output
+// arrives (long tool calls, hidden reasoning), so it does not look dead
+export const RESUMABLE_STREAM_HEARTBEAT_MS = 15_000;
+
+// A streaming row that has not been updated for this long belongs to a
+// generation that died (e.g. the function hit maxDuration) and is not resumed
+export const RESUMABLE_STREAM_STALE_MS = 60_000;
+
+type MessagePart = UIMessage["parts"][number];
+
+type ToolLikePart = {
+  type: string;
+  toolCallId: string;
+  toolName?: string;
+  state?: string;
+  input?: unknown;
+  output?: unknown;
+  errorText?: string;
+};
+
+const TOOL_INPUT_READY_STATES = new Set([
+  "input-available",
+  "output-available",
+  "output-error",
+]);
+
+/**
+ * Checks if a streaming row has stopped receiving updates
+ */
+export function isStaleStreamingMessage(
+  updatedAt: number | undefined,
+  now = Date.now()
+): boolean {
+  return updatedAt === undefined || now - updatedAt > RESUMABLE_STREAM_STALE_MS;
+}
+
+function isToolLikePart(part: MessagePart): part is MessagePart & ToolLikePart {
+  return (
+    (part.type.startsWith("tool-") || part.type === "dynamic-tool") &&
+    "toolCallId" in part
+  );
+}
+
+function diffTextLikePart(
+  kind: "text" | "reasoning",
+  id: string,
+  previous: { text: string; state?: string } | undefined,
+  next: { text: string; state?: string }
+): UIMessageChunk[] {
+  const chunks: UIMessageChunk[] = [];
+  const previousText = previous?.text ?? "";
+
+  if (!previous) {
+    chunks.push({ type: `${kind}-start`, id });
+  }
+  if (next.text.length > previousText.length) {
+    chunks.push({
+      type: `${kind}-delta`,
+      id,
+      delta: next.text.slice(previousText.length),
+    });
+  }
+  if (next.state === "done" && previous?.state !== "done") {
+    chunks.push({ type: `${kind}-end`, id });
+  }
+
+  return chunks;
+}
+
+function diffToolPart(
+  previous: ToolLikePart | undefined,
+  next: ToolLikePart
+): UIMessageChunk[] {
+  const chunks: UIMessageChunk[] = [];
+  const dynamic = next.type === "dynamic-tool";
+  const toolName = dynamic ? (next.toolName ?? "") : next.type.slice(5);
+
+  if (!previous) {
+    chunks.push({
+      type: "tool-input-start",
+      toolCallId: next.toolCallId,
+      toolName,
+      dynamic,
+    });
+  }
+
+  const wasInputReady = TOOL_INPUT_READY_STATES.has(previous?.state ?? "");
+  if (TOOL_INPUT_READY_STATES.has(next.state ?? "") && !wasInputReady) {
+    chunks.push({
+      type: "tool-input-available",
+      toolCallId: next.toolCallId,
+      toolName,
+      input: next.input,
+      dynamic,
+    });
+  }
+
+  if (
+    next.state === "output-available" &&
+    previous?.state !== "output-available"
+  ) {
+    chunks.push({
+      type: "tool-output-available",
+      toolCallId: next.toolCallId,
+      output: next.output,
+      dynamic,
+    });
+  }
+
+  if (next.state === "output-error" && previous?.state !== "output-error") {
+    chunks.push({
+      type: "tool-output-error",
+      toolCallId: next.toolCallId,
+      errorText: next.errorText ?? "",
+      dynamic,
+    });
+  }
+
+  return chunks;
+}
+
+function diffPart(
+  index: number,
+  previous: MessagePart | undefined,
+  next: MessagePart
+): UIMessageChunk[] {
+  if (next.type === "text" || next.type === "reasoning") {
+    const previousTextPart =
+      previous?.type === next.type ? (previous as typeof next) : undefined;
+    return diffTextLikePart(
+      next.type,
+      `${next.type}-${index}`,
+      previousTextPart,
+      next
+    );
+  }
+
+  if (isToolLikePart(next)) {
+    return diffToolPart(
+      previous && isToolLikePart(previous) ? previous : undefined,
+      next
+    );
+  }
+
+  if (next.type.startsWith("data-")) {
+    const dataPart = next as {
+      type: `data-${string}`;
+      id?: string;
+      data: unknown;
+    };
+    const changed =
+      !previous ||
+      JSON.stringify((previous as { data?: unknown }).data) !==
+        JSON.stringify(dataPart.data);
+    // Data parts without an id are appended on every write, so only send once
+    if (!previous || (changed && dataPart.id)) {
+      return [{ type: dataPart.type, id: dataPart.id, data: dataPart.data }];
+    }
+    return [];
+  }
+
+  if (previous) {
+    return [];
+  }
+
+  switch (next.type) {
+    case "step-start":
+      return [{ type: "start-step" }];
+    case "source-url":
+      return [
+        {
+          type: "source-url",
+          sourceId: next.sourceId,
+          url: next.url,
+          title: next.title,
+        },
+      ];
+    case "source-document":
+      return [
+        {
+          type: "source-document",
+          sourceId: next.sourceId,
+          mediaType: next.mediaType,
+          title: next.title,
+          filename: next.filename,
+        },
+      ];
+    case "file":
+      return [{ type: "file", url: next.url, mediaType: next.mediaType }];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Computes the UI stream chunks that turn a client's copy of a message
+ * (previousParts) into the latest persisted parts (nextParts).
+ * Parts are assumed to only grow, which holds for a streaming answer.
+ */
+export function diffPartsToChunks(
+  previousParts: UIMessage["parts"],
+  nextParts: UIMessage["parts"]
+): UIMessageChunk[] {
+  return nextParts.flatMap((part, index) =>
+    diffPart(index, previousParts[index], part)
+  );
+}
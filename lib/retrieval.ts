@@ -0,0 +1,132 @@
+import { openai } from "@ai-sdk/openai";
+import { embedMany } from "ai";
+import { EMBEDDING_DIMENSIONS } from "@/lib/config/constants";
+
+export const EMBEDDING_MODEL = "text-embedding-3-small";
+
+// Model used to transcribe PDFs before they are chunked
+export const DOCUMENT_EXTRACTION_MODEL = "gemini-2.5-flash-lite";
+
+export const RETRIEVAL_CONFIG = {
+  chunkSize: 1200,
+  chunkOverlap: 200,
+  maxChunksPerDocument: 200,
+  defaultResults: 5,
+  maxResults: 10,
+} as const;
+
+const CRLF_RE = /\r\n/g;
+const WHITESPACE_RE = /[ \t]+/g;
+const BLANK_LINES_RE = /\n{3,}/g;
+const PARAGRAPH_SPLIT_RE = /\n\s*\n/;
+const TOKEN_RE = /[\p{L}\p{N}]+/gu;
+
+export type Embedder = {
+  dimensions: number;
+  embed: (texts: string[]) => Promise<number[][]>;
+};
+
+/**
+ * Split text into overlapping chunks, preferring paragraph boundaries so
+ * passages stay readable when they are quoted back as citations
+ */
+export function chunkText(
+  text: string,
+  chunkSize: number = RETRIEVAL_CONFIG.chunkSize,
+  overlap: number = RETRIEVAL_CONFIG.chunkOverlap
+): string[] {
+  const normalized = text
+    .replace(CRLF_RE, "\n")
+    .replace(WHITESPACE_RE, " ")
+    .replace(BLANK_LINES_RE, "\n\n")
+    .trim();
+  if (!normalized) {
+    return [];
+  }
+
+  // Slices leave room for the overlap carried into the next chunk
+  const sliceSize = Math.max(chunkSize - overlap - 2, 1);
+  const pieces = normalized.split(PARAGRAPH_SPLIT_RE).flatMap((paragraph) => {
+    const slices: string[] = [];
+    for (let start = 0; start < paragraph.length; start += sliceSize) {
+      slices.push(paragraph.slice(start, start + sliceSize).trim());
+    }
+    return slices.filter(Boolean);
+  });
+
+  const chunks: string[] = [];
+  let current = "";
+  let hasNewText = false;
+
+  for (const piece of pieces) {
+    if (hasNewText && current.length + piece.length + 2 > chunkSize) {
+      chunks.push(current);
+      current = overlap > 0 ? current.slice(-overlap).trimStart() : "";
+      hasNewText = false;
+    }
+    current = current ? `${current}\n\n${piece}` : piece;
+    hasNewText = true;
+  }
+  if (hasNewText) {
+    chunks.push(current);
+  }
+
+  return chunks;
+}
+
+/**
+ * Deterministic bag-of-words embedder using feature hashing. Needs no API
+ * key, so it backs tests and local development.
+ */
+export function createLocalEmbedder(
+  dimensions: number = EMBEDDING_DIMENSIONS
+): Embedder {
+  // Polynomial string hash kept within 32 bits
+  const hashToken = (token: string) => {
+    let hash = 7;
+    for (let i = 0; i < token.length; i++) {
+      hash = (hash * 31 + token.charCodeAt(i)) % 4_294_967_296;
+    }
+    return hash;
+  };
+
+  const embedOne = (text: string) => {
+    const vector = new Array<number>(dimensions).fill(0);
+    for (const token of text.toLowerCase().match(TOKEN_RE) ?? []) {
+      const hash = hashToken(token);
+      // The remaining hash bits pick the sign to reduce collision bias
+      vector[hash % dimensions] +=
+        Math.floor(hash / dimensions) % 2 === 0 ? 1 : -1;
+    }
+    const norm = Math.hypot(...vector);
+    return norm > 0 ? vector.map((value) => value / norm) : vector;
+  };
+
+  return {
+    dimensions,
+    embed: (texts) => Promise.resolve(texts.map(embedOne)),
+  };
+}
+
+export function createOpenAIEmbedder(): Embedder {
+  return {
+    dimensions: EMBEDDING_DIMENSIONS,
+    embed: async (texts) => {
+      const { embeddings } = await embedMany({
+        model: openai.textEmbedding(EMBEDDING_MODEL),
+        values: texts,
+      });
+      return embeddings;
+    },
+  };
+}
+
+/**
+ * Get the embedder configured for this deployment.
+ * Set EMBEDDING_PROVIDER=local to index without an OpenAI key.
+ */
+export function getEmbedder(): Embedder {
+  return process.env.EMBEDDING_PROVIDER === "local"
+    ? createLocalEmbedder()
+    : createOpenAIEmbedder();
+}
@@ -0,0 +1,146 @@
+/**
+ * Search Result Cache
+ * Keeps web search results for a short time so the same query, run again in
+ * a chat, does not go back to the provider
+ */
+
+export type SearchCacheStoreType = "redis" | "memory" | "none";
+
+export type SearchCacheStore = {
+  get<T>(key: string): Promise<T | null>;
+  set<T>(key: string, value: T, ttlSeconds: number): Promise<void>;
+};
+
+const SEARCH_CACHE_PREFIX = "search:results:";
+const WHITESPACE_REGEX = /\s+/g;
+
+// Entries kept by the in-memory store before the oldest are dropped
+export const MEMORY_SEARCH_CACHE_MAX_ENTRIES = 500;
+
+/**
+ * Pick the cache store from config: an explicit SEARCH_CACHE_STORE, else
+ * Upstash Redis when it is configured, else memory
+ */
+export function getSearchCacheStoreType(
+  value: string | undefined,
+  hasRedis = Boolean(process.env.UPSTASH_REDIS_REST_URL)
+): SearchCacheStoreType {
+  if (value === "redis" || value === "memory" || value === "none") {
+    return value;
+  }
+  return hasRedis ? "redis" : "memory";
+}
+
+/**
+ * Normalize a query so case and spacing differences share a cache entry
+ */
+export function normalizeSearchQuery(query: string): string {
+  return query.trim().toLowerCase().replace(WHITESPACE_REGEX, " ");
+}
+
+// Helper function to serialize options with sorted keys, skipping unset
+// values. Arrays keep their order, since the provider order picks results.
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    return `{${Object.entries(value)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([key, entry]) => `${JSON.stringify(key)}:${stableStringify(entry)}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Build the cache key of a search from its normalized query and options
+ */
+export function getSearchCacheKey(
+  query: string,
+  options: Record<string, unknown> = {}
+): string {
+  return `${SEARCH_CACHE_PREFIX}${normalizeSearchQuery(query)}:${stableStringify(options)}`;
+}
+
+/**
+ * In-memory store for local runs. Entries live only as long as the server
+ * process, and the oldest are dropped past the size limit.
+ */
+export function createMemorySearchCache(
+  maxEntries = MEMORY_SEARCH_CACHE_MAX_ENTRIES
+): SearchCacheStore {
+  const entries = new Map<string, { value: unknown; expiresAt: number }>();
+
+  return {
+    get<T>(key: string) {
+      const entry = entries.get(key);
+      if (!entry) {
+        return Promise.resolve(null);
+      }
+      if (entry.expiresAt <= Date.now()) {
+        entries.delete(key);
+        return Promise.resolve(null);
+      }
+      return Promise.resolve(entry.value as T);
+    },
+    set<T>(key: string, value: T, ttlSeconds: number) {
+      entries.delete(key);
+      entries.set(key, { value, expiresAt: Date.now() + ttlSeconds * 1000 });
+      // Maps keep insertion order, so the first key is the oldest
+      while (entries.size > maxEntries) {
+        const oldest = entries.keys().next().value;
+        if (oldest === undefined) {
+          break;
+        }
+        entries.delete(oldest);
+      }
+      return Promise.resolve();
+    },
+  };
+}
+
+// Helper function to load the Upstash client only when the Redis store is used
+const getRedis = async () => (await import("./composio-cache")).redis;
+
+/**
+ * Upstash Redis store, shared by every server instance
+ */
+export function createRedisSearchCache(): SearchCacheStore {
+  return {
+    async get<T>(key: string) {
+      try {
+        const redis = await getRedis();
+        return await redis.get<T>(key);
+      } catch {
+        // Silently fail - caching is optional
+        return null;
+      }
+    },
+    async set<T>(key: string, value: T, ttlSeconds: number) {
+      try {
+        const redis = await getRedis();
+        await redis.set(key, value, { ex: ttlSeconds });
+      } catch {
+        // Silently fail - caching is optional
+      }
+    },
+  };
+}
+
+/**
+ * Create the cache store of a type, or null when caching is off
+ */
+export function createSearchCache(
+  type: SearchCacheStoreType
+): SearchCacheStore | null {
+  switch (type) {
+    case "redis":
+      return createRedisSearchCache();
+    case "memory":
+      return createMemorySearchCache();
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * Web search providers users can choose between, and the settings that set
+ * the order they are tried in. Kept free of SDK imports so Convex functions
+ * can use it.
+ */
+
+export const SEARCH_PROVIDERS = [
+  "brave",
+  "tavily",
+  "exa",
+  "searxng",
+  "custom",
+] as const;
+
+export type SearchProvider = (typeof SEARCH_PROVIDERS)[number];
+
+// Providers users can store their own API key for. SearXNG instances are
+// reached by URL and usually need no key.
+export const SEARCH_KEY_PROVIDERS = [
+  "brave",
+  "tavily",
+  "exa",
+  "custom",
+] as const;
+
+export type SearchKeyProvider = (typeof SEARCH_KEY_PROVIDERS)[number];
+
+export const SEARCH_PROVIDER_LABELS: Record<SearchProvider, string> = {
+  brave: "Brave Search",
+  tavily: "Tavily",
+  exa: "Exa",
+  searxng: "SearXNG",
+  custom: "Custom endpoint",
+};
+
+export type UserSearchSettings = {
+  providers: SearchProvider[]; // Primary first, then the fallback order
+  searxngUrl?: string;
+  customEndpointUrl?: string;
+};
+
+const TRAILING_SLASHES_REGEX = /\/+$/;
+
+export function isSearchProvider(
+  value: string | undefined
+): value is SearchProvider {
+  return (SEARCH_PROVIDERS as readonly (string | undefined)[]).includes(value);
+}
+
+// Helper function to validate and normalize a search endpoint URL. Returns
+// undefined when the URL cannot be used.
+export function normalizeSearchUrl(value: string): string | undefined {
+  try {
+    const url = new URL(value.trim());
+    if (url.protocol !== "http:" && url.protocol !== "https:") {
+      return;
+    }
+    return url.toString().replace(TRAILING_SLASHES_REGEX, "");
+  } catch {
+    return;
+  }
+}
+
+/**
+ * Validate search settings before saving them. Returns an error message, or
+ * undefined when the settings are valid. Empty URLs fall back to the server's
+ * SEARXNG_URL and CUSTOM_SEARCH_URL.
+ */
+export function validateSearchSettings(
+  settings: UserSearchSettings
+): string | undefined {
+  if (new Set(settings.providers).size !== settings.providers.length) {
+    return "Each search provider can only be listed once";
+  }
+  if (settings.searxngUrl && !normalizeSearchUrl(settings.searxngUrl)) {
+    return "The SearXNG URL must start with http:// or https://";
+  }
+  if (
+    settings.customEndpointUrl &&
+    !normalizeSearchUrl(settings.customEndpointUrl)
+  ) {
+    return "The custom endpoint URL must start with http:// or https://";
+  }
+}
+
+/**
+ * Get the order providers are tried in: the user's own order when they set
+ * one, otherwise the default provider followed by the others
+ */
+export function getSearchProviderOrder(
+  defaultProvider: SearchProvider,
+  userProviders?: SearchProvider[]
+): SearchProvider[] {
+  if (userProviders && userProviders.length > 0) {
+    return userProviders;
+  }
+  return [
+    defaultProvider,
+    ...SEARCH_PROVIDERS.filter((provider) => provider !== defaultProvider),
+  ];
+}
@@ -0,0 +1,175 @@
+/**
+ * Channels that deliver scheduled task results besides email, and the
+ * policy that decides which runs are delivered.
+ */
+
+// Webhook signing secrets are generated and kept by the server, see
+// getWebhookSecret
+export type NotificationChannel =
+  | { type: "webhook"; url: string }
+  | { type: "slack"; channel: string }
+  | { type: "in_app" };
+
+export type NotificationChannelType = NotificationChannel["type"] | "email";
+
+export type NotificationPolicy = {
+  when: "always" | "failure" | "match";
+  match?: string; // Text the run's output must contain, for "match"
+};
+
+export type TaskRunOutcome = {
+  status: "success" | "failure";
+  output: string; // Last step output, or the error of a failed run
+};
+
+export type TaskWebhookPayload = {
+  event: "task.run.succeeded" | "task.run.failed";
+  task: { id: string; title: string };
+  run: {
+    executionId: string;
+    status: "success" | "failure";
+    attempt: number;
+    finishedAt: string;
+    chatUrl?: string;
+  };
+  summary: string;
+  error?: string;
+};
+
+export const DEFAULT_NOTIFICATION_POLICY: NotificationPolicy = {
+  when: "always",
+};
+
+export const MAX_NOTIFICATION_CHANNELS = 5;
+export const MAX_NOTIFICATION_SUMMARY_LENGTH = 3000;
+
+export const NOTIFICATION_CHANNEL_LABELS: Record<
+  NotificationChannelType,
+  string
+> = {
+  email: "Email",
+  webhook: "Webhook",
+  slack: "Slack",
+  in_app: "In-app",
+};
+
+// Headers sent with every webhook delivery
+export const WEBHOOK_SIGNATURE_HEADER = "X-OSChat-Signature";
+export const WEBHOOK_TIMESTAMP_HEADER = "X-OSChat-Timestamp";
+export const WEBHOOK_EVENT_HEADER = "X-OSChat-Event";
+
+const SLACK_CHANNEL_REGEX = /^[#@]?[\w.-]+$/;
+
+/**
+ * Check whether a run should be delivered. Failures always match "failure";
+ * "match" only delivers successful runs whose output contains the text.
+ */
+export function shouldDeliverNotification(
+  policy: NotificationPolicy | undefined,
+  outcome: TaskRunOutcome
+): boolean {
+  const { when, match } = policy ?? DEFAULT_NOTIFICATION_POLICY;
+  switch (when) {
+    case "failure":
+      return outcome.status === "failure";
+    case "match":
+      return (
+        outcome.status === "success" &&
+        Boolean(match?.trim()) &&
+        outcome.output
+          .toLowerCase()
+          .includes((match ?? "").trim().toLowerCase())
+      );
+    default:
+      return true;
+  }
+}
+
+// Helper function to shorten a run's output for delivery
+export function truncateNotificationSummary(summary: string): string {
+  if (summary.length <= MAX_NOTIFICATION_SUMMARY_LENGTH) {
+    return summary;
+  }
+  return `${summary.slice(0, MAX_NOTIFICATION_SUMMARY_LENGTH)}…`;
+}
+
+// Helper function to check a webhook url can be posted to
+function isHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === "https:" || url.protocol === "http:";
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Validate notification settings before saving a task. Returns an error
+ * message, or undefined when the settings are valid.
+ */
+export function validateNotificationSettings(
+  channels: NotificationChannel[],
+  policy: NotificationPolicy | undefined
+): string | undefined {
+  if (channels.length > MAX_NOTIFICATION_CHANNELS) {
+    return `Tasks can notify at most ${MAX_NOTIFICATION_CHANNELS} channels`;
+  }
+  for (const channel of channels) {
+    if (channel.type === "webhook" && !isHttpUrl(channel.url.trim())) {
+      return "Webhook URLs must start with http:// or https://";
+    }
+    if (
+      channel.type === "slack" &&
+      !SLACK_CHANNEL_REGEX.test(channel.channel.trim())
+    ) {
+      return "Enter a Slack channel such as #alerts";
+    }
+  }
+  if (policy?.when === "match" && !policy.match?.trim()) {
+    return "Enter the text results must contain to be delivered";
+  }
+}
+
+/**
+ * Sign a webhook body: an HMAC-SHA256 of `timestamp.body` with the channel
+ * secret, hex encoded and sent as `sha256=<hex>`
+ */
+export async function signWebhookPayload(
+  body: string,
+  secret: string,
+  timestamp: string
+): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const digest = await crypto.subtle.sign(
+    "HMAC",
+    key,
+    encoder.encode(`${timestamp}.${body}`)
+  );
+  const hex = Array.from(new Uint8Array(digest), (byte) =>
+    byte.toString(16).padStart(2, "0")
+  ).join("");
+  return `sha256=${hex}`;
+}
+
+// Helper function to format a run result as a Slack or in-app message
+export function formatNotificationMessage(
+  taskTitle: string,
+  outcome: TaskRunOutcome,
+  chatUrl?: string
+): string {
+  const heading =
+    outcome.status === "success"
+      ? `*${taskTitle}* finished`
+      : `*${taskTitle}* failed`;
+  const summary = truncateNotificationSummary(outcome.output);
+  return [heading, summary, chatUrl ? `View results: ${chatUrl}` : undefined]
+    .filter(Boolean)
+    .join("\n\n");
+}
@@ -0,0 +1,69 @@
+export type TaskRetryPolicy = {
+  maxAttempts: number; // Including the first run
+  backoffMinutes: number; // Delay before the first retry, doubled after each
+};
+
+export const DEFAULT_TASK_RETRY_POLICY: TaskRetryPolicy = {
+  maxAttempts: 3,
+  backoffMinutes: 5,
+};
+
+export const MAX_TASK_ATTEMPTS = 5;
+export const MAX_RETRY_BACKOFF_MINUTES = 60;
+
+// Convex actions stop after ten minutes, so runs must finish before that
+export const DEFAULT_TASK_TIMEOUT_MINUTES = 5;
+export const MAX_TASK_TIMEOUT_MINUTES = 9;
+
+/**
+ * Get the delay before retrying a failed attempt. The backoff doubles with
+ * each attempt, e.g. 5, 10 and 20 minutes.
+ */
+export function getRetryDelayMs(
+  policy: TaskRetryPolicy,
+  failedAttempt: number
+): number {
+  return policy.backoffMinutes * 2 ** (failedAttempt - 1) * 60 * 1000;
+}
+
+// Helper function to check whether a failed attempt has retries left
+export function hasRetriesLeft(
+  policy: TaskRetryPolicy,
+  failedAttempt: number
+): boolean {
+  return failedAttempt < policy.maxAttempts;
+}
+
+/**
+ * Validate retry and timeout settings before saving a task. Returns an error
+ * message, or undefined when the settings are valid.
+ */
+export function validateRetrySettings(
+  policy: TaskRetryPolicy | undefined,
+  timeoutMinutes: number | undefined
+): string | undefined {
+  if (policy) {
+    if (
+      !Number.isInteger(policy.maxAttempts) ||
+      policy.maxAttempts < 1 ||
+      policy.maxAttempts > MAX_TASK_ATTEMPTS
+    ) {
+      return `Attempts must be between 1 and ${MAX_TASK_ATTEMPTS}`;
+    }
+    if (
+      !Number.isInteger(policy.backoffMinutes) ||
+      policy.backoffMinutes < 1 ||
+      policy.backoffMinutes > MAX_RETRY_BACKOFF_MINUTES
+    ) {
+      return `Retry delay must be between 1 and ${MAX_RETRY_BACKOFF_MINUTES} minutes`;
+    }
+  }
+  if (
+    timeoutMinutes !== undefined &&
+    (!Number.isInteger(timeoutMinutes) ||
+      timeoutMinutes < 1 ||
+      timeoutMinutes > MAX_TASK_TIMEOUT_MINUTES)
+  ) {
+    return `Timeout must be between 1 and ${MAX_TASK_TIMEOUT_MINUTES} minutes`;
+  }
+}
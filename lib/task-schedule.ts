@@ -0,0 +1,753 @@
+import dayjs from "dayjs";
+import timezonePlugin from "dayjs/plugin/timezone";
+import utc from "dayjs/plugin/utc";
+
+// Extend dayjs with plugins
+dayjs.extend(utc);
+dayjs.extend(timezonePlugin);
+
+export type ScheduleType =
+  | "onetime"
+  | "daily"
+  | "weekly"
+  | "monthly"
+  | "interval"
+  | "cron"
+  // Runs when a connector event arrives instead of on a schedule
+  | "event";
+
+export type MonthlyRule =
+  // Day of the month; months without that day run on their last day
+  | { type: "day"; day: number }
+  // Nth weekday of the month, with -1 for the last one
+  | { type: "weekday"; week: number; weekday: number };
+
+export type TaskSchedule = {
+  scheduleType: ScheduleType;
+  scheduledTime: string; // "HH:MM", or "day:HH:MM" for weekly tasks
+  timezone: string;
+  scheduledDate?: string; // "YYYY-MM-DD": run date (onetime) or start date (interval)
+  monthlyRule?: MonthlyRule;
+  intervalMinutes?: number;
+  cronExpression?: string;
+};
+
+export const MIN_RUN_INTERVAL_MINUTES = 30;
+
+const MINUTE_MS = 60 * 1000;
+const DATE_FORMAT = "YYYY-MM-DD";
+// Far enough ahead to reach the next February 29th
+const CRON_SEARCH_DAYS = 366 * 8;
+// Runs checked when validating the minimum spacing of a schedule
+const SPACING_SAMPLE_SIZE = 24;
+
+const TIME_REGEX = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+const WHITESPACE_REGEX = /\s+/;
+const NUMBER_REGEX = /^\d+$/;
+
+const DAY_NAMES = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+] as const;
+
+const MONTH_NAMES = [
+  "January",
+  "February",
+  "March",
+  "April",
+  "May",
+  "June",
+  "July",
+  "August",
+  "September",
+  "October",
+  "November",
+  "December",
+] as const;
+
+const ORDINALS: Record<number, string> = {
+  1: "first",
+  2: "second",
+  3: "third",
+  4: "fourth",
+  5: "fifth",
+  [-1]: "last",
+};
+
+const CRON_MACROS: Record<string, string> = {
+  "@hourly": "0 * * * *",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@weekly": "0 0 * * 0",
+  "@monthly": "0 0 1 * *",
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+};
+
+const CRON_DAY_NAMES = ["SUN", "MON", "TUE", "WED", "THU", "FRI", "SAT"];
+const CRON_MONTH_NAMES = [
+  "JAN",
+  "FEB",
+  "MAR",
+  "APR",
+  "MAY",
+  "JUN",
+  "JUL",
+  "AUG",
+  "SEP",
+  "OCT",
+  "NOV",
+  "DEC",
+];
+
+export type CronSchedule = {
+  minutes: number[];
+  hours: number[];
+  daysOfMonth: Set<number>;
+  lastDayOfMonth: boolean;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // "1#1" (first Monday) and "5L" (last Friday) style entries
+  nthWeekdays: { weekday: number; week: number }[];
+  isDayOfMonthRestricted: boolean;
+  isDayOfWeekRestricted: boolean;
+};
+
+type CronFieldRange = {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+  namesStart?: number;
+};
+
+const CRON_FIELDS = {
+  minute: { name: "minute", min: 0, max: 59 },
+  hour: { name: "hour", min: 0, max: 23 },
+  dayOfMonth: { name: "day of month", min: 1, max: 31 },
+  month: {
+    name: "month",
+    min: 1,
+    max: 12,
+    names: CRON_MONTH_NAMES,
+    namesStart: 1,
+  },
+  dayOfWeek: {
+    name: "day of week",
+    min: 0,
+    max: 7,
+    names: CRON_DAY_NAMES,
+    namesStart: 0,
+  },
+} satisfies Record<string, CronFieldRange>;
+
+// Helper function to parse one value of a cron field, allowing names
+function parseCronValue(value: string, field: CronFieldRange): number {
+  const upper = value.toUpperCase();
+  const nameIndex = field.names?.indexOf(upper) ?? -1;
+  if (nameIndex >= 0) {
+    return nameIndex + (field.namesStart ?? 0);
+  }
+  if (!NUMBER_REGEX.test(value)) {
+    throw new Error(`Invalid ${field.name} value "${value}"`);
+  }
+  const parsed = Number.parseInt(value, 10);
+  if (parsed < field.min || parsed > field.max) {
+    throw new Error(
+      `${field.name} must be between ${field.min} and ${field.max}`
+    );
+  }
+  return parsed;
+}
+
+// Helper function to expand a cron field ("1-5", "*/15", "MON,WED") into values
+function parseCronField(expression: string, field: CronFieldRange): number[] {
+  const values = new Set<number>();
+
+  for (const part of expression.split(",")) {
+    const [range, stepText] = part.split("/");
+    const step = stepText === undefined ? 1 : Number.parseInt(stepText, 10);
+    if (stepText !== undefined && !(NUMBER_REGEX.test(stepText) && step > 0)) {
+      throw new Error(`Invalid ${field.name} step "${stepText}"`);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === "*" || range === "?") {
+      start = field.min;
+      end = field.max;
+    } else if (range.includes("-")) {
+      const [from, to] = range.split("-");
+      start = parseCronValue(from, field);
+      end = parseCronValue(to, field);
+      if (start > end) {
+        throw new Error(`Invalid ${field.name} range "${range}"`);
+      }
+    } else {
+      start = parseCronValue(range, field);
+      // "5/15" means every 15 starting at 5
+      end = stepText === undefined ? start : field.max;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return [...values].sort((a, b) => a - b);
+}
+
+/**
+ * Parse a standard five-field cron expression (minute hour day-of-month
+ * month day-of-week). Supports lists, ranges, steps, names, "L" for the last
+ * day of the month, and "1#1" / "5L" for nth and last weekdays.
+ */
+export function parseCronExpression(expression: string): CronSchedule {
+  const normalized =
+    CRON_MACROS[expression.trim().toLowerCase()] ?? expression.trim();
+  const fields = normalized.split(WHITESPACE_REGEX);
+  if (fields.length !== 5) {
+    throw new Error(
+      "Cron expressions need 5 fields: minute hour day-of-month month day-of-week"
+    );
+  }
+  const [minuteField, hourField, domField, monthField, dowField] = fields;
+
+  const daysOfMonth = new Set<number>();
+  let lastDayOfMonth = false;
+  for (const part of domField.split(",")) {
+    if (part.toUpperCase() === "L") {
+      lastDayOfMonth = true;
+    } else {
+      for (const day of parseCronField(part, CRON_FIELDS.dayOfMonth)) {
+        daysOfMonth.add(day);
+      }
+    }
+  }
+
+  const daysOfWeek = new Set<number>();
+  const nthWeekdays: CronSchedule["nthWeekdays"] = [];
+  for (const part of dowField.split(",")) {
+    const upper = part.toUpperCase();
+    if (upper.includes("#")) {
+      const [day, week] = upper.split("#");
+      const weekNumber = Number.parseInt(week, 10);
+      if (!(NUMBER_REGEX.test(week) && weekNumber >= 1 && weekNumber <= 5)) {
+        throw new Error(`Invalid day of week "${part}"`);
+      }
+      nthWeekdays.push({
+        weekday: parseCronValue(day, CRON_FIELDS.dayOfWeek) % 7,
+        week: weekNumber,
+      });
+    } else if (upper.length > 1 && upper.endsWith("L")) {
+      nthWeekdays.push({
+        weekday: parseCronValue(upper.slice(0, -1), CRON_FIELDS.dayOfWeek) % 7,
+        week: -1,
+      });
+    } else {
+      for (const day of parseCronField(part, CRON_FIELDS.dayOfWeek)) {
+        // 7 is another name for Sunday
+        daysOfWeek.add(day % 7);
+      }
+    }
+  }
+
+  return {
+    minutes: parseCronField(minuteField, CRON_FIELDS.minute),
+    hours: parseCronField(hourField, CRON_FIELDS.hour),
+    daysOfMonth,
+    lastDayOfMonth,
+    months: new Set(parseCronField(monthField, CRON_FIELDS.month)),
+    daysOfWeek,
+    nthWeekdays,
+    isDayOfMonthRestricted: domField !== "*" && domField !== "?",
+    isDayOfWeekRestricted: dowField !== "*" && dowField !== "?",
+  };
+}
+
+// Helper function to parse "HH:MM" into hours and minutes
+function parseTime(time: string): { hours: number; minutes: number } {
+  const match = TIME_REGEX.exec(time);
+  if (!match) {
+    throw new Error(`Invalid time "${time}"`);
+  }
+  return {
+    hours: Number.parseInt(match[1], 10),
+    minutes: Number.parseInt(match[2], 10),
+  };
+}
+
+// Helper function to split a weekly "day:HH:MM" time into its parts
+function parseWeeklySchedule(scheduledTime: string): {
+  day: number;
+  time: string;
+} {
+  const [day, ...time] = scheduledTime.split(":");
+  const dayNumber = Number.parseInt(day, 10);
+  if (!(NUMBER_REGEX.test(day) && dayNumber >= 0 && dayNumber <= 6)) {
+    throw new Error(`Invalid weekly time "${scheduledTime}"`);
+  }
+  return { day: dayNumber, time: time.join(":") };
+}
+
+/**
+ * Get the timestamp of a wall-clock time in a timezone. Times skipped by a
+ * DST change move forward by the gap, and repeated times use their first
+ * occurrence, so a schedule never runs twice or silently skips a day.
+ */
+function zonedTimestamp(
+  date: string,
+  hours: number,
+  minutes: number,
+  timezone: string
+): number {
+  const hh = String(hours).padStart(2, "0");
+  const mm = String(minutes).padStart(2, "0");
+  const timestamp = dayjs.tz(`${date}T${hh}:${mm}`, timezone).valueOf();
+  if (Number.isNaN(timestamp)) {
+    throw new Error(`Invalid date "${date}"`);
+  }
+  return timestamp;
+}
+
+// Helper function to get the calendar date of a timestamp in a timezone
+function localDate(timestamp: number, timezone: string): string {
+  return dayjs(timestamp).tz(timezone).format(DATE_FORMAT);
+}
+
+// Calendar arithmetic runs in UTC so DST changes cannot shift the date
+function addDays(date: string, days: number): string {
+  return dayjs.utc(date).add(days, "day").format(DATE_FORMAT);
+}
+
+// Helper function to find the day of the month for a monthly rule
+function getMonthlyRuleDay(
+  rule: MonthlyRule,
+  year: number,
+  month: number
+): number {
+  const firstOfMonth = dayjs.utc(Date.UTC(year, month, 1));
+  const daysInMonth = firstOfMonth.daysInMonth();
+
+  if (rule.type === "day") {
+    return Math.min(rule.day, daysInMonth);
+  }
+
+  if (rule.week === -1) {
+    const lastWeekday = firstOfMonth.date(daysInMonth).day();
+    return daysInMonth - ((lastWeekday - rule.weekday + 7) % 7);
+  }
+
+  const firstMatch = 1 + ((rule.weekday - firstOfMonth.day() + 7) % 7);
+  return firstMatch + (rule.week - 1) * 7;
+}
+
+// Helper function to check whether a calendar date matches a cron schedule
+function matchesCronDay(cron: CronSchedule, date: dayjs.Dayjs): boolean {
+  if (!cron.months.has(date.month() + 1)) {
+    return false;
+  }
+
+  const day = date.date();
+  const weekday = date.day();
+  const daysInMonth = date.daysInMonth();
+
+  const matchesDayOfMonth =
+    cron.daysOfMonth.has(day) || (cron.lastDayOfMonth && day === daysInMonth);
+  const matchesDayOfWeek =
+    cron.daysOfWeek.has(weekday) ||
+    cron.nthWeekdays.some(
+      (entry) =>
+        entry.weekday === weekday &&
+        (entry.week === -1
+          ? day + 7 > daysInMonth
+          : Math.ceil(day / 7) === entry.week)
+    );
+
+  // Like cron, a day matches either field when both are restricted
+  if (cron.isDayOfMonthRestricted && cron.isDayOfWeekRestricted) {
+    return matchesDayOfMonth || matchesDayOfWeek;
+  }
+  if (cron.isDayOfMonthRestricted) {
+    return matchesDayOfMonth;
+  }
+  if (cron.isDayOfWeekRestricted) {
+    return matchesDayOfWeek;
+  }
+  return true;
+}
+
+// Helper function to find the next run of a cron schedule after a timestamp
+function getNextCronRun(
+  cron: CronSchedule,
+  timezone: string,
+  after: number
+): number {
+  let date = localDate(after, timezone);
+
+  for (let i = 0; i < CRON_SEARCH_DAYS; i++) {
+    if (matchesCronDay(cron, dayjs.utc(date))) {
+      for (const hours of cron.hours) {
+        for (const minutes of cron.minutes) {
+          const timestamp = zonedTimestamp(date, hours, minutes, timezone);
+          if (timestamp > after) {
+            return timestamp;
+          }
+        }
+      }
+    }
+    date = addDays(date, 1);
+  }
+
+  throw new Error("This cron expression never runs");
+}
+
+/**
+ * Get the next time a schedule runs after the given timestamp. One-time
+ * schedules return their run time even when it has passed. Throws on
+ * invalid schedules.
+ */
+export function getNextRunTime(
+  schedule: TaskSchedule,
+  after: number = Date.now()
+): number {
+  const { timezone } = schedule;
+
+  switch (schedule.scheduleType) {
+    case "onetime": {
+      const { hours, minutes } = parseTime(schedule.scheduledTime);
+      // Fallback to tomorrow if no date provided (backward compatibility)
+      const date =
+        schedule.scheduledDate ?? addDays(localDate(after, timezone), 1);
+      return zonedTimestamp(date, hours, minutes, timezone);
+    }
+
+    case "daily":
+    case "weekly": {
+      const weekly =
+        schedule.scheduleType === "weekly"
+          ? parseWeeklySchedule(schedule.scheduledTime)
+          : undefined;
+      const { hours, minutes } = parseTime(
+        weekly?.time ?? schedule.scheduledTime
+      );
+
+      let date = localDate(after, timezone);
+      for (let i = 0; i <= 8; i++) {
+        const matchesDay =
+          weekly === undefined || dayjs.utc(date).day() === weekly.day;
+        if (matchesDay) {
+          const timestamp = zonedTimestamp(date, hours, minutes, timezone);
+          if (timestamp > after) {
+            return timestamp;
+          }
+        }
+        date = addDays(date, 1);
+      }
+      throw new Error("Could not find the next run time");
+    }
+
+    case "monthly": {
+      const rule = schedule.monthlyRule;
+      if (!rule) {
+        throw new Error("Monthly schedules need a day of the month");
+      }
+      const { hours, minutes } = parseTime(schedule.scheduledTime);
+
+      const start = dayjs.utc(localDate(after, timezone));
+      for (let i = 0; i <= 12; i++) {
+        const month = start.add(i, "month");
+        const day = getMonthlyRuleDay(rule, month.year(), month.month());
+        const date = month.date(day).format(DATE_FORMAT);
+        const timestamp = zonedTimestamp(date, hours, minutes, timezone);
+        if (timestamp > after) {
+          return timestamp;
+        }
+      }
+      throw new Error("Could not find the next run time");
+    }
+
+    case "interval": {
+      const intervalMs = (schedule.intervalMinutes ?? 0) * MINUTE_MS;
+      if (intervalMs <= 0) {
+        throw new Error("Interval schedules need a number of minutes");
+      }
+      const { hours, minutes } = parseTime(schedule.scheduledTime);
+      // Runs are anchored to the start time so they never drift
+      const anchor = zonedTimestamp(
+        schedule.scheduledDate ?? localDate(after, timezone),
+        hours,
+        minutes,
+        timezone
+      );
+      if (anchor > after) {
+        return anchor;
+      }
+      return (
+        anchor + (Math.floor((after - anchor) / intervalMs) + 1) * intervalMs
+      );
+    }
+
+    case "cron": {
+      if (!schedule.cronExpression) {
+        throw new Error("Cron schedules need an expression");
+      }
+      return getNextCronRun(
+        parseCronExpression(schedule.cronExpression),
+        timezone,
+        after
+      );
+    }
+
+    default:
+      throw new Error("Invalid schedule type");
+  }
+}
+
+/**
+ * Get the next few run times of a schedule, e.g. for a preview. One-time
+ * schedules have a single run.
+ */
+export function getNextRunTimes(
+  schedule: TaskSchedule,
+  count: number,
+  after: number = Date.now()
+): number[] {
+  if (schedule.scheduleType === "onetime") {
+    return [getNextRunTime(schedule, after)];
+  }
+  if (schedule.scheduleType === "event") {
+    return [];
+  }
+
+  const runs: number[] = [];
+  let cursor = after;
+  while (runs.length < count) {
+    cursor = getNextRunTime(schedule, cursor);
+    runs.push(cursor);
+  }
+  return runs;
+}
+
+/**
+ * Validate a schedule before saving a task. Returns an error message, or
+ * undefined when the schedule is valid.
+ */
+export function validateSchedule(
+  schedule: TaskSchedule,
+  now: number = Date.now()
+): string | undefined {
+  try {
+    dayjs().tz(schedule.timezone);
+  } catch {
+    return `Invalid timezone: ${schedule.timezone}`;
+  }
+
+  // Event-triggered tasks have no run times to check
+  if (schedule.scheduleType === "event") {
+    return;
+  }
+
+  if (
+    schedule.scheduledDate !== undefined &&
+    !DATE_REGEX.test(schedule.scheduledDate)
+  ) {
+    return "Dates must use the YYYY-MM-DD format";
+  }
+
+  const rule = schedule.monthlyRule;
+  if (schedule.scheduleType === "monthly" && rule) {
+    if (rule.type === "day" && !(rule.day >= 1 && rule.day <= 31)) {
+      return "The day of the month must be between 1 and 31";
+    }
+    if (
+      rule.type === "weekday" &&
+      !(
+        [1, 2, 3, 4, -1].includes(rule.week) &&
+        rule.weekday >= 0 &&
+        rule.weekday <= 6
+      )
+    ) {
+      return "Pick a week and a weekday for monthly schedules";
+    }
+  }
+
+  if (
+    schedule.scheduleType === "interval" &&
+    !(
+      Number.isInteger(schedule.intervalMinutes) &&
+      (schedule.intervalMinutes ?? 0) >= MIN_RUN_INTERVAL_MINUTES
+    )
+  ) {
+    return `Intervals must be at least ${MIN_RUN_INTERVAL_MINUTES} minutes`;
+  }
+
+  // Without a fixed start date the anchor would move with every run
+  if (schedule.scheduleType === "interval" && !schedule.scheduledDate) {
+    return "Interval schedules need a start date";
+  }
+
+  try {
+    const runs = getNextRunTimes(schedule, SPACING_SAMPLE_SIZE, now);
+    for (let i = 1; i < runs.length; i++) {
+      if (runs[i] - runs[i - 1] < MIN_RUN_INTERVAL_MINUTES * MINUTE_MS) {
+        return `Runs must be at least ${MIN_RUN_INTERVAL_MINUTES} minutes apart`;
+      }
+    }
+  } catch (error) {
+    return error instanceof Error ? error.message : "Invalid schedule";
+  }
+}
+
+// Helper function to format "HH:MM" as "9:00 AM"
+function formatClockTime(hours: number, minutes: number): string {
+  const hour12 = hours % 12 === 0 ? 12 : hours % 12;
+  const ampm = hours < 12 ? "AM" : "PM";
+  return `${hour12}:${String(minutes).padStart(2, "0")} ${ampm}`;
+}
+
+// Helper function to join names as "A, B and C"
+function joinNames(names: string[]): string {
+  if (names.length <= 1) {
+    return names.join("");
+  }
+  return `${names.slice(0, -1).join(", ")} and ${names.at(-1)}`;
+}
+
+// Helper function to describe when in the day a cron expression runs
+function describeCronTime(
+  minuteField: string,
+  hourField: string,
+  cron: CronSchedule
+): string | undefined {
+  if (cron.minutes.length !== 1) {
+    if (minuteField.startsWith("*/") && hourField === "*") {
+      return `Every ${minuteField.slice(2)} minutes`;
+    }
+    return;
+  }
+  const [minute] = cron.minutes;
+
+  if (hourField === "*") {
+    return `Every hour at :${String(minute).padStart(2, "0")}`;
+  }
+  if (hourField.startsWith("*/")) {
+    return `Every ${hourField.slice(2)} hours at :${String(minute).padStart(2, "0")}`;
+  }
+  if (cron.hours.length <= 4) {
+    return `At ${joinNames(cron.hours.map((hour) => formatClockTime(hour, minute)))}`;
+  }
+}
+
+// Helper function to describe which days a cron expression runs on
+function describeCronDays(cron: CronSchedule): string | undefined {
+  const parts: string[] = [];
+
+  if (cron.isDayOfWeekRestricted) {
+    const weekdays = [...cron.daysOfWeek].sort((a, b) => a - b);
+    const key = weekdays.join(",");
+    if (key === "1,2,3,4,5") {
+      parts.push("on weekdays");
+    } else if (key === "0,6") {
+      parts.push("on weekends");
+    } else if (weekdays.length > 0) {
+      parts.push(`on ${joinNames(weekdays.map((day) => DAY_NAMES[day]))}`);
+    }
+    for (const { weekday, week } of cron.nthWeekdays) {
+      parts.push(`on the ${ORDINALS[week]} ${DAY_NAMES[weekday]} of the month`);
+    }
+  }
+
+  if (cron.isDayOfMonthRestricted) {
+    const days = [...cron.daysOfMonth].sort((a, b) => a - b);
+    if (days.length > 0) {
+      parts.push(`on day ${joinNames(days.map(String))} of the month`);
+    }
+    if (cron.lastDayOfMonth) {
+      parts.push("on the last day of the month");
+    }
+  }
+
+  if (cron.months.size < 12) {
+    const months = [...cron.months].sort((a, b) => a - b);
+    parts.push(
+      `in ${joinNames(months.map((month) => MONTH_NAMES[month - 1]))}`
+    );
+  }
+
+  return parts.length > 0 ? parts.join(" or ") : undefined;
+}
+
+// Helper function to describe a cron expression in words
+function describeCron(expression: string): string {
+  const normalized =
+    CRON_MACROS[expression.trim().toLowerCase()] ?? expression.trim();
+  const cron = parseCronExpression(normalized);
+  const [minuteField, hourField] = normalized.split(WHITESPACE_REGEX);
+
+  const time = describeCronTime(minuteField, hourField, cron);
+  if (!time) {
+    return `Custom schedule (${normalized})`;
+  }
+  const days = describeCronDays(cron);
+  return days ? `${time} ${days}` : `${time} every day`;
+}
+
+/**
+ * Describe a schedule in words, e.g. "Every Monday at 9:00 AM". Falls back
+ * to the raw expression for cron schedules too complex to put into words.
+ */
+export function describeSchedule(schedule: TaskSchedule): string {
+  try {
+    switch (schedule.scheduleType) {
+      case "onetime": {
+        const { hours, minutes } = parseTime(schedule.scheduledTime);
+        const date = schedule.scheduledDate
+          ? ` on ${dayjs.utc(schedule.scheduledDate).format("MMM D, YYYY")}`
+          : "";
+        return `Once${date} at ${formatClockTime(hours, minutes)}`;
+      }
+      case "daily": {
+        const { hours, minutes } = parseTime(schedule.scheduledTime);
+        return `Every day at ${formatClockTime(hours, minutes)}`;
+      }
+      case "weekly": {
+        const { day, time } = parseWeeklySchedule(schedule.scheduledTime);
+        const { hours, minutes } = parseTime(time);
+        return `Every ${DAY_NAMES[day]} at ${formatClockTime(hours, minutes)}`;
+      }
+      case "monthly": {
+        const { hours, minutes } = parseTime(schedule.scheduledTime);
+        const rule = schedule.monthlyRule;
+        const on =
+          rule?.type === "weekday"
+            ? `the ${ORDINALS[rule.week]} ${DAY_NAMES[rule.weekday]}`
+            : `day ${rule?.day ?? 1}`;
+        return `Monthly on ${on} at ${formatClockTime(hours, minutes)}`;
+      }
+      case "interval": {
+        const { hours, minutes } = parseTime(schedule.scheduledTime);
+        const total = schedule.intervalMinutes ?? 0;
+        const every =
+          total % 60 === 0
+            ? `${total / 60} hour${total === 60 ? "" : "s"}`
+            : `${total} minutes`;
+        return `Every ${every} from ${formatClockTime(hours, minutes)}`;
+      }
+      case "cron":
+        return describeCron(schedule.cronExpression ?? "");
+      case "event":
+        return "When an event arrives";
+      default:
+        return schedule.scheduleType;
+    }
+  } catch {
+    return "Invalid schedule";
+  }
+}
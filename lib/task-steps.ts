@@ -0,0 +1,86 @@
+export const MAX_TASK_STEPS = 5;
+export const MAX_STEP_OUTPUT_LENGTH = 2000;
+
+export type TaskStepCondition = {
+  operator: "contains" | "not_contains";
+  value: string;
+};
+
+export type TaskStep = {
+  prompt: string;
+  toolkitSlugs?: string[];
+  condition?: TaskStepCondition;
+};
+
+/**
+ * Check whether a step should run given the previous step's output. Steps
+ * without a condition always run; matching ignores case.
+ */
+export function matchesStepCondition(
+  condition: TaskStepCondition | undefined,
+  previousOutput: string
+): boolean {
+  if (!condition) {
+    return true;
+  }
+
+  const contains = previousOutput
+    .toLowerCase()
+    .includes(condition.value.trim().toLowerCase());
+
+  return condition.operator === "contains" ? contains : !contains;
+}
+
+/**
+ * Get the toolkits a step may use. A step can only narrow the user's
+ * connected toolkits; without its own list it gets all of them.
+ */
+export function getStepToolkits(
+  stepToolkits: string[] | undefined,
+  connectedToolkits: string[]
+): string[] {
+  if (!stepToolkits) {
+    return connectedToolkits;
+  }
+  const allowed = new Set(stepToolkits.map((slug) => slug.toUpperCase()));
+  return connectedToolkits.filter((slug) => allowed.has(slug));
+}
+
+// Helper function to shorten a step output for execution history
+export function truncateStepOutput(output: string): string {
+  if (output.length <= MAX_STEP_OUTPUT_LENGTH) {
+    return output;
+  }
+  return `${output.slice(0, MAX_STEP_OUTPUT_LENGTH)}…`;
+}
+
+/**
+ * Validate workflow steps before saving a task. Returns an error message, or
+ * undefined when the steps are valid.
+ */
+export function validateTaskSteps(steps: TaskStep[]): string | undefined {
+  if (steps.length > MAX_TASK_STEPS) {
+    return `Workflows can have at most ${MAX_TASK_STEPS} follow-up steps`;
+  }
+
+  for (const [index, step] of steps.entries()) {
+    if (!step.prompt.trim()) {
+      return `Step ${index + 2} needs instructions`;
+    }
+    if (step.condition && !step.condition.value.trim()) {
+      return `Step ${index + 2} needs text for its condition`;
+    }
+  }
+}
+
+// Helper function to describe a step condition for display
+export function describeStepCondition(
+  condition: TaskStepCondition | undefined
+): string {
+  if (!condition) {
+    return "Always runs";
+  }
+  const verb =
+    condition.operator === "contains" ? "mentions" : "does not mention";
+  return `Runs if the previous step ${verb} "${condition.value.trim()}"`;
+}
@@ -0,0 +1,362 @@
+/**
+ * Connector events that start a background agent. Composio watches the
+ * connected account and posts each event to our webhook, which runs the
+ * task with the event as context.
+ */
+
+export type TaskTriggerType =
+  | "gmail_new_message"
+  | "github_new_issue"
+  | "linear_new_issue"
+  | "slack_mention";
+
+export type TaskTrigger = {
+  type: TaskTriggerType;
+  // Gmail search query, GitHub "owner/repo", Linear team id or Slack mention
+  filter?: string;
+  composioTriggerId?: string; // Set once the trigger is registered
+};
+
+export type TriggerEvent = {
+  id: string;
+  type: TaskTriggerType;
+  summary: string;
+  payload: string; // JSON of the event data, truncated
+  receivedAt: number;
+};
+
+export type ParsedTriggerWebhook = {
+  eventId: string;
+  composioTriggerId: string;
+  data: Record<string, unknown>;
+};
+
+type TaskTriggerConfig = {
+  connector: "gmail" | "github" | "linear" | "slack";
+  label: string;
+  composioSlug: string;
+  filterLabel: string;
+  filterPlaceholder: string;
+  filterRequired: boolean;
+};
+
+export const TASK_TRIGGERS: Record<TaskTriggerType, TaskTriggerConfig> = {
+  gmail_new_message: {
+    connector: "gmail",
+    label: "New Gmail message",
+    composioSlug: "GMAIL_NEW_GMAIL_MESSAGE",
+    filterLabel: "Matching search",
+    filterPlaceholder: "e.g. from:billing@example.com is:important",
+    filterRequired: false,
+  },
+  github_new_issue: {
+    connector: "github",
+    label: "New GitHub issue",
+    composioSlug: "GITHUB_ISSUE_ADDED_EVENT",
+    filterLabel: "Repository",
+    filterPlaceholder: "owner/repo",
+    filterRequired: true,
+  },
+  linear_new_issue: {
+    connector: "linear",
+    label: "New Linear issue",
+    composioSlug: "LINEAR_ISSUE_CREATED_TRIGGER",
+    filterLabel: "Team ID",
+    filterPlaceholder: "Leave empty for all teams",
+    filterRequired: false,
+  },
+  slack_mention: {
+    connector: "slack",
+    label: "New Slack mention",
+    composioSlug: "SLACK_RECEIVE_MESSAGE",
+    filterLabel: "Mention",
+    filterPlaceholder: "Your Slack member ID, e.g. U0123ABCD",
+    filterRequired: true,
+  },
+};
+
+export const TASK_TRIGGER_TYPES = Object.keys(
+  TASK_TRIGGERS
+) as TaskTriggerType[];
+
+export const MAX_TRIGGER_PAYLOAD_LENGTH = 4000;
+// Events that arrive while a run is going wait in a queue of this size
+export const MAX_PENDING_TRIGGER_EVENTS = 10;
+// Event ids remembered per task to drop redeliveries
+const RECENT_TRIGGER_EVENT_COUNT = 50;
+
+const GITHUB_REPOSITORY_REGEX = /^[\w.-]+\/[\w.-]+$/;
+// Strips the "<@" and ">" Slack puts around member ids
+const MENTION_WRAPPER_REGEX = /^<?@?|>$/g;
+const SIGNATURE_VERSION_PREFIX = "v1,";
+// Reject webhooks signed more than five minutes away from now
+const WEBHOOK_TOLERANCE_MS = 5 * 60 * 1000;
+
+/**
+ * Add an event id to the ids a task has recently seen, keeping the newest
+ */
+export function rememberTriggerEventId(
+  recentEventIds: string[] | undefined,
+  eventId: string
+): string[] {
+  return [...(recentEventIds ?? []), eventId].slice(
+    -RECENT_TRIGGER_EVENT_COUNT
+  );
+}
+
+/**
+ * Validate a trigger before saving a task. Returns an error message, or
+ * undefined when the trigger is valid.
+ */
+export function validateTaskTrigger(
+  trigger: TaskTrigger | undefined
+): string | undefined {
+  if (!trigger) {
+    return "Choose an event that starts this agent";
+  }
+  const config = TASK_TRIGGERS[trigger.type];
+  if (!config) {
+    return "Unknown trigger event";
+  }
+  const filter = trigger.filter?.trim() ?? "";
+  if (config.filterRequired && !filter) {
+    return `${config.label} triggers need a ${config.filterLabel.toLowerCase()}`;
+  }
+  if (
+    trigger.type === "github_new_issue" &&
+    !GITHUB_REPOSITORY_REGEX.test(filter)
+  ) {
+    return "Repositories must use the owner/repo format";
+  }
+}
+
+/**
+ * Get the Composio trigger config for a task trigger. Slack mentions are
+ * matched by us, since Composio reports every message.
+ */
+export function getComposioTriggerConfig(
+  trigger: TaskTrigger
+): Record<string, unknown> {
+  const filter = trigger.filter?.trim();
+  switch (trigger.type) {
+    case "gmail_new_message":
+      return filter ? { userId: "me", query: filter } : { userId: "me" };
+    case "github_new_issue": {
+      const [owner, repo] = (filter ?? "").split("/");
+      return { owner, repo };
+    }
+    case "linear_new_issue":
+      return filter ? { team_id: filter } : {};
+    default:
+      return {};
+  }
+}
+
+// Helper function to read the first string field found in an event
+function pickString(
+  data: Record<string, unknown>,
+  paths: string[]
+): string | undefined {
+  for (const path of paths) {
+    let value: unknown = data;
+    for (const key of path.split(".")) {
+      value =
+        value && typeof value === "object"
+          ? (value as Record<string, unknown>)[key]
+          : undefined;
+    }
+    if (typeof value === "string" && value.trim()) {
+      return value.trim();
+    }
+    if (typeof value === "number") {
+      return String(value);
+    }
+  }
+}
+
+/**
+ * Check whether an event should run the task. Only Slack messages are
+ * filtered here; the other triggers are filtered by Composio.
+ */
+export function matchesTriggerEvent(
+  trigger: TaskTrigger,
+  data: Record<string, unknown>
+): boolean {
+  if (trigger.type !== "slack_mention") {
+    return true;
+  }
+  const mention = trigger.filter?.trim().replace(MENTION_WRAPPER_REGEX, "");
+  const text = pickString(data, ["text", "message.text", "event.text"]);
+  if (!(mention && text)) {
+    return false;
+  }
+  return (
+    text.includes(`<@${mention}>`) ||
+    text.toLowerCase().includes(`@${mention.toLowerCase()}`)
+  );
+}
+
+/**
+ * Summarize an event in one line, e.g. for the task's execution history
+ */
+export function summarizeTriggerEvent(
+  type: TaskTriggerType,
+  data: Record<string, unknown>
+): string {
+  switch (type) {
+    case "gmail_new_message": {
+      const sender = pickString(data, ["sender", "from", "payload.sender"]);
+      const subject = pickString(data, ["subject", "payload.subject"]);
+      return `Email from ${sender ?? "unknown sender"}: ${subject ?? "(no subject)"}`;
+    }
+    case "github_new_issue": {
+      const number = pickString(data, ["number", "issue.number"]);
+      const title = pickString(data, ["title", "issue.title"]);
+      return `GitHub issue${number ? ` #${number}` : ""}: ${title ?? "(untitled)"}`;
+    }
+    case "linear_new_issue": {
+      const identifier = pickString(data, ["identifier", "data.identifier"]);
+      const title = pickString(data, ["title", "data.title"]);
+      return `Linear issue${identifier ? ` ${identifier}` : ""}: ${title ?? "(untitled)"}`;
+    }
+    case "slack_mention": {
+      const text = pickString(data, ["text", "message.text", "event.text"]);
+      return `Slack mention: ${text ?? "(no text)"}`;
+    }
+    default:
+      return "Trigger event";
+  }
+}
+
+// Helper function to serialize event data for the prompt
+export function serializeTriggerPayload(data: Record<string, unknown>) {
+  const json = JSON.stringify(data, null, 2);
+  if (json.length <= MAX_TRIGGER_PAYLOAD_LENGTH) {
+    return json;
+  }
+  return `${json.slice(0, MAX_TRIGGER_PAYLOAD_LENGTH)}…`;
+}
+
+/**
+ * Add the triggering event to a task prompt, so the agent knows what it is
+ * reacting to
+ */
+export function buildTriggerEventPrompt(
+  prompt: string,
+  event: TriggerEvent
+): string {
+  return `${prompt}
+
+This run was started by an event: ${event.summary}
+Event data:
+\`\`\`json
+${event.payload}
+\`\`\``;
+}
+
+// Helper function to describe a trigger for display
+export function describeTrigger(trigger: TaskTrigger | undefined): string {
+  if (!trigger) {
+    return "When an event arrives";
+  }
+  const config = TASK_TRIGGERS[trigger.type];
+  const filter = trigger.filter?.trim();
+  if (!config) {
+    return "When an event arrives";
+  }
+  return filter
+    ? `On ${config.label.toLowerCase()} (${filter})`
+    : `On ${config.label.toLowerCase()}`;
+}
+
+/**
+ * Read a Composio trigger webhook. Handles the current payload, which names
+ * the trigger in `metadata`, and the older one that puts it in `data`.
+ * Returns null when the body is not a trigger event.
+ */
+export function parseTriggerWebhook(
+  body: unknown,
+  fallbackEventId?: string
+): ParsedTriggerWebhook | null {
+  if (!body || typeof body !== "object") {
+    return null;
+  }
+  const record = body as Record<string, unknown>;
+  const data =
+    record.data && typeof record.data === "object"
+      ? (record.data as Record<string, unknown>)
+      : undefined;
+  if (!data) {
+    return null;
+  }
+  const composioTriggerId =
+    pickString(record, ["metadata.trigger_id", "metadata.id"]) ??
+    pickString(data, ["trigger_nano_id", "trigger_id"]);
+  const eventId = pickString(record, ["id", "log_id"]) ?? fallbackEventId;
+  if (!(composioTriggerId && eventId)) {
+    return null;
+  }
+  return { eventId, composioTriggerId, data };
+}
+
+// Helper function to compare two strings in constant time
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff += a.charCodeAt(i) === b.charCodeAt(i) ? 0 : 1;
+  }
+  return diff === 0;
+}
+
+/**
+ * Verify the signature Composio puts on webhooks: an HMAC-SHA256 of
+ * `id.timestamp.body` with the webhook secret, sent as `v1,<base64>`.
+ */
+export async function verifyWebhookSignature(
+  {
+    body,
+    webhookId,
+    timestamp,
+    signature,
+  }: { body: string; webhookId: string; timestamp: string; signature: string },
+  secret: string,
+  now: number = Date.now()
+): Promise<boolean> {
+  const timestampMs = Number(timestamp) * 1000;
+  if (
+    !Number.isFinite(timestampMs) ||
+    Math.abs(now - timestampMs) > WEBHOOK_TOLERANCE_MS
+  ) {
+    return false;
+  }
+
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const digest = await crypto.subtle.sign(
+    "HMAC",
+    key,
+    encoder.encode(`${webhookId}.${timestamp}.${body}`)
+  );
+  const expected = btoa(String.fromCharCode(...new Uint8Array(digest)));
+
+  // The header may list several signatures separated by spaces
+  return signature
+    .split(" ")
+    .some(
+      (candidate) =>
+        candidate.startsWith(SIGNATURE_VERSION_PREFIX) &&
+        timingSafeEqual(
+          candidate.slice(SIGNATURE_VERSION_PREFIX.length),
+          expected
+        )
+    );
+}
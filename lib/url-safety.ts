@@ -0,0 +1,150 @@
+import { lookup } from "node:dns/promises";
+import { request as httpRequest, type IncomingMessage } from "node:http";
+import { request as httpsRequest } from "node:https";
+import { isIP, type LookupFunction } from "node:net";
+import { Readable } from "node:stream";
+import { isLocalHostname, isPrivateAddress } from "./private-address";
+
+/**
+ * Guards server-side fetches of user-supplied URLs against SSRF: only public
+ * http(s) hosts may be fetched, never private, loopback or link-local ones.
+ */
+
+const IPV6_BRACKETS_REGEX = /^\[|\]$/g;
+
+export class UnsafeUrlError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UnsafeUrlError";
+  }
+}
+
+/**
+ * Check that a URL may be fetched by the server: http(s), no credentials, and
+ * a host that only resolves to public addresses. Throws UnsafeUrlError.
+ *
+ * The host is resolved again when it is fetched, so the request itself must
+ * connect through lookupPublicAddress to catch a DNS record that changes in
+ * between; redirects must be checked one hop at a time.
+ */
+export async function assertPublicUrl(value: string): Promise<URL> {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new UnsafeUrlError("The URL is not valid");
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new UnsafeUrlError("Only http and https URLs can be fetched");
+  }
+  if (url.username || url.password) {
+    throw new UnsafeUrlError("URLs with credentials cannot be fetched");
+  }
+
+  const hostname = url.hostname.replace(IPV6_BRACKETS_REGEX, "").toLowerCase();
+  if (isLocalHostname(hostname)) {
+    throw new UnsafeUrlError("Local addresses cannot be fetched");
+  }
+
+  const addresses = isIP(hostname)
+    ? [hostname]
+    : await lookup(hostname, { all: true, verbatim: true })
+        .then((results) => results.map((result) => result.address))
+        .catch(() => {
+          throw new UnsafeUrlError(`Could not resolve ${hostname}`);
+        });
+  if (addresses.length === 0 || addresses.some(isPrivateAddress)) {
+    throw new UnsafeUrlError("Private and local addresses cannot be fetched");
+  }
+  return url;
+}
+
+/**
+ * DNS lookup for outgoing requests that refuses hosts resolving to private
+ * or local addresses, so the address that is checked is the one connected to
+ */
+export const lookupPublicAddress: LookupFunction = (
+  hostname,
+  options,
+  callback
+) => {
+  lookup(hostname, { family: options.family, all: true, verbatim: true }).then(
+    (addresses) => {
+      if (
+        addresses.length === 0 ||
+        addresses.some((result) => isPrivateAddress(result.address))
+      ) {
+        callback(
+          new UnsafeUrlError("Private and local addresses cannot be fetched"),
+          ""
+        );
+        return;
+      }
+      if (options.all) {
+        callback(null, addresses);
+        return;
+      }
+      callback(null, addresses[0].address, addresses[0].family);
+    },
+    (error: NodeJS.ErrnoException) => callback(error, "")
+  );
+};
+
+// Helper function to copy the headers of a Node.js response to a Headers
+function toHeaders(response: IncomingMessage): Headers {
+  const headers = new Headers();
+  for (const [name, value] of Object.entries(response.headers)) {
+    for (const item of Array.isArray(value) ? value : [value]) {
+      if (item !== undefined) {
+        headers.append(name, item);
+      }
+    }
+  }
+  return headers;
+}
+
+/**
+ * fetch for URLs that users configure, such as custom model endpoints. It
+ * connects through lookupPublicAddress, so the address that was checked is
+ * the one connected to, and refuses redirects instead of following them.
+ */
+export async function publicFetch(
+  input: string | URL | Request,
+  init?: RequestInit
+): Promise<Response> {
+  const request = new Request(input, init);
+  const url = await assertPublicUrl(request.url);
+  const body = request.body
+    ? Buffer.from(await request.arrayBuffer())
+    : undefined;
+  const send = url.protocol === "https:" ? httpsRequest : httpRequest;
+
+  const response = await new Promise<IncomingMessage>((resolve, reject) => {
+    send(
+      url,
+      {
+        method: request.method,
+        headers: Object.fromEntries(request.headers),
+        lookup: lookupPublicAddress,
+        signal: request.signal,
+      },
+      resolve
+    )
+      .on("error", reject)
+      .end(body);
+  });
+
+  const status = response.statusCode ?? 0;
+  if (status >= 300 && status < 400) {
+    response.destroy();
+    throw new UnsafeUrlError("Redirects are not followed for this URL");
+  }
+  const hasBody = request.method !== "HEAD" && status !== 204;
+  if (!hasBody) {
+    response.resume();
+  }
+  return new Response(
+    hasBody ? (Readable.toWeb(response) as ReadableStream<Uint8Array>) : null,
+    { status, statusText: response.statusMessage, headers: toHeaders(response) }
+  );
+}
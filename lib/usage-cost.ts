@@ -0,0 +1,51 @@
+import type { ModelPricing } from "@/lib/config/schemas";
+
+const TOKENS_PER_PRICE_UNIT = 1_000_000;
+
+export type TokenUsage = {
+  inputTokens?: number;
+  outputTokens?: number;
+  totalTokens?: number;
+  cachedInputTokens?: number;
+};
+
+/**
+ * Compute the cost of a model call in USD, or undefined when the model has
+ * no pricing. Some providers report reasoning tokens outside outputTokens,
+ * so billable output is whatever the total holds beyond the input.
+ */
+export function computeCostUsd(
+  pricing: ModelPricing | undefined,
+  usage: TokenUsage
+): number | undefined {
+  if (!pricing) {
+    return;
+  }
+  const inputTokens = usage.inputTokens ?? 0;
+  const cachedTokens = Math.min(usage.cachedInputTokens ?? 0, inputTokens);
+  const outputTokens = Math.max(
+    usage.outputTokens ?? 0,
+    (usage.totalTokens ?? 0) - inputTokens
+  );
+
+  return (
+    ((inputTokens - cachedTokens) * pricing.input +
+      cachedTokens * (pricing.cachedInput ?? pricing.input) +
+      outputTokens * pricing.output) /
+    TOKENS_PER_PRICE_UNIT
+  );
+}
+
+/**
+ * Format a USD amount, keeping precision for the fractions of a cent a
+ * single answer usually costs
+ */
+export function formatCostUsd(costUsd: number): string {
+  if (costUsd === 0) {
+    return "$0.00";
+  }
+  if (costUsd < 0.01) {
+    return `$${costUsd.toFixed(4)}`;
+  }
+  return `$${costUsd.toFixed(2)}`;
+}
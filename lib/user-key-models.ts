@@ -0,0 +1,62 @@
+import { createAnthropic } from "@ai-sdk/anthropic";
+import { createGoogleGenerativeAI } from "@ai-sdk/google";
+import { createMistral } from "@ai-sdk/mistral";
+import { createOpenAI } from "@ai-sdk/openai";
+import { createOpenAICompatible } from "@ai-sdk/openai-compatible";
+import { createOpenRouter } from "@openrouter/ai-sdk-provider";
+import type { LanguageModel } from "ai";
+import {
+  type ApiKeyProvider,
+  OPENAI_COMPATIBLE_BASE_URLS,
+} from "@/lib/api-key-providers";
+import type { Model } from "@/lib/config/schemas";
+
+/**
+ * Get the provider whose key a model runs on when the user brings their own.
+ * Models routed through OpenRouter or the AI Gateway name their vendor here.
+ */
+export function getUserKeyProvider(model: Model): string {
+  return model.apiKeyUsage?.provider ?? model.provider;
+}
+
+/**
+ * Get the model id to send to the key's provider. Defaults to the id of the
+ * built-in model, which already targets that provider.
+ */
+export function getUserKeyModelId(model: Model): string {
+  return model.apiKeyUsage?.modelId ?? model.api_sdk?.modelId ?? model.id;
+}
+
+/**
+ * Create a language model that calls the provider directly with the user's
+ * key, instead of the built-in one
+ */
+export function createUserKeyModel(
+  model: Model,
+  apiKey: string
+): LanguageModel {
+  const provider = getUserKeyProvider(model) as ApiKeyProvider;
+  const modelId = getUserKeyModelId(model);
+
+  switch (provider) {
+    case "anthropic":
+      return createAnthropic({ apiKey })(modelId);
+    case "openai":
+      return createOpenAI({ apiKey })(modelId);
+    case "gemini":
+      return createGoogleGenerativeAI({ apiKey })(modelId);
+    case "openrouter":
+      return createOpenRouter({ apiKey })(modelId);
+    case "mistral":
+      return createMistral({ apiKey })(modelId);
+    default: {
+      const baseURL = OPENAI_COMPATIBLE_BASE_URLS[provider];
+      if (!baseURL) {
+        throw new Error(`User API keys are not supported for ${provider}`);
+      }
+      return createOpenAICompatible({ name: provider, baseURL, apiKey })(
+        modelId
+      );
+    }
+  }
+}
@@ -0,0 +1,44 @@
+// Local receiver for testing background agent webhook notifications.
+// Usage: WEBHOOK_SECRET=<task signing secret> node scripts/webhook-receiver.mjs [port]
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { createServer } from "node:http";
+
+const port = Number(process.argv[2] ?? 4000);
+const secret = process.env.WEBHOOK_SECRET;
+if (!secret) {
+  console.error("Set WEBHOOK_SECRET to the signing secret shown on the task");
+  process.exit(1);
+}
+
+// Helper function to check the X-OSChat-Signature header of a delivery
+function isValidSignature(body, timestamp, signature) {
+  const expected = `sha256=${createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex")}`;
+  return (
+    typeof signature === "string" &&
+    signature.length === expected.length &&
+    timingSafeEqual(Buffer.from(signature), Buffer.from(expected))
+  );
+}
+
+createServer((req, res) => {
+  let body = "";
+  req.on("data", (chunk) => {
+    body += chunk;
+  });
+  req.on("end", () => {
+    const timestamp = req.headers["x-oschat-timestamp"];
+    const signature = req.headers["x-oschat-signature"];
+    if (!isValidSignature(body, timestamp, signature)) {
+      console.warn("Rejected delivery with an invalid signature");
+      res.writeHead(401).end();
+      return;
+    }
+
+    console.log(req.headers["x-oschat-event"], JSON.parse(body));
+    res.writeHead(200).end();
+  });
+}).listen(port, () => {
+  console.log(`Listening for task webhooks on http://localhost:${port}`);
+});